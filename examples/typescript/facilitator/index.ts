@@ -2,6 +2,7 @@
 import { config } from "dotenv";
 import express, { Request, Response } from "express";
 import { verify, settle } from "x402/facilitator";
+import { createInMemoryPaymentStore } from "x402/shared";
 import {
   PaymentRequirementsSchema,
   type PaymentRequirements,
@@ -15,6 +16,7 @@ import {
   ConnectedClient,
   SupportedPaymentKind,
   isSvmSignerWallet,
+  evm,
   type X402Config,
 } from "x402/types";
 
@@ -23,16 +25,18 @@ config();
 const EVM_PRIVATE_KEY = process.env.EVM_PRIVATE_KEY || "";
 const SVM_PRIVATE_KEY = process.env.SVM_PRIVATE_KEY || "";
 const SVM_RPC_URL = process.env.SVM_RPC_URL || "";
+const EVM_PERMIT_ROUTER = process.env.EVM_PERMIT_ROUTER || "";
 
 if (!EVM_PRIVATE_KEY && !SVM_PRIVATE_KEY) {
   console.error("Missing required environment variables");
   process.exit(1);
 }
 
-// Create X402 config with custom RPC URL if provided
-const x402Config: X402Config | undefined = SVM_RPC_URL
-  ? { svmConfig: { rpcUrl: SVM_RPC_URL } }
-  : undefined;
+// Create X402 config with custom RPC URL if provided, and reject payments settled twice
+const x402Config: X402Config = {
+  svmConfig: SVM_RPC_URL ? { rpcUrl: SVM_RPC_URL } : undefined,
+  paymentStore: createInMemoryPaymentStore(),
+};
 
 const app = express();
 
@@ -47,6 +51,7 @@ type VerifyRequest = {
 type SettleRequest = {
   paymentPayload: PaymentPayload;
   paymentRequirements: PaymentRequirements;
+  settlementAmount?: string;
 };
 
 app.get("/verify", (req: Request, res: Response) => {
@@ -102,11 +107,29 @@ app.get("/supported", async (req: Request, res: Response) => {
 
   // evm
   if (EVM_PRIVATE_KEY) {
+    const signer = await createSigner("base-sepolia", EVM_PRIVATE_KEY);
+    const facilitator = evm.isSignerWallet(signer as evm.EvmSigner)
+      ? (signer as evm.SignerWallet).account.address
+      : undefined;
+
     kinds.push({
       x402Version: 1,
       scheme: "exact",
       network: "base-sepolia",
     });
+    // upto payments are permits granted to the router, which only the facilitator may settle
+    // through
+    if (EVM_PERMIT_ROUTER) {
+      kinds.push({
+        x402Version: 1,
+        scheme: "upto",
+        network: "base-sepolia",
+        extra: {
+          router: EVM_PERMIT_ROUTER,
+          facilitator,
+        },
+      });
+    }
   }
 
   // svm
@@ -145,7 +168,13 @@ app.post("/settle", async (req: Request, res: Response) => {
     }
 
     // settle
-    const response = await settle(signer, paymentPayload, paymentRequirements, x402Config);
+    const response = await settle(
+      signer,
+      paymentPayload,
+      paymentRequirements,
+      x402Config,
+      body.settlementAmount,
+    );
     res.json(response);
   } catch (error) {
     console.error("error", error);
@@ -1,6 +1,7 @@
 import { config } from "dotenv";
 import express from "express";
-import { exact } from "x402/schemes";
+import { exact, getPaymentId } from "x402/schemes";
+import { createSettlementWorker, paymentRequiredBody } from "x402/server";
 import {
   Network,
   PaymentPayload,
@@ -8,6 +9,8 @@ import {
   Price,
   Resource,
   settleResponseHeader,
+  toX402Error,
+  X402Error,
 } from "x402/types";
 import { useFacilitator } from "x402/verify";
 import { processPriceToAtomicAmount, findMatchingPaymentRequirements } from "x402/shared";
@@ -24,6 +27,11 @@ if (!facilitatorUrl || !payTo) {
 
 const app = express();
 const { verify, settle } = useFacilitator({ url: facilitatorUrl });
+const settlementWorker = createSettlementWorker(settle, {
+  onSettled: job => console.log("Payment settled:", job.settleResponse?.transaction),
+  // In a real application, you would notify the user or revoke access here
+  onFailed: job => console.error("Payment settlement failed:", job.id, job.error),
+});
 const x402Version = 1;
 
 /**
@@ -80,11 +88,9 @@ async function verifyPayment(
 ): Promise<boolean> {
   const payment = req.header("X-PAYMENT");
   if (!payment) {
-    res.status(402).json({
-      x402Version,
-      error: "X-PAYMENT header is required",
-      accepts: paymentRequirements,
-    });
+    res
+      .status(402)
+      .json(paymentRequiredBody(paymentRequirements, new X402Error("payment_required")));
     return false;
   }
 
@@ -93,11 +99,9 @@ async function verifyPayment(
     decodedPayment = exact.evm.decodePayment(payment);
     decodedPayment.x402Version = x402Version;
   } catch (error) {
-    res.status(402).json({
-      x402Version,
-      error: error || "Invalid or malformed payment header",
-      accepts: paymentRequirements,
-    });
+    res
+      .status(402)
+      .json(paymentRequiredBody(paymentRequirements, toX402Error(error, "invalid_payment")));
     return false;
   }
 
@@ -107,20 +111,16 @@ async function verifyPayment(
       paymentRequirements[0];
     const response = await verify(decodedPayment, selectedPaymentRequirement);
     if (!response.isValid) {
-      res.status(402).json({
-        x402Version,
-        error: response.invalidReason,
-        accepts: paymentRequirements,
-        payer: response.payer,
-      });
+      const error = new X402Error(response.invalidReason ?? "invalid_payment");
+      res.status(402).json(paymentRequiredBody(paymentRequirements, error, response.payer));
       return false;
     }
   } catch (error) {
-    res.status(402).json({
-      x402Version,
-      error,
-      accepts: paymentRequirements,
-    });
+    res
+      .status(402)
+      .json(
+        paymentRequiredBody(paymentRequirements, toX402Error(error, "unexpected_verify_error")),
+      );
     return false;
   }
 
@@ -151,21 +151,9 @@ app.get("/delayed-settlement", async (req, res) => {
     },
   });
 
-  // Process payment asynchronously
-  try {
-    const settleResponse = await settle(
-      exact.evm.decodePayment(req.header("X-PAYMENT")!),
-      paymentRequirements[0],
-    );
-    const responseHeader = settleResponseHeader(settleResponse);
-    // In a real application, you would store this response header
-    // and associate it with the payment for later verification
-    console.log("Payment settled:", responseHeader);
-  } catch (error) {
-    console.error("Payment settlement failed:", error);
-    // In a real application, you would handle the failed payment
-    // by marking it for retry or notifying the user
-  }
+  // Queue the payment, it is settled in the background and retried if the settlement fails
+  const payment = exact.evm.decodePayment(req.header("X-PAYMENT")!);
+  await settlementWorker.enqueue(getPaymentId(payment), payment, paymentRequirements[0]);
 });
 
 // Dynamic price example endpoint
@@ -206,11 +194,11 @@ app.get("/dynamic-price", async (req, res) => {
       },
     });
   } catch (error) {
-    res.status(402).json({
-      x402Version,
-      error,
-      accepts: paymentRequirements,
-    });
+    res
+      .status(402)
+      .json(
+        paymentRequiredBody(paymentRequirements, toX402Error(error, "unexpected_settle_error")),
+      );
   }
 });
 
@@ -263,11 +251,11 @@ app.get("/multiple-payment-requirements", async (req, res) => {
       },
     });
   } catch (error) {
-    res.status(402).json({
-      x402Version,
-      error,
-      accepts: paymentRequirements,
-    });
+    res
+      .status(402)
+      .json(
+        paymentRequiredBody(paymentRequirements, toX402Error(error, "unexpected_settle_error")),
+      );
   }
 });
 
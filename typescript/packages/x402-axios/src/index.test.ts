@@ -5,12 +5,15 @@ import {
   AxiosResponse,
   InternalAxiosRequestConfig,
 } from "axios";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { evm, PaymentRequirements, ChainIdToNetwork, Signer, MultiNetworkSigner } from "x402/types";
-import { withPaymentInterceptor } from "./index";
+import { hashRequestBody, signAccessToken, signPaymentReceipt } from "x402/shared";
+import { verifyReceipt, withPaymentInterceptor } from "./index";
 
 // Mock the createPaymentHeader function
-vi.mock("x402/client", () => ({
+vi.mock("x402/client", async importOriginal => ({
+  ...(await importOriginal<typeof import("x402/client")>()),
   createPaymentHeader: vi.fn(),
   selectPaymentRequirements: vi.fn(),
 }));
@@ -45,7 +48,7 @@ describe("withPaymentInterceptor()", () => {
   const createAxiosError = (
     status: number,
     config?: InternalAxiosRequestConfig,
-    data?: { accepts: PaymentRequirements[]; x402Version: number },
+    data?: { accepts: PaymentRequirements[]; x402Version: number; x402Versions?: number[] },
   ): AxiosError => {
     return new AxiosError(
       "Error",
@@ -69,10 +72,14 @@ describe("withPaymentInterceptor()", () => {
     // Mock axios client
     mockAxiosClient = {
       interceptors: {
+        request: {
+          use: vi.fn(),
+        },
         response: {
           use: vi.fn(),
         },
       },
+      getUri: vi.fn(config => config.url),
       request: vi.fn(),
     } as unknown as AxiosInstance;
 
@@ -102,6 +109,29 @@ describe("withPaymentInterceptor()", () => {
     expect(mockAxiosClient.interceptors.response.use).toHaveBeenCalled();
   });
 
+  it("should present the access token of a paid session on later requests", async () => {
+    const token = await signAccessToken(
+      { jti: "1", group: "/articles/*", exp: Math.floor(Date.now() / 1000) + 60 },
+      "secret",
+    );
+    const [onResponse] = (mockAxiosClient.interceptors.response.use as ReturnType<typeof vi.fn>)
+      .mock.calls[0];
+    const [onRequest] = (mockAxiosClient.interceptors.request.use as ReturnType<typeof vi.fn>).mock
+      .calls[0];
+
+    onResponse({
+      status: 200,
+      headers: { "x-access-token": token },
+      config: { url: "https://api.example.com/articles/1" },
+    });
+    const requestConfig = onRequest({
+      headers: new AxiosHeaders(),
+      url: "https://api.example.com/articles/2",
+    });
+
+    expect(requestConfig.headers["X-ACCESS-TOKEN"]).toBe(token);
+  });
+
   it("should not handle non-402 errors", async () => {
     const error = createAxiosError(404);
     await expect(interceptor(error)).rejects.toBe(error);
@@ -136,6 +166,7 @@ describe("withPaymentInterceptor()", () => {
       1,
       validPaymentRequirements[0],
       undefined,
+      undefined,
     );
     expect(mockAxiosClient.request).toHaveBeenCalledWith({
       ...error.config,
@@ -147,6 +178,57 @@ describe("withPaymentInterceptor()", () => {
     });
   });
 
+  it("should pay with the highest x402 version accepted by the server", async () => {
+    const { createPaymentHeader } = await import("x402/client");
+    (createPaymentHeader as ReturnType<typeof vi.fn>).mockResolvedValue("payment-header-value");
+    (mockAxiosClient.request as ReturnType<typeof vi.fn>).mockResolvedValue({} as AxiosResponse);
+
+    await interceptor(
+      createAxiosError(402, createErrorConfig(), {
+        accepts: validPaymentRequirements,
+        x402Version: 1,
+        x402Versions: [1, 2],
+      }),
+    );
+
+    expect(createPaymentHeader).toHaveBeenCalledWith(
+      mockWalletClient,
+      2,
+      validPaymentRequirements[0],
+      undefined,
+      undefined,
+    );
+  });
+
+  it("should bind the payment to the request when the server asks for it", async () => {
+    const { createPaymentHeader } = await import("x402/client");
+    (createPaymentHeader as ReturnType<typeof vi.fn>).mockResolvedValue("payment-header-value");
+    (mockAxiosClient.request as ReturnType<typeof vi.fn>).mockResolvedValue({} as AxiosResponse);
+    const bindingRequirements = [
+      { ...validPaymentRequirements[0], extra: { requestBinding: true } },
+    ];
+    const config = {
+      ...createErrorConfig(),
+      method: "post",
+      url: "/search",
+      baseURL: "https://api.example.com",
+      params: { q: "x402" },
+      data: "{}",
+    } as InternalAxiosRequestConfig;
+
+    await interceptor(
+      createAxiosError(402, config, { accepts: bindingRequirements, x402Version: 1 }),
+    );
+
+    expect(createPaymentHeader).toHaveBeenCalledWith(
+      mockWalletClient,
+      1,
+      bindingRequirements[0],
+      undefined,
+      { method: "post", url: "https://api.example.com/search?q=x402", body: "{}" },
+    );
+  });
+
   it("should not retry if already retried", async () => {
     const error = createAxiosError(402, createErrorConfig(true), {
       accepts: validPaymentRequirements,
@@ -229,7 +311,8 @@ describe("withPaymentInterceptor() - SVM and MultiNetwork", () => {
       };
     });
 
-    vi.doMock("x402/client", () => ({
+    vi.doMock("x402/client", async () => ({
+      ...(await vi.importActual("x402/client")),
       createPaymentHeader: vi.fn().mockResolvedValue("payment-header-value"),
       selectPaymentRequirements: vi.fn((reqs: PaymentRequirements[]) => reqs[0]),
     }));
@@ -238,7 +321,8 @@ describe("withPaymentInterceptor() - SVM and MultiNetwork", () => {
     const { selectPaymentRequirements } = await import("x402/client");
 
     const mockAxiosClient: AxiosInstance = {
-      interceptors: { response: { use: vi.fn() } },
+      interceptors: { request: { use: vi.fn() }, response: { use: vi.fn() } },
+      getUri: vi.fn(config => config.url),
       request: vi.fn().mockResolvedValue({ data: "success" } as AxiosResponse),
     } as unknown as AxiosInstance;
 
@@ -299,7 +383,8 @@ describe("withPaymentInterceptor() - SVM and MultiNetwork", () => {
       };
     });
 
-    vi.doMock("x402/client", () => ({
+    vi.doMock("x402/client", async () => ({
+      ...(await vi.importActual("x402/client")),
       createPaymentHeader: vi.fn().mockResolvedValue("payment-header-value"),
       selectPaymentRequirements: vi.fn((reqs: PaymentRequirements[]) => reqs[0]),
     }));
@@ -308,7 +393,8 @@ describe("withPaymentInterceptor() - SVM and MultiNetwork", () => {
     const { selectPaymentRequirements } = await import("x402/client");
 
     const mockAxiosClient: AxiosInstance = {
-      interceptors: { response: { use: vi.fn() } },
+      interceptors: { request: { use: vi.fn() }, response: { use: vi.fn() } },
+      getUri: vi.fn(config => config.url),
       request: vi.fn().mockResolvedValue({ data: "success" } as AxiosResponse),
     } as unknown as AxiosInstance;
 
@@ -353,3 +439,57 @@ describe("withPaymentInterceptor() - SVM and MultiNetwork", () => {
     expect(selectPaymentRequirements).toHaveBeenCalledWith(expect.any(Array), undefined, "exact");
   });
 });
+
+describe("verifyReceipt()", () => {
+  const privateKey = generatePrivateKey();
+  const signer = privateKeyToAccount(privateKey).address;
+
+  /**
+   * Creates the response of a POST request carrying a receipt
+   *
+   * @param url - The URL the receipt is issued for
+   * @returns The response
+   */
+  async function createReceiptResponse(url: string): Promise<AxiosResponse> {
+    const receipt = await signPaymentReceipt(
+      {
+        request: { method: "POST", url, bodyHash: hashRequestBody('{"q":"x402"}') },
+        paymentRequirements: {} as PaymentRequirements,
+        network: "base-sepolia",
+        transaction: "0xabc",
+        timestamp: Math.floor(Date.now() / 1000),
+      },
+      privateKey,
+    );
+    return {
+      status: 200,
+      statusText: "OK",
+      data: {},
+      headers: { "x-payment-receipt": receipt },
+      config: {
+        headers: new AxiosHeaders(),
+        method: "post",
+        baseURL: "https://api.example.com",
+        url: "/search",
+        params: { page: 2 },
+        data: '{"q":"x402"}',
+      },
+    };
+  }
+
+  it("returns the receipt of the request when it is signed by the server", async () => {
+    const response = await createReceiptResponse("https://api.example.com/search?page=2");
+
+    expect(await verifyReceipt(response, { signer })).toMatchObject({ transaction: "0xabc" });
+  });
+
+  it("rejects receipts of other requests or signers", async () => {
+    const response = await createReceiptResponse("https://api.example.com/search?page=3");
+    const other = await createReceiptResponse("https://api.example.com/search?page=2");
+
+    expect(await verifyReceipt(response, { signer })).toBeUndefined();
+    expect(
+      await verifyReceipt(other, { signer: privateKeyToAccount(generatePrivateKey()).address }),
+    ).toBeUndefined();
+  });
+});
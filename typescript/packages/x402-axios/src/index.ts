@@ -1,5 +1,7 @@
-import { AxiosInstance, AxiosError } from "axios";
+import axios, { AxiosInstance, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { Address } from "viem";
 import {
+  BoundRequest,
   ChainIdToNetwork,
   PaymentRequirements,
   PaymentRequirementsSchema,
@@ -9,13 +11,17 @@ import {
   isSvmSignerWallet,
   Network,
   evm,
+  PaymentReceipt,
   X402Config,
+  X402Error,
 } from "x402/types";
 import {
   createPaymentHeader,
   PaymentRequirementsSelector,
   selectPaymentRequirements,
+  selectX402Version,
 } from "x402/client";
+import { createAccessTokenCache, requiresRequestBinding, verifyPaymentReceipt } from "x402/shared";
 
 /**
  * Enables the payment of APIs using the x402 payment protocol.
@@ -26,6 +32,10 @@ import {
  * 3. Retries the original request with the payment header
  * 4. Exposes the X-PAYMENT-RESPONSE header in the final response
  *
+ * Access tokens returned by servers in session mode are remembered and sent in the
+ * `X-ACCESS-TOKEN` header of later requests to the same origin, so that one payment unlocks many
+ * requests.
+ *
  * @param axiosClient - The Axios instance to add the interceptor to
  * @param walletClient - A wallet client that can sign transactions and create payment headers
  * @param paymentRequirementsSelector - A function that selects the payment requirements from the response
@@ -57,8 +67,34 @@ export function withPaymentInterceptor(
   paymentRequirementsSelector: PaymentRequirementsSelector = selectPaymentRequirements,
   config?: X402Config,
 ) {
+  const accessTokens = createAccessTokenCache();
+
+  /**
+   * Remembers the access token returned by a server in session mode
+   *
+   * @param response - The response of the server
+   */
+  const storeAccessToken = (response: AxiosResponse) => {
+    const token = response.headers?.["x-access-token"];
+    if (typeof token === "string") {
+      accessTokens.set(axiosClient.getUri(response.config), token);
+    }
+  };
+
+  // present the access tokens of paid sessions, the server asks for a payment if none is valid
+  axiosClient.interceptors.request.use(requestConfig => {
+    const tokens = accessTokens.get(axiosClient.getUri(requestConfig));
+    if (tokens) {
+      requestConfig.headers["X-ACCESS-TOKEN"] = tokens;
+    }
+    return requestConfig;
+  });
+
   axiosClient.interceptors.response.use(
-    response => response,
+    response => {
+      storeAccessToken(response);
+      return response;
+    },
     async (error: AxiosError) => {
       if (!error.response || error.response.status !== 402) {
         return Promise.reject(error);
@@ -74,8 +110,9 @@ export function withPaymentInterceptor(
           return Promise.reject(error);
         }
 
-        const { x402Version, accepts } = error.response.data as {
+        const { x402Version, x402Versions, accepts } = error.response.data as {
           x402Version: number;
+          x402Versions?: number[];
           accepts: PaymentRequirements[];
         };
         const parsed = accepts.map(x => PaymentRequirementsSchema.parse(x));
@@ -91,9 +128,14 @@ export function withPaymentInterceptor(
         const selectedPaymentRequirements = paymentRequirementsSelector(parsed, network, "exact");
         const paymentHeader = await createPaymentHeader(
           walletClient,
-          x402Version,
+          // pay with the highest protocol version supported by both sides
+          selectX402Version({ x402Version, x402Versions }, config?.x402Versions),
           selectedPaymentRequirements,
           config,
+          // some routes only accept payments bound to the request they are sent with
+          requiresRequestBinding(selectedPaymentRequirements)
+            ? getBoundRequest(originalConfig)
+            : undefined,
         );
 
         (originalConfig as { __is402Retry?: boolean }).__is402Retry = true;
@@ -112,7 +154,75 @@ export function withPaymentInterceptor(
   return axiosClient;
 }
 
-export { decodeXPaymentResponse } from "x402/shared";
-export { createSigner, type Signer, type MultiNetworkSigner, type X402Config } from "x402/types";
+/**
+ * Describes the request a payment is sent with, for routes binding payments to requests
+ *
+ * @param config - The configuration of the request, whose data is already serialized
+ * @returns The method, absolute URL and body of the request
+ * @throws X402Error if the body cannot be bound to a payment, e.g. form data
+ */
+function getBoundRequest(config: InternalAxiosRequestConfig): BoundRequest {
+  const { data } = config;
+  if (data != null && typeof data !== "string" && !(data instanceof Uint8Array)) {
+    throw new X402Error(
+      "invalid_request_binding",
+      "Only string and binary request bodies can be bound to a payment",
+    );
+  }
+  return { method: config.method ?? "GET", url: axios.getUri(config), body: data ?? undefined };
+}
+
+/**
+ * Verifies the signed receipt returned with a paid response
+ *
+ * Servers configured to sign receipts return them in the `X-PAYMENT-RECEIPT` header. The receipt
+ * must be signed by one of the given addresses and issued for the request of the response: its
+ * method, its URL and its body, when the body was sent as a string.
+ *
+ * @param response - The response of the paid request
+ * @param options - The address the server signs receipts with
+ * @param options.signer - The address, or addresses, the server is known to sign receipts with
+ * @returns The receipt, or undefined if the response has no valid receipt for the request
+ *
+ * @example
+ * ```typescript
+ * const response = await client.post("https://api.example.com/search", { q: "x402" });
+ * const receipt = await verifyReceipt(response, { signer: serverAddress });
+ * ```
+ */
+export async function verifyReceipt(
+  response: AxiosResponse,
+  options: { signer: Address | Address[] },
+): Promise<PaymentReceipt | undefined> {
+  const token = response.headers["x-payment-receipt"];
+  if (typeof token !== "string") {
+    return undefined;
+  }
+  // the request data is serialized by the time the response is received
+  const { data } = response.config;
+  return verifyPaymentReceipt(token, {
+    signer: options.signer,
+    request: {
+      method: response.config.method ?? "GET",
+      url: axios.getUri(response.config),
+      body: data === undefined || data === null ? "" : typeof data === "string" ? data : undefined,
+    },
+  });
+}
+
+export { decodeXPaymentResponse, decodePaymentReceipt } from "x402/shared";
+export {
+  createSigner,
+  FacilitatorError,
+  InvalidPaymentError,
+  PaymentAmountExceededError,
+  UnsupportedSchemeError,
+  X402Error,
+  type ErrorReason,
+  type PaymentReceipt,
+  type Signer,
+  type MultiNetworkSigner,
+  type X402Config,
+} from "x402/types";
 export { type PaymentRequirementsSelector } from "x402/client";
-export type { Hex } from "viem";
+export type { Address, Hex } from "viem";
@@ -1,8 +1,13 @@
 import { NextFunction, Request, Response } from "express";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { findMatchingRoute } from "x402/shared";
+import {
+  computeRoutePatterns,
+  decodePaymentReceipt,
+  decodeXPaymentResponse,
+  findMatchingRoute,
+} from "x402/shared";
 import { getPaywallHtml } from "x402/paywall";
-import { exact } from "x402/schemes";
+import { decodePaymentHeader, exact } from "x402/schemes";
 import {
   PaymentMiddlewareConfig,
   PaymentPayload,
@@ -11,6 +16,7 @@ import {
   RouteConfig,
 } from "x402/types";
 import { useFacilitator } from "x402/verify";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { paymentMiddleware } from "./index";
 import { Address as SolanaAddress } from "@solana/kit";
 
@@ -19,6 +25,9 @@ vi.mock("x402/verify", () => ({
   useFacilitator: vi.fn().mockReturnValue({
     verify: vi.fn(),
     settle: vi.fn(),
+    releaseEscrow: vi.fn(),
+    refundEscrow: vi.fn(),
+    closeChannel: vi.fn(),
     supported: vi.fn(),
     list: vi.fn(),
   }),
@@ -80,18 +89,16 @@ vi.mock("x402/shared", async importOriginal => {
   };
 });
 
-vi.mock("x402/shared/evm", () => ({
-  getUsdcAddressForChain: vi.fn().mockReturnValue("0x036CbD53842c5426634e7929541eC2318f3dCF7e"),
-}));
-
-// Mock exact.evm.decodePayment
+// Mock the scheme registry
 vi.mock("x402/schemes", () => ({
   exact: {
     evm: {
       encodePayment: vi.fn(),
-      decodePayment: vi.fn(),
     },
   },
+  decodePaymentHeader: vi.fn(),
+  getPaymentId: vi.fn(() => "payment-id"),
+  getScheme: vi.fn(),
 }));
 
 describe("paymentMiddleware()", () => {
@@ -103,6 +110,7 @@ describe("paymentMiddleware()", () => {
   let mockSettle: ReturnType<typeof useFacilitator>["settle"];
   let mockSupported: ReturnType<typeof useFacilitator>["supported"];
   let mockList: ReturnType<typeof useFacilitator>["list"];
+  let mockRefund: ReturnType<typeof useFacilitator>["refund"];
 
   const middlewareConfig: PaymentMiddlewareConfig = {
     description: "Test payment",
@@ -171,16 +179,22 @@ describe("paymentMiddleware()", () => {
       setHeader: vi.fn().mockReturnThis(),
       end: vi.fn().mockReturnThis(),
       headersSent: false,
+      locals: {},
     } as unknown as Response;
     mockNext = vi.fn();
     mockVerify = vi.fn();
     mockSettle = vi.fn();
     mockSupported = vi.fn();
     mockList = vi.fn();
+    mockRefund = vi.fn();
 
     vi.mocked(useFacilitator).mockReturnValue({
       verify: mockVerify,
       settle: mockSettle,
+      releaseEscrow: vi.fn(),
+      refundEscrow: vi.fn(),
+      closeChannel: vi.fn(),
+      refund: mockRefund,
       supported: mockSupported,
       list: mockList,
     });
@@ -190,7 +204,7 @@ describe("paymentMiddleware()", () => {
 
     // Setup exact.evm mocks
     vi.mocked(exact.evm.encodePayment).mockReturnValue(encodedValidPayment);
-    vi.mocked(exact.evm.decodePayment).mockReturnValue(validPayment);
+    vi.mocked(decodePaymentHeader).mockReturnValue(validPayment);
 
     // Setup route pattern matching mock
     vi.mocked(findMatchingRoute).mockImplementation((routePatterns, path, method) => {
@@ -225,6 +239,33 @@ describe("paymentMiddleware()", () => {
     );
   });
 
+  it("should default to no MIME type and a 60 second timeout", async () => {
+    vi.mocked(computeRoutePatterns).mockImplementation(routes =>
+      Object.values(routes).map(config => ({
+        verb: "*",
+        pattern: /^\/test$/,
+        config: config as RouteConfig,
+      })),
+    );
+    vi.mocked(findMatchingRoute).mockImplementation(routePatterns => routePatterns[0]);
+    middleware = paymentMiddleware(payTo, { "/test": "$0.001" }, facilitatorConfig);
+
+    await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.status).toHaveBeenCalledWith(402);
+    expect(mockRes.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        accepts: [
+          expect.objectContaining({
+            network: "base-sepolia",
+            mimeType: "",
+            maxTimeoutSeconds: 60,
+          }),
+        ],
+      }),
+    );
+  });
+
   it("should return HTML paywall for browser requests", async () => {
     mockReq.headers = {
       accept: "text/html",
@@ -244,16 +285,34 @@ describe("paymentMiddleware()", () => {
 
     await middleware(mockReq as Request, mockRes as Response, mockNext);
 
-    expect(exact.evm.decodePayment).toHaveBeenCalledWith(encodedValidPayment);
+    expect(decodePaymentHeader).toHaveBeenCalledWith(encodedValidPayment);
     expect(mockVerify).toHaveBeenCalledWith(validPayment, expect.any(Object));
     expect(mockNext).toHaveBeenCalled();
   });
 
+  it("should only expose the payer to the handler when the privacy policy allows it", async () => {
+    const payer = "0x1111111111111111111111111111111111111111";
+    mockReq.headers = {
+      "x-payment": encodedValidPayment,
+    };
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true, payer });
+
+    await paymentMiddleware(payTo, routesConfig, facilitatorConfig, undefined, {
+      privacy: { payer: "redact" },
+    })(mockReq as Request, mockRes as Response, mockNext);
+    expect(mockRes.locals?.x402Payer).toBeUndefined();
+
+    await paymentMiddleware(payTo, routesConfig, facilitatorConfig, undefined, {
+      privacy: { payer: "redact", exposePayer: true },
+    })(mockReq as Request, mockRes as Response, mockNext);
+    expect(mockRes.locals?.x402Payer).toBe(payer);
+  });
+
   it("should return 402 if payment verification fails", async () => {
     mockReq.headers = {
       "x-payment": "invalid-payment-header",
     };
-    (exact.evm.decodePayment as ReturnType<typeof vi.fn>).mockImplementation(() => {
+    (decodePaymentHeader as ReturnType<typeof vi.fn>).mockImplementation(() => {
       throw new Error("Invalid payment");
     });
 
@@ -267,7 +326,9 @@ describe("paymentMiddleware()", () => {
     expect(mockRes.status).toHaveBeenCalledWith(402);
     expect(mockRes.json).toHaveBeenCalledWith({
       x402Version: 1,
-      error: new Error("Invalid payment"),
+      x402Versions: [1],
+      error: "Invalid or malformed payment header",
+      code: "invalid_payment",
       accepts: [
         {
           scheme: "exact",
@@ -300,7 +361,9 @@ describe("paymentMiddleware()", () => {
     expect(mockRes.status).toHaveBeenCalledWith(402);
     expect(mockRes.json).toHaveBeenCalledWith({
       x402Version: 1,
-      error: new Error("Unexpected error"),
+      x402Versions: [1],
+      error: "The payment could not be verified",
+      code: "unexpected_verify_error",
       accepts: [
         {
           scheme: "exact",
@@ -343,11 +406,77 @@ describe("paymentMiddleware()", () => {
 
     await middleware(mockReq as Request, mockRes as Response, mockNext);
 
-    expect(exact.evm.decodePayment).toHaveBeenCalledWith(encodedValidPayment);
+    expect(decodePaymentHeader).toHaveBeenCalledWith(encodedValidPayment);
     expect(mockSettle).toHaveBeenCalledWith(validPayment, expect.any(Object));
     expect(mockRes.setHeader).toHaveBeenCalledWith("X-PAYMENT-RESPONSE", expect.any(String));
   });
 
+  it("should leave the raw payer out of the settlement response and receipt", async () => {
+    const payer = "0x857b06519E91e3A54538791bDbb0E22373e36b66";
+    mockReq.headers = {
+      "x-payment": encodedValidPayment,
+    };
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true, payer });
+    (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue({
+      success: true,
+      transaction: "0x123",
+      network: "base-sepolia",
+      payer,
+    });
+    middleware = paymentMiddleware(payTo, routesConfig, facilitatorConfig, undefined, {
+      privacy: { payer: "redact" },
+      receipts: { privateKey: generatePrivateKey() },
+    });
+
+    await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+    const headers = Object.fromEntries(vi.mocked(mockRes.setHeader!).mock.calls) as Record<
+      string,
+      string
+    >;
+    expect(decodeXPaymentResponse(headers["X-PAYMENT-RESPONSE"])).not.toHaveProperty("payer");
+    const receipt = decodePaymentReceipt(headers["X-PAYMENT-RECEIPT"]);
+    expect(receipt?.transaction).toBe("0x123");
+    expect(receipt).not.toHaveProperty("payer");
+  });
+
+  it("should refund the payment when the response is not delivered", async () => {
+    const settleResponse = {
+      success: true,
+      transaction: "0x123",
+      network: "base-sepolia" as const,
+      payer: "0x857b06519E91e3A54538791bDbb0E22373e36b66",
+    };
+    mockReq.headers = {
+      "x-payment": encodedValidPayment,
+    };
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
+    (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue(settleResponse);
+    (mockRefund as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ...settleResponse,
+      transaction: "0x456",
+      originalTransaction: "0x123",
+    });
+    // the client disconnects before the response is written
+    Object.assign(mockRes, { destroyed: true, writableFinished: false });
+    const signer = privateKeyToAccount(
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    );
+    middleware = paymentMiddleware(payTo, routesConfig, facilitatorConfig, undefined, {
+      refunds: { signer },
+    });
+
+    await middleware(mockReq as Request, mockRes as Response, mockNext);
+    await vi.waitFor(() => expect(mockRefund).toHaveBeenCalled());
+
+    expect(mockRefund).toHaveBeenCalledWith(
+      settleResponse,
+      expect.objectContaining({ scheme: "exact", payTo }),
+      validPayment,
+      undefined,
+    );
+  });
+
   it("should handle settle throwing an error before response is sent", async () => {
     mockReq.headers = {
       "x-payment": encodedValidPayment,
@@ -360,7 +489,9 @@ describe("paymentMiddleware()", () => {
     expect(mockRes.status).toHaveBeenCalledWith(402);
     expect(mockRes.json).toHaveBeenCalledWith({
       x402Version: 1,
-      error: new Error("Settlement failed"),
+      x402Versions: [1],
+      error: "The payment could not be settled",
+      code: "unexpected_settle_error",
       accepts: [
         {
           scheme: "exact",
@@ -400,7 +531,9 @@ describe("paymentMiddleware()", () => {
     expect(mockRes.status).toHaveBeenCalledWith(402);
     expect(mockRes.json).toHaveBeenCalledWith({
       x402Version: 1,
-      error: "invalid_transaction_state",
+      x402Versions: [1],
+      error: "The transaction failed",
+      code: "invalid_transaction_state",
       accepts: [
         {
           scheme: "exact",
@@ -440,7 +573,7 @@ describe("paymentMiddleware()", () => {
 
     await middleware(mockReq as Request, mockRes as Response, mockNext);
 
-    expect(exact.evm.decodePayment).toHaveBeenCalledWith(encodedValidPayment);
+    expect(decodePaymentHeader).toHaveBeenCalledWith(encodedValidPayment);
     expect(mockSettle).toHaveBeenCalledWith(validPayment, expect.any(Object));
     // Should not try to send another response since headers are already sent
     expect(mockRes.status).not.toHaveBeenCalledWith(402);
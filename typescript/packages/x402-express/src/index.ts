@@ -1,29 +1,15 @@
 import { NextFunction, Request, Response } from "express";
-import { Address, getAddress } from "viem";
+import { Address } from "viem";
 import { Address as SolanaAddress } from "@solana/kit";
-import { exact } from "x402/schemes";
-import {
-  computeRoutePatterns,
-  findMatchingPaymentRequirements,
-  findMatchingRoute,
-  processPriceToAtomicAmount,
-  toJsonSafe,
-} from "x402/shared";
-import { getPaywallHtml } from "x402/paywall";
+import { createPaymentGate } from "x402/server";
+import { createPayerPrivacy } from "x402/shared";
 import {
   FacilitatorConfig,
-  ERC20TokenAmount,
-  moneySchema,
-  PaymentPayload,
-  PaymentRequirements,
+  PaymentMiddlewareOptions,
   PaywallConfig,
-  Resource,
+  RouteConfig,
   RoutesConfig,
-  settleResponseHeader,
-  SupportedEVMNetworks,
-  SupportedSVMNetworks,
 } from "x402/types";
-import { useFacilitator } from "x402/verify";
 
 /**
  * Creates a payment middleware factory for Express
@@ -32,6 +18,7 @@ import { useFacilitator } from "x402/verify";
  * @param routes - Configuration for protected routes and their payment requirements
  * @param facilitator - Optional configuration for the payment facilitator service
  * @param paywall - Optional configuration for the default paywall
+ * @param options - Optional configuration of the middleware, such as the store used for replay protection
  * @returns An Express middleware handler
  *
  * @example
@@ -77,212 +64,53 @@ export function paymentMiddleware(
   routes: RoutesConfig,
   facilitator?: FacilitatorConfig,
   paywall?: PaywallConfig,
+  options?: PaymentMiddlewareOptions,
 ) {
-  const { verify, settle, supported } = useFacilitator(facilitator);
-  const x402Version = 1;
-
-  // Pre-compile route patterns to regex and extract verbs
-  const routePatterns = computeRoutePatterns(routes);
+  const paymentGate = createPaymentGate(
+    payTo,
+    withExpressDefaults(routes),
+    facilitator,
+    paywall,
+    options,
+  );
+  const { logError } = createPayerPrivacy(options?.privacy);
 
   return async function paymentMiddleware(
     req: Request,
     res: Response,
     next: NextFunction,
   ): Promise<void> {
-    const matchingRoute = findMatchingRoute(routePatterns, req.path, req.method.toUpperCase());
-
-    if (!matchingRoute) {
-      return next();
-    }
-
-    const { price, network, config = {} } = matchingRoute.config;
-    const {
-      description,
-      mimeType,
-      maxTimeoutSeconds,
-      inputSchema,
-      outputSchema,
-      customPaywallHtml,
-      resource,
-      discoverable,
-    } = config;
-
-    const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
-    if ("error" in atomicAmountForAsset) {
-      throw new Error(atomicAmountForAsset.error);
-    }
-    const { maxAmountRequired, asset } = atomicAmountForAsset;
-
-    const resourceUrl: Resource =
-      resource || (`${req.protocol}://${req.headers.host}${req.path}` as Resource);
-
-    let paymentRequirements: PaymentRequirements[] = [];
-
-    // TODO: create a shared middleware function to build payment requirements
-    // evm networks
-    if (SupportedEVMNetworks.includes(network)) {
-      paymentRequirements.push({
-        scheme: "exact",
-        network,
-        maxAmountRequired,
-        resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "",
-        payTo: getAddress(payTo),
-        maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
-        asset: getAddress(asset.address),
-        // TODO: Rename outputSchema to requestStructure
-        outputSchema: {
-          input: {
-            type: "http",
-            method: req.method.toUpperCase(),
-            discoverable: discoverable ?? true,
-            ...inputSchema,
-          },
-          output: outputSchema,
-        },
-        extra: (asset as ERC20TokenAmount["asset"]).eip712,
-      });
-    }
-
-    // svm networks
-    else if (SupportedSVMNetworks.includes(network)) {
-      // get the supported payments from the facilitator
-      const paymentKinds = await supported();
-
-      // find the payment kind that matches the network and scheme
-      let feePayer: string | undefined;
-      for (const kind of paymentKinds.kinds) {
-        if (kind.network === network && kind.scheme === "exact") {
-          feePayer = kind?.extra?.feePayer;
-          break;
-        }
-      }
-
-      // if no fee payer is found, throw an error
-      if (!feePayer) {
-        throw new Error(`The facilitator did not provide a fee payer for network: ${network}.`);
-      }
-
-      paymentRequirements.push({
-        scheme: "exact",
-        network,
-        maxAmountRequired,
-        resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "",
-        payTo: payTo,
-        maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
-        asset: asset.address,
-        // TODO: Rename outputSchema to requestStructure
-        outputSchema: {
-          input: {
-            type: "http",
-            method: req.method.toUpperCase(),
-            discoverable: discoverable ?? true,
-            ...inputSchema,
-          },
-          output: outputSchema,
-        },
-        extra: {
-          feePayer,
-        },
-      });
-    } else {
-      throw new Error(`Unsupported network: ${network}`);
-    }
-
-    const payment = req.header("X-PAYMENT");
-    const userAgent = req.header("User-Agent") || "";
-    const acceptHeader = req.header("Accept") || "";
-    const isWebBrowser = acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
-
-    if (!payment) {
-      // TODO handle paywall html for solana
-      if (isWebBrowser) {
-        let displayAmount: number;
-        if (typeof price === "string" || typeof price === "number") {
-          const parsed = moneySchema.safeParse(price);
-          if (parsed.success) {
-            displayAmount = parsed.data;
-          } else {
-            displayAmount = Number.NaN;
-          }
-        } else {
-          displayAmount = Number(price.amount) / 10 ** price.asset.decimals;
-        }
-
-        const html =
-          customPaywallHtml ||
-          getPaywallHtml({
-            amount: displayAmount,
-            paymentRequirements: toJsonSafe(paymentRequirements) as Parameters<
-              typeof getPaywallHtml
-            >[0]["paymentRequirements"],
-            currentUrl: req.originalUrl,
-            testnet: network === "base-sepolia",
-            cdpClientKey: paywall?.cdpClientKey,
-            appName: paywall?.appName,
-            appLogo: paywall?.appLogo,
-            sessionTokenEndpoint: paywall?.sessionTokenEndpoint,
-          });
-        res.status(402).send(html);
+    const decision = await paymentGate({
+      method: req.method,
+      path: req.path,
+      // behind proxies, the protocol is only `https` when the app sets `trust proxy`
+      url: `${req.protocol}://${req.headers.host}${req.originalUrl}`,
+      getHeader: name => req.header(name),
+      // the raw body is only available to bodies parsed with `express.raw()` or `express.text()`
+      getBody: async () =>
+        typeof req.body === "string"
+          ? new TextEncoder().encode(req.body)
+          : Buffer.isBuffer(req.body)
+            ? req.body
+            : undefined,
+    });
+
+    switch (decision.type) {
+      case "pass-through":
+      // a paid session's access token stands in for the payment
+      case "access-granted":
+        return next();
+      case "paywall":
+        res.status(decision.status).send(decision.html);
+        return;
+      case "payment-error":
+        res.status(decision.status).json(decision.body);
         return;
-      }
-      res.status(402).json({
-        x402Version,
-        error: "X-PAYMENT header is required",
-        accepts: toJsonSafe(paymentRequirements),
-      });
-      return;
-    }
-
-    let decodedPayment: PaymentPayload;
-    try {
-      decodedPayment = exact.evm.decodePayment(payment);
-      decodedPayment.x402Version = x402Version;
-    } catch (error) {
-      console.error(error);
-      res.status(402).json({
-        x402Version,
-        error: error || "Invalid or malformed payment header",
-        accepts: toJsonSafe(paymentRequirements),
-      });
-      return;
-    }
-
-    const selectedPaymentRequirements = findMatchingPaymentRequirements(
-      paymentRequirements,
-      decodedPayment,
-    );
-    if (!selectedPaymentRequirements) {
-      res.status(402).json({
-        x402Version,
-        error: "Unable to find matching payment requirements",
-        accepts: toJsonSafe(paymentRequirements),
-      });
-      return;
     }
 
-    try {
-      const response = await verify(decodedPayment, selectedPaymentRequirements);
-      if (!response.isValid) {
-        res.status(402).json({
-          x402Version,
-          error: response.invalidReason,
-          accepts: toJsonSafe(paymentRequirements),
-          payer: response.payer,
-        });
-        return;
-      }
-    } catch (error) {
-      console.error(error);
-      res.status(402).json({
-        x402Version,
-        error,
-        accepts: toJsonSafe(paymentRequirements),
-      });
-      return;
+    // the payer is left out under a privacy policy, unless it exposes payers to handlers
+    if (decision.payer !== undefined) {
+      res.locals.x402Payer = decision.payer;
     }
 
     /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -305,6 +133,8 @@ export function paymentMiddleware(
 
     // If the response from the protected route is >= 400, do not settle payment
     if (res.statusCode >= 400) {
+      // the payment was not used, so it may be retried, or refunded if it was escrowed
+      await decision.cancel();
       res.end = originalEnd;
       if (endArgs) {
         originalEnd(...(endArgs as Parameters<typeof res.end>));
@@ -313,30 +143,33 @@ export function paymentMiddleware(
     }
 
     try {
-      const settleResponse = await settle(decodedPayment, selectedPaymentRequirements);
-      const responseHeader = settleResponseHeader(settleResponse);
-      res.setHeader("X-PAYMENT-RESPONSE", responseHeader);
-
-      // if the settle fails, return an error
-      if (!settleResponse.success) {
-        res.status(402).json({
-          x402Version,
-          error: settleResponse.errorReason,
-          accepts: toJsonSafe(paymentRequirements),
-        });
-        return;
+      // usage-based (upto) routes charge the amount reported by the handler
+      const settlement = await decision.settle(res.locals.x402SettlementAmount);
+      for (const [name, value] of Object.entries(settlement.headers)) {
+        res.setHeader(name, value);
       }
-    } catch (error) {
-      console.error(error);
+
       // If settlement fails and the response hasn't been sent yet, return an error
-      if (!res.headersSent) {
-        res.status(402).json({
-          x402Version,
-          error,
-          accepts: toJsonSafe(paymentRequirements),
-        });
+      if (settlement.type === "payment-error" && !res.headersSent) {
+        res.status(settlement.status).json(settlement.body);
         return;
       }
+
+      // with a refund wallet, payments whose response is not delivered, e.g. because the client
+      // disconnected, are refunded
+      if (settlement.type === "settled" && settlement.refund) {
+        const { refund } = settlement;
+        const refundUndelivered = () => {
+          if (!res.writableFinished) {
+            refund().catch(error => logError("Failed to refund payment:", error));
+          }
+        };
+        if (res.destroyed) {
+          refundUndelivered();
+        } else {
+          res.once("close", refundUndelivered);
+        }
+      }
     } finally {
       res.end = originalEnd;
       if (endArgs) {
@@ -346,10 +179,35 @@ export function paymentMiddleware(
   };
 }
 
+/**
+ * Applies the defaults the Express middleware has always used to the routes, no MIME type and a
+ * payment timeout of 60 seconds, where the other middlewares default EVM payments to
+ * `application/json` and 300 seconds
+ *
+ * @param routes - The routes configuration
+ * @returns The routes with the Express defaults under their own configuration
+ */
+function withExpressDefaults(routes: RoutesConfig): RoutesConfig {
+  return Object.fromEntries(
+    Object.entries(routes).map(([pattern, route]) => {
+      // prices alone are paid on base-sepolia, see computeRoutePatterns
+      const routeConfig: RouteConfig =
+        typeof route === "object" && ("price" in route || "accepts" in route)
+          ? route
+          : { price: route, network: "base-sepolia" };
+      return [
+        pattern,
+        { ...routeConfig, config: { mimeType: "", maxTimeoutSeconds: 60, ...routeConfig.config } },
+      ];
+    }),
+  );
+}
+
 export type {
   Money,
   Network,
   PaymentMiddlewareConfig,
+  PaymentMiddlewareOptions,
   Resource,
   RouteConfig,
   RoutesConfig,
@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+import { getFacilitatorConfigFromEnv } from "./config";
+import { createFacilitatorServer } from "./server";
+
+const port = process.env.PORT || 3000;
+
+try {
+  const app = createFacilitatorServer(getFacilitatorConfigFromEnv(process.env));
+  app.listen(port, () => {
+    console.log(`Facilitator listening at http://localhost:${port}`);
+  });
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
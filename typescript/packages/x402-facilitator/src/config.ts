@@ -0,0 +1,156 @@
+import { defineChain, Hex } from "viem";
+import { createInMemoryPaymentStore, createInMemoryRefundStore } from "x402/shared";
+import { evm } from "x402/types";
+import { FacilitatorConfig, FacilitatorNetworkConfig } from "./types";
+
+/**
+ * Reads the configuration of a facilitator server from environment variables
+ *
+ * - `EVM_PRIVATE_KEY` and `EVM_NETWORKS`: the signer and comma separated EVM networks,
+ *   defaulting to `base-sepolia`, or to the custom network when one is configured
+ * - `EVM_PERMIT_ROUTER`: the X402PermitRouter contract, enabling the `upto` and `permit` schemes
+ *   on the EVM networks
+ * - `EVM_ESCROW`: the X402Escrow contract, enabling the `escrow` scheme on the EVM networks
+ * - `EVM_CHANNEL`: the X402Channel contract, enabling the `channel` scheme on the EVM networks
+ * - `EVM_SHIELDED_POOL`: the X402ShieldedPool contract, enabling the `shielded` scheme on the EVM
+ *   networks
+ * - `SVM_PRIVATE_KEY`, `SVM_NETWORKS` and `SVM_RPC_URL`: the signer, comma separated Solana
+ *   networks, defaulting to `solana-devnet`, and an RPC URL such as a local solana-test-validator,
+ *   with an optional `SVM_WS_URL` for its websocket subscriptions
+ * - `SVM_ELGAMAL_SECRET_KEY`: the base64 encoded ElGamal secret key confidential payments disclose
+ *   their amount to, enabling the `confidential` scheme on the Solana networks
+ * - `SUI_PRIVATE_KEY`, `SUI_NETWORKS` and `SUI_RPC_URL`: the signer, comma separated Sui networks,
+ *   defaulting to `sui-testnet`, and an RPC URL such as a local Sui node
+ * - `SUI_SPONSOR_GAS`: set to `true` to pay for the gas of Sui payments through the gas station
+ * - `API_KEYS`: comma separated `name:key` pairs, the API keys of the resource servers, required by
+ *   the `escrow` scheme
+ * - `BATCH_SETTLEMENT`: set to `true` to settle the payments asking for it in batches, with
+ *   optional `BATCH_SETTLEMENT_MAX_SIZE` and `BATCH_SETTLEMENT_DELAY_MS`
+ * - `CUSTOM_EVM_NETWORK`, `CUSTOM_EVM_CHAIN_ID`, `CUSTOM_EVM_RPC_URL` and
+ *   `CUSTOM_EVM_ASSET_ADDRESS`: an EVM network that is not built in, such as a local anvil chain,
+ *   with optional `CUSTOM_EVM_ASSET_NAME`, `CUSTOM_EVM_ASSET_VERSION` and
+ *   `CUSTOM_EVM_ASSET_DECIMALS` describing its stablecoin
+ *
+ * @param env - The environment variables
+ * @returns The configuration of the facilitator server
+ * @throws Error if no private key is configured, the custom network is incomplete or an API key is
+ * malformed
+ */
+export function getFacilitatorConfigFromEnv(
+  env: Record<string, string | undefined>,
+): FacilitatorConfig {
+  if (!env.EVM_PRIVATE_KEY && !env.SVM_PRIVATE_KEY && !env.SUI_PRIVATE_KEY) {
+    throw new Error("Missing EVM_PRIVATE_KEY, SVM_PRIVATE_KEY or SUI_PRIVATE_KEY");
+  }
+
+  const evmNetworks: evm.EvmNetworkConfig[] = [];
+  if (env.CUSTOM_EVM_NETWORK) {
+    const { CUSTOM_EVM_CHAIN_ID, CUSTOM_EVM_RPC_URL, CUSTOM_EVM_ASSET_ADDRESS } = env;
+    if (!CUSTOM_EVM_CHAIN_ID || !CUSTOM_EVM_RPC_URL || !CUSTOM_EVM_ASSET_ADDRESS) {
+      throw new Error(
+        "CUSTOM_EVM_NETWORK requires CUSTOM_EVM_CHAIN_ID, CUSTOM_EVM_RPC_URL and CUSTOM_EVM_ASSET_ADDRESS",
+      );
+    }
+
+    evmNetworks.push({
+      network: env.CUSTOM_EVM_NETWORK,
+      chain: defineChain({
+        id: Number(CUSTOM_EVM_CHAIN_ID),
+        name: env.CUSTOM_EVM_NETWORK,
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+        rpcUrls: { default: { http: [CUSTOM_EVM_RPC_URL] } },
+      }),
+      defaultAsset: {
+        address: CUSTOM_EVM_ASSET_ADDRESS as Hex,
+        decimals: env.CUSTOM_EVM_ASSET_DECIMALS ? Number(env.CUSTOM_EVM_ASSET_DECIMALS) : undefined,
+        eip712: {
+          name: env.CUSTOM_EVM_ASSET_NAME ?? "USD Coin",
+          version: env.CUSTOM_EVM_ASSET_VERSION ?? "2",
+        },
+      },
+    });
+  }
+
+  const networks: FacilitatorNetworkConfig[] = [];
+  if (env.EVM_PRIVATE_KEY) {
+    const defaultNetwork = env.CUSTOM_EVM_NETWORK ?? "base-sepolia";
+    for (const network of splitList(env.EVM_NETWORKS ?? defaultNetwork)) {
+      networks.push({
+        network,
+        privateKey: env.EVM_PRIVATE_KEY,
+        permitRouter: env.EVM_PERMIT_ROUTER,
+        escrow: env.EVM_ESCROW,
+        channel: env.EVM_CHANNEL,
+        shieldedPool: env.EVM_SHIELDED_POOL,
+      });
+    }
+  }
+  if (env.SVM_PRIVATE_KEY) {
+    for (const network of splitList(env.SVM_NETWORKS ?? "solana-devnet")) {
+      networks.push({ network, privateKey: env.SVM_PRIVATE_KEY });
+    }
+  }
+  if (env.SUI_PRIVATE_KEY) {
+    for (const network of splitList(env.SUI_NETWORKS ?? "sui-testnet")) {
+      networks.push({
+        network,
+        privateKey: env.SUI_PRIVATE_KEY,
+        sponsorGas: env.SUI_SPONSOR_GAS === "true",
+      });
+    }
+  }
+
+  const apiKeys: Record<string, string> = {};
+  for (const entry of splitList(env.API_KEYS ?? "")) {
+    const separator = entry.indexOf(":");
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error("API_KEYS must be comma separated name:key pairs");
+    }
+    apiKeys[entry.slice(0, separator)] = entry.slice(separator + 1);
+  }
+
+  return {
+    networks,
+    evmNetworks,
+    apiKeys,
+    x402Config: {
+      svmConfig:
+        env.SVM_RPC_URL || env.SVM_ELGAMAL_SECRET_KEY
+          ? {
+              rpcUrl: env.SVM_RPC_URL,
+              wsUrl: env.SVM_WS_URL,
+              confidentialTransfer: env.SVM_ELGAMAL_SECRET_KEY
+                ? { elgamalSecretKey: env.SVM_ELGAMAL_SECRET_KEY }
+                : undefined,
+            }
+          : undefined,
+      suiConfig: env.SUI_RPC_URL ? { rpcUrl: env.SUI_RPC_URL } : undefined,
+      paymentStore: createInMemoryPaymentStore(),
+      refundStore: createInMemoryRefundStore(),
+    },
+    batchSettlement:
+      env.BATCH_SETTLEMENT === "true"
+        ? {
+            maxBatchSize: env.BATCH_SETTLEMENT_MAX_SIZE
+              ? Number(env.BATCH_SETTLEMENT_MAX_SIZE)
+              : undefined,
+            maxDelayMs: env.BATCH_SETTLEMENT_DELAY_MS
+              ? Number(env.BATCH_SETTLEMENT_DELAY_MS)
+              : undefined,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Splits a comma separated list
+ *
+ * @param value - The comma separated list
+ * @returns The trimmed, non-empty items of the list
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map(item => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,10 @@
+export { createFacilitatorServer } from "./server";
+export { getFacilitatorConfigFromEnv } from "./config";
+export { createInMemoryOperatedPaymentStore } from "./operatedPaymentStore";
+export type {
+  FacilitatorConfig,
+  FacilitatorErrorResponse,
+  FacilitatorNetworkConfig,
+  OperatedPayment,
+  OperatedPaymentStore,
+} from "./types";
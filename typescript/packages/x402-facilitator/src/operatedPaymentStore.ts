@@ -0,0 +1,36 @@
+import { OperatedPayment, OperatedPaymentStore } from "./types";
+
+/**
+ * Creates a store that keeps the payments held by the facilitator in memory
+ *
+ * Payments are lost on restart, after which deposits can only be released and channels
+ * reclaimed once their timeout has passed; use a durable store in production.
+ *
+ * @returns The in-memory store
+ */
+export function createInMemoryOperatedPaymentStore(): OperatedPaymentStore {
+  const payments = new Map<string, OperatedPayment>();
+
+  return {
+    async create(id: string, payment: OperatedPayment): Promise<boolean> {
+      if (payments.has(id)) {
+        return false;
+      }
+      payments.set(id, { ...payment });
+      return true;
+    },
+
+    async get(id: string): Promise<OperatedPayment | undefined> {
+      const payment = payments.get(id);
+      return payment && { ...payment };
+    },
+
+    async update(id: string, payment: OperatedPayment): Promise<void> {
+      payments.set(id, { ...payment });
+    },
+
+    async delete(id: string): Promise<void> {
+      payments.delete(id);
+    },
+  };
+}
@@ -0,0 +1,880 @@
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  closeChannel,
+  createBatchSettler,
+  refund,
+  refundEscrow,
+  releaseEscrow,
+  settle,
+  verify,
+} from "x402/facilitator";
+import {
+  DiscoveredResource,
+  InvalidPaymentError,
+  ListDiscoveryResourcesResponse,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedPaymentKindsResponse,
+} from "x402/types";
+import { svm as confidentialSvm } from "x402/schemes/confidential";
+import { getFacilitatorConfigFromEnv } from "./config";
+import { createFacilitatorServer } from "./server";
+import { FacilitatorConfig, FacilitatorErrorResponse } from "./types";
+
+vi.mock("x402/facilitator", () => ({
+  verify: vi.fn(),
+  settle: vi.fn(),
+  releaseEscrow: vi.fn(),
+  refundEscrow: vi.fn(),
+  closeChannel: vi.fn(),
+  refund: vi.fn(),
+  createBatchSettler: vi.fn(),
+}));
+
+// the first default anvil account
+const privateKey = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const address = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+// a Solana key whose secret key bytes are all 7
+const svmPrivateKey =
+  "99eUso3aSbE9tqGSTXzo3TLfKb9RkMTURrHKQ1K7Zh3StnzFNUx8FKCPPPPpR479qsw5zv2WNBKmgiz7WqgAJfM";
+const svmAddress = "GmaDrppBC7P5ARKV8g3djiwP89vz1jLK23V2GBjuAEGB";
+
+// a Sui key whose secret key bytes are all 7
+const suiPrivateKey = "suiprivkey1qqrswpc8qurswpc8qurswpc8qurswpc8qurswpc8qurswpc8qurswxzszc4";
+
+const paymentRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "1000",
+  resource: "https://example.com/weather",
+  description: "Weather",
+  mimeType: "application/json",
+  payTo: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+  maxTimeoutSeconds: 60,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: { name: "USDC", version: "2" },
+};
+
+const paymentPayload: PaymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "base-sepolia",
+  payload: {
+    signature: `0x${"1".repeat(130)}`,
+    authorization: {
+      from: address,
+      to: paymentRequirements.payTo,
+      value: "1000",
+      validAfter: "0",
+      validBefore: "9999999999",
+      nonce: `0x${"2".repeat(64)}`,
+    },
+  },
+};
+
+const escrow = "0x9876543210987654321098765432109876543210";
+
+const escrowRequirements: PaymentRequirements = {
+  ...paymentRequirements,
+  scheme: "escrow",
+  extra: { name: "USDC", version: "2", escrow, operator: address, releaseTimeout: 3600 },
+};
+
+const escrowPayload: PaymentPayload = {
+  ...paymentPayload,
+  scheme: "escrow",
+  payload: { ...paymentPayload.payload, salt: `0x${"4".repeat(64)}` },
+};
+
+const channel = "0x5678901234567890123456789012345678901234";
+
+const channelRequirements: PaymentRequirements = {
+  ...paymentRequirements,
+  scheme: "channel",
+  extra: { name: "USDC", version: "2", channel, operator: address, channelTimeout: 86400 },
+};
+
+const channelPayload: PaymentPayload = {
+  ...paymentPayload,
+  scheme: "channel",
+  payload: {
+    voucher: {
+      channelId: `0x${"5".repeat(64)}`,
+      amount: "3000",
+      signature: `0x${"2".repeat(130)}`,
+    },
+  },
+};
+
+// the API keys of the resource servers operating escrow and channel payments
+const apiKeys = { weather: "weather-key", news: "news-key" };
+
+// a payment opening the channel, with a voucher for its first payment
+const channelOpening: PaymentPayload = {
+  ...channelPayload,
+  payload: {
+    voucher: {
+      channelId: `0x${"5".repeat(64)}`,
+      amount: "1000",
+      signature: `0x${"1".repeat(130)}`,
+    },
+    open: escrowPayload.payload,
+  },
+};
+
+describe("createFacilitatorServer", () => {
+  let server: Server;
+
+  /**
+   * Starts a facilitator server on a random port
+   *
+   * @param config - The configuration of the facilitator
+   * @returns The base URL of the server
+   */
+  async function start(config: FacilitatorConfig): Promise<string> {
+    const app = createFacilitatorServer(config);
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Posts a JSON body
+   *
+   * @param url - The URL to post to
+   * @param body - The body to post
+   * @param apiKey - The API key of the resource server posting, if any
+   * @returns The response
+   */
+  function post(url: string, body: unknown, apiKey?: string): Promise<globalThis.Response> {
+    return fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  }
+
+  /**
+   * Settles a payment for a resource server, e.g. deposits an escrow payment or opens a channel
+   *
+   * @param url - The base URL of the server
+   * @param apiKey - The API key of the resource server
+   * @param payment - The payment to settle, defaults to the escrow payment
+   * @param requirements - The payment requirements of the payment
+   */
+  async function settleFor(
+    url: string,
+    apiKey: string,
+    payment = escrowPayload,
+    requirements = escrowRequirements,
+  ): Promise<void> {
+    vi.mocked(settle).mockResolvedValue({
+      success: true,
+      transaction: `0x${"2".repeat(64)}`,
+      network: "base-sepolia",
+      payer: address,
+    });
+    const response = await post(
+      `${url}/settle`,
+      { paymentPayload: payment, paymentRequirements: requirements },
+      apiKey,
+    );
+    expect(((await response.json()) as SettleResponse).success).toBe(true);
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+  });
+
+  it("reports its health and networks", async () => {
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await fetch(`${url}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok", networks: ["base-sepolia"] });
+  });
+
+  it("lists the supported payment kinds of its signers", async () => {
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await fetch(`${url}/supported`);
+
+    expect(await response.json()).toEqual({
+      kinds: [
+        { x402Version: 1, scheme: "exact", network: "base-sepolia", extra: { spender: address } },
+      ],
+    });
+  });
+
+  it("lists the router of upto and permit payments when one is configured", async () => {
+    const permitRouter = "0x9876543210987654321098765432109876543210";
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey, permitRouter }] });
+
+    const response = await fetch(`${url}/supported`);
+
+    const { kinds } = (await response.json()) as SupportedPaymentKindsResponse;
+    expect(kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "upto",
+      network: "base-sepolia",
+      extra: { router: permitRouter, facilitator: address },
+    });
+    expect(kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "permit",
+      network: "base-sepolia",
+      extra: { router: permitRouter, facilitator: address },
+    });
+  });
+
+  it("lists the escrow and operator of escrow payments when an escrow is configured", async () => {
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, escrow }],
+      apiKeys,
+    });
+
+    const response = await fetch(`${url}/supported`);
+
+    const { kinds } = (await response.json()) as SupportedPaymentKindsResponse;
+    expect(kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "escrow",
+      network: "base-sepolia",
+      extra: { escrow, operator: address },
+    });
+  });
+
+  it("lists the channel contract and operator of channel payments when one is configured", async () => {
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, channel }],
+      apiKeys,
+    });
+
+    const response = await fetch(`${url}/supported`);
+
+    const { kinds } = (await response.json()) as SupportedPaymentKindsResponse;
+    expect(kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "channel",
+      network: "base-sepolia",
+      extra: { channel, operator: address },
+    });
+  });
+
+  it("lists the pool of shielded payments when one is configured", async () => {
+    const shieldedPool = "0x6789012345678901234567890123456789012345";
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey, shieldedPool }] });
+
+    const response = await fetch(`${url}/supported`);
+
+    const { kinds } = (await response.json()) as SupportedPaymentKindsResponse;
+    expect(kinds).toContainEqual({
+      x402Version: 1,
+      scheme: "shielded",
+      network: "base-sepolia",
+      extra: { pool: shieldedPool },
+    });
+  });
+
+  it("lists the gas station of Sui networks it sponsors gas on", async () => {
+    const url = await start({
+      networks: [
+        { network: "sui-testnet", privateKey: suiPrivateKey, sponsorGas: true },
+        { network: "sui-mainnet", privateKey: suiPrivateKey },
+      ],
+    });
+
+    const response = await fetch(`${url}/supported`);
+
+    expect(await response.json()).toEqual({
+      kinds: [
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network: "sui-testnet",
+          extra: { gasStation: `${url}/sui/gas-station` },
+        },
+        { x402Version: 1, scheme: "exact", network: "sui-mainnet" },
+      ],
+    });
+  });
+
+  it("lists the ElGamal key confidential payments disclose their amount to when one is configured", async () => {
+    const { elgamalSecretKey } = confidentialSvm.generateConfidentialTransferKeys();
+    const url = await start({
+      networks: [{ network: "solana-devnet", privateKey: svmPrivateKey }],
+      x402Config: { svmConfig: { confidentialTransfer: { elgamalSecretKey } } },
+    });
+
+    const response = await fetch(`${url}/supported`);
+
+    expect(await response.json()).toEqual({
+      kinds: [
+        {
+          x402Version: 1,
+          scheme: "exact",
+          network: "solana-devnet",
+          extra: { feePayer: svmAddress },
+        },
+        {
+          x402Version: 1,
+          scheme: "confidential",
+          network: "solana-devnet",
+          extra: {
+            feePayer: svmAddress,
+            elgamalPubkey: confidentialSvm.getElGamalPublicKey(elgamalSecretKey),
+          },
+        },
+      ],
+    });
+  });
+
+  it("only sponsors gas on the Sui networks configured to", async () => {
+    const url = await start({ networks: [{ network: "sui-mainnet", privateKey: suiPrivateKey }] });
+
+    const response = await post(`${url}/sui/gas-station`, {
+      network: "sui-mainnet",
+      sender: `0x${"ab".repeat(32)}`,
+      transactionKind: "AAAA",
+    });
+
+    expect(response.status).toBe(400);
+    const body = (await response.json()) as FacilitatorErrorResponse;
+    expect(body.error.code).toBe("unsupported_payment_kind");
+  });
+
+  it("verifies valid requests", async () => {
+    vi.mocked(verify).mockResolvedValue({ isValid: true, payer: address });
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await post(`${url}/verify`, { paymentPayload, paymentRequirements });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ isValid: true, payer: address });
+    expect(verify).toHaveBeenCalledWith(
+      expect.anything(),
+      paymentPayload,
+      paymentRequirements,
+      undefined,
+    );
+  });
+
+  it("settles with the signer of the network and the settlement amount", async () => {
+    const settleResponse = {
+      success: true,
+      transaction: `0x${"3".repeat(64)}`,
+      network: "base-sepolia" as const,
+      payer: address,
+    };
+    vi.mocked(settle).mockResolvedValue(settleResponse);
+    const x402Config = { svmConfig: { rpcUrl: "http://127.0.0.1:8899" } };
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }], x402Config });
+
+    const response = await post(`${url}/settle`, {
+      paymentPayload,
+      paymentRequirements,
+      settlementAmount: "500",
+    });
+
+    expect(await response.json()).toEqual(settleResponse);
+    const [signer, , , config, settlementAmount] = vi.mocked(settle).mock.calls[0];
+    expect((signer as { account: { address: string } }).account.address).toBe(address);
+    expect(config).toBe(x402Config);
+    expect(settlementAmount).toBe("500");
+  });
+
+  it("settles payments asking for it in batches when batch settlement is configured", async () => {
+    const settleResponse = {
+      success: true,
+      transaction: `0x${"3".repeat(64)}`,
+      network: "base-sepolia" as const,
+      payer: address,
+    };
+    const batchSettler = { settle: vi.fn().mockResolvedValue(settleResponse), flush: vi.fn() };
+    vi.mocked(createBatchSettler).mockReturnValue(batchSettler);
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey }],
+      batchSettlement: { maxBatchSize: 10 },
+    });
+
+    const batched = await post(`${url}/settle`, {
+      paymentPayload,
+      paymentRequirements,
+      batch: true,
+    });
+    await post(`${url}/settle`, { paymentPayload, paymentRequirements });
+
+    expect(await batched.json()).toEqual(settleResponse);
+    expect(createBatchSettler).toHaveBeenCalledWith({ maxBatchSize: 10 });
+    expect(batchSettler.settle).toHaveBeenCalledTimes(1);
+    expect(settle).toHaveBeenCalledTimes(1);
+  });
+
+  it("releases escrowed payments with the signer of the network and the settlement amount", async () => {
+    const releaseResponse = {
+      success: true,
+      transaction: `0x${"3".repeat(64)}`,
+      network: "base-sepolia" as const,
+      payer: address,
+    };
+    vi.mocked(releaseEscrow).mockResolvedValue(releaseResponse);
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, escrow }],
+      apiKeys,
+    });
+    await settleFor(url, apiKeys.weather);
+
+    const response = await post(
+      `${url}/escrow/release`,
+      {
+        paymentPayload: escrowPayload,
+        paymentRequirements: escrowRequirements,
+        settlementAmount: "500",
+      },
+      apiKeys.weather,
+    );
+
+    expect(await response.json()).toEqual(releaseResponse);
+    const [signer, payload, , , settlementAmount] = vi.mocked(releaseEscrow).mock.calls[0];
+    expect((signer as { account: { address: string } }).account.address).toBe(address);
+    expect(payload).toEqual(escrowPayload);
+    expect(settlementAmount).toBe("500");
+  });
+
+  it("refunds escrowed payments with the signer of the network", async () => {
+    const refundResponse = {
+      success: true,
+      transaction: `0x${"3".repeat(64)}`,
+      network: "base-sepolia" as const,
+      payer: address,
+    };
+    vi.mocked(refundEscrow).mockResolvedValue(refundResponse);
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, escrow }],
+      apiKeys,
+    });
+    await settleFor(url, apiKeys.weather);
+
+    const response = await post(
+      `${url}/escrow/refund`,
+      { paymentPayload: escrowPayload, paymentRequirements: escrowRequirements },
+      apiKeys.weather,
+    );
+
+    expect(await response.json()).toEqual(refundResponse);
+    const [signer] = vi.mocked(refundEscrow).mock.calls[0];
+    expect((signer as { account: { address: string } }).account.address).toBe(address);
+
+    // the deposit is gone once refunded
+    const again = await post(
+      `${url}/escrow/release`,
+      { paymentPayload: escrowPayload, paymentRequirements: escrowRequirements },
+      apiKeys.weather,
+    );
+    expect(again.status).toBe(403);
+  });
+
+  it("only deposits escrowed payments for authenticated resource servers", async () => {
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, escrow }],
+      apiKeys,
+    });
+
+    const unauthenticated = await post(`${url}/settle`, {
+      paymentPayload: escrowPayload,
+      paymentRequirements: escrowRequirements,
+    });
+    const unknownKey = await post(
+      `${url}/settle`,
+      { paymentPayload: escrowPayload, paymentRequirements: escrowRequirements },
+      "unknown-key",
+    );
+
+    expect(unauthenticated.status).toBe(401);
+    expect(((await unauthenticated.json()) as FacilitatorErrorResponse).error.code).toBe(
+      "unauthorized",
+    );
+    expect(unknownKey.status).toBe(401);
+    expect(settle).not.toHaveBeenCalled();
+  });
+
+  it("only releases and refunds escrowed payments for the resource server that deposited them", async () => {
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, escrow }],
+      apiKeys,
+    });
+    const body = { paymentPayload: escrowPayload, paymentRequirements: escrowRequirements };
+
+    // payments that were not deposited through the facilitator cannot be released
+    const notDeposited = await post(`${url}/escrow/release`, body, apiKeys.weather);
+    await settleFor(url, apiKeys.weather);
+    const unauthenticated = await post(`${url}/escrow/refund`, body);
+    const released = await post(`${url}/escrow/release`, body, apiKeys.news);
+    const refunded = await post(`${url}/escrow/refund`, body, apiKeys.news);
+
+    expect(notDeposited.status).toBe(403);
+    expect(unauthenticated.status).toBe(401);
+    expect(released.status).toBe(403);
+    expect(((await released.json()) as FacilitatorErrorResponse).error.code).toBe("forbidden");
+    expect(refunded.status).toBe(403);
+    expect(releaseEscrow).not.toHaveBeenCalled();
+    expect(refundEscrow).not.toHaveBeenCalled();
+  });
+
+  it("closes payment channels with the signer of the network and the settlement amount", async () => {
+    const closeResponse = {
+      success: true,
+      transaction: `0x${"3".repeat(64)}`,
+      network: "base-sepolia" as const,
+      payer: address,
+    };
+    vi.mocked(closeChannel).mockResolvedValue(closeResponse);
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, channel }],
+      apiKeys,
+    });
+    await settleFor(url, apiKeys.weather, channelOpening, channelRequirements);
+
+    const response = await post(
+      `${url}/channel/close`,
+      {
+        paymentPayload: channelPayload,
+        paymentRequirements: channelRequirements,
+        settlementAmount: "2000",
+      },
+      apiKeys.weather,
+    );
+
+    expect(await response.json()).toEqual(closeResponse);
+    const [signer, payload, , , settlementAmount] = vi.mocked(closeChannel).mock.calls[0];
+    expect((signer as { account: { address: string } }).account.address).toBe(address);
+    expect(payload).toEqual(channelPayload);
+    expect(settlementAmount).toBe("2000");
+  });
+
+  it("never closes a channel below the highest voucher claimed through the facilitator", async () => {
+    vi.mocked(closeChannel).mockResolvedValue({
+      success: true,
+      transaction: `0x${"3".repeat(64)}`,
+      network: "base-sepolia",
+      payer: address,
+    });
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, channel }],
+      apiKeys,
+    });
+    await settleFor(url, apiKeys.weather, channelOpening, channelRequirements);
+    await settleFor(url, apiKeys.weather, channelPayload, channelRequirements);
+
+    await post(
+      `${url}/channel/close`,
+      {
+        paymentPayload: channelOpening,
+        paymentRequirements: channelRequirements,
+        settlementAmount: "0",
+      },
+      apiKeys.weather,
+    );
+
+    const [, payload, , , settlementAmount] = vi.mocked(closeChannel).mock.calls[0];
+    expect(payload).toEqual(channelPayload);
+    expect(settlementAmount).toBeUndefined();
+  });
+
+  it("only claims and closes channels for the resource server that opened them", async () => {
+    const url = await start({
+      networks: [{ network: "base-sepolia", privateKey, channel }],
+      apiKeys,
+    });
+    const claim = { paymentPayload: channelPayload, paymentRequirements: channelRequirements };
+    const close = { ...claim, settlementAmount: "0" };
+
+    // channels that were not opened through the facilitator cannot be claimed
+    const notOpened = await post(`${url}/settle`, claim, apiKeys.weather);
+    const unauthenticatedOpen = await post(`${url}/settle`, {
+      paymentPayload: channelOpening,
+      paymentRequirements: channelRequirements,
+    });
+    await settleFor(url, apiKeys.weather, channelOpening, channelRequirements);
+    const claimed = await post(`${url}/settle`, claim, apiKeys.news);
+    const unauthenticatedClose = await post(`${url}/channel/close`, close);
+    const closed = await post(`${url}/channel/close`, close, apiKeys.news);
+
+    expect(notOpened.status).toBe(403);
+    expect(unauthenticatedOpen.status).toBe(401);
+    expect(claimed.status).toBe(403);
+    expect(unauthenticatedClose.status).toBe(401);
+    expect(closed.status).toBe(403);
+    expect(((await closed.json()) as FacilitatorErrorResponse).error.code).toBe("forbidden");
+    // only the opening was settled
+    expect(settle).toHaveBeenCalledTimes(1);
+    expect(closeChannel).not.toHaveBeenCalled();
+  });
+
+  it("refunds settled payments with the signer of the network and the refund amount", async () => {
+    const settleResponse = {
+      success: true,
+      transaction: `0x${"3".repeat(64)}`,
+      network: "base-sepolia" as const,
+      payer: address,
+    };
+    const refundResponse = {
+      success: true,
+      transaction: `0x${"4".repeat(64)}`,
+      network: "base-sepolia" as const,
+      payer: paymentRequirements.payTo,
+      originalTransaction: settleResponse.transaction,
+    };
+    vi.mocked(refund).mockResolvedValue(refundResponse);
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await post(`${url}/refund`, {
+      settleResponse,
+      paymentRequirements,
+      refundPayload: paymentPayload,
+      amount: "400",
+    });
+
+    expect(await response.json()).toEqual(refundResponse);
+    const [signer, settled, , refundPayload, , amount] = vi.mocked(refund).mock.calls[0];
+    expect((signer as { account: { address: string } }).account.address).toBe(address);
+    expect(settled).toEqual(settleResponse);
+    expect(refundPayload).toEqual(paymentPayload);
+    expect(amount).toBe("400");
+  });
+
+  it("rejects escrowed payments on networks without an escrow", async () => {
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await post(`${url}/escrow/refund`, {
+      paymentPayload: escrowPayload,
+      paymentRequirements: escrowRequirements,
+    });
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as FacilitatorErrorResponse).error.code).toBe(
+      "unsupported_payment_kind",
+    );
+    expect(refundEscrow).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid requests with their validation issues", async () => {
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await post(`${url}/verify`, { paymentPayload });
+
+    expect(response.status).toBe(400);
+    const body = (await response.json()) as FacilitatorErrorResponse;
+    expect(body.error.code).toBe("invalid_request");
+    expect(body.error.issues).toContainEqual(
+      expect.objectContaining({ path: ["paymentRequirements"] }),
+    );
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it("rejects malformed JSON", async () => {
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await post(`${url}/settle`, "{");
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as FacilitatorErrorResponse).error.code).toBe(
+      "invalid_request",
+    );
+  });
+
+  it("rejects payments on networks it is not configured for", async () => {
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await post(`${url}/settle`, {
+      paymentPayload: { ...paymentPayload, network: "base" },
+      paymentRequirements: { ...paymentRequirements, network: "base" },
+    });
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as FacilitatorErrorResponse).error.code).toBe(
+      "unsupported_payment_kind",
+    );
+    expect(settle).not.toHaveBeenCalled();
+  });
+
+  it("reports the code of rejected payments", async () => {
+    vi.mocked(verify).mockRejectedValue(new InvalidPaymentError("invalid_payload"));
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await post(`${url}/verify`, { paymentPayload, paymentRequirements });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: { code: "invalid_payload", message: "The payment payload is invalid" },
+    });
+  });
+
+  it("hides the details of internal errors", async () => {
+    vi.mocked(verify).mockRejectedValue(new Error("RPC unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }] });
+
+    const response = await post(`${url}/verify`, { paymentPayload, paymentRequirements });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      error: { code: "internal_error", message: "Internal server error" },
+    });
+  });
+
+  it("paginates the discovered resources", async () => {
+    const resources = ["a", "b", "c"].map(
+      (name): DiscoveredResource => ({
+        resource: `https://example.com/${name}`,
+        type: "http",
+        x402Version: 1,
+        accepts: [paymentRequirements],
+        lastUpdated: new Date(0),
+      }),
+    );
+    const url = await start({ networks: [{ network: "base-sepolia", privateKey }], resources });
+
+    const response = await fetch(`${url}/discovery/resources?limit=1&offset=1`);
+
+    const body = (await response.json()) as ListDiscoveryResourcesResponse;
+    expect(body.items.map(item => item.resource)).toEqual(["https://example.com/b"]);
+    expect(body.pagination).toEqual({ limit: 1, offset: 1, total: 3 });
+  });
+
+  it("rejects unsupported networks and schemes at startup", () => {
+    expect(() =>
+      createFacilitatorServer({ networks: [{ network: "unknown-chain", privateKey }] }),
+    ).toThrow("Unsupported network: unknown-chain");
+    expect(() =>
+      createFacilitatorServer({
+        networks: [{ network: "solana-devnet", privateKey: "key", schemes: ["upto"] }],
+      }),
+    ).toThrow("Unsupported scheme upto on network solana-devnet");
+    expect(() =>
+      createFacilitatorServer({
+        networks: [{ network: "base-sepolia", privateKey, schemes: ["permit"] }],
+      }),
+    ).toThrow("The permit scheme requires a permitRouter on network base-sepolia");
+    expect(() =>
+      createFacilitatorServer({
+        networks: [{ network: "base-sepolia", privateKey, schemes: ["upto"] }],
+      }),
+    ).toThrow("The upto scheme requires a permitRouter on network base-sepolia");
+    expect(() =>
+      createFacilitatorServer({
+        networks: [{ network: "base-sepolia", privateKey, schemes: ["escrow"] }],
+      }),
+    ).toThrow("The escrow scheme requires an escrow on network base-sepolia");
+    expect(() =>
+      createFacilitatorServer({ networks: [{ network: "base-sepolia", privateKey, escrow }] }),
+    ).toThrow(
+      "The escrow scheme requires apiKeys authenticating resource servers on network base-sepolia",
+    );
+    expect(() =>
+      createFacilitatorServer({ networks: [{ network: "base-sepolia", privateKey, channel }] }),
+    ).toThrow(
+      "The channel scheme requires apiKeys authenticating resource servers on network base-sepolia",
+    );
+    expect(() =>
+      createFacilitatorServer({
+        networks: [{ network: "base-sepolia", privateKey, schemes: ["channel"] }],
+      }),
+    ).toThrow("The channel scheme requires a channel contract on network base-sepolia");
+    expect(() =>
+      createFacilitatorServer({
+        networks: [{ network: "base-sepolia", privateKey, schemes: ["shielded"] }],
+      }),
+    ).toThrow("The shielded scheme requires a shieldedPool on network base-sepolia");
+    expect(() =>
+      createFacilitatorServer({
+        networks: [{ network: "solana-devnet", privateKey: "key", schemes: ["confidential"] }],
+      }),
+    ).toThrow("The confidential scheme requires an ElGamal key on network solana-devnet");
+  });
+});
+
+describe("getFacilitatorConfigFromEnv", () => {
+  it("configures a local chain for the EVM signer", () => {
+    const config = getFacilitatorConfigFromEnv({
+      EVM_PRIVATE_KEY: privateKey,
+      CUSTOM_EVM_NETWORK: "anvil",
+      CUSTOM_EVM_CHAIN_ID: "31337",
+      CUSTOM_EVM_RPC_URL: "http://127.0.0.1:8545",
+      CUSTOM_EVM_ASSET_ADDRESS: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    });
+
+    expect(config.networks).toEqual([{ network: "anvil", privateKey }]);
+    expect(config.evmNetworks?.[0].chain.id).toBe(31337);
+    expect(config.evmNetworks?.[0].defaultAsset.eip712).toEqual({ name: "USD Coin", version: "2" });
+  });
+
+  it("configures the Sui signer and its gas sponsorship", () => {
+    const config = getFacilitatorConfigFromEnv({
+      SUI_PRIVATE_KEY: suiPrivateKey,
+      SUI_RPC_URL: "http://127.0.0.1:9000",
+      SUI_SPONSOR_GAS: "true",
+    });
+
+    expect(config.networks).toEqual([
+      { network: "sui-testnet", privateKey: suiPrivateKey, sponsorGas: true },
+    ]);
+    expect(config.x402Config?.suiConfig).toEqual({ rpcUrl: "http://127.0.0.1:9000" });
+  });
+
+  it("configures the Solana RPC and the ElGamal key of confidential payments", () => {
+    const config = getFacilitatorConfigFromEnv({
+      SVM_PRIVATE_KEY: svmPrivateKey,
+      SVM_RPC_URL: "http://127.0.0.1:8899",
+      SVM_WS_URL: "ws://127.0.0.1:8900",
+      SVM_ELGAMAL_SECRET_KEY: "c2VjcmV0",
+    });
+
+    expect(config.x402Config?.svmConfig).toEqual({
+      rpcUrl: "http://127.0.0.1:8899",
+      wsUrl: "ws://127.0.0.1:8900",
+      confidentialTransfer: { elgamalSecretKey: "c2VjcmV0" },
+    });
+  });
+
+  it("configures batch settlement", () => {
+    const config = getFacilitatorConfigFromEnv({
+      EVM_PRIVATE_KEY: privateKey,
+      BATCH_SETTLEMENT: "true",
+      BATCH_SETTLEMENT_DELAY_MS: "500",
+    });
+
+    expect(config.batchSettlement).toEqual({ maxBatchSize: undefined, maxDelayMs: 500 });
+  });
+
+  it("configures the API keys of the resource servers", () => {
+    const config = getFacilitatorConfigFromEnv({
+      EVM_PRIVATE_KEY: privateKey,
+      API_KEYS: "weather:weather-key, news:news:key",
+    });
+
+    expect(config.apiKeys).toEqual({ weather: "weather-key", news: "news:key" });
+    expect(() =>
+      getFacilitatorConfigFromEnv({ EVM_PRIVATE_KEY: privateKey, API_KEYS: "weather" }),
+    ).toThrow("API_KEYS must be comma separated name:key pairs");
+  });
+
+  it("requires a private key", () => {
+    expect(() => getFacilitatorConfigFromEnv({})).toThrow(
+      "Missing EVM_PRIVATE_KEY, SVM_PRIVATE_KEY or SUI_PRIVATE_KEY",
+    );
+  });
+});
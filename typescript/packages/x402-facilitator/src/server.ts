@@ -0,0 +1,728 @@
+import express, { NextFunction, Request, Response } from "express";
+import {
+  closeChannel,
+  createBatchSettler,
+  refund,
+  refundEscrow,
+  releaseEscrow,
+  settle,
+  verify,
+} from "x402/facilitator";
+import { exact, getPaymentId, getScheme, registerScheme } from "x402/schemes";
+import { svm as confidentialSvm } from "x402/schemes/confidential";
+import {
+  ConnectedClient,
+  createConnectedClient,
+  createSigner,
+  evm,
+  isSuiSignerWallet,
+  isSvmSignerWallet,
+  ChannelPayment,
+  ListDiscoveryResourcesResponse,
+  Network,
+  PaymentPayload,
+  RefundRequestSchema,
+  SettleRequestSchema,
+  Signer,
+  SuiGasStationRequestSchema,
+  SuiGasStationResponse,
+  SupportedEVMNetworks,
+  SupportedPaymentKind,
+  SupportedPaymentKindsResponse,
+  SupportedSuiNetworks,
+  SupportedSVMNetworks,
+  VerifyRequestSchema,
+  X402Config,
+  X402Error,
+} from "x402/types";
+import { ZodError } from "zod";
+import { createInMemoryOperatedPaymentStore } from "./operatedPaymentStore";
+import {
+  FacilitatorConfig,
+  FacilitatorErrorResponse,
+  FacilitatorNetworkConfig,
+  OperatedPayment,
+} from "./types";
+
+const DEFAULT_DISCOVERY_LIMIT = 100;
+
+/**
+ * Creates an Express app serving the x402 facilitator API
+ *
+ * The app exposes `POST /verify`, `POST /settle`, `POST /refund`, `GET /supported`,
+ * `GET /discovery/resources` and `GET /health`, `POST /escrow/release` and `POST /escrow/refund`
+ * for escrowed payments, `POST /channel/close` for payment channels, and `POST /sui/gas-station`
+ * on Sui networks sponsoring gas. It can be
+ * mounted in an existing app or started with `listen`. With `batchSettlement`, payments sent to
+ * `/settle` with `batch` set wait to be settled together with other payments of their network.
+ * Escrow and channel payments are settled by the resource servers authenticated with `apiKeys`,
+ * each only releasing and refunding the deposits it settled, and claiming and closing the channels
+ * it opened.
+ *
+ * @param config - The networks, signers and options of the facilitator
+ * @returns The Express app
+ * @throws Error if a network is not supported, a scheme is not registered for its network or lacks
+ * its configuration
+ */
+export function createFacilitatorServer(config: FacilitatorConfig): express.Express {
+  // the confidential scheme is not registered by default as it only runs on Node.js
+  registerScheme(confidentialSvm.confidentialSvmScheme);
+  for (const networkConfig of config.evmNetworks ?? []) {
+    evm.registerEvmNetwork(networkConfig);
+  }
+
+  const networks = new Map<Network, FacilitatorNetworkConfig>();
+  for (const networkConfig of config.networks) {
+    if (
+      !isEvmNetwork(networkConfig.network) &&
+      !isSvmNetwork(networkConfig.network) &&
+      !isSuiNetwork(networkConfig.network)
+    ) {
+      throw new Error(`Unsupported network: ${networkConfig.network}`);
+    }
+    for (const scheme of getSchemes(networkConfig, config.x402Config)) {
+      if (!getScheme(scheme, networkConfig.network)) {
+        throw new Error(`Unsupported scheme ${scheme} on network ${networkConfig.network}`);
+      }
+      if ((scheme === "upto" || scheme === "permit") && !networkConfig.permitRouter) {
+        throw new Error(
+          `The ${scheme} scheme requires a permitRouter on network ${networkConfig.network}`,
+        );
+      }
+      if (scheme === "escrow" && !networkConfig.escrow) {
+        throw new Error(`The escrow scheme requires an escrow on network ${networkConfig.network}`);
+      }
+      if (scheme === "channel" && !networkConfig.channel) {
+        throw new Error(
+          `The channel scheme requires a channel contract on network ${networkConfig.network}`,
+        );
+      }
+      if (scheme === "shielded" && !networkConfig.shieldedPool) {
+        throw new Error(
+          `The shielded scheme requires a shieldedPool on network ${networkConfig.network}`,
+        );
+      }
+      if (scheme === "confidential" && !config.x402Config?.svmConfig?.confidentialTransfer) {
+        throw new Error(
+          `The confidential scheme requires an ElGamal key on network ${networkConfig.network}`,
+        );
+      }
+      // escrow deposits and channels are operated for the resource server that settled them
+      if (isOperated(scheme, networkConfig.network) && !Object.keys(config.apiKeys ?? {}).length) {
+        throw new Error(
+          `The ${scheme} scheme requires apiKeys authenticating resource servers on network ${networkConfig.network}`,
+        );
+      }
+    }
+    networks.set(networkConfig.network, networkConfig);
+  }
+
+  // signers are created on first use, and only once per network
+  const signers = new Map<Network, Promise<Signer>>();
+  const getSigner = (network: Network): Promise<Signer> => {
+    let signer = signers.get(network);
+    if (!signer) {
+      signer = createSigner(network, networks.get(network)!.privateKey);
+      signers.set(network, signer);
+    }
+    return signer;
+  };
+
+  const batchSettler = config.batchSettlement
+    ? createBatchSettler(config.batchSettlement)
+    : undefined;
+
+  // resource servers are identified by the API key they send
+  const resourceServers = new Map(
+    Object.entries(config.apiKeys ?? {}).map(([name, apiKey]) => [apiKey, name]),
+  );
+  const operatedPayments = config.operatedPaymentStore ?? createInMemoryOperatedPaymentStore();
+
+  /**
+   * Identifies the resource server sending a request
+   *
+   * @param req - The request
+   * @returns The name of the resource server, or undefined if its API key is missing or unknown
+   */
+  const authenticate = (req: Request): string | undefined => {
+    const [type, apiKey] = req.get("Authorization")?.split(" ") ?? [];
+    return type === "Bearer" && apiKey ? resourceServers.get(apiKey) : undefined;
+  };
+
+  /**
+   * Checks that a request comes from the resource server that settled the payment it operates on,
+   * responding with an error otherwise
+   *
+   * @param req - The request
+   * @param res - The response
+   * @param id - The id of the payment, see `getOperatedPaymentId`
+   * @returns The recorded payment, or undefined if the request was rejected
+   */
+  const authorize = async (
+    req: Request,
+    res: Response,
+    id: string,
+  ): Promise<OperatedPayment | undefined> => {
+    const resourceServer = authenticate(req);
+    if (!resourceServer) {
+      sendError(res, 401, "unauthorized", "A valid API key is required");
+      return undefined;
+    }
+    const payment = await operatedPayments.get(id);
+    if (payment?.resourceServer !== resourceServer) {
+      sendError(res, 403, "forbidden", "The payment was not settled by this resource server");
+      return undefined;
+    }
+    return payment;
+  };
+
+  const app = express();
+  app.use(express.json());
+
+  app.get("/health", (req: Request, res: Response) => {
+    res.json({ status: "ok", networks: [...networks.keys()] });
+  });
+
+  app.post("/verify", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { paymentPayload, paymentRequirements } = VerifyRequestSchema.parse(req.body);
+      const networkConfig = networks.get(paymentRequirements.network);
+      if (
+        !networkConfig ||
+        !getSchemes(networkConfig, config.x402Config).includes(paymentRequirements.scheme)
+      ) {
+        return sendUnsupported(res, paymentRequirements.scheme, paymentRequirements.network);
+      }
+
+      // svm verification signs and simulates the transaction and sui verification checks the
+      // sponsor of the transaction, so they need the signer
+      const client: ConnectedClient | Signer = isEvmNetwork(paymentRequirements.network)
+        ? createConnectedClient(paymentRequirements.network)
+        : await getSigner(paymentRequirements.network);
+
+      res.json(await verify(client, paymentPayload, paymentRequirements, config.x402Config));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/settle", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { paymentPayload, paymentRequirements, settlementAmount, batch } =
+        SettleRequestSchema.parse(req.body);
+      const networkConfig = networks.get(paymentRequirements.network);
+      if (
+        !networkConfig ||
+        !getSchemes(networkConfig, config.x402Config).includes(paymentRequirements.scheme)
+      ) {
+        return sendUnsupported(res, paymentRequirements.scheme, paymentRequirements.network);
+      }
+
+      // escrowed payments are deposited and channels opened with the operator wallet for the
+      // resource server settling them, which is the only one that may claim a channel it opened
+      const operated = isOperated(paymentRequirements.scheme, paymentRequirements.network);
+      const resourceServer = authenticate(req);
+      if (operated && !resourceServer) {
+        return sendError(res, 401, "unauthorized", "A valid API key is required");
+      }
+      const id = operated ? getOperatedPaymentId(paymentPayload) : undefined;
+      const operatedPayment = id ? await operatedPayments.get(id) : undefined;
+      // channels are claimed by the resource server that opened them through the facilitator
+      const claimsUnknownChannel =
+        !operatedPayment && isChannelPayment(paymentPayload) && !getVoucher(paymentPayload).opens;
+      if (
+        claimsUnknownChannel ||
+        (operatedPayment && operatedPayment.resourceServer !== resourceServer)
+      ) {
+        return sendError(
+          res,
+          403,
+          "forbidden",
+          "The payment was not settled by this resource server",
+        );
+      }
+
+      const signer = await getSigner(paymentRequirements.network);
+      const settlePayment = batch && batchSettler ? batchSettler.settle : settle;
+      const response = await settlePayment(
+        signer,
+        paymentPayload,
+        paymentRequirements,
+        config.x402Config,
+        settlementAmount,
+      );
+      if (id && resourceServer && response.success) {
+        if (!operatedPayment) {
+          // the voucher opening a channel is not accepted by the resource server yet
+          await operatedPayments.create(id, { resourceServer });
+        } else if (isChannelPayment(paymentPayload)) {
+          // other vouchers of the channel may have been claimed meanwhile
+          const current = (await operatedPayments.get(id)) ?? operatedPayment;
+          await operatedPayments.update(id, {
+            ...current,
+            paymentPayload: getHighestVoucher(current.paymentPayload, paymentPayload),
+          });
+        }
+      }
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // refunds are exact payments from the resource server's refund wallet, settled like any other
+  app.post("/refund", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { settleResponse, paymentRequirements, refundPayload, amount } =
+        RefundRequestSchema.parse(req.body);
+      const networkConfig = networks.get(paymentRequirements.network);
+      if (!networkConfig || !getSchemes(networkConfig, config.x402Config).includes("exact")) {
+        return sendUnsupported(res, "exact", paymentRequirements.network);
+      }
+
+      const signer = await getSigner(paymentRequirements.network);
+      res.json(
+        await refund(
+          signer,
+          settleResponse,
+          paymentRequirements,
+          refundPayload,
+          config.x402Config,
+          amount,
+        ),
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // escrowed payments are deposited by /settle and released or refunded by the same signer, which
+  // is the operator of their deposits, for the resource server that settled them only
+  app.post("/escrow/release", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { paymentPayload, paymentRequirements, settlementAmount } = SettleRequestSchema.parse(
+        req.body,
+      );
+      const networkConfig = networks.get(paymentRequirements.network);
+      if (
+        !networkConfig ||
+        !getSchemes(networkConfig, config.x402Config).includes(paymentRequirements.scheme)
+      ) {
+        return sendUnsupported(res, paymentRequirements.scheme, paymentRequirements.network);
+      }
+      const id = getOperatedPaymentId(paymentPayload);
+      if (!(await authorize(req, res, id))) {
+        return;
+      }
+
+      const signer = await getSigner(paymentRequirements.network);
+      const response = await releaseEscrow(
+        signer,
+        paymentPayload,
+        paymentRequirements,
+        config.x402Config,
+        settlementAmount,
+      );
+      if (response.success) {
+        await operatedPayments.delete(id);
+      }
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/escrow/refund", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { paymentPayload, paymentRequirements } = VerifyRequestSchema.parse(req.body);
+      const networkConfig = networks.get(paymentRequirements.network);
+      if (
+        !networkConfig ||
+        !getSchemes(networkConfig, config.x402Config).includes(paymentRequirements.scheme)
+      ) {
+        return sendUnsupported(res, paymentRequirements.scheme, paymentRequirements.network);
+      }
+      const id = getOperatedPaymentId(paymentPayload);
+      if (!(await authorize(req, res, id))) {
+        return;
+      }
+
+      const signer = await getSigner(paymentRequirements.network);
+      const response = await refundEscrow(
+        signer,
+        paymentPayload,
+        paymentRequirements,
+        config.x402Config,
+      );
+      if (response.success) {
+        await operatedPayments.delete(id);
+      }
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // channels are opened and claimed by /settle and closed by the same signer, which is their
+  // operator, for the resource server that opened them only
+  app.post("/channel/close", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { paymentPayload, paymentRequirements, settlementAmount } = SettleRequestSchema.parse(
+        req.body,
+      );
+      const networkConfig = networks.get(paymentRequirements.network);
+      if (
+        !networkConfig ||
+        !getSchemes(networkConfig, config.x402Config).includes(paymentRequirements.scheme) ||
+        !isChannelPayment(paymentPayload)
+      ) {
+        return sendUnsupported(res, paymentRequirements.scheme, paymentRequirements.network);
+      }
+      const id = getOperatedPaymentId(paymentPayload);
+      const operatedPayment = await authorize(req, res, id);
+      if (!operatedPayment) {
+        return;
+      }
+
+      // the channel is never closed below the highest voucher claimed through the facilitator,
+      // whatever amount the request asks for
+      const claimed = operatedPayment.paymentPayload;
+      const requested = settlementAmount ?? getVoucher(paymentPayload).amount;
+      const closeWithClaimed = !!claimed && BigInt(getVoucher(claimed).amount) > BigInt(requested);
+
+      const signer = await getSigner(paymentRequirements.network);
+      const response = await closeChannel(
+        signer,
+        closeWithClaimed ? claimed : paymentPayload,
+        paymentRequirements,
+        config.x402Config,
+        closeWithClaimed ? undefined : settlementAmount,
+      );
+      if (response.success) {
+        await operatedPayments.delete(id);
+      }
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/sui/gas-station", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { network, sender, transactionKind } = SuiGasStationRequestSchema.parse(req.body);
+      const networkConfig = networks.get(network);
+      if (!networkConfig?.sponsorGas || !isSuiNetwork(network)) {
+        return sendError(
+          res,
+          400,
+          "unsupported_payment_kind",
+          `Gas is not sponsored on network ${network} by this facilitator`,
+        );
+      }
+
+      const signer = await getSigner(network);
+      if (!isSuiSignerWallet(signer)) {
+        throw new Error(`Invalid signer for network ${network}`);
+      }
+      const response: SuiGasStationResponse = {
+        transaction: await exact.sui.sponsorTransaction(
+          signer,
+          network,
+          sender,
+          transactionKind,
+          config.x402Config,
+        ),
+      };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/supported", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const baseUrl = `${req.protocol}://${req.get("host")}`;
+      const kinds: SupportedPaymentKind[] = [];
+      for (const networkConfig of networks.values()) {
+        const signer = await getSigner(networkConfig.network);
+        for (const scheme of getSchemes(networkConfig, config.x402Config)) {
+          kinds.push({
+            x402Version: 1,
+            scheme,
+            network: networkConfig.network,
+            extra: getSupportedKindExtra(scheme, signer, networkConfig, baseUrl, config.x402Config),
+          });
+        }
+      }
+
+      const response: SupportedPaymentKindsResponse = { kinds };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/discovery/resources", (req: Request, res: Response) => {
+    const type = typeof req.query.type === "string" ? req.query.type : undefined;
+    const limit = toNonNegativeInteger(req.query.limit) ?? DEFAULT_DISCOVERY_LIMIT;
+    const offset = toNonNegativeInteger(req.query.offset) ?? 0;
+
+    const resources = (config.resources ?? []).filter(resource => !type || resource.type === type);
+    const response: ListDiscoveryResourcesResponse = {
+      x402Version: 1,
+      items: resources.slice(offset, offset + limit),
+      pagination: { limit, offset, total: resources.length },
+    };
+    res.json(response);
+  });
+
+  app.use((req: Request, res: Response) => {
+    sendError(res, 404, "not_found", `Cannot ${req.method} ${req.path}`);
+  });
+
+  // express only treats middlewares with four parameters as error handlers
+  app.use((error: unknown, req: Request, res: Response, _: NextFunction) => {
+    if (error instanceof ZodError) {
+      return sendError(res, 400, "invalid_request", "Invalid request body", {
+        issues: error.issues.map(issue => ({ path: issue.path, message: issue.message })),
+      });
+    }
+    // payments rejected before they reach the scheme, e.g. with an unsupported payload
+    if (error instanceof X402Error) {
+      return sendError(res, 400, error.code, error.message);
+    }
+    // malformed JSON bodies are rejected by express.json
+    if ((error as { type?: string }).type === "entity.parse.failed") {
+      return sendError(res, 400, "invalid_request", "Request body is not valid JSON");
+    }
+
+    console.error("Facilitator error:", error);
+    sendError(res, 500, "internal_error", "Internal server error");
+  });
+
+  return app;
+}
+
+/**
+ * Gets the schemes accepted on a network
+ *
+ * @param networkConfig - The configuration of the network
+ * @param x402Config - The configuration passed to `verify` and `settle`
+ * @returns The names of the schemes
+ */
+function getSchemes(networkConfig: FacilitatorNetworkConfig, x402Config?: X402Config): string[] {
+  if (networkConfig.schemes) {
+    return networkConfig.schemes;
+  }
+  if (isSvmNetwork(networkConfig.network) && x402Config?.svmConfig?.confidentialTransfer) {
+    return ["exact", "confidential"];
+  }
+  if (!isEvmNetwork(networkConfig.network)) {
+    return ["exact"];
+  }
+  return [
+    "exact",
+    ...(networkConfig.permitRouter ? ["upto", "permit"] : []),
+    ...(networkConfig.escrow ? ["escrow"] : []),
+    ...(networkConfig.channel ? ["channel"] : []),
+    ...(networkConfig.shieldedPool ? ["shielded"] : []),
+  ];
+}
+
+/**
+ * Gets the information clients need to create payments of a supported kind
+ *
+ * @param scheme - The scheme of the payment kind
+ * @param signer - The signer of the facilitator on the network of the payment kind
+ * @param networkConfig - The configuration of the network of the payment kind
+ * @param baseUrl - The URL the facilitator is reached at
+ * @param x402Config - The configuration passed to `verify` and `settle`
+ * @returns The `extra` field of the payment kind
+ */
+function getSupportedKindExtra(
+  scheme: string,
+  signer: Signer,
+  networkConfig: FacilitatorNetworkConfig,
+  baseUrl: string,
+  x402Config?: X402Config,
+): Record<string, unknown> | undefined {
+  // confidential payments disclose their amount to the facilitator, encrypted with its key
+  const confidentialTransfer = x402Config?.svmConfig?.confidentialTransfer;
+  if (scheme === "confidential" && isSvmSignerWallet(signer) && confidentialTransfer) {
+    return {
+      feePayer: signer.address,
+      elgamalPubkey: confidentialSvm.getElGamalPublicKey(confidentialTransfer.elgamalSecretKey),
+    };
+  }
+  // solana transactions are paid for by the facilitator
+  if (isSvmSignerWallet(signer)) {
+    return { feePayer: signer.address };
+  }
+  // sui payers pay for gas themselves unless the facilitator sponsors it
+  if (isSuiSignerWallet(signer)) {
+    return networkConfig.sponsorGas ? { gasStation: `${baseUrl}/sui/gas-station` } : undefined;
+  }
+  // exact payments of tokens without EIP-3009 are Permit2 transfers the facilitator executes as
+  // spender
+  if (scheme === "exact" && evm.isSignerWallet(signer)) {
+    return { spender: signer.account!.address };
+  }
+  // upto and permit payments are granted to the router, and only the facilitator may settle
+  // through it
+  if ((scheme === "upto" || scheme === "permit") && evm.isSignerWallet(signer)) {
+    return { router: networkConfig.permitRouter, facilitator: signer.account!.address };
+  }
+  // escrow payments are deposited into the escrow, and only the facilitator may deposit them
+  if (scheme === "escrow" && evm.isSignerWallet(signer)) {
+    return { escrow: networkConfig.escrow, operator: signer.account!.address };
+  }
+  // channels are opened by the facilitator, which claims and closes them as operator
+  if (scheme === "channel" && evm.isSignerWallet(signer)) {
+    return { channel: networkConfig.channel, operator: signer.account!.address };
+  }
+  // shielded payments are withdrawals from the pool, which anyone may relay
+  if (scheme === "shielded") {
+    return { pool: networkConfig.shieldedPool };
+  }
+  return undefined;
+}
+
+/**
+ * Checks if payments of a scheme are held by the facilitator as operator after their settlement,
+ * in escrow until they are released or refunded, or in a channel until it is closed
+ *
+ * @param scheme - The scheme of the payment
+ * @param network - The network of the payment
+ * @returns True for schemes implementing `releaseEscrow` or `closeChannel`
+ */
+function isOperated(scheme: string, network: Network): boolean {
+  const implementation = getScheme(scheme, network);
+  return !!(implementation?.releaseEscrow || implementation?.closeChannel);
+}
+
+/**
+ * Checks if a payment is made through a channel
+ *
+ * @param payment - The payment
+ * @returns True for schemes implementing `getVoucher`
+ */
+function isChannelPayment(payment: PaymentPayload): boolean {
+  return !!getScheme(payment.scheme, payment.network)?.getVoucher;
+}
+
+/**
+ * Reads the voucher of a channel payment
+ *
+ * @param payment - The channel payment
+ * @returns The voucher
+ */
+function getVoucher(payment: PaymentPayload): ChannelPayment {
+  return getScheme(payment.scheme, payment.network)!.getVoucher!(payment);
+}
+
+/**
+ * Identifies a payment held by the facilitator as operator. The payments of a channel are all
+ * identified by their channel, which is operated for the resource server that opened it.
+ *
+ * @param payment - The payment
+ * @returns The id of the channel of channel payments, or of the payment, see `getPaymentId`
+ */
+function getOperatedPaymentId(payment: PaymentPayload): string {
+  if (isChannelPayment(payment)) {
+    return `channel:${payment.network}:${getVoucher(payment).channelId.toLowerCase()}`;
+  }
+  return getPaymentId(payment);
+}
+
+/**
+ * Picks the channel payment carrying the highest voucher
+ *
+ * @param recorded - The payment recorded for the channel, if any
+ * @param payment - A payment through the same channel
+ * @returns The payment whose voucher pays the most
+ */
+function getHighestVoucher(
+  recorded: PaymentPayload | undefined,
+  payment: PaymentPayload,
+): PaymentPayload {
+  return recorded && BigInt(getVoucher(recorded).amount) >= BigInt(getVoucher(payment).amount)
+    ? recorded
+    : payment;
+}
+
+/**
+ * Checks if a network is an EVM network, including networks registered at runtime
+ *
+ * @param network - The network to check
+ * @returns True if the network is an EVM network
+ */
+function isEvmNetwork(network: Network): boolean {
+  return SupportedEVMNetworks.includes(network);
+}
+
+/**
+ * Checks if a network is a Solana network
+ *
+ * @param network - The network to check
+ * @returns True if the network is a Solana network
+ */
+function isSvmNetwork(network: Network): boolean {
+  return SupportedSVMNetworks.includes(network);
+}
+
+/**
+ * Checks if a network is a Sui network
+ *
+ * @param network - The network to check
+ * @returns True if the network is a Sui network
+ */
+function isSuiNetwork(network: Network): boolean {
+  return SupportedSuiNetworks.includes(network);
+}
+
+/**
+ * Parses a query parameter as a non-negative integer
+ *
+ * @param value - The query parameter
+ * @returns The integer, or undefined if the parameter is missing or invalid
+ */
+function toNonNegativeInteger(value: unknown): number | undefined {
+  const number = typeof value === "string" ? Number(value) : NaN;
+  return Number.isInteger(number) && number >= 0 ? number : undefined;
+}
+
+/**
+ * Responds to a payment of a scheme or network the facilitator does not handle
+ *
+ * @param res - The response
+ * @param scheme - The scheme of the payment
+ * @param network - The network of the payment
+ */
+function sendUnsupported(res: Response, scheme: string, network: Network): void {
+  sendError(
+    res,
+    400,
+    "unsupported_payment_kind",
+    `Scheme ${scheme} on network ${network} is not supported by this facilitator`,
+  );
+}
+
+/**
+ * Responds with a structured error
+ *
+ * @param res - The response
+ * @param status - The HTTP status code
+ * @param code - The error code
+ * @param message - The error message
+ * @param details - Additional fields of the error
+ */
+function sendError(
+  res: Response,
+  status: number,
+  code: FacilitatorErrorResponse["error"]["code"],
+  message: string,
+  details?: Omit<FacilitatorErrorResponse["error"], "code" | "message">,
+): void {
+  const body: FacilitatorErrorResponse = { error: { code, message, ...details } };
+  res.status(status).json(body);
+}
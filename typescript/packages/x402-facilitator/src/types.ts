@@ -0,0 +1,157 @@
+import {
+  evm,
+  BatchSettlementOptions,
+  DiscoveredResource,
+  ErrorReason,
+  Network,
+  PaymentPayload,
+  X402Config,
+} from "x402/types";
+
+/**
+ * A network the facilitator verifies and settles payments on
+ */
+export type FacilitatorNetworkConfig = {
+  /** The network, either built in or registered with `evmNetworks` */
+  network: Network;
+  /**
+   * The private key paying for settlements on the network, a hex string for EVM networks, a
+   * base58 encoded string for Solana networks or a `suiprivkey` string for Sui networks
+   */
+  privateKey: string;
+  /**
+   * The schemes to accept on the network, defaults to `exact` and, on EVM networks, `upto` and
+   * `permit` when `permitRouter` is set, `escrow` when `escrow` is set, `channel` when `channel`
+   * is set and `shielded` when `shieldedPool` is set, or on Solana networks `confidential` when
+   * `svmConfig.confidentialTransfer` is set in `x402Config`
+   */
+  schemes?: string[];
+  /**
+   * The address of the X402PermitRouter contract settling `upto` and `permit` payments on an EVM
+   * network
+   */
+  permitRouter?: string;
+  /**
+   * The address of the X402Escrow contract holding `escrow` payments on an EVM network, which the
+   * facilitator deposits into, releases and refunds as operator
+   */
+  escrow?: string;
+  /**
+   * The address of the X402Channel contract holding the channels of `channel` payments on an EVM
+   * network, which the facilitator opens, claims and closes as operator
+   */
+  channel?: string;
+  /**
+   * The address of the X402ShieldedPool contract paying `shielded` payments on an EVM network,
+   * whose withdrawals the facilitator relays
+   */
+  shieldedPool?: string;
+  /** Whether the facilitator pays for the gas of payments on a Sui network, see `/sui/gas-station` */
+  sponsorGas?: boolean;
+};
+
+/**
+ * The configuration of a facilitator server
+ */
+export type FacilitatorConfig = {
+  /** The networks to verify and settle payments on, each with its own signer */
+  networks: FacilitatorNetworkConfig[];
+  /** EVM networks that are not built in, e.g. a local anvil chain, registered at startup */
+  evmNetworks?: evm.EvmNetworkConfig[];
+  /** Configuration passed to `verify` and `settle`, e.g. a Solana or Sui RPC URL or a payment store */
+  x402Config?: X402Config;
+  /** The resources listed by `/discovery/resources` */
+  resources?: DiscoveredResource[];
+  /**
+   * Settles the payments sent to `/settle` with `batch` set in batches, a single transaction per
+   * batch on schemes supporting it. Payments are settled one by one when it is not set.
+   */
+  batchSettlement?: BatchSettlementOptions;
+  /**
+   * The API keys of the resource servers, by resource server name, sent as
+   * `Authorization: Bearer <key>`. Required by the `escrow` and `channel` schemes: deposits and
+   * channels are operated with the facilitator's wallet, so only the resource server that settled
+   * a deposit may release or refund it, and only the resource server that opened a channel may
+   * claim or close it.
+   */
+  apiKeys?: Record<string, string>;
+  /**
+   * Records the resource server of each escrow deposit and channel, defaults to an in-memory store
+   */
+  operatedPaymentStore?: OperatedPaymentStore;
+};
+
+/**
+ * A payment the facilitator holds as operator for a resource server, an escrow deposit or a channel
+ */
+export type OperatedPayment = {
+  /** The name of the resource server that settled the payment, see `apiKeys` */
+  resourceServer: string;
+  /**
+   * The payment carrying the highest voucher claimed through the facilitator, for channels. The
+   * channel is never closed below its amount.
+   */
+  paymentPayload?: PaymentPayload;
+};
+
+/**
+ * Records the resource server each payment held by the facilitator was settled by, so that no
+ * other caller can release, refund, claim or close it
+ *
+ * Use a durable store, e.g. backed by a database, so that deposits can still be released and
+ * channels closed after a restart.
+ */
+export interface OperatedPaymentStore {
+  /**
+   * Records a payment, unless it is already recorded
+   *
+   * @param id - The id of the payment, see `getPaymentId`, or of the channel it pays through
+   * @param payment - The payment
+   * @returns True if the payment was recorded, false if it was already recorded
+   */
+  create(id: string, payment: OperatedPayment): Promise<boolean>;
+
+  /**
+   * Gets a payment
+   *
+   * @param id - The id of the payment
+   * @returns The payment, or undefined if it is not recorded
+   */
+  get(id: string): Promise<OperatedPayment | undefined>;
+
+  /**
+   * Saves the new state of a payment, e.g. the highest voucher claimed through a channel
+   *
+   * @param id - The id of the payment
+   * @param payment - The payment
+   */
+  update(id: string, payment: OperatedPayment): Promise<void>;
+
+  /**
+   * Forgets a payment once it is released, refunded or closed
+   *
+   * @param id - The id of the payment
+   */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * The body of the error responses of the facilitator server
+ */
+export type FacilitatorErrorResponse = {
+  error: {
+    /** A machine readable error code, one of `ErrorReasons` for payments that are rejected */
+    code:
+      | "invalid_request"
+      | "unsupported_payment_kind"
+      | "unauthorized"
+      | "forbidden"
+      | "not_found"
+      | "internal_error"
+      | ErrorReason;
+    /** A human readable description of the error */
+    message: string;
+    /** The validation issues of an invalid request */
+    issues?: { path: (string | number)[]; message: string }[];
+  };
+};
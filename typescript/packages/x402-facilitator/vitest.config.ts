@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url";
+import { loadEnv } from "vite";
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+export default defineConfig(({ mode }) => ({
+  test: {
+    env: loadEnv(mode, process.cwd(), ""),
+  },
+  resolve: {
+    // Resolve x402 from source so that module mocks also apply to the shared payment gate
+    alias: {
+      x402: fileURLToPath(new URL("../x402/src", import.meta.url)),
+    },
+  },
+  plugins: [tsconfigPaths({ projects: ["."] })],
+}));
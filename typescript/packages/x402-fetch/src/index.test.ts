@@ -1,8 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { wrapFetchWithPayment } from "./index";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { verifyReceipt, wrapFetchWithPayment } from "./index";
 import { evm, PaymentRequirements } from "x402/types";
+import { hashRequestBody, signAccessToken, signPaymentReceipt } from "x402/shared";
 
-vi.mock("x402/client", () => ({
+vi.mock("x402/client", async importOriginal => ({
+  ...(await importOriginal<typeof import("x402/client")>()),
   createPaymentHeader: vi.fn(),
   selectPaymentRequirements: vi.fn(),
 }));
@@ -95,6 +98,7 @@ describe("fetchWithPayment()", () => {
       1,
       validPaymentRequirements[0],
       undefined,
+      undefined,
     );
     expect(mockFetch).toHaveBeenCalledTimes(2);
     expect(mockFetch).toHaveBeenLastCalledWith("https://api.example.com", {
@@ -108,6 +112,95 @@ describe("fetchWithPayment()", () => {
     } as RequestInitWithRetry);
   });
 
+  it("should pay with the highest x402 version accepted by the server", async () => {
+    const { createPaymentHeader } = await import("x402/client");
+    (createPaymentHeader as ReturnType<typeof vi.fn>).mockResolvedValue("payment-header-value");
+    mockFetch
+      .mockResolvedValueOnce(
+        createResponse(402, {
+          accepts: validPaymentRequirements,
+          x402Version: 1,
+          x402Versions: [1, 2],
+        }),
+      )
+      .mockResolvedValueOnce(createResponse(200, { data: "success" }));
+
+    await wrappedFetch("https://api.example.com", { method: "GET" });
+
+    expect(createPaymentHeader).toHaveBeenCalledWith(
+      mockWalletClient,
+      2,
+      validPaymentRequirements[0],
+      undefined,
+      undefined,
+    );
+  });
+
+  it("should bind the payment to the request when the server asks for it", async () => {
+    const { createPaymentHeader } = await import("x402/client");
+    (createPaymentHeader as ReturnType<typeof vi.fn>).mockResolvedValue("payment-header-value");
+    const bindingRequirements = [
+      { ...validPaymentRequirements[0], extra: { requestBinding: true } },
+    ];
+    mockFetch
+      .mockResolvedValueOnce(createResponse(402, { accepts: bindingRequirements, x402Version: 1 }))
+      .mockResolvedValueOnce(createResponse(200, { data: "success" }));
+
+    await wrappedFetch("https://api.example.com/search?q=x402", { method: "POST", body: "{}" });
+
+    expect(createPaymentHeader).toHaveBeenCalledWith(
+      mockWalletClient,
+      1,
+      bindingRequirements[0],
+      undefined,
+      { method: "POST", url: "https://api.example.com/search?q=x402", body: "{}" },
+    );
+  });
+
+  it("should present the access token of a paid session on later requests", async () => {
+    const token = await signAccessToken(
+      { jti: "1", group: "/articles/*", exp: Math.floor(Date.now() / 1000) + 60 },
+      "secret",
+    );
+    const paidResponse = createResponse(200, { data: "success" });
+    paidResponse.headers.set("X-ACCESS-TOKEN", token);
+    mockFetch
+      .mockResolvedValueOnce(paidResponse)
+      .mockResolvedValueOnce(createResponse(200, { data: "success" }));
+
+    await wrappedFetch("https://api.example.com/articles/1");
+    await wrappedFetch("https://api.example.com/articles/2", { method: "GET" });
+
+    const [, init] = mockFetch.mock.lastCall!;
+    expect(init.method).toBe("GET");
+    expect(new Headers(init.headers).get("X-ACCESS-TOKEN")).toBe(token);
+  });
+
+  it("should keep the request headers when presenting an access token", async () => {
+    const token = await signAccessToken(
+      { jti: "1", group: "/articles/*", exp: Math.floor(Date.now() / 1000) + 60 },
+      "secret",
+    );
+    const paidResponse = createResponse(200, { data: "success" });
+    paidResponse.headers.set("X-ACCESS-TOKEN", token);
+    mockFetch.mockResolvedValue(paidResponse);
+    await wrappedFetch("https://api.example.com/articles/1");
+
+    await wrappedFetch("https://api.example.com/articles/2", {
+      headers: new Headers({ Accept: "application/json" }),
+    });
+    const headers = new Headers(mockFetch.mock.lastCall![1].headers);
+    await wrappedFetch("https://api.example.com/articles/3", {
+      headers: [["Accept", "text/plain"]],
+    });
+    const tupleHeaders = new Headers(mockFetch.mock.lastCall![1].headers);
+
+    expect(headers.get("Accept")).toBe("application/json");
+    expect(headers.get("X-ACCESS-TOKEN")).toBe(token);
+    expect(tupleHeaders.get("Accept")).toBe("text/plain");
+    expect(tupleHeaders.get("X-ACCESS-TOKEN")).toBe(token);
+  });
+
   it("should not retry if already retried", async () => {
     const errorResponse = createResponse(402, {
       accepts: validPaymentRequirements,
@@ -168,3 +261,66 @@ describe("fetchWithPayment()", () => {
     ).rejects.toBe(paymentError);
   });
 });
+
+describe("verifyReceipt()", () => {
+  const privateKey = generatePrivateKey();
+  const signer = privateKeyToAccount(privateKey).address;
+
+  /**
+   * Creates a response carrying a receipt for a request
+   *
+   * @param request - The request the receipt is issued for
+   * @param request.method - The HTTP method of the request
+   * @param request.url - The URL of the request
+   * @param request.body - The body of the request
+   * @returns The response
+   */
+  async function createReceiptResponse(request: { method: string; url: string; body?: string }) {
+    const receipt = await signPaymentReceipt(
+      {
+        request: {
+          method: request.method,
+          url: request.url,
+          bodyHash: hashRequestBody(request.body),
+        },
+        paymentRequirements: {} as PaymentRequirements,
+        network: "base-sepolia",
+        transaction: "0xabc",
+        timestamp: Math.floor(Date.now() / 1000),
+      },
+      privateKey,
+    );
+    return new Response(null, { headers: { "X-PAYMENT-RECEIPT": receipt } });
+  }
+
+  it("returns the receipt of the request when it is signed by the server", async () => {
+    const response = await createReceiptResponse({
+      method: "POST",
+      url: "https://api.example.com/search",
+      body: '{"q":"x402"}',
+    });
+
+    const receipt = await verifyReceipt(response, {
+      signer,
+      method: "POST",
+      url: "https://api.example.com/search",
+      body: '{"q":"x402"}',
+    });
+
+    expect(receipt).toMatchObject({ transaction: "0xabc", signer });
+  });
+
+  it("rejects receipts of other requests or signers", async () => {
+    const response = await createReceiptResponse({ method: "GET", url: "https://api.example.com" });
+    const url = "https://api.example.com";
+
+    expect(await verifyReceipt(response, { signer, url: `${url}/other` })).toBeUndefined();
+    expect(
+      await verifyReceipt(response, {
+        signer: privateKeyToAccount(generatePrivateKey()).address,
+        url,
+      }),
+    ).toBeUndefined();
+    expect(await verifyReceipt(new Response(null), { signer, url })).toBeUndefined();
+  });
+});
@@ -1,4 +1,6 @@
+import { Address } from "viem";
 import {
+  BoundRequest,
   ChainIdToNetwork,
   PaymentRequirementsSchema,
   Signer,
@@ -7,13 +9,18 @@ import {
   isMultiNetworkSigner,
   isSvmSignerWallet,
   Network,
+  PaymentAmountExceededError,
+  PaymentReceipt,
   X402Config,
+  X402Error,
 } from "x402/types";
 import {
   createPaymentHeader,
   PaymentRequirementsSelector,
   selectPaymentRequirements,
+  selectX402Version,
 } from "x402/client";
+import { createAccessTokenCache, requiresRequestBinding, verifyPaymentReceipt } from "x402/shared";
 
 /**
  * Enables the payment of APIs using the x402 payment protocol.
@@ -26,6 +33,10 @@ import {
  * 4. Create a payment header using the provided wallet client
  * 5. Retry the request with the payment header
  *
+ * Access tokens returned by servers in session mode are remembered and sent in the
+ * `X-ACCESS-TOKEN` header of later requests to the same origin, so that one payment unlocks many
+ * requests.
+ *
  * @param fetch - The fetch function to wrap (typically globalThis.fetch)
  * @param walletClient - The wallet client used to sign payment messages
  * @param maxValue - The maximum allowed payment amount in base units (defaults to 0.1 USDC)
@@ -47,7 +58,8 @@ import {
  * const response = await fetchWithPay('https://api.example.com/paid-endpoint');
  * ```
  *
- * @throws {Error} If the payment amount exceeds the maximum allowed value
+ * @throws {PaymentAmountExceededError} If the payment amount exceeds the maximum allowed value
+ * @throws {X402Error} If no payment requirements or protocol version are supported by the client
  * @throws {Error} If the request configuration is missing
  * @throws {Error} If a payment has already been attempted for this request
  * @throws {Error} If there's an error creating the payment header
@@ -59,15 +71,30 @@ export function wrapFetchWithPayment(
   paymentRequirementsSelector: PaymentRequirementsSelector = selectPaymentRequirements,
   config?: X402Config,
 ) {
+  const accessTokens = createAccessTokenCache();
+
   return async (input: RequestInfo, init?: RequestInit) => {
-    const response = await fetch(input, init);
+    const url = typeof input === "string" ? input : input.url;
+
+    // present the access tokens of paid sessions, the server asks for a payment if none is valid
+    const tokens = accessTokens.get(url);
+    let tokenInit = init;
+    if (tokens) {
+      const headers = new Headers(init?.headers);
+      headers.set("X-ACCESS-TOKEN", tokens);
+      tokenInit = { ...init, headers };
+    }
+
+    const response = await fetch(input, tokenInit);
+    storeAccessToken(url, response);
 
     if (response.status !== 402) {
       return response;
     }
 
-    const { x402Version, accepts } = (await response.json()) as {
+    const { x402Version, x402Versions, accepts } = (await response.json()) as {
       x402Version: number;
+      x402Versions?: number[];
       accepts: unknown[];
     };
     const parsedPaymentRequirements = accepts.map(x => PaymentRequirementsSchema.parse(x));
@@ -87,14 +114,19 @@ export function wrapFetchWithPayment(
     );
 
     if (BigInt(selectedPaymentRequirements.maxAmountRequired) > maxValue) {
-      throw new Error("Payment amount exceeds maximum allowed");
+      throw new PaymentAmountExceededError(selectedPaymentRequirements, maxValue);
     }
 
     const paymentHeader = await createPaymentHeader(
       walletClient,
-      x402Version,
+      // pay with the highest protocol version supported by both sides
+      selectX402Version({ x402Version, x402Versions }, config?.x402Versions),
       selectedPaymentRequirements,
       config,
+      // some routes only accept payments bound to the request they are sent with
+      requiresRequestBinding(selectedPaymentRequirements)
+        ? getBoundRequest(input, init)
+        : undefined,
     );
 
     if (!init) {
@@ -116,11 +148,115 @@ export function wrapFetchWithPayment(
     };
 
     const secondResponse = await fetch(input, newInit);
+    storeAccessToken(url, secondResponse);
     return secondResponse;
   };
+
+  /**
+   * Remembers the access token returned by a server in session mode
+   *
+   * @param url - The requested URL
+   * @param response - The response of the server
+   */
+  function storeAccessToken(url: string, response: Response) {
+    const token = response.headers?.get("X-ACCESS-TOKEN");
+    if (token) {
+      accessTokens.set(url, token);
+    }
+  }
+}
+
+/**
+ * Describes the request a payment is sent with, for routes binding payments to requests
+ *
+ * @param input - The resource requested
+ * @param init - The options of the request
+ * @returns The method, absolute URL and body of the request
+ * @throws X402Error if the body cannot be bound to a payment, e.g. a stream or form data
+ */
+function getBoundRequest(input: RequestInfo, init?: RequestInit): BoundRequest {
+  const body = init?.body ?? (typeof input === "string" ? undefined : input.body);
+  if (
+    body != null &&
+    typeof body !== "string" &&
+    !(body instanceof ArrayBuffer) &&
+    !ArrayBuffer.isView(body)
+  ) {
+    throw new X402Error(
+      "invalid_request_binding",
+      "Only string and binary request bodies can be bound to a payment",
+    );
+  }
+
+  return {
+    method: init?.method ?? (typeof input === "string" ? "GET" : input.method),
+    url: new URL(typeof input === "string" ? input : input.url, globalThis.location?.href).href,
+    body:
+      body instanceof ArrayBuffer
+        ? new Uint8Array(body)
+        : ArrayBuffer.isView(body)
+          ? new Uint8Array(body.buffer, body.byteOffset, body.byteLength)
+          : (body ?? undefined),
+  };
 }
 
-export { decodeXPaymentResponse } from "x402/shared";
-export { createSigner, type Signer, type MultiNetworkSigner, type X402Config } from "x402/types";
+/**
+ * Verifies the signed receipt returned with a paid response
+ *
+ * Servers configured to sign receipts return them in the `X-PAYMENT-RECEIPT` header. The receipt
+ * must be signed by one of the given addresses and issued for the request: its method, its URL,
+ * which defaults to the URL of the response, and its body when one is given.
+ *
+ * @param response - The response of the paid request
+ * @param options - The address the server signs receipts with and the request that was made
+ * @param options.signer - The address, or addresses, the server is known to sign receipts with
+ * @param options.method - The HTTP method of the request, defaults to GET
+ * @param options.url - The URL of the request, defaults to the URL of the response
+ * @param options.body - The body of the request, only compared when given
+ * @returns The receipt, or undefined if the response has no valid receipt for the request
+ *
+ * @example
+ * ```typescript
+ * const response = await fetchWithPay(url, { method: "POST", body });
+ * const receipt = await verifyReceipt(response, { signer: serverAddress, method: "POST", body });
+ * ```
+ */
+export async function verifyReceipt(
+  response: Response,
+  options: {
+    signer: Address | Address[];
+    method?: string;
+    url?: string;
+    body?: string | Uint8Array;
+  },
+): Promise<PaymentReceipt | undefined> {
+  const token = response.headers.get("X-PAYMENT-RECEIPT");
+  if (!token) {
+    return undefined;
+  }
+  return verifyPaymentReceipt(token, {
+    signer: options.signer,
+    request: {
+      method: options.method ?? "GET",
+      url: options.url ?? response.url,
+      body: options.body,
+    },
+  });
+}
+
+export { decodeXPaymentResponse, decodePaymentReceipt } from "x402/shared";
+export {
+  createSigner,
+  FacilitatorError,
+  InvalidPaymentError,
+  PaymentAmountExceededError,
+  UnsupportedSchemeError,
+  X402Error,
+  type ErrorReason,
+  type PaymentReceipt,
+  type Signer,
+  type MultiNetworkSigner,
+  type X402Config,
+} from "x402/types";
 export { type PaymentRequirementsSelector } from "x402/client";
-export type { Hex } from "viem";
+export type { Address, Hex } from "viem";
@@ -1,7 +1,14 @@
 import { Context } from "hono";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { exact } from "x402/schemes";
-import { findMatchingRoute, findMatchingPaymentRequirements } from "x402/shared";
+import { decodePaymentHeader, exact } from "x402/schemes";
+import {
+  decodePaymentReceipt,
+  decodeXPaymentResponse,
+  findMatchingRoute,
+  filterMatchingPaymentRequirements,
+  verifyPaymentReceipt,
+} from "x402/shared";
 import { getPaywallHtml } from "x402/paywall";
 import {
   FacilitatorConfig,
@@ -30,7 +37,7 @@ vi.mock("x402/shared", async importOriginal => {
     ...actual,
     getNetworkId: vi.fn().mockReturnValue("base-sepolia"),
     toJsonSafe: vi.fn(x => x),
-    findMatchingPaymentRequirements: vi.fn(),
+    filterMatchingPaymentRequirements: vi.fn(),
     computeRoutePatterns: vi.fn().mockImplementation(routes => {
       const normalizedRoutes = Object.fromEntries(
         Object.entries(routes).map(([pattern, value]) => [
@@ -73,18 +80,16 @@ vi.mock("x402/shared", async importOriginal => {
   };
 });
 
-vi.mock("x402/shared/evm", () => ({
-  getUsdcAddressForChain: vi.fn().mockReturnValue("0x036CbD53842c5426634e7929541eC2318f3dCF7e"),
-}));
-
-// Mock exact.evm.decodePayment
+// Mock the scheme registry
 vi.mock("x402/schemes", () => ({
   exact: {
     evm: {
       encodePayment: vi.fn(),
-      decodePayment: vi.fn(),
     },
   },
+  decodePaymentHeader: vi.fn(),
+  getPaymentId: vi.fn(() => "payment-id"),
+  getScheme: vi.fn(),
 }));
 
 describe("paymentMiddleware()", () => {
@@ -163,6 +168,7 @@ describe("paymentMiddleware()", () => {
       header: vi.fn(),
       json: vi.fn(),
       html: vi.fn(),
+      get: vi.fn(),
     } as unknown as Context;
 
     mockNext = vi.fn();
@@ -176,7 +182,8 @@ describe("paymentMiddleware()", () => {
 
     // Setup exact.evm mocks
     (exact.evm.encodePayment as ReturnType<typeof vi.fn>).mockReturnValue(encodedValidPayment);
-    (exact.evm.decodePayment as ReturnType<typeof vi.fn>).mockReturnValue(validPayment);
+    (decodePaymentHeader as ReturnType<typeof vi.fn>).mockReturnValue(validPayment);
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([]);
 
     // Setup findMatchingRoute mock
     (findMatchingRoute as ReturnType<typeof vi.fn>).mockImplementation(
@@ -210,6 +217,7 @@ describe("paymentMiddleware()", () => {
     expect(mockContext.json).toHaveBeenCalledWith(
       {
         error: "X-PAYMENT header is required",
+        code: "payment_required",
         accepts: [
           {
             scheme: "exact",
@@ -229,6 +237,7 @@ describe("paymentMiddleware()", () => {
           },
         ],
         x402Version: 1,
+        x402Versions: [1],
       },
       402,
     );
@@ -514,7 +523,7 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    (exact.evm.decodePayment as ReturnType<typeof vi.fn>).mockImplementation(() => {
+    (decodePaymentHeader as ReturnType<typeof vi.fn>).mockImplementation(() => {
       throw new Error("Invalid payment");
     });
 
@@ -563,8 +572,8 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    // Mock findMatchingPaymentRequirements to return undefined
-    vi.mocked(findMatchingPaymentRequirements).mockReturnValue(undefined);
+    // Mock filterMatchingPaymentRequirements to return no match
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([]);
 
     await middlewareCustom(mockContext, mockNext);
 
@@ -611,30 +620,32 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    // Mock findMatchingPaymentRequirements to return a valid requirement
-    vi.mocked(findMatchingPaymentRequirements).mockReturnValue({
-      scheme: "exact",
-      network: "base-sepolia",
-      maxAmountRequired: "1000",
-      resource: "https://api.example.com/resource",
-      description: "Test payment",
-      mimeType: "application/json",
-      payTo: "0x1234567890123456789012345678901234567890",
-      maxTimeoutSeconds: 300,
-      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-      outputSchema: {
-        input: {
-          type: "http",
-          method: "GET",
-          queryParams: { type: "string" },
+    // Mock filterMatchingPaymentRequirements to return a valid requirement
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo: "0x1234567890123456789012345678901234567890",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        outputSchema: {
+          input: {
+            type: "http",
+            method: "GET",
+            queryParams: { type: "string" },
+          },
+          output: { type: "object" },
+        },
+        extra: {
+          name: "USDC",
+          version: "2",
         },
-        output: { type: "object" },
-      },
-      extra: {
-        name: "USDC",
-        version: "2",
       },
-    });
+    ]);
 
     (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({
       isValid: false,
@@ -686,30 +697,32 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    // Mock findMatchingPaymentRequirements to return a valid requirement
-    vi.mocked(findMatchingPaymentRequirements).mockReturnValue({
-      scheme: "exact",
-      network: "base-sepolia",
-      maxAmountRequired: "1000",
-      resource: "https://api.example.com/resource",
-      description: "Test payment",
-      mimeType: "application/json",
-      payTo: "0x1234567890123456789012345678901234567890",
-      maxTimeoutSeconds: 300,
-      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-      outputSchema: {
-        input: {
-          type: "http",
-          method: "GET",
-          queryParams: { type: "string" },
+    // Mock filterMatchingPaymentRequirements to return a valid requirement
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo: "0x1234567890123456789012345678901234567890",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        outputSchema: {
+          input: {
+            type: "http",
+            method: "GET",
+            queryParams: { type: "string" },
+          },
+          output: { type: "object" },
+        },
+        extra: {
+          name: "USDC",
+          version: "2",
         },
-        output: { type: "object" },
-      },
-      extra: {
-        name: "USDC",
-        version: "2",
       },
-    });
+    ]);
 
     (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
     (mockSettle as ReturnType<typeof vi.fn>).mockRejectedValue(new Error("Settlement failed"));
@@ -759,30 +772,32 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    // Mock findMatchingPaymentRequirements to return a valid requirement
-    vi.mocked(findMatchingPaymentRequirements).mockReturnValue({
-      scheme: "exact",
-      network: "base-sepolia",
-      maxAmountRequired: "1000",
-      resource: "https://api.example.com/resource",
-      description: "Test payment",
-      mimeType: "application/json",
-      payTo: "0x1234567890123456789012345678901234567890",
-      maxTimeoutSeconds: 300,
-      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-      outputSchema: {
-        input: {
-          type: "http",
-          method: "GET",
-          queryParams: { type: "string" },
+    // Mock filterMatchingPaymentRequirements to return a valid requirement
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo: "0x1234567890123456789012345678901234567890",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        outputSchema: {
+          input: {
+            type: "http",
+            method: "GET",
+            queryParams: { type: "string" },
+          },
+          output: { type: "object" },
+        },
+        extra: {
+          name: "USDC",
+          version: "2",
         },
-        output: { type: "object" },
-      },
-      extra: {
-        name: "USDC",
-        version: "2",
       },
-    });
+    ]);
 
     (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
     (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue({
@@ -792,6 +807,9 @@ describe("paymentMiddleware()", () => {
       network: "base-sepolia",
       payer: "0x123",
     });
+    (mockContext.json as ReturnType<typeof vi.fn>).mockImplementation(
+      (body: unknown, status: number) => Response.json(body, { status }),
+    );
 
     await middlewareCustom(mockContext, mockNext);
 
@@ -803,6 +821,13 @@ describe("paymentMiddleware()", () => {
       }),
       402,
     );
+    // the failed settlement is reported alongside the error
+    const paymentResponse = mockContext.res.headers.get("X-PAYMENT-RESPONSE");
+    expect(paymentResponse).not.toBeNull();
+    expect(decodeXPaymentResponse(paymentResponse!)).toMatchObject({
+      success: false,
+      errorReason: "insufficient_balance",
+    });
   });
 
   it("should return HTML paywall for browser requests", async () => {
@@ -823,40 +848,76 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    // Mock findMatchingPaymentRequirements to return a valid requirement
-    vi.mocked(findMatchingPaymentRequirements).mockReturnValue({
-      scheme: "exact",
-      network: "base-sepolia",
-      maxAmountRequired: "1000",
-      resource: "https://api.example.com/resource",
-      description: "Test payment",
-      mimeType: "application/json",
-      payTo: "0x1234567890123456789012345678901234567890",
-      maxTimeoutSeconds: 300,
-      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-      outputSchema: {
-        input: {
-          type: "http",
-          method: "GET",
-          queryParams: { type: "string" },
+    // Mock filterMatchingPaymentRequirements to return a valid requirement
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo: "0x1234567890123456789012345678901234567890",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        outputSchema: {
+          input: {
+            type: "http",
+            method: "GET",
+            queryParams: { type: "string" },
+          },
+          output: { type: "object" },
+        },
+        extra: {
+          name: "USDC",
+          version: "2",
         },
-        output: { type: "object" },
-      },
-      extra: {
-        name: "USDC",
-        version: "2",
       },
-    });
+    ]);
 
     (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
 
     await middleware(mockContext, mockNext);
 
-    expect(exact.evm.decodePayment).toHaveBeenCalledWith(encodedValidPayment);
+    expect(decodePaymentHeader).toHaveBeenCalledWith(encodedValidPayment);
     expect(mockVerify).toHaveBeenCalledWith(validPayment, expect.any(Object));
     expect(mockNext).toHaveBeenCalled();
   });
 
+  it("should hand the payer to the handler unless the privacy policy hides it", async () => {
+    const payer = "0x1111111111111111111111111111111111111111";
+    (mockContext.req.header as ReturnType<typeof vi.fn>).mockImplementation((name: string) => {
+      if (name === "X-PAYMENT") return encodedValidPayment;
+      return undefined;
+    });
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo: "0x1234567890123456789012345678901234567890",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        extra: { name: "USDC", version: "2" },
+      },
+    ]);
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true, payer });
+    const set = vi.fn();
+    mockContext.set = set;
+
+    await middleware(mockContext, mockNext);
+    mockContext.res = { status: 200, headers: new Headers() } as Response;
+    await paymentMiddleware(payTo, routesConfig, facilitatorConfig, undefined, {
+      privacy: { payer: "hash", hashSecret: "secret" },
+    })(mockContext, mockNext);
+
+    expect(set).toHaveBeenCalledTimes(1);
+    expect(set).toHaveBeenCalledWith("x402Payer", payer);
+  });
+
   it("should return 402 if payment verification fails", async () => {
     const invalidPayment = "invalid-payment-header";
     (mockContext.req.header as ReturnType<typeof vi.fn>).mockImplementation((name: string) => {
@@ -864,7 +925,7 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    (exact.evm.decodePayment as ReturnType<typeof vi.fn>).mockImplementation(() => {
+    (decodePaymentHeader as ReturnType<typeof vi.fn>).mockImplementation(() => {
       throw new Error("Invalid payment");
     });
 
@@ -878,7 +939,9 @@ describe("paymentMiddleware()", () => {
     expect(mockContext.json).toHaveBeenCalledWith(
       {
         x402Version: 1,
-        error: new Error("Invalid payment"),
+        x402Versions: [1],
+        error: "Invalid or malformed payment header",
+        code: "invalid_payment",
         accepts: [
           {
             scheme: "exact",
@@ -908,30 +971,32 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    // Mock findMatchingPaymentRequirements to return a valid requirement
-    vi.mocked(findMatchingPaymentRequirements).mockReturnValue({
-      scheme: "exact",
-      network: "base-sepolia",
-      maxAmountRequired: "1000",
-      resource: "https://api.example.com/resource",
-      description: "Test payment",
-      mimeType: "application/json",
-      payTo: "0x1234567890123456789012345678901234567890",
-      maxTimeoutSeconds: 300,
-      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-      outputSchema: {
-        input: {
-          type: "http",
-          method: "GET",
-          queryParams: { type: "string" },
+    // Mock filterMatchingPaymentRequirements to return a valid requirement
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo: "0x1234567890123456789012345678901234567890",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        outputSchema: {
+          input: {
+            type: "http",
+            method: "GET",
+            queryParams: { type: "string" },
+          },
+          output: { type: "object" },
+        },
+        extra: {
+          name: "USDC",
+          version: "2",
         },
-        output: { type: "object" },
-      },
-      extra: {
-        name: "USDC",
-        version: "2",
       },
-    });
+    ]);
 
     (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
     (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue({
@@ -951,7 +1016,7 @@ describe("paymentMiddleware()", () => {
 
     await middleware(mockContext, mockNext);
 
-    expect(exact.evm.decodePayment).toHaveBeenCalledWith(encodedValidPayment);
+    expect(decodePaymentHeader).toHaveBeenCalledWith(encodedValidPayment);
     expect(mockSettle).toHaveBeenCalledWith(validPayment, expect.any(Object));
     expect(headersSpy).toHaveBeenCalledWith("X-PAYMENT-RESPONSE", expect.any(String));
 
@@ -967,30 +1032,32 @@ describe("paymentMiddleware()", () => {
       return undefined;
     });
 
-    // Mock findMatchingPaymentRequirements to return a valid requirement
-    vi.mocked(findMatchingPaymentRequirements).mockReturnValue({
-      scheme: "exact",
-      network: "base-sepolia",
-      maxAmountRequired: "1000",
-      resource: "https://api.example.com/resource",
-      description: "Test payment",
-      mimeType: "application/json",
-      payTo: "0x1234567890123456789012345678901234567890",
-      maxTimeoutSeconds: 300,
-      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-      outputSchema: {
-        input: {
-          type: "http",
-          method: "GET",
-          queryParams: { type: "string" },
+    // Mock filterMatchingPaymentRequirements to return a valid requirement
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo: "0x1234567890123456789012345678901234567890",
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        outputSchema: {
+          input: {
+            type: "http",
+            method: "GET",
+            queryParams: { type: "string" },
+          },
+          output: { type: "object" },
+        },
+        extra: {
+          name: "USDC",
+          version: "2",
         },
-        output: { type: "object" },
-      },
-      extra: {
-        name: "USDC",
-        version: "2",
       },
-    });
+    ]);
 
     (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
     (mockSettle as ReturnType<typeof vi.fn>).mockRejectedValue(new Error("Settlement failed"));
@@ -1000,7 +1067,9 @@ describe("paymentMiddleware()", () => {
     expect(mockContext.json).toHaveBeenCalledWith(
       {
         x402Version: 1,
-        error: new Error("Settlement failed"),
+        x402Versions: [1],
+        error: "The payment could not be settled",
+        code: "unexpected_settle_error",
         accepts: [
           {
             scheme: "exact",
@@ -1024,6 +1093,153 @@ describe("paymentMiddleware()", () => {
     );
   });
 
+  it("should sign a receipt of the request when receipts are configured", async () => {
+    const privateKey = generatePrivateKey();
+    middleware = paymentMiddleware(payTo, routesConfig, facilitatorConfig, undefined, {
+      receipts: { privateKey },
+    });
+    (mockContext.req.header as ReturnType<typeof vi.fn>).mockImplementation((name: string) => {
+      if (name === "X-PAYMENT") return encodedValidPayment;
+      return undefined;
+    });
+    Object.assign(mockContext.req, {
+      raw: new Request("http://localhost:3000/weather", { method: "POST", body: '{"days":3}' }),
+    });
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "http://localhost:3000/weather",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo,
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      },
+    ]);
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
+    (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue({
+      success: true,
+      transaction: "0x123",
+      network: "base-sepolia",
+    });
+    const headersSpy = vi.spyOn(mockContext.res.headers, "set");
+
+    await middleware(mockContext, mockNext);
+
+    const receipt = headersSpy.mock.calls.find(([name]) => name === "X-PAYMENT-RECEIPT")?.[1];
+    expect(
+      await verifyPaymentReceipt(receipt ?? "", {
+        signer: privateKeyToAccount(privateKey).address,
+        request: { method: "GET", url: "http://localhost:3000/weather", body: '{"days":3}' },
+      }),
+    ).toMatchObject({ transaction: "0x123", network: "base-sepolia" });
+    headersSpy.mockRestore();
+  });
+
+  it("should leave the raw payer out of the settlement response and receipt", async () => {
+    const payer = "0x857b06519E91e3A54538791bDbb0E22373e36b66";
+    middleware = paymentMiddleware(payTo, routesConfig, facilitatorConfig, undefined, {
+      privacy: { payer: "redact" },
+      receipts: { privateKey: generatePrivateKey() },
+    });
+    (mockContext.req.header as ReturnType<typeof vi.fn>).mockImplementation((name: string) => {
+      if (name === "X-PAYMENT") return encodedValidPayment;
+      return undefined;
+    });
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo,
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      },
+    ]);
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true, payer });
+    (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue({
+      success: true,
+      transaction: "0x123",
+      network: "base-sepolia",
+      payer,
+    });
+    const headersSpy = vi.spyOn(mockContext.res.headers, "set");
+
+    await middleware(mockContext, mockNext);
+
+    const headers = Object.fromEntries(headersSpy.mock.calls);
+    expect(decodeXPaymentResponse(headers["X-PAYMENT-RESPONSE"])).not.toHaveProperty("payer");
+    const receipt = decodePaymentReceipt(headers["X-PAYMENT-RECEIPT"]);
+    expect(receipt?.transaction).toBe("0x123");
+    expect(receipt).not.toHaveProperty("payer");
+    headersSpy.mockRestore();
+  });
+
+  it("should refund the payment when the client disconnects before the response", async () => {
+    const settleResponse = {
+      success: true,
+      transaction: "0x123",
+      network: "base-sepolia" as const,
+      payer: "0x857b06519E91e3A54538791bDbb0E22373e36b66",
+    };
+    const mockRefund = vi.fn().mockResolvedValue({
+      ...settleResponse,
+      transaction: "0x456",
+      originalTransaction: "0x123",
+    });
+    (useFacilitator as ReturnType<typeof vi.fn>).mockReturnValue({
+      verify: mockVerify,
+      settle: mockSettle,
+      refund: mockRefund,
+    });
+    (mockContext.req.header as ReturnType<typeof vi.fn>).mockImplementation((name: string) => {
+      if (name === "X-PAYMENT") return encodedValidPayment;
+      return undefined;
+    });
+    vi.mocked(filterMatchingPaymentRequirements).mockReturnValue([
+      {
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/resource",
+        description: "Test payment",
+        mimeType: "application/json",
+        payTo,
+        maxTimeoutSeconds: 300,
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      },
+    ]);
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true });
+    (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue(settleResponse);
+    const controller = new AbortController();
+    Object.assign(mockContext.req, {
+      raw: new Request("https://api.example.com/resource", { signal: controller.signal }),
+    });
+    const signer = privateKeyToAccount(
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    );
+    middleware = paymentMiddleware(payTo, routesConfig, facilitatorConfig, undefined, {
+      refunds: { signer },
+    });
+
+    await middleware(mockContext, mockNext);
+    expect(mockRefund).not.toHaveBeenCalled();
+    controller.abort();
+    await vi.waitFor(() => expect(mockRefund).toHaveBeenCalled());
+
+    expect(mockRefund).toHaveBeenCalledWith(
+      settleResponse,
+      expect.objectContaining({ scheme: "exact", payTo }),
+      validPayment,
+      undefined,
+    );
+  });
+
   it("should not settle payment if protected route returns status >= 400", async () => {
     (mockContext.req.header as ReturnType<typeof vi.fn>).mockImplementation((name: string) => {
       if (name === "X-PAYMENT") return encodedValidPayment;
@@ -1,29 +1,14 @@
 import type { Context } from "hono";
-import { Address, getAddress } from "viem";
+import { Address } from "viem";
 import { Address as SolanaAddress } from "@solana/kit";
-import { exact } from "x402/schemes";
+import { createPaymentGate } from "x402/server";
+import { createPayerPrivacy } from "x402/shared";
 import {
-  computeRoutePatterns,
-  findMatchingPaymentRequirements,
-  findMatchingRoute,
-  processPriceToAtomicAmount,
-  toJsonSafe,
-} from "x402/shared";
-import { getPaywallHtml } from "x402/paywall";
-import {
-  ERC20TokenAmount,
   FacilitatorConfig,
-  moneySchema,
-  PaymentPayload,
-  PaymentRequirements,
-  Resource,
-  RoutesConfig,
-  settleResponseHeader,
+  PaymentMiddlewareOptions,
   PaywallConfig,
-  SupportedEVMNetworks,
-  SupportedSVMNetworks,
+  RoutesConfig,
 } from "x402/types";
-import { useFacilitator } from "x402/verify";
 
 /**
  * Creates a payment middleware factory for Hono
@@ -32,6 +17,7 @@ import { useFacilitator } from "x402/verify";
  * @param routes - Configuration for protected routes and their payment requirements
  * @param facilitator - Optional configuration for the payment facilitator service
  * @param paywall - Optional configuration for the default paywall
+ * @param options - Optional configuration of the middleware, such as the store used for replay protection
  * @returns A Hono middleware handler
  *
  * @example
@@ -77,210 +63,34 @@ export function paymentMiddleware(
   routes: RoutesConfig,
   facilitator?: FacilitatorConfig,
   paywall?: PaywallConfig,
+  options?: PaymentMiddlewareOptions,
 ) {
-  const { verify, settle, supported } = useFacilitator(facilitator);
-  const x402Version = 1;
-
-  // Pre-compile route patterns to regex and extract verbs
-  const routePatterns = computeRoutePatterns(routes);
+  const paymentGate = createPaymentGate(payTo, routes, facilitator, paywall, options);
+  const { logError } = createPayerPrivacy(options?.privacy);
 
   return async function paymentMiddleware(c: Context, next: () => Promise<void>) {
-    const method = c.req.method.toUpperCase();
-    const matchingRoute = findMatchingRoute(routePatterns, c.req.path, method);
-    if (!matchingRoute) {
-      return next();
-    }
-
-    const { price, network, config = {} } = matchingRoute.config;
-    const {
-      description,
-      mimeType,
-      maxTimeoutSeconds,
-      inputSchema,
-      outputSchema,
-      customPaywallHtml,
-      resource,
-      errorMessages,
-      discoverable,
-    } = config;
-
-    const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
-    if ("error" in atomicAmountForAsset) {
-      throw new Error(atomicAmountForAsset.error);
+    const decision = await paymentGate({
+      method: c.req.method,
+      path: c.req.path,
+      url: c.req.url,
+      getHeader: name => c.req.header(name),
+      getBody: async () => new Uint8Array(await c.req.raw.clone().arrayBuffer()),
+    });
+
+    switch (decision.type) {
+      case "pass-through":
+      // a paid session's access token stands in for the payment
+      case "access-granted":
+        return next();
+      case "paywall":
+        return c.html(decision.html, decision.status);
+      case "payment-error":
+        return c.json(decision.body, decision.status);
     }
-    const { maxAmountRequired, asset } = atomicAmountForAsset;
-
-    const resourceUrl: Resource = resource || (c.req.url as Resource);
-
-    let paymentRequirements: PaymentRequirements[] = [];
-
-    // TODO: create a shared middleware function to build payment requirements
-    // evm networks
-    if (SupportedEVMNetworks.includes(network)) {
-      paymentRequirements.push({
-        scheme: "exact",
-        network,
-        maxAmountRequired,
-        resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "application/json",
-        payTo: getAddress(payTo),
-        maxTimeoutSeconds: maxTimeoutSeconds ?? 300,
-        asset: getAddress(asset.address),
-        // TODO: Rename outputSchema to requestStructure
-        outputSchema: {
-          input: {
-            type: "http",
-            method,
-            discoverable: discoverable ?? true,
-            ...inputSchema,
-          },
-          output: outputSchema,
-        },
-        extra: (asset as ERC20TokenAmount["asset"]).eip712,
-      });
-    }
-    // svm networks
-    else if (SupportedSVMNetworks.includes(network)) {
-      // network call to get the supported payments from the facilitator
-      const paymentKinds = await supported();
-
-      // find the payment kind that matches the network and scheme
-      let feePayer: string | undefined;
-      for (const kind of paymentKinds.kinds) {
-        if (kind.network === network && kind.scheme === "exact") {
-          feePayer = kind?.extra?.feePayer;
-          break;
-        }
-      }
-
-      // svm networks require a fee payer
-      if (!feePayer) {
-        throw new Error(`The facilitator did not provide a fee payer for network: ${network}.`);
-      }
 
-      // build the payment requirements for svm
-      paymentRequirements.push({
-        scheme: "exact",
-        network,
-        maxAmountRequired,
-        resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "",
-        payTo: payTo,
-        maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
-        asset: asset.address,
-        // TODO: Rename outputSchema to requestStructure
-        outputSchema: {
-          input: {
-            type: "http",
-            method,
-            discoverable: discoverable ?? true,
-            ...inputSchema,
-          },
-          output: outputSchema,
-        },
-        extra: {
-          feePayer,
-        },
-      });
-    } else {
-      throw new Error(`Unsupported network: ${network}`);
-    }
-
-    const payment = c.req.header("X-PAYMENT");
-    const userAgent = c.req.header("User-Agent") || "";
-    const acceptHeader = c.req.header("Accept") || "";
-    const isWebBrowser = acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
-
-    if (!payment) {
-      // TODO: handle paywall html for solana
-      if (isWebBrowser) {
-        let displayAmount: number;
-        if (typeof price === "string" || typeof price === "number") {
-          const parsed = moneySchema.safeParse(price);
-          if (parsed.success) {
-            displayAmount = parsed.data;
-          } else {
-            displayAmount = Number.NaN;
-          }
-        } else {
-          displayAmount = Number(price.amount) / 10 ** price.asset.decimals;
-        }
-
-        const currentUrl = new URL(c.req.url).pathname + new URL(c.req.url).search;
-        const html =
-          customPaywallHtml ??
-          getPaywallHtml({
-            amount: displayAmount,
-            paymentRequirements: toJsonSafe(paymentRequirements) as Parameters<
-              typeof getPaywallHtml
-            >[0]["paymentRequirements"],
-            currentUrl,
-            testnet: network === "base-sepolia",
-            cdpClientKey: paywall?.cdpClientKey,
-            appName: paywall?.appName,
-            appLogo: paywall?.appLogo,
-            sessionTokenEndpoint: paywall?.sessionTokenEndpoint,
-          });
-        return c.html(html, 402);
-      }
-      return c.json(
-        {
-          error: errorMessages?.paymentRequired || "X-PAYMENT header is required",
-          accepts: paymentRequirements,
-          x402Version,
-        },
-        402,
-      );
-    }
-
-    // Verify payment
-    let decodedPayment: PaymentPayload;
-    try {
-      decodedPayment = exact.evm.decodePayment(payment);
-      decodedPayment.x402Version = x402Version;
-    } catch (error) {
-      return c.json(
-        {
-          error:
-            errorMessages?.invalidPayment ||
-            (error instanceof Error ? error : new Error("Invalid or malformed payment header")),
-          accepts: paymentRequirements,
-          x402Version,
-        },
-        402,
-      );
-    }
-
-    const selectedPaymentRequirements = findMatchingPaymentRequirements(
-      paymentRequirements,
-      decodedPayment,
-    );
-    if (!selectedPaymentRequirements) {
-      return c.json(
-        {
-          error:
-            errorMessages?.noMatchingRequirements || "Unable to find matching payment requirements",
-          accepts: toJsonSafe(paymentRequirements),
-          x402Version,
-        },
-        402,
-      );
-    }
-
-    const verification = await verify(decodedPayment, selectedPaymentRequirements);
-
-    if (!verification.isValid) {
-      return c.json(
-        {
-          error: errorMessages?.verificationFailed || verification.invalidReason,
-          accepts: paymentRequirements,
-          payer: verification.payer,
-          x402Version,
-        },
-        402,
-      );
+    // the payer is left out under a privacy policy, unless it exposes payers to handlers
+    if (decision.payer !== undefined) {
+      c.set("x402Payer", decision.payer);
     }
 
     // Proceed with request
@@ -290,31 +100,38 @@ export function paymentMiddleware(
 
     // If the response from the protected route is >= 400, do not settle payment
     if (res.status >= 400) {
+      // the payment was not used, so it may be retried, or refunded if it was escrowed
+      await decision.cancel();
       return;
     }
 
     c.res = undefined;
 
     // Settle payment before processing the request, as Hono middleware does not allow us to set headers after the response has been sent
-    try {
-      const settlement = await settle(decodedPayment, selectedPaymentRequirements);
-      if (settlement.success) {
-        const responseHeader = settleResponseHeader(settlement);
-        res.headers.set("X-PAYMENT-RESPONSE", responseHeader);
+    // usage-based (upto) routes charge the amount reported by the handler
+    const settlement = await decision.settle(c.get("x402SettlementAmount"));
+    if (settlement.type === "payment-error") {
+      res = c.json(settlement.body, settlement.status);
+    }
+    // the settlement response is reported on errors as well, as the Express middleware does
+    for (const [name, value] of Object.entries(settlement.headers)) {
+      res.headers.set(name, value);
+    }
+
+    // with a refund wallet, payments whose response is not delivered, e.g. because the client
+    // disconnected, are refunded. The request is aborted when the client disconnects before the
+    // response is written.
+    if (settlement.type === "settled" && settlement.refund) {
+      const { refund } = settlement;
+      const { signal } = c.req.raw;
+      const refundUndelivered = () => {
+        refund().catch(error => logError("Failed to refund payment:", error));
+      };
+      if (signal.aborted) {
+        refundUndelivered();
       } else {
-        throw new Error(settlement.errorReason);
+        signal.addEventListener("abort", refundUndelivered, { once: true });
       }
-    } catch (error) {
-      res = c.json(
-        {
-          error:
-            errorMessages?.settlementFailed ||
-            (error instanceof Error ? error : new Error("Failed to settle payment")),
-          accepts: paymentRequirements,
-          x402Version,
-        },
-        402,
-      );
     }
 
     c.res = res;
@@ -325,6 +142,7 @@ export type {
   Money,
   Network,
   PaymentMiddlewareConfig,
+  PaymentMiddlewareOptions,
   Resource,
   RouteConfig,
   RoutesConfig,
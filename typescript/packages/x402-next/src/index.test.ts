@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { exact } from "x402/schemes";
-import { findMatchingRoute, findMatchingPaymentRequirements } from "x402/shared";
+import { decodePaymentHeader } from "x402/schemes";
+import {
+  decodePaymentReceipt,
+  decodeXPaymentResponse,
+  findMatchingRoute,
+  filterMatchingPaymentRequirements,
+} from "x402/shared";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { getPaywallHtml } from "x402/paywall";
 import {
   FacilitatorConfig,
@@ -73,26 +79,20 @@ vi.mock("x402/shared", async importOriginal => {
           });
         },
       ),
-    findMatchingPaymentRequirements: vi
+    filterMatchingPaymentRequirements: vi
       .fn()
       .mockImplementation((requirements: PaymentRequirements[], payment: PaymentPayload) => {
-        return requirements.find(
+        return requirements.filter(
           req => req.scheme == payment.scheme && req.network == payment.network,
         );
       }),
   };
 });
 
-vi.mock("x402/shared/evm", () => ({
-  getUsdcAddressForChain: vi.fn().mockReturnValue("0x036CbD53842c5426634e7929541eC2318f3dCF7e"),
-}));
-
 vi.mock("x402/schemes", () => ({
-  exact: {
-    evm: {
-      decodePayment: vi.fn(),
-    },
-  },
+  decodePaymentHeader: vi.fn(),
+  getPaymentId: vi.fn(() => "payment-id"),
+  getScheme: vi.fn(),
 }));
 
 describe("paymentMiddleware()", () => {
@@ -157,7 +157,7 @@ describe("paymentMiddleware()", () => {
 
     // Setup decode payment mock
     mockDecodePayment = vi.fn();
-    (exact.evm.decodePayment as ReturnType<typeof vi.fn>).mockImplementation(mockDecodePayment);
+    (decodePaymentHeader as ReturnType<typeof vi.fn>).mockImplementation(mockDecodePayment);
 
     // Setup route pattern matching mock
     (findMatchingRoute as ReturnType<typeof vi.fn>).mockImplementation(
@@ -177,9 +177,9 @@ describe("paymentMiddleware()", () => {
       },
     );
 
-    (findMatchingPaymentRequirements as ReturnType<typeof vi.fn>).mockImplementation(
+    (filterMatchingPaymentRequirements as ReturnType<typeof vi.fn>).mockImplementation(
       (requirements: PaymentRequirements[], payment: PaymentPayload) => {
-        return requirements.find(
+        return requirements.filter(
           req => req.scheme == payment.scheme && req.network == payment.network,
         );
       },
@@ -315,7 +315,9 @@ describe("paymentMiddleware()", () => {
     const json = await response.json();
     expect(json).toEqual({
       x402Version: 1,
+      x402Versions: [1],
       error: "X-PAYMENT header is required",
+      code: "payment_required",
       accepts: [
         {
           scheme: "exact",
@@ -337,6 +339,24 @@ describe("paymentMiddleware()", () => {
     });
   });
 
+  it("should reject escrow routes, as it cannot refund them when the handler fails", () => {
+    expect(() =>
+      paymentMiddleware(
+        payTo,
+        { "/escrowed": { scheme: "escrow", price: "$0.01", network: "base-sepolia" } },
+        facilitatorConfig,
+      ),
+    ).toThrow("The Next.js middleware does not support the escrow scheme on route /escrowed");
+  });
+
+  it("should reject refunds, as it cannot tell whether the response was delivered", () => {
+    const signer = privateKeyToAccount(generatePrivateKey());
+
+    expect(() =>
+      paymentMiddleware(payTo, {}, facilitatorConfig, undefined, { refunds: { signer } }),
+    ).toThrow("The Next.js middleware cannot refund undelivered responses");
+  });
+
   it("should return 402 with payment requirements when no payment header is present", async () => {
     const request = {
       ...mockRequest,
@@ -457,7 +477,9 @@ describe("paymentMiddleware()", () => {
     const json = await response.json();
     expect(json).toEqual({
       x402Version: 1,
-      error: "insufficient_funds",
+      x402Versions: [1],
+      error: "The payer does not have enough funds",
+      code: "insufficient_funds",
       accepts: [
         {
           scheme: "exact",
@@ -523,6 +545,40 @@ describe("paymentMiddleware()", () => {
     expect(response.headers.get("X-PAYMENT-RESPONSE")).toBeDefined();
   });
 
+  it("should leave the raw payer out of the settlement response and receipt", async () => {
+    const payer = "0x857b06519E91e3A54538791bDbb0E22373e36b66";
+    middleware = paymentMiddleware(
+      payTo,
+      { "/protected/*": { price: 1.0, network: "base-sepolia", config: middlewareConfig } },
+      facilitatorConfig,
+      undefined,
+      { privacy: { payer: "redact" }, receipts: { privateKey: generatePrivateKey() } },
+    );
+    const request = {
+      ...mockRequest,
+      headers: new Headers({
+        "X-PAYMENT": "valid-payment-header",
+      }),
+    } as NextRequest;
+    mockDecodePayment.mockReturnValue({ scheme: "exact", network: "base-sepolia", x402Version: 1 });
+    (mockVerify as ReturnType<typeof vi.fn>).mockResolvedValue({ isValid: true, payer });
+    (mockSettle as ReturnType<typeof vi.fn>).mockResolvedValue({
+      success: true,
+      transaction: "0x123",
+      network: "base-sepolia",
+      payer,
+    });
+
+    const response = await middleware(request);
+
+    expect(
+      decodeXPaymentResponse(response.headers.get("X-PAYMENT-RESPONSE") ?? ""),
+    ).not.toHaveProperty("payer");
+    const receipt = decodePaymentReceipt(response.headers.get("X-PAYMENT-RECEIPT") ?? "");
+    expect(receipt?.transaction).toBe("0x123");
+    expect(receipt).not.toHaveProperty("payer");
+  });
+
   it("should handle settlement failure", async () => {
     const validPayment = "valid-payment-header";
     const request = {
@@ -548,7 +604,9 @@ describe("paymentMiddleware()", () => {
     const json = await response.json();
     expect(json).toEqual({
       x402Version: 1,
-      error: expect.any(Object),
+      x402Versions: [1],
+      error: "The payment could not be settled",
+      code: "unexpected_settle_error",
       accepts: [
         {
           scheme: "exact",
@@ -594,7 +652,9 @@ describe("paymentMiddleware()", () => {
     const json = await response.json();
     expect(json).toEqual({
       x402Version: 1,
+      x402Versions: [1],
       error: "X-PAYMENT header is required",
+      code: "payment_required",
       accepts: [
         {
           scheme: "exact",
@@ -1,30 +1,15 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { Address, getAddress } from "viem";
+import { Address } from "viem";
 import type { Address as SolanaAddress } from "@solana/kit";
-import { exact } from "x402/schemes";
-import {
-  computeRoutePatterns,
-  findMatchingPaymentRequirements,
-  findMatchingRoute,
-  processPriceToAtomicAmount,
-  toJsonSafe,
-} from "x402/shared";
-import { getPaywallHtml } from "x402/paywall";
+import { createPaymentGate } from "x402/server";
+import { getPaymentOptions } from "x402/shared";
 import {
   FacilitatorConfig,
-  moneySchema,
-  PaymentPayload,
-  PaymentRequirements,
-  Resource,
-  RoutesConfig,
+  PaymentMiddlewareOptions,
   PaywallConfig,
-  ERC20TokenAmount,
-  SupportedEVMNetworks,
-  SupportedSVMNetworks,
+  RoutesConfig,
 } from "x402/types";
-import { useFacilitator } from "x402/verify";
-import { safeBase64Encode } from "x402/shared";
 
 import { POST } from "./api/session-token";
 
@@ -35,6 +20,7 @@ import { POST } from "./api/session-token";
  * @param routes - Configuration for protected routes and their payment requirements
  * @param facilitator - Optional configuration for the payment facilitator service
  * @param paywall - Optional configuration for the default paywall
+ * @param options - Optional configuration of the middleware, such as the store used for replay protection
  * @returns A Next.js middleware handler
  *
  * @example
@@ -95,218 +81,52 @@ export function paymentMiddleware(
   routes: RoutesConfig,
   facilitator?: FacilitatorConfig,
   paywall?: PaywallConfig,
+  options?: PaymentMiddlewareOptions,
 ) {
-  const { verify, settle, supported } = useFacilitator(facilitator);
-  const x402Version = 1;
-
-  // Pre-compile route patterns to regex and extract verbs
-  const routePatterns = computeRoutePatterns(routes);
-
-  return async function middleware(request: NextRequest) {
-    const pathname = request.nextUrl.pathname;
-    const method = request.method.toUpperCase();
-
-    // Find matching route configuration
-    const matchingRoute = findMatchingRoute(routePatterns, pathname, method);
-
-    if (!matchingRoute) {
-      return NextResponse.next();
-    }
-
-    const { price, network, config = {} } = matchingRoute.config;
-    const {
-      description,
-      mimeType,
-      maxTimeoutSeconds,
-      inputSchema,
-      outputSchema,
-      customPaywallHtml,
-      resource,
-      errorMessages,
-      discoverable,
-    } = config;
-
-    const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
-    if ("error" in atomicAmountForAsset) {
-      return new NextResponse(atomicAmountForAsset.error, { status: 500 });
-    }
-    const { maxAmountRequired, asset } = atomicAmountForAsset;
-
-    const resourceUrl =
-      resource || (`${request.nextUrl.protocol}//${request.nextUrl.host}${pathname}` as Resource);
-
-    let paymentRequirements: PaymentRequirements[] = [];
-
-    // TODO: create a shared middleware function to build payment requirements
-    // evm networks
-    if (SupportedEVMNetworks.includes(network)) {
-      paymentRequirements.push({
-        scheme: "exact",
-        network,
-        maxAmountRequired,
-        resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "application/json",
-        payTo: getAddress(payTo),
-        maxTimeoutSeconds: maxTimeoutSeconds ?? 300,
-        asset: getAddress(asset.address),
-        // TODO: Rename outputSchema to requestStructure
-        outputSchema: {
-          input: {
-            type: "http",
-            method,
-            discoverable: discoverable ?? true,
-            ...inputSchema,
-          },
-          output: outputSchema,
-        },
-        extra: (asset as ERC20TokenAmount["asset"]).eip712,
-      });
-    }
-    // svm networks
-    else if (SupportedSVMNetworks.includes(network)) {
-      // network call to get the supported payments from the facilitator
-      const paymentKinds = await supported();
-
-      // find the payment kind that matches the network and scheme
-      let feePayer: string | undefined;
-      for (const kind of paymentKinds.kinds) {
-        if (kind.network === network && kind.scheme === "exact") {
-          feePayer = kind?.extra?.feePayer;
-          break;
-        }
-      }
-
-      // svm networks require a fee payer
-      if (!feePayer) {
-        throw new Error(`The facilitator did not provide a fee payer for network: ${network}.`);
-      }
-
-      // build the payment requirements for svm
-      paymentRequirements.push({
-        scheme: "exact",
-        network,
-        maxAmountRequired,
-        resource: resourceUrl,
-        description: description ?? "",
-        mimeType: mimeType ?? "",
-        payTo: payTo,
-        maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
-        asset: asset.address,
-        // TODO: Rename outputSchema to requestStructure
-        outputSchema: {
-          input: {
-            type: "http",
-            method,
-            discoverable: discoverable ?? true,
-            ...inputSchema,
-          },
-          output: outputSchema,
-        },
-        extra: {
-          feePayer,
-        },
-      });
-    } else {
-      throw new Error(`Unsupported network: ${network}`);
-    }
-
-    // Check for payment header
-    const paymentHeader = request.headers.get("X-PAYMENT");
-    if (!paymentHeader) {
-      const accept = request.headers.get("Accept");
-      if (accept?.includes("text/html")) {
-        const userAgent = request.headers.get("User-Agent");
-        if (userAgent?.includes("Mozilla")) {
-          let displayAmount: number;
-          if (typeof price === "string" || typeof price === "number") {
-            const parsed = moneySchema.safeParse(price);
-            if (parsed.success) {
-              displayAmount = parsed.data;
-            } else {
-              displayAmount = Number.NaN;
-            }
-          } else {
-            displayAmount = Number(price.amount) / 10 ** price.asset.decimals;
-          }
-
-          // TODO: handle paywall html for solana
-          const html =
-            customPaywallHtml ??
-            getPaywallHtml({
-              amount: displayAmount,
-              paymentRequirements: toJsonSafe(paymentRequirements) as Parameters<
-                typeof getPaywallHtml
-              >[0]["paymentRequirements"],
-              currentUrl: request.url,
-              testnet: network === "base-sepolia",
-              cdpClientKey: paywall?.cdpClientKey,
-              appLogo: paywall?.appLogo,
-              appName: paywall?.appName,
-              sessionTokenEndpoint: paywall?.sessionTokenEndpoint,
-            });
-          return new NextResponse(html, {
-            status: 402,
-            headers: { "Content-Type": "text/html" },
-          });
-        }
-      }
-
-      return new NextResponse(
-        JSON.stringify({
-          x402Version,
-          error: errorMessages?.paymentRequired || "X-PAYMENT header is required",
-          accepts: paymentRequirements,
-        }),
-        { status: 402, headers: { "Content-Type": "application/json" } },
-      );
-    }
-
-    // Verify payment
-    let decodedPayment: PaymentPayload;
-    try {
-      decodedPayment = exact.evm.decodePayment(paymentHeader);
-      decodedPayment.x402Version = x402Version;
-    } catch (error) {
-      return new NextResponse(
-        JSON.stringify({
-          x402Version,
-          error:
-            errorMessages?.invalidPayment || (error instanceof Error ? error : "Invalid payment"),
-          accepts: paymentRequirements,
-        }),
-        { status: 402, headers: { "Content-Type": "application/json" } },
-      );
-    }
-
-    const selectedPaymentRequirements = findMatchingPaymentRequirements(
-      paymentRequirements,
-      decodedPayment,
+  // the route handler runs after the middleware returns, so it cannot tell whether the response
+  // was delivered and refund the payment otherwise
+  if (options?.refunds) {
+    throw new Error(
+      "The Next.js middleware cannot refund undelivered responses, use createPaymentGate from x402/server to refund payments",
     );
-    if (!selectedPaymentRequirements) {
-      return new NextResponse(
-        JSON.stringify({
-          x402Version,
-          error:
-            errorMessages?.noMatchingRequirements || "Unable to find matching payment requirements",
-          accepts: toJsonSafe(paymentRequirements),
-        }),
-        { status: 402, headers: { "Content-Type": "application/json" } },
+  }
+  // escrowed payments would be released before the route handler runs, so they could never be
+  // refunded when it fails
+  for (const [pattern, route] of Object.entries(routes)) {
+    if (
+      typeof route === "object" &&
+      ("price" in route || "accepts" in route) &&
+      getPaymentOptions(route).some(({ scheme }) => scheme === "escrow")
+    ) {
+      throw new Error(
+        `The Next.js middleware does not support the escrow scheme on route ${pattern}`,
       );
     }
+  }
+  const paymentGate = createPaymentGate(payTo, routes, facilitator, paywall, options);
 
-    const verification = await verify(decodedPayment, selectedPaymentRequirements);
-
-    if (!verification.isValid) {
-      return new NextResponse(
-        JSON.stringify({
-          x402Version,
-          error: errorMessages?.verificationFailed || verification.invalidReason,
-          accepts: paymentRequirements,
-          payer: verification.payer,
-        }),
-        { status: 402, headers: { "Content-Type": "application/json" } },
-      );
+  return async function middleware(request: NextRequest) {
+    const { protocol, host, pathname, search } = request.nextUrl;
+    const decision = await paymentGate({
+      method: request.method,
+      path: pathname,
+      url: `${protocol}//${host}${pathname}${search ?? ""}`,
+      getHeader: name => request.headers.get(name) ?? undefined,
+      getBody: async () => new Uint8Array(await request.clone().arrayBuffer()),
+    });
+
+    switch (decision.type) {
+      case "pass-through":
+      // a paid session's access token stands in for the payment
+      case "access-granted":
+        return NextResponse.next();
+      case "paywall":
+        return new NextResponse(decision.html, {
+          status: decision.status,
+          headers: { "Content-Type": "text/html" },
+        });
+      case "payment-error":
+        return NextResponse.json(decision.body, { status: decision.status });
     }
 
     // Proceed with request
@@ -314,37 +134,21 @@ export function paymentMiddleware(
 
     // if the response from the protected route is >= 400, do not settle the payment
     if (response.status >= 400) {
+      // the payment was not used, so it may be retried
+      await decision.cancel();
       return response;
     }
 
     // Settle payment after response
-    try {
-      const settlement = await settle(decodedPayment, selectedPaymentRequirements);
-
-      if (settlement.success) {
-        response.headers.set(
-          "X-PAYMENT-RESPONSE",
-          safeBase64Encode(
-            JSON.stringify({
-              success: true,
-              transaction: settlement.transaction,
-              network: settlement.network,
-              payer: settlement.payer,
-            }),
-          ),
-        );
-      }
-    } catch (error) {
-      return new NextResponse(
-        JSON.stringify({
-          x402Version,
-          error:
-            errorMessages?.settlementFailed ||
-            (error instanceof Error ? error : "Settlement failed"),
-          accepts: paymentRequirements,
-        }),
-        { status: 402, headers: { "Content-Type": "application/json" } },
-      );
+    const settlement = await decision.settle();
+    if (settlement.type === "payment-error") {
+      return NextResponse.json(settlement.body, {
+        status: settlement.status,
+        headers: settlement.headers,
+      });
+    }
+    for (const [name, value] of Object.entries(settlement.headers)) {
+      response.headers.set(name, value);
     }
 
     return response;
@@ -355,6 +159,7 @@ export type {
   Money,
   Network,
   PaymentMiddlewareConfig,
+  PaymentMiddlewareOptions,
   Resource,
   RouteConfig,
   RoutesConfig,
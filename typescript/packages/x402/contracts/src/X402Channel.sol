@@ -0,0 +1,280 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.24;
+
+/// @notice The subset of an EIP-3009 token used by the payment channels
+interface IERC3009 {
+    function receiveWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+
+    function transfer(address to, uint256 value) external returns (bool);
+}
+
+/// @title X402Channel
+/// @notice Holds the deposits of payment channels of the x402 `channel` scheme, which are paid
+/// off-chain with vouchers.
+/// @dev Payers open a channel with an EIP-3009 `ReceiveWithAuthorization` of the deposit to the
+/// contract whose nonce commits to the channel terms: the recipient, the operator allowed to open
+/// the channel and its timeout. Each payment is then a voucher, an EIP-712 signature of the
+/// cumulative amount paid through the channel. Until the channel expires, the recipient or the
+/// operator claims the amount of the latest voucher, or closes the channel, refunding the rest of
+/// the deposit. Once it has expired, anyone can refund the unclaimed deposit to the payer.
+contract X402Channel {
+    /// @notice The parameters of an EIP-3009 authorization of the deposit
+    struct Authorization {
+        address from;
+        uint256 value;
+        uint256 validAfter;
+        uint256 validBefore;
+    }
+
+    /// @notice The channel terms the nonce of an authorization commits to
+    struct Terms {
+        address payTo;
+        address operator;
+        uint256 timeout;
+        bytes32 salt;
+    }
+
+    /// @notice An open channel
+    struct Channel {
+        address token;
+        address payer;
+        address payTo;
+        address operator;
+        uint256 deposit;
+        uint256 claimed;
+        uint256 expiresAt;
+    }
+
+    bytes32 public constant VOUCHER_TYPEHASH = keccak256("Voucher(bytes32 channelId,uint256 amount)");
+
+    /// @notice The EIP-712 domain separator of the vouchers
+    bytes32 public immutable DOMAIN_SEPARATOR;
+
+    /// @notice The channels that are open, by id
+    mapping(bytes32 id => Channel) public channels;
+
+    event Opened(
+        bytes32 indexed id,
+        address indexed token,
+        address indexed payer,
+        address payTo,
+        uint256 deposit,
+        uint256 expiresAt
+    );
+    event Claimed(bytes32 indexed id, uint256 amount, uint256 claimed);
+    event Closed(bytes32 indexed id, uint256 claimed, uint256 refunded);
+
+    error ChannelExists();
+    error UnknownChannel();
+    error Unauthorized();
+    error ChannelExpired();
+    error ChannelNotExpired();
+    error InvalidAmount();
+    error InvalidSignature();
+    error TransferFailed();
+
+    constructor() {
+        DOMAIN_SEPARATOR = keccak256(
+            abi.encode(
+                keccak256(
+                    "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+                ),
+                keccak256("X402Channel"),
+                keccak256("1"),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    /// @notice Receives the deposit of a channel and opens it
+    /// @dev Must be called by the operator named in the terms
+    /// @param token The EIP-3009 token of the channel
+    /// @param authorization The authorization of the deposit signed by the payer
+    /// @param terms The channel terms, whose hash is the nonce of the authorization
+    /// @param signature The signature of the authorization
+    /// @return id The id of the channel
+    function open(
+        address token,
+        Authorization calldata authorization,
+        Terms calldata terms,
+        bytes calldata signature
+    ) external returns (bytes32 id) {
+        if (msg.sender != terms.operator) revert Unauthorized();
+
+        bytes32 nonce = hashTerms(terms);
+        id = getChannelId(token, authorization.from, nonce);
+        if (channels[id].payer != address(0)) revert ChannelExists();
+
+        _receive(token, authorization, nonce, signature);
+
+        uint256 expiresAt = block.timestamp + terms.timeout;
+        channels[id] = Channel({
+            token: token,
+            payer: authorization.from,
+            payTo: terms.payTo,
+            operator: terms.operator,
+            deposit: authorization.value,
+            claimed: 0,
+            expiresAt: expiresAt
+        });
+        emit Opened(id, token, authorization.from, terms.payTo, authorization.value, expiresAt);
+    }
+
+    /// @notice Pays the recipient the amount of a voucher not claimed yet, leaving the channel open
+    /// @dev Only the recipient or the operator may claim, and only before the channel expires
+    /// @param id The id of the channel
+    /// @param amount The cumulative amount of the voucher, above the claimed amount
+    /// @param signature The signature of the voucher by the payer
+    function claim(bytes32 id, uint256 amount, bytes calldata signature) external {
+        Channel storage channel = _getOpenChannel(id);
+        if (amount <= channel.claimed) revert InvalidAmount();
+        _claim(id, channel, amount, signature);
+    }
+
+    /// @notice Pays the recipient the amount of a voucher not claimed yet and refunds the rest of
+    /// the deposit to the payer
+    /// @dev Only the recipient or the operator may close a channel, and only before it expires. A
+    /// channel is closed without payment with an amount that was already claimed, whose
+    /// signature is not checked.
+    /// @param id The id of the channel
+    /// @param amount The cumulative amount of the voucher
+    /// @param signature The signature of the voucher by the payer
+    function close(bytes32 id, uint256 amount, bytes calldata signature) external {
+        Channel storage channel = _getOpenChannel(id);
+        if (amount > channel.claimed) {
+            _claim(id, channel, amount, signature);
+        }
+        _close(id);
+    }
+
+    /// @notice Refunds the unclaimed deposit of an expired channel to its payer
+    /// @param id The id of the channel
+    function reclaim(bytes32 id) external {
+        Channel storage channel = channels[id];
+        if (channel.payer == address(0)) revert UnknownChannel();
+        if (block.timestamp < channel.expiresAt) revert ChannelNotExpired();
+        _close(id);
+    }
+
+    /// @notice Computes the nonce of the authorizations opening a channel with the given terms
+    /// @param terms The channel terms
+    /// @return The nonce
+    function hashTerms(Terms calldata terms) public pure returns (bytes32) {
+        return keccak256(abi.encode(terms.payTo, terms.operator, terms.timeout, terms.salt));
+    }
+
+    /// @notice Computes the id of a channel
+    /// @param token The token of the channel
+    /// @param payer The payer of the channel
+    /// @param nonce The nonce of the authorization opening the channel
+    /// @return The id
+    function getChannelId(address token, address payer, bytes32 nonce)
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(token, payer, nonce));
+    }
+
+    /// @notice Computes the EIP-712 digest a voucher signature signs
+    /// @param id The id of the channel
+    /// @param amount The cumulative amount of the voucher
+    /// @return The digest
+    function hashVoucher(bytes32 id, uint256 amount) public view returns (bytes32) {
+        return keccak256(
+            abi.encodePacked(
+                "\x19\x01", DOMAIN_SEPARATOR, keccak256(abi.encode(VOUCHER_TYPEHASH, id, amount))
+            )
+        );
+    }
+
+    /// @dev Gets a channel that the sender may claim, checking it has not expired
+    function _getOpenChannel(bytes32 id) private view returns (Channel storage channel) {
+        channel = channels[id];
+        if (channel.payer == address(0)) revert UnknownChannel();
+        if (msg.sender != channel.payTo && msg.sender != channel.operator) revert Unauthorized();
+        if (block.timestamp >= channel.expiresAt) revert ChannelExpired();
+    }
+
+    /// @dev Checks a voucher and pays its amount not claimed yet to the recipient
+    function _claim(bytes32 id, Channel storage channel, uint256 amount, bytes calldata signature)
+        private
+    {
+        if (amount > channel.deposit) revert InvalidAmount();
+        (uint8 v, bytes32 r, bytes32 s) = splitSignature(signature);
+        address signer = ecrecover(hashVoucher(id, amount), v, r, s);
+        if (signer == address(0) || signer != channel.payer) revert InvalidSignature();
+
+        uint256 payment = amount - channel.claimed;
+        channel.claimed = amount;
+        _transfer(channel.token, channel.payTo, payment);
+        emit Claimed(id, payment, amount);
+    }
+
+    /// @dev Refunds the unclaimed deposit of a channel and deletes it
+    function _close(bytes32 id) private {
+        Channel memory channel = channels[id];
+        delete channels[id];
+
+        uint256 refunded = channel.deposit - channel.claimed;
+        if (refunded > 0) {
+            _transfer(channel.token, channel.payer, refunded);
+        }
+        emit Closed(id, channel.claimed, refunded);
+    }
+
+    /// @dev Submits the authorization of a deposit, kept apart from `open` for its stack size
+    function _receive(
+        address token,
+        Authorization calldata authorization,
+        bytes32 nonce,
+        bytes calldata signature
+    ) private {
+        (uint8 v, bytes32 r, bytes32 s) = splitSignature(signature);
+        IERC3009(token).receiveWithAuthorization(
+            authorization.from,
+            address(this),
+            authorization.value,
+            authorization.validAfter,
+            authorization.validBefore,
+            nonce,
+            v,
+            r,
+            s
+        );
+    }
+
+    /// @dev Splits a 65 bytes signature into its components
+    function splitSignature(bytes calldata signature)
+        private
+        pure
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        if (signature.length != 65) revert InvalidSignature();
+        r = bytes32(signature[0:32]);
+        s = bytes32(signature[32:64]);
+        v = uint8(signature[64]);
+        if (v < 27) v += 27;
+    }
+
+    /// @dev Calls `transfer`, accepting tokens that do not return a value
+    function _transfer(address token, address to, uint256 amount) private {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeCall(IERC3009.transfer, (to, amount))
+        );
+        if (!success || (data.length > 0 && !abi.decode(data, (bool)))) {
+            revert TransferFailed();
+        }
+    }
+}
@@ -0,0 +1,217 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.24;
+
+/// @notice The subset of an EIP-3009 token used by the escrow
+interface IERC3009 {
+    function receiveWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+
+    function transfer(address to, uint256 value) external returns (bool);
+}
+
+/// @title X402Escrow
+/// @notice Holds payments of the x402 `escrow` scheme until the resource they pay for is
+/// delivered.
+/// @dev Payers sign an EIP-3009 `ReceiveWithAuthorization` to the escrow whose nonce commits to
+/// the escrow terms: the recipient, the operator allowed to deposit and the release timeout. Only
+/// the escrow can submit such an authorization, so a deposit cannot be redirected. Until the
+/// timeout, the recipient or the operator releases the deposit once the resource is delivered,
+/// and the payer, the recipient or the operator refunds it otherwise. After the timeout anyone
+/// can release it to the recipient.
+contract X402Escrow {
+    /// @notice The parameters of an EIP-3009 authorization to the escrow
+    struct Authorization {
+        address from;
+        uint256 value;
+        uint256 validAfter;
+        uint256 validBefore;
+    }
+
+    /// @notice The escrow terms the nonce of an authorization commits to
+    struct Terms {
+        address payTo;
+        address operator;
+        uint256 releaseTimeout;
+        bytes32 salt;
+    }
+
+    /// @notice A payment held by the escrow
+    struct Deposit {
+        address token;
+        address payer;
+        address payTo;
+        address operator;
+        uint256 amount;
+        uint256 releaseAt;
+    }
+
+    /// @notice The deposits that were neither released nor refunded, by id
+    mapping(bytes32 id => Deposit) public deposits;
+
+    event Deposited(
+        bytes32 indexed id,
+        address indexed token,
+        address indexed payer,
+        address payTo,
+        uint256 amount,
+        uint256 releaseAt
+    );
+    event Released(bytes32 indexed id, uint256 amount, uint256 refunded);
+    event Refunded(bytes32 indexed id, uint256 amount);
+
+    error DepositExists();
+    error UnknownDeposit();
+    error Unauthorized();
+    error AmountExceedsDeposit();
+    error RefundPeriodOver();
+    error InvalidSignature();
+    error TransferFailed();
+
+    /// @notice Receives an authorized payment and holds it until it is released or refunded
+    /// @dev Must be called by the operator named in the terms
+    /// @param token The EIP-3009 token of the payment
+    /// @param authorization The authorization signed by the payer
+    /// @param terms The escrow terms, whose hash is the nonce of the authorization
+    /// @param signature The signature of the authorization
+    /// @return id The id of the deposit
+    function deposit(
+        address token,
+        Authorization calldata authorization,
+        Terms calldata terms,
+        bytes calldata signature
+    ) external returns (bytes32 id) {
+        if (msg.sender != terms.operator) revert Unauthorized();
+
+        bytes32 nonce = hashTerms(terms);
+        id = getDepositId(token, authorization.from, nonce);
+        if (deposits[id].payer != address(0)) revert DepositExists();
+
+        _receive(token, authorization, nonce, signature);
+
+        uint256 releaseAt = block.timestamp + terms.releaseTimeout;
+        deposits[id] = Deposit({
+            token: token,
+            payer: authorization.from,
+            payTo: terms.payTo,
+            operator: terms.operator,
+            amount: authorization.value,
+            releaseAt: releaseAt
+        });
+        emit Deposited(id, token, authorization.from, terms.payTo, authorization.value, releaseAt);
+    }
+
+    /// @notice Pays `amount` of a deposit to its recipient and refunds the rest to the payer
+    /// @dev Before the release timeout, only the recipient or the operator may release a deposit.
+    /// After it, anyone may release the full deposit.
+    /// @param id The id of the deposit
+    /// @param amount The amount to pay, at most the deposited amount
+    function release(bytes32 id, uint256 amount) external {
+        Deposit memory held = deposits[id];
+        if (held.payer == address(0)) revert UnknownDeposit();
+        if (block.timestamp < held.releaseAt) {
+            if (msg.sender != held.payTo && msg.sender != held.operator) revert Unauthorized();
+            if (amount > held.amount) revert AmountExceedsDeposit();
+        } else {
+            amount = held.amount;
+        }
+        delete deposits[id];
+
+        if (amount > 0) {
+            _transfer(held.token, held.payTo, amount);
+        }
+        if (held.amount > amount) {
+            _transfer(held.token, held.payer, held.amount - amount);
+        }
+        emit Released(id, amount, held.amount - amount);
+    }
+
+    /// @notice Refunds a deposit to its payer
+    /// @dev Only the payer, the recipient or the operator may refund a deposit, and only before
+    /// the release timeout
+    /// @param id The id of the deposit
+    function refund(bytes32 id) external {
+        Deposit memory held = deposits[id];
+        if (held.payer == address(0)) revert UnknownDeposit();
+        if (block.timestamp >= held.releaseAt) revert RefundPeriodOver();
+        if (msg.sender != held.payer && msg.sender != held.payTo && msg.sender != held.operator) {
+            revert Unauthorized();
+        }
+        delete deposits[id];
+
+        _transfer(held.token, held.payer, held.amount);
+        emit Refunded(id, held.amount);
+    }
+
+    /// @notice Computes the nonce of the authorizations depositing under the given terms
+    /// @param terms The escrow terms
+    /// @return The nonce
+    function hashTerms(Terms calldata terms) public pure returns (bytes32) {
+        return keccak256(abi.encode(terms.payTo, terms.operator, terms.releaseTimeout, terms.salt));
+    }
+
+    /// @notice Computes the id of a deposit
+    /// @param token The token of the deposit
+    /// @param payer The payer of the deposit
+    /// @param nonce The nonce of the authorization
+    /// @return The id
+    function getDepositId(address token, address payer, bytes32 nonce)
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(token, payer, nonce));
+    }
+
+    /// @dev Submits an authorization to the escrow, kept apart from `deposit` for its stack size
+    function _receive(
+        address token,
+        Authorization calldata authorization,
+        bytes32 nonce,
+        bytes calldata signature
+    ) private {
+        (uint8 v, bytes32 r, bytes32 s) = splitSignature(signature);
+        IERC3009(token).receiveWithAuthorization(
+            authorization.from,
+            address(this),
+            authorization.value,
+            authorization.validAfter,
+            authorization.validBefore,
+            nonce,
+            v,
+            r,
+            s
+        );
+    }
+
+    /// @dev Splits a 65 bytes signature into its components
+    function splitSignature(bytes calldata signature)
+        private
+        pure
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        if (signature.length != 65) revert InvalidSignature();
+        r = bytes32(signature[0:32]);
+        s = bytes32(signature[32:64]);
+        v = uint8(signature[64]);
+        if (v < 27) v += 27;
+    }
+
+    /// @dev Calls `transfer`, accepting tokens that do not return a value
+    function _transfer(address token, address to, uint256 amount) private {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeCall(IERC3009.transfer, (to, amount))
+        );
+        if (!success || (data.length > 0 && !abi.decode(data, (bool)))) {
+            revert TransferFailed();
+        }
+    }
+}
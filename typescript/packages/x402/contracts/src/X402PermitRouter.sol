@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.24;
+
+/// @notice The subset of an EIP-2612 token used by the router
+interface IERC20Permit {
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+
+    function transferFrom(address from, address to, uint256 value) external returns (bool);
+}
+
+/// @title X402PermitRouter
+/// @notice Settles payments of the x402 `permit` scheme for tokens that implement EIP-2612 but
+/// not EIP-3009.
+/// @dev A permit only names its spender, so the payer also signs a `PermitTransfer` message
+/// committing to the token, the recipient and the facilitator allowed to settle. The router is
+/// the spender of the permit and only moves funds as described by that message.
+contract X402PermitRouter {
+    /// @notice The parameters of the EIP-2612 permit granted to the router
+    struct Permit {
+        address owner;
+        uint256 value;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    bytes32 public constant PERMIT_TRANSFER_TYPEHASH = keccak256(
+        "PermitTransfer(address token,address payTo,address facilitator,uint256 value,uint256 nonce,uint256 deadline)"
+    );
+
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+
+    bytes32 private constant NAME_HASH = keccak256("x402 Permit Router");
+
+    bytes32 private constant VERSION_HASH = keccak256("1");
+
+    /// @notice Whether the transfer with the given digest was settled
+    mapping(bytes32 digest => bool) public settled;
+
+    event PermitTransferSettled(
+        bytes32 indexed digest,
+        address indexed token,
+        address indexed owner,
+        address payTo,
+        uint256 amount
+    );
+
+    error PermitTransferExpired();
+    error PermitTransferAlreadySettled();
+    error InvalidSignature();
+    error AmountExceedsPermit();
+    error TransferFailed();
+
+    /// @notice Executes the permit, if it was not executed yet, and transfers `amount` to `payTo`
+    /// @dev Must be called by the facilitator named in the `PermitTransfer` message. The permit is
+    /// allowed to fail, so that a permit submitted by someone else does not block settlement; the
+    /// transfer then relies on the allowance it granted.
+    /// @param token The token to transfer
+    /// @param payTo The recipient of the payment
+    /// @param permit The permit granted to the router
+    /// @param permitSignature The signature of the permit
+    /// @param transferSignature The signature of the `PermitTransfer` message
+    /// @param amount The amount to transfer, at most `permit.value`
+    /// @return digest The EIP-712 digest of the `PermitTransfer` message
+    function settle(
+        address token,
+        address payTo,
+        Permit calldata permit,
+        bytes calldata permitSignature,
+        bytes calldata transferSignature,
+        uint256 amount
+    ) external returns (bytes32 digest) {
+        if (block.timestamp > permit.deadline) revert PermitTransferExpired();
+        if (amount > permit.value) revert AmountExceedsPermit();
+
+        digest = hashPermitTransfer(token, payTo, msg.sender, permit);
+        if (settled[digest]) revert PermitTransferAlreadySettled();
+        (uint8 v, bytes32 r, bytes32 s) = splitSignature(transferSignature);
+        address signer = ecrecover(digest, v, r, s);
+        if (signer == address(0) || signer != permit.owner) revert InvalidSignature();
+        settled[digest] = true;
+
+        (v, r, s) = splitSignature(permitSignature);
+        try IERC20Permit(token).permit(
+            permit.owner, address(this), permit.value, permit.deadline, v, r, s
+        ) {} catch {}
+
+        if (amount > 0) {
+            _transferFrom(token, permit.owner, payTo, amount);
+        }
+        emit PermitTransferSettled(digest, token, permit.owner, payTo, amount);
+    }
+
+    /// @notice Computes the EIP-712 digest of a `PermitTransfer` message
+    /// @param token The token to transfer
+    /// @param payTo The recipient of the payment
+    /// @param facilitator The address allowed to settle the payment
+    /// @param permit The permit granted to the router
+    /// @return The digest the payer signs
+    function hashPermitTransfer(
+        address token,
+        address payTo,
+        address facilitator,
+        Permit calldata permit
+    ) public view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PERMIT_TRANSFER_TYPEHASH,
+                token,
+                payTo,
+                facilitator,
+                permit.value,
+                permit.nonce,
+                permit.deadline
+            )
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    /// @notice The EIP-712 domain separator of the router on the current chain
+    /// @return The domain separator
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, NAME_HASH, VERSION_HASH, block.chainid, address(this))
+        );
+    }
+
+    /// @dev Splits a 65 bytes signature into its components
+    function splitSignature(bytes calldata signature)
+        private
+        pure
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        if (signature.length != 65) revert InvalidSignature();
+        r = bytes32(signature[0:32]);
+        s = bytes32(signature[32:64]);
+        v = uint8(signature[64]);
+        if (v < 27) v += 27;
+    }
+
+    /// @dev Calls `transferFrom`, accepting tokens that do not return a value
+    function _transferFrom(address token, address from, address to, uint256 amount) private {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeCall(IERC20Permit.transferFrom, (from, to, amount))
+        );
+        if (!success || (data.length > 0 && !abi.decode(data, (bool)))) {
+            revert TransferFailed();
+        }
+    }
+}
@@ -0,0 +1,332 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.24;
+
+/// @notice The subset of an EIP-3009 token used by the shielded pool
+interface IERC3009 {
+    function receiveWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+
+    function transfer(address to, uint256 value) external returns (bool);
+}
+
+/// @title X402ShieldedPool
+/// @notice Holds notes of a fixed denomination that pay x402 `shielded` payments without linking
+/// them to the wallet that deposited them.
+/// @dev Payers deposit notes with an EIP-3009 `ReceiveWithAuthorization` whose nonce commits to
+/// the public keys of the notes, points of the alt_bn128 curve. A note is withdrawn to a recipient
+/// with a linkable ring signature (LSAG) over a ring of deposited keys, a zero-knowledge proof
+/// that the withdrawer knows the secret key of one of them that does not tell which. The key image
+/// of the signature is the nullifier of the note: it is the same for every signature of a key and
+/// is recorded, so that each note is withdrawn once. Signatures are checked with the alt_bn128
+/// precompiles, without a trusted setup.
+contract X402ShieldedPool {
+    /// @notice The parameters of an EIP-3009 authorization of a deposit
+    struct Authorization {
+        address from;
+        uint256 value;
+        uint256 validAfter;
+        uint256 validBefore;
+    }
+
+    /// @notice A withdrawal of a note, signed by the ring signature
+    struct Withdrawal {
+        address recipient;
+        bytes32 nonce;
+        uint256 deadline;
+    }
+
+    /// @notice A ring signature of a withdrawal
+    struct RingSignature {
+        /// @dev The indexes of the deposited keys of the ring, in increasing order
+        uint256[] ring;
+        uint256[2] keyImage;
+        uint256 c;
+        uint256[] s;
+    }
+
+    /// @notice The order of the field of the alt_bn128 curve
+    uint256 public constant P =
+        21888242871839275222246405745257275088696311157297823662689037894645226208583;
+    /// @notice The order of the group of the alt_bn128 curve
+    uint256 public constant Q =
+        21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    /// @notice The fewest notes a ring may hold, as a withdrawal is only as private as its ring
+    uint256 public constant MIN_RING_SIZE = 8;
+
+    /// @notice The EIP-3009 token of the notes
+    address public immutable token;
+    /// @notice The amount of every note, in atomic units of the token
+    uint256 public immutable denomination;
+
+    /// @notice The deposited public keys, by index
+    uint256[2][] private deposits;
+    /// @notice Whether a public key was deposited, by hash
+    mapping(bytes32 key => bool) public deposited;
+    /// @notice Whether the note of a key image was withdrawn, by nullifier
+    mapping(bytes32 nullifier => bool) public nullified;
+
+    event Deposited(uint256 indexed index, uint256[2] key);
+    event Withdrawn(bytes32 indexed nullifier, address indexed recipient, bytes32 nonce);
+
+    error InvalidKey();
+    error InvalidAmount();
+    error InvalidRing();
+    error InvalidSignature();
+    error NoteSpent();
+    error WithdrawalExpired();
+    error PrecompileFailed();
+    error TransferFailed();
+
+    /// @param token_ The EIP-3009 token of the notes
+    /// @param denomination_ The amount of every note
+    constructor(address token_, uint256 denomination_) {
+        if (denomination_ == 0) revert InvalidAmount();
+        token = token_;
+        denomination = denomination_;
+    }
+
+    /// @notice Receives the deposit of notes and records their public keys
+    /// @dev Anyone may submit the authorization, whose value must pay every note
+    /// @param authorization The authorization of the deposit signed by the payer
+    /// @param keys The public keys of the notes, whose hash is the nonce of the authorization
+    /// @param signature The signature of the authorization
+    /// @return index The index of the first note
+    function deposit(
+        Authorization calldata authorization,
+        uint256[2][] calldata keys,
+        bytes calldata signature
+    ) external returns (uint256 index) {
+        if (keys.length == 0 || authorization.value != denomination * keys.length) {
+            revert InvalidAmount();
+        }
+
+        index = deposits.length;
+        for (uint256 i = 0; i < keys.length; i++) {
+            bytes32 hash = keccak256(abi.encode(keys[i]));
+            if (!_isOnCurve(keys[i]) || deposited[hash]) revert InvalidKey();
+            deposited[hash] = true;
+            deposits.push(keys[i]);
+            emit Deposited(index + i, keys[i]);
+        }
+
+        _receive(authorization, hashKeys(keys), signature);
+    }
+
+    /// @notice Pays the denomination of a note to the recipient of a withdrawal signed with its key
+    /// @dev Anyone may submit the withdrawal, usually the facilitator relaying the payment
+    /// @param withdrawal The recipient, nonce and deadline of the withdrawal
+    /// @param signature The ring signature of the withdrawal
+    function withdraw(Withdrawal calldata withdrawal, RingSignature calldata signature) external {
+        if (block.timestamp > withdrawal.deadline) revert WithdrawalExpired();
+        if (signature.s.length != signature.ring.length) revert InvalidSignature();
+
+        bytes32 nullifier = getNullifier(signature.keyImage);
+        if (nullified[nullifier]) revert NoteSpent();
+        if (!_isOnCurve(signature.keyImage)) revert InvalidSignature();
+
+        uint256[2][] memory keys = getRing(signature.ring);
+        bytes32 message = hashWithdrawal(withdrawal, signature.ring, signature.keyImage);
+        if (!_verify(message, keys, signature)) revert InvalidSignature();
+
+        nullified[nullifier] = true;
+        _transfer(withdrawal.recipient, denomination);
+        emit Withdrawn(nullifier, withdrawal.recipient, withdrawal.nonce);
+    }
+
+    /// @notice Counts the deposited notes
+    /// @return The number of deposited notes
+    function depositCount() external view returns (uint256) {
+        return deposits.length;
+    }
+
+    /// @notice Gets the public keys of a range of deposited notes
+    /// @param start The index of the first note
+    /// @param end The index after the last note, capped to the number of notes
+    /// @return keys The public keys
+    function getDeposits(uint256 start, uint256 end)
+        external
+        view
+        returns (uint256[2][] memory keys)
+    {
+        if (end > deposits.length) end = deposits.length;
+        if (start > end) start = end;
+        keys = new uint256[2][](end - start);
+        for (uint256 i = start; i < end; i++) {
+            keys[i - start] = deposits[i];
+        }
+    }
+
+    /// @notice Gets the public keys of a ring
+    /// @param ring The indexes of at least `MIN_RING_SIZE` deposited keys, in increasing order
+    /// @return keys The public keys
+    function getRing(uint256[] calldata ring) public view returns (uint256[2][] memory keys) {
+        if (ring.length < MIN_RING_SIZE) revert InvalidRing();
+        keys = new uint256[2][](ring.length);
+        for (uint256 i = 0; i < ring.length; i++) {
+            if (ring[i] >= deposits.length || (i > 0 && ring[i] <= ring[i - 1])) {
+                revert InvalidRing();
+            }
+            keys[i] = deposits[ring[i]];
+        }
+    }
+
+    /// @notice Computes the nonce of the authorizations depositing notes
+    /// @param keys The public keys of the notes
+    /// @return The nonce
+    function hashKeys(uint256[2][] calldata keys) public pure returns (bytes32) {
+        return keccak256(abi.encode(keys));
+    }
+
+    /// @notice Computes the nullifier recorded once the note of a key image is withdrawn
+    /// @param keyImage The key image of the ring signatures of the note
+    /// @return The nullifier
+    function getNullifier(uint256[2] calldata keyImage) public pure returns (bytes32) {
+        return keccak256(abi.encode(keyImage));
+    }
+
+    /// @notice Computes the message a ring signature signs
+    /// @param withdrawal The withdrawal
+    /// @param ring The indexes of the keys of the ring
+    /// @param keyImage The key image of the signature
+    /// @return The message
+    function hashWithdrawal(
+        Withdrawal calldata withdrawal,
+        uint256[] calldata ring,
+        uint256[2] calldata keyImage
+    ) public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                block.chainid,
+                address(this),
+                withdrawal.recipient,
+                withdrawal.nonce,
+                withdrawal.deadline,
+                ring,
+                keyImage
+            )
+        );
+    }
+
+    /// @dev Checks an LSAG ring signature: starting from `c`, each key of the ring yields the
+    /// challenge of the next one, and the challenge after the last key must be `c` again
+    function _verify(bytes32 message, uint256[2][] memory keys, RingSignature calldata signature)
+        private
+        view
+        returns (bool)
+    {
+        if (signature.c >= Q) return false;
+        uint256 c = signature.c;
+        for (uint256 i = 0; i < keys.length; i++) {
+            uint256 s = signature.s[i];
+            if (s >= Q) return false;
+            uint256[2] memory l = _add(_mul([uint256(1), uint256(2)], s), _mul(keys[i], c));
+            uint256[2] memory r =
+                _add(_mul(_hashToPoint(keys[i]), s), _mul(signature.keyImage, c));
+            c = uint256(keccak256(abi.encode(message, l, r))) % Q;
+        }
+        return c == signature.c;
+    }
+
+    /// @dev Maps a public key to a point whose discrete logarithm is unknown: the first point whose
+    /// x-coordinate follows the hash of the key, with the square root `y = (x^3 + 3)^((P + 1) / 4)`
+    function _hashToPoint(uint256[2] memory key) private view returns (uint256[2] memory point) {
+        uint256 x = uint256(keccak256(abi.encode(key))) % P;
+        while (true) {
+            uint256 beta = addmod(mulmod(mulmod(x, x, P), x, P), 3, P);
+            uint256 y = _modExp(beta, (P + 1) / 4);
+            if (mulmod(y, y, P) == beta) {
+                point = [x, y];
+                break;
+            }
+            x = addmod(x, 1, P);
+        }
+    }
+
+    /// @dev Checks a point is on the alt_bn128 curve, `y^2 = x^3 + 3`, and is not the point at
+    /// infinity
+    function _isOnCurve(uint256[2] memory point) private pure returns (bool) {
+        if (point[0] >= P || point[1] >= P || (point[0] == 0 && point[1] == 0)) return false;
+        return mulmod(point[1], point[1], P)
+            == addmod(mulmod(mulmod(point[0], point[0], P), point[0], P), 3, P);
+    }
+
+    /// @dev Adds two points with the alt_bn128 addition precompile
+    function _add(uint256[2] memory a, uint256[2] memory b)
+        private
+        view
+        returns (uint256[2] memory result)
+    {
+        (bool success, bytes memory data) = address(0x06).staticcall(abi.encode(a, b));
+        if (!success || data.length != 64) revert PrecompileFailed();
+        result = abi.decode(data, (uint256[2]));
+    }
+
+    /// @dev Multiplies a point by a scalar with the alt_bn128 multiplication precompile
+    function _mul(uint256[2] memory point, uint256 scalar)
+        private
+        view
+        returns (uint256[2] memory result)
+    {
+        (bool success, bytes memory data) = address(0x07).staticcall(abi.encode(point, scalar));
+        if (!success || data.length != 64) revert PrecompileFailed();
+        result = abi.decode(data, (uint256[2]));
+    }
+
+    /// @dev Computes `base^exponent mod P` with the modular exponentiation precompile
+    function _modExp(uint256 base, uint256 exponent) private view returns (uint256) {
+        (bool success, bytes memory data) =
+            address(0x05).staticcall(abi.encode(32, 32, 32, base, exponent, P));
+        if (!success || data.length != 32) revert PrecompileFailed();
+        return abi.decode(data, (uint256));
+    }
+
+    /// @dev Submits the authorization of a deposit, kept apart from `deposit` for its stack size
+    function _receive(Authorization calldata authorization, bytes32 nonce, bytes calldata signature)
+        private
+    {
+        (uint8 v, bytes32 r, bytes32 s) = splitSignature(signature);
+        IERC3009(token).receiveWithAuthorization(
+            authorization.from,
+            address(this),
+            authorization.value,
+            authorization.validAfter,
+            authorization.validBefore,
+            nonce,
+            v,
+            r,
+            s
+        );
+    }
+
+    /// @dev Splits a 65 bytes signature into its components
+    function splitSignature(bytes calldata signature)
+        private
+        pure
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        if (signature.length != 65) revert InvalidSignature();
+        r = bytes32(signature[0:32]);
+        s = bytes32(signature[32:64]);
+        v = uint8(signature[64]);
+        if (v < 27) v += 27;
+    }
+
+    /// @dev Calls `transfer`, accepting tokens that do not return a value
+    function _transfer(address to, uint256 amount) private {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeCall(IERC3009.transfer, (to, amount))
+        );
+        if (!success || (data.length > 0 && !abi.decode(data, (bool)))) {
+            revert TransferFailed();
+        }
+    }
+}
@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.12;
+
+// Compiles the Multicall3 contract, which the tests of batch settlement deploy
+import {Multicall3} from "multicall/src/Multicall3.sol";
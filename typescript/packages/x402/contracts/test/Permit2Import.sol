@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity 0.8.17;
+
+// Compiles the canonical Permit2 contract, which the tests place at its canonical address
+import {Permit2} from "permit2/src/Permit2.sol";
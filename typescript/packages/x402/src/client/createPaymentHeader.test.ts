@@ -49,6 +49,7 @@ describe("createPaymentHeader", () => {
         1,
         paymentRequirements,
         config,
+        undefined,
       );
     });
 
@@ -65,6 +66,7 @@ describe("createPaymentHeader", () => {
         1,
         paymentRequirements,
         undefined,
+        undefined,
       );
     });
 
@@ -82,6 +84,7 @@ describe("createPaymentHeader", () => {
         1,
         paymentRequirements,
         config,
+        undefined,
       );
     });
   });
@@ -1,6 +1,5 @@
-import { createPaymentHeader as createPaymentHeaderExactEVM } from "../schemes/exact/evm/client";
-import { createPaymentHeader as createPaymentHeaderExactSVM } from "../schemes/exact/svm/client";
-import { isEvmSignerWallet, isMultiNetworkSigner, isSvmSignerWallet, MultiNetworkSigner, Signer, SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared";
+import { decodePaymentHeader, encodePaymentHeader, getScheme } from "../schemes/registry";
+import { BoundRequest, MultiNetworkSigner, Signer, UnsupportedSchemeError } from "../types/shared";
 import { PaymentRequirements } from "../types/verify";
 import { X402Config } from "../types/config";
 
@@ -11,45 +10,39 @@ import { X402Config } from "../types/config";
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param request - The request the payment is sent with, required when the payment requirements
+ * bind payments to requests (`extra.requestBinding`)
  * @returns A promise that resolves to the created payment header string
+ * @throws UnsupportedSchemeError if no implementation is registered for the scheme and network
+ * @throws X402Error if the payment requirements bind payments to requests and no request is given
  */
 export async function createPaymentHeader(
   client: Signer | MultiNetworkSigner,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
+  request?: BoundRequest,
 ): Promise<string> {
-  // exact scheme
-  if (paymentRequirements.scheme === "exact") {
-    // evm
-    if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
-      const evmClient = isMultiNetworkSigner(client) ? client.evm : client;
-
-      if (!isEvmSignerWallet(evmClient)) {
-        throw new Error("Invalid evm wallet client provided");
-      }
-
-      return await createPaymentHeaderExactEVM(
-        evmClient,
-        x402Version,
-        paymentRequirements,
-      );
-    }
-    // svm
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      const svmClient = isMultiNetworkSigner(client) ? client.svm : client;
-      if (!isSvmSignerWallet(svmClient)) {
-        throw new Error("Invalid svm wallet client provided");
-      }
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+  if (!implementation) {
+    throw new UnsupportedSchemeError(paymentRequirements.scheme, paymentRequirements.network, {
+      paymentRequirements,
+    });
+  }
 
-      return await createPaymentHeaderExactSVM(
-        svmClient,
-        x402Version,
-        paymentRequirements,
-        config,
-      );
-    }
-    throw new Error("Unsupported network");
+  if (x402Version < 2) {
+    return await implementation.createPaymentHeader(
+      client,
+      x402Version,
+      paymentRequirements,
+      config,
+      request,
+    );
   }
-  throw new Error("Unsupported scheme");
+
+  // schemes create version 1 payments, which version 2 wraps with the accepted requirements
+  const payment = decodePaymentHeader(
+    await implementation.createPaymentHeader(client, 1, paymentRequirements, config, request),
+  );
+  return encodePaymentHeader({ ...payment, x402Version, accepted: paymentRequirements });
 }
\ No newline at end of file
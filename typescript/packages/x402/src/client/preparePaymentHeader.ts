@@ -1,6 +1,6 @@
 import { Address } from "viem";
-import { preparePaymentHeader as preparePaymentHeaderExactEVM } from "../schemes/exact/evm/client";
-import { SupportedEVMNetworks } from "../types/shared";
+import { getScheme } from "../schemes/registry";
+import { BoundRequest, UnsupportedSchemeError } from "../types/shared";
 import { PaymentRequirements, UnsignedPaymentPayload } from "../types/verify";
 
 /**
@@ -9,19 +9,24 @@ import { PaymentRequirements, UnsignedPaymentPayload } from "../types/verify";
  * @param from - The sender's address from which the payment will be made
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param request - The request the payment is sent with, required when the payment requirements
+ * bind payments to requests (`extra.requestBinding`)
  * @returns An unsigned payment payload that can be used to create a payment header
+ * @throws UnsupportedSchemeError if no implementation is registered for the scheme and network
+ * @throws X402Error if the payment requirements bind payments to requests and no request is given
  */
 export function preparePaymentHeader(
   from: Address,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
 ): UnsignedPaymentPayload {
-  if (
-    paymentRequirements.scheme === "exact" &&
-    SupportedEVMNetworks.includes(paymentRequirements.network)
-  ) {
-    return preparePaymentHeaderExactEVM(from, x402Version, paymentRequirements);
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+  if (implementation?.preparePaymentHeader) {
+    return implementation.preparePaymentHeader(from, x402Version, paymentRequirements, request);
   }
 
-  throw new Error("Unsupported scheme");
+  throw new UnsupportedSchemeError(paymentRequirements.scheme, paymentRequirements.network, {
+    paymentRequirements,
+  });
 }
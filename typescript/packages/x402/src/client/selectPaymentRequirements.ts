@@ -12,7 +12,7 @@ import { getNetworkId } from "../shared/network";
  * @param scheme - The scheme to check against. If not provided, the scheme will not be checked.
  * @returns The payment requirement that is the most appropriate for the user.
  */
-export function selectPaymentRequirements(paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact"): PaymentRequirements {
+export function selectPaymentRequirements(paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: PaymentRequirements["scheme"]): PaymentRequirements {
   // Filter down to the scheme/network if provided
   const broadlyAcceptedPaymentRequirements = paymentRequirements.filter(requirement => {
     // If the scheme is not provided, we accept any scheme.
@@ -49,5 +49,5 @@ export function selectPaymentRequirements(paymentRequirements: PaymentRequiremen
  * @param scheme - The scheme to check against. If not provided, the scheme will not be checked.
  * @returns The payment requirement that is the most appropriate for the user.
  */
-export type PaymentRequirementsSelector = (paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: "exact") => PaymentRequirements;
+export type PaymentRequirementsSelector = (paymentRequirements: PaymentRequirements[], network?: Network | Network[], scheme?: PaymentRequirements["scheme"]) => PaymentRequirements;
 
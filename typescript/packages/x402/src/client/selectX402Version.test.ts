@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { selectX402Version } from "./selectX402Version";
+
+describe("selectX402Version", () => {
+  it("selects the highest version accepted by both sides", () => {
+    expect(selectX402Version({ x402Version: 1, x402Versions: [1, 2] })).toBe(2);
+    expect(selectX402Version({ x402Version: 1, x402Versions: [1, 2] }, [1])).toBe(1);
+  });
+
+  it("falls back to x402Version for servers that do not list their versions", () => {
+    expect(selectX402Version({ x402Version: 1 })).toBe(1);
+  });
+
+  it("throws if no version is supported by both sides", () => {
+    expect(() => selectX402Version({ x402Version: 3, x402Versions: [3] })).toThrow(
+      "Unsupported x402 version, the server accepts 3",
+    );
+  });
+});
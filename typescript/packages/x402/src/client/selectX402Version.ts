@@ -0,0 +1,28 @@
+import { X402Error } from "../types/shared";
+import { x402Versions } from "../types/verify";
+
+/**
+ * Selects the protocol version to pay with, the highest version supported by both the client and the server.
+ * Servers that do not list the versions they accept in `x402Versions` only accept their `x402Version`.
+ *
+ * @param paymentRequired - The body of the 402 response
+ * @param paymentRequired.x402Version - The version legacy clients use
+ * @param paymentRequired.x402Versions - Every version accepted by the server
+ * @param supportedVersions - The versions supported by the client, defaults to every version of the protocol
+ * @returns The version to create the payment with
+ * @throws X402Error if the client and the server have no version in common
+ */
+export function selectX402Version(
+  paymentRequired: { x402Version: number; x402Versions?: number[] },
+  supportedVersions: readonly number[] = x402Versions,
+): number {
+  const serverVersions = paymentRequired.x402Versions ?? [paymentRequired.x402Version];
+  const commonVersions = serverVersions.filter(version => supportedVersions.includes(version));
+  if (commonVersions.length === 0) {
+    throw new X402Error(
+      "invalid_x402_version",
+      `Unsupported x402 version, the server accepts ${serverVersions.join(", ")}`,
+    );
+  }
+  return Math.max(...commonVersions);
+}
@@ -1,6 +1,5 @@
-import { signPaymentHeader as signPaymentHeaderExactEVM } from "../schemes/exact/evm/client";
-import { encodePayment } from "../schemes/exact/evm/utils/paymentUtils";
-import { isEvmSignerWallet, isMultiNetworkSigner, MultiNetworkSigner, Signer, SupportedEVMNetworks } from "../types/shared";
+import { encodePaymentHeader, getScheme } from "../schemes/registry";
+import { MultiNetworkSigner, Signer, UnsupportedSchemeError } from "../types/shared";
 import { PaymentRequirements, UnsignedPaymentPayload } from "../types/verify";
 
 /**
@@ -10,24 +9,23 @@ import { PaymentRequirements, UnsignedPaymentPayload } from "../types/verify";
  * @param paymentRequirements - The payment requirements containing scheme and network information
  * @param unsignedPaymentHeader - The unsigned payment payload to be signed
  * @returns A promise that resolves to the encoded signed payment header string
+ * @throws UnsupportedSchemeError if no implementation is registered for the scheme and network
  */
 export async function signPaymentHeader(
   client: Signer | MultiNetworkSigner,
   paymentRequirements: PaymentRequirements,
   unsignedPaymentHeader: UnsignedPaymentPayload,
 ): Promise<string> {
-  if (
-    paymentRequirements.scheme === "exact" &&
-    SupportedEVMNetworks.includes(paymentRequirements.network)
-  ) {
-    const evmClient = isMultiNetworkSigner(client) ? client.evm : client;
-
-    if (!isEvmSignerWallet(evmClient)) {
-      throw new Error("Invalid evm wallet client provided");
-    }
-    const signedPaymentHeader = await signPaymentHeaderExactEVM(evmClient, paymentRequirements, unsignedPaymentHeader);
-    return encodePayment(signedPaymentHeader);
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+  if (implementation?.signPaymentHeader) {
+    const signedPaymentHeader = await implementation.signPaymentHeader(client, paymentRequirements, unsignedPaymentHeader);
+    // version 2 payments name the payment requirements they were created for
+    return encodePaymentHeader(
+      signedPaymentHeader.x402Version >= 2
+        ? { ...signedPaymentHeader, accepted: paymentRequirements }
+        : signedPaymentHeader,
+    );
   }
 
-  throw new Error("Unsupported scheme");
+  throw new UnsupportedSchemeError(paymentRequirements.scheme, paymentRequirements.network, { paymentRequirements });
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Signer } from "../types/shared/wallet";
+import { PaymentPayload, PaymentRequirements, SettleResponse } from "../types/verify";
+import { createBatchSettler } from "./batchSettler";
+import { settleBatch } from "./facilitator";
+
+vi.mock("./facilitator", () => ({
+  settleBatch: vi.fn(),
+}));
+
+describe("createBatchSettler", () => {
+  const client = {} as Signer;
+  const payment = {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {},
+  } as PaymentPayload;
+  const paymentRequirements = { scheme: "exact", network: "base-sepolia" } as PaymentRequirements;
+  const settled: SettleResponse = {
+    success: true,
+    transaction: "0xabc",
+    network: "base-sepolia",
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(settleBatch).mockImplementation(async (_client, payments) =>
+      payments.map(() => settled),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.resetAllMocks();
+  });
+
+  it("settles a batch once it is full", async () => {
+    const settler = createBatchSettler({ maxBatchSize: 2 });
+
+    const responses = await Promise.all([
+      settler.settle(client, payment, paymentRequirements),
+      settler.settle(client, payment, paymentRequirements, undefined, "500"),
+    ]);
+
+    expect(responses).toEqual([settled, settled]);
+    expect(settleBatch).toHaveBeenCalledWith(
+      client,
+      [
+        { paymentPayload: payment, paymentRequirements, settlementAmount: undefined },
+        { paymentPayload: payment, paymentRequirements, settlementAmount: "500" },
+      ],
+      undefined,
+    );
+  });
+
+  it("settles a batch that is not full after the delay, per network", async () => {
+    const settler = createBatchSettler({ maxBatchSize: 10, maxDelayMs: 1000 });
+    const otherRequirements = { ...paymentRequirements, network: "base" } as PaymentRequirements;
+
+    const base = settler.settle(client, payment, otherRequirements);
+    const baseSepolia = settler.settle(client, payment, paymentRequirements);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(settleBatch).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await base).toEqual(settled);
+    expect(await baseSepolia).toEqual(settled);
+    expect(settleBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails every payment of a batch that could not be settled", async () => {
+    vi.mocked(settleBatch).mockRejectedValue(new Error("nonce too low"));
+    const settler = createBatchSettler();
+
+    const first = settler.settle(client, payment, paymentRequirements);
+    const second = settler.settle(client, payment, paymentRequirements);
+    await settler.flush();
+
+    await expect(first).rejects.toThrow("nonce too low");
+    await expect(second).rejects.toThrow("nonce too low");
+  });
+});
@@ -0,0 +1,112 @@
+import { X402Config } from "../types/config";
+import { BatchedPayment, BatchSettlementOptions, Network } from "../types/shared";
+import { Signer } from "../types/shared/wallet";
+import { PaymentPayload, PaymentRequirements, SettleResponse } from "../types/verify";
+import { settleBatch } from "./facilitator";
+
+const DEFAULT_MAX_BATCH_SIZE = 50;
+const DEFAULT_MAX_DELAY_MS = 2000;
+
+/**
+ * Settles payments in batches, see `createBatchSettler`
+ */
+export type BatchSettler = {
+  /**
+   * Queues a payment for the next batch of its network and waits for the batch to be settled.
+   * Takes the same arguments as `settle`.
+   */
+  settle(
+    client: Signer,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+    settlementAmount?: string,
+  ): Promise<SettleResponse>;
+  /** Settles the queued payments without waiting for their batches to fill */
+  flush(): Promise<void>;
+};
+
+/**
+ * A batch of payments waiting to be settled
+ */
+type PendingBatch = {
+  client: Signer;
+  config?: X402Config;
+  timer: ReturnType<typeof setTimeout>;
+  payments: {
+    payment: BatchedPayment;
+    resolve: (response: SettleResponse) => void;
+    reject: (error: unknown) => void;
+  }[];
+};
+
+/**
+ * Creates a settler accumulating payments and settling them in batches with `settleBatch`
+ *
+ * Payments are queued per network. A batch is settled once it holds `maxBatchSize` payments, or
+ * `maxDelayMs` after its first payment was queued. The batch is settled with the signer and
+ * configuration of its first payment.
+ *
+ * @param options - The size and delay of the batches
+ * @returns The batch settler
+ */
+export function createBatchSettler(options?: BatchSettlementOptions): BatchSettler {
+  const maxBatchSize = options?.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  const maxDelayMs = options?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const batches = new Map<Network, PendingBatch>();
+
+  /**
+   * Settles the pending batch of a network
+   *
+   * @param network - The network of the batch
+   */
+  async function settlePending(network: Network): Promise<void> {
+    const batch = batches.get(network);
+    if (!batch) {
+      return;
+    }
+    batches.delete(network);
+    clearTimeout(batch.timer);
+
+    try {
+      const responses = await settleBatch(
+        batch.client,
+        batch.payments.map(({ payment }) => payment),
+        batch.config,
+      );
+      batch.payments.forEach(({ resolve }, index) => resolve(responses[index]));
+    } catch (error) {
+      batch.payments.forEach(({ reject }) => reject(error));
+    }
+  }
+
+  return {
+    settle(client, paymentPayload, paymentRequirements, config, settlementAmount) {
+      const { network } = paymentRequirements;
+      return new Promise<SettleResponse>((resolve, reject) => {
+        let batch = batches.get(network);
+        if (!batch) {
+          batch = {
+            client,
+            config,
+            timer: setTimeout(() => void settlePending(network), maxDelayMs),
+            payments: [],
+          };
+          batches.set(network, batch);
+        }
+        batch.payments.push({
+          payment: { paymentPayload, paymentRequirements, settlementAmount },
+          resolve,
+          reject,
+        });
+        if (batch.payments.length >= maxBatchSize) {
+          void settlePending(network);
+        }
+      });
+    },
+
+    async flush() {
+      await Promise.all([...batches.keys()].map(settlePending));
+    },
+  };
+}
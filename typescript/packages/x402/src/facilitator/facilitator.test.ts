@@ -0,0 +1,380 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { getPaymentId, getScheme, SchemeImplementation } from "../schemes/registry";
+import { createInMemoryPaymentStore } from "../shared/paymentStore";
+import { createInMemoryRefundStore } from "../shared/refund";
+import { Signer } from "../types/shared/wallet";
+import { PaymentPayload, PaymentRequirements, SettleResponse } from "../types/verify";
+import { refund, settleBatch } from "./facilitator";
+
+vi.mock("../schemes/registry", () => ({
+  getScheme: vi.fn(),
+  getPaymentId: vi.fn(() => "payment-id"),
+}));
+
+describe("refund", () => {
+  const client = {} as Signer;
+  const payer = "0x857b06519E91e3A54538791bDbb0E22373e36b66";
+  const refundWallet = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "upto",
+    network: "base-sepolia",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/weather",
+    description: "Weather",
+    mimeType: "application/json",
+    payTo: refundWallet,
+    maxTimeoutSeconds: 60,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    extra: { name: "USDC", version: "2", requestBinding: true },
+  };
+
+  const settleResponse: SettleResponse = {
+    success: true,
+    transaction: `0x${"ab".repeat(32)}`,
+    network: "base-sepolia",
+    payer,
+  };
+
+  const refundPayload: PaymentPayload = {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: `0x${"1".repeat(130)}`,
+      authorization: {
+        from: refundWallet,
+        to: payer,
+        value: "400",
+        validAfter: "0",
+        validBefore: "9999999999",
+        nonce: `0x${"2".repeat(64)}`,
+      },
+    },
+  };
+
+  const refundTransaction = `0x${"cd".repeat(32)}`;
+
+  /**
+   * Creates a refund store recording the settlement of the payment
+   *
+   * @param amount - The settled amount
+   * @returns The refund store
+   */
+  async function createSettledRefundStore(amount = "1000") {
+    const refundStore = createInMemoryRefundStore();
+    await refundStore.recordSettlement({
+      network: "base-sepolia",
+      transaction: settleResponse.transaction,
+      payer,
+      amount,
+    });
+    return refundStore;
+  }
+
+  let exact: { verify: ReturnType<typeof vi.fn>; settle: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    exact = {
+      verify: vi.fn().mockResolvedValue({ isValid: true, payer: refundWallet }),
+      settle: vi.fn().mockResolvedValue({
+        success: true,
+        transaction: refundTransaction,
+        network: "base-sepolia",
+        payer: refundWallet,
+      }),
+    };
+    vi.mocked(getScheme).mockReturnValue({
+      payloadSchema: z.any(),
+      ...exact,
+    } as unknown as SchemeImplementation);
+  });
+
+  it("settles an exact payment of the refund to the payer and links it to the settlement", async () => {
+    const refundStore = await createSettledRefundStore();
+
+    const response = await refund(
+      client,
+      settleResponse,
+      paymentRequirements,
+      refundPayload,
+      { refundStore },
+      "400",
+    );
+
+    expect(response).toEqual({
+      success: true,
+      transaction: refundTransaction,
+      network: "base-sepolia",
+      payer: refundWallet,
+      originalTransaction: settleResponse.transaction,
+    });
+    const [, , refundRequirements] = exact.settle.mock.calls[0];
+    expect(refundRequirements).toMatchObject({
+      scheme: "exact",
+      payTo: payer,
+      maxAmountRequired: "400",
+      asset: paymentRequirements.asset,
+      extra: { name: "USDC", version: "2", requestBinding: undefined },
+    });
+    expect(await refundStore.get("base-sepolia", settleResponse.transaction)).toMatchObject({
+      payer,
+      amount: "400",
+      status: "refunded",
+      refundTransaction,
+    });
+  });
+
+  it("refunds a settlement at most once", async () => {
+    const refundStore = await createSettledRefundStore();
+    await refund(client, settleResponse, paymentRequirements, refundPayload, { refundStore });
+
+    const response = await refund(client, settleResponse, paymentRequirements, refundPayload, {
+      refundStore,
+    });
+
+    expect(response.errorReason).toBe("duplicate_refund");
+    expect(exact.settle).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects refunds of payments that were not settled", async () => {
+    const response = await refund(
+      client,
+      { ...settleResponse, success: false, errorReason: "insufficient_funds" },
+      paymentRequirements,
+      refundPayload,
+    );
+
+    expect(response.errorReason).toBe("invalid_refund");
+    expect(exact.verify).not.toHaveBeenCalled();
+  });
+
+  it("rejects refunds of settlements the facilitator did not record", async () => {
+    const response = await refund(client, settleResponse, paymentRequirements, refundPayload, {
+      refundStore: createInMemoryRefundStore(),
+    });
+
+    expect(response.errorReason).toBe("invalid_refund");
+    expect(exact.verify).not.toHaveBeenCalled();
+  });
+
+  it("refunds the recorded settled amount rather than the maximum amount", async () => {
+    const refundStore = await createSettledRefundStore("300");
+
+    const response = await refund(
+      client,
+      settleResponse,
+      paymentRequirements,
+      refundPayload,
+      { refundStore },
+      "400",
+    );
+    expect(response.errorReason).toBe("invalid_refund_amount");
+    expect(exact.verify).not.toHaveBeenCalled();
+
+    await refund(client, settleResponse, paymentRequirements, refundPayload, { refundStore });
+    const [, , refundRequirements] = exact.settle.mock.calls[0];
+    expect(refundRequirements.maxAmountRequired).toBe("300");
+  });
+
+  it("rejects refunds above the maximum amount without a refund store", async () => {
+    const response = await refund(
+      client,
+      settleResponse,
+      paymentRequirements,
+      refundPayload,
+      undefined,
+      "1001",
+    );
+
+    expect(response.errorReason).toBe("invalid_refund_amount");
+    expect(exact.verify).not.toHaveBeenCalled();
+  });
+
+  it("records invalid refund payments as failed so that they can be attempted again", async () => {
+    exact.verify.mockResolvedValue({
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer: refundWallet,
+    });
+    const refundStore = await createSettledRefundStore();
+
+    const response = await refund(client, settleResponse, paymentRequirements, refundPayload, {
+      refundStore,
+    });
+
+    expect(response).toMatchObject({ success: false, errorReason: "insufficient_funds" });
+    expect(exact.settle).not.toHaveBeenCalled();
+    expect(await refundStore.get("base-sepolia", settleResponse.transaction)).toMatchObject({
+      status: "failed",
+      error: "insufficient_funds",
+      broadcast: false,
+    });
+    expect(
+      (await refund(client, settleResponse, paymentRequirements, refundPayload, { refundStore }))
+        .errorReason,
+    ).toBe("insufficient_funds");
+    expect(exact.verify).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not attempt refunds again once they may have been broadcast", async () => {
+    exact.settle.mockRejectedValueOnce(new Error("timeout"));
+    const refundStore = await createSettledRefundStore();
+
+    await expect(
+      refund(client, settleResponse, paymentRequirements, refundPayload, { refundStore }),
+    ).rejects.toThrow("timeout");
+    expect(await refundStore.get("base-sepolia", settleResponse.transaction)).toMatchObject({
+      status: "failed",
+      broadcast: true,
+    });
+
+    const response = await refund(client, settleResponse, paymentRequirements, refundPayload, {
+      refundStore,
+    });
+    expect(response.errorReason).toBe("duplicate_refund");
+    expect(exact.settle).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("settleBatch", () => {
+  const client = {} as Signer;
+  const paymentRequirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxTimeoutSeconds: 60,
+  } as PaymentRequirements;
+
+  /**
+   * Builds a payment identified by its payload
+   *
+   * @param id - The id of the payment
+   * @param scheme - The scheme of the payment
+   * @returns The payment payload
+   */
+  function makePayment(id: string, scheme = "exact"): PaymentPayload {
+    return { x402Version: 1, scheme, network: "base-sepolia", payload: { id } };
+  }
+
+  /**
+   * Builds the settlement of a payment
+   *
+   * @param payment - The payment
+   * @returns The successful settlement
+   */
+  function settled(payment: PaymentPayload): SettleResponse {
+    return {
+      success: true,
+      transaction: `0x${"ab".repeat(32)}`,
+      network: "base-sepolia",
+      payer: (payment.payload as { id: string }).id,
+    };
+  }
+
+  let batchingScheme: { settle: ReturnType<typeof vi.fn>; settleBatch: ReturnType<typeof vi.fn> };
+  let otherScheme: { settle: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    batchingScheme = {
+      settle: vi.fn(),
+      settleBatch: vi.fn(async (_client, payments: { paymentPayload: PaymentPayload }[]) =>
+        payments.map(({ paymentPayload }) => settled(paymentPayload)),
+      ),
+    };
+    otherScheme = {
+      settle: vi.fn(async (_client, paymentPayload: PaymentPayload) => settled(paymentPayload)),
+    };
+    vi.mocked(getScheme).mockImplementation(
+      scheme =>
+        ({
+          payloadSchema: z.any(),
+          ...(scheme === "exact" ? batchingScheme : otherScheme),
+        }) as unknown as SchemeImplementation,
+    );
+    vi.mocked(getPaymentId).mockImplementation(payment => (payment.payload as { id: string }).id);
+  });
+
+  it("settles the payments of batching schemes together and the others one by one", async () => {
+    const payments = [makePayment("a"), makePayment("b", "upto"), makePayment("c")];
+
+    const responses = await settleBatch(
+      client,
+      payments.map(paymentPayload => ({
+        paymentPayload,
+        paymentRequirements: { ...paymentRequirements, scheme: paymentPayload.scheme },
+      })),
+    );
+
+    expect(responses.map(response => response.payer)).toEqual(["a", "b", "c"]);
+    expect(batchingScheme.settleBatch).toHaveBeenCalledTimes(1);
+    expect(batchingScheme.settleBatch.mock.calls[0][1]).toHaveLength(2);
+    expect(otherScheme.settle).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects payments queued twice and releases the payments that were not settled", async () => {
+    const paymentStore = createInMemoryPaymentStore();
+    batchingScheme.settleBatch.mockImplementation(async () => [
+      { ...settled(makePayment("a")), success: false, errorReason: "invalid_transaction_state" },
+    ]);
+
+    const responses = await settleBatch(
+      client,
+      [makePayment("a"), makePayment("a")].map(paymentPayload => ({
+        paymentPayload,
+        paymentRequirements,
+      })),
+      { paymentStore },
+    );
+
+    expect(responses.map(response => response.errorReason)).toEqual([
+      "invalid_transaction_state",
+      "duplicate_payment",
+    ]);
+    expect(await paymentStore.claim("a", 60)).toBe(true);
+  });
+
+  it("releases the claimed payments when a payment settled one by one throws", async () => {
+    const paymentStore = createInMemoryPaymentStore();
+    otherScheme.settle.mockRejectedValue(new Error("RPC unavailable"));
+
+    await expect(
+      settleBatch(
+        client,
+        [makePayment("a"), makePayment("b", "upto")].map(paymentPayload => ({
+          paymentPayload,
+          paymentRequirements: { ...paymentRequirements, scheme: paymentPayload.scheme },
+        })),
+        { paymentStore },
+      ),
+    ).rejects.toThrow("RPC unavailable");
+
+    expect(batchingScheme.settleBatch).not.toHaveBeenCalled();
+    expect(await paymentStore.claim("a", 60)).toBe(true);
+  });
+
+  it("records the settled payments so that they can be refunded", async () => {
+    const refundStore = createInMemoryRefundStore();
+
+    await settleBatch(
+      client,
+      [makePayment("a"), makePayment("b", "upto")].map(paymentPayload => ({
+        paymentPayload,
+        paymentRequirements: {
+          ...paymentRequirements,
+          scheme: paymentPayload.scheme,
+          maxAmountRequired: "1000",
+        },
+      })),
+      { refundStore },
+    );
+
+    const transaction = `0x${"ab".repeat(32)}`;
+    expect(await refundStore.getSettlement("base-sepolia", transaction, "a")).toMatchObject({
+      amount: "1000",
+    });
+    expect(await refundStore.getSettlement("base-sepolia", transaction, "b")).toMatchObject({
+      amount: "1000",
+    });
+  });
+});
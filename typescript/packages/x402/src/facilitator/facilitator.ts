@@ -1,25 +1,22 @@
-import { verify as verifyExactEvm, settle as settleExactEvm } from "../schemes/exact/evm";
-import { verify as verifyExactSvm, settle as settleExactSvm } from "../schemes/exact/svm";
-import { SupportedEVMNetworks, SupportedSVMNetworks } from "../types/shared";
+import { getPaymentId, getScheme, SchemeImplementation } from "../schemes/registry";
+import { getRefundRequirements } from "../shared/refund";
+import { BatchedPayment, SupportedEVMNetworks } from "../types/shared";
 import { X402Config } from "../types/config";
-import {
-  ConnectedClient as EvmConnectedClient,
-  SignerWallet as EvmSignerWallet,
-} from "../types/shared/evm";
 import { ConnectedClient, Signer } from "../types/shared/wallet";
 import {
   PaymentPayload,
   PaymentRequirements,
+  RefundResponse,
   SettleResponse,
   VerifyResponse,
   ExactEvmPayload,
+  ExactEvmPermit2Payload,
+  UptoEvmPayload,
 } from "../types/verify";
-import { Chain, Transport, Account } from "viem";
-import { TransactionSigner } from "@solana/kit";
 
 /**
  * Verifies a payment payload against the required payment details regardless of the scheme
- * this function wraps all verify functions for each specific scheme
+ * this function dispatches to the scheme implementation registered for the scheme and network
  *
  * @param client - The public client used for blockchain interactions
  * @param payload - The signed payment payload containing transfer parameters and signature
@@ -27,95 +24,524 @@ import { TransactionSigner } from "@solana/kit";
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
  * @returns A ValidPaymentRequest indicating if the payment is valid and any invalidation reason
  */
-export async function verify<
-  transport extends Transport,
-  chain extends Chain,
-  account extends Account | undefined,
->(
+export async function verify(
   client: ConnectedClient | Signer,
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
 ): Promise<VerifyResponse> {
-  // exact scheme
-  if (paymentRequirements.scheme === "exact") {
-    // evm
-    if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
-      return verifyExactEvm(
-        client as EvmConnectedClient<transport, chain, account>,
-        payload,
-        paymentRequirements,
-      );
-    }
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
 
-    // svm
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      return await verifyExactSvm(
-        client as TransactionSigner,
-        payload,
-        paymentRequirements,
-        config,
-      );
-    }
+  // unsupported scheme
+  if (!implementation) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_scheme",
+      payer: getPayer(payload, paymentRequirements),
+    };
   }
 
-  // unsupported scheme
-  return {
-    isValid: false,
-    invalidReason: "invalid_scheme",
-    payer: SupportedEVMNetworks.includes(paymentRequirements.network)
-      ? (payload.payload as ExactEvmPayload).authorization.from
-      : "",
-  };
+  if (!implementation.payloadSchema.safeParse(payload.payload).success) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_payload",
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  return implementation.verify(client, payload, paymentRequirements, config);
 }
 
 /**
  * Settles a payment payload against the required payment details regardless of the scheme
- * this function wraps all settle functions for each specific scheme
+ * this function dispatches to the scheme implementation registered for the scheme and network
  *
  * @param client - The signer wallet used for blockchain interactions
  * @param payload - The signed payment payload containing transfer parameters and signature
  * @param paymentRequirements - The payment requirements that the payload must satisfy
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param settlementAmount - The amount to charge for usage-based schemes such as `upto` and `permit`, defaults to `maxAmountRequired`
  * @returns A SettleResponse indicating if the payment is settled and any settlement reason
  */
-export async function settle<transport extends Transport, chain extends Chain>(
+export async function settle(
   client: Signer,
   payload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
+  settlementAmount?: string,
 ): Promise<SettleResponse> {
-  // exact scheme
-  if (paymentRequirements.scheme === "exact") {
-    // evm
-    if (SupportedEVMNetworks.includes(paymentRequirements.network)) {
-      return await settleExactEvm(
-        client as EvmSignerWallet<chain, transport>,
-        payload,
-        paymentRequirements,
-      );
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+
+  // unsupported scheme
+  if (!implementation) {
+    return {
+      success: false,
+      errorReason: "invalid_scheme",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  if (!implementation.payloadSchema.safeParse(payload.payload).success) {
+    return {
+      success: false,
+      errorReason: "invalid_payload",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  // reject payments that are already being settled, they would fail on-chain at best
+  const paymentStore = config?.paymentStore;
+  const paymentId = getPaymentId(payload);
+  if (
+    paymentStore &&
+    !(await paymentStore.claim(paymentId, paymentRequirements.maxTimeoutSeconds))
+  ) {
+    return {
+      success: false,
+      errorReason: "duplicate_payment",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  try {
+    const response = await implementation.settle(
+      client,
+      payload,
+      paymentRequirements,
+      config,
+      settlementAmount,
+    );
+    // a payment that was not settled may be retried
+    if (!response.success) {
+      await paymentStore?.release(paymentId);
+    }
+    await recordSettlement(response, paymentRequirements, config, settlementAmount);
+    return response;
+  } catch (error) {
+    await paymentStore?.release(paymentId);
+    throw error;
+  }
+}
+
+/**
+ * Settles several payments at once, regardless of their schemes
+ *
+ * The payments of schemes implementing `settleBatch`, such as `exact` on EVM networks, are
+ * settled together, e.g. in a single transaction per scheme and network. Other payments are settled
+ * one by one with `settle`. Payments are checked and recorded in the payment store like with `settle`.
+ *
+ * @param client - The signer wallet used for blockchain interactions
+ * @param payments - The payments to settle, with the payment requirements they were created for
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The settlement of each payment, in the order of `payments`
+ */
+export async function settleBatch(
+  client: Signer,
+  payments: BatchedPayment[],
+  config?: X402Config,
+): Promise<SettleResponse[]> {
+  const responses: SettleResponse[] = new Array(payments.length);
+  const paymentStore = config?.paymentStore;
+  // payments are batched per scheme and network, as a batch is settled on a single chain
+  const batches = new Map<string, { implementation: SchemeImplementation; indexes: number[] }>();
+
+  // the payments claimed in the payment store, which are released if they are left unsettled
+  const claimed: number[] = [];
+
+  try {
+    for (const [
+      index,
+      { paymentPayload, paymentRequirements, settlementAmount },
+    ] of payments.entries()) {
+      const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+      if (!implementation?.settleBatch) {
+        responses[index] = await settle(
+          client,
+          paymentPayload,
+          paymentRequirements,
+          config,
+          settlementAmount,
+        );
+        continue;
+      }
+
+      const payer = getPayer(paymentPayload, paymentRequirements);
+      if (!implementation.payloadSchema.safeParse(paymentPayload.payload).success) {
+        responses[index] = {
+          success: false,
+          errorReason: "invalid_payload",
+          transaction: "",
+          network: paymentRequirements.network,
+          payer,
+        };
+        continue;
+      }
+      // reject payments that are already being settled, including twice in the same batch
+      if (
+        paymentStore &&
+        !(await paymentStore.claim(
+          getPaymentId(paymentPayload),
+          paymentRequirements.maxTimeoutSeconds,
+        ))
+      ) {
+        responses[index] = {
+          success: false,
+          errorReason: "duplicate_payment",
+          transaction: "",
+          network: paymentRequirements.network,
+          payer,
+        };
+        continue;
+      }
+      claimed.push(index);
+      const key = `${paymentRequirements.scheme}:${paymentRequirements.network}`;
+      const batch = batches.get(key) ?? { implementation, indexes: [] };
+      batch.indexes.push(index);
+      batches.set(key, batch);
     }
 
-    // svm
-    if (SupportedSVMNetworks.includes(paymentRequirements.network)) {
-      return await settleExactSvm(
-        client as TransactionSigner,
-        payload,
-        paymentRequirements,
-        config,
-      );
+    for (const { implementation, indexes } of batches.values()) {
+      const batch = indexes.map(index => payments[index]);
+      const settled = await implementation.settleBatch!(client, batch, config);
+      for (const [i, index] of indexes.entries()) {
+        responses[index] = settled[i];
+        // a payment that was not settled may be retried
+        if (!settled[i].success) {
+          await paymentStore?.release(getPaymentId(batch[i].paymentPayload));
+        }
+        await recordSettlement(
+          settled[i],
+          batch[i].paymentRequirements,
+          config,
+          batch[i].settlementAmount,
+        );
+      }
+    }
+  } finally {
+    // payments left without a response because a settlement threw may be retried
+    for (const index of claimed) {
+      if (!responses[index]) {
+        await paymentStore?.release(getPaymentId(payments[index].paymentPayload));
+      }
     }
   }
+  return responses;
+}
+
+/**
+ * Releases a payment held in escrow since its settlement to the payment requirements' payTo,
+ * dispatching to the scheme implementation registered for the scheme and network
+ *
+ * @param client - The signer wallet used for blockchain interactions
+ * @param payload - The payment payload that was settled
+ * @param paymentRequirements - The payment requirements the payment was settled for
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param settlementAmount - The amount to release, the rest of the payment is refunded; defaults to `maxAmountRequired`
+ * @returns A SettleResponse indicating if the payment is released
+ */
+export async function releaseEscrow(
+  client: Signer,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+  settlementAmount?: string,
+): Promise<SettleResponse> {
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+
+  // schemes that do not hold payments have nothing to release
+  if (!implementation?.releaseEscrow) {
+    return {
+      success: false,
+      errorReason: "invalid_scheme",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  if (!implementation.payloadSchema.safeParse(payload.payload).success) {
+    return {
+      success: false,
+      errorReason: "invalid_payload",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  const response = await implementation.releaseEscrow(
+    client,
+    payload,
+    paymentRequirements,
+    config,
+    settlementAmount,
+  );
+  await recordSettlement(response, paymentRequirements, config, settlementAmount);
+  return response;
+}
 
-  return {
+/**
+ * Refunds a payment held in escrow since its settlement to its payer, dispatching to the scheme
+ * implementation registered for the scheme and network
+ *
+ * @param client - The signer wallet used for blockchain interactions
+ * @param payload - The payment payload that was settled
+ * @param paymentRequirements - The payment requirements the payment was settled for
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A SettleResponse indicating if the payment is refunded
+ */
+export async function refundEscrow(
+  client: Signer,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<SettleResponse> {
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+
+  // schemes that do not hold payments have nothing to refund
+  if (!implementation?.refundEscrow) {
+    return {
+      success: false,
+      errorReason: "invalid_scheme",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  if (!implementation.payloadSchema.safeParse(payload.payload).success) {
+    return {
+      success: false,
+      errorReason: "invalid_payload",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  return implementation.refundEscrow(client, payload, paymentRequirements, config);
+}
+
+/**
+ * Closes the channel a payment was made through, paying the payment requirements' payTo and
+ * refunding the rest of the deposit to the payer, dispatching to the scheme implementation
+ * registered for the scheme and network
+ *
+ * @param client - The signer wallet used for blockchain interactions
+ * @param payload - The payment carrying the latest voucher of the channel
+ * @param paymentRequirements - The payment requirements the channel was opened for
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param settlementAmount - The cumulative amount to pay, defaults to the amount of the voucher
+ * @returns A SettleResponse indicating if the channel is closed
+ */
+export async function closeChannel(
+  client: Signer,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+  settlementAmount?: string,
+): Promise<SettleResponse> {
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+
+  // schemes that do not pay through channels have nothing to close
+  if (!implementation?.closeChannel) {
+    return {
+      success: false,
+      errorReason: "invalid_scheme",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  if (!implementation.payloadSchema.safeParse(payload.payload).success) {
+    return {
+      success: false,
+      errorReason: "invalid_payload",
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: getPayer(payload, paymentRequirements),
+    };
+  }
+
+  return implementation.closeChannel(
+    client,
+    payload,
+    paymentRequirements,
+    config,
+    settlementAmount,
+  );
+}
+
+/**
+ * Refunds a settled payment by settling a payment of the refund to its payer
+ *
+ * The refund payload is an `exact` payment signed by the resource server's refund wallet for the
+ * requirements built by `getRefundRequirements`, so that it can only pay back the payer of the
+ * settlement, in the same asset and on the same network. With a refund store, only payments the
+ * facilitator settled are refunded, by at most the amount they paid, the refund is recorded against
+ * the settlement transaction and a settlement is refunded at most once. A failed refund is only
+ * attempted again when it was never broadcast.
+ *
+ * @param client - The signer wallet used for blockchain interactions
+ * @param settleResponse - The settlement of the payment to refund
+ * @param paymentRequirements - The payment requirements the payment was settled for
+ * @param refundPayload - The signed payment of the refund
+ * @param config - Optional configuration for X402 operations, with the refund store
+ * @param amount - The amount to refund, defaults to the settled amount, or `maxAmountRequired`
+ * without a refund store
+ * @returns A RefundResponse linking the refund transaction to the settlement transaction
+ */
+export async function refund(
+  client: Signer,
+  settleResponse: SettleResponse,
+  paymentRequirements: PaymentRequirements,
+  refundPayload: PaymentPayload,
+  config?: X402Config,
+  amount?: string,
+): Promise<RefundResponse> {
+  const originalTransaction = settleResponse.transaction;
+  const failure = (errorReason: RefundResponse["errorReason"]): RefundResponse => ({
     success: false,
-    errorReason: "invalid_scheme",
+    errorReason,
     transaction: "",
     network: paymentRequirements.network,
-    payer: SupportedEVMNetworks.includes(paymentRequirements.network)
-      ? (payload.payload as ExactEvmPayload).authorization.from
-      : "",
+    payer: getPayer(refundPayload, paymentRequirements),
+    originalTransaction,
+  });
+
+  // only payments that were settled, to a known payer, can be refunded
+  if (
+    !settleResponse.success ||
+    !settleResponse.payer ||
+    !originalTransaction ||
+    settleResponse.network !== paymentRequirements.network
+  ) {
+    return failure("invalid_refund");
+  }
+
+  // the settled amount is recorded by the facilitator, the caller may claim any settlement
+  const refundStore = config?.refundStore;
+  let settledAmount = paymentRequirements.maxAmountRequired;
+  if (refundStore) {
+    const settlement = await refundStore.getSettlement(
+      paymentRequirements.network,
+      originalTransaction,
+      settleResponse.payer,
+    );
+    if (!settlement) {
+      return failure("invalid_refund");
+    }
+    settledAmount = settlement.amount;
+  }
+  amount ??= settledAmount;
+  if (BigInt(amount) <= 0n || BigInt(amount) > BigInt(settledAmount)) {
+    return failure("invalid_refund_amount");
+  }
+
+  const refundRequirements = getRefundRequirements(paymentRequirements, settleResponse, amount);
+  const record = {
+    network: paymentRequirements.network,
+    transaction: originalTransaction,
+    payer: settleResponse.payer,
+    amount,
+    status: "pending" as const,
+    createdAt: Date.now(),
   };
+  if (refundStore && !(await refundStore.create(record))) {
+    return failure("duplicate_refund");
+  }
+
+  // a refund whose settlement threw may have been broadcast, so it is not attempted again
+  let broadcast = false;
+  try {
+    const verification = await verify(client, refundPayload, refundRequirements, config);
+    broadcast = verification.isValid;
+    const response: SettleResponse = verification.isValid
+      ? await settle(client, refundPayload, refundRequirements, config)
+      : {
+          success: false,
+          errorReason: verification.invalidReason,
+          transaction: "",
+          network: paymentRequirements.network,
+          payer: verification.payer,
+        };
+
+    // failed settlements without a transaction were rejected before it was sent
+    await refundStore?.update(
+      response.success
+        ? { ...record, status: "refunded", refundTransaction: response.transaction }
+        : {
+            ...record,
+            status: "failed",
+            error: response.errorReason,
+            refundTransaction: response.transaction || undefined,
+            broadcast: !!response.transaction,
+          },
+    );
+    return { ...response, originalTransaction };
+  } catch (error) {
+    await refundStore?.update({ ...record, status: "failed", error: String(error), broadcast });
+    throw error;
+  }
+}
+
+/**
+ * Records a settled payment in the refund store, if any, so that it is not refunded more than it
+ * paid
+ *
+ * @param response - The settlement of the payment
+ * @param paymentRequirements - The payment requirements the payment was settled for
+ * @param config - Optional configuration for X402 operations, with the refund store
+ * @param settlementAmount - The amount charged, for usage-based schemes
+ */
+async function recordSettlement(
+  response: SettleResponse,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+  settlementAmount?: string,
+): Promise<void> {
+  if (!config?.refundStore || !response.success || !response.transaction || !response.payer) {
+    return;
+  }
+  const usageBased = getScheme(paymentRequirements.scheme, paymentRequirements.network)?.usageBased;
+  await config.refundStore.recordSettlement({
+    network: paymentRequirements.network,
+    transaction: response.transaction,
+    payer: response.payer,
+    amount:
+      usageBased && settlementAmount !== undefined
+        ? settlementAmount
+        : paymentRequirements.maxAmountRequired,
+  });
+}
+
+/**
+ * Gets the payer of a payment payload for error responses, when it can be read without a scheme
+ *
+ * @param payload - The payment payload
+ * @param paymentRequirements - The payment requirements of the payment
+ * @returns The address of the payer, or an empty string if it is unknown
+ */
+function getPayer(payload: PaymentPayload, paymentRequirements: PaymentRequirements): string {
+  if (!SupportedEVMNetworks.includes(paymentRequirements.network)) {
+    return "";
+  }
+  const evmPayload = payload.payload as Partial<
+    ExactEvmPayload & ExactEvmPermit2Payload & UptoEvmPayload
+  >;
+  return (
+    evmPayload.authorization?.from ??
+    evmPayload.permit2Authorization?.from ??
+    evmPayload.permit?.owner ??
+    ""
+  );
 }
 
 export type Supported = {
@@ -1 +1,2 @@
 export * from "./facilitator";
+export * from "./batchSettler";
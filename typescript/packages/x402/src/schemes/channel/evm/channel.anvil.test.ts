@@ -0,0 +1,157 @@
+import fs from "fs";
+import path from "path";
+import { Abi, Address, createWalletClient, Hex, http, publicActions } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { getERC20Balance } from "../../../shared/evm";
+import { createSigner, registerEvmNetwork, SignerWallet } from "../../../types/shared/evm";
+import { ChannelEvmPayload, PaymentRequirements } from "../../../types/verify";
+import { createPayment, reclaimChannel, resetChannels } from "./client";
+import { close, getChannel, settle, verify } from "./facilitator";
+
+// run with a local anvil chain and the contracts built by `forge build`, see contracts/README.md
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+// the default accounts of anvil
+const facilitatorKey: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const payerKey: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const payTo: Address = "0x000000000000000000000000000000000000dEaD";
+
+/**
+ * Reads a contract compiled by forge
+ *
+ * @param name - The name of the contract
+ * @returns The ABI and bytecode of the contract
+ */
+function readArtifact(name: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(
+    fs.readFileSync(
+      path.join(process.cwd(), "contracts", "out", `${name}.sol`, `${name}.json`),
+      "utf8",
+    ),
+  );
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+describe.skipIf(!rpcUrl)("channel on anvil", () => {
+  let facilitator: SignerWallet;
+  let payer: SignerWallet;
+  let token: Address;
+  let channelContract: Address;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Deploys a contract built by forge
+   *
+   * @param name - The name of the contract
+   * @param args - The constructor arguments
+   * @returns The address of the contract
+   */
+  async function deploy(name: string, args: unknown[] = []): Promise<Address> {
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(facilitatorKey),
+      chain: foundry,
+      transport: http(rpcUrl),
+    }).extend(publicActions);
+    const hash = await wallet.deployContract({ ...readArtifact(name), args });
+    const receipt = await wallet.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  }
+
+  beforeAll(async () => {
+    token = await deploy("AuthorizationToken", ["Authorization Dollar"]);
+    channelContract = await deploy("X402Channel");
+
+    registerEvmNetwork({
+      network: "anvil",
+      chain: foundry,
+      rpcUrl,
+      defaultAsset: { address: token, eip712: { name: "Authorization Dollar", version: "2" } },
+    });
+    facilitator = createSigner("anvil", facilitatorKey);
+    payer = createSigner("anvil", payerKey);
+  });
+
+  beforeEach(async () => {
+    resetChannels();
+
+    // every channel is funded with a fresh balance
+    const hash = await facilitator.writeContract({
+      address: token,
+      abi: readArtifact("AuthorizationToken").abi,
+      functionName: "mint",
+      args: [payer.account.address, 3_000_000n],
+      chain: foundry,
+    });
+    await facilitator.waitForTransactionReceipt({ hash });
+
+    paymentRequirements = {
+      scheme: "channel",
+      network: "anvil",
+      maxAmountRequired: "1000000",
+      resource: "https://example.com/resource",
+      description: "Test resource",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 300,
+      asset: token,
+      extra: {
+        name: "Authorization Dollar",
+        version: "2",
+        channel: channelContract,
+        operator: facilitator.account.address,
+        channelTimeout: 3600,
+        deposit: "3000000",
+      },
+    };
+  });
+
+  it("opens a channel, claims its vouchers and refunds the rest of the deposit on close", async () => {
+    const opening = await createPayment(payer, 1, paymentRequirements);
+    const balance = await getERC20Balance(payer, token, payer.account.address);
+    const received = await getERC20Balance(payer, token, payTo);
+
+    expect((await verify(payer, opening, paymentRequirements)).isValid).toBe(true);
+    expect((await settle(facilitator, opening, paymentRequirements)).success).toBe(true);
+    expect(await getERC20Balance(payer, token, channelContract)).toBe(3_000_000n);
+
+    const second = await createPayment(payer, 1, paymentRequirements);
+    expect((await verify(payer, second, paymentRequirements)).isValid).toBe(true);
+    expect((await settle(facilitator, second, paymentRequirements)).success).toBe(true);
+    expect(await getERC20Balance(payer, token, payTo)).toBe(received + 2_000_000n);
+
+    const result = await close(facilitator, second, paymentRequirements);
+
+    expect(result.success).toBe(true);
+    expect(await getERC20Balance(payer, token, payer.account.address)).toBe(balance - 2_000_000n);
+    const { channelId } = (second.payload as ChannelEvmPayload).voucher;
+    expect((await getChannel(payer, paymentRequirements, channelId as Hex)).deposit).toBe(0n);
+  });
+
+  it("rejects a voucher that was already claimed", async () => {
+    const opening = await createPayment(payer, 1, paymentRequirements);
+    await settle(facilitator, opening, paymentRequirements);
+    const second = await createPayment(payer, 1, paymentRequirements);
+    await settle(facilitator, second, paymentRequirements);
+
+    const result = await settle(facilitator, second, paymentRequirements);
+
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("invalid_channel_voucher_amount");
+  });
+
+  it("lets the payer reclaim the deposit of an expired channel", async () => {
+    const opening = await createPayment(payer, 1, paymentRequirements);
+    const balance = await getERC20Balance(payer, token, payer.account.address);
+    await settle(facilitator, opening, paymentRequirements);
+    const { channelId } = (opening.payload as ChannelEvmPayload).voucher;
+
+    await expect(reclaimChannel(payer, channelId as Hex, paymentRequirements)).rejects.toThrow();
+    await payer.request({ method: "evm_increaseTime", params: [3601] } as never);
+    await payer.request({ method: "evm_mine", params: [] } as never);
+    await reclaimChannel(payer, channelId as Hex, paymentRequirements);
+
+    expect(await getERC20Balance(payer, token, payer.account.address)).toBe(balance);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { recoverTypedDataAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { ChannelEvmPayload, PaymentRequirements } from "../../../types/verify";
+import { getReceiveAuthorizationTypedData } from "../../escrow/evm/sign";
+import { createPayment, resetChannels } from "./client";
+import { getChannelId, getChannelNonce, getVoucherTypedData } from "./sign";
+
+const account = privateKeyToAccount(
+  "0x1234567890123456789012345678901234567890123456789012345678901234",
+);
+
+const mockPaymentRequirements: PaymentRequirements = {
+  scheme: "channel",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 300,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: {
+    name: "USDC",
+    version: "2",
+    channel: "0x9876543210987654321098765432109876543210",
+    operator: "0x5555555555555555555555555555555555555555",
+    channelTimeout: 3600,
+    deposit: "3000000",
+  },
+};
+
+describe("createPayment", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    resetChannels();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should open a channel funded with the advertised deposit under the channel terms", async () => {
+    const payment = await createPayment(account, 1, mockPaymentRequirements);
+    const { voucher, open } = payment.payload as ChannelEvmPayload;
+
+    const nonce = getChannelNonce({
+      payTo: "0x1234567890123456789012345678901234567890",
+      operator: "0x5555555555555555555555555555555555555555",
+      timeout: 3600n,
+      salt: open!.salt as `0x${string}`,
+    });
+    expect(open!.authorization).toEqual({
+      from: account.address,
+      to: "0x9876543210987654321098765432109876543210",
+      value: "3000000",
+      validAfter: "1704066600",
+      validBefore: "1704067500",
+      nonce,
+    });
+    expect(voucher.channelId).toBe(
+      getChannelId(mockPaymentRequirements.asset as `0x${string}`, account.address, nonce),
+    );
+    expect(voucher.amount).toBe("1000000");
+
+    const signer = await recoverTypedDataAddress({
+      ...getReceiveAuthorizationTypedData(open!.authorization, mockPaymentRequirements),
+      signature: open!.signature as `0x${string}`,
+    });
+    expect(signer).toBe(account.address);
+  });
+
+  it("should pay through the open channel with cumulative vouchers", async () => {
+    const opening = await createPayment(account, 1, mockPaymentRequirements);
+    const next = await createPayment(account, 1, mockPaymentRequirements);
+    const { voucher, open } = next.payload as ChannelEvmPayload;
+
+    expect(open).toBeUndefined();
+    expect(voucher.channelId).toBe((opening.payload as ChannelEvmPayload).voucher.channelId);
+    expect(voucher.amount).toBe("2000000");
+    const signer = await recoverTypedDataAddress({
+      ...getVoucherTypedData(voucher.channelId, voucher.amount, mockPaymentRequirements),
+      signature: voucher.signature as `0x${string}`,
+    });
+    expect(signer).toBe(account.address);
+  });
+
+  it("should open a new channel once the deposit is spent or half of the timeout passed", async () => {
+    const opening = await createPayment(account, 1, mockPaymentRequirements);
+    await createPayment(account, 1, mockPaymentRequirements);
+    await createPayment(account, 1, mockPaymentRequirements);
+    const afterDeposit = await createPayment(account, 1, mockPaymentRequirements);
+    expect((afterDeposit.payload as ChannelEvmPayload).open).toBeDefined();
+
+    vi.advanceTimersByTime(1800 * 1000);
+    const afterTimeout = await createPayment(account, 1, mockPaymentRequirements);
+    const { voucher, open } = afterTimeout.payload as ChannelEvmPayload;
+    expect(open).toBeDefined();
+    expect(voucher.channelId).not.toBe((opening.payload as ChannelEvmPayload).voucher.channelId);
+  });
+
+  it("should throw if the payment requirements do not provide the channel terms", async () => {
+    await expect(
+      createPayment(account, 1, {
+        ...mockPaymentRequirements,
+        extra: { name: "USDC", version: "2" },
+      }),
+    ).rejects.toThrow("do not provide a channel contract, operator and timeout");
+  });
+});
@@ -0,0 +1,178 @@
+import { Address, Chain, getAddress, Hex, LocalAccount, Transport } from "viem";
+import { safeBase64Encode } from "../../../shared";
+import { channelABI, isSignerWallet, SignerWallet } from "../../../types/shared/evm";
+import { ChannelEvmPayload, PaymentPayload, PaymentRequirements } from "../../../types/verify";
+import { createNonce } from "../../exact/evm/sign";
+import { signReceiveAuthorization } from "../../escrow/evm/sign";
+import { getChannelId, getChannelNonce, getChannelTerms, signVoucher } from "./sign";
+
+/**
+ * A channel opened by this process, which later payments to the same recipient are made through
+ */
+type OpenChannel = {
+  channelId: Hex;
+  deposit: bigint;
+  /** The cumulative amount of the latest voucher signed for the channel */
+  amount: bigint;
+  /** Until when the channel is used, in milliseconds since the epoch */
+  usableUntil: number;
+};
+
+// the channels opened by this process, by payer, network, channel contract, asset and recipient
+const openChannels = new Map<string, OpenChannel>();
+
+/**
+ * Creates a channel payment payload paying `maxAmountRequired`.
+ *
+ * The first payment to a recipient opens a channel: it authorizes the channel contract to receive
+ * the deposit advertised in the payment requirements, and carries a voucher for the first
+ * payment. Later payments only carry a voucher whose cumulative amount covers one more payment,
+ * until the deposit is spent or half of the channel timeout has passed, when a new channel is
+ * opened. Vouchers count as spent once they are signed, even if the server rejects the payment.
+ *
+ * @param client - The signer wallet instance used to sign the authorization and the vouchers
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements, with the channel contract, operator, timeout and deposit in `extra`
+ * @returns A promise that resolves to the signed payment payload
+ * @throws Error if the payment requirements do not provide the channel terms
+ */
+export async function createPayment<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): Promise<PaymentPayload> {
+  const from = isSignerWallet(client) ? client.account!.address : client.address;
+  const key = getChannelKey(from, paymentRequirements);
+  const price = BigInt(paymentRequirements.maxAmountRequired);
+
+  const channel = openChannels.get(key);
+  if (channel && channel.amount + price <= channel.deposit && Date.now() < channel.usableUntil) {
+    const amount = (channel.amount + price).toString();
+    channel.amount += price;
+    const signature = await signVoucher(client, channel.channelId, amount, paymentRequirements);
+    return toPayment(x402Version, paymentRequirements, {
+      voucher: { channelId: channel.channelId, amount, signature },
+    });
+  }
+
+  // the deposit covers at least one payment
+  const advertisedDeposit = BigInt(paymentRequirements.extra?.deposit ?? 0);
+  const deposit = advertisedDeposit > price ? advertisedDeposit : price;
+  const salt = createNonce();
+  const terms = getChannelTerms(paymentRequirements, salt);
+  const nonce = getChannelNonce(terms);
+  const authorization = {
+    from,
+    to: getAddress(paymentRequirements.extra!.channel),
+    value: deposit.toString(),
+    validAfter: BigInt(Math.floor(Date.now() / 1000) - 600).toString(), // 10 minutes before
+    validBefore: BigInt(
+      Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds),
+    ).toString(),
+    nonce,
+  };
+  const { signature } = await signReceiveAuthorization(client, authorization, paymentRequirements);
+
+  const channelId = getChannelId(paymentRequirements.asset as Address, from, nonce);
+  const amount = price.toString();
+  const voucherSignature = await signVoucher(client, channelId, amount, paymentRequirements);
+  openChannels.set(key, {
+    channelId,
+    deposit,
+    amount: price,
+    usableUntil: Date.now() + Number(terms.timeout) * 500,
+  });
+
+  return toPayment(x402Version, paymentRequirements, {
+    voucher: { channelId, amount, signature: voucherSignature },
+    open: { signature, authorization, salt },
+  });
+}
+
+/**
+ * Creates and encodes a channel payment header for the given client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @returns A promise that resolves to the encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: SignerWallet | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): Promise<string> {
+  const payment = await createPayment(client, x402Version, paymentRequirements);
+  // channel payloads only hold string values
+  return safeBase64Encode(JSON.stringify(payment));
+}
+
+/**
+ * Forgets the channels opened by this process, so that the next payments open new channels, e.g.
+ * after a server rejected a channel
+ */
+export function resetChannels(): void {
+  openChannels.clear();
+}
+
+/**
+ * Refunds the unclaimed deposit of an expired channel to the payer, e.g. when the resource
+ * server did not close it.
+ *
+ * @param wallet - The wallet sending the transaction, usually the payer's
+ * @param channelId - The id of the channel
+ * @param paymentRequirements - The payment requirements the channel was opened for, with the channel contract in `extra`
+ * @returns The hash of the transaction
+ * @throws Error if the transaction fails
+ */
+export async function reclaimChannel<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  channelId: Hex,
+  paymentRequirements: PaymentRequirements,
+): Promise<Hex> {
+  const tx = await wallet.writeContract({
+    address: getAddress(paymentRequirements.extra?.channel),
+    abi: channelABI,
+    functionName: "reclaim" as const,
+    args: [channelId],
+    chain: wallet.chain as Chain,
+  });
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  if (receipt.status !== "success") {
+    throw new Error(`The reclaim transaction ${tx} failed`);
+  }
+  return tx;
+}
+
+/**
+ * Identifies the channels a payment can be made through
+ *
+ * @param from - The address of the payer
+ * @param paymentRequirements - The payment requirements of the payment
+ * @returns The key of the channels
+ */
+function getChannelKey(from: Address, paymentRequirements: PaymentRequirements): string {
+  const { network, asset, payTo, extra } = paymentRequirements;
+  return [from, network, extra?.channel, asset, payTo].join(":").toLowerCase();
+}
+
+/**
+ * Wraps a channel payload into a payment payload
+ *
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements of the payment
+ * @param payload - The channel payload
+ * @returns The payment payload
+ */
+function toPayment(
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  payload: ChannelEvmPayload,
+): PaymentPayload {
+  return {
+    x402Version,
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    payload,
+  };
+}
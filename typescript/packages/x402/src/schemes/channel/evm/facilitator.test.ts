@@ -0,0 +1,320 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { verifyTypedData, zeroAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import { ChannelRecord } from "../../../types/shared";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { ChannelEvmPayload, PaymentPayload, PaymentRequirements } from "../../../types/verify";
+import { createPayment, resetChannels } from "./client";
+import { close, settle, verify, verifyVoucher } from "./facilitator";
+import { signVoucher } from "./sign";
+
+describe("channel evm facilitator", () => {
+  const payer = privateKeyToAccount(
+    "0x1234567890123456789012345678901234567890123456789012345678901234",
+  );
+  const operator = privateKeyToAccount(
+    "0xabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcd",
+  );
+  const channelContract = "0x9876543210987654321098765432109876543210";
+
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "channel",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    extra: {
+      name: "USDC",
+      version: "2",
+      channel: channelContract,
+      operator: operator.address,
+      channelTimeout: 3600,
+      deposit: "3000000",
+    },
+  };
+
+  let wallet: {
+    account: typeof operator;
+    chain: typeof baseSepolia;
+    verifyTypedData: typeof verifyTypedData;
+    readContract: ReturnType<typeof vi.fn>;
+    writeContract: ReturnType<typeof vi.fn>;
+    waitForTransactionReceipt: ReturnType<typeof vi.fn>;
+  };
+
+  /**
+   * Builds a channel held by the channel contract
+   *
+   * @param open - Whether the channel is open
+   * @param claimed - The amount claimed so far
+   * @returns The `channels` entry of the channel contract
+   */
+  function heldChannel(open = true, claimed = 0n) {
+    return [
+      open ? paymentRequirements.asset : zeroAddress,
+      open ? payer.address : zeroAddress,
+      open ? paymentRequirements.payTo : zeroAddress,
+      open ? operator.address : zeroAddress,
+      open ? 3000000n : 0n,
+      open ? claimed : 0n,
+      open ? BigInt(Math.floor(Date.now() / 1000) + 3600) : 0n,
+    ];
+  }
+
+  /**
+   * Mocks the state of the chain
+   *
+   * @param channel - The `channels` entry of the channel contract
+   */
+  function mockChain(channel: unknown[]) {
+    wallet.readContract.mockImplementation(async ({ functionName }) => {
+      switch (functionName) {
+        case "authorizationState":
+          return false;
+        case "channels":
+          return channel;
+        default:
+          return 5_000_000n;
+      }
+    });
+  }
+
+  /**
+   * Creates the payment opening a channel and a payment made through it
+   *
+   * @returns The opening payment and the next payment
+   */
+  async function createPayments(): Promise<[PaymentPayload, PaymentPayload]> {
+    const opening = await createPayment(payer, 1, paymentRequirements);
+    const next = await createPayment(payer, 1, paymentRequirements);
+    return [opening, next];
+  }
+
+  beforeEach(() => {
+    resetChannels();
+    wallet = {
+      account: operator,
+      chain: baseSepolia,
+      verifyTypedData,
+      readContract: vi.fn(),
+      writeContract: vi.fn().mockResolvedValue(`0x${"01".repeat(32)}`),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success", blockNumber: 42n }),
+    };
+    mockChain(heldChannel(false));
+  });
+
+  describe("verify", () => {
+    it("accepts a payment opening a channel with the advertised terms", async () => {
+      const [opening] = await createPayments();
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        opening,
+        paymentRequirements,
+      );
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: payer.address });
+    });
+
+    it("rejects a deposit paid to another channel contract", async () => {
+      const opening = await createPayment(payer, 1, {
+        ...paymentRequirements,
+        extra: { ...paymentRequirements.extra, channel: operator.address },
+      });
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        opening,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_channel_evm_payload_channel_mismatch");
+    });
+
+    it("verifies vouchers against the open channel", async () => {
+      const [, next] = await createPayments();
+      mockChain(heldChannel(true, 2000000n));
+
+      const result = await verify(wallet as unknown as ConnectedClient, next, paymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_channel_voucher_amount");
+    });
+
+    it("rejects vouchers of channels that are not open", async () => {
+      const [, next] = await createPayments();
+
+      const result = await verify(wallet as unknown as ConnectedClient, next, paymentRequirements);
+
+      expect(result.invalidReason).toBe("invalid_channel");
+    });
+  });
+
+  describe("settle", () => {
+    it("opens the channel of an opening payment", async () => {
+      const [opening] = await createPayments();
+      const { open } = opening.payload as ChannelEvmPayload;
+
+      const result = await settle(wallet as unknown as SignerWallet, opening, paymentRequirements);
+
+      expect(result).toEqual({
+        success: true,
+        transaction: `0x${"01".repeat(32)}`,
+        network: "base-sepolia",
+        payer: payer.address,
+        blockNumber: "42",
+      });
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: channelContract,
+          functionName: "open",
+          args: [
+            paymentRequirements.asset,
+            {
+              from: payer.address,
+              value: 3000000n,
+              validAfter: BigInt(open!.authorization.validAfter),
+              validBefore: BigInt(open!.authorization.validBefore),
+            },
+            {
+              payTo: paymentRequirements.payTo,
+              operator: operator.address,
+              timeout: 3600n,
+              salt: open!.salt,
+            },
+            open!.signature,
+          ],
+        }),
+      );
+    });
+
+    it("claims the voucher of a payment through an open channel", async () => {
+      const [, next] = await createPayments();
+      const { voucher } = next.payload as ChannelEvmPayload;
+      mockChain(heldChannel());
+
+      const result = await settle(wallet as unknown as SignerWallet, next, paymentRequirements);
+
+      expect(result.success).toBe(true);
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "claim",
+          args: [voucher.channelId, 2000000n, voucher.signature],
+        }),
+      );
+    });
+  });
+
+  describe("close", () => {
+    it("closes the channel paying the amount of the voucher", async () => {
+      const [, next] = await createPayments();
+      const { voucher } = next.payload as ChannelEvmPayload;
+      mockChain(heldChannel(true, 1000000n));
+
+      const result = await close(wallet as unknown as SignerWallet, next, paymentRequirements);
+
+      expect(result.success).toBe(true);
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: "close",
+          args: [voucher.channelId, 2000000n, voucher.signature],
+        }),
+      );
+    });
+
+    it("rejects settlement amounts above the claimed amount without a voucher", async () => {
+      const [, next] = await createPayments();
+      mockChain(heldChannel(true, 1000000n));
+
+      const result = await close(
+        wallet as unknown as SignerWallet,
+        next,
+        paymentRequirements,
+        "1500000",
+      );
+
+      expect(result.errorReason).toBe("invalid_channel_settlement_amount");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyVoucher", () => {
+    /**
+     * Builds the channel recorded by the resource server once the opening payment was accepted
+     *
+     * @param opening - The payment that opened the channel
+     * @returns The recorded channel
+     */
+    function recordChannel(opening: PaymentPayload): ChannelRecord {
+      return {
+        id: (opening.payload as ChannelEvmPayload).voucher.channelId,
+        network: "base-sepolia",
+        payer: payer.address,
+        deposit: "3000000",
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+        amount: "1000000",
+        claimedAmount: "0",
+        paymentPayload: opening,
+        paymentRequirements,
+      };
+    }
+
+    it("accepts vouchers paying one more payment without reaching the chain", async () => {
+      const [opening, next] = await createPayments();
+
+      const result = await verifyVoucher(next, paymentRequirements, recordChannel(opening));
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: payer.address });
+      expect(wallet.readContract).not.toHaveBeenCalled();
+    });
+
+    it("rejects vouchers above the deposit", async () => {
+      const [opening] = await createPayments();
+      const { channelId } = (opening.payload as ChannelEvmPayload).voucher;
+      const amount = "4000000";
+      const signature = await signVoucher(payer, channelId, amount, paymentRequirements);
+
+      const result = await verifyVoucher(
+        { ...opening, payload: { voucher: { channelId, amount, signature } } },
+        paymentRequirements,
+        recordChannel(opening),
+      );
+
+      expect(result.invalidReason).toBe("invalid_channel_voucher_amount");
+    });
+
+    it("rejects vouchers signed by another address", async () => {
+      const [opening, next] = await createPayments();
+      const { voucher } = next.payload as ChannelEvmPayload;
+      const signature = await signVoucher(
+        operator,
+        voucher.channelId,
+        voucher.amount,
+        paymentRequirements,
+      );
+
+      const result = await verifyVoucher(
+        { ...next, payload: { voucher: { ...voucher, signature } } },
+        paymentRequirements,
+        recordChannel(opening),
+      );
+
+      expect(result.invalidReason).toBe("invalid_channel_voucher_signature");
+    });
+
+    it("rejects vouchers of channels expiring before the payment could be claimed", async () => {
+      const [opening, next] = await createPayments();
+
+      const result = await verifyVoucher(next, paymentRequirements, {
+        ...recordChannel(opening),
+        expiresAt: Math.floor(Date.now() / 1000) + 60,
+      });
+
+      expect(result.invalidReason).toBe("invalid_channel");
+    });
+  });
+});
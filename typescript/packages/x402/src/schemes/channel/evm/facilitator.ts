@@ -0,0 +1,590 @@
+import {
+  Account,
+  Address,
+  Chain,
+  getAddress,
+  Hex,
+  parseErc6492Signature,
+  Transport,
+  verifyTypedData,
+  zeroAddress,
+} from "viem";
+import { getNetworkId } from "../../../shared";
+import { getAuthorizationState, getERC20Balance, getVersion } from "../../../shared/evm";
+import { ChannelPayment, ChannelRecord } from "../../../types/shared/channel";
+import { channelABI, config, ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import {
+  ChannelEvmPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "../../../types/verify";
+import { getReceiveAuthorizationTypedData } from "../../escrow/evm/sign";
+import { SCHEME } from "..";
+import { getChannelId, getChannelNonce, getChannelTerms, getVoucherTypedData } from "./sign";
+
+/**
+ * A channel held by the channel contract
+ */
+export type ChannelState = {
+  /** The id of the channel in the channel contract */
+  id: Hex;
+  /** The token of the deposit */
+  token: Address;
+  /** The payer of the channel, the zero address if the channel was closed or never opened */
+  payer: Address;
+  /** The recipient of the payments made through the channel */
+  payTo: Address;
+  /** The deposit of the channel, in atomic units of the asset */
+  deposit: bigint;
+  /** The cumulative amount claimed so far */
+  claimed: bigint;
+  /** When the channel expires, in seconds since the epoch */
+  expiresAt: bigint;
+};
+
+/**
+ * Verifies a channel payment payload against the required payment details
+ *
+ * Payments opening a channel that is not open yet are verified like an `escrow` deposit: the
+ * authorization must pay the deposit to the channel contract of the payment requirements, with a
+ * nonce committing to their recipient, operator and timeout. Other payments are verified against
+ * the channel held by the contract. In both cases the voucher must be signed by the payer, cover
+ * at least `maxAmountRequired` and at most the deposit.
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed payment payload containing the voucher
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { voucher, open } = payload.payload as ChannelEvmPayload;
+
+  // Verify payload version
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return {
+      isValid: false,
+      invalidReason: `unsupported_scheme`,
+      payer: open?.authorization.from,
+    };
+  }
+  if (!paymentRequirements.extra?.channel) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_payment_requirements",
+      payer: open?.authorization.from,
+    };
+  }
+
+  const channel = await getChannel(client, paymentRequirements, voucher.channelId as Hex);
+  if (open && channel.payer === zeroAddress) {
+    return verifyOpening(client, payload, paymentRequirements);
+  }
+
+  const payer = channel.payer;
+  if (
+    channel.payer === zeroAddress ||
+    getAddress(channel.token) !== getAddress(paymentRequirements.asset) ||
+    getAddress(channel.payTo) !== getAddress(paymentRequirements.payTo) ||
+    // Pad 3 block to account for round tripping
+    channel.expiresAt < BigInt(Math.floor(Date.now() / 1000) + 6)
+  ) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel",
+      payer: channel.payer === zeroAddress ? undefined : payer,
+    };
+  }
+
+  // the voucher must pay something that was not claimed yet, within the deposit
+  const amount = BigInt(voucher.amount);
+  if (amount <= channel.claimed || amount > channel.deposit) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_voucher_amount",
+      payer,
+    };
+  }
+
+  const isValidSignature = await client.verifyTypedData({
+    address: payer,
+    ...getVoucherTypedData(voucher.channelId, voucher.amount, paymentRequirements),
+    signature: voucher.signature as Hex,
+  });
+  if (!isValidSignature) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_voucher_signature",
+      payer,
+    };
+  }
+
+  return {
+    isValid: true,
+    invalidReason: undefined,
+    payer,
+  };
+}
+
+/**
+ * Settles a channel payment
+ *
+ * A payment opening a channel that is not open yet opens it, receiving the deposit; its voucher
+ * is claimed later, with the vouchers of the next payments. Other payments claim the amount of
+ * their voucher that was not claimed yet, paying it to `payTo` while the channel stays open.
+ *
+ * The facilitator wallet must be the operator of the payment requirements to open a channel, and
+ * the operator or the recipient of the channel to claim it.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The signed payment payload containing the voucher
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function settle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<SettleResponse> {
+  const { voucher, open } = paymentPayload.payload as ChannelEvmPayload;
+
+  // re-verify to ensure the payment is still valid
+  const valid = await verify(wallet, paymentPayload, paymentRequirements);
+
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+      payer: valid.payer,
+    };
+  }
+
+  const channelContract = getAddress(paymentRequirements.extra!.channel);
+  const channel = await getChannel(wallet, paymentRequirements, voucher.channelId as Hex);
+  if (open && channel.payer === zeroAddress) {
+    // the contract only lets the operator the payer agreed to open the channel
+    const terms = getChannelTerms(paymentRequirements, open.salt as Hex);
+    if (terms.operator !== getAddress(wallet.account.address)) {
+      return {
+        success: false,
+        network: paymentPayload.network,
+        transaction: "",
+        errorReason: "invalid_channel_evm_payload_nonce",
+        payer: valid.payer,
+      };
+    }
+
+    // Returns the original signature (no-op) if the signature is not a 6492 signature
+    const { signature } = parseErc6492Signature(open.signature as Hex);
+    const { authorization } = open;
+    const tx = await wallet.writeContract({
+      address: channelContract,
+      abi: channelABI,
+      functionName: "open" as const,
+      args: [
+        paymentRequirements.asset as Address,
+        {
+          from: authorization.from as Address,
+          value: BigInt(authorization.value),
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+        },
+        terms,
+        signature,
+      ],
+      chain: wallet.chain as Chain,
+    });
+    return waitForChannelTransaction(wallet, tx, paymentPayload, valid.payer!);
+  }
+
+  const tx = await wallet.writeContract({
+    address: channelContract,
+    abi: channelABI,
+    functionName: "claim" as const,
+    args: [voucher.channelId as Hex, BigInt(voucher.amount), voucher.signature as Hex],
+    chain: wallet.chain as Chain,
+  });
+  return waitForChannelTransaction(wallet, tx, paymentPayload, valid.payer!);
+}
+
+/**
+ * Closes a channel, paying `payTo` the amount of the voucher of the payment that was not claimed
+ * yet and refunding the rest of the deposit to the payer
+ *
+ * With a `settlementAmount` below the amount of the voucher, e.g. when the voucher was not
+ * accepted by the resource server, the channel is closed without claiming more than was already
+ * claimed, which requires `settlementAmount` not to exceed the claimed amount.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The payment carrying the latest voucher of the channel
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @param settlementAmount - The cumulative amount to pay, defaults to the amount of the voucher
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function close<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  settlementAmount?: string,
+): Promise<SettleResponse> {
+  const { voucher } = paymentPayload.payload as ChannelEvmPayload;
+
+  const channel = await getChannel(wallet, paymentRequirements, voucher.channelId as Hex);
+  if (
+    channel.payer === zeroAddress ||
+    getAddress(channel.payTo) !== getAddress(paymentRequirements.payTo)
+  ) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_channel",
+    };
+  }
+
+  const amount = BigInt(settlementAmount ?? voucher.amount);
+  const isVoucherAmount = amount === BigInt(voucher.amount);
+  if (amount < 0n || (!isVoucherAmount && amount > channel.claimed)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_channel_settlement_amount",
+      payer: channel.payer,
+    };
+  }
+
+  const tx = await wallet.writeContract({
+    address: getAddress(paymentRequirements.extra!.channel),
+    abi: channelABI,
+    functionName: "close" as const,
+    args: [channel.id, amount, isVoucherAmount ? (voucher.signature as Hex) : "0x"],
+    chain: wallet.chain as Chain,
+  });
+  return waitForChannelTransaction(wallet, tx, paymentPayload, channel.payer);
+}
+
+/**
+ * Verifies the voucher of a payment against a channel recorded by the resource server, without
+ * reaching the chain
+ *
+ * The voucher must be signed by the payer of the channel and pay `maxAmountRequired` more than
+ * the latest voucher accepted, within the deposit, and the channel must not expire before the
+ * payment could be claimed.
+ *
+ * @param payload - The signed payment payload containing the voucher
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @param channel - The channel recorded when it was opened, with its latest accepted voucher
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verifyVoucher(
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  channel: ChannelRecord,
+): Promise<VerifyResponse> {
+  const { voucher } = payload.payload as ChannelEvmPayload;
+  const payer = channel.payer;
+
+  const opened = channel.paymentRequirements;
+  if (
+    voucher.channelId.toLowerCase() !== channel.id.toLowerCase() ||
+    payload.network !== channel.network ||
+    paymentRequirements.asset.toLowerCase() !== opened.asset.toLowerCase() ||
+    paymentRequirements.payTo.toLowerCase() !== opened.payTo.toLowerCase() ||
+    paymentRequirements.extra?.channel?.toLowerCase() !== opened.extra?.channel?.toLowerCase() ||
+    channel.expiresAt < Math.floor(Date.now() / 1000) + paymentRequirements.maxTimeoutSeconds
+  ) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel",
+      payer,
+    };
+  }
+
+  const amount = BigInt(voucher.amount);
+  if (
+    amount < BigInt(channel.amount) + BigInt(paymentRequirements.maxAmountRequired) ||
+    amount > BigInt(channel.deposit)
+  ) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_voucher_amount",
+      payer,
+    };
+  }
+
+  const isValidSignature = await verifyTypedData({
+    address: payer as Address,
+    ...getVoucherTypedData(voucher.channelId, voucher.amount, paymentRequirements),
+    signature: voucher.signature as Hex,
+  });
+  if (!isValidSignature) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_voucher_signature",
+      payer,
+    };
+  }
+
+  return {
+    isValid: true,
+    invalidReason: undefined,
+    payer,
+  };
+}
+
+/**
+ * Reads the voucher of a channel payment, and the channel it opens
+ *
+ * @param payload - The channel payment payload
+ * @returns The voucher and, for payments opening a channel, its payer and deposit
+ */
+export function getVoucher(payload: PaymentPayload): ChannelPayment {
+  const { voucher, open } = payload.payload as ChannelEvmPayload;
+  return {
+    channelId: voucher.channelId,
+    amount: voucher.amount,
+    opens: open && { payer: open.authorization.from, deposit: open.authorization.value },
+  };
+}
+
+/**
+ * Reads a channel from the channel contract of the payment requirements
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param paymentRequirements - The payment requirements, with the channel contract in `extra`
+ * @param id - The id of the channel
+ * @returns The channel, whose payer is the zero address if it is not open
+ */
+export async function getChannel<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  paymentRequirements: PaymentRequirements,
+  id: Hex,
+): Promise<ChannelState> {
+  const [token, payer, payTo, , deposit, claimed, expiresAt] = await client.readContract({
+    address: getAddress(paymentRequirements.extra?.channel),
+    abi: channelABI,
+    functionName: "channels",
+    args: [id],
+  });
+  return { id, token, payer, payTo, deposit, claimed, expiresAt };
+}
+
+/**
+ * Verifies a payment opening a channel
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The payment payload, with the authorization of the deposit
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+async function verifyOpening<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { voucher, open } = payload.payload as Required<ChannelEvmPayload>;
+  const { authorization, signature, salt } = open;
+  const payer = authorization.from;
+
+  let domainRequirements: PaymentRequirements;
+  try {
+    const chainId = getNetworkId(payload.network);
+    domainRequirements = {
+      ...paymentRequirements,
+      extra: {
+        ...paymentRequirements.extra,
+        name: paymentRequirements.extra?.name ?? config[chainId.toString()].usdcName,
+        version: paymentRequirements.extra?.version ?? (await getVersion(client)),
+      },
+    };
+  } catch {
+    return {
+      isValid: false,
+      invalidReason: `invalid_network`,
+      payer,
+    };
+  }
+
+  // Verify that the deposit is paid to the channel contract named in the payment requirements
+  if (getAddress(authorization.to) !== getAddress(paymentRequirements.extra!.channel)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_evm_payload_channel_mismatch",
+      payer,
+    };
+  }
+
+  // Verify that the payer agreed to the recipient, operator and timeout of the payment
+  // requirements, which the channel contract reads from the nonce
+  let nonce: Hex | undefined;
+  try {
+    nonce = getChannelNonce(getChannelTerms(paymentRequirements, salt as Hex));
+  } catch {
+    nonce = undefined;
+  }
+  if (
+    !nonce ||
+    nonce !== authorization.nonce.toLowerCase() ||
+    getChannelId(paymentRequirements.asset as Address, payer as Address, nonce) !==
+      voucher.channelId.toLowerCase()
+  ) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_evm_payload_nonce",
+      payer,
+    };
+  }
+
+  // Verify the authorization signature is recoverable for the payer address
+  const isValidSignature = await client.verifyTypedData({
+    address: payer as Address,
+    ...getReceiveAuthorizationTypedData(authorization, domainRequirements),
+    signature: signature as Hex,
+  });
+  if (!isValidSignature) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_evm_payload_signature",
+      payer,
+    };
+  }
+
+  // Verify deadline is not yet expired
+  // Pad 3 block to account for round tripping
+  if (BigInt(authorization.validBefore) < BigInt(Math.floor(Date.now() / 1000) + 6)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_evm_payload_authorization_valid_before",
+      payer,
+    };
+  }
+  // Verify deadline is not yet valid
+  if (BigInt(authorization.validAfter) > BigInt(Math.floor(Date.now() / 1000))) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_evm_payload_authorization_valid_after",
+      payer,
+    };
+  }
+
+  // Verify the authorization has not already been used or canceled on-chain
+  const nonceUsed = await getAuthorizationState(
+    client,
+    paymentRequirements.asset as Address,
+    payer as Address,
+    authorization.nonce as Hex,
+  );
+  if (nonceUsed) {
+    return {
+      isValid: false,
+      invalidReason: "duplicate_payment",
+      payer,
+    };
+  }
+
+  // Verify the deposit covers the payment and the client has enough funds to pay it
+  const deposit = BigInt(authorization.value);
+  if (deposit < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_evm_payload_authorization_value",
+      payer,
+    };
+  }
+  const balance = await getERC20Balance(
+    client,
+    paymentRequirements.asset as Address,
+    payer as Address,
+  );
+  if (balance < deposit) {
+    return {
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer,
+    };
+  }
+
+  // Verify the voucher pays for the payment within the deposit and is signed by the payer
+  const amount = BigInt(voucher.amount);
+  if (amount < BigInt(paymentRequirements.maxAmountRequired) || amount > deposit) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_voucher_amount",
+      payer,
+    };
+  }
+  const isValidVoucher = await client.verifyTypedData({
+    address: payer as Address,
+    ...getVoucherTypedData(voucher.channelId, voucher.amount, paymentRequirements),
+    signature: voucher.signature as Hex,
+  });
+  if (!isValidVoucher) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_channel_voucher_signature",
+      payer,
+    };
+  }
+
+  return {
+    isValid: true,
+    invalidReason: undefined,
+    payer,
+  };
+}
+
+/**
+ * Waits for a transaction of the channel contract and reports its outcome
+ *
+ * @param wallet - The facilitator wallet that submitted the transaction
+ * @param tx - The hash of the transaction
+ * @param paymentPayload - The payment the transaction is for
+ * @param payer - The payer of the channel
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+async function waitForChannelTransaction<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  tx: Hex,
+  paymentPayload: PaymentPayload,
+  payer: string,
+): Promise<SettleResponse> {
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: tx,
+      network: paymentPayload.network,
+      payer,
+    };
+  }
+
+  return {
+    success: true,
+    transaction: tx,
+    network: paymentPayload.network,
+    payer,
+    blockNumber: receipt.blockNumber.toString(),
+  };
+}
@@ -0,0 +1,33 @@
+import { Chain, Transport } from "viem";
+import { SupportedEVMNetworks } from "../../../types/shared";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { ChannelEvmPayload, ChannelEvmPayloadSchema } from "../../../types/verify";
+import { getEvmSigner } from "../../exact/evm/scheme";
+import type { SchemeImplementation } from "../../registry";
+import { createPaymentHeader } from "./client";
+import { close, getVoucher, settle, verify, verifyVoucher } from "./facilitator";
+
+/**
+ * The `channel` scheme on EVM networks, paying through channels funded once with an EIP-3009
+ * authorization and paid with off-chain vouchers
+ */
+export const channelEvmScheme: SchemeImplementation = {
+  scheme: "channel",
+  networks: SupportedEVMNetworks,
+  payloadSchema: ChannelEvmPayloadSchema,
+  createPaymentHeader: (client, x402Version, paymentRequirements) =>
+    createPaymentHeader(getEvmSigner(client), x402Version, paymentRequirements),
+  verify: (client, payload, paymentRequirements) =>
+    verify(client as ConnectedClient<Transport, Chain>, payload, paymentRequirements),
+  settle: (client, payload, paymentRequirements) =>
+    settle(client as SignerWallet<Chain, Transport>, payload, paymentRequirements),
+  getVoucher,
+  verifyVoucher,
+  closeChannel: (client, payload, paymentRequirements, _config, settlementAmount) =>
+    close(client as SignerWallet<Chain, Transport>, payload, paymentRequirements, settlementAmount),
+  // each cumulative amount of a channel is paid once
+  getPaymentId: payment => {
+    const { channelId, amount } = (payment.payload as ChannelEvmPayload).voucher;
+    return `channel:${payment.network}:${channelId.toLowerCase()}:${amount}`;
+  },
+};
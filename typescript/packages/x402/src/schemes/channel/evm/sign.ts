@@ -0,0 +1,131 @@
+import {
+  Address,
+  Chain,
+  encodeAbiParameters,
+  getAddress,
+  Hex,
+  keccak256,
+  LocalAccount,
+  Transport,
+} from "viem";
+import { getNetworkId } from "../../../shared";
+import {
+  ChannelTerms,
+  isAccount,
+  isSignerWallet,
+  SignerWallet,
+  voucherTypes,
+} from "../../../types/shared/evm";
+import { PaymentRequirements } from "../../../types/verify";
+
+/**
+ * Reads the channel terms of a payment from its payment requirements
+ *
+ * @param paymentRequirements - The payment requirements, with the channel contract, the operator and the timeout in `extra`
+ * @param salt - The random value of the channel
+ * @returns The channel terms
+ * @throws Error if the payment requirements do not provide a channel contract, an operator and a timeout
+ */
+export function getChannelTerms(paymentRequirements: PaymentRequirements, salt: Hex): ChannelTerms {
+  const { channel, operator, channelTimeout } = paymentRequirements.extra ?? {};
+  if (!channel || !operator || channelTimeout === undefined) {
+    throw new Error(
+      "The payment requirements do not provide a channel contract, operator and timeout for the channel scheme",
+    );
+  }
+  return {
+    payTo: getAddress(paymentRequirements.payTo),
+    operator: getAddress(operator),
+    timeout: BigInt(channelTimeout),
+    salt,
+  };
+}
+
+/**
+ * Computes the nonce of an authorization opening a channel with the given terms, as `hashTerms`
+ * of the channel contract does
+ *
+ * @param terms - The channel terms
+ * @returns The nonce of the authorization
+ */
+export function getChannelNonce(terms: ChannelTerms): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "address" }, { type: "uint256" }, { type: "bytes32" }],
+      [terms.payTo, terms.operator, terms.timeout, terms.salt],
+    ),
+  );
+}
+
+/**
+ * Computes the id of the channel opened with an authorization, as `getChannelId` of the channel
+ * contract does
+ *
+ * @param token - The address of the token
+ * @param payer - The address of the payer
+ * @param nonce - The nonce of the authorization
+ * @returns The id of the channel
+ */
+export function getChannelId(token: Address, payer: Address, nonce: Hex): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "address" }, { type: "bytes32" }],
+      [getAddress(token), getAddress(payer), nonce],
+    ),
+  );
+}
+
+/**
+ * Builds the typed data of a voucher, signed with the EIP-712 domain of the channel contract
+ *
+ * @param channelId - The id of the channel
+ * @param amount - The cumulative amount paid through the channel, in atomic units of the asset
+ * @param paymentRequirements - The payment requirements, with the channel contract in `extra`
+ * @returns The typed data to sign or verify
+ */
+export function getVoucherTypedData(
+  channelId: string,
+  amount: string,
+  paymentRequirements: PaymentRequirements,
+) {
+  return {
+    types: voucherTypes,
+    domain: {
+      name: "X402Channel",
+      version: "1",
+      chainId: getNetworkId(paymentRequirements.network),
+      verifyingContract: getAddress(paymentRequirements.extra?.channel),
+    },
+    primaryType: "Voucher" as const,
+    message: {
+      channelId: channelId as Hex,
+      amount: BigInt(amount),
+    },
+  };
+}
+
+/**
+ * Signs a voucher paying the cumulative `amount` through a channel
+ *
+ * @param walletClient - The wallet client of the payer
+ * @param channelId - The id of the channel
+ * @param amount - The cumulative amount paid through the channel, in atomic units of the asset
+ * @param paymentRequirements - The payment requirements, with the channel contract in `extra`
+ * @returns The signature of the voucher
+ */
+export async function signVoucher<transport extends Transport, chain extends Chain>(
+  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  channelId: string,
+  amount: string,
+  paymentRequirements: PaymentRequirements,
+): Promise<Hex> {
+  const data = getVoucherTypedData(channelId, amount, paymentRequirements);
+
+  if (isSignerWallet(walletClient)) {
+    return walletClient.signTypedData(data);
+  } else if (isAccount(walletClient) && walletClient.signTypedData) {
+    return walletClient.signTypedData(data);
+  } else {
+    throw new Error("Invalid wallet client provided does not support signTypedData");
+  }
+}
@@ -0,0 +1,3 @@
+export * as svm from "./svm";
+
+export const SCHEME = "confidential";
@@ -0,0 +1,382 @@
+import {
+  Address,
+  appendTransactionMessageInstructions,
+  createTransactionMessage,
+  generateKeyPairSigner,
+  getBase64Decoder,
+  getBase64EncodedWireTransaction,
+  Instruction,
+  KeyPairSigner,
+  partiallySignTransactionMessageWithSigners,
+  pipe,
+  prependTransactionMessageInstruction,
+  RpcDevnet,
+  RpcMainnet,
+  setTransactionMessageFeePayer,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+  SolanaRpcApiDevnet,
+  SolanaRpcApiMainnet,
+  TransactionSigner,
+} from "@solana/kit";
+import {
+  estimateComputeUnitLimitFactory,
+  getSetComputeUnitLimitInstruction,
+  setTransactionMessageComputeUnitPrice,
+} from "@solana-program/compute-budget";
+import { getCreateAccountInstruction } from "@solana-program/system";
+import {
+  fetchMint,
+  fetchToken,
+  findAssociatedTokenPda,
+  getConfidentialTransferInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { getRequestBindingHash } from "../../../shared/requestBinding";
+import {
+  ConfidentialTransferProofs,
+  createConfidentialTransferProofs,
+  getCloseContextStateInstruction,
+  getCloseRecordInstruction,
+  getConfidentialTransferAccount,
+  getConfidentialTransferAuditor,
+  getInitializeRecordInstruction,
+  getProofContextStateSize,
+  getVerifyProofFromRecordInstruction,
+  getVerifyProofInstruction,
+  getWriteRecordInstruction,
+  ProofType,
+  RECORD_HEADER_SIZE,
+  RECORD_PROGRAM_ADDRESS,
+  removeOmittedAccounts,
+  ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+} from "../../../shared/svm/confidential";
+import { getMemoInstruction } from "../../../shared/svm/memo";
+import { getRpcClient, getRpcSubscriptions } from "../../../shared/svm/rpc";
+import { X402Config } from "../../../types/config";
+import { BoundRequest } from "../../../types/shared/requestBinding";
+import { ConfidentialSvmPayload, PaymentPayload, PaymentRequirements } from "../../../types/verify";
+import { sendAndConfirmSignedTransaction } from "../../exact/svm/facilitator/settle";
+import { encodePayment } from "../../utils";
+
+// the proof verifications of the setup transactions use more than the default compute budget
+const SETUP_COMPUTE_UNIT_LIMIT = 200_000;
+// the range proof is written to a record account in two transactions, the first taking this many bytes
+const RANGE_PROOF_FIRST_WRITE_SIZE = 800;
+
+/**
+ * The accounts holding the verified proofs of a confidential transfer
+ */
+type ProofContextStates = {
+  equality: Address;
+  validity: Address;
+  range: Address;
+};
+
+/**
+ * Creates and encodes a confidential payment header for the given client and payment requirements.
+ *
+ * @param client - The signer owning the token account paying
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements, with the fee payer and ElGamal public key of the facilitator in `extra`
+ * @param config - The confidential transfer keys of the token account and an optional RPC URL
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
+ * @returns A promise that resolves to a base64 encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: TransactionSigner,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+  request?: BoundRequest,
+): Promise<string> {
+  const paymentPayload = await createAndSignPayment(
+    client,
+    x402Version,
+    paymentRequirements,
+    config,
+    request,
+  );
+  return encodePayment(paymentPayload);
+}
+
+/**
+ * Creates and signs a confidential payment for the given client and payment requirements.
+ *
+ * The proofs of the transfer are too large for a single transaction, so they are verified
+ * beforehand by setup transactions the client pays for, which store them in context state
+ * accounts. The payment transaction, paid for by the facilitator, transfers the encrypted amount
+ * and closes these accounts, refunding their rent to the client. A payment that is never settled
+ * leaves them open.
+ *
+ * @param client - The signer owning the token account paying
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements, with the fee payer and ElGamal public key of the facilitator in `extra`
+ * @param config - The confidential transfer keys of the token account and an optional RPC URL
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
+ * @returns A promise that resolves to the payment payload, the partially signed transaction and the proof disclosing its amount
+ * @throws Error if the keys or the facilitator information are missing, or a token account is not configured for confidential transfers
+ */
+export async function createAndSignPayment(
+  client: TransactionSigner,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+  request?: BoundRequest,
+): Promise<PaymentPayload> {
+  const keys = config?.svmConfig?.confidentialTransfer;
+  if (!keys) {
+    throw new Error("svmConfig.confidentialTransfer is required to pay confidentially");
+  }
+  const feePayer = paymentRequirements.extra?.feePayer as Address | undefined;
+  const facilitatorPubkey = paymentRequirements.extra?.elgamalPubkey as string | undefined;
+  if (!feePayer || !facilitatorPubkey) {
+    throw new Error(
+      "feePayer and elgamalPubkey are required in paymentRequirements.extra to pay confidentially",
+    );
+  }
+
+  const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
+  const rpcSubscriptions = getRpcSubscriptions(
+    paymentRequirements.network,
+    config?.svmConfig?.wsUrl ?? config?.svmConfig?.rpcUrl,
+  );
+  const mint = paymentRequirements.asset as Address;
+  const [sourceToken] = await findAssociatedTokenPda({
+    mint,
+    owner: client.address,
+    tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+  });
+  const [destinationToken] = await findAssociatedTokenPda({
+    mint,
+    owner: paymentRequirements.payTo as Address,
+    tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+  });
+  const [mintAccount, source, destination] = await Promise.all([
+    fetchMint(rpc, mint),
+    fetchToken(rpc, sourceToken),
+    fetchToken(rpc, destinationToken),
+  ]);
+  const sourceAccount = getConfidentialTransferAccount(source.data);
+  const destinationAccount = getConfidentialTransferAccount(destination.data);
+  if (!sourceAccount || !destinationAccount) {
+    throw new Error("The token accounts of the payer and payee must accept confidential transfers");
+  }
+
+  const proofs = createConfidentialTransferProofs(
+    BigInt(paymentRequirements.maxAmountRequired),
+    sourceAccount,
+    keys,
+    destinationAccount.elgamalPubkey,
+    getConfidentialTransferAuditor(mintAccount.data),
+    facilitatorPubkey,
+  );
+  const contextStates = await createProofContextStates(client, proofs, rpc, rpcSubscriptions);
+
+  const instructions: Instruction[] = [
+    removeOmittedAccounts(
+      getConfidentialTransferInstruction({
+        sourceToken,
+        mint,
+        destinationToken,
+        equalityRecord: contextStates.equality,
+        ciphertextValidityRecord: contextStates.validity,
+        rangeRecord: contextStates.range,
+        authority: client,
+        newSourceDecryptableAvailableBalance: proofs.newDecryptableAvailableBalance,
+        // the proofs are read from the context state accounts
+        equalityProofInstructionOffset: 0,
+        ciphertextValidityProofInstructionOffset: 0,
+        rangeProofInstructionOffset: 0,
+      }),
+    ),
+    ...[contextStates.equality, contextStates.validity, contextStates.range].map(contextState =>
+      getCloseContextStateInstruction(contextState, client.address, client),
+    ),
+  ];
+
+  // a trailing memo holding the hash of the request binds the payment to it
+  const requestHash = getRequestBindingHash(paymentRequirements, request);
+  if (requestHash) {
+    instructions.push(getMemoInstruction(requestHash));
+  }
+
+  const txToSimulate = pipe(
+    createTransactionMessage({ version: 0 }),
+    tx => setTransactionMessageComputeUnitPrice(1, tx), // 1 microlamport priority fee
+    tx => setTransactionMessageFeePayer(feePayer, tx),
+    tx => appendTransactionMessageInstructions(instructions, tx),
+  );
+  const estimatedUnits = await estimateComputeUnitLimitFactory({ rpc })(txToSimulate);
+  const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+  const transactionMessage = pipe(
+    txToSimulate,
+    tx =>
+      prependTransactionMessageInstruction(
+        getSetComputeUnitLimitInstruction({ units: estimatedUnits }),
+        tx,
+      ),
+    tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+  );
+  const signedTransaction = await partiallySignTransactionMessageWithSigners(transactionMessage);
+
+  const payload: ConfidentialSvmPayload = {
+    transaction: getBase64EncodedWireTransaction(signedTransaction),
+    amountProof: getBase64Decoder().decode(proofs.amountProof),
+  };
+  return {
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    x402Version,
+    payload,
+  };
+}
+
+/**
+ * Verifies the proofs of a confidential transfer into context state accounts owned by the client
+ *
+ * The range proof does not fit in a transaction, so it is written to a record account first and
+ * verified from there.
+ *
+ * @param client - The signer paying for the setup transactions and owning the context states
+ * @param proofs - The proofs of the confidential transfer
+ * @param rpc - The RPC client of the network
+ * @param rpcSubscriptions - The RPC subscriptions of the network
+ * @returns The addresses of the context state accounts
+ */
+async function createProofContextStates(
+  client: TransactionSigner,
+  proofs: ConfidentialTransferProofs,
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  rpcSubscriptions: ReturnType<typeof getRpcSubscriptions>,
+): Promise<ProofContextStates> {
+  const [equality, validity, range, record] = await Promise.all(
+    Array.from({ length: 4 }, () => generateKeyPairSigner()),
+  );
+
+  /**
+   * Creates an instruction allocating a rent-exempt account
+   *
+   * @param account - The account to allocate
+   * @param space - The size of the account
+   * @param programAddress - The program owning the account
+   * @returns The instruction of the system program
+   */
+  async function createAccount(account: KeyPairSigner, space: number, programAddress: Address) {
+    const lamports = await rpc.getMinimumBalanceForRentExemption(BigInt(space)).send();
+    return getCreateAccountInstruction({
+      payer: client,
+      newAccount: account,
+      lamports,
+      space,
+      programAddress,
+    });
+  }
+
+  /**
+   * Verifies an inline proof into a context state account
+   *
+   * @param account - The context state account
+   * @param proofType - The type of the proof
+   * @param proofData - The proof and its context
+   * @returns The instructions creating the account and verifying the proof
+   */
+  async function verifyProof(account: KeyPairSigner, proofType: ProofType, proofData: Uint8Array) {
+    return [
+      await createAccount(
+        account,
+        getProofContextStateSize(proofType),
+        ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+      ),
+      getVerifyProofInstruction(proofType, proofData, {
+        account: account.address,
+        authority: client.address,
+      }),
+    ];
+  }
+
+  const { rangeProof } = proofs;
+  await Promise.all(
+    [
+      await verifyProof(equality, ProofType.CiphertextCommitmentEquality, proofs.equalityProof),
+      await verifyProof(
+        validity,
+        ProofType.BatchedGroupedCiphertext3HandlesValidity,
+        proofs.validityProof,
+      ),
+      [
+        await createAccount(record, RECORD_HEADER_SIZE + rangeProof.length, RECORD_PROGRAM_ADDRESS),
+        getInitializeRecordInstruction(record.address, client.address),
+        getWriteRecordInstruction(
+          record.address,
+          client,
+          0,
+          rangeProof.slice(0, RANGE_PROOF_FIRST_WRITE_SIZE),
+        ),
+      ],
+    ].map(instructions => sendSetupTransaction(client, instructions, rpc, rpcSubscriptions)),
+  );
+  await sendSetupTransaction(
+    client,
+    [
+      getWriteRecordInstruction(
+        record.address,
+        client,
+        RANGE_PROOF_FIRST_WRITE_SIZE,
+        rangeProof.slice(RANGE_PROOF_FIRST_WRITE_SIZE),
+      ),
+      await createAccount(
+        range,
+        getProofContextStateSize(ProofType.BatchedRangeProofU128),
+        ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+      ),
+      getVerifyProofFromRecordInstruction(ProofType.BatchedRangeProofU128, record.address, {
+        account: range.address,
+        authority: client.address,
+      }),
+      getCloseRecordInstruction(record.address, client, client.address),
+    ],
+    rpc,
+    rpcSubscriptions,
+  );
+
+  return { equality: equality.address, validity: validity.address, range: range.address };
+}
+
+/**
+ * Sends a transaction paid for and signed by the client, and waits for its confirmation
+ *
+ * @param client - The signer paying for the transaction
+ * @param instructions - The instructions of the transaction
+ * @param rpc - The RPC client of the network
+ * @param rpcSubscriptions - The RPC subscriptions of the network
+ * @throws Error if the transaction fails
+ */
+async function sendSetupTransaction(
+  client: TransactionSigner,
+  instructions: Instruction[],
+  rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
+  rpcSubscriptions: ReturnType<typeof getRpcSubscriptions>,
+): Promise<void> {
+  const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+  const transactionMessage = pipe(
+    createTransactionMessage({ version: 0 }),
+    tx => setTransactionMessageFeePayerSigner(client, tx),
+    tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+    tx =>
+      appendTransactionMessageInstructions(
+        [getSetComputeUnitLimitInstruction({ units: SETUP_COMPUTE_UNIT_LIMIT }), ...instructions],
+        tx,
+      ),
+  );
+  const signedTransaction = await signTransactionMessageWithSigners(transactionMessage);
+  const { success, errorReason } = await sendAndConfirmSignedTransaction(
+    signedTransaction,
+    rpc,
+    rpcSubscriptions,
+  );
+  if (!success) {
+    throw new Error(`Failed to verify the proofs of the confidential transfer: ${errorReason}`);
+  }
+}
@@ -0,0 +1,222 @@
+import {
+  airdropFactory,
+  appendTransactionMessageInstructions,
+  createSolanaRpcSubscriptions,
+  createTransactionMessage,
+  devnet,
+  generateKeyPairSigner,
+  Instruction,
+  KeyPairSigner,
+  lamports,
+  pipe,
+  sendAndConfirmTransactionFactory,
+  setTransactionMessageFeePayerSigner,
+  setTransactionMessageLifetimeUsingBlockhash,
+  signTransactionMessageWithSigners,
+} from "@solana/kit";
+import { getCreateAccountInstruction } from "@solana-program/system";
+import {
+  extension,
+  fetchToken,
+  findAssociatedTokenPda,
+  getConfidentialDepositInstruction,
+  getInitializeMint2Instruction,
+  getMintSize,
+  getMintToInstruction,
+  getPreInitializeInstructionsForMintExtensions,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  decryptConfidentialBalance,
+  generateConfidentialTransferKeys,
+  getApplyPendingConfidentialBalanceInstruction,
+  getConfidentialTransferAccount,
+  getConfigureConfidentialTransferAccountInstructions,
+  getElGamalPublicKey,
+} from "../../../shared/svm/confidential";
+import { createDevnetRpcClient } from "../../../shared/svm/rpc";
+import { PaymentRequirements } from "../../../types/verify";
+import { createAndSignPayment } from "./client";
+import { settle, verify } from "./facilitator";
+
+// run with a local solana-test-validator cloning the SPL record program, see the README
+const rpcUrl = process.env.SOLANA_VALIDATOR_RPC_URL;
+const wsUrl = process.env.SOLANA_VALIDATOR_WS_URL ?? "ws://127.0.0.1:8900";
+
+describe.skipIf(!rpcUrl)("confidential on solana-test-validator", () => {
+  const rpc = createDevnetRpcClient(rpcUrl);
+  const rpcSubscriptions = createSolanaRpcSubscriptions(devnet(wsUrl));
+  const payerKeys = generateConfidentialTransferKeys();
+  const payToKeys = generateConfidentialTransferKeys();
+  const facilitatorKeys = { elgamalSecretKey: generateConfidentialTransferKeys().elgamalSecretKey };
+  const facilitatorConfig = {
+    svmConfig: { rpcUrl, wsUrl, confidentialTransfer: facilitatorKeys },
+  };
+
+  let facilitator: KeyPairSigner;
+  let payer: KeyPairSigner;
+  let payTo: KeyPairSigner;
+  let mint: KeyPairSigner;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Sends a transaction paid for by the facilitator
+   *
+   * @param instructions - The instructions of the transaction
+   */
+  async function send(instructions: Instruction[]): Promise<void> {
+    const { value: latestBlockhash } = await rpc.getLatestBlockhash().send();
+    const transactionMessage = pipe(
+      createTransactionMessage({ version: 0 }),
+      tx => setTransactionMessageFeePayerSigner(facilitator, tx),
+      tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+      tx => appendTransactionMessageInstructions(instructions, tx),
+    );
+    const signedTransaction = await signTransactionMessageWithSigners(transactionMessage);
+    await sendAndConfirmTransactionFactory({ rpc, rpcSubscriptions })(signedTransaction, {
+      commitment: "confirmed",
+    });
+  }
+
+  beforeAll(async () => {
+    [facilitator, payer, payTo, mint] = await Promise.all(
+      Array.from({ length: 4 }, () => generateKeyPairSigner()),
+    );
+    const airdrop = airdropFactory({ rpc, rpcSubscriptions });
+    await Promise.all(
+      [facilitator, payer].map(signer =>
+        airdrop({
+          recipientAddress: signer.address,
+          lamports: lamports(10_000_000_000n),
+          commitment: "confirmed",
+        }),
+      ),
+    );
+
+    // a mint supporting confidential transfers without an auditor
+    const confidentialTransferMint = extension("ConfidentialTransferMint", {
+      authority: null,
+      autoApproveNewAccounts: true,
+      auditorElgamalPubkey: null,
+    });
+    const space = getMintSize([confidentialTransferMint]);
+    await send([
+      getCreateAccountInstruction({
+        payer: facilitator,
+        newAccount: mint,
+        lamports: await rpc.getMinimumBalanceForRentExemption(BigInt(space)).send(),
+        space,
+        programAddress: TOKEN_2022_PROGRAM_ADDRESS,
+      }),
+      ...getPreInitializeInstructionsForMintExtensions(mint.address, [confidentialTransferMint]),
+      getInitializeMint2Instruction({
+        mint: mint.address,
+        decimals: 6,
+        mintAuthority: facilitator.address,
+      }),
+    ]);
+
+    // the payer and the payee configure their token accounts for confidential transfers
+    await send(
+      await getConfigureConfidentialTransferAccountInstructions(
+        facilitator,
+        payer,
+        mint.address,
+        payerKeys,
+      ),
+    );
+    await send(
+      await getConfigureConfidentialTransferAccountInstructions(
+        facilitator,
+        payTo,
+        mint.address,
+        payToKeys,
+      ),
+    );
+
+    // the payer deposits a public balance into its confidential balance
+    const [payerToken] = await findAssociatedTokenPda({
+      mint: mint.address,
+      owner: payer.address,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    });
+    await send([
+      getMintToInstruction({
+        mint: mint.address,
+        token: payerToken,
+        mintAuthority: facilitator,
+        amount: 1_000_000n,
+      }),
+      getConfidentialDepositInstruction({
+        token: payerToken,
+        mint: mint.address,
+        authority: payer,
+        amount: 1_000_000n,
+        decimals: 6,
+      }),
+    ]);
+    const { data } = await fetchToken(rpc, payerToken);
+    await send([
+      getApplyPendingConfidentialBalanceInstruction(
+        payerToken,
+        getConfidentialTransferAccount(data)!,
+        payer,
+        payerKeys,
+      ),
+    ]);
+
+    paymentRequirements = {
+      scheme: "confidential",
+      network: "solana-devnet",
+      payTo: payTo.address,
+      maxAmountRequired: "250000",
+      resource: "https://example.com/weather",
+      description: "",
+      mimeType: "",
+      maxTimeoutSeconds: 60,
+      asset: mint.address,
+      extra: {
+        feePayer: facilitator.address,
+        elgamalPubkey: getElGamalPublicKey(facilitatorKeys.elgamalSecretKey),
+      },
+    };
+  });
+
+  it("settles a confidential payment the payee decrypts", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements, {
+      svmConfig: { rpcUrl, wsUrl, confidentialTransfer: payerKeys },
+    });
+
+    await expect(
+      verify(
+        facilitator,
+        payment,
+        { ...paymentRequirements, maxAmountRequired: "250001" },
+        facilitatorConfig,
+      ),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        isValid: false,
+        invalidReason: "invalid_confidential_svm_payload_amount_mismatch",
+      }),
+    );
+    await expect(
+      verify(facilitator, payment, paymentRequirements, facilitatorConfig),
+    ).resolves.toEqual({ isValid: true, invalidReason: undefined, payer: payer.address });
+
+    const response = await settle(facilitator, payment, paymentRequirements, facilitatorConfig);
+    expect(response).toEqual(expect.objectContaining({ success: true, payer: payer.address }));
+
+    const [payToToken] = await findAssociatedTokenPda({
+      mint: mint.address,
+      owner: payTo.address,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    });
+    const { data } = await fetchToken(rpc, payToToken, { commitment: "confirmed" });
+    expect(decryptConfidentialBalance(getConfidentialTransferAccount(data)!, payToKeys)).toEqual({
+      pending: 250_000n,
+      available: 0n,
+    });
+  });
+});
@@ -0,0 +1,344 @@
+import {
+  Address,
+  appendTransactionMessageInstructions,
+  Blockhash,
+  compileTransaction,
+  createTransactionMessage,
+  fetchEncodedAccounts,
+  generateKeyPairSigner,
+  getAddressDecoder,
+  getAddressEncoder,
+  getBase64Decoder,
+  getBase64EncodedWireTransaction,
+  getBase64Encoder,
+  Instruction,
+  KeyPairSigner,
+  pipe,
+  setTransactionMessageFeePayer,
+  setTransactionMessageLifetimeUsingBlockhash,
+} from "@solana/kit";
+import { AeKey, BatchedGroupedCiphertext3HandlesValidityProofData } from "@solana/zk-sdk/node";
+import {
+  getSetComputeUnitLimitInstruction,
+  getSetComputeUnitPriceInstruction,
+} from "@solana-program/compute-budget";
+import {
+  findAssociatedTokenPda,
+  getConfidentialTransferInstruction,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import * as SvmShared from "../../../shared/svm";
+import {
+  ConfidentialTransferAccount,
+  ConfidentialTransferProofs,
+  createConfidentialTransferProofs,
+  generateConfidentialTransferKeys,
+  getCloseContextStateInstruction,
+  getElGamalKeypair,
+  getElGamalPublicKey,
+  ProofType,
+  removeOmittedAccounts,
+  ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+} from "../../../shared/svm/confidential";
+import { getMemoInstruction } from "../../../shared/svm/memo";
+import { PaymentPayload, PaymentRequirements } from "../../../types/verify";
+import { verify, verifyAmountProof } from "./facilitator";
+
+vi.mock("@solana/kit", async () => {
+  const actual = await vi.importActual("@solana/kit");
+  return {
+    ...actual,
+    fetchEncodedAccounts: vi.fn(),
+  };
+});
+
+vi.mock("../../../shared/svm", async () => {
+  const actual = await vi.importActual("../../../shared/svm");
+  return {
+    ...actual,
+    signAndSimulateTransaction: vi.fn(),
+  };
+});
+
+/**
+ * Creates the confidential transfer extension of a token account holding an available balance
+ *
+ * @param keys - The keys of the token account
+ * @param keys.elgamalSecretKey - The base64 encoded ElGamal secret key
+ * @param keys.aeKey - The base64 encoded AE key
+ * @param available - The available balance
+ * @returns The extension
+ */
+function createAccount(
+  { elgamalSecretKey, aeKey }: { elgamalSecretKey: string; aeKey: string },
+  available: bigint,
+): ConfidentialTransferAccount {
+  const pubkey = getElGamalKeypair(elgamalSecretKey).pubkey();
+  return {
+    __kind: "ConfidentialTransferAccount",
+    approved: true,
+    elgamalPubkey: getAddressDecoder().decode(pubkey.toBytes()),
+    pendingBalanceLow: pubkey.encryptU64(0n).toBytes(),
+    pendingBalanceHigh: pubkey.encryptU64(0n).toBytes(),
+    availableBalance: pubkey.encryptU64(available).toBytes(),
+    decryptableAvailableBalance: AeKey.fromBytes(new Uint8Array(getBase64Encoder().encode(aeKey)))
+      .encrypt(available)
+      .toBytes(),
+    allowConfidentialCredits: true,
+    allowNonConfidentialCredits: true,
+    pendingBalanceCreditCounter: 0n,
+    maximumPendingBalanceCreditCounter: 65536n,
+    expectedPendingBalanceCreditCounter: 0n,
+    actualPendingBalanceCreditCounter: 0n,
+  };
+}
+
+describe("confidential svm facilitator", () => {
+  const source = generateConfidentialTransferKeys();
+  const destination = generateConfidentialTransferKeys();
+  const facilitator = generateConfidentialTransferKeys();
+  const config = { svmConfig: { confidentialTransfer: facilitator } };
+  const mint = "Gh9ZwEmdLJ8DscKNTkTqPbNwLNNBjuSzaG9Vp2KGtKJr" as Address;
+
+  let feePayer: KeyPairSigner;
+  let payer: KeyPairSigner;
+  let payTo: KeyPairSigner;
+  let contextStates: KeyPairSigner[];
+  let proofs: ConfidentialTransferProofs;
+  let validityContext: Uint8Array;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Creates a confidential payment paying the required amount to the payee
+   *
+   * @param instructions - Replaces the instructions of the transaction
+   * @returns The payment payload
+   */
+  async function createPayment(instructions?: Instruction[]): Promise<PaymentPayload> {
+    const [sourceToken] = await findAssociatedTokenPda({
+      mint,
+      owner: payer.address,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    });
+    const [destinationToken] = await findAssociatedTokenPda({
+      mint,
+      owner: payTo.address,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    });
+    const [equality, validity, range] = contextStates.map(contextState => contextState.address);
+    const message = pipe(
+      createTransactionMessage({ version: 0 }),
+      tx => setTransactionMessageFeePayer(feePayer.address, tx),
+      tx =>
+        setTransactionMessageLifetimeUsingBlockhash(
+          { blockhash: "11111111111111111111111111111111" as Blockhash, lastValidBlockHeight: 0n },
+          tx,
+        ),
+      tx =>
+        appendTransactionMessageInstructions(
+          instructions ?? [
+            getSetComputeUnitLimitInstruction({ units: 100_000 }),
+            getSetComputeUnitPriceInstruction({ microLamports: 1 }),
+            removeOmittedAccounts(
+              getConfidentialTransferInstruction({
+                sourceToken,
+                mint,
+                destinationToken,
+                equalityRecord: equality,
+                ciphertextValidityRecord: validity,
+                rangeRecord: range,
+                authority: payer,
+                newSourceDecryptableAvailableBalance: proofs.newDecryptableAvailableBalance,
+                equalityProofInstructionOffset: 0,
+                ciphertextValidityProofInstructionOffset: 0,
+                rangeProofInstructionOffset: 0,
+              }),
+            ),
+            ...[equality, validity, range].map(contextState =>
+              getCloseContextStateInstruction(contextState, payer.address, payer),
+            ),
+            getMemoInstruction("0x1234"),
+          ],
+          tx,
+        ),
+    );
+    return {
+      x402Version: 1,
+      scheme: "confidential",
+      network: "solana-devnet",
+      payload: {
+        transaction: getBase64EncodedWireTransaction(compileTransaction(message)),
+        amountProof: getBase64Decoder().decode(proofs.amountProof),
+      },
+    };
+  }
+
+  beforeAll(async () => {
+    [feePayer, payer, payTo, ...contextStates] = await Promise.all(
+      Array.from({ length: 6 }, () => generateKeyPairSigner()),
+    );
+    proofs = createConfidentialTransferProofs(
+      70_000n,
+      createAccount(source, 100_000n),
+      source,
+      getAddressDecoder().decode(
+        getElGamalKeypair(destination.elgamalSecretKey).pubkey().toBytes(),
+      ),
+      undefined,
+      getElGamalPublicKey(facilitator.elgamalSecretKey),
+    );
+    validityContext = BatchedGroupedCiphertext3HandlesValidityProofData.fromBytes(
+      proofs.validityProof,
+    )
+      .context()
+      .toBytes();
+    paymentRequirements = {
+      scheme: "confidential",
+      network: "solana-devnet",
+      payTo: payTo.address,
+      maxAmountRequired: "70000",
+      resource: "https://example.com/weather",
+      description: "",
+      mimeType: "",
+      maxTimeoutSeconds: 60,
+      asset: mint,
+      extra: {
+        feePayer: feePayer.address,
+        elgamalPubkey: getElGamalPublicKey(facilitator.elgamalSecretKey),
+      },
+    };
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const data = new Uint8Array(33 + validityContext.length);
+    data.set(getAddressEncoder().encode(payer.address));
+    data[32] = ProofType.BatchedGroupedCiphertext3HandlesValidity;
+    data.set(validityContext, 33);
+    vi.mocked(fetchEncodedAccounts).mockResolvedValue([
+      {
+        exists: true,
+        address: contextStates[1].address,
+        programAddress: ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+        data,
+        executable: false,
+        lamports: 0n,
+        space: BigInt(data.length),
+      },
+    ] as unknown as Awaited<ReturnType<typeof fetchEncodedAccounts>>);
+    vi.mocked(SvmShared.signAndSimulateTransaction).mockResolvedValue({
+      value: { err: null },
+    } as unknown as Awaited<ReturnType<typeof SvmShared.signAndSimulateTransaction>>);
+  });
+
+  it("verifies a confidential transfer disclosing the required amount", async () => {
+    const payment = await createPayment();
+
+    await expect(verify(feePayer, payment, paymentRequirements, config)).resolves.toEqual({
+      isValid: true,
+      invalidReason: undefined,
+      payer: payer.address,
+    });
+  });
+
+  it("rejects payments of another amount", async () => {
+    const payment = await createPayment();
+
+    const response = await verify(
+      feePayer,
+      payment,
+      { ...paymentRequirements, maxAmountRequired: "80000" },
+      config,
+    );
+
+    expect(response.invalidReason).toBe("invalid_confidential_svm_payload_amount_mismatch");
+  });
+
+  it("rejects payments to another token account", async () => {
+    const payment = await createPayment();
+
+    const response = await verify(
+      feePayer,
+      payment,
+      { ...paymentRequirements, payTo: payer.address },
+      config,
+    );
+
+    expect(response.invalidReason).toBe(
+      "invalid_confidential_svm_payload_transaction_transfer_to_incorrect_ata",
+    );
+  });
+
+  it("rejects transactions with other instructions", async () => {
+    const payment = await createPayment([
+      getSetComputeUnitLimitInstruction({ units: 100_000 }),
+      getSetComputeUnitPriceInstruction({ microLamports: 1 }),
+    ]);
+
+    const response = await verify(feePayer, payment, paymentRequirements, config);
+
+    expect(response.invalidReason).toBe(
+      "invalid_confidential_svm_payload_transaction_instructions",
+    );
+  });
+
+  it("rejects transfers whose proofs failed in simulation", async () => {
+    vi.mocked(SvmShared.signAndSimulateTransaction).mockResolvedValue({
+      value: { err: "InvalidAccountData" },
+    } as unknown as Awaited<ReturnType<typeof SvmShared.signAndSimulateTransaction>>);
+    const payment = await createPayment();
+
+    const response = await verify(feePayer, payment, paymentRequirements, config);
+
+    expect(response.invalidReason).toBe(
+      "invalid_confidential_svm_payload_transaction_simulation_failed",
+    );
+  });
+
+  describe("verifyAmountProof", () => {
+    const amountProof = () => getBase64Decoder().decode(proofs.amountProof);
+
+    it("rejects proofs disclosing the amount to another key", () => {
+      expect(() =>
+        verifyAmountProof(amountProof(), validityContext, destination.elgamalSecretKey, 70_000n),
+      ).toThrow(expect.objectContaining({ code: "invalid_confidential_svm_payload_amount_proof" }));
+    });
+
+    it("rejects proofs about the amount of another transfer", () => {
+      const otherContext = BatchedGroupedCiphertext3HandlesValidityProofData.fromBytes(
+        createConfidentialTransferProofs(
+          70_000n,
+          createAccount(source, 100_000n),
+          source,
+          getAddressDecoder().decode(
+            getElGamalKeypair(destination.elgamalSecretKey).pubkey().toBytes(),
+          ),
+          undefined,
+          getElGamalPublicKey(facilitator.elgamalSecretKey),
+        ).validityProof,
+      )
+        .context()
+        .toBytes();
+
+      expect(() =>
+        verifyAmountProof(amountProof(), otherContext, facilitator.elgamalSecretKey, 70_000n),
+      ).toThrow(expect.objectContaining({ code: "invalid_confidential_svm_payload_amount_proof" }));
+    });
+
+    it("rejects invalid proofs", () => {
+      const tampered = new Uint8Array(proofs.amountProof);
+      tampered[tampered.length - 1] ^= 1;
+
+      expect(() =>
+        verifyAmountProof(
+          getBase64Decoder().decode(tampered),
+          validityContext,
+          facilitator.elgamalSecretKey,
+          70_000n,
+        ),
+      ).toThrow(expect.objectContaining({ code: "invalid_confidential_svm_payload_amount_proof" }));
+    });
+  });
+});
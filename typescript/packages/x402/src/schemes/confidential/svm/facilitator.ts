@@ -0,0 +1,402 @@
+import {
+  Address,
+  CompilableTransactionMessage,
+  decompileTransactionMessage,
+  fetchEncodedAccounts,
+  getBase64Encoder,
+  getCompiledTransactionMessageDecoder,
+  getSignatureFromTransaction,
+  Instruction,
+  type TransactionSigner,
+} from "@solana/kit";
+import { CiphertextCiphertextEqualityProofData } from "@solana/zk-sdk/node";
+import {
+  CONFIDENTIAL_TRANSFER_CONFIDENTIAL_TRANSFER_DISCRIMINATOR,
+  CONFIDENTIAL_TRANSFER_DISCRIMINATOR,
+  findAssociatedTokenPda,
+  getConfidentialTransferInstructionDataDecoder,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { bytesToHex } from "viem";
+import {
+  decodeTransactionFromPayload,
+  isMemoInstruction,
+  signAndSimulateTransaction,
+  signTransactionWithSigner,
+} from "../../../shared/svm";
+import {
+  combineCiphertexts,
+  decodeProofContextState,
+  getElGamalKeypair,
+  getGroupedCiphertextHandle,
+  isCiphertextOfAmount,
+  ProofType,
+  ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+} from "../../../shared/svm/confidential";
+import { getRpcClient, getRpcSubscriptions } from "../../../shared/svm/rpc";
+import { X402Config } from "../../../types/config";
+import { InvalidPaymentError, SupportedSVMNetworks, X402Error } from "../../../types/shared";
+import {
+  ConfidentialSvmPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "../../../types/verify";
+import {
+  sendAndConfirmSignedTransaction,
+  verifyComputeLimitInstruction,
+  verifyComputePriceInstruction,
+} from "../../exact/svm/facilitator";
+import { SCHEME } from "..";
+
+/**
+ * The accounts of a confidential transfer reading its proofs from context state accounts
+ */
+type ConfidentialTransferAccounts = {
+  source: Address;
+  mint: Address;
+  destination: Address;
+  equality: Address;
+  validity: Address;
+  range: Address;
+  authority: Address;
+};
+
+/**
+ * Verifies a confidential payment payload against the payment requirements
+ *
+ * The transaction must only set its compute budget, make a confidential transfer of the asset to
+ * the associated token account of `payTo` and close the context state accounts of its proofs,
+ * optionally followed by a memo binding it to a request. As the amount is encrypted, the payload
+ * carries a proof that a ciphertext under the ElGamal key of the facilitator encrypts the same
+ * amount as the transfer, which the facilitator checks against `maxAmountRequired`.
+ *
+ * @param signer - The signer paying the fees, which signs and simulates the transaction
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @param config - The ElGamal key of the facilitator and an optional RPC URL
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify(
+  signer: TransactionSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<VerifyResponse> {
+  let payer: string | undefined;
+  try {
+    verifySchemesAndNetworks(payload, paymentRequirements);
+    const elgamalSecretKey = config?.svmConfig?.confidentialTransfer?.elgamalSecretKey;
+    if (!elgamalSecretKey) {
+      throw new Error("svmConfig.confidentialTransfer is required to verify confidential payments");
+    }
+
+    const svmPayload = payload.payload as ConfidentialSvmPayload;
+    const decodedTransaction = decodeTransactionFromPayload(svmPayload);
+    const transactionMessage: CompilableTransactionMessage = decompileTransactionMessage(
+      getCompiledTransactionMessageDecoder().decode(decodedTransaction.messageBytes),
+    );
+    const transfer = verifyTransactionInstructions(transactionMessage, signer);
+    payer = transfer.authority;
+
+    // verify that the transfer pays the asset to the expected ATA
+    if (transfer.mint !== paymentRequirements.asset) {
+      throw new InvalidPaymentError("invalid_confidential_svm_payload_transaction_incorrect_asset");
+    }
+    const [payToATA] = await findAssociatedTokenPda({
+      mint: paymentRequirements.asset as Address,
+      owner: paymentRequirements.payTo as Address,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    });
+    if (transfer.destination !== payToATA) {
+      throw new InvalidPaymentError(
+        "invalid_confidential_svm_payload_transaction_transfer_to_incorrect_ata",
+      );
+    }
+
+    // verify that the transfer amount is the one disclosed to the facilitator
+    const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
+    const [validityContextState] = await fetchEncodedAccounts(rpc, [transfer.validity]);
+    if (!validityContextState.exists) {
+      throw new InvalidPaymentError("invalid_confidential_svm_payload_proof_context");
+    }
+    const validity = decodeProofContextState(new Uint8Array(validityContextState.data));
+    if (
+      validityContextState.programAddress !== ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS ||
+      validity.proofType !== ProofType.BatchedGroupedCiphertext3HandlesValidity
+    ) {
+      throw new InvalidPaymentError("invalid_confidential_svm_payload_proof_context");
+    }
+    verifyAmountProof(
+      svmPayload.amountProof,
+      validity.context,
+      elgamalSecretKey,
+      BigInt(paymentRequirements.maxAmountRequired),
+    );
+
+    // simulate the transaction, in which the Token-2022 program checks the proofs of the transfer
+    const simulateResult = await signAndSimulateTransaction(signer, decodedTransaction, rpc);
+    if (simulateResult.value?.err) {
+      throw new InvalidPaymentError(
+        "invalid_confidential_svm_payload_transaction_simulation_failed",
+      );
+    }
+
+    return {
+      isValid: true,
+      invalidReason: undefined,
+      payer,
+    };
+  } catch (error) {
+    // if the payment was rejected, return the reason it was rejected for
+    if (error instanceof X402Error) {
+      return {
+        isValid: false,
+        invalidReason: error.code,
+        payer,
+      };
+    }
+
+    // if the payment was not rejected for a known reason, return an unexpected error reason
+    console.error(error);
+    return {
+      isValid: false,
+      invalidReason: "unexpected_verify_error",
+      payer,
+    };
+  }
+}
+
+/**
+ * Settles a confidential payment by signing its transaction as the fee payer and sending it
+ *
+ * @param signer - The signer paying the fees of the transaction
+ * @param payload - The payment payload to settle
+ * @param paymentRequirements - The payment requirements to settle against
+ * @param config - The ElGamal key of the facilitator and an optional RPC URL
+ * @returns A SettleResponse indicating if the payment is settled and any error reason
+ */
+export async function settle(
+  signer: TransactionSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<SettleResponse> {
+  const verifyResponse = await verify(signer, payload, paymentRequirements, config);
+  if (!verifyResponse.isValid) {
+    return {
+      success: false,
+      errorReason: verifyResponse.invalidReason,
+      network: payload.network,
+      transaction: "",
+      payer: verifyResponse.payer,
+    };
+  }
+
+  const decodedTransaction = decodeTransactionFromPayload(
+    payload.payload as ConfidentialSvmPayload,
+  );
+  const signedTransaction = await signTransactionWithSigner(signer, decodedTransaction);
+  const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
+  const rpcSubscriptions = getRpcSubscriptions(
+    paymentRequirements.network,
+    config?.svmConfig?.wsUrl ?? config?.svmConfig?.rpcUrl,
+  );
+
+  try {
+    const { success, errorReason, signature } = await sendAndConfirmSignedTransaction(
+      signedTransaction,
+      rpc,
+      rpcSubscriptions,
+    );
+
+    return {
+      success,
+      errorReason,
+      payer: verifyResponse.payer,
+      transaction: signature,
+      network: payload.network,
+    };
+  } catch (error) {
+    console.error("Unexpected error during transaction settlement:", error);
+    return {
+      success: false,
+      errorReason: "unexpected_settle_error",
+      network: payload.network,
+      transaction: getSignatureFromTransaction(signedTransaction),
+      payer: verifyResponse.payer,
+    };
+  }
+}
+
+/**
+ * Verify that the scheme and network are supported.
+ *
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ */
+export function verifySchemesAndNetworks(
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): void {
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    throw new InvalidPaymentError("unsupported_scheme");
+  }
+
+  if (
+    payload.network !== paymentRequirements.network ||
+    !SupportedSVMNetworks.includes(paymentRequirements.network)
+  ) {
+    throw new InvalidPaymentError("invalid_network");
+  }
+}
+
+/**
+ * Verify that the transaction only contains the compute budget, the confidential transfer and the
+ * instructions closing the context states of its proofs, in the order clients create them.
+ *
+ * @param transactionMessage - The transaction message to verify
+ * @param signer - The signer paying the fees of the transaction
+ * @returns The accounts of the confidential transfer
+ * @throws InvalidPaymentError if the transaction does not contain the expected instructions
+ */
+export function verifyTransactionInstructions(
+  transactionMessage: CompilableTransactionMessage,
+  signer: TransactionSigner,
+): ConfidentialTransferAccounts {
+  // a trailing memo may bind the payment to a request, which the resource server checks
+  const lastInstruction =
+    transactionMessage.instructions[transactionMessage.instructions.length - 1];
+  const instructions =
+    lastInstruction && isMemoInstruction(lastInstruction)
+      ? transactionMessage.instructions.slice(0, -1)
+      : transactionMessage.instructions;
+  if (instructions.length !== 6) {
+    throw new InvalidPaymentError("invalid_confidential_svm_payload_transaction_instructions");
+  }
+
+  verifyComputeLimitInstruction(instructions[0]);
+  verifyComputePriceInstruction(instructions[1]);
+
+  // verify that the fee payer is not included in any instruction's accounts
+  instructions.forEach(instruction => {
+    if (instruction.accounts?.some(account => account.address === signer.address)) {
+      throw new InvalidPaymentError(
+        "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+      );
+    }
+  });
+
+  const transfer = getConfidentialTransferAccounts(instructions[2]);
+  [transfer.equality, transfer.validity, transfer.range].forEach((contextState, i) => {
+    const instruction = instructions[3 + i];
+    if (
+      instruction.programAddress !== ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS ||
+      instruction.data?.length !== 1 ||
+      instruction.data[0] !== 0 || // discriminator of close context state instruction
+      instruction.accounts?.length !== 3 ||
+      instruction.accounts[0].address !== contextState ||
+      instruction.accounts[2].address !== transfer.authority
+    ) {
+      throw new InvalidPaymentError("invalid_confidential_svm_payload_transaction_instructions");
+    }
+  });
+
+  return transfer;
+}
+
+/**
+ * Gets the accounts of a confidential transfer instruction, which must read its proofs from
+ * context state accounts
+ *
+ * @param instruction - The instruction to get the accounts of
+ * @returns The accounts of the confidential transfer
+ * @throws InvalidPaymentError if the instruction is not such a confidential transfer
+ */
+export function getConfidentialTransferAccounts(
+  instruction: Instruction,
+): ConfidentialTransferAccounts {
+  const { programAddress, accounts, data } = instruction;
+  if (
+    programAddress !== TOKEN_2022_PROGRAM_ADDRESS ||
+    data?.[0] !== CONFIDENTIAL_TRANSFER_DISCRIMINATOR ||
+    data[1] !== CONFIDENTIAL_TRANSFER_CONFIDENTIAL_TRANSFER_DISCRIMINATOR ||
+    // without the instructions sysvar, which is only passed with proofs in the same transaction
+    accounts?.length !== 7
+  ) {
+    throw new InvalidPaymentError("invalid_confidential_svm_payload_transaction_instructions");
+  }
+
+  let offsets: number[];
+  try {
+    const transferData = getConfidentialTransferInstructionDataDecoder().decode(data);
+    offsets = [
+      transferData.equalityProofInstructionOffset,
+      transferData.ciphertextValidityProofInstructionOffset,
+      transferData.rangeProofInstructionOffset,
+    ];
+  } catch (error) {
+    console.error(error);
+    throw new InvalidPaymentError("invalid_confidential_svm_payload_transaction_instructions");
+  }
+  if (offsets.some(offset => offset !== 0)) {
+    throw new InvalidPaymentError("invalid_confidential_svm_payload_transaction_instructions");
+  }
+
+  const [source, mint, destination, equality, validity, range, authority] = accounts.map(
+    account => account.address,
+  );
+  return { source, mint, destination, equality, validity, range, authority };
+}
+
+/**
+ * Verify that the amount proof discloses the amount of a confidential transfer to the facilitator
+ *
+ * The Token-2022 program checks that the source public key and the ciphertexts of the validity
+ * proof are those of the transfer, so a valid proof that a ciphertext under the key of the
+ * facilitator encrypts the same amount as the combined source ciphertexts discloses the amount
+ * transferred.
+ *
+ * @param amountProof - The base64 encoded ciphertext-ciphertext equality proof
+ * @param validityContext - The context of the ciphertext validity proof of the transfer
+ * @param elgamalSecretKey - The base64 encoded ElGamal secret key of the facilitator
+ * @param amount - The required amount
+ * @throws InvalidPaymentError if the proof is invalid or discloses another amount
+ */
+export function verifyAmountProof(
+  amountProof: string,
+  validityContext: Uint8Array,
+  elgamalSecretKey: string,
+  amount: bigint,
+): void {
+  let context: Uint8Array;
+  try {
+    const proof = CiphertextCiphertextEqualityProofData.fromBytes(
+      new Uint8Array(getBase64Encoder().encode(amountProof)),
+    );
+    proof.verify();
+    context = proof.context().toBytes();
+  } catch (error) {
+    console.error(error);
+    throw new InvalidPaymentError("invalid_confidential_svm_payload_amount_proof");
+  }
+
+  // the first ciphertext must be the transfer amount encrypted for the source
+  const sourceCiphertext = combineCiphertexts(
+    getGroupedCiphertextHandle(validityContext.slice(96, 224), 0),
+    getGroupedCiphertextHandle(validityContext.slice(224, 352), 0),
+  );
+  const facilitatorPubkey = getElGamalKeypair(elgamalSecretKey).pubkey().toBytes();
+  if (
+    bytesToHex(context.slice(0, 32)) !== bytesToHex(validityContext.slice(0, 32)) ||
+    bytesToHex(context.slice(32, 64)) !== bytesToHex(facilitatorPubkey) ||
+    bytesToHex(context.slice(64, 128)) !== bytesToHex(sourceCiphertext)
+  ) {
+    throw new InvalidPaymentError("invalid_confidential_svm_payload_amount_proof");
+  }
+
+  if (!isCiphertextOfAmount(context.slice(128, 192), elgamalSecretKey, amount)) {
+    throw new InvalidPaymentError("invalid_confidential_svm_payload_amount_mismatch");
+  }
+}
@@ -0,0 +1,4 @@
+export * from "../../../shared/svm/confidential";
+export * from "./client";
+export * from "./facilitator";
+export * from "./scheme";
@@ -0,0 +1,42 @@
+import { TransactionSigner } from "@solana/kit";
+import {
+  isMultiNetworkSigner,
+  isSvmSignerWallet,
+  SupportedSVMNetworks,
+} from "../../../types/shared";
+import { decodeTransactionFromPayload, getTransactionMemo } from "../../../shared/svm";
+import { ConfidentialSvmPayload, ConfidentialSvmPayloadSchema } from "../../../types/verify";
+import type { SchemeImplementation } from "../../registry";
+import { encodePayment } from "../../utils";
+import { createPaymentHeader } from "./client";
+import { settle, verify } from "./facilitator";
+
+/**
+ * The `confidential` scheme on SVM networks, backed by Token-2022 confidential transfers whose
+ * amounts are only disclosed to the payee, the auditor of the mint and the facilitator
+ *
+ * It is not registered by default since its proofs rely on the Node.js build of the ZK ElGamal
+ * SDK: register it with `registerScheme` wherever confidential payments are handled.
+ */
+export const confidentialSvmScheme: SchemeImplementation = {
+  scheme: "confidential",
+  networks: SupportedSVMNetworks,
+  payloadSchema: ConfidentialSvmPayloadSchema,
+  createPaymentHeader: (client, x402Version, paymentRequirements, config, request) => {
+    const svmClient = isMultiNetworkSigner(client) ? client.svm : client;
+    if (!isSvmSignerWallet(svmClient)) {
+      throw new Error("Invalid svm wallet client provided");
+    }
+
+    return createPaymentHeader(svmClient, x402Version, paymentRequirements, config, request);
+  },
+  verify: (client, payload, paymentRequirements, config) =>
+    verify(client as TransactionSigner, payload, paymentRequirements, config),
+  settle: (client, payload, paymentRequirements, config) =>
+    settle(client as TransactionSigner, payload, paymentRequirements, config),
+  encodePayment,
+  // payments are bound to a request by a memo holding the hash of the request
+  isBoundToRequest: (payment, requestHash) =>
+    getTransactionMemo(decodeTransactionFromPayload(payment.payload as ConfidentialSvmPayload)) ===
+    requestHash,
+};
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { recoverTypedDataAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { hashPaymentRequest } from "../../../shared/requestBinding";
+import { EscrowEvmPayload, PaymentRequirements } from "../../../types/verify";
+import { createPayment, preparePaymentHeader } from "./client";
+import { escrowEvmScheme } from "./scheme";
+import { getEscrowNonce, getReceiveAuthorizationTypedData } from "./sign";
+
+const account = privateKeyToAccount(
+  "0x1234567890123456789012345678901234567890123456789012345678901234",
+);
+
+const mockPaymentRequirements: PaymentRequirements = {
+  scheme: "escrow",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 300,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: {
+    name: "USDC",
+    version: "2",
+    escrow: "0x9876543210987654321098765432109876543210",
+    operator: "0x5555555555555555555555555555555555555555",
+    releaseTimeout: 3600,
+  },
+};
+
+describe("preparePaymentHeader", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should authorize the escrow to receive the maximum amount under the escrow terms", () => {
+    const result = preparePaymentHeader(account.address, 1, mockPaymentRequirements);
+    const { authorization, salt } = result.payload;
+
+    expect(authorization).toEqual({
+      from: account.address,
+      to: "0x9876543210987654321098765432109876543210",
+      value: "1000000",
+      validAfter: "1704066600",
+      validBefore: "1704067500",
+      nonce: getEscrowNonce({
+        payTo: "0x1234567890123456789012345678901234567890",
+        operator: "0x5555555555555555555555555555555555555555",
+        releaseTimeout: 3600n,
+        salt: salt as `0x${string}`,
+      }),
+    });
+  });
+
+  it("should use a fresh salt for every payment", () => {
+    const first = preparePaymentHeader(account.address, 1, mockPaymentRequirements);
+    const second = preparePaymentHeader(account.address, 1, mockPaymentRequirements);
+
+    expect(first.payload.salt).not.toBe(second.payload.salt);
+    expect(first.payload.authorization.nonce).not.toBe(second.payload.authorization.nonce);
+  });
+
+  it("should bind the salt to the request when the payment requirements ask for it", () => {
+    const request = { method: "GET", url: "https://example.com/resource" };
+    const result = preparePaymentHeader(
+      account.address,
+      1,
+      {
+        ...mockPaymentRequirements,
+        extra: { ...mockPaymentRequirements.extra, requestBinding: true },
+      },
+      request,
+    );
+
+    expect(
+      escrowEvmScheme.isBoundToRequest!(
+        { x402Version: 1, scheme: "escrow", network: "base-sepolia", payload: result.payload },
+        hashPaymentRequest(request),
+      ),
+    ).toBe(true);
+  });
+
+  it("should throw if the payment requirements do not name an escrow", () => {
+    expect(() =>
+      preparePaymentHeader(account.address, 1, {
+        ...mockPaymentRequirements,
+        extra: { name: "USDC", version: "2" },
+      }),
+    ).toThrow("do not provide an escrow, operator and release timeout");
+  });
+});
+
+describe("createPayment", () => {
+  it("should sign a ReceiveWithAuthorization with the payer's key", async () => {
+    const payment = await createPayment(account, 1, mockPaymentRequirements);
+    const { authorization, signature } = payment.payload as EscrowEvmPayload;
+
+    const signer = await recoverTypedDataAddress({
+      ...getReceiveAuthorizationTypedData(authorization, mockPaymentRequirements),
+      signature: signature as `0x${string}`,
+    });
+    expect(signer).toBe(account.address);
+  });
+});
@@ -0,0 +1,174 @@
+import { Address, Chain, getAddress, Hex, LocalAccount, Transport } from "viem";
+import { getRequestBindingHash } from "../../../shared/requestBinding";
+import { BoundRequest } from "../../../types/shared/requestBinding";
+import { escrowABI, isSignerWallet, SignerWallet } from "../../../types/shared/evm";
+import {
+  EscrowEvmPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  UnsignedEscrowPaymentPayload,
+} from "../../../types/verify";
+import { createNonce, createRequestNonce } from "../../exact/evm/sign";
+import { encodePayment } from "../../exact/evm/utils/paymentUtils";
+import { getDepositId, getEscrowNonce, getEscrowTerms, signReceiveAuthorization } from "./sign";
+
+/**
+ * Prepares an unsigned escrow payment header authorizing the escrow to receive
+ * `maxAmountRequired` from the payer.
+ *
+ * The nonce of the authorization commits to the recipient, the operator and the release timeout
+ * of the payment requirements, and to a random salt sent along with it.
+ *
+ * @param from - The address from which the payment will be made
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements, with the escrow, operator and release timeout in `extra`
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
+ * @returns An unsigned payment payload containing the authorization and its salt
+ * @throws Error if the payment requirements do not provide the escrow terms
+ */
+export function preparePaymentHeader(
+  from: Address,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
+): UnsignedEscrowPaymentPayload {
+  // the salt commits to the request when the payment requirements bind payments to requests
+  const requestHash = getRequestBindingHash(paymentRequirements, request);
+  const salt = requestHash ? createRequestNonce(requestHash) : createNonce();
+  const terms = getEscrowTerms(paymentRequirements, salt);
+
+  const validAfter = BigInt(
+    Math.floor(Date.now() / 1000) - 600, // 10 minutes before
+  ).toString();
+  const validBefore = BigInt(
+    Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds),
+  ).toString();
+
+  return {
+    x402Version,
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    payload: {
+      signature: undefined,
+      authorization: {
+        from,
+        to: getAddress(paymentRequirements.extra!.escrow),
+        value: paymentRequirements.maxAmountRequired,
+        validAfter,
+        validBefore,
+        nonce: getEscrowNonce(terms),
+      },
+      salt,
+    },
+  };
+}
+
+/**
+ * Signs an escrow payment header using the provided client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to sign the payment header
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param unsignedPaymentHeader - The unsigned payment payload to be signed
+ * @returns A promise that resolves to the signed payment payload
+ */
+export async function signPaymentHeader<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  paymentRequirements: PaymentRequirements,
+  unsignedPaymentHeader: UnsignedEscrowPaymentPayload,
+): Promise<PaymentPayload> {
+  const { signature } = await signReceiveAuthorization(
+    client,
+    unsignedPaymentHeader.payload.authorization,
+    paymentRequirements,
+  );
+
+  return {
+    ...unsignedPaymentHeader,
+    payload: {
+      ...unsignedPaymentHeader.payload,
+      signature,
+    },
+  };
+}
+
+/**
+ * Creates a complete escrow payment payload by preparing and signing a payment header.
+ *
+ * @param client - The signer wallet instance used to create and sign the payment
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
+ * @returns A promise that resolves to the complete signed payment payload
+ */
+export async function createPayment<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
+): Promise<PaymentPayload> {
+  const from = isSignerWallet(client) ? client.account!.address : client.address;
+  const unsignedPaymentHeader = preparePaymentHeader(
+    from,
+    x402Version,
+    paymentRequirements,
+    request,
+  );
+  return signPaymentHeader(client, paymentRequirements, unsignedPaymentHeader);
+}
+
+/**
+ * Creates and encodes an escrow payment header for the given client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
+ * @returns A promise that resolves to the encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: SignerWallet | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
+): Promise<string> {
+  const payment = await createPayment(client, x402Version, paymentRequirements, request);
+  return encodePayment(payment);
+}
+
+/**
+ * Refunds a payment held by the escrow to the payer, e.g. when the resource server never
+ * delivered the resource it was paid for.
+ *
+ * Deposits can be refunded until their release timeout, unless the resource server released them.
+ *
+ * @param wallet - The wallet of the payer, which sends the refund transaction
+ * @param paymentPayload - The payment that was deposited
+ * @param paymentRequirements - The payment requirements the payment was created for
+ * @returns The hash of the refund transaction
+ * @throws Error if the refund transaction fails
+ */
+export async function refundDeposit<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<Hex> {
+  const { authorization } = paymentPayload.payload as EscrowEvmPayload;
+  const tx = await wallet.writeContract({
+    address: getAddress(authorization.to),
+    abi: escrowABI,
+    functionName: "refund" as const,
+    args: [
+      getDepositId(
+        paymentRequirements.asset as Address,
+        authorization.from as Address,
+        authorization.nonce as Hex,
+      ),
+    ],
+    chain: wallet.chain as Chain,
+  });
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  if (receipt.status !== "success") {
+    throw new Error(`The refund transaction ${tx} failed`);
+  }
+  return tx;
+}
@@ -0,0 +1,176 @@
+import fs from "fs";
+import path from "path";
+import { Abi, Address, createWalletClient, Hex, http, publicActions } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { getERC20Balance } from "../../../shared/evm";
+import {
+  createSigner,
+  escrowABI,
+  registerEvmNetwork,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import { EscrowEvmPayload, PaymentRequirements } from "../../../types/verify";
+import { createPayment, refundDeposit } from "./client";
+import { getDeposit, release, settle, verify } from "./facilitator";
+import { getEscrowTerms } from "./sign";
+
+// run with a local anvil chain and the contracts built by `forge build`, see contracts/README.md
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+// the default accounts of anvil
+const facilitatorKey: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const payerKey: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const payTo: Address = "0x000000000000000000000000000000000000dEaD";
+
+/**
+ * Reads a contract compiled by forge
+ *
+ * @param name - The name of the contract
+ * @returns The ABI and bytecode of the contract
+ */
+function readArtifact(name: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(
+    fs.readFileSync(
+      path.join(process.cwd(), "contracts", "out", `${name}.sol`, `${name}.json`),
+      "utf8",
+    ),
+  );
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+describe.skipIf(!rpcUrl)("escrow on anvil", () => {
+  let facilitator: SignerWallet;
+  let payer: SignerWallet;
+  let token: Address;
+  let escrow: Address;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Deploys a contract built by forge
+   *
+   * @param name - The name of the contract
+   * @param args - The constructor arguments
+   * @returns The address of the contract
+   */
+  async function deploy(name: string, args: unknown[] = []): Promise<Address> {
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(facilitatorKey),
+      chain: foundry,
+      transport: http(rpcUrl),
+    }).extend(publicActions);
+    const hash = await wallet.deployContract({ ...readArtifact(name), args });
+    const receipt = await wallet.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  }
+
+  beforeAll(async () => {
+    token = await deploy("AuthorizationToken", ["Authorization Dollar"]);
+    escrow = await deploy("X402Escrow");
+
+    registerEvmNetwork({
+      network: "anvil",
+      chain: foundry,
+      rpcUrl,
+      defaultAsset: { address: token, eip712: { name: "Authorization Dollar", version: "2" } },
+    });
+    facilitator = createSigner("anvil", facilitatorKey);
+    payer = createSigner("anvil", payerKey);
+  });
+
+  beforeEach(async () => {
+    // every payment is funded with a fresh balance
+    const hash = await facilitator.writeContract({
+      address: token,
+      abi: readArtifact("AuthorizationToken").abi,
+      functionName: "mint",
+      args: [payer.account.address, 1_000_000n],
+      chain: foundry,
+    });
+    await facilitator.waitForTransactionReceipt({ hash });
+
+    paymentRequirements = {
+      scheme: "escrow",
+      network: "anvil",
+      maxAmountRequired: "1000000",
+      resource: "https://example.com/resource",
+      description: "Test resource",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 300,
+      asset: token,
+      extra: {
+        name: "Authorization Dollar",
+        version: "2",
+        escrow,
+        operator: facilitator.account.address,
+        releaseTimeout: 3600,
+      },
+    };
+  });
+
+  it("releases the consumed amount of a deposit and refunds the rest", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    const balance = await getERC20Balance(payer, token, payer.account.address);
+    const received = await getERC20Balance(payer, token, payTo);
+
+    expect((await verify(payer, payment, paymentRequirements)).isValid).toBe(true);
+    expect((await settle(facilitator, payment, paymentRequirements)).success).toBe(true);
+    expect(await getERC20Balance(payer, token, escrow)).toBe(1_000_000n);
+
+    const result = await release(facilitator, payment, paymentRequirements, "250000");
+
+    expect(result.success).toBe(true);
+    expect(await getERC20Balance(payer, token, payer.account.address)).toBe(balance - 250000n);
+    expect(await getERC20Balance(payer, token, payTo)).toBe(received + 250000n);
+    expect((await getDeposit(payer, payment, paymentRequirements)).amount).toBe(0n);
+  });
+
+  it("lets the payer refund a deposit that was not released", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    const balance = await getERC20Balance(payer, token, payer.account.address);
+    await settle(facilitator, payment, paymentRequirements);
+
+    await refundDeposit(payer, payment, paymentRequirements);
+
+    expect(await getERC20Balance(payer, token, payer.account.address)).toBe(balance);
+    const result = await release(facilitator, payment, paymentRequirements);
+    expect(result.errorReason).toBe("invalid_escrow_deposit");
+  });
+
+  it("rejects a payment that was already deposited", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    await settle(facilitator, payment, paymentRequirements);
+
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("duplicate_payment");
+  });
+
+  it("only lets the operator deposit a payment", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    const { authorization, signature, salt } = payment.payload as EscrowEvmPayload;
+
+    await expect(
+      payer.writeContract({
+        address: escrow,
+        abi: escrowABI,
+        functionName: "deposit",
+        args: [
+          token,
+          {
+            from: authorization.from as Address,
+            value: BigInt(authorization.value),
+            validAfter: BigInt(authorization.validAfter),
+            validBefore: BigInt(authorization.validBefore),
+          },
+          getEscrowTerms(paymentRequirements, salt as Hex),
+          signature as Hex,
+        ],
+        chain: foundry,
+      }),
+    ).rejects.toThrow();
+  });
+});
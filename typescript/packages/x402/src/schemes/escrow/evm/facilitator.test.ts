@@ -0,0 +1,290 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Hex, verifyTypedData, zeroAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { EscrowEvmPayload, PaymentPayload, PaymentRequirements } from "../../../types/verify";
+import { createPayment } from "./client";
+import { refund, release, settle, verify } from "./facilitator";
+import { getDepositId } from "./sign";
+
+describe("escrow evm facilitator", () => {
+  const payer = privateKeyToAccount(
+    "0x1234567890123456789012345678901234567890123456789012345678901234",
+  );
+  const operator = privateKeyToAccount(
+    "0xabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcd",
+  );
+  const escrow = "0x9876543210987654321098765432109876543210";
+
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "escrow",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    extra: { name: "USDC", version: "2", escrow, operator: operator.address, releaseTimeout: 3600 },
+  };
+
+  let wallet: {
+    account: typeof operator;
+    chain: typeof baseSepolia;
+    verifyTypedData: typeof verifyTypedData;
+    readContract: ReturnType<typeof vi.fn>;
+    writeContract: ReturnType<typeof vi.fn>;
+    waitForTransactionReceipt: ReturnType<typeof vi.fn>;
+  };
+
+  /**
+   * Builds the deposit held by the escrow for a payment
+   *
+   * @param held - Whether the deposit is still held
+   * @returns The `deposits` entry of the escrow contract
+   */
+  function heldDeposit(held = true) {
+    return [
+      paymentRequirements.asset,
+      held ? payer.address : zeroAddress,
+      held ? paymentRequirements.payTo : zeroAddress,
+      held ? operator.address : zeroAddress,
+      held ? 1000000n : 0n,
+      held ? 1704070800n : 0n,
+    ];
+  }
+
+  beforeEach(() => {
+    wallet = {
+      account: operator,
+      chain: baseSepolia,
+      verifyTypedData,
+      readContract: vi.fn(async ({ functionName }) => {
+        switch (functionName) {
+          case "authorizationState":
+            return false;
+          case "deposits":
+            return heldDeposit();
+          default:
+            return 5_000_000n;
+        }
+      }),
+      writeContract: vi.fn().mockResolvedValue(`0x${"01".repeat(32)}`),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success", blockNumber: 42n }),
+    };
+  });
+
+  describe("verify", () => {
+    it("accepts an authorization to the escrow covering the maximum amount", async () => {
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment(payer, 1, paymentRequirements),
+        paymentRequirements,
+      );
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: payer.address });
+    });
+
+    it("rejects an authorization to another escrow", async () => {
+      const payment = await createPayment(payer, 1, {
+        ...paymentRequirements,
+        extra: { ...paymentRequirements.extra, escrow: operator.address },
+      });
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_escrow_evm_payload_escrow_mismatch");
+    });
+
+    it("rejects an authorization whose nonce commits to other terms", async () => {
+      const payment = await createPayment(payer, 1, {
+        ...paymentRequirements,
+        extra: { ...paymentRequirements.extra, releaseTimeout: 60 },
+      });
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_escrow_evm_payload_nonce");
+    });
+
+    it("rejects an authorization signed by another address", async () => {
+      const payment = await createPayment(payer, 1, paymentRequirements);
+      const { signature } = (await createPayment(operator, 1, paymentRequirements))
+        .payload as EscrowEvmPayload;
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        { ...payment, payload: { ...payment.payload, signature } } as PaymentPayload,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_escrow_evm_payload_signature");
+    });
+
+    it("rejects an authorization that was already used", async () => {
+      wallet.readContract.mockImplementation(async ({ functionName }) =>
+        functionName === "authorizationState" ? true : 5_000_000n,
+      );
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment(payer, 1, paymentRequirements),
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("duplicate_payment");
+    });
+  });
+
+  describe("settle", () => {
+    it("deposits the authorization into the escrow", async () => {
+      const payment = await createPayment(payer, 1, paymentRequirements);
+      const { authorization, signature, salt } = payment.payload as EscrowEvmPayload;
+
+      const result = await settle(wallet as unknown as SignerWallet, payment, paymentRequirements);
+
+      expect(result).toEqual({
+        success: true,
+        transaction: `0x${"01".repeat(32)}`,
+        network: "base-sepolia",
+        payer: payer.address,
+        blockNumber: "42",
+      });
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: escrow,
+          functionName: "deposit",
+          args: [
+            paymentRequirements.asset,
+            {
+              from: payer.address,
+              value: 1000000n,
+              validAfter: BigInt(authorization.validAfter),
+              validBefore: BigInt(authorization.validBefore),
+            },
+            {
+              payTo: paymentRequirements.payTo,
+              operator: operator.address,
+              releaseTimeout: 3600n,
+              salt,
+            },
+            signature,
+          ],
+        }),
+      );
+    });
+
+    it("rejects deposits by another operator", async () => {
+      const result = await settle(
+        { ...wallet, account: payer } as unknown as SignerWallet,
+        await createPayment(payer, 1, paymentRequirements),
+        paymentRequirements,
+      );
+
+      expect(result.errorReason).toBe("invalid_escrow_evm_payload_nonce");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("release", () => {
+    it("releases the settlement amount of the deposit", async () => {
+      const payment = await createPayment(payer, 1, paymentRequirements);
+      const { authorization } = payment.payload as EscrowEvmPayload;
+
+      const result = await release(
+        wallet as unknown as SignerWallet,
+        payment,
+        paymentRequirements,
+        "250000",
+      );
+
+      expect(result.success).toBe(true);
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: escrow,
+          functionName: "release",
+          args: [
+            getDepositId(
+              paymentRequirements.asset as Hex,
+              payer.address,
+              authorization.nonce as Hex,
+            ),
+            250000n,
+          ],
+        }),
+      );
+    });
+
+    it("rejects settlement amounts above the maximum", async () => {
+      const result = await release(
+        wallet as unknown as SignerWallet,
+        await createPayment(payer, 1, paymentRequirements),
+        paymentRequirements,
+        "1000001",
+      );
+
+      expect(result.errorReason).toBe("invalid_escrow_settlement_amount");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+
+    it("rejects payments the escrow no longer holds", async () => {
+      wallet.readContract.mockResolvedValue(heldDeposit(false));
+
+      const result = await release(
+        wallet as unknown as SignerWallet,
+        await createPayment(payer, 1, paymentRequirements),
+        paymentRequirements,
+      );
+
+      expect(result.errorReason).toBe("invalid_escrow_deposit");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refund", () => {
+    it("refunds the deposit to the payer", async () => {
+      const payment = await createPayment(payer, 1, paymentRequirements);
+      const { authorization } = payment.payload as EscrowEvmPayload;
+
+      const result = await refund(wallet as unknown as SignerWallet, payment, paymentRequirements);
+
+      expect(result.success).toBe(true);
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: escrow,
+          functionName: "refund",
+          args: [
+            getDepositId(
+              paymentRequirements.asset as Hex,
+              payer.address,
+              authorization.nonce as Hex,
+            ),
+          ],
+        }),
+      );
+    });
+
+    it("reports refunds that fail on-chain", async () => {
+      wallet.waitForTransactionReceipt.mockResolvedValue({ status: "reverted", blockNumber: 42n });
+
+      const result = await refund(
+        wallet as unknown as SignerWallet,
+        await createPayment(payer, 1, paymentRequirements),
+        paymentRequirements,
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("invalid_transaction_state");
+    });
+  });
+});
@@ -0,0 +1,447 @@
+import {
+  Account,
+  Address,
+  Chain,
+  getAddress,
+  Hex,
+  parseErc6492Signature,
+  Transport,
+  zeroAddress,
+} from "viem";
+import { getNetworkId } from "../../../shared";
+import { getAuthorizationState, getERC20Balance, getVersion } from "../../../shared/evm";
+import { config, ConnectedClient, escrowABI, SignerWallet } from "../../../types/shared/evm";
+import {
+  EscrowEvmPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "../../../types/verify";
+import { SCHEME } from "..";
+import {
+  getDepositId,
+  getEscrowNonce,
+  getEscrowTerms,
+  getReceiveAuthorizationTypedData,
+} from "./sign";
+
+/**
+ * A payment held by the escrow contract
+ */
+export type EscrowDeposit = {
+  /** The id of the deposit in the escrow contract */
+  id: Hex;
+  /** The payer of the deposit, the zero address if the deposit was released, refunded or never made */
+  payer: Address;
+  /** The recipient of the deposit once it is released */
+  payTo: Address;
+  /** The deposited amount, in atomic units of the asset */
+  amount: bigint;
+  /** The time from which anyone can release the deposit, in seconds since the epoch */
+  releaseAt: bigint;
+};
+
+/**
+ * Verifies an escrow payment payload against the required payment details
+ *
+ * This function performs several verification steps:
+ * - Verifies protocol version compatibility
+ * - Checks the authorization is made to the escrow advertised in the payment requirements
+ * - Checks the nonce commits to the recipient, operator and release timeout of the payment requirements
+ * - Validates the `ReceiveWithAuthorization` signature
+ * - Checks the authorization is currently valid and was not used
+ * - Verifies client has sufficient balance to cover the maximum amount
+ * - Ensures the authorized value covers the maximum amount
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed payment payload containing the authorization and its salt
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { authorization, signature, salt } = payload.payload as EscrowEvmPayload;
+  const payer = authorization.from;
+
+  // Verify payload version
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return {
+      isValid: false,
+      invalidReason: `unsupported_scheme`,
+      payer,
+    };
+  }
+
+  let domainRequirements: PaymentRequirements;
+  try {
+    const chainId = getNetworkId(payload.network);
+    domainRequirements = {
+      ...paymentRequirements,
+      extra: {
+        ...paymentRequirements.extra,
+        name: paymentRequirements.extra?.name ?? config[chainId.toString()].usdcName,
+        version: paymentRequirements.extra?.version ?? (await getVersion(client)),
+      },
+    };
+  } catch {
+    return {
+      isValid: false,
+      invalidReason: `invalid_network`,
+      payer,
+    };
+  }
+
+  // Verify that the payment is deposited into the escrow named in the payment requirements
+  const escrow = paymentRequirements.extra?.escrow;
+  if (!escrow || getAddress(authorization.to) !== getAddress(escrow)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_escrow_evm_payload_escrow_mismatch",
+      payer,
+    };
+  }
+
+  // Verify that the payer agreed to the recipient, operator and release timeout of the payment
+  // requirements, which the escrow contract reads from the nonce
+  let nonce: Hex | undefined;
+  try {
+    nonce = getEscrowNonce(getEscrowTerms(paymentRequirements, salt as Hex));
+  } catch {
+    nonce = undefined;
+  }
+  if (!nonce || nonce !== authorization.nonce.toLowerCase()) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_escrow_evm_payload_nonce",
+      payer,
+    };
+  }
+
+  // Verify the authorization signature is recoverable for the payer address
+  const isValidSignature = await client.verifyTypedData({
+    address: payer as Address,
+    ...getReceiveAuthorizationTypedData(authorization, domainRequirements),
+    signature: signature as Hex,
+  });
+  if (!isValidSignature) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_escrow_evm_payload_signature",
+      payer,
+    };
+  }
+
+  // Verify deadline is not yet expired
+  // Pad 3 block to account for round tripping
+  if (BigInt(authorization.validBefore) < BigInt(Math.floor(Date.now() / 1000) + 6)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_escrow_evm_payload_authorization_valid_before",
+      payer,
+    };
+  }
+  // Verify deadline is not yet valid
+  if (BigInt(authorization.validAfter) > BigInt(Math.floor(Date.now() / 1000))) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_escrow_evm_payload_authorization_valid_after",
+      payer,
+    };
+  }
+
+  // Verify the authorization has not already been used or canceled on-chain
+  const nonceUsed = await getAuthorizationState(
+    client,
+    paymentRequirements.asset as Address,
+    payer as Address,
+    authorization.nonce as Hex,
+  );
+  if (nonceUsed) {
+    return {
+      isValid: false,
+      invalidReason: "duplicate_payment",
+      payer,
+    };
+  }
+
+  // Verify client has enough funds to cover paymentRequirements.maxAmountRequired
+  const balance = await getERC20Balance(
+    client,
+    paymentRequirements.asset as Address,
+    payer as Address,
+  );
+  if (balance < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer,
+    };
+  }
+
+  // Verify the authorized value is enough to cover paymentRequirements.maxAmountRequired
+  if (BigInt(authorization.value) < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_escrow_evm_payload_authorization_value",
+      payer,
+    };
+  }
+
+  return {
+    isValid: true,
+    invalidReason: undefined,
+    payer,
+  };
+}
+
+/**
+ * Settles an escrow payment by depositing it into the escrow contract
+ *
+ * The facilitator wallet must be the operator of the payment requirements. The deposit is held
+ * until it is released with `release` or refunded with `refund`, or released by anyone once its
+ * release timeout has passed.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The signed payment payload containing the authorization and its salt
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function settle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<SettleResponse> {
+  const { authorization, signature, salt } = paymentPayload.payload as EscrowEvmPayload;
+
+  // re-verify to ensure the payment is still valid
+  const valid = await verify(wallet, paymentPayload, paymentRequirements);
+
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+      payer: authorization.from,
+    };
+  }
+
+  // the escrow only accepts deposits from the operator the payer agreed to
+  const terms = getEscrowTerms(paymentRequirements, salt as Hex);
+  if (terms.operator !== getAddress(wallet.account.address)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_escrow_evm_payload_nonce",
+      payer: authorization.from,
+    };
+  }
+
+  // Returns the original signature (no-op) if the signature is not a 6492 signature
+  const { signature: authorizationSignature } = parseErc6492Signature(signature as Hex);
+
+  const tx = await wallet.writeContract({
+    address: getAddress(authorization.to),
+    abi: escrowABI,
+    functionName: "deposit" as const,
+    args: [
+      paymentRequirements.asset as Address,
+      {
+        from: authorization.from as Address,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+      },
+      terms,
+      authorizationSignature,
+    ],
+    chain: wallet.chain as Chain,
+  });
+
+  return waitForEscrowTransaction(wallet, tx, paymentPayload, authorization.from);
+}
+
+/**
+ * Releases an escrowed payment to `payTo`, charging `settlementAmount` and refunding the rest of
+ * the deposit to the payer. Without a settlement amount the full `maxAmountRequired` is charged.
+ *
+ * Before the release timeout, only the operator or `payTo` may release a deposit.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The payment that was deposited
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @param settlementAmount - The amount actually consumed, in atomic units of the asset
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function release<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  settlementAmount: string = paymentRequirements.maxAmountRequired,
+): Promise<SettleResponse> {
+  const { authorization } = paymentPayload.payload as EscrowEvmPayload;
+
+  const amount = BigInt(settlementAmount);
+  if (amount < 0n || amount > BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_escrow_settlement_amount",
+      payer: authorization.from,
+    };
+  }
+
+  const deposit = await getDeposit(wallet, paymentPayload, paymentRequirements);
+  if (!isHeldFor(deposit, paymentRequirements)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_escrow_deposit",
+      payer: authorization.from,
+    };
+  }
+
+  const tx = await wallet.writeContract({
+    address: getAddress(authorization.to),
+    abi: escrowABI,
+    functionName: "release" as const,
+    args: [deposit.id, amount],
+    chain: wallet.chain as Chain,
+  });
+
+  return waitForEscrowTransaction(wallet, tx, paymentPayload, authorization.from);
+}
+
+/**
+ * Refunds an escrowed payment to the payer, e.g. when the resource it paid for could not be
+ * delivered
+ *
+ * Only the operator, `payTo` or the payer may refund a deposit, and only before its release
+ * timeout.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The payment that was deposited
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function refund<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<SettleResponse> {
+  const { authorization } = paymentPayload.payload as EscrowEvmPayload;
+
+  const deposit = await getDeposit(wallet, paymentPayload, paymentRequirements);
+  if (!isHeldFor(deposit, paymentRequirements)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_escrow_deposit",
+      payer: authorization.from,
+    };
+  }
+
+  const tx = await wallet.writeContract({
+    address: getAddress(authorization.to),
+    abi: escrowABI,
+    functionName: "refund" as const,
+    args: [deposit.id],
+    chain: wallet.chain as Chain,
+  });
+
+  return waitForEscrowTransaction(wallet, tx, paymentPayload, authorization.from);
+}
+
+/**
+ * Reads the deposit made with an escrow payment from the escrow contract
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param paymentPayload - The payment that was deposited
+ * @param paymentRequirements - The payment requirements the payment was created for
+ * @returns The deposit, whose payer is the zero address if it is no longer held
+ */
+export async function getDeposit<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<EscrowDeposit> {
+  const { authorization } = paymentPayload.payload as EscrowEvmPayload;
+  const id = getDepositId(
+    paymentRequirements.asset as Address,
+    authorization.from as Address,
+    authorization.nonce as Hex,
+  );
+  const [, payer, payTo, , amount, releaseAt] = await client.readContract({
+    address: getAddress(authorization.to),
+    abi: escrowABI,
+    functionName: "deposits",
+    args: [id],
+  });
+  return { id, payer, payTo, amount, releaseAt };
+}
+
+/**
+ * Checks that a deposit is still held by the escrow for the recipient of the payment requirements
+ *
+ * @param deposit - The deposit read from the escrow contract
+ * @param paymentRequirements - The payment requirements the payment was created for
+ * @returns True if the deposit can be released or refunded
+ */
+function isHeldFor(deposit: EscrowDeposit, paymentRequirements: PaymentRequirements): boolean {
+  return (
+    deposit.payer !== zeroAddress &&
+    getAddress(deposit.payTo) === getAddress(paymentRequirements.payTo)
+  );
+}
+
+/**
+ * Waits for a transaction of the escrow contract and reports its outcome
+ *
+ * @param wallet - The facilitator wallet that submitted the transaction
+ * @param tx - The hash of the transaction
+ * @param paymentPayload - The payment the transaction is for
+ * @param payer - The payer of the payment
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+async function waitForEscrowTransaction<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  tx: Hex,
+  paymentPayload: PaymentPayload,
+  payer: string,
+): Promise<SettleResponse> {
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: tx,
+      network: paymentPayload.network,
+      payer,
+    };
+  }
+
+  return {
+    success: true,
+    transaction: tx,
+    network: paymentPayload.network,
+    payer,
+    blockNumber: receipt.blockNumber.toString(),
+  };
+}
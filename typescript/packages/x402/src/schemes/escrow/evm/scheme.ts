@@ -0,0 +1,52 @@
+import { Chain, Hex, Transport } from "viem";
+import { SupportedEVMNetworks } from "../../../types/shared";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { EscrowEvmPayload, EscrowEvmPayloadSchema } from "../../../types/verify";
+import { getEvmSigner } from "../../exact/evm/scheme";
+import { isRequestNonce } from "../../exact/evm/sign";
+import { encodePayment } from "../../exact/evm/utils/paymentUtils";
+import type { SchemeImplementation } from "../../registry";
+import { createPaymentHeader, preparePaymentHeader, signPaymentHeader } from "./client";
+import { refund, release, settle, verify } from "./facilitator";
+
+/**
+ * The `escrow` scheme on EVM networks, backed by EIP-3009 authorizations to an escrow contract
+ * holding payments until they are released or refunded
+ */
+export const escrowEvmScheme: SchemeImplementation = {
+  scheme: "escrow",
+  networks: SupportedEVMNetworks,
+  payloadSchema: EscrowEvmPayloadSchema,
+  usageBased: true,
+  createPaymentHeader: (client, x402Version, paymentRequirements, _config, request) =>
+    createPaymentHeader(getEvmSigner(client), x402Version, paymentRequirements, request),
+  preparePaymentHeader,
+  signPaymentHeader: (client, paymentRequirements, unsignedPaymentHeader) =>
+    signPaymentHeader(
+      getEvmSigner(client),
+      paymentRequirements,
+      unsignedPaymentHeader as Parameters<typeof signPaymentHeader>[2],
+    ),
+  verify: (client, payload, paymentRequirements) =>
+    verify(client as ConnectedClient<Transport, Chain>, payload, paymentRequirements),
+  settle: (client, payload, paymentRequirements) =>
+    settle(client as SignerWallet<Chain, Transport>, payload, paymentRequirements),
+  releaseEscrow: (client, payload, paymentRequirements, _config, settlementAmount) =>
+    release(
+      client as SignerWallet<Chain, Transport>,
+      payload,
+      paymentRequirements,
+      settlementAmount,
+    ),
+  refundEscrow: (client, payload, paymentRequirements) =>
+    refund(client as SignerWallet<Chain, Transport>, payload, paymentRequirements),
+  encodePayment,
+  // an EIP-3009 authorization can only be used once per signer and nonce
+  getPaymentId: payment => {
+    const { from, nonce } = (payment.payload as EscrowEvmPayload).authorization;
+    return `escrow:${payment.network}:${from.toLowerCase()}:${nonce.toLowerCase()}`;
+  },
+  // the nonce commits to the salt, which commits to the request
+  isBoundToRequest: (payment, requestHash) =>
+    isRequestNonce((payment.payload as EscrowEvmPayload).salt as Hex, requestHash),
+};
@@ -0,0 +1,140 @@
+import {
+  Address,
+  Chain,
+  encodeAbiParameters,
+  getAddress,
+  Hex,
+  keccak256,
+  LocalAccount,
+  Transport,
+} from "viem";
+import { getNetworkId } from "../../../shared";
+import {
+  EscrowTerms,
+  isAccount,
+  isSignerWallet,
+  receiveAuthorizationTypes,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import { ExactEvmPayloadAuthorization, PaymentRequirements } from "../../../types/verify";
+
+/**
+ * Reads the escrow terms of a payment from its payment requirements
+ *
+ * @param paymentRequirements - The payment requirements, with the operator and release timeout in `extra`
+ * @param salt - The random value of the payment
+ * @returns The escrow terms
+ * @throws Error if the payment requirements do not provide an escrow, an operator and a release timeout
+ */
+export function getEscrowTerms(paymentRequirements: PaymentRequirements, salt: Hex): EscrowTerms {
+  const { escrow, operator, releaseTimeout } = paymentRequirements.extra ?? {};
+  if (!escrow || !operator || releaseTimeout === undefined) {
+    throw new Error(
+      "The payment requirements do not provide an escrow, operator and release timeout for the escrow scheme",
+    );
+  }
+  return {
+    payTo: getAddress(paymentRequirements.payTo),
+    operator: getAddress(operator),
+    releaseTimeout: BigInt(releaseTimeout),
+    salt,
+  };
+}
+
+/**
+ * Computes the nonce of an authorization depositing under the given terms, as `hashTerms` of the
+ * escrow contract does
+ *
+ * @param terms - The escrow terms
+ * @returns The nonce of the authorization
+ */
+export function getEscrowNonce(terms: EscrowTerms): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "address" }, { type: "uint256" }, { type: "bytes32" }],
+      [terms.payTo, terms.operator, terms.releaseTimeout, terms.salt],
+    ),
+  );
+}
+
+/**
+ * Computes the id of the deposit made with an authorization, as `getDepositId` of the escrow
+ * contract does
+ *
+ * @param token - The address of the token
+ * @param payer - The address of the payer
+ * @param nonce - The nonce of the authorization
+ * @returns The id of the deposit
+ */
+export function getDepositId(token: Address, payer: Address, nonce: Hex): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "address" }, { type: "bytes32" }],
+      [getAddress(token), getAddress(payer), nonce],
+    ),
+  );
+}
+
+/**
+ * Builds the typed data of the EIP-3009 `ReceiveWithAuthorization` message depositing a payment
+ *
+ * @param authorization - The authorization to the escrow
+ * @param paymentRequirements - The payment requirements, with the EIP-712 domain of the token in `extra`
+ * @param paymentRequirements.asset - The address of the token
+ * @param paymentRequirements.network - The network of the token
+ * @param paymentRequirements.extra - The extra information containing the name and version of the token
+ * @returns The typed data to sign or verify
+ */
+export function getReceiveAuthorizationTypedData(
+  authorization: ExactEvmPayloadAuthorization,
+  { asset, network, extra }: PaymentRequirements,
+) {
+  return {
+    types: receiveAuthorizationTypes,
+    domain: {
+      name: extra?.name,
+      version: extra?.version,
+      chainId: getNetworkId(network),
+      verifyingContract: getAddress(asset),
+    },
+    primaryType: "ReceiveWithAuthorization" as const,
+    message: {
+      from: getAddress(authorization.from),
+      to: getAddress(authorization.to),
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce as Hex,
+    },
+  };
+}
+
+/**
+ * Signs the EIP-3009 `ReceiveWithAuthorization` message depositing a payment into the escrow
+ *
+ * @param walletClient - The wallet client that will sign the message
+ * @param authorization - The authorization to the escrow
+ * @param paymentRequirements - The payment requirements, with the EIP-712 domain of the token in `extra`
+ * @returns The signature of the message
+ */
+export async function signReceiveAuthorization<transport extends Transport, chain extends Chain>(
+  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  authorization: ExactEvmPayloadAuthorization,
+  paymentRequirements: PaymentRequirements,
+): Promise<{ signature: Hex }> {
+  const data = getReceiveAuthorizationTypedData(authorization, paymentRequirements);
+
+  if (isSignerWallet(walletClient)) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else if (isAccount(walletClient) && walletClient.signTypedData) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else {
+    throw new Error("Invalid wallet client provided does not support signTypedData");
+  }
+}
@@ -0,0 +1,3 @@
+export * as evm from "./evm";
+
+export const SCHEME = "escrow";
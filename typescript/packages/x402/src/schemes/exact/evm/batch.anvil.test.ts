@@ -0,0 +1,154 @@
+import fs from "fs";
+import path from "path";
+import { Abi, Address, createWalletClient, Hex, http, publicActions } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { getERC20Balance } from "../../../shared/evm";
+import { createSigner, registerEvmNetwork, SignerWallet } from "../../../types/shared/evm";
+import { PaymentRequirements } from "../../../types/verify";
+import { createPayment } from "./client";
+import { settle, settleBatch } from "./facilitator";
+
+// run with a local anvil chain and the contracts built by `forge build`, see contracts/README.md
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+// the default accounts of anvil
+const facilitatorKey: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const payerKey: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const otherPayerKey: Hex = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+const payTo: Address = "0x000000000000000000000000000000000000dEaD";
+
+/**
+ * Reads a contract compiled by forge
+ *
+ * @param name - The name of the contract
+ * @returns The ABI and bytecode of the contract
+ */
+function readArtifact(name: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(
+    fs.readFileSync(
+      path.join(process.cwd(), "contracts", "out", `${name}.sol`, `${name}.json`),
+      "utf8",
+    ),
+  );
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+describe.skipIf(!rpcUrl)("exact evm batch settlement on anvil", () => {
+  let facilitator: SignerWallet;
+  let payer: SignerWallet;
+  let otherPayer: SignerWallet;
+  let token: Address;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Deploys a contract built by forge
+   *
+   * @param name - The name of the contract
+   * @param args - The constructor arguments
+   * @returns The address of the contract
+   */
+  async function deploy(name: string, args: unknown[] = []): Promise<Address> {
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(facilitatorKey),
+      chain: foundry,
+      transport: http(rpcUrl),
+    }).extend(publicActions);
+    const hash = await wallet.deployContract({ ...readArtifact(name), args });
+    const receipt = await wallet.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  }
+
+  /**
+   * Mints tokens to a payer
+   *
+   * @param to - The payer
+   */
+  async function mint(to: SignerWallet): Promise<void> {
+    const hash = await facilitator.writeContract({
+      address: token,
+      abi: readArtifact("AuthorizationToken").abi,
+      functionName: "mint",
+      args: [to.account.address, 1_000_000n],
+      chain: foundry,
+    });
+    await facilitator.waitForTransactionReceipt({ hash });
+  }
+
+  beforeAll(async () => {
+    token = await deploy("AuthorizationToken", ["Authorization Dollar"]);
+    const multicall = await deploy("Multicall3");
+
+    registerEvmNetwork({
+      network: "anvil",
+      chain: { ...foundry, contracts: { multicall3: { address: multicall } } },
+      rpcUrl,
+      defaultAsset: { address: token, eip712: { name: "Authorization Dollar", version: "2" } },
+    });
+    facilitator = createSigner("anvil", facilitatorKey);
+    payer = createSigner("anvil", payerKey);
+    otherPayer = createSigner("anvil", otherPayerKey);
+  });
+
+  beforeEach(async () => {
+    await mint(payer);
+    await mint(otherPayer);
+
+    paymentRequirements = {
+      scheme: "exact",
+      network: "anvil",
+      maxAmountRequired: "100000",
+      resource: "https://example.com/resource",
+      description: "Test resource",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 300,
+      asset: token,
+      extra: { name: "Authorization Dollar", version: "2" },
+    };
+  });
+
+  it("settles several payments in a single transaction", async () => {
+    const payments = await Promise.all(
+      [payer, payer, otherPayer].map(async client => ({
+        paymentPayload: await createPayment(client, 1, paymentRequirements),
+        paymentRequirements,
+      })),
+    );
+    const received = await getERC20Balance(payer, token, payTo);
+
+    const results = await settleBatch(facilitator, payments);
+
+    expect(results.map(result => result.success)).toEqual([true, true, true]);
+    expect(new Set(results.map(result => result.transaction)).size).toBe(1);
+    expect(await getERC20Balance(payer, token, payTo)).toBe(received + 300_000n);
+  });
+
+  it("only fails the payments whose authorization was already used", async () => {
+    const used = await createPayment(payer, 1, paymentRequirements);
+    await settle(facilitator, used, paymentRequirements);
+    const fresh = await createPayment(otherPayer, 1, paymentRequirements);
+    const received = await getERC20Balance(payer, token, payTo);
+
+    const results = await settleBatch(facilitator, [
+      { paymentPayload: used, paymentRequirements },
+      { paymentPayload: fresh, paymentRequirements },
+    ]);
+
+    expect(results[0]).toMatchObject({ success: false, errorReason: "duplicate_payment" });
+    expect(results[1].success).toBe(true);
+    expect(await getERC20Balance(payer, token, payTo)).toBe(received + 100_000n);
+  });
+
+  it("settles an authorization included twice only once", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+
+    const results = await settleBatch(facilitator, [
+      { paymentPayload: payment, paymentRequirements },
+      { paymentPayload: payment, paymentRequirements },
+    ]);
+
+    expect(results.map(result => result.success)).toEqual([true, false]);
+  });
+});
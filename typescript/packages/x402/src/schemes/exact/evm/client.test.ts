@@ -2,7 +2,8 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { createSignerSepolia, SignerWallet } from "../../../types/shared/evm";
 import { PaymentRequirements, UnsignedPaymentPayload } from "../../../types/verify";
 import { createPaymentHeader, preparePaymentHeader, signPaymentHeader } from "./client";
-import { signAuthorization } from "./sign";
+import { hashPaymentRequest } from "../../../shared/requestBinding";
+import { isRequestNonce, signAuthorization } from "./sign";
 import { encodePayment } from "./utils/paymentUtils";
 
 vi.mock("./sign", async () => {
@@ -94,6 +95,29 @@ describe("preparePaymentHeader", () => {
     const result = preparePaymentHeader(mockFromAddress, 2, mockPaymentRequirements);
     expect(result.x402Version).toBe(2);
   });
+
+  it("should bind the nonce to the request when the payment requirements ask for it", () => {
+    const request = { method: "POST", url: "https://example.com/resource", body: "{}" };
+    const result = preparePaymentHeader(
+      mockFromAddress,
+      1,
+      { ...mockPaymentRequirements, extra: { requestBinding: true } },
+      request,
+    );
+    const nonce = result.payload.authorization.nonce as `0x${string}`;
+
+    expect(isRequestNonce(nonce, hashPaymentRequest(request))).toBe(true);
+    expect(isRequestNonce(nonce, hashPaymentRequest({ ...request, body: "[]" }))).toBe(false);
+  });
+
+  it("should throw if the payment requirements bind payments and no request is given", () => {
+    expect(() =>
+      preparePaymentHeader(mockFromAddress, 1, {
+        ...mockPaymentRequirements,
+        extra: { requestBinding: true },
+      }),
+    ).toThrow(expect.objectContaining({ code: "invalid_request_binding" }));
+  });
 });
 
 describe("signPaymentHeader", () => {
@@ -1,7 +1,10 @@
 import { Address, Chain, LocalAccount, Transport } from "viem";
 import { isSignerWallet, SignerWallet } from "../../../types/shared/evm";
 import { PaymentPayload, PaymentRequirements, UnsignedPaymentPayload } from "../../../types/verify";
-import { createNonce, signAuthorization } from "./sign";
+import { getRequestBindingHash } from "../../../shared/requestBinding";
+import { BoundRequest } from "../../../types/shared/requestBinding";
+import { preparePermit2PaymentHeader, signPermit2PaymentHeader } from "./permit2/client";
+import { createNonce, createRequestNonce, signAuthorization } from "./sign";
 import { encodePayment } from "./utils/paymentUtils";
 
 /**
@@ -10,14 +13,23 @@ import { encodePayment } from "./utils/paymentUtils";
  * @param from - The sender's address from which the payment will be made
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
  * @returns An unsigned payment payload containing authorization details
+ * @throws Error if the payment requirements ask for a Permit2 transfer, see `preparePermit2PaymentHeader`
  */
 export function preparePaymentHeader(
   from: Address,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
 ): UnsignedPaymentPayload {
-  const nonce = createNonce();
+  if (isPermit2Requirements(paymentRequirements)) {
+    throw new Error("Permit2 payment headers are prepared with preparePermit2PaymentHeader");
+  }
+
+  // the nonce commits to the request when the payment requirements bind payments to requests
+  const requestHash = getRequestBindingHash(paymentRequirements, request);
+  const nonce = requestHash ? createRequestNonce(requestHash) : createNonce();
 
   const validAfter = BigInt(
     Math.floor(Date.now() / 1000) - 600, // 10 minutes before
@@ -78,15 +90,32 @@ export async function signPaymentHeader<transport extends Transport, chain exten
  * @param client - The signer wallet instance used to create and sign the payment
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
  * @returns A promise that resolves to the complete signed payment payload
  */
 export async function createPayment<transport extends Transport, chain extends Chain>(
   client: SignerWallet<chain, transport> | LocalAccount,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
 ): Promise<PaymentPayload> {
   const from = isSignerWallet(client) ? client.account!.address : client.address;
-  const unsignedPaymentHeader = preparePaymentHeader(from, x402Version, paymentRequirements);
+  if (isPermit2Requirements(paymentRequirements)) {
+    const unsignedPermit2PaymentHeader = preparePermit2PaymentHeader(
+      from,
+      x402Version,
+      paymentRequirements,
+      request,
+    );
+    return signPermit2PaymentHeader(client, paymentRequirements, unsignedPermit2PaymentHeader);
+  }
+
+  const unsignedPaymentHeader = preparePaymentHeader(
+    from,
+    x402Version,
+    paymentRequirements,
+    request,
+  );
   return signPaymentHeader(client, paymentRequirements, unsignedPaymentHeader);
 }
 
@@ -96,13 +125,25 @@ export async function createPayment<transport extends Transport, chain extends C
  * @param client - The signer wallet instance used to create the payment header
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
  * @returns A promise that resolves to the encoded payment header string
  */
 export async function createPaymentHeader(
   client: SignerWallet | LocalAccount,
   x402Version: number,
   paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
 ): Promise<string> {
-  const payment = await createPayment(client, x402Version, paymentRequirements);
+  const payment = await createPayment(client, x402Version, paymentRequirements, request);
   return encodePayment(payment);
 }
+
+/**
+ * Checks whether payment requirements ask for a Permit2 transfer instead of an EIP-3009 authorization
+ *
+ * @param paymentRequirements - The payment requirements to check
+ * @returns True if the asset is transferred through Permit2
+ */
+export function isPermit2Requirements(paymentRequirements: PaymentRequirements): boolean {
+  return paymentRequirements.extra?.assetTransferMethod === "permit2";
+}
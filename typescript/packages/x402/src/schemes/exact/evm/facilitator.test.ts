@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { encodeEventTopics, verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import {
+  ConnectedClient,
+  multicall3Address,
+  SignerWallet,
+  usdcABI,
+} from "../../../types/shared/evm";
+import { ExactEvmPayload, PaymentPayload, PaymentRequirements } from "../../../types/verify";
+import { createPayment } from "./client";
+import { settleBatch, verify } from "./facilitator";
+
+describe("exact evm facilitator", () => {
+  const from = privateKeyToAccount(
+    "0x1234567890123456789012345678901234567890123456789012345678901234",
+  );
+
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    extra: { name: "USDC", version: "2" },
+  };
+
+  let client: {
+    verifyTypedData: typeof verifyTypedData;
+    readContract: ReturnType<typeof vi.fn>;
+  };
+  let payment: PaymentPayload;
+
+  beforeEach(async () => {
+    client = {
+      verifyTypedData,
+      readContract: vi.fn(async ({ functionName }) =>
+        functionName === "authorizationState" ? false : 5_000_000n,
+      ),
+    };
+    payment = await createPayment(from, 1, paymentRequirements);
+  });
+
+  it("accepts an unused authorization", async () => {
+    const result = await verify(client as unknown as ConnectedClient, payment, paymentRequirements);
+
+    expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: from.address });
+  });
+
+  it("rejects an authorization whose nonce was already used on-chain", async () => {
+    client.readContract.mockImplementation(async ({ functionName }) =>
+      functionName === "authorizationState" ? true : 5_000_000n,
+    );
+
+    const result = await verify(client as unknown as ConnectedClient, payment, paymentRequirements);
+
+    expect(result).toEqual({
+      isValid: false,
+      invalidReason: "duplicate_payment",
+      payer: from.address,
+    });
+    expect(client.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: paymentRequirements.asset,
+        functionName: "authorizationState",
+        args: [
+          from.address,
+          (payment.payload as { authorization: { nonce: string } }).authorization.nonce,
+        ],
+      }),
+    );
+  });
+
+  describe("settleBatch", () => {
+    const transaction = `0x${"01".repeat(32)}`;
+
+    /**
+     * Builds the log of the `AuthorizationUsed` event emitted when a payment is settled
+     *
+     * @param settled - The settled payment
+     * @returns The log of the token
+     */
+    function authorizationUsed(settled: PaymentPayload) {
+      const { from: authorizer, nonce } = (settled.payload as ExactEvmPayload).authorization;
+      return {
+        address: paymentRequirements.asset,
+        data: "0x",
+        topics: encodeEventTopics({
+          abi: usdcABI,
+          eventName: "AuthorizationUsed",
+          args: { authorizer: authorizer as `0x${string}`, nonce: nonce as `0x${string}` },
+        }),
+      };
+    }
+
+    it("settles the payments in a single multicall and reports each of them", async () => {
+      const other = await createPayment(from, 1, paymentRequirements);
+      const wallet = {
+        ...client,
+        chain: baseSepolia,
+        account: from,
+        writeContract: vi.fn().mockResolvedValue(transaction),
+        // the second transfer failed, e.g. because its authorization was used meanwhile
+        waitForTransactionReceipt: vi.fn().mockResolvedValue({
+          status: "success",
+          blockNumber: 42n,
+          logs: [authorizationUsed(payment)],
+        }),
+      };
+
+      const responses = await settleBatch(wallet as unknown as SignerWallet, [
+        { paymentPayload: payment, paymentRequirements },
+        { paymentPayload: other, paymentRequirements },
+      ]);
+
+      expect(responses).toEqual([
+        {
+          success: true,
+          transaction,
+          network: "base-sepolia",
+          payer: from.address,
+          blockNumber: "42",
+        },
+        {
+          success: false,
+          errorReason: "invalid_transaction_state",
+          transaction,
+          network: "base-sepolia",
+          payer: from.address,
+        },
+      ]);
+      expect(wallet.writeContract).toHaveBeenCalledTimes(1);
+      const [{ address, functionName, args }] = wallet.writeContract.mock.calls[0];
+      expect(address.toLowerCase()).toBe(multicall3Address.toLowerCase());
+      expect(functionName).toBe("aggregate3");
+      expect(args[0]).toHaveLength(2);
+      expect(args[0][0]).toMatchObject({ target: paymentRequirements.asset, allowFailure: true });
+    });
+
+    it("leaves payments that are no longer valid out of the transaction", async () => {
+      client.readContract.mockImplementation(async ({ functionName }) =>
+        functionName === "authorizationState" ? true : 5_000_000n,
+      );
+      const wallet = { ...client, chain: baseSepolia, account: from, writeContract: vi.fn() };
+
+      const responses = await settleBatch(wallet as unknown as SignerWallet, [
+        { paymentPayload: payment, paymentRequirements },
+      ]);
+
+      expect(responses[0]).toMatchObject({ success: false, errorReason: "duplicate_payment" });
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+  });
+});
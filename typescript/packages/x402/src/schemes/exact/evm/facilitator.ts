@@ -1,13 +1,26 @@
-import { Account, Address, Chain, getAddress, Hex, parseErc6492Signature, Transport } from "viem";
+import {
+  Account,
+  Address,
+  Chain,
+  encodeFunctionData,
+  getAddress,
+  Hex,
+  parseErc6492Signature,
+  parseEventLogs,
+  Transport,
+} from "viem";
 import { getNetworkId } from "../../../shared";
-import { getVersion, getERC20Balance } from "../../../shared/evm";
+import { getVersion, getERC20Balance, getAuthorizationState } from "../../../shared/evm";
 import {
   usdcABI as abi,
   authorizationTypes,
   config,
   ConnectedClient,
+  multicall3ABI,
+  multicall3Address,
   SignerWallet,
 } from "../../../types/shared/evm";
+import { BatchedPayment } from "../../../types/shared/settlement";
 import {
   PaymentPayload,
   PaymentRequirements,
@@ -16,6 +29,7 @@ import {
   ExactEvmPayload,
 } from "../../../types/verify";
 import { SCHEME } from "../../exact";
+import { settlePermit2, verifyPermit2 } from "./permit2/facilitator";
 
 /**
  * Verifies a payment payload against the required payment details
@@ -25,9 +39,12 @@ import { SCHEME } from "../../exact";
  * - Validates the permit signature
  * - Confirms USDC contract address is correct for the chain
  * - Checks permit deadline is sufficiently in the future
+ * - Checks the authorization nonce has not been used on-chain
  * - Verifies client has sufficient USDC balance
  * - Ensures payment amount meets required minimum
  *
+ * Permit2 payloads are verified by `verifyPermit2`.
+ *
  * @param client - The public client used for blockchain interactions
  * @param payload - The signed payment payload containing transfer parameters and signature
  * @param paymentRequirements - The payment requirements that the payload must satisfy
@@ -48,13 +65,17 @@ export async function verify<
     - ✅ verify usdc address is correct for the chain
     - ✅ verify permit signature
     - ✅ verify deadline
-    - verify nonce is current
+    - ✅ verify nonce is current
     - ✅ verify client has enough funds to cover paymentRequirements.maxAmountRequired
     - ✅ verify value in payload is enough to cover paymentRequirements.maxAmountRequired
     - check min amount is above some threshold we think is reasonable for covering gas
     - verify resource is not already paid for (next version)
     */
 
+  if ("permit2Authorization" in payload.payload) {
+    return verifyPermit2(client, payload, paymentRequirements);
+  }
+
   const exactEvmPayload = payload.payload as ExactEvmPayload;
 
   // Verify payload version
@@ -142,6 +163,20 @@ export async function verify<
       payer: exactEvmPayload.authorization.from,
     };
   }
+  // Verify the authorization has not already been used or canceled on-chain
+  const nonceUsed = await getAuthorizationState(
+    client,
+    erc20Address,
+    exactEvmPayload.authorization.from as Address,
+    exactEvmPayload.authorization.nonce as Hex,
+  );
+  if (nonceUsed) {
+    return {
+      isValid: false,
+      invalidReason: "duplicate_payment", //"Authorization nonce has already been used",
+      payer: exactEvmPayload.authorization.from,
+    };
+  }
   // Verify client has enough funds to cover paymentRequirements.maxAmountRequired
   const balance = await getERC20Balance(
     client,
@@ -175,6 +210,7 @@ export async function verify<
  *
  * This function executes the actual USDC transfer using the signed authorization from the user.
  * The facilitator wallet submits the transaction but does not need to hold or transfer any tokens itself.
+ * Permit2 payloads are settled by `settlePermit2`.
  *
  * @param wallet - The facilitator wallet that will submit the transaction
  * @param paymentPayload - The signed payment payload containing the transfer parameters and signature
@@ -186,6 +222,10 @@ export async function settle<transport extends Transport, chain extends Chain>(
   paymentPayload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
 ): Promise<SettleResponse> {
+  if ("permit2Authorization" in paymentPayload.payload) {
+    return settlePermit2(wallet, paymentPayload, paymentRequirements);
+  }
+
   const payload = paymentPayload.payload as ExactEvmPayload;
 
   // re-verify to ensure the payment is still valid
@@ -237,5 +277,120 @@ export async function settle<transport extends Transport, chain extends Chain>(
     transaction: tx,
     network: paymentPayload.network,
     payer: payload.authorization.from,
+    blockNumber: receipt.blockNumber.toString(),
   };
 }
+
+/**
+ * Settles several payments in a single transaction, calling `transferWithAuthorization` for each
+ * of them through the Multicall3 contract of the chain
+ *
+ * Every payment is verified again and only valid payments are included in the transaction. Their
+ * calls may fail independently, e.g. when an authorization was used meanwhile, so a payment is
+ * only settled if the transaction emitted the `AuthorizationUsed` event of its authorization.
+ * Permit2 payloads are settled one by one by `settlePermit2`.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param payments - The payments to settle, with the payment requirements they were created for
+ * @returns The settlement of each payment, in the order of `payments`
+ */
+export async function settleBatch<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  payments: BatchedPayment[],
+): Promise<SettleResponse[]> {
+  const responses: SettleResponse[] = new Array(payments.length);
+  const batched: { index: number; payload: ExactEvmPayload; asset: Address }[] = [];
+
+  for (const [index, { paymentPayload, paymentRequirements }] of payments.entries()) {
+    if ("permit2Authorization" in paymentPayload.payload) {
+      responses[index] = await settlePermit2(wallet, paymentPayload, paymentRequirements);
+      continue;
+    }
+
+    const payload = paymentPayload.payload as ExactEvmPayload;
+    const valid = await verify(wallet, paymentPayload, paymentRequirements);
+    if (!valid.isValid) {
+      responses[index] = {
+        success: false,
+        network: paymentPayload.network,
+        transaction: "",
+        errorReason: valid.invalidReason ?? "invalid_scheme",
+        payer: payload.authorization.from,
+      };
+      continue;
+    }
+    batched.push({ index, payload, asset: getAddress(paymentRequirements.asset) });
+  }
+  if (batched.length === 0) {
+    return responses;
+  }
+
+  const calls = batched.map(({ payload, asset }) => ({
+    target: asset,
+    allowFailure: true,
+    callData: encodeFunctionData({
+      abi,
+      functionName: "transferWithAuthorization",
+      args: [
+        payload.authorization.from as Address,
+        payload.authorization.to as Address,
+        BigInt(payload.authorization.value),
+        BigInt(payload.authorization.validAfter),
+        BigInt(payload.authorization.validBefore),
+        payload.authorization.nonce as Hex,
+        // Returns the original signature (no-op) if the signature is not a 6492 signature
+        parseErc6492Signature(payload.signature as Hex).signature,
+      ],
+    }),
+  }));
+  const tx = await wallet.writeContract({
+    address: wallet.chain?.contracts?.multicall3?.address ?? multicall3Address,
+    abi: multicall3ABI,
+    functionName: "aggregate3" as const,
+    args: [calls],
+    chain: wallet.chain as Chain,
+  });
+
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  const used = new Set(
+    receipt.status === "success"
+      ? parseEventLogs({ abi, eventName: "AuthorizationUsed", logs: receipt.logs }).map(log =>
+          getAuthorizationKey(log.address, log.args.authorizer, log.args.nonce),
+        )
+      : [],
+  );
+
+  for (const { index, payload, asset } of batched) {
+    const { from, nonce } = payload.authorization;
+    const { network } = payments[index].paymentPayload;
+    // an authorization included twice is only used once
+    responses[index] = used.delete(getAuthorizationKey(asset, from, nonce))
+      ? {
+          success: true,
+          transaction: tx,
+          network,
+          payer: from,
+          blockNumber: receipt.blockNumber.toString(),
+        }
+      : {
+          success: false,
+          errorReason: "invalid_transaction_state",
+          transaction: tx,
+          network,
+          payer: from,
+        };
+  }
+  return responses;
+}
+
+/**
+ * Identifies an authorization of a token
+ *
+ * @param token - The address of the token
+ * @param authorizer - The payer who signed the authorization
+ * @param nonce - The nonce of the authorization
+ * @returns A key that is the same for every spelling of the addresses and nonce
+ */
+function getAuthorizationKey(token: string, authorizer: string, nonce: string): string {
+  return `${token}:${authorizer}:${nonce}`.toLowerCase();
+}
@@ -1,3 +1,5 @@
 export * from "./client";
 export * from "./facilitator";
+export * from "./permit2";
 export * from "./utils/paymentUtils";
+export * from "./scheme";
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { recoverTypedDataAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { hashPaymentRequest } from "../../../../shared/requestBinding";
+import { ExactEvmPermit2Payload, PaymentRequirements } from "../../../../types/verify";
+import { createPayment } from "../client";
+import { exactEvmScheme } from "../scheme";
+import { preparePermit2PaymentHeader } from "./client";
+import { getPermit2TypedData } from "./sign";
+
+const account = privateKeyToAccount(
+  "0x1234567890123456789012345678901234567890123456789012345678901234",
+);
+
+const mockPaymentRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 300,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: {
+    assetTransferMethod: "permit2",
+    spender: "0x5555555555555555555555555555555555555555",
+  },
+};
+
+describe("preparePermit2PaymentHeader", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should create a transfer of the maximum amount bound to the recipient and resource", () => {
+    const result = preparePermit2PaymentHeader(account.address, 1, mockPaymentRequirements);
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    expect(result).toEqual({
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      payload: {
+        signature: undefined,
+        permit2Authorization: {
+          from: account.address,
+          permitted: { token: mockPaymentRequirements.asset, amount: "1000000" },
+          spender: mockPaymentRequirements.extra!.spender,
+          nonce: expect.stringMatching(/^\d+$/),
+          deadline: (currentTime + mockPaymentRequirements.maxTimeoutSeconds).toString(),
+          witness: {
+            to: mockPaymentRequirements.payTo,
+            resource: mockPaymentRequirements.resource,
+          },
+        },
+      },
+    });
+  });
+
+  it("should throw if the payment requirements do not name a spender", () => {
+    expect(() =>
+      preparePermit2PaymentHeader(account.address, 1, {
+        ...mockPaymentRequirements,
+        extra: { assetTransferMethod: "permit2" },
+      }),
+    ).toThrow("The payment requirements do not provide a spender for Permit2 transfers");
+  });
+
+  it("should bind the nonce to the request when the payment requirements ask for it", () => {
+    const request = { method: "POST", url: "https://example.com/resource", body: "{}" };
+    const result = preparePermit2PaymentHeader(
+      account.address,
+      1,
+      {
+        ...mockPaymentRequirements,
+        extra: { ...mockPaymentRequirements.extra, requestBinding: true },
+      },
+      request,
+    );
+    const payment = { ...result, payload: { ...result.payload, signature: "0x" } };
+
+    expect(exactEvmScheme.isBoundToRequest!(payment, hashPaymentRequest(request))).toBe(true);
+    expect(
+      exactEvmScheme.isBoundToRequest!(payment, hashPaymentRequest({ ...request, body: "[]" })),
+    ).toBe(false);
+  });
+});
+
+describe("createPayment with Permit2", () => {
+  it("should sign the transfer with the payer's key", async () => {
+    const payment = await createPayment(account, 1, mockPaymentRequirements);
+    const { permit2Authorization, signature } = payment.payload as ExactEvmPermit2Payload;
+
+    const signer = await recoverTypedDataAddress({
+      ...getPermit2TypedData(permit2Authorization, "base-sepolia"),
+      signature: signature as `0x${string}`,
+    });
+    expect(signer).toBe(account.address);
+  });
+});
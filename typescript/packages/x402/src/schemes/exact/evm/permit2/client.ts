@@ -0,0 +1,91 @@
+import { Address, Chain, hexToBigInt, LocalAccount, Transport } from "viem";
+import { getRequestBindingHash } from "../../../../shared/requestBinding";
+import { SignerWallet } from "../../../../types/shared/evm";
+import { BoundRequest } from "../../../../types/shared/requestBinding";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  UnsignedPermit2PaymentPayload,
+} from "../../../../types/verify";
+import { createNonce, createRequestNonce } from "../sign";
+import { signPermit2Authorization } from "./sign";
+
+/**
+ * Prepares an unsigned Permit2 payment header transferring `maxAmountRequired` to `payTo`.
+ *
+ * @param from - The sender's address from which the payment will be made
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements, with the facilitator's address in `extra.spender`
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
+ * @returns An unsigned payment payload containing the Permit2 transfer
+ */
+export function preparePermit2PaymentHeader(
+  from: Address,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
+): UnsignedPermit2PaymentPayload {
+  const spender = paymentRequirements.extra?.spender;
+  if (!spender) {
+    throw new Error("The payment requirements do not provide a spender for Permit2 transfers");
+  }
+
+  // Permit2 nonces are unordered, so they are random like EIP-3009 nonces
+  const requestHash = getRequestBindingHash(paymentRequirements, request);
+  const nonce = requestHash ? createRequestNonce(requestHash) : createNonce();
+
+  const deadline = BigInt(
+    Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds),
+  ).toString();
+
+  return {
+    x402Version,
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    payload: {
+      signature: undefined,
+      permit2Authorization: {
+        from,
+        permitted: {
+          token: paymentRequirements.asset,
+          amount: paymentRequirements.maxAmountRequired,
+        },
+        spender,
+        nonce: hexToBigInt(nonce).toString(),
+        deadline,
+        witness: {
+          to: paymentRequirements.payTo,
+          resource: paymentRequirements.resource,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Signs a Permit2 payment header using the provided client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to sign the payment header
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param unsignedPaymentHeader - The unsigned payment payload to be signed
+ * @returns A promise that resolves to the signed payment payload
+ */
+export async function signPermit2PaymentHeader<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  paymentRequirements: PaymentRequirements,
+  unsignedPaymentHeader: UnsignedPermit2PaymentPayload,
+): Promise<PaymentPayload> {
+  const { signature } = await signPermit2Authorization(
+    client,
+    unsignedPaymentHeader.payload.permit2Authorization,
+    paymentRequirements,
+  );
+
+  return {
+    ...unsignedPaymentHeader,
+    payload: {
+      ...unsignedPaymentHeader.payload,
+      signature,
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { ConnectedClient, PERMIT2_ADDRESS, SignerWallet } from "../../../../types/shared/evm";
+import {
+  ExactEvmPermit2Payload,
+  PaymentPayload,
+  PaymentRequirements,
+} from "../../../../types/verify";
+import { createPayment } from "../client";
+import { settle, verify } from "../facilitator";
+import { hashPermit2Witness } from "./sign";
+
+describe("exact evm facilitator with Permit2", () => {
+  const from = privateKeyToAccount(
+    "0x1234567890123456789012345678901234567890123456789012345678901234",
+  );
+  const spender = "0x5555555555555555555555555555555555555555";
+
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    extra: { assetTransferMethod: "permit2", spender },
+  };
+
+  let client: {
+    verifyTypedData: typeof verifyTypedData;
+    readContract: ReturnType<typeof vi.fn>;
+  };
+  let payment: PaymentPayload;
+
+  beforeEach(async () => {
+    client = {
+      verifyTypedData,
+      readContract: vi.fn(async ({ functionName }) =>
+        functionName === "nonceBitmap" ? 0n : 5_000_000n,
+      ),
+    };
+    payment = await createPayment(from, 1, paymentRequirements);
+  });
+
+  it("accepts an unused transfer", async () => {
+    const result = await verify(client as unknown as ConnectedClient, payment, paymentRequirements);
+
+    expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: from.address });
+  });
+
+  it("rejects a transfer whose nonce was already used on Permit2", async () => {
+    const { nonce } = (payment.payload as ExactEvmPermit2Payload).permit2Authorization;
+    client.readContract.mockImplementation(async ({ functionName }) =>
+      functionName === "nonceBitmap" ? 1n << (BigInt(nonce) & 255n) : 5_000_000n,
+    );
+
+    const result = await verify(client as unknown as ConnectedClient, payment, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit2_nonce");
+    expect(client.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: PERMIT2_ADDRESS,
+        functionName: "nonceBitmap",
+        args: [from.address, BigInt(nonce) >> 8n],
+      }),
+    );
+  });
+
+  it("rejects a transfer when the payer has not approved Permit2", async () => {
+    client.readContract.mockImplementation(async ({ functionName }) =>
+      functionName === "nonceBitmap" || functionName === "allowance" ? 0n : 5_000_000n,
+    );
+
+    const result = await verify(client as unknown as ConnectedClient, payment, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit2_allowance");
+  });
+
+  it("rejects a transfer for another resource", async () => {
+    const result = await verify(client as unknown as ConnectedClient, payment, {
+      ...paymentRequirements,
+      resource: "https://example.com/other",
+    });
+
+    expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit2_resource_mismatch");
+  });
+
+  it("rejects a transfer for another spender", async () => {
+    const result = await verify(client as unknown as ConnectedClient, payment, {
+      ...paymentRequirements,
+      extra: { ...paymentRequirements.extra, spender: from.address },
+    });
+
+    expect(result.invalidReason).toBe("invalid_exact_evm_payload_permit2_spender_mismatch");
+  });
+
+  it("rejects a tampered transfer", async () => {
+    const payload = payment.payload as ExactEvmPermit2Payload;
+    const tampered = {
+      ...payment,
+      payload: {
+        ...payload,
+        permit2Authorization: {
+          ...payload.permit2Authorization,
+          witness: { ...payload.permit2Authorization.witness, to: spender },
+        },
+      },
+    };
+
+    const result = await verify(
+      client as unknown as ConnectedClient,
+      tampered,
+      paymentRequirements,
+    );
+
+    expect(result.invalidReason).toBe("invalid_exact_evm_payload_signature");
+  });
+
+  it("settles through permitWitnessTransferFrom with the witness hash", async () => {
+    const wallet = {
+      ...client,
+      account: { address: spender },
+      chain: { id: 84532 },
+      writeContract: vi.fn().mockResolvedValue("0xabc"),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success", blockNumber: 7n }),
+    };
+    const { permit2Authorization, signature } = payment.payload as ExactEvmPermit2Payload;
+
+    const result = await settle(wallet as unknown as SignerWallet, payment, paymentRequirements);
+
+    expect(result).toEqual({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer: from.address,
+      blockNumber: "7",
+    });
+    expect(wallet.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: PERMIT2_ADDRESS,
+        functionName: "permitWitnessTransferFrom",
+        args: [
+          {
+            permitted: { token: paymentRequirements.asset, amount: 1000000n },
+            nonce: BigInt(permit2Authorization.nonce),
+            deadline: BigInt(permit2Authorization.deadline),
+          },
+          { to: paymentRequirements.payTo, requestedAmount: 1000000n },
+          from.address,
+          hashPermit2Witness(permit2Authorization.witness),
+          "Witness witness)TokenPermissions(address token,uint256 amount)Witness(address to,string resource)",
+          signature,
+        ],
+      }),
+    );
+  });
+
+  it("does not settle with a wallet other than the spender", async () => {
+    const wallet = {
+      ...client,
+      account: { address: from.address },
+      writeContract: vi.fn(),
+    };
+
+    const result = await settle(wallet as unknown as SignerWallet, payment, paymentRequirements);
+
+    expect(result.errorReason).toBe("invalid_exact_evm_payload_permit2_spender_mismatch");
+    expect(wallet.writeContract).not.toHaveBeenCalled();
+  });
+});
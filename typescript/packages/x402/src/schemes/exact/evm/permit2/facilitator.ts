@@ -0,0 +1,229 @@
+import { Account, Address, Chain, getAddress, Hex, Transport } from "viem";
+import { getAllowance, getERC20Balance, isPermit2NonceUsed } from "../../../../shared/evm";
+import {
+  ConnectedClient,
+  PERMIT2_ADDRESS,
+  permit2ABI,
+  permit2WitnessTypeString,
+  SignerWallet,
+} from "../../../../types/shared/evm";
+import {
+  ExactEvmPermit2Payload,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "../../../../types/verify";
+import { SCHEME } from "../../../exact";
+import { getPermit2TypedData, hashPermit2Witness } from "./sign";
+
+/**
+ * Verifies a Permit2 payment payload against the required payment details
+ *
+ * This function performs several verification steps:
+ * - Validates the Permit2 signature of the payer
+ * - Confirms the transfer is for the required token, by the facilitator, to the recipient and resource
+ * - Checks the deadline is sufficiently in the future
+ * - Checks the nonce has not been used on-chain
+ * - Verifies Permit2 may transfer enough of the payer's tokens, and the payer holds them
+ * - Ensures the permitted amount meets the required amount
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed payment payload containing the Permit2 transfer and signature
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verifyPermit2<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { signature, permit2Authorization: authorization } =
+    payload.payload as ExactEvmPermit2Payload;
+  const payer = authorization.from;
+
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return { isValid: false, invalidReason: "unsupported_scheme", payer };
+  }
+
+  let typedData: ReturnType<typeof getPermit2TypedData>;
+  try {
+    typedData = getPermit2TypedData(authorization, payload.network);
+  } catch {
+    return { isValid: false, invalidReason: "invalid_network", payer };
+  }
+
+  const validSignature = await client.verifyTypedData({
+    address: payer as Address,
+    ...typedData,
+    signature: signature as Hex,
+  });
+  if (!validSignature) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_signature", payer };
+  }
+
+  if (getAddress(authorization.permitted.token) !== getAddress(paymentRequirements.asset)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_permit2_token_mismatch",
+      payer,
+    };
+  }
+
+  // only the spender named in the signature can execute the transfer
+  const spender = paymentRequirements.extra?.spender;
+  if (!spender || getAddress(authorization.spender) !== getAddress(spender)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_permit2_spender_mismatch",
+      payer,
+    };
+  }
+
+  if (getAddress(authorization.witness.to) !== getAddress(paymentRequirements.payTo)) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_recipient_mismatch", payer };
+  }
+
+  if (authorization.witness.resource !== paymentRequirements.resource) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_permit2_resource_mismatch",
+      payer,
+    };
+  }
+
+  // Pad 3 block to account for round tripping
+  if (BigInt(authorization.deadline) < BigInt(Math.floor(Date.now() / 1000) + 6)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_authorization_valid_before",
+      payer,
+    };
+  }
+
+  if (await isPermit2NonceUsed(client, payer as Address, BigInt(authorization.nonce))) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_permit2_nonce", payer };
+  }
+
+  const maxAmountRequired = BigInt(paymentRequirements.maxAmountRequired);
+  const allowance = await getAllowance(
+    client,
+    paymentRequirements.asset as Address,
+    payer as Address,
+    PERMIT2_ADDRESS,
+  );
+  if (allowance < maxAmountRequired) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_permit2_allowance", payer };
+  }
+
+  const balance = await getERC20Balance(
+    client,
+    paymentRequirements.asset as Address,
+    payer as Address,
+  );
+  if (balance < maxAmountRequired) {
+    return { isValid: false, invalidReason: "insufficient_funds", payer };
+  }
+
+  if (BigInt(authorization.permitted.amount) < maxAmountRequired) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_authorization_value",
+      payer,
+    };
+  }
+
+  return { isValid: true, invalidReason: undefined, payer };
+}
+
+/**
+ * Settles a Permit2 payment by executing `permitWitnessTransferFrom` on Permit2
+ *
+ * The facilitator wallet must be the spender named in the signature. It transfers
+ * `maxAmountRequired` from the payer to the recipient bound by the witness.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The signed payment payload containing the Permit2 transfer and signature
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function settlePermit2<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<SettleResponse> {
+  const { signature, permit2Authorization: authorization } =
+    paymentPayload.payload as ExactEvmPermit2Payload;
+  const payer = authorization.from;
+
+  // re-verify to ensure the payment is still valid
+  const valid = await verifyPermit2(wallet, paymentPayload, paymentRequirements);
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+      payer,
+    };
+  }
+
+  if (getAddress(wallet.account!.address) !== getAddress(authorization.spender)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_exact_evm_payload_permit2_spender_mismatch",
+      payer,
+    };
+  }
+
+  const tx = await wallet.writeContract({
+    address: PERMIT2_ADDRESS,
+    abi: permit2ABI,
+    functionName: "permitWitnessTransferFrom" as const,
+    args: [
+      {
+        permitted: {
+          token: authorization.permitted.token as Address,
+          amount: BigInt(authorization.permitted.amount),
+        },
+        nonce: BigInt(authorization.nonce),
+        deadline: BigInt(authorization.deadline),
+      },
+      {
+        to: authorization.witness.to as Address,
+        requestedAmount: BigInt(paymentRequirements.maxAmountRequired),
+      },
+      payer as Address,
+      hashPermit2Witness(authorization.witness),
+      permit2WitnessTypeString,
+      signature as Hex,
+    ],
+    chain: wallet.chain as Chain,
+  });
+
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: tx,
+      network: paymentPayload.network,
+      payer,
+    };
+  }
+
+  return {
+    success: true,
+    transaction: tx,
+    network: paymentPayload.network,
+    payer,
+    blockNumber: receipt.blockNumber.toString(),
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./client";
+export * from "./facilitator";
+export * from "./sign";
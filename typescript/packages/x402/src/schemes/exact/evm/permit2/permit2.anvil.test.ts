@@ -0,0 +1,210 @@
+import fs from "fs";
+import path from "path";
+import {
+  Abi,
+  Address,
+  createTestClient,
+  createWalletClient,
+  domainSeparator,
+  Hex,
+  http,
+  maxUint256,
+  publicActions,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { getERC20Balance } from "../../../../shared/evm";
+import {
+  createSigner,
+  PERMIT2_ADDRESS,
+  permit2ABI,
+  permit2Domain,
+  permit2WitnessTypeString,
+  registerEvmNetwork,
+  SignerWallet,
+} from "../../../../types/shared/evm";
+import { ExactEvmPermit2Payload, PaymentRequirements } from "../../../../types/verify";
+import { createPayment } from "../client";
+import { settle, verify } from "../facilitator";
+import { hashPermit2Witness } from "./sign";
+
+// run with a local anvil chain and the contracts built by `forge build`, see contracts/README.md
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+// the default accounts of anvil
+const facilitatorKey: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const payerKey: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const payTo: Address = "0x000000000000000000000000000000000000dEaD";
+
+/**
+ * Reads a contract compiled by forge
+ *
+ * @param name - The name of the contract
+ * @returns The ABI and bytecode of the contract
+ */
+function readArtifact(name: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(
+    fs.readFileSync(
+      path.join(process.cwd(), "contracts", "out", `${name}.sol`, `${name}.json`),
+      "utf8",
+    ),
+  );
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+describe.skipIf(!rpcUrl)("exact evm Permit2 transfers on anvil", () => {
+  let facilitator: SignerWallet;
+  let payer: SignerWallet;
+  let token: Address;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Deploys a contract built by forge
+   *
+   * @param name - The name of the contract
+   * @param args - The constructor arguments
+   * @returns The address of the contract
+   */
+  async function deploy(name: string, args: unknown[] = []): Promise<Address> {
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(facilitatorKey),
+      chain: foundry,
+      transport: http(rpcUrl),
+    }).extend(publicActions);
+    const hash = await wallet.deployContract({ ...readArtifact(name), args });
+    const receipt = await wallet.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  }
+
+  /**
+   * Places Permit2 at its canonical address
+   *
+   * Permit2 caches its domain separator, which commits to its own address, in its code. The code
+   * of a fresh deployment is copied with the separator of the canonical address in its place.
+   */
+  async function deployPermit2(): Promise<void> {
+    const testClient = createTestClient({
+      chain: foundry,
+      mode: "anvil",
+      transport: http(rpcUrl),
+    }).extend(publicActions);
+    const deployed = await deploy("Permit2");
+    const code = await testClient.getCode({ address: deployed });
+    const separator = await testClient.readContract({
+      address: deployed,
+      abi: permit2ABI,
+      functionName: "DOMAIN_SEPARATOR",
+    });
+    const canonicalSeparator = domainSeparator({
+      domain: { ...permit2Domain, chainId: foundry.id, verifyingContract: PERMIT2_ADDRESS },
+    });
+
+    await testClient.setCode({
+      address: PERMIT2_ADDRESS,
+      bytecode: code!.replaceAll(separator.slice(2), canonicalSeparator.slice(2)) as Hex,
+    });
+  }
+
+  beforeAll(async () => {
+    await deployPermit2();
+    token = await deploy("PermitToken", ["Permit Dollar"]);
+
+    registerEvmNetwork({
+      network: "anvil",
+      chain: foundry,
+      rpcUrl,
+      defaultAsset: { address: token, eip712: { name: "Permit Dollar", version: "1" } },
+    });
+    facilitator = createSigner("anvil", facilitatorKey);
+    payer = createSigner("anvil", payerKey);
+
+    // the one-time approval of Permit2 by the payer
+    const hash = await payer.writeContract({
+      address: token,
+      abi: readArtifact("PermitToken").abi,
+      functionName: "approve",
+      args: [PERMIT2_ADDRESS, maxUint256],
+      chain: foundry,
+    });
+    await payer.waitForTransactionReceipt({ hash });
+  });
+
+  beforeEach(async () => {
+    const hash = await facilitator.writeContract({
+      address: token,
+      abi: readArtifact("PermitToken").abi,
+      functionName: "mint",
+      args: [payer.account.address, 1_000_000n],
+      chain: foundry,
+    });
+    await facilitator.waitForTransactionReceipt({ hash });
+
+    paymentRequirements = {
+      scheme: "exact",
+      network: "anvil",
+      maxAmountRequired: "1000000",
+      resource: "https://example.com/resource",
+      description: "Test resource",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 300,
+      asset: token,
+      extra: { assetTransferMethod: "permit2", spender: facilitator.account.address },
+    };
+  });
+
+  it("settles a transfer to the recipient", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    const received = await getERC20Balance(payer, token, payTo);
+
+    expect(await verify(payer, payment, paymentRequirements)).toEqual({
+      isValid: true,
+      invalidReason: undefined,
+      payer: payer.account.address,
+    });
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(true);
+    expect(await getERC20Balance(payer, token, payTo)).toBe(received + 1_000_000n);
+  });
+
+  it("rejects a transfer that was already settled", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    await settle(facilitator, payment, paymentRequirements);
+
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("invalid_exact_evm_payload_permit2_nonce");
+  });
+
+  it("only lets the spender execute the transfer", async () => {
+    const payment = await createPayment(payer, 1, {
+      ...paymentRequirements,
+      extra: { ...paymentRequirements.extra, spender: payer.account.address },
+    });
+    const { permit2Authorization, signature } = payment.payload as ExactEvmPermit2Payload;
+
+    await expect(
+      facilitator.writeContract({
+        address: PERMIT2_ADDRESS,
+        abi: permit2ABI,
+        functionName: "permitWitnessTransferFrom",
+        args: [
+          {
+            permitted: { token, amount: 1_000_000n },
+            nonce: BigInt(permit2Authorization.nonce),
+            deadline: BigInt(permit2Authorization.deadline),
+          },
+          { to: payTo, requestedAmount: 1_000_000n },
+          payer.account.address,
+          hashPermit2Witness(permit2Authorization.witness),
+          permit2WitnessTypeString,
+          signature as Hex,
+        ],
+        chain: foundry,
+      }),
+    ).rejects.toThrow();
+  });
+});
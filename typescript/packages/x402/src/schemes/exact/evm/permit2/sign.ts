@@ -0,0 +1,85 @@
+import { Chain, getAddress, hashStruct, Hex, LocalAccount, Transport } from "viem";
+import { getNetworkId } from "../../../../shared";
+import {
+  isAccount,
+  isSignerWallet,
+  PERMIT2_ADDRESS,
+  permit2Domain,
+  permit2WitnessTypes,
+  SignerWallet,
+} from "../../../../types/shared/evm";
+import { ExactEvmPermit2Authorization, PaymentRequirements } from "../../../../types/verify";
+
+/**
+ * Builds the typed data of a Permit2 `PermitWitnessTransferFrom` message
+ *
+ * @param authorization - The Permit2 transfer, with its witness
+ * @param network - The network where Permit2 is deployed
+ * @returns The typed data to sign or verify
+ */
+export function getPermit2TypedData(
+  authorization: ExactEvmPermit2Authorization,
+  network: PaymentRequirements["network"],
+) {
+  const { permitted, spender, nonce, deadline, witness } = authorization;
+  return {
+    types: permit2WitnessTypes,
+    domain: {
+      ...permit2Domain,
+      chainId: getNetworkId(network),
+      verifyingContract: PERMIT2_ADDRESS,
+    },
+    primaryType: "PermitWitnessTransferFrom" as const,
+    message: {
+      permitted: { token: getAddress(permitted.token), amount: BigInt(permitted.amount) },
+      spender: getAddress(spender),
+      nonce: BigInt(nonce),
+      deadline: BigInt(deadline),
+      witness: { to: getAddress(witness.to), resource: witness.resource },
+    },
+  };
+}
+
+/**
+ * Hashes the witness of a Permit2 transfer, as passed to `permitWitnessTransferFrom`
+ *
+ * @param witness - The recipient and resource of the payment
+ * @returns The EIP-712 struct hash of the witness
+ */
+export function hashPermit2Witness(witness: ExactEvmPermit2Authorization["witness"]): Hex {
+  return hashStruct({
+    types: permit2WitnessTypes,
+    primaryType: "Witness",
+    data: { to: getAddress(witness.to), resource: witness.resource },
+  });
+}
+
+/**
+ * Signs a Permit2 transfer of the payment amount to the facilitator named as spender
+ *
+ * @param walletClient - The wallet client that will sign the transfer
+ * @param authorization - The Permit2 transfer, with its witness
+ * @param paymentRequirements - The payment requirements containing the network
+ * @returns The signature for the transfer
+ */
+export async function signPermit2Authorization<transport extends Transport, chain extends Chain>(
+  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  authorization: ExactEvmPermit2Authorization,
+  paymentRequirements: PaymentRequirements,
+): Promise<{ signature: Hex }> {
+  const data = getPermit2TypedData(authorization, paymentRequirements.network);
+
+  if (isSignerWallet(walletClient)) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else if (isAccount(walletClient) && walletClient.signTypedData) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else {
+    throw new Error("Invalid wallet client provided does not support signTypedData");
+  }
+}
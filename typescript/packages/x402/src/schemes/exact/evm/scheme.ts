@@ -0,0 +1,86 @@
+import { Chain, Hex, toHex, Transport } from "viem";
+import { z } from "zod";
+import {
+  isEvmSignerWallet,
+  isMultiNetworkSigner,
+  MultiNetworkSigner,
+  Signer,
+  SupportedEVMNetworks,
+} from "../../../types/shared";
+import {
+  ConnectedClient as EvmConnectedClient,
+  EvmSigner,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import {
+  ExactEvmPayload,
+  ExactEvmPayloadSchema,
+  ExactEvmPermit2Payload,
+  ExactEvmPermit2PayloadSchema,
+} from "../../../types/verify";
+import type { SchemeImplementation } from "../../registry";
+import { createPaymentHeader, preparePaymentHeader, signPaymentHeader } from "./client";
+import { settle, settleBatch, verify } from "./facilitator";
+import { isRequestNonce } from "./sign";
+import { encodePayment } from "./utils/paymentUtils";
+
+/**
+ * The `exact` scheme on EVM networks, backed by EIP-3009 transfer authorizations, or by Permit2
+ * signature transfers for tokens without EIP-3009
+ */
+export const exactEvmScheme: SchemeImplementation = {
+  scheme: "exact",
+  networks: SupportedEVMNetworks,
+  payloadSchema: z.union([ExactEvmPayloadSchema, ExactEvmPermit2PayloadSchema]),
+  createPaymentHeader: (client, x402Version, paymentRequirements, _config, request) =>
+    createPaymentHeader(getEvmSigner(client), x402Version, paymentRequirements, request),
+  preparePaymentHeader,
+  signPaymentHeader: (client, paymentRequirements, unsignedPaymentHeader) =>
+    signPaymentHeader(getEvmSigner(client), paymentRequirements, unsignedPaymentHeader),
+  verify: (client, payload, paymentRequirements) =>
+    verify(client as EvmConnectedClient<Transport, Chain>, payload, paymentRequirements),
+  settle: (client, payload, paymentRequirements) =>
+    settle(client as SignerWallet<Chain, Transport>, payload, paymentRequirements),
+  settleBatch: (client, payments) =>
+    settleBatch(client as SignerWallet<Chain, Transport>, payments),
+  encodePayment,
+  // an EIP-3009 authorization or a Permit2 transfer can only be used once per signer and nonce
+  getPaymentId: payment => {
+    if ("permit2Authorization" in payment.payload) {
+      const { from, nonce } = (payment.payload as ExactEvmPermit2Payload).permit2Authorization;
+      return `exact:${payment.network}:permit2:${from.toLowerCase()}:${nonce}`;
+    }
+    const { from, nonce } = (payment.payload as ExactEvmPayload).authorization;
+    return `exact:${payment.network}:${from.toLowerCase()}:${nonce.toLowerCase()}`;
+  },
+  getPayTo: payment =>
+    "permit2Authorization" in payment.payload
+      ? (payment.payload as ExactEvmPermit2Payload).permit2Authorization.witness.to
+      : (payment.payload as ExactEvmPayload).authorization.to,
+  isBoundToRequest: (payment, requestHash) => {
+    if ("permit2Authorization" in payment.payload) {
+      const { nonce } = (payment.payload as ExactEvmPermit2Payload).permit2Authorization;
+      return isRequestNonce(toHex(BigInt(nonce), { size: 32 }), requestHash);
+    }
+    return isRequestNonce(
+      (payment.payload as ExactEvmPayload).authorization.nonce as Hex,
+      requestHash,
+    );
+  },
+};
+
+/**
+ * Picks the EVM signer to pay with
+ *
+ * @param client - The signer, or a signer per network kind
+ * @returns The EVM signer
+ * @throws Error if the client cannot sign EVM payments
+ */
+export function getEvmSigner(client: Signer | MultiNetworkSigner): EvmSigner {
+  const evmClient = isMultiNetworkSigner(client) ? client.evm : client;
+
+  if (!isEvmSignerWallet(evmClient)) {
+    throw new Error("Invalid evm wallet client provided");
+  }
+  return evmClient;
+}
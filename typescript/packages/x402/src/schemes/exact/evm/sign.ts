@@ -1,4 +1,14 @@
-import { Chain, getAddress, Hex, LocalAccount, toHex, Transport } from "viem";
+import {
+  Chain,
+  concat,
+  getAddress,
+  Hex,
+  keccak256,
+  LocalAccount,
+  slice,
+  toHex,
+  Transport,
+} from "viem";
 import { getNetworkId } from "../../../shared";
 import {
   authorizationTypes,
@@ -83,3 +93,38 @@ export function createNonce(): Hex {
         require("crypto").webcrypto;
   return toHex(cryptoObj.getRandomValues(new Uint8Array(32)));
 }
+
+/**
+ * Generates a nonce bound to a request
+ *
+ * The first half of the nonce is random, the second half commits to the request, so the resource
+ * server can tell which request an authorization was created for while nonces stay unique.
+ *
+ * @param requestHash - The hash of the request, see `hashPaymentRequest`
+ * @returns A 32-byte nonce as a hex string
+ */
+export function createRequestNonce(requestHash: Hex): Hex {
+  return bindNonce(slice(createNonce(), 0, 16), requestHash);
+}
+
+/**
+ * Checks whether a nonce was generated by `createRequestNonce` for a request
+ *
+ * @param nonce - The nonce of an authorization
+ * @param requestHash - The hash of the request
+ * @returns True if the nonce is bound to the request
+ */
+export function isRequestNonce(nonce: Hex, requestHash: Hex): boolean {
+  return nonce.toLowerCase() === bindNonce(slice(nonce, 0, 16), requestHash);
+}
+
+/**
+ * Appends the commitment to a request to the random half of a nonce
+ *
+ * @param salt - The random 16 bytes of the nonce
+ * @param requestHash - The hash of the request
+ * @returns The 32-byte nonce, in lowercase
+ */
+function bindNonce(salt: Hex, requestHash: Hex): Hex {
+  return concat([salt, slice(keccak256(concat([salt, requestHash])), 0, 16)]).toLowerCase() as Hex;
+}
@@ -1,10 +1,15 @@
 import { safeBase64Encode, safeBase64Decode } from "../../../../shared";
-import { SupportedEVMNetworks, SupportedSVMNetworks } from "../../../../types";
+import {
+  SupportedEVMNetworks,
+  SupportedSuiNetworks,
+  SupportedSVMNetworks,
+} from "../../../../types";
 import {
   PaymentPayload,
   PaymentPayloadSchema,
   ExactEvmPayload,
   ExactSvmPayload,
+  ExactSuiPayload,
 } from "../../../../types/verify";
 
 /**
@@ -16,6 +21,14 @@ import {
 export function encodePayment(payment: PaymentPayload): string {
   let safe: PaymentPayload;
 
+  // evm permits (upto scheme) and Permit2 transfers only hold string values
+  if (
+    SupportedEVMNetworks.includes(payment.network) &&
+    ("permit" in payment.payload || "permit2Authorization" in payment.payload)
+  ) {
+    return safeBase64Encode(JSON.stringify(payment));
+  }
+
   // evm
   if (SupportedEVMNetworks.includes(payment.network)) {
     const evmPayload = payment.payload as ExactEvmPayload;
@@ -40,6 +53,12 @@ export function encodePayment(payment: PaymentPayload): string {
     return safeBase64Encode(JSON.stringify(safe));
   }
 
+  // sui
+  if (SupportedSuiNetworks.includes(payment.network)) {
+    safe = { ...payment, payload: payment.payload as ExactSuiPayload };
+    return safeBase64Encode(JSON.stringify(safe));
+  }
+
   throw new Error("Invalid network");
 }
 
@@ -69,6 +88,14 @@ export function decodePayment(payment: string): PaymentPayload {
       ...parsed,
       payload: parsed.payload as ExactSvmPayload,
     };
+  }
+
+  // sui
+  else if (SupportedSuiNetworks.includes(parsed.network)) {
+    obj = {
+      ...parsed,
+      payload: parsed.payload as ExactSuiPayload,
+    };
   } else {
     throw new Error("Invalid network");
   }
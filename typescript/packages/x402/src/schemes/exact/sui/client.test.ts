@@ -0,0 +1,155 @@
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ExactSuiPayload, PaymentRequirements } from "../../../types/verify";
+import { createAndSignPayment } from "./client";
+import { sponsorTransaction } from "./facilitator";
+import { getSuiClient } from "../../../shared/sui/rpc";
+
+vi.mock("../../../shared/sui/rpc", () => ({
+  getSuiClient: vi.fn(),
+}));
+
+const digest = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+/**
+ * Creates a Sui client answering the JSON-RPC calls made when building transactions
+ *
+ * @returns The client, whose coins are all owned by the address they are requested for
+ */
+function createStubClient(): SuiClient {
+  const request = async (input: { method: string; params: unknown[] }) => {
+    switch (input.method) {
+      case "suix_getCoins": {
+        const [, coinType] = input.params as [string, string];
+        const id = coinType.endsWith("::sui::SUI") ? "22" : "11";
+        return {
+          data: [
+            {
+              coinObjectId: `0x${id.repeat(32)}`,
+              version: "5",
+              digest,
+              balance: "100000000",
+              coinType,
+              previousTransaction: digest,
+            },
+          ],
+          hasNextPage: false,
+          nextCursor: null,
+        };
+      }
+      case "suix_getReferenceGasPrice":
+        return "1000";
+      case "sui_dryRunTransactionBlock":
+        return {
+          effects: {
+            status: { status: "success" },
+            gasUsed: {
+              computationCost: "1000000",
+              storageCost: "2000000",
+              storageRebate: "1000000",
+              nonRefundableStorageFee: "10000",
+            },
+          },
+          balanceChanges: [],
+        };
+      default:
+        throw new Error(`Unexpected call to ${input.method}`);
+    }
+  };
+  return new SuiClient({ transport: { request, subscribe: vi.fn() } as never });
+}
+
+describe("createAndSignPayment", () => {
+  const payer = new Ed25519Keypair();
+  const facilitator = new Ed25519Keypair();
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "sui-testnet",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/weather",
+    description: "",
+    mimeType: "",
+    payTo: `0x${"ab".repeat(32)}`,
+    maxTimeoutSeconds: 60,
+    asset: "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC",
+  };
+
+  beforeEach(() => {
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("signs a transaction whose gas is paid by the payer", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+    const payload = payment.payload as ExactSuiPayload;
+
+    const { sender, gasData } = Transaction.from(payload.transaction).getData();
+    expect(sender).toBe(payer.toSuiAddress());
+    expect(gasData.owner ?? sender).toBe(payer.toSuiAddress());
+    await expect(
+      verifyTransactionSignature(fromBase64(payload.transaction), payload.signature, {
+        address: payer.toSuiAddress(),
+      }),
+    ).resolves.toBeDefined();
+  });
+
+  it("signs the transaction sponsored by the gas station", async () => {
+    const gasStation = vi.fn(async (_url: string, init: RequestInit) => {
+      const { network, sender, transactionKind } = JSON.parse(init.body as string);
+      const transaction = await sponsorTransaction(facilitator, network, sender, transactionKind);
+      return new Response(JSON.stringify({ transaction }));
+    });
+    vi.stubGlobal("fetch", gasStation);
+
+    const payment = await createAndSignPayment(payer, 1, {
+      ...paymentRequirements,
+      extra: { gasStation: "https://facilitator.example.com/sui/gas-station" },
+    });
+    const payload = payment.payload as ExactSuiPayload;
+
+    expect(gasStation).toHaveBeenCalledWith(
+      "https://facilitator.example.com/sui/gas-station",
+      expect.objectContaining({ method: "POST" }),
+    );
+    const { sender, gasData } = Transaction.from(payload.transaction).getData();
+    expect(sender).toBe(payer.toSuiAddress());
+    expect(gasData.owner).toBe(facilitator.toSuiAddress());
+  });
+
+  it("rejects a gas station returning another transaction", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        const other = new Transaction();
+        other.setSender(payer.toSuiAddress());
+        other.transferObjects([other.gas], facilitator.toSuiAddress());
+        other.setGasOwner(facilitator.toSuiAddress());
+        const bytes = await other.build({ client: createStubClient() });
+        return new Response(JSON.stringify({ transaction: toBase64(bytes) }));
+      }),
+    );
+
+    await expect(
+      createAndSignPayment(payer, 1, {
+        ...paymentRequirements,
+        extra: { gasStation: "https://facilitator.example.com/sui/gas-station" },
+      }),
+    ).rejects.toThrow("The gas station returned a different transaction");
+  });
+
+  it("refuses payment requirements binding payments to requests", async () => {
+    await expect(
+      createAndSignPayment(payer, 1, {
+        ...paymentRequirements,
+        extra: { requestBinding: true },
+      }),
+    ).rejects.toThrow("Sui payments cannot be bound to requests");
+  });
+});
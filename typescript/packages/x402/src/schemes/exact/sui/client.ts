@@ -0,0 +1,159 @@
+import { SuiClient } from "@mysten/sui/client";
+import { coinWithBalance, Transaction } from "@mysten/sui/transactions";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import { encodePayment } from "../../utils";
+import { requiresRequestBinding } from "../../../shared/requestBinding";
+import { getSuiClient } from "../../../shared/sui/rpc";
+import { SuiSigner } from "../../../shared/sui/wallet";
+import { X402Config } from "../../../types/config";
+import { BoundRequest } from "../../../types/shared/requestBinding";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SuiGasStationRequest,
+  SuiGasStationResponseSchema,
+} from "../../../types/verify";
+
+/**
+ * Creates and encodes a payment header for the given client and payment requirements.
+ *
+ * @param client - The signer instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param request - The request the payment is sent with, Sui payments cannot be bound to it
+ * @returns A promise that resolves to a base64 encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: SuiSigner,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+  request?: BoundRequest,
+): Promise<string> {
+  const paymentPayload = await createAndSignPayment(
+    client,
+    x402Version,
+    paymentRequirements,
+    config,
+    request,
+  );
+  return encodePayment(paymentPayload);
+}
+
+/**
+ * Creates and signs a payment for the given client and payment requirements.
+ *
+ * The transaction is sponsored by the gas station at `paymentRequirements.extra.gasStation` when
+ * there is one, otherwise the payer pays for gas.
+ *
+ * @param client - The signer instance used to create and sign the payment transaction
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param _ - The request the payment is sent with, Sui payments cannot be bound to it
+ * @returns A promise that resolves to a payment payload containing the signed transaction
+ * @throws Error if the payment requirements bind payments to requests
+ */
+export async function createAndSignPayment(
+  client: SuiSigner,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+  _?: BoundRequest,
+): Promise<PaymentPayload> {
+  if (requiresRequestBinding(paymentRequirements)) {
+    throw new Error("Sui payments cannot be bound to requests");
+  }
+
+  const suiClient = getSuiClient(paymentRequirements.network, config?.suiConfig?.rpcUrl);
+  const gasStation = paymentRequirements.extra?.gasStation as string | undefined;
+  const transactionBytes = gasStation
+    ? await createSponsoredTransferTransaction(client, paymentRequirements, suiClient, gasStation)
+    : await createTransferTransaction(client, paymentRequirements).build({ client: suiClient });
+
+  const { signature } = await client.signTransaction(transactionBytes);
+
+  return {
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    x402Version: x402Version,
+    payload: {
+      signature,
+      transaction: toBase64(transactionBytes),
+    },
+  };
+}
+
+/**
+ * Creates a transaction transferring `maxAmountRequired` of the asset to `payTo`
+ *
+ * @param client - The signer of the payer
+ * @param paymentRequirements - The payment requirements
+ * @param sponsored - Whether the gas is paid by a sponsor, whose gas coin must not be spent
+ * @returns The transaction, without gas data
+ */
+export function createTransferTransaction(
+  client: SuiSigner,
+  paymentRequirements: PaymentRequirements,
+  sponsored = false,
+): Transaction {
+  const transaction = new Transaction();
+  transaction.setSender(client.toSuiAddress());
+
+  const coin = coinWithBalance({
+    type: paymentRequirements.asset,
+    balance: BigInt(paymentRequirements.maxAmountRequired),
+    useGasCoin: !sponsored,
+  });
+  transaction.transferObjects([coin], paymentRequirements.payTo);
+  return transaction;
+}
+
+/**
+ * Creates a transfer transaction whose gas is paid by a gas station
+ *
+ * @param client - The signer of the payer
+ * @param paymentRequirements - The payment requirements
+ * @param suiClient - The RPC client used to select the coins of the payer
+ * @param gasStation - The URL of the gas station
+ * @returns The transaction bytes, with the gas data of the sponsor
+ * @throws Error if the gas station fails or returns another transaction
+ */
+async function createSponsoredTransferTransaction(
+  client: SuiSigner,
+  paymentRequirements: PaymentRequirements,
+  suiClient: SuiClient,
+  gasStation: string,
+): Promise<Uint8Array> {
+  const transactionKind = await createTransferTransaction(client, paymentRequirements, true).build({
+    client: suiClient,
+    onlyTransactionKind: true,
+  });
+
+  const body: SuiGasStationRequest = {
+    network: paymentRequirements.network,
+    sender: client.toSuiAddress(),
+    transactionKind: toBase64(transactionKind),
+  };
+  const response = await fetch(gasStation, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`The gas station failed to sponsor the transaction: ${response.status}`);
+  }
+  const { transaction } = SuiGasStationResponseSchema.parse(await response.json());
+
+  // the payer only signs the transaction it built, paying nothing but the price
+  const sponsored = Transaction.from(transaction);
+  const sponsoredKind = await sponsored.build({ onlyTransactionKind: true });
+  if (
+    sponsored.getData().sender !== body.sender ||
+    toBase64(sponsoredKind) !== body.transactionKind
+  ) {
+    throw new Error("The gas station returned a different transaction");
+  }
+  return fromBase64(transaction);
+}
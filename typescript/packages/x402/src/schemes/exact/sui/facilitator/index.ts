@@ -0,0 +1,3 @@
+export * from "./settle";
+export * from "./sponsor";
+export * from "./verify";
@@ -0,0 +1,147 @@
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ExactSuiPayload, PaymentRequirements } from "../../../../types/verify";
+import { createAndSignPayment } from "../client";
+import { settle } from "./settle";
+import { sponsorTransaction } from "./sponsor";
+import { getSuiClient } from "../../../../shared/sui/rpc";
+
+vi.mock("../../../../shared/sui/rpc", () => ({
+  getSuiClient: vi.fn(),
+}));
+
+const digest = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+describe("settle", () => {
+  const payer = new Ed25519Keypair();
+  const facilitator = new Ed25519Keypair();
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "sui-testnet",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/weather",
+    description: "",
+    mimeType: "",
+    payTo: `0x${"ab".repeat(32)}`,
+    maxTimeoutSeconds: 60,
+    asset: "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC",
+  };
+  const execute = vi.fn();
+
+  /**
+   * Creates a Sui client building, simulating and executing transactions
+   *
+   * @param status - The status of executed transactions
+   * @returns The client, whose coins are all owned by the address they are requested for
+   */
+  function createStubClient(status = "success"): SuiClient {
+    const request = async (input: { method: string; params: unknown[] }) => {
+      switch (input.method) {
+        case "suix_getCoins": {
+          const [, coinType] = input.params as [string, string];
+          const id = coinType.endsWith("::sui::SUI") ? "22" : "11";
+          return {
+            data: [
+              {
+                coinObjectId: `0x${id.repeat(32)}`,
+                version: "5",
+                digest,
+                balance: "100000000",
+                coinType,
+                previousTransaction: digest,
+              },
+            ],
+            hasNextPage: false,
+            nextCursor: null,
+          };
+        }
+        case "suix_getReferenceGasPrice":
+          return "1000";
+        case "sui_dryRunTransactionBlock":
+          return {
+            effects: {
+              status: { status: "success" },
+              gasUsed: {
+                computationCost: "1000000",
+                storageCost: "2000000",
+                storageRebate: "1000000",
+                nonRefundableStorageFee: "10000",
+              },
+            },
+            balanceChanges: [
+              {
+                owner: { AddressOwner: paymentRequirements.payTo },
+                coinType: paymentRequirements.asset,
+                amount: paymentRequirements.maxAmountRequired,
+              },
+            ],
+          };
+        case "sui_executeTransactionBlock":
+          execute(...input.params);
+          return { digest, effects: { status: { status } } };
+        case "sui_getTransactionBlock":
+          return { digest };
+        default:
+          throw new Error(`Unexpected call to ${input.method}`);
+      }
+    };
+    return new SuiClient({ transport: { request, subscribe: vi.fn() } as never });
+  }
+
+  beforeEach(() => {
+    execute.mockReset();
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient());
+  });
+
+  it("executes the transaction signed by the payer", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+    const payload = payment.payload as ExactSuiPayload;
+
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result).toEqual({
+      success: true,
+      errorReason: undefined,
+      payer: payer.toSuiAddress(),
+      transaction: digest,
+      network: "sui-testnet",
+    });
+    expect(execute).toHaveBeenCalledWith(payload.transaction, [payload.signature], {
+      showEffects: true,
+    });
+  });
+
+  it("co-signs the transactions it sponsors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const { network, sender, transactionKind } = JSON.parse(init.body as string);
+        const transaction = await sponsorTransaction(facilitator, network, sender, transactionKind);
+        return new Response(JSON.stringify({ transaction }));
+      }),
+    );
+    const payment = await createAndSignPayment(payer, 1, {
+      ...paymentRequirements,
+      extra: { gasStation: "https://facilitator.example.com/sui/gas-station" },
+    });
+    vi.unstubAllGlobals();
+    const payload = payment.payload as ExactSuiPayload;
+
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(true);
+    expect(execute.mock.calls[0][1]).toEqual([payload.signature, expect.any(String)]);
+  });
+
+  it("reports transactions that fail", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient("failure"));
+
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("invalid_transaction_state");
+    expect(result.transaction).toBe(digest);
+  });
+});
@@ -0,0 +1,78 @@
+import { fromBase64, normalizeSuiAddress } from "@mysten/sui/utils";
+import { decodeSuiTransaction, getSuiClient, SuiSigner } from "../../../../shared/sui";
+import { X402Config } from "../../../../types/config";
+import {
+  ExactSuiPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+} from "../../../../types/verify";
+import { verify } from "./verify";
+
+/**
+ * Settle the payment payload against the payment requirements.
+ *
+ * The facilitator adds its own signature to transactions it sponsors, and executes the transaction.
+ *
+ * @param signer - The signer of the facilitator, which sponsors gas when the client asked it to
+ * @param payload - The payment payload to settle
+ * @param paymentRequirements - The payment requirements to settle against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A SettleResponse indicating if the payment is settled and any error reason
+ */
+export async function settle(
+  signer: SuiSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<SettleResponse> {
+  const verifyResponse = await verify(signer, payload, paymentRequirements, config);
+  if (!verifyResponse.isValid) {
+    return {
+      success: false,
+      errorReason: verifyResponse.invalidReason,
+      network: payload.network,
+      transaction: "",
+      payer: verifyResponse.payer,
+    };
+  }
+
+  const suiPayload = payload.payload as ExactSuiPayload;
+  const { gasData } = decodeSuiTransaction(suiPayload).getData();
+  const signatures = [suiPayload.signature];
+  if (
+    gasData.owner &&
+    normalizeSuiAddress(gasData.owner) === normalizeSuiAddress(signer.toSuiAddress())
+  ) {
+    const { signature } = await signer.signTransaction(fromBase64(suiPayload.transaction));
+    signatures.push(signature);
+  }
+
+  const client = getSuiClient(paymentRequirements.network, config?.suiConfig?.rpcUrl);
+  try {
+    const response = await client.executeTransactionBlock({
+      transactionBlock: suiPayload.transaction,
+      signature: signatures,
+      options: { showEffects: true },
+    });
+    await client.waitForTransaction({ digest: response.digest });
+
+    const success = response.effects?.status.status === "success";
+    return {
+      success,
+      errorReason: success ? undefined : "invalid_transaction_state",
+      payer: verifyResponse.payer,
+      transaction: response.digest,
+      network: payload.network,
+    };
+  } catch (error) {
+    console.error("Unexpected error during transaction settlement:", error);
+    return {
+      success: false,
+      errorReason: "unexpected_settle_error",
+      network: payload.network,
+      transaction: "",
+      payer: verifyResponse.payer,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { getSponsoredTransfer, getSuiClient, SuiSigner, usesGasCoin } from "../../../../shared/sui";
+import { X402Config } from "../../../../types/config";
+import { InvalidPaymentError, Network } from "../../../../types/shared";
+
+/**
+ * Sponsors the gas of a payment transaction, for the gas station advertised in
+ * `extra.gasStation`.
+ *
+ * The facilitator only adds its gas data: the client signs the returned transaction and the
+ * facilitator co-signs it when settling the payment.
+ *
+ * @param signer - The signer of the facilitator, whose coins pay for gas
+ * @param network - The network of the payment
+ * @param sender - The address of the payer
+ * @param transactionKind - The base64 encoded transaction kind built by the client
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns The base64 encoded transaction, with the gas data of the facilitator
+ * @throws InvalidPaymentError if the transaction spends the gas coin, or runs other commands than
+ * a transfer
+ */
+export async function sponsorTransaction(
+  signer: SuiSigner,
+  network: Network,
+  sender: string,
+  transactionKind: string,
+  config?: X402Config,
+): Promise<string> {
+  const transaction = Transaction.fromKind(transactionKind);
+  if (usesGasCoin(transaction)) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_sponsor_gas_coin_used");
+  }
+  if (!getSponsoredTransfer(transaction)) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_sponsor_commands");
+  }
+
+  transaction.setSender(sender);
+  transaction.setGasOwner(signer.toSuiAddress());
+  const bytes = await transaction.build({
+    client: getSuiClient(network, config?.suiConfig?.rpcUrl),
+  });
+  return toBase64(bytes);
+}
@@ -0,0 +1,258 @@
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ExactSuiPayload, PaymentPayload, PaymentRequirements } from "../../../../types/verify";
+import { createAndSignPayment, createTransferTransaction } from "../client";
+import { sponsorTransaction } from "./sponsor";
+import { MAX_SPONSORED_GAS_BUDGET, verify } from "./verify";
+import { getSuiClient } from "../../../../shared/sui/rpc";
+
+vi.mock("../../../../shared/sui/rpc", () => ({
+  getSuiClient: vi.fn(),
+}));
+
+const digest = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+/**
+ * Creates a Sui client answering the JSON-RPC calls made when building and simulating transactions
+ *
+ * @param balanceChanges - The balance changes of simulated transactions
+ * @param status - The status of simulated transactions
+ * @returns The client, whose coins are all owned by the address they are requested for
+ */
+function createStubClient(balanceChanges: unknown[] = [], status = "success"): SuiClient {
+  const request = async (input: { method: string; params: unknown[] }) => {
+    switch (input.method) {
+      case "suix_getCoins": {
+        const [, coinType] = input.params as [string, string];
+        const id = coinType.endsWith("::sui::SUI") ? "22" : "11";
+        return {
+          data: [
+            {
+              coinObjectId: `0x${id.repeat(32)}`,
+              version: "5",
+              digest,
+              balance: "100000000",
+              coinType,
+              previousTransaction: digest,
+            },
+          ],
+          hasNextPage: false,
+          nextCursor: null,
+        };
+      }
+      case "suix_getReferenceGasPrice":
+        return "1000";
+      case "sui_dryRunTransactionBlock":
+        return {
+          effects: {
+            status: { status },
+            gasUsed: {
+              computationCost: "1000000",
+              storageCost: "2000000",
+              storageRebate: "1000000",
+              nonRefundableStorageFee: "10000",
+            },
+          },
+          balanceChanges,
+        };
+      default:
+        throw new Error(`Unexpected call to ${input.method}`);
+    }
+  };
+  return new SuiClient({ transport: { request, subscribe: vi.fn() } as never });
+}
+
+describe("verify", () => {
+  const payer = new Ed25519Keypair();
+  const facilitator = new Ed25519Keypair();
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "sui-testnet",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/weather",
+    description: "",
+    mimeType: "",
+    payTo: `0x${"ab".repeat(32)}`,
+    maxTimeoutSeconds: 60,
+    asset: "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC",
+  };
+  const received = (amount: string) => [
+    {
+      owner: { AddressOwner: paymentRequirements.payTo },
+      coinType: paymentRequirements.asset,
+      amount,
+    },
+    {
+      owner: { AddressOwner: payer.toSuiAddress() },
+      coinType: paymentRequirements.asset,
+      amount: `-${amount}`,
+    },
+  ];
+
+  /**
+   * Creates a payment sponsored by the given signer
+   *
+   * @param sponsor - The signer whose coins pay for gas
+   * @returns The signed payment
+   */
+  async function createSponsoredPayment(sponsor: Ed25519Keypair): Promise<PaymentPayload> {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const { network, sender, transactionKind } = JSON.parse(init.body as string);
+        const transaction = await sponsorTransaction(sponsor, network, sender, transactionKind);
+        return new Response(JSON.stringify({ transaction }));
+      }),
+    );
+    const payment = await createAndSignPayment(payer, 1, {
+      ...paymentRequirements,
+      extra: { gasStation: "https://facilitator.example.com/sui/gas-station" },
+    });
+    vi.unstubAllGlobals();
+    return payment;
+  }
+
+  /**
+   * Creates a payment sponsored by the facilitator, without asking its gas station
+   *
+   * @param change - Changes the transfer transaction before it is built
+   * @returns The signed payment
+   */
+  async function createTamperedSponsoredPayment(
+    change: (transaction: Transaction) => void,
+  ): Promise<PaymentPayload> {
+    const transaction = createTransferTransaction(payer, paymentRequirements, true);
+    transaction.setGasOwner(facilitator.toSuiAddress());
+    change(transaction);
+    const bytes = await transaction.build({ client: createStubClient() });
+    const { signature } = await payer.signTransaction(bytes);
+    return {
+      x402Version: 1,
+      scheme: "exact",
+      network: "sui-testnet",
+      payload: { signature, transaction: toBase64(bytes) },
+    };
+  }
+
+  beforeEach(() => {
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient());
+  });
+
+  it("accepts a transaction paying the required amount", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient(received("1000")));
+
+    const result = await verify(facilitator, payment, paymentRequirements);
+
+    expect(result).toEqual({
+      isValid: true,
+      invalidReason: undefined,
+      payer: payer.toSuiAddress(),
+    });
+  });
+
+  it("accepts a transaction sponsored by the facilitator", async () => {
+    const payment = await createSponsoredPayment(facilitator);
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient(received("1000")));
+
+    const result = await verify(facilitator, payment, paymentRequirements);
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it("rejects a transaction sponsored by another address", async () => {
+    const payment = await createSponsoredPayment(new Ed25519Keypair());
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient(received("1000")));
+
+    const result = await verify(facilitator, payment, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_sponsor_mismatch");
+  });
+
+  it("rejects a sponsored transaction exceeding the gas budget", async () => {
+    const payment = await createTamperedSponsoredPayment(transaction =>
+      transaction.setGasBudget(MAX_SPONSORED_GAS_BUDGET + 1n),
+    );
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient(received("1000")));
+
+    const result = await verify(facilitator, payment, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_sponsor_gas_budget");
+  });
+
+  it("rejects a sponsored transaction running other commands than the transfer", async () => {
+    const payment = await createTamperedSponsoredPayment(transaction => {
+      transaction.moveCall({
+        target: "0x2::clock::timestamp_ms",
+        arguments: [transaction.object.clock()],
+      });
+    });
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient(received("1000")));
+
+    const result = await verify(facilitator, payment, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_sponsor_commands");
+  });
+
+  it("rejects a signature of another address", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+    const payload = payment.payload as ExactSuiPayload;
+    const { signature } = await new Ed25519Keypair().signTransaction(
+      fromBase64(payload.transaction),
+    );
+
+    const result = await verify(
+      facilitator,
+      { ...payment, payload: { ...payload, signature } },
+      paymentRequirements,
+    );
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_signature");
+    expect(result.payer).toBe(payer.toSuiAddress());
+  });
+
+  it("rejects a transaction that cannot be decoded", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+
+    const result = await verify(
+      facilitator,
+      { ...payment, payload: { ...payment.payload, transaction: "AAAA" } },
+      paymentRequirements,
+    );
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_transaction");
+  });
+
+  it("rejects a transaction paying less than the required amount", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient(received("999")));
+
+    const result = await verify(facilitator, payment, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_transaction_amount_mismatch");
+  });
+
+  it("rejects a transaction whose simulation fails", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+    vi.mocked(getSuiClient).mockReturnValue(createStubClient(received("1000"), "failure"));
+
+    const result = await verify(facilitator, payment, paymentRequirements);
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_transaction_simulation_failed");
+  });
+
+  it("rejects payments on another network", async () => {
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements);
+
+    const result = await verify(
+      facilitator,
+      { ...payment, network: "sui-mainnet" },
+      paymentRequirements,
+    );
+
+    expect(result.invalidReason).toBe("invalid_network");
+  });
+});
@@ -0,0 +1,229 @@
+import { DryRunTransactionBlockResponse } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { SCHEME } from "../../";
+import {
+  decodeSuiTransaction,
+  getSponsoredTransfer,
+  getSuiClient,
+  SuiSigner,
+  usesGasCoin,
+} from "../../../../shared/sui";
+import { X402Config } from "../../../../types/config";
+import { InvalidPaymentError, SupportedSuiNetworks, X402Error } from "../../../../types/shared";
+import {
+  ExactSuiPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  VerifyResponse,
+} from "../../../../types/verify";
+
+// the most a facilitator pays for the gas of a sponsored payment, in MIST (0.05 SUI)
+export const MAX_SPONSORED_GAS_BUDGET = 50_000_000n;
+
+/**
+ * Verify the payment payload against the payment requirements.
+ *
+ * The transaction must be signed by its sender and, when its gas is paid by another address, be
+ * sponsored by the facilitator within `MAX_SPONSORED_GAS_BUDGET`, and only transfer the price to
+ * `payTo`. It is then simulated and must transfer `maxAmountRequired` of the asset to `payTo`.
+ *
+ * @param signer - The signer of the facilitator, which sponsors gas when the client asked it to
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify(
+  signer: SuiSigner,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+): Promise<VerifyResponse> {
+  let payer: string | undefined;
+  try {
+    // verify that the scheme and network are supported
+    verifySchemesAndNetworks(payload, paymentRequirements);
+
+    // decode the transaction, whose sender is the payer
+    const suiPayload = payload.payload as ExactSuiPayload;
+    const transaction = decodeTransaction(suiPayload);
+    const { sender } = transaction.getData();
+    if (!sender) {
+      throw new InvalidPaymentError("invalid_exact_sui_payload_transaction");
+    }
+    payer = sender;
+
+    await verifySignature(suiPayload, sender);
+    verifySponsor(transaction, sender, signer, paymentRequirements);
+
+    // simulate the transaction and check what it pays
+    const client = getSuiClient(paymentRequirements.network, config?.suiConfig?.rpcUrl);
+    const dryRun = await client
+      .dryRunTransactionBlock({ transactionBlock: suiPayload.transaction })
+      .catch(error => {
+        throw new InvalidPaymentError(
+          "invalid_exact_sui_payload_transaction_simulation_failed",
+          undefined,
+          { cause: error },
+        );
+      });
+    if (dryRun.effects.status.status !== "success") {
+      throw new InvalidPaymentError("invalid_exact_sui_payload_transaction_simulation_failed");
+    }
+    verifyBalanceChanges(dryRun, paymentRequirements);
+
+    return {
+      isValid: true,
+      invalidReason: undefined,
+      payer,
+    };
+  } catch (error) {
+    // if the payment was rejected, return the reason it was rejected for
+    if (error instanceof X402Error) {
+      return {
+        isValid: false,
+        invalidReason: error.code,
+        payer,
+      };
+    }
+
+    // if the payment was not rejected for a known reason, return an unexpected error reason
+    console.error(error);
+    return {
+      isValid: false,
+      invalidReason: "unexpected_verify_error",
+      payer,
+    };
+  }
+}
+
+/**
+ * Verify that the scheme and network are supported.
+ *
+ * @param payload - The payment payload to verify
+ * @param paymentRequirements - The payment requirements to verify against
+ */
+export function verifySchemesAndNetworks(
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): void {
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    throw new InvalidPaymentError("unsupported_scheme");
+  }
+
+  if (
+    payload.network !== paymentRequirements.network ||
+    !SupportedSuiNetworks.includes(paymentRequirements.network)
+  ) {
+    throw new InvalidPaymentError("invalid_network");
+  }
+}
+
+/**
+ * Decodes the transaction of a payment payload
+ *
+ * @param payload - The Sui payment payload
+ * @returns The transaction
+ * @throws InvalidPaymentError if the transaction cannot be decoded
+ */
+function decodeTransaction(payload: ExactSuiPayload): Transaction {
+  try {
+    return decodeSuiTransaction(payload);
+  } catch (error) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_transaction", undefined, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Verifies that the transaction is signed by its sender
+ *
+ * @param payload - The Sui payment payload
+ * @param sender - The sender of the transaction
+ * @throws InvalidPaymentError if the signature is not the sender's
+ */
+async function verifySignature(payload: ExactSuiPayload, sender: string): Promise<void> {
+  try {
+    await verifyTransactionSignature(fromBase64(payload.transaction), payload.signature, {
+      address: sender,
+    });
+  } catch (error) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_signature", undefined, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Verifies the sponsor of a transaction whose gas is not paid by its sender
+ *
+ * The facilitator only co-signs transactions it sponsored, which do not spend its gas coin, stay
+ * within `MAX_SPONSORED_GAS_BUDGET` and run nothing but the transfer of the price to `payTo`.
+ *
+ * @param transaction - The transaction to verify
+ * @param sender - The sender of the transaction
+ * @param signer - The signer of the facilitator
+ * @param paymentRequirements - The payment requirements to verify against
+ * @throws InvalidPaymentError if the transaction is sponsored by another address, spends the gas
+ * coin of the facilitator, exceeds the gas budget or runs other commands
+ */
+function verifySponsor(
+  transaction: Transaction,
+  sender: string,
+  signer: SuiSigner,
+  paymentRequirements: PaymentRequirements,
+): void {
+  const { owner, budget } = transaction.getData().gasData;
+  if (!owner || normalizeSuiAddress(owner) === normalizeSuiAddress(sender)) {
+    return;
+  }
+  if (normalizeSuiAddress(owner) !== normalizeSuiAddress(signer.toSuiAddress())) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_sponsor_mismatch");
+  }
+  if (usesGasCoin(transaction)) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_sponsor_gas_coin_used");
+  }
+  if (budget === null || BigInt(budget) > MAX_SPONSORED_GAS_BUDGET) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_sponsor_gas_budget");
+  }
+
+  const transfer = getSponsoredTransfer(transaction);
+  if (
+    !transfer ||
+    normalizeSuiAddress(transfer.recipient) !== normalizeSuiAddress(paymentRequirements.payTo) ||
+    transfer.amount !== BigInt(paymentRequirements.maxAmountRequired)
+  ) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_sponsor_commands");
+  }
+}
+
+/**
+ * Verifies that the simulated transaction pays `maxAmountRequired` of the asset to `payTo`
+ *
+ * @param dryRun - The result of the simulation
+ * @param paymentRequirements - The payment requirements to verify against
+ * @throws InvalidPaymentError if the transaction pays another amount
+ */
+function verifyBalanceChanges(
+  dryRun: DryRunTransactionBlockResponse,
+  paymentRequirements: PaymentRequirements,
+): void {
+  const payTo = normalizeSuiAddress(paymentRequirements.payTo);
+  const asset = normalizeStructTag(paymentRequirements.asset);
+  const received = dryRun.balanceChanges
+    .filter(
+      change =>
+        typeof change.owner === "object" &&
+        "AddressOwner" in change.owner &&
+        normalizeSuiAddress(change.owner.AddressOwner) === payTo &&
+        normalizeStructTag(change.coinType) === asset,
+    )
+    .reduce((total, change) => total + BigInt(change.amount), 0n);
+
+  if (received !== BigInt(paymentRequirements.maxAmountRequired)) {
+    throw new InvalidPaymentError("invalid_exact_sui_payload_transaction_amount_mismatch");
+  }
+}
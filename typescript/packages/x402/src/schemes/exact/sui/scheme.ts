@@ -0,0 +1,34 @@
+import { SuiSigner } from "../../../shared/sui";
+import {
+  isMultiNetworkSigner,
+  isSuiSignerWallet,
+  SupportedSuiNetworks,
+} from "../../../types/shared";
+import { ExactSuiPayloadSchema } from "../../../types/verify";
+import type { SchemeImplementation } from "../../registry";
+import { encodePayment } from "../evm/utils/paymentUtils";
+import { createPaymentHeader } from "./client";
+import { settle, verify } from "./facilitator";
+
+/**
+ * The `exact` scheme on Sui networks, backed by signed coin transfer transactions, optionally
+ * sponsored by the facilitator
+ */
+export const exactSuiScheme: SchemeImplementation = {
+  scheme: "exact",
+  networks: SupportedSuiNetworks,
+  payloadSchema: ExactSuiPayloadSchema,
+  createPaymentHeader: (client, x402Version, paymentRequirements, config, request) => {
+    const suiClient = isMultiNetworkSigner(client) ? client.sui : client;
+    if (!suiClient || !isSuiSignerWallet(suiClient)) {
+      throw new Error("Invalid sui wallet client provided");
+    }
+
+    return createPaymentHeader(suiClient, x402Version, paymentRequirements, config, request);
+  },
+  verify: (client, payload, paymentRequirements, config) =>
+    verify(client as SuiSigner, payload, paymentRequirements, config),
+  settle: (client, payload, paymentRequirements, config) =>
+    settle(client as SuiSigner, payload, paymentRequirements, config),
+  encodePayment,
+};
@@ -0,0 +1,96 @@
+import { SuiClient } from "@mysten/sui/client";
+import { getFaucetHost, requestSuiFromFaucetV2 } from "@mysten/sui/faucet";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { X402Config } from "../../../types/config";
+import { PaymentRequirements } from "../../../types/verify";
+import { createAndSignPayment } from "./client";
+import { settle, sponsorTransaction, verify } from "./facilitator";
+
+// run with a local Sui node started by `sui start --with-faucet --force-regenesis`
+const rpcUrl = process.env.SUI_RPC_URL;
+const faucetUrl = process.env.SUI_FAUCET_URL ?? getFaucetHost("localnet");
+
+describe.skipIf(!rpcUrl)("exact payments on a local Sui node", () => {
+  const config: X402Config = { suiConfig: { rpcUrl } };
+  const client = new SuiClient({ url: rpcUrl! });
+  const payer = new Ed25519Keypair();
+  const facilitator = new Ed25519Keypair();
+  const payTo = new Ed25519Keypair().toSuiAddress();
+
+  // local nodes have no USDC, so payments are made in SUI
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "exact",
+    network: "sui-testnet",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/weather",
+    description: "",
+    mimeType: "",
+    payTo,
+    maxTimeoutSeconds: 60,
+    asset: "0x2::sui::SUI",
+  };
+
+  beforeAll(async () => {
+    await requestSuiFromFaucetV2({ host: faucetUrl, recipient: payer.toSuiAddress() });
+    await requestSuiFromFaucetV2({ host: faucetUrl, recipient: facilitator.toSuiAddress() });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Reads the SUI balance of payTo
+   *
+   * @returns The balance, in MIST
+   */
+  async function getPayToBalance(): Promise<bigint> {
+    const { totalBalance } = await client.getBalance({ owner: payTo });
+    return BigInt(totalBalance);
+  }
+
+  it("settles a payment whose gas is paid by the payer", async () => {
+    const before = await getPayToBalance();
+    const payment = await createAndSignPayment(payer, 1, paymentRequirements, config);
+
+    const verifyResponse = await verify(facilitator, payment, paymentRequirements, config);
+    expect(verifyResponse).toEqual({
+      isValid: true,
+      invalidReason: undefined,
+      payer: payer.toSuiAddress(),
+    });
+
+    const settleResponse = await settle(facilitator, payment, paymentRequirements, config);
+    expect(settleResponse.success).toBe(true);
+    expect(await getPayToBalance()).toBe(before + 1000n);
+  });
+
+  it("settles a payment sponsored by the facilitator", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const { network, sender, transactionKind } = JSON.parse(init.body as string);
+        const transaction = await sponsorTransaction(
+          facilitator,
+          network,
+          sender,
+          transactionKind,
+          config,
+        );
+        return new Response(JSON.stringify({ transaction }));
+      }),
+    );
+    const before = await getPayToBalance();
+    const sponsoredRequirements = {
+      ...paymentRequirements,
+      extra: { gasStation: "http://localhost/sui/gas-station" },
+    };
+    const payment = await createAndSignPayment(payer, 1, sponsoredRequirements, config);
+    vi.unstubAllGlobals();
+
+    const settleResponse = await settle(facilitator, payment, sponsoredRequirements, config);
+    expect(settleResponse.success).toBe(true);
+    expect(await getPayToBalance()).toBe(before + 1000n);
+  });
+});
@@ -28,7 +28,10 @@ import {
   getSetComputeUnitLimitInstruction,
   setTransactionMessageComputeUnitPrice,
 } from "@solana-program/compute-budget";
+import { getRequestBindingHash } from "../../../shared/requestBinding";
+import { getMemoInstruction } from "../../../shared/svm/memo";
 import { getRpcClient } from "../../../shared/svm/rpc";
+import { BoundRequest } from "../../../types/shared/requestBinding";
 
 /**
  * Creates and encodes a payment header for the given client and payment requirements.
@@ -37,6 +40,7 @@ import { getRpcClient } from "../../../shared/svm/rpc";
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements containing scheme and network information
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
  * @returns A promise that resolves to a base64 encoded payment header string
  */
 export async function createPaymentHeader(
@@ -44,12 +48,14 @@ export async function createPaymentHeader(
   x402Version: number,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
+  request?: BoundRequest,
 ): Promise<string> {
   const paymentPayload = await createAndSignPayment(
     client,
     x402Version,
     paymentRequirements,
     config,
+    request,
   );
   return encodePayment(paymentPayload);
 }
@@ -61,6 +67,7 @@ export async function createPaymentHeader(
  * @param x402Version - The version of the X402 protocol to use
  * @param paymentRequirements - The payment requirements
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
  * @returns A promise that resolves to a payment payload containing a base64 encoded solana token transfer tx
  */
 export async function createAndSignPayment(
@@ -68,11 +75,13 @@ export async function createAndSignPayment(
   x402Version: number,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
+  request?: BoundRequest,
 ): Promise<PaymentPayload> {
   const transactionMessage = await createTransferTransactionMessage(
     client,
     paymentRequirements,
     config,
+    request,
   );
   const signedTransaction = await partiallySignTransactionMessageWithSigners(transactionMessage);
   const base64EncodedWireTransaction = getBase64EncodedWireTransaction(signedTransaction);
@@ -94,12 +103,14 @@ export async function createAndSignPayment(
  * @param client - The signer instance used to create the transfer transaction message
  * @param paymentRequirements - The payment requirements
  * @param config - Optional configuration for X402 operations (e.g., custom RPC URLs)
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
  * @returns A promise that resolves to the transaction message with the transfer instruction
  */
 async function createTransferTransactionMessage(
   client: TransactionSigner,
   paymentRequirements: PaymentRequirements,
   config?: X402Config,
+  request?: BoundRequest,
 ) {
   const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
 
@@ -110,6 +121,12 @@ async function createTransferTransactionMessage(
     config,
   );
 
+  // a trailing memo holding the hash of the request binds the payment to it
+  const requestHash = getRequestBindingHash(paymentRequirements, request);
+  if (requestHash) {
+    transferInstructions.push(getMemoInstruction(requestHash));
+  }
+
   // create tx to simulate
   const feePayer = paymentRequirements.extra?.feePayer as Address;
   const txToSimulate = pipe(
@@ -71,7 +71,7 @@ export async function settle(
   const rpc = getRpcClient(paymentRequirements.network, config?.svmConfig?.rpcUrl);
   const rpcSubscriptions = getRpcSubscriptions(
     paymentRequirements.network,
-    config?.svmConfig?.rpcUrl,
+    config?.svmConfig?.wsUrl ?? config?.svmConfig?.rpcUrl,
   );
 
   try {
@@ -19,10 +19,11 @@ import {
   generateKeyPairSigner,
 } from "@solana/kit";
 import { PaymentPayload, PaymentRequirements, ExactSvmPayload } from "../../../../types/verify";
-import { Network } from "../../../../types";
+import { InvalidPaymentError, Network } from "../../../../types";
 import { SCHEME } from "../../";
 import * as SvmShared from "../../../../shared/svm";
 import * as rpc from "../../../../shared/svm/rpc";
+import { getMemoInstruction } from "../../../../shared/svm/memo";
 import {
   TOKEN_PROGRAM_ADDRESS,
   TokenInstruction,
@@ -136,21 +137,21 @@ describe("verify", () => {
     it("should throw an error for unsupported scheme in payload", () => {
       const invalidPayload = { ...validPayload, scheme: "unsupported" as "exact" };
       expect(() => verifySchemesAndNetworks(invalidPayload, validRequirements)).toThrow(
-        "unsupported_scheme",
+        expect.objectContaining({ code: "unsupported_scheme" }),
       );
     });
 
     it("should throw an error for unsupported scheme in requirements", () => {
       const invalidRequirements = { ...validRequirements, scheme: "unsupported" as "exact" };
       expect(() => verifySchemesAndNetworks(validPayload, invalidRequirements)).toThrow(
-        "unsupported_scheme",
+        expect.objectContaining({ code: "unsupported_scheme" }),
       );
     });
 
     it("should throw an error for mismatched networks", () => {
       const invalidPayload = { ...validPayload, network: "solana" as Network };
       expect(() => verifySchemesAndNetworks(invalidPayload, validRequirements)).toThrow(
-        "invalid_network",
+        expect.objectContaining({ code: "invalid_network" }),
       );
     });
 
@@ -164,7 +165,7 @@ describe("verify", () => {
         network: "unsupported-network" as Network,
       };
       expect(() => verifySchemesAndNetworks(invalidPayload, invalidRequirements)).toThrow(
-        "invalid_network",
+        expect.objectContaining({ code: "invalid_network" }),
       );
     });
   });
@@ -182,7 +183,7 @@ describe("verify", () => {
         throw new Error("Invalid instruction data");
       });
       expect(() => getValidatedTransferCheckedInstruction(mockInstruction as any)).toThrow(
-        "invalid_exact_svm_payload_transaction_instructions",
+        expect.objectContaining({ code: "invalid_exact_svm_payload_transaction_instructions" }),
       );
     });
 
@@ -192,7 +193,7 @@ describe("verify", () => {
         throw new Error("Invalid instruction accounts");
       });
       expect(() => getValidatedTransferCheckedInstruction(mockInstruction as any)).toThrow(
-        "invalid_exact_svm_payload_transaction_instructions",
+        expect.objectContaining({ code: "invalid_exact_svm_payload_transaction_instructions" }),
       );
     });
 
@@ -200,7 +201,9 @@ describe("verify", () => {
       const mockInstruction = { programAddress: { toString: () => "some_other_program" } };
 
       expect(() => getValidatedTransferCheckedInstruction(mockInstruction as any)).toThrow(
-        "invalid_exact_svm_payload_transaction_not_a_transfer_instruction",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_not_a_transfer_instruction",
+        }),
       );
     });
 
@@ -212,7 +215,9 @@ describe("verify", () => {
       vi.mocked(identifyTokenInstruction).mockReturnValue("some_other_instruction" as any);
 
       expect(() => getValidatedTransferCheckedInstruction(mockInstruction as any)).toThrow(
-        "invalid_exact_svm_payload_transaction_instruction_not_spl_token_transfer_checked",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instruction_not_spl_token_transfer_checked",
+        }),
       );
     });
 
@@ -224,7 +229,9 @@ describe("verify", () => {
       vi.mocked(identifyToken2022Instruction).mockReturnValue("some_other_instruction" as any);
 
       expect(() => getValidatedTransferCheckedInstruction(mockInstruction as any)).toThrow(
-        "invalid_exact_svm_payload_transaction_instruction_not_token_2022_transfer_checked",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instruction_not_token_2022_transfer_checked",
+        }),
       );
     });
 
@@ -336,7 +343,11 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata");
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata",
+        }),
+      );
     });
 
     it("should throw if receiver ATA is not found", async () => {
@@ -354,7 +365,11 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_receiver_ata_not_found");
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_receiver_ata_not_found",
+        }),
+      );
     });
 
     it("should throw if sender ATA is not found", async () => {
@@ -372,7 +387,11 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_sender_ata_not_found");
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_sender_ata_not_found",
+        }),
+      );
     });
 
     it("should throw for amount mismatch", async () => {
@@ -387,7 +406,9 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_amount_mismatch");
+      ).rejects.toThrow(
+        expect.objectContaining({ code: "invalid_exact_svm_payload_transaction_amount_mismatch" }),
+      );
     });
 
     it("should not throw if receiver ATA is not found but tx has create ATA instruction", async () => {
@@ -421,7 +442,11 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_fee_payer_transferring_funds");
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_fee_payer_transferring_funds",
+        }),
+      );
     });
 
     it("should not throw if authority is different from fee payer", async () => {
@@ -544,7 +569,7 @@ describe("verify", () => {
     });
 
     it("should return isValid: false if transaction decoding fails", async () => {
-      const error = new Error("invalid_exact_svm_payload_transaction");
+      const error = new InvalidPaymentError("invalid_exact_svm_payload_transaction");
       vi.mocked(SvmShared.decodeTransactionFromPayload).mockImplementation(() => {
         throw error;
       });
@@ -669,7 +694,11 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_instructions_length");
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instructions_length",
+        }),
+      );
     });
 
     it("should throw an error if the transaction has more than 4 instructions", async () => {
@@ -690,7 +719,31 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_instructions_length");
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instructions_length",
+        }),
+      );
+    });
+
+    it("should accept a trailing memo binding the payment to a request", async () => {
+      mockTransactionMessage = {
+        instructions: [
+          mockComputeLimitInstruction,
+          mockComputePriceInstruction,
+          mockTransferInstruction,
+          getMemoInstruction(`0x${"ab".repeat(32)}`),
+        ],
+      };
+
+      await expect(
+        verifyTransactionInstructions(
+          mockTransactionMessage,
+          mockPaymentRequirements,
+          mockSigner,
+          mockRpc,
+        ),
+      ).resolves.toBeUndefined();
     });
 
     it("should throw an error if the tx has 3 instructions and the destination ATA does not exist", async () => {
@@ -714,7 +767,11 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_receiver_ata_not_found");
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_receiver_ata_not_found",
+        }),
+      );
     });
 
     it("should throw if the 3rd instruction in a 4-instruction tx is not a create ATA instruction", async () => {
@@ -738,7 +795,11 @@ describe("verify", () => {
           mockSigner,
           mockRpc,
         ),
-      ).rejects.toThrow("invalid_exact_svm_payload_transaction_create_ata_instruction");
+      ).rejects.toThrow(
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_create_ata_instruction",
+        }),
+      );
     });
 
     it("should not throw if the tx has 4 instructions and the 3rd is a create ATA instruction", async () => {
@@ -793,7 +854,9 @@ describe("verify", () => {
           mockRpc,
         ),
       ).rejects.toThrow(
-        "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        }),
       );
     });
 
@@ -819,7 +882,9 @@ describe("verify", () => {
           mockRpc,
         ),
       ).rejects.toThrow(
-        "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        }),
       );
     });
 
@@ -845,7 +910,9 @@ describe("verify", () => {
           mockRpc,
         ),
       ).rejects.toThrow(
-        "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        }),
       );
     });
 
@@ -872,7 +939,9 @@ describe("verify", () => {
           mockRpc,
         ),
       ).rejects.toThrow(
-        "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        }),
       );
     });
 
@@ -903,7 +972,9 @@ describe("verify", () => {
           mockRpc,
         ),
       ).rejects.toThrow(
-        "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
+        }),
       );
     });
   });
@@ -927,14 +998,18 @@ describe("verify", () => {
     it("should throw if the program address is incorrect", () => {
       mockInstruction.programAddress = { toString: () => "incorrect_program_address" };
       expect(() => verifyComputeLimitInstruction(mockInstruction)).toThrow(
-        "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
+        }),
       );
     });
 
     it("should throw if the instruction discriminator is incorrect", () => {
       mockInstruction.data = new Uint8Array([99, 100, 25, 0, 0]);
       expect(() => verifyComputeLimitInstruction(mockInstruction)).toThrow(
-        "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
+        }),
       );
     });
 
@@ -943,7 +1018,9 @@ describe("verify", () => {
         throw new Error("parsing failed");
       });
       expect(() => verifyComputeLimitInstruction(mockInstruction)).toThrow(
-        "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
+        }),
       );
     });
   });
@@ -972,14 +1049,18 @@ describe("verify", () => {
     it("should throw if the program address is incorrect", () => {
       mockInstruction.programAddress = { toString: () => "incorrect_program_address" };
       expect(() => verifyComputePriceInstruction(mockInstruction)).toThrow(
-        "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction",
+        }),
       );
     });
 
     it("should throw if the instruction discriminator is incorrect", () => {
       mockInstruction.data = new Uint8Array([99, 0, 0, 0, 0, 0, 0, 0, 0]);
       expect(() => verifyComputePriceInstruction(mockInstruction)).toThrow(
-        "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction",
+        }),
       );
     });
 
@@ -1001,7 +1082,9 @@ describe("verify", () => {
 
       // Act & Assert
       expect(() => verifyComputePriceInstruction(mockInstruction)).toThrow(
-        "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
+        expect.objectContaining({
+          code: "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
+        }),
       );
     });
   });
@@ -3,9 +3,8 @@ import {
   PaymentPayload,
   PaymentRequirements,
   ExactSvmPayload,
-  ErrorReasons,
 } from "../../../../types/verify";
-import { SupportedSVMNetworks } from "../../../../types/shared";
+import { InvalidPaymentError, SupportedSVMNetworks, X402Error } from "../../../../types/shared";
 import { X402Config } from "../../../../types/config";
 import {
   Address,
@@ -48,6 +47,7 @@ import {
   decodeTransactionFromPayload,
   signAndSimulateTransaction,
   getTokenPayerFromTransaction,
+  isMemoInstruction,
 } from "../../../../shared/svm";
 import { getRpcClient } from "../../../../shared/svm/rpc";
 import { SCHEME } from "../../";
@@ -82,7 +82,7 @@ export async function verify(
     // simulate the transaction to ensure it will execute successfully
     const simulateResult = await signAndSimulateTransaction(signer, decodedTransaction, rpc);
     if (simulateResult.value?.err) {
-      throw new Error(`invalid_exact_svm_payload_transaction_simulation_failed`);
+      throw new InvalidPaymentError("invalid_exact_svm_payload_transaction_simulation_failed");
     }
 
     return {
@@ -91,25 +91,23 @@ export async function verify(
       payer: getTokenPayerFromTransaction(decodedTransaction),
     };
   } catch (error) {
-    // if the error is one of the known error reasons, return the error reason
-    if (error instanceof Error) {
-      if (ErrorReasons.includes(error.message as (typeof ErrorReasons)[number])) {
-        return {
-          isValid: false,
-          invalidReason: error.message as (typeof ErrorReasons)[number],
-          payer: (() => {
-            try {
-              const tx = decodeTransactionFromPayload(payload.payload as ExactSvmPayload);
-              return getTokenPayerFromTransaction(tx);
-            } catch {
-              return undefined;
-            }
-          })(),
-        };
-      }
+    // if the payment was rejected, return the reason it was rejected for
+    if (error instanceof X402Error) {
+      return {
+        isValid: false,
+        invalidReason: error.code,
+        payer: (() => {
+          try {
+            const tx = decodeTransactionFromPayload(payload.payload as ExactSvmPayload);
+            return getTokenPayerFromTransaction(tx);
+          } catch {
+            return undefined;
+          }
+        })(),
+      };
     }
 
-    // if the error is not one of the known error reasons, return an unexpected error reason
+    // if the payment was not rejected for a known reason, return an unexpected error reason
     console.error(error);
     return {
       isValid: false,
@@ -137,14 +135,14 @@ export function verifySchemesAndNetworks(
   paymentRequirements: PaymentRequirements,
 ): void {
   if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
-    throw new Error("unsupported_scheme");
+    throw new InvalidPaymentError("unsupported_scheme");
   }
 
   if (
     payload.network !== paymentRequirements.network ||
     !SupportedSVMNetworks.includes(paymentRequirements.network)
   ) {
-    throw new Error("invalid_network");
+    throw new InvalidPaymentError("invalid_network");
   }
 }
 
@@ -183,7 +181,7 @@ export async function transactionIntrospection(
  * @param paymentRequirements - The payment requirements to verify against
  * @param signer - The signer that will sign the transaction
  * @param rpc - The RPC client to use for verifying account existence
- * @throws Error if the transaction does not contain the expected instructions
+ * @throws InvalidPaymentError if the transaction does not contain the expected instructions
  */
 export async function verifyTransactionInstructions(
   transactionMessage: CompilableTransactionMessage,
@@ -191,32 +189,37 @@ export async function verifyTransactionInstructions(
   signer: TransactionSigner,
   rpc: RpcDevnet<SolanaRpcApiDevnet> | RpcMainnet<SolanaRpcApiMainnet>,
 ) {
+  // a trailing memo may bind the payment to a request, which the resource server checks
+  const lastInstruction =
+    transactionMessage.instructions[transactionMessage.instructions.length - 1];
+  const instructions =
+    lastInstruction && isMemoInstruction(lastInstruction)
+      ? transactionMessage.instructions.slice(0, -1)
+      : transactionMessage.instructions;
+
   // validate the number of expected instructions
-  if (
-    transactionMessage.instructions.length !== 3 &&
-    transactionMessage.instructions.length !== 4
-  ) {
-    throw new Error(`invalid_exact_svm_payload_transaction_instructions_length`);
+  if (instructions.length !== 3 && instructions.length !== 4) {
+    throw new InvalidPaymentError("invalid_exact_svm_payload_transaction_instructions_length");
   }
 
   // verify that the compute limit and price instructions are valid
-  verifyComputeLimitInstruction(transactionMessage.instructions[0]);
-  verifyComputePriceInstruction(transactionMessage.instructions[1]);
+  verifyComputeLimitInstruction(instructions[0]);
+  verifyComputePriceInstruction(instructions[1]);
 
   // verify that the fee payer is not included in any instruction's accounts
-  transactionMessage.instructions.forEach(instruction => {
+  instructions.forEach(instruction => {
     if (instruction.accounts?.some(account => account.address === signer.address)) {
-      throw new Error(
-        `invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts`,
+      throw new InvalidPaymentError(
+        "invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts",
       );
     }
   });
 
   // verify that the transfer instruction is valid
   // this expects the destination ATA to already exist
-  if (transactionMessage.instructions.length === 3) {
+  if (instructions.length === 3) {
     await verifyTransferInstruction(
-      transactionMessage.instructions[2],
+      instructions[2],
       paymentRequirements,
       {
         txHasCreateDestATAInstruction: false,
@@ -229,9 +232,9 @@ export async function verifyTransactionInstructions(
   // verify that the transfer instruction is valid
   // this expects the destination ATA to be created in the same transaction
   else {
-    verifyCreateATAInstruction(transactionMessage.instructions[2], paymentRequirements);
+    verifyCreateATAInstruction(instructions[2], paymentRequirements);
     await verifyTransferInstruction(
-      transactionMessage.instructions[3],
+      instructions[3],
       paymentRequirements,
       {
         txHasCreateDestATAInstruction: true,
@@ -246,7 +249,7 @@ export async function verifyTransactionInstructions(
  * Verify that the compute limit instruction is valid.
  *
  * @param instruction - The compute limit instruction to verify
- * @throws Error if the compute limit instruction is invalid
+ * @throws InvalidPaymentError if the compute limit instruction is invalid
  */
 export function verifyComputeLimitInstruction(
   instruction: Instruction<
@@ -259,8 +262,8 @@ export function verifyComputeLimitInstruction(
       instruction.programAddress.toString() !== COMPUTE_BUDGET_PROGRAM_ADDRESS.toString() ||
       instruction.data?.[0] !== 2 // discriminator of set compute unit limit instruction
     ) {
-      throw new Error(
-        `invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction`,
+      throw new InvalidPaymentError(
+        "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
       );
     }
     parseSetComputeUnitLimitInstruction(
@@ -268,7 +271,9 @@ export function verifyComputeLimitInstruction(
     );
   } catch (error) {
     console.error(error);
-    throw new Error(`invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction`);
+    throw new InvalidPaymentError(
+      "invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction",
+    );
   }
 }
 
@@ -278,7 +283,7 @@ export function verifyComputeLimitInstruction(
  * to protect the facilitator against gas fee abuse from the client.
  *
  * @param instruction - The compute price instruction to verify
- * @throws Error if the compute price instruction is invalid
+ * @throws InvalidPaymentError if the compute price instruction is invalid
  */
 export function verifyComputePriceInstruction(
   instruction: Instruction<
@@ -290,7 +295,9 @@ export function verifyComputePriceInstruction(
     instruction.programAddress.toString() !== COMPUTE_BUDGET_PROGRAM_ADDRESS.toString() ||
     instruction.data?.[0] !== 3 // discriminator of set compute unit price instruction
   ) {
-    throw new Error(`invalid_exact_svm_payload_transaction_instructions_compute_price_instruction`);
+    throw new InvalidPaymentError(
+      "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction",
+    );
   }
   const parsedInstruction = parseSetComputeUnitPriceInstruction(
     instruction as InstructionWithData<Uint8Array<ArrayBufferLike>>,
@@ -298,8 +305,8 @@ export function verifyComputePriceInstruction(
 
   // TODO: allow the facilitator to pass in an optional max compute unit price
   if (parsedInstruction.data.microLamports > 5 * 1_000_000) {
-    throw new Error(
-      `invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high`,
+    throw new InvalidPaymentError(
+      "invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high",
     );
   }
 }
@@ -309,7 +316,7 @@ export function verifyComputePriceInstruction(
  *
  * @param instruction - The create ATA instruction to verify
  * @param paymentRequirements - The payment requirements to verify against
- * @throws Error if the create ATA instruction is invalid
+ * @throws InvalidPaymentError if the create ATA instruction is invalid
  */
 export function verifyCreateATAInstruction(
   instruction: Instruction<
@@ -332,17 +339,21 @@ export function verifyCreateATAInstruction(
     });
   } catch (error) {
     console.error(error);
-    throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction`);
+    throw new InvalidPaymentError("invalid_exact_svm_payload_transaction_create_ata_instruction");
   }
 
   // verify that the ATA is created for the expected payee
   if (createATAInstruction.accounts.owner.address !== paymentRequirements.payTo) {
-    throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_payee`);
+    throw new InvalidPaymentError(
+      "invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_payee",
+    );
   }
 
   // verify that the ATA is created for the expected asset
   if (createATAInstruction.accounts.mint.address !== paymentRequirements.asset) {
-    throw new Error(`invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_asset`);
+    throw new InvalidPaymentError(
+      "invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_asset",
+    );
   }
 }
 
@@ -355,7 +366,7 @@ export function verifyCreateATAInstruction(
  * @param {boolean} options.txHasCreateDestATAInstruction - Whether the transaction has a create destination ATA instruction
  * @param signer - The signer that will sign the transaction
  * @param rpc - The RPC client to use for verifying account existence
- * @throws Error if the transfer instruction is invalid
+ * @throws InvalidPaymentError if the transfer instruction is invalid
  */
 export async function verifyTransferInstruction(
   instruction: Instruction<
@@ -389,7 +400,7 @@ export async function verifyTransferInstruction(
  * @param {boolean} options.txHasCreateDestATAInstruction - Whether the transaction has a create destination ATA instruction
  * @param signer - The signer that will sign the transaction
  * @param rpc - The RPC client to use for verifying account existence
- * @throws Error if the transfer checked instruction is invalid
+ * @throws InvalidPaymentError if the transfer checked instruction is invalid
  */
 export async function verifyTransferCheckedInstruction(
   parsedInstruction: ReturnType<typeof parseTransferCheckedInstruction2022>,
@@ -406,7 +417,9 @@ export async function verifyTransferCheckedInstruction(
 
   // verify that the fee payer is not transferring funds
   if (parsedInstruction.accounts.authority.address === signer.address) {
-    throw new Error(`invalid_exact_svm_payload_transaction_fee_payer_transferring_funds`);
+    throw new InvalidPaymentError(
+      "invalid_exact_svm_payload_transaction_fee_payer_transferring_funds",
+    );
   }
 
   // get the expected receiver's ATA
@@ -418,7 +431,9 @@ export async function verifyTransferCheckedInstruction(
 
   // verify that the transfer is to the expected ATA
   if (parsedInstruction.accounts.destination.address !== payToATA[0]) {
-    throw new Error(`invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata`);
+    throw new InvalidPaymentError(
+      "invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata",
+    );
   }
 
   // verify that the source and destination ATAs exist
@@ -427,10 +442,10 @@ export async function verifyTransferCheckedInstruction(
   const missingAccounts = maybeAccounts.filter(a => !a.exists);
   for (const missingAccount of missingAccounts) {
     if (missingAccount.address === parsedInstruction.accounts.source.address) {
-      throw new Error(`invalid_exact_svm_payload_transaction_sender_ata_not_found`);
+      throw new InvalidPaymentError("invalid_exact_svm_payload_transaction_sender_ata_not_found");
     }
     if (missingAccount.address === payToATA[0] && !txHasCreateDestATAInstruction) {
-      throw new Error(`invalid_exact_svm_payload_transaction_receiver_ata_not_found`);
+      throw new InvalidPaymentError("invalid_exact_svm_payload_transaction_receiver_ata_not_found");
     }
   }
 
@@ -438,7 +453,7 @@ export async function verifyTransferCheckedInstruction(
   const instructionAmount = parsedInstruction.data.amount;
   const paymentRequirementsAmount = BigInt(paymentRequirements.maxAmountRequired);
   if (instructionAmount !== paymentRequirementsAmount) {
-    throw new Error(`invalid_exact_svm_payload_transaction_amount_mismatch`);
+    throw new InvalidPaymentError("invalid_exact_svm_payload_transaction_amount_mismatch");
   }
 }
 
@@ -448,7 +463,7 @@ export async function verifyTransferCheckedInstruction(
  *
  * @param instruction - The instruction to get the transfer instruction from
  * @returns The validated transfer instruction
- * @throws Error if the instruction is not a valid transfer checked instruction
+ * @throws InvalidPaymentError if the instruction is not a valid transfer checked instruction
  */
 export function getValidatedTransferCheckedInstruction(
   instruction: Instruction<
@@ -461,7 +476,7 @@ export function getValidatedTransferCheckedInstruction(
     assertIsInstructionWithAccounts(instruction);
   } catch (error) {
     console.error(error);
-    throw new Error(`invalid_exact_svm_payload_transaction_instructions`);
+    throw new InvalidPaymentError("invalid_exact_svm_payload_transaction_instructions");
   }
 
   let tokenInstruction;
@@ -470,8 +485,8 @@ export function getValidatedTransferCheckedInstruction(
   if (instruction.programAddress.toString() === TOKEN_PROGRAM_ADDRESS.toString()) {
     const identifiedInstruction = identifyTokenInstruction(instruction);
     if (identifiedInstruction !== TokenInstruction.TransferChecked) {
-      throw new Error(
-        `invalid_exact_svm_payload_transaction_instruction_not_spl_token_transfer_checked`,
+      throw new InvalidPaymentError(
+        "invalid_exact_svm_payload_transaction_instruction_not_spl_token_transfer_checked",
       );
     }
     tokenInstruction = parseTransferCheckedInstructionToken({
@@ -483,8 +498,8 @@ export function getValidatedTransferCheckedInstruction(
   else if (instruction.programAddress.toString() === TOKEN_2022_PROGRAM_ADDRESS.toString()) {
     const identifiedInstruction = identifyToken2022Instruction(instruction);
     if (identifiedInstruction !== Token2022Instruction.TransferChecked) {
-      throw new Error(
-        `invalid_exact_svm_payload_transaction_instruction_not_token_2022_transfer_checked`,
+      throw new InvalidPaymentError(
+        "invalid_exact_svm_payload_transaction_instruction_not_token_2022_transfer_checked",
       );
     }
     tokenInstruction = parseTransferCheckedInstruction2022({
@@ -494,7 +509,9 @@ export function getValidatedTransferCheckedInstruction(
   }
   // invalid instruction
   else {
-    throw new Error(`invalid_exact_svm_payload_transaction_not_a_transfer_instruction`);
+    throw new InvalidPaymentError(
+      "invalid_exact_svm_payload_transaction_not_a_transfer_instruction",
+    );
   }
 
   return tokenInstruction;
@@ -1,2 +1,3 @@
 export * from "./facilitator/index";
 export * from "./client";
+export * from "./scheme";
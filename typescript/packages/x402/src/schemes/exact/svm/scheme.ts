@@ -0,0 +1,38 @@
+import { TransactionSigner } from "@solana/kit";
+import {
+  isMultiNetworkSigner,
+  isSvmSignerWallet,
+  SupportedSVMNetworks,
+} from "../../../types/shared";
+import { decodeTransactionFromPayload, getTransactionMemo } from "../../../shared/svm";
+import { ExactSvmPayload, ExactSvmPayloadSchema } from "../../../types/verify";
+import type { SchemeImplementation } from "../../registry";
+import { encodePayment } from "../evm/utils/paymentUtils";
+import { createPaymentHeader } from "./client";
+import { settle, verify } from "./facilitator";
+
+/**
+ * The `exact` scheme on SVM networks, backed by partially signed token transfer transactions
+ */
+export const exactSvmScheme: SchemeImplementation = {
+  scheme: "exact",
+  networks: SupportedSVMNetworks,
+  payloadSchema: ExactSvmPayloadSchema,
+  createPaymentHeader: (client, x402Version, paymentRequirements, config, request) => {
+    const svmClient = isMultiNetworkSigner(client) ? client.svm : client;
+    if (!isSvmSignerWallet(svmClient)) {
+      throw new Error("Invalid svm wallet client provided");
+    }
+
+    return createPaymentHeader(svmClient, x402Version, paymentRequirements, config, request);
+  },
+  verify: (client, payload, paymentRequirements, config) =>
+    verify(client as TransactionSigner, payload, paymentRequirements, config),
+  settle: (client, payload, paymentRequirements, config) =>
+    settle(client as TransactionSigner, payload, paymentRequirements, config),
+  encodePayment,
+  // payments are bound to a request by a memo holding the hash of the request
+  isBoundToRequest: (payment, requestHash) =>
+    getTransactionMemo(decodeTransactionFromPayload(payment.payload as ExactSvmPayload)) ===
+    requestHash,
+};
@@ -1,2 +1,8 @@
 export * as exact from "./exact";
+export * as upto from "./upto";
+export * as permit from "./permit";
+export * as escrow from "./escrow";
+export * as channel from "./channel";
+export * as shielded from "./shielded";
 export * from "./utils";
+export * from "./registry";
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { recoverTypedDataAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { getPermitNonce } from "../../../shared/evm";
+import { permitTypes } from "../../../types/shared/evm";
+import { PaymentRequirements, PermitEvmPayload } from "../../../types/verify";
+import { createPayment, preparePaymentHeader } from "./client";
+import { getPermitTransferTypedData } from "./sign";
+
+vi.mock("../../../shared/evm", async () => {
+  const actual = await vi.importActual("../../../shared/evm");
+  return {
+    ...actual,
+    getPermitNonce: vi.fn(),
+  };
+});
+
+const account = privateKeyToAccount(
+  "0x1234567890123456789012345678901234567890123456789012345678901234",
+);
+
+const mockPaymentRequirements: PaymentRequirements = {
+  scheme: "permit",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 300,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: {
+    name: "USDC",
+    version: "2",
+    router: "0x9876543210987654321098765432109876543210",
+    facilitator: "0x5555555555555555555555555555555555555555",
+  },
+};
+
+describe("preparePaymentHeader", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should create a permit for the maximum amount to the router", () => {
+    const result = preparePaymentHeader(account.address, 3n, 1, mockPaymentRequirements);
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    expect(result).toEqual({
+      x402Version: 1,
+      scheme: "permit",
+      network: "base-sepolia",
+      payload: {
+        signature: undefined,
+        transferSignature: undefined,
+        permit: {
+          owner: account.address,
+          spender: mockPaymentRequirements.extra!.router,
+          value: "1000000",
+          nonce: "3",
+          deadline: (currentTime + mockPaymentRequirements.maxTimeoutSeconds).toString(),
+        },
+      },
+    });
+  });
+
+  it("should throw if the payment requirements do not name a router", () => {
+    expect(() =>
+      preparePaymentHeader(account.address, 0n, 1, {
+        ...mockPaymentRequirements,
+        extra: { name: "USDC", version: "2" },
+      }),
+    ).toThrow("The payment requirements do not provide a router and facilitator");
+  });
+});
+
+describe("createPayment", () => {
+  beforeEach(() => {
+    vi.mocked(getPermitNonce).mockResolvedValue(7n);
+  });
+
+  it("should sign the permit and the transfer with the owner's key", async () => {
+    const payment = await createPayment(account, 1, mockPaymentRequirements);
+    const { permit, signature, transferSignature } = payment.payload as PermitEvmPayload;
+
+    expect(permit.nonce).toBe("7");
+    const permitSigner = await recoverTypedDataAddress({
+      types: permitTypes,
+      primaryType: "Permit",
+      domain: {
+        name: "USDC",
+        version: "2",
+        chainId: 84532,
+        verifyingContract: mockPaymentRequirements.asset as `0x${string}`,
+      },
+      message: permit,
+      signature: signature as `0x${string}`,
+    });
+    const transferSigner = await recoverTypedDataAddress({
+      ...getPermitTransferTypedData(
+        permit,
+        mockPaymentRequirements.extra!.facilitator,
+        mockPaymentRequirements,
+      ),
+      signature: transferSignature as `0x${string}`,
+    });
+    expect(permitSigner).toBe(account.address);
+    expect(transferSigner).toBe(account.address);
+  });
+});
@@ -0,0 +1,202 @@
+import fs from "fs";
+import path from "path";
+import {
+  Abi,
+  Address,
+  createWalletClient,
+  Hex,
+  http,
+  parseSignature,
+  publicActions,
+  zeroAddress,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { getERC20Balance } from "../../../shared/evm";
+import {
+  createSigner,
+  permitRouterABI,
+  registerEvmNetwork,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import { PaymentRequirements, PermitEvmPayload } from "../../../types/verify";
+import { createPayment } from "./client";
+import { settle, verify } from "./facilitator";
+
+// run with a local anvil chain and the contracts built by `forge build`, see contracts/README.md
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+// the default accounts of anvil
+const facilitatorKey: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const payerKey: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const payTo: Address = "0x000000000000000000000000000000000000dEaD";
+
+/**
+ * Reads a contract compiled by forge
+ *
+ * @param name - The name of the contract
+ * @returns The ABI and bytecode of the contract
+ */
+function readArtifact(name: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(
+    fs.readFileSync(
+      path.join(process.cwd(), "contracts", "out", `${name}.sol`, `${name}.json`),
+      "utf8",
+    ),
+  );
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+describe.skipIf(!rpcUrl)("permit router on anvil", () => {
+  let facilitator: SignerWallet;
+  let payer: SignerWallet;
+  let token: Address;
+  let router: Address;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Deploys a contract built by forge
+   *
+   * @param name - The name of the contract
+   * @param args - The constructor arguments
+   * @returns The address of the contract
+   */
+  async function deploy(name: string, args: unknown[] = []): Promise<Address> {
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(facilitatorKey),
+      chain: foundry,
+      transport: http(rpcUrl),
+    }).extend(publicActions);
+    const hash = await wallet.deployContract({ ...readArtifact(name), args });
+    const receipt = await wallet.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  }
+
+  beforeAll(async () => {
+    token = await deploy("PermitToken", ["Permit Dollar"]);
+    router = await deploy("X402PermitRouter");
+
+    registerEvmNetwork({
+      network: "anvil",
+      chain: foundry,
+      rpcUrl,
+      defaultAsset: { address: token, eip712: { name: "Permit Dollar", version: "1" } },
+    });
+    facilitator = createSigner("anvil", facilitatorKey);
+    payer = createSigner("anvil", payerKey);
+  });
+
+  beforeEach(async () => {
+    // every payment is funded with a fresh balance
+    const hash = await facilitator.writeContract({
+      address: token,
+      abi: readArtifact("PermitToken").abi,
+      functionName: "mint",
+      args: [payer.account.address, 1_000_000n],
+      chain: foundry,
+    });
+    await facilitator.waitForTransactionReceipt({ hash });
+
+    paymentRequirements = {
+      scheme: "permit",
+      network: "anvil",
+      maxAmountRequired: "1000000",
+      resource: "https://example.com/resource",
+      description: "Test resource",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 300,
+      asset: token,
+      extra: {
+        name: "Permit Dollar",
+        version: "1",
+        router,
+        facilitator: facilitator.account.address,
+      },
+    };
+  });
+
+  it("settles the consumed amount of a payment", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    const balance = await getERC20Balance(payer, token, payer.account.address);
+    const received = await getERC20Balance(payer, token, payTo);
+
+    expect(await verify(payer, payment, paymentRequirements)).toEqual({
+      isValid: true,
+      invalidReason: undefined,
+      payer: payer.account.address,
+    });
+    const result = await settle(facilitator, payment, paymentRequirements, "250000");
+
+    expect(result.success).toBe(true);
+    expect(await getERC20Balance(payer, token, payer.account.address)).toBe(balance - 250000n);
+    expect(await getERC20Balance(payer, token, payTo)).toBe(received + 250000n);
+  });
+
+  it("rejects a payment that was already settled", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    await settle(facilitator, payment, paymentRequirements);
+
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("invalid_permit_evm_payload_permit_nonce");
+  });
+
+  it("settles a payment whose permit was submitted by someone else", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    const { permit, signature } = payment.payload as PermitEvmPayload;
+    const { v, r, s } = parseSignature(signature as Hex);
+    const hash = await payer.writeContract({
+      address: token,
+      abi: readArtifact("PermitToken").abi,
+      functionName: "permit",
+      args: [permit.owner, router, BigInt(permit.value), BigInt(permit.deadline), Number(v), r, s],
+      chain: foundry,
+    });
+    await payer.waitForTransactionReceipt({ hash });
+
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(true);
+  });
+
+  it("only lets the named facilitator settle through the router", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+    const { permit, signature, transferSignature } = payment.payload as PermitEvmPayload;
+
+    await expect(
+      payer.writeContract({
+        address: router,
+        abi: permitRouterABI,
+        functionName: "settle",
+        args: [
+          token,
+          payTo,
+          {
+            owner: permit.owner as Address,
+            value: BigInt(permit.value),
+            nonce: BigInt(permit.nonce),
+            deadline: BigInt(permit.deadline),
+          },
+          signature as Hex,
+          transferSignature as Hex,
+          1_000_000n,
+        ],
+        chain: foundry,
+      }),
+    ).rejects.toThrow();
+  });
+
+  it("rejects a transfer to another recipient", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements);
+
+    const result = await verify(payer, payment, {
+      ...paymentRequirements,
+      payTo: zeroAddress,
+    });
+
+    expect(result.invalidReason).toBe("invalid_permit_evm_payload_transfer_signature");
+  });
+});
@@ -0,0 +1,32 @@
+import { Chain, Transport } from "viem";
+import { SupportedEVMNetworks } from "../../../types/shared";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { PermitEvmPayload, PermitEvmPayloadSchema } from "../../../types/verify";
+import { getEvmSigner } from "../../exact/evm/scheme";
+import type { SchemeImplementation } from "../../registry";
+import { createPaymentHeader } from "./client";
+import { settle, verify } from "./facilitator";
+
+/**
+ * The `permit` scheme on EVM networks, backed by EIP-2612 permits granted to a router contract
+ */
+export const permitEvmScheme: SchemeImplementation = {
+  scheme: "permit",
+  networks: SupportedEVMNetworks,
+  payloadSchema: PermitEvmPayloadSchema,
+  usageBased: true,
+  createPaymentHeader: (client, x402Version, paymentRequirements) =>
+    createPaymentHeader(getEvmSigner(client), x402Version, paymentRequirements),
+  verify: (client, payload, paymentRequirements) =>
+    verify(client as ConnectedClient<Transport, Chain>, payload, paymentRequirements),
+  settle: (client, payload, paymentRequirements, _config, settlementAmount) =>
+    settle(
+      client as SignerWallet<Chain, Transport>,
+      payload,
+      paymentRequirements,
+      settlementAmount,
+    ),
+  // permit nonces are sequential per token, the signature also covers the token
+  getPaymentId: payment =>
+    `permit:${payment.network}:${(payment.payload as PermitEvmPayload).signature.toLowerCase()}`,
+};
@@ -0,0 +1,80 @@
+import { Address, Chain, getAddress, Hex, LocalAccount, Transport } from "viem";
+import { getNetworkId } from "../../../shared";
+import {
+  isAccount,
+  isSignerWallet,
+  permitRouterDomain,
+  permitTransferTypes,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import { PaymentRequirements, UptoEvmPayloadPermit } from "../../../types/verify";
+
+/**
+ * Builds the typed data of the `PermitTransfer` message checked by the permit router
+ *
+ * The message commits to the token, the recipient and the facilitator allowed to settle, none of
+ * which are covered by the EIP-2612 permit granted to the router.
+ *
+ * @param permit - The permit granted to the router
+ * @param facilitator - The address allowed to settle the payment
+ * @param paymentRequirements - The payment requirements, with the router address in `extra.router`
+ * @param paymentRequirements.asset - The address of the ERC20 contract
+ * @param paymentRequirements.network - The network where the router is deployed
+ * @param paymentRequirements.payTo - The recipient of the payment
+ * @returns The typed data to sign or verify
+ */
+export function getPermitTransferTypedData(
+  permit: UptoEvmPayloadPermit,
+  facilitator: string,
+  { asset, network, payTo }: PaymentRequirements,
+) {
+  return {
+    types: permitTransferTypes,
+    domain: {
+      ...permitRouterDomain,
+      chainId: getNetworkId(network),
+      verifyingContract: getAddress(permit.spender),
+    },
+    primaryType: "PermitTransfer" as const,
+    message: {
+      token: getAddress(asset),
+      payTo: getAddress(payTo),
+      facilitator: getAddress(facilitator),
+      value: BigInt(permit.value),
+      nonce: BigInt(permit.nonce),
+      deadline: BigInt(permit.deadline),
+    },
+  };
+}
+
+/**
+ * Signs the `PermitTransfer` message letting the router move the permitted funds to `payTo`
+ *
+ * @param walletClient - The wallet client that will sign the message
+ * @param permit - The permit granted to the router
+ * @param facilitator - The address allowed to settle the payment
+ * @param paymentRequirements - The payment requirements, with the router address in `extra.router`
+ * @returns The signature of the message
+ */
+export async function signPermitTransfer<transport extends Transport, chain extends Chain>(
+  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  permit: UptoEvmPayloadPermit,
+  facilitator: Address,
+  paymentRequirements: PaymentRequirements,
+): Promise<{ signature: Hex }> {
+  const data = getPermitTransferTypedData(permit, facilitator, paymentRequirements);
+
+  if (isSignerWallet(walletClient)) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else if (isAccount(walletClient) && walletClient.signTypedData) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else {
+    throw new Error("Invalid wallet client provided does not support signTypedData");
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { safeBase64Encode } from "../shared";
+import { settle, verify } from "../facilitator";
+import { createInMemoryPaymentStore } from "../shared";
+import { ConnectedClient, Signer } from "../types/shared/wallet";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+import {
+  decodePaymentHeader,
+  encodePaymentHeader,
+  getScheme,
+  registerScheme,
+  SchemeImplementation,
+} from "./registry";
+
+/**
+ * Creates a scheme implementation whose facilitator methods are mocks
+ *
+ * @param scheme - The name of the scheme
+ * @returns The scheme implementation
+ */
+function createTestScheme(scheme: string): SchemeImplementation {
+  return {
+    scheme,
+    networks: ["base-sepolia"],
+    payloadSchema: z.object({ voucher: z.string() }),
+    createPaymentHeader: vi.fn(),
+    verify: vi.fn().mockResolvedValue({ isValid: true }),
+    settle: vi.fn(),
+  };
+}
+
+describe("scheme registry", () => {
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "voucher",
+    network: "base-sepolia",
+    maxAmountRequired: "1000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  };
+
+  it("registers the built-in schemes", () => {
+    expect(getScheme("exact", "base-sepolia")?.scheme).toBe("exact");
+    expect(getScheme("exact", "solana-devnet")?.scheme).toBe("exact");
+    expect(getScheme("upto", "base")?.scheme).toBe("upto");
+    expect(getScheme("upto", "solana")).toBeUndefined();
+  });
+
+  it("flags the usage-based built-in schemes", () => {
+    expect(getScheme("upto", "base-sepolia")?.usageBased).toBe(true);
+    expect(getScheme("permit", "base-sepolia")?.usageBased).toBe(true);
+    expect(getScheme("escrow", "base-sepolia")?.usageBased).toBe(true);
+    expect(getScheme("exact", "base-sepolia")?.usageBased).toBeFalsy();
+    expect(getScheme("channel", "base-sepolia")?.usageBased).toBeFalsy();
+  });
+
+  it("round trips payments of a custom scheme", () => {
+    registerScheme(createTestScheme("voucher"));
+    const payment: PaymentPayload = {
+      x402Version: 1,
+      scheme: "voucher",
+      network: "base-sepolia",
+      payload: { voucher: "abc" },
+    };
+
+    expect(decodePaymentHeader(encodePaymentHeader(payment))).toEqual(payment);
+  });
+
+  it("round trips version 2 payments with their accepted payment requirements", () => {
+    registerScheme(createTestScheme("voucher"));
+    const payment: PaymentPayload = {
+      x402Version: 2,
+      scheme: "voucher",
+      network: "base-sepolia",
+      payload: { voucher: "abc" },
+      accepted: paymentRequirements,
+    };
+
+    const header = encodePaymentHeader(payment);
+
+    expect(JSON.parse(Buffer.from(header, "base64").toString())).toEqual({
+      x402Version: 2,
+      accepted: paymentRequirements,
+      payload: { voucher: "abc" },
+    });
+    expect(decodePaymentHeader(header)).toEqual(payment);
+  });
+
+  it("rejects version 2 payments without accepted payment requirements", () => {
+    registerScheme(createTestScheme("voucher"));
+
+    expect(() =>
+      encodePaymentHeader({
+        x402Version: 2,
+        scheme: "voucher",
+        network: "base-sepolia",
+        payload: { voucher: "abc" },
+      }),
+    ).toThrow("Version 2 payments require the accepted payment requirements");
+  });
+
+  it("rejects payloads that do not match the scheme's schema", () => {
+    registerScheme(createTestScheme("voucher"));
+    const header = safeBase64Encode(
+      JSON.stringify({
+        x402Version: 1,
+        scheme: "voucher",
+        network: "base-sepolia",
+        payload: { code: "abc" },
+      }),
+    );
+
+    expect(() => decodePaymentHeader(header)).toThrow();
+  });
+
+  it("rejects payments of unregistered schemes", () => {
+    const header = safeBase64Encode(
+      JSON.stringify({ x402Version: 1, scheme: "unknown", network: "base-sepolia", payload: {} }),
+    );
+
+    expect(() => decodePaymentHeader(header)).toThrow(
+      "Unsupported scheme unknown on network base-sepolia",
+    );
+  });
+
+  it("prefers the most recently registered implementation", () => {
+    const first = createTestScheme("metered");
+    const second = createTestScheme("metered");
+    registerScheme(first);
+    registerScheme(second);
+
+    expect(getScheme("metered", "base-sepolia")).toBe(second);
+  });
+
+  it("dispatches facilitator verification to the registered implementation", async () => {
+    const implementation = createTestScheme("voucher");
+    registerScheme(implementation);
+    const client = {} as ConnectedClient;
+    const payment: PaymentPayload = {
+      x402Version: 1,
+      scheme: "voucher",
+      network: "base-sepolia",
+      payload: { voucher: "abc" },
+    };
+
+    await expect(verify(client, payment, paymentRequirements)).resolves.toEqual({ isValid: true });
+    expect(implementation.verify).toHaveBeenCalledWith(
+      client,
+      payment,
+      paymentRequirements,
+      undefined,
+    );
+
+    await expect(
+      verify(client, { ...payment, payload: { code: "abc" } }, paymentRequirements),
+    ).resolves.toEqual(
+      expect.objectContaining({ isValid: false, invalidReason: "invalid_payload" }),
+    );
+  });
+
+  it("settles each payment once when the facilitator has a payment store", async () => {
+    const implementation = createTestScheme("voucher");
+    vi.mocked(implementation.settle).mockResolvedValue({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+    });
+    registerScheme(implementation);
+    const config = { paymentStore: createInMemoryPaymentStore() };
+    const payment: PaymentPayload = {
+      x402Version: 1,
+      scheme: "voucher",
+      network: "base-sepolia",
+      payload: { voucher: "abc" },
+    };
+
+    const [first, second] = await Promise.all([
+      settle({} as Signer, payment, paymentRequirements, config),
+      settle({} as Signer, payment, paymentRequirements, config),
+    ]);
+
+    expect(first.success).toBe(true);
+    expect(second).toEqual(
+      expect.objectContaining({ success: false, errorReason: "duplicate_payment" }),
+    );
+    expect(implementation.settle).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,342 @@
+import { Address, Hex, keccak256, stringToHex } from "viem";
+import { z } from "zod";
+import { hashPaymentRequest, safeBase64Decode, safeBase64Encode, toJsonSafe } from "../shared";
+import { X402Config } from "../types/config";
+import {
+  BatchedPayment,
+  BoundRequest,
+  ChannelPayment,
+  ChannelRecord,
+  InvalidPaymentError,
+  MultiNetworkSigner,
+  Network,
+  Signer,
+  UnsupportedSchemeError,
+  X402Error,
+} from "../types/shared";
+import { ConnectedClient } from "../types/shared/wallet";
+import {
+  PaymentPayload,
+  PaymentPayloadSchema,
+  PaymentPayloadV2,
+  PaymentPayloadV2Schema,
+  PaymentRequirements,
+  SettleResponse,
+  UnsignedPaymentPayload,
+  VerifyResponse,
+} from "../types/verify";
+import { channelEvmScheme } from "./channel/evm/scheme";
+import { escrowEvmScheme } from "./escrow/evm/scheme";
+import { exactEvmScheme } from "./exact/evm/scheme";
+import { exactSuiScheme } from "./exact/sui/scheme";
+import { exactSvmScheme } from "./exact/svm/scheme";
+import { permitEvmScheme } from "./permit/evm/scheme";
+import { shieldedEvmScheme } from "./shielded/evm/scheme";
+import { uptoEvmScheme } from "./upto/evm/scheme";
+
+/**
+ * The client and facilitator logic of a payment scheme on a set of networks.
+ *
+ * Implementations are looked up by the `scheme` and `network` of a payment, so custom schemes can
+ * ship as separate packages and call `registerScheme` instead of extending the core dispatch.
+ */
+export interface SchemeImplementation {
+  /** The name of the scheme, e.g. `exact` */
+  scheme: string;
+  /** The networks the implementation handles */
+  networks: Network[];
+  /** Validates the scheme-specific `payload` of a payment payload */
+  payloadSchema: z.ZodTypeAny;
+  /**
+   * Whether payments are charged the amount consumed by the handler, up to the required amount,
+   * in which case `settle` receives the settlement amount of the resource server
+   */
+  usageBased?: boolean;
+  /**
+   * Creates and encodes the X-PAYMENT header for the given payment requirements, bound to
+   * `request` when the payment requirements ask for it
+   */
+  createPaymentHeader: (
+    client: Signer | MultiNetworkSigner,
+    x402Version: number,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+    request?: BoundRequest,
+  ) => Promise<string>;
+  /** Prepares an unsigned payment payload, for schemes that let the payload be signed separately */
+  preparePaymentHeader?: (
+    from: Address,
+    x402Version: number,
+    paymentRequirements: PaymentRequirements,
+    request?: BoundRequest,
+  ) => UnsignedPaymentPayload;
+  /** Signs a payment payload created by `preparePaymentHeader` */
+  signPaymentHeader?: (
+    client: Signer | MultiNetworkSigner,
+    paymentRequirements: PaymentRequirements,
+    unsignedPaymentHeader: UnsignedPaymentPayload,
+  ) => Promise<PaymentPayload>;
+  /** Verifies a payment payload against the payment requirements */
+  verify: (
+    client: ConnectedClient | Signer,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+  ) => Promise<VerifyResponse>;
+  /** Settles a verified payment, charging `settlementAmount` for usage-based schemes */
+  settle: (
+    client: Signer,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+    settlementAmount?: string,
+  ) => Promise<SettleResponse>;
+  /**
+   * Settles several verified payments at once, e.g. in a single transaction, returning the
+   * settlement of each payment in order. Schemes without it settle batched payments one by one
+   */
+  settleBatch?: (
+    client: Signer,
+    payments: BatchedPayment[],
+    config?: X402Config,
+  ) => Promise<SettleResponse[]>;
+  /**
+   * Releases a payment held since its settlement to `payTo`, charging `settlementAmount` and
+   * refunding the rest, for schemes holding payments until the resource is delivered
+   */
+  releaseEscrow?: (
+    client: Signer,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+    settlementAmount?: string,
+  ) => Promise<SettleResponse>;
+  /** Refunds a payment held since its settlement to the payer, see `releaseEscrow` */
+  refundEscrow?: (
+    client: Signer,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+  ) => Promise<SettleResponse>;
+  /**
+   * Reads the voucher of a payment, for schemes paying through off-chain channels. Resource
+   * servers verify vouchers against the channels they recorded, see `verifyVoucher`, and only
+   * reach the facilitator to open channels, claim vouchers and close channels
+   */
+  getVoucher?: (payment: PaymentPayload) => ChannelPayment;
+  /** Verifies the voucher of a payment against the recorded state of its channel, off-chain */
+  verifyVoucher?: (
+    payment: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    channel: ChannelRecord,
+  ) => Promise<VerifyResponse>;
+  /**
+   * Closes the channel of a payment, paying the cumulative `settlementAmount` of its vouchers,
+   * by default the amount of the payment's voucher, and refunding the rest of the deposit
+   */
+  closeChannel?: (
+    client: Signer,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    config?: X402Config,
+    settlementAmount?: string,
+  ) => Promise<SettleResponse>;
+  /** Encodes a payment payload into an X-PAYMENT header, defaults to base64 encoded JSON */
+  encodePayment?: (payment: PaymentPayload) => string;
+  /** Decodes an X-PAYMENT header, defaults to base64 decoded JSON validated by `payloadSchema` */
+  decodePayment?: (payment: string) => PaymentPayload;
+  /** Identifies a payment for replay protection, defaults to the hash of its payload */
+  getPaymentId?: (payment: PaymentPayload) => string;
+  /**
+   * Reads the address a payment pays to. Resource servers paid to stealth addresses only accept
+   * payments of schemes with it, see `StealthConfig`
+   */
+  getPayTo?: (payment: PaymentPayload) => string;
+  /**
+   * Checks that a payment is bound to a request, see `hashPaymentRequest`. Routes binding payments
+   * to requests reject the payments of schemes without it
+   */
+  isBoundToRequest?: (payment: PaymentPayload, requestHash: Hex) => boolean;
+}
+
+const implementations: SchemeImplementation[] = [];
+
+/**
+ * Registers a scheme implementation
+ *
+ * Implementations registered later take precedence, so a built-in scheme can be replaced on
+ * some or all of its networks.
+ *
+ * @param implementation - The scheme implementation to register
+ */
+export function registerScheme(implementation: SchemeImplementation): void {
+  implementations.unshift(implementation);
+}
+
+/**
+ * Finds the implementation of a scheme on a network
+ *
+ * @param scheme - The name of the scheme
+ * @param network - The network of the payment
+ * @returns The scheme implementation, or undefined if none is registered
+ */
+export function getScheme(scheme: string, network: Network): SchemeImplementation | undefined {
+  return implementations.find(
+    implementation => implementation.scheme === scheme && implementation.networks.includes(network),
+  );
+}
+
+/**
+ * Encodes a payment payload into an X-PAYMENT header using its scheme implementation
+ *
+ * Version 2 payments are encoded as base64 JSON holding the payload and the accepted payment
+ * requirements, which must be set on the payment.
+ *
+ * @param payment - The payment payload to encode
+ * @returns The encoded X-PAYMENT header
+ * @throws UnsupportedSchemeError if no implementation is registered for the payment's scheme and
+ * network
+ * @throws X402Error if a version 2 payment has no accepted payment requirements
+ */
+export function encodePaymentHeader(payment: PaymentPayload): string {
+  const implementation = getRequiredScheme(payment.scheme, payment.network);
+
+  // version 2 payments are sent in the same envelope whatever their scheme
+  if (payment.x402Version === 2) {
+    if (!payment.accepted) {
+      throw new X402Error(
+        "invalid_payload",
+        "Version 2 payments require the accepted payment requirements",
+      );
+    }
+    const envelope: PaymentPayloadV2 = {
+      x402Version: 2,
+      accepted: payment.accepted,
+      payload: payment.payload,
+    };
+    return safeBase64Encode(JSON.stringify(toJsonSafe(envelope)));
+  }
+
+  if (implementation.encodePayment) {
+    return implementation.encodePayment(payment);
+  }
+  return safeBase64Encode(JSON.stringify(toJsonSafe(payment)));
+}
+
+/**
+ * Decodes an X-PAYMENT header and validates its payload against its scheme implementation
+ *
+ * Both version 1 headers and version 2 envelopes are accepted; the decoded payment has the
+ * version of the header.
+ *
+ * @param payment - The X-PAYMENT header to decode
+ * @returns The decoded and validated payment payload
+ * @throws InvalidPaymentError if the header is malformed
+ * @throws UnsupportedSchemeError if its scheme is not registered for its network
+ */
+export function decodePaymentHeader(payment: string): PaymentPayload {
+  try {
+    return parsePaymentHeader(payment);
+  } catch (error) {
+    throw error instanceof X402Error
+      ? error
+      : new InvalidPaymentError("invalid_payment", undefined, { cause: error });
+  }
+}
+
+/**
+ * Parses an X-PAYMENT header of any version
+ *
+ * @param payment - The X-PAYMENT header to parse
+ * @returns The parsed and validated payment payload
+ */
+function parsePaymentHeader(payment: string): PaymentPayload {
+  const decoded = JSON.parse(safeBase64Decode(payment));
+
+  // version 2 payments take their scheme and network from the accepted payment requirements
+  if (decoded?.x402Version === 2) {
+    const { accepted, payload } = PaymentPayloadV2Schema.parse(decoded);
+    const implementation = getRequiredScheme(accepted.scheme, accepted.network);
+    return {
+      x402Version: 2,
+      scheme: accepted.scheme,
+      network: accepted.network,
+      payload: implementation.payloadSchema.parse(payload),
+      accepted,
+    };
+  }
+
+  const parsed = PaymentPayloadSchema.parse(decoded);
+  const implementation = getRequiredScheme(parsed.scheme, parsed.network);
+  if (implementation.decodePayment) {
+    return implementation.decodePayment(payment);
+  }
+  return { ...parsed, payload: implementation.payloadSchema.parse(parsed.payload) };
+}
+
+/**
+ * Identifies a payment, so that payment stores can reject a payment that is used twice
+ *
+ * @param payment - The decoded payment payload
+ * @returns An id that is the same for every copy of the payment
+ * @throws UnsupportedSchemeError if no implementation is registered for the payment's scheme and network
+ */
+export function getPaymentId(payment: PaymentPayload): string {
+  const implementation = getRequiredScheme(payment.scheme, payment.network);
+  if (implementation.getPaymentId) {
+    return implementation.getPaymentId(payment);
+  }
+  const hash = keccak256(stringToHex(JSON.stringify(toJsonSafe(payment.payload))));
+  return `${payment.scheme}:${payment.network}:${hash}`;
+}
+
+/**
+ * Reads the address a payment pays to
+ *
+ * @param payment - The decoded payment payload
+ * @returns The address the payment pays to, or undefined if its scheme does not tell
+ * @throws UnsupportedSchemeError if no implementation is registered for the payment's scheme and network
+ */
+export function getPaymentPayTo(payment: PaymentPayload): string | undefined {
+  return getRequiredScheme(payment.scheme, payment.network).getPayTo?.(payment);
+}
+
+/**
+ * Checks that a payment is bound to the request it is sent with
+ *
+ * @param payment - The decoded payment payload
+ * @param request - The request the payment is sent with
+ * @returns True if the payment is bound to the request, false if it is not or its scheme does
+ * not support binding payments to requests
+ * @throws UnsupportedSchemeError if no implementation is registered for the payment's scheme and network
+ */
+export function isBoundToRequest(payment: PaymentPayload, request: BoundRequest): boolean {
+  const implementation = getRequiredScheme(payment.scheme, payment.network);
+  return implementation.isBoundToRequest?.(payment, hashPaymentRequest(request)) ?? false;
+}
+
+/**
+ * Finds the implementation of a scheme on a network
+ *
+ * @param scheme - The name of the scheme
+ * @param network - The network of the payment
+ * @returns The scheme implementation
+ * @throws UnsupportedSchemeError if no implementation is registered for the scheme and network
+ */
+function getRequiredScheme(scheme: string, network: Network): SchemeImplementation {
+  const implementation = getScheme(scheme, network);
+  if (!implementation) {
+    throw new UnsupportedSchemeError(scheme, network);
+  }
+  return implementation;
+}
+
+// built-in schemes
+registerScheme(exactEvmScheme);
+registerScheme(exactSvmScheme);
+registerScheme(exactSuiScheme);
+registerScheme(uptoEvmScheme);
+registerScheme(permitEvmScheme);
+registerScheme(escrowEvmScheme);
+registerScheme(channelEvmScheme);
+registerScheme(shieldedEvmScheme);
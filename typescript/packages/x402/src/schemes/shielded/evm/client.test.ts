@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { baseSepolia } from "viem/chains";
+import { generateShieldedSecretKey, getKeyImage, getShieldedPublicKey } from "../../../shared/evm";
+import { hashPaymentRequest } from "../../../shared/requestBinding";
+import { createInMemoryShieldedNoteStore } from "../../../shared/shielded";
+import { ShieldedNoteStore } from "../../../types/shared";
+import { SignerWallet } from "../../../types/shared/evm";
+import { PaymentRequirements, ShieldedEvmPayload } from "../../../types/verify";
+import { isRequestNonce } from "../../exact/evm/sign";
+import { createPayment, createPaymentHeader } from "./client";
+
+const pool = "0x9876543210987654321098765432109876543210";
+const secretKeys = Array.from({ length: 20 }, generateShieldedSecretKey);
+const keys = secretKeys.map(getShieldedPublicKey);
+
+const mockPaymentRequirements: PaymentRequirements = {
+  scheme: "shielded",
+  network: "base-sepolia",
+  maxAmountRequired: "1000000",
+  resource: "https://example.com/resource",
+  description: "Test resource",
+  mimeType: "application/json",
+  payTo: "0x1234567890123456789012345678901234567890",
+  maxTimeoutSeconds: 300,
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: { name: "USDC", version: "2", pool },
+};
+
+describe("createPayment", () => {
+  let wallet: {
+    chain: typeof baseSepolia;
+    transport: object;
+    readContract: ReturnType<typeof vi.fn>;
+  };
+  let store: ShieldedNoteStore;
+
+  beforeEach(async () => {
+    wallet = {
+      chain: baseSepolia,
+      transport: {},
+      readContract: vi.fn(async ({ functionName, args }) => {
+        switch (functionName) {
+          case "denomination":
+            return 1000000n;
+          case "depositCount":
+            return BigInt(keys.length);
+          case "getRing":
+            return (args[0] as bigint[]).map(index => keys[Number(index)]);
+        }
+      }),
+    };
+    store = createInMemoryShieldedNoteStore();
+    await store.add([{ network: "base-sepolia", pool, index: 7, secretKey: secretKeys[7] }]);
+  });
+
+  it("should spend a stored note hidden among sixteen notes of the pool", async () => {
+    const payment = await createPayment(
+      wallet as unknown as SignerWallet,
+      1,
+      mockPaymentRequirements,
+      store,
+    );
+    const { withdrawal, signature } = payment.payload as ShieldedEvmPayload;
+
+    expect(payment.scheme).toBe("shielded");
+    expect(withdrawal.recipient).toBe(mockPaymentRequirements.payTo);
+    expect(signature.ring).toHaveLength(16);
+    expect(signature.ring).toContain("7");
+    expect(signature.ring.map(Number)).toEqual(
+      [...signature.ring.map(Number)].sort((a, b) => a - b),
+    );
+    expect(signature.keyImage).toEqual(getKeyImage(secretKeys[7] as `0x${string}`).map(String));
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("should bind the withdrawal to the request when the payment requirements ask for it", async () => {
+    const request = { method: "GET", url: "https://example.com/resource" };
+
+    const payment = await createPayment(
+      wallet as unknown as SignerWallet,
+      1,
+      {
+        ...mockPaymentRequirements,
+        extra: { ...mockPaymentRequirements.extra, requestBinding: true },
+      },
+      store,
+      request,
+    );
+
+    const { nonce } = (payment.payload as ShieldedEvmPayload).withdrawal;
+    expect(isRequestNonce(nonce as `0x${string}`, hashPaymentRequest(request))).toBe(true);
+  });
+
+  it("should refuse prices other than the denomination of the pool, keeping the note", async () => {
+    await expect(
+      createPayment(
+        wallet as unknown as SignerWallet,
+        1,
+        { ...mockPaymentRequirements, maxAmountRequired: "2000000" },
+        store,
+      ),
+    ).rejects.toThrow("is not the denomination");
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("should put the note back when the payment cannot be created", async () => {
+    wallet.readContract.mockImplementation(async ({ functionName }) => {
+      if (functionName === "denomination") {
+        return 1000000n;
+      }
+      throw new Error("unavailable");
+    });
+
+    await expect(
+      createPayment(wallet as unknown as SignerWallet, 1, mockPaymentRequirements, store),
+    ).rejects.toThrow("unavailable");
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("should refuse to pay from pools holding too few notes to hide the payment, keeping the note", async () => {
+    wallet.readContract.mockImplementation(async ({ functionName }) =>
+      functionName === "denomination" ? 1000000n : 7n,
+    );
+
+    await expect(
+      createPayment(wallet as unknown as SignerWallet, 1, mockPaymentRequirements, store),
+    ).rejects.toThrow("fewer than the 8 a payment must hide among");
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("should require a note store to create payment headers", async () => {
+    await expect(
+      createPaymentHeader(wallet as unknown as SignerWallet, 1, mockPaymentRequirements),
+    ).rejects.toThrow("requires a note store in shieldedNotes");
+  });
+});
@@ -0,0 +1,277 @@
+import {
+  Account,
+  Chain,
+  getAddress,
+  Hex,
+  hexToBigInt,
+  LocalAccount,
+  parseEventLogs,
+  Transport,
+} from "viem";
+import { getNetworkId, safeBase64Encode } from "../../../shared";
+import {
+  generateShieldedSecretKey,
+  getKeyImage,
+  getShieldedPublicKey,
+  signRing,
+} from "../../../shared/evm";
+import { getRequestBindingHash } from "../../../shared/requestBinding";
+import { X402Config } from "../../../types/config";
+import { BoundRequest, ShieldedNote, ShieldedNoteStore } from "../../../types/shared";
+import {
+  ConnectedClient,
+  createConnectedClient,
+  isSignerWallet,
+  shieldedPoolABI,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import { PaymentPayload, PaymentRequirements, ShieldedEvmPayload } from "../../../types/verify";
+import { signReceiveAuthorization } from "../../escrow/evm/sign";
+import { createNonce, createRequestNonce } from "../../exact/evm/sign";
+import {
+  getShieldedPool,
+  hashShieldedKeys,
+  hashWithdrawal,
+  MIN_SHIELDED_RING_SIZE,
+  ShieldedWithdrawal,
+} from "./sign";
+
+// the number of notes a withdrawal hides among, including its own, when the pool holds enough
+const RING_SIZE = 16;
+
+/**
+ * Deposits notes into the shielded pool of the payment requirements, each paying one later
+ * payment of the pool's denomination.
+ *
+ * The wallet signs an EIP-3009 `ReceiveWithAuthorization` of the notes' total to the pool, whose
+ * nonce commits to their public keys, and submits the deposit itself. The deposit is the only
+ * transaction linking the wallet to the pool; the payments made with its notes are not.
+ *
+ * @param wallet - The wallet paying for the notes and the deposit transaction
+ * @param paymentRequirements - The payment requirements of a `shielded` payment, with the pool and the EIP-712 domain of the token in `extra`
+ * @param count - The number of notes to deposit
+ * @param store - The store recording the deposited notes, see `ShieldedNoteStore`
+ * @returns The deposited notes
+ * @throws Error if the payment requirements do not provide a pool or the deposit fails
+ */
+export async function depositShieldedNotes<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentRequirements: PaymentRequirements,
+  count: number,
+  store: ShieldedNoteStore,
+): Promise<ShieldedNote[]> {
+  const pool = getShieldedPool(paymentRequirements);
+  const denomination = await wallet.readContract({
+    address: pool,
+    abi: shieldedPoolABI,
+    functionName: "denomination",
+  });
+
+  const secretKeys = Array.from({ length: count }, generateShieldedSecretKey);
+  const keys = secretKeys.map(getShieldedPublicKey);
+  const authorization = {
+    from: wallet.account.address,
+    to: pool,
+    value: (denomination * BigInt(count)).toString(),
+    validAfter: BigInt(Math.floor(Date.now() / 1000) - 600).toString(), // 10 minutes before
+    validBefore: BigInt(
+      Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds),
+    ).toString(),
+    nonce: hashShieldedKeys(keys),
+  };
+  const { signature } = await signReceiveAuthorization(wallet, authorization, paymentRequirements);
+
+  const tx = await wallet.writeContract({
+    address: pool,
+    abi: shieldedPoolABI,
+    functionName: "deposit" as const,
+    args: [
+      {
+        from: authorization.from,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+      },
+      keys,
+      signature,
+    ],
+    chain: wallet.chain as Chain,
+  });
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  if (receipt.status !== "success") {
+    throw new Error(`The deposit transaction ${tx} failed`);
+  }
+
+  // the pool assigns the notes consecutive indexes, announced by its Deposited events
+  const [first] = parseEventLogs({
+    abi: shieldedPoolABI,
+    eventName: "Deposited",
+    logs: receipt.logs,
+  });
+  const notes = secretKeys.map((secretKey, i) => ({
+    network: paymentRequirements.network,
+    pool,
+    index: Number(first.args.index) + i,
+    secretKey,
+  }));
+  await store.add(notes);
+  return notes;
+}
+
+/**
+ * Creates a shielded payment payload paying the pool's denomination to `payTo`.
+ *
+ * The payment spends a note of the pool taken from the note store: it withdraws the note to
+ * `payTo` with a ring signature hiding it among other notes of the pool, so the payment cannot be
+ * linked to the wallet that deposited the note. The client's signer does not sign anything. The
+ * note is put back into the store if the payment cannot be created, e.g. when the pool holds fewer
+ * notes than `MIN_SHIELDED_RING_SIZE` to hide it among.
+ *
+ * @param client - The signer wallet, used to read the pool when it is connected to the network
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements, with the shielded pool in `extra`
+ * @param store - The store of the client's notes
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
+ * @returns A promise that resolves to the payment payload
+ * @throws Error if the price is not the denomination of the pool, no note of the pool is left or
+ * the pool holds too few notes to hide the payment among
+ */
+export async function createPayment<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  store: ShieldedNoteStore,
+  request?: BoundRequest,
+): Promise<PaymentPayload> {
+  const { network } = paymentRequirements;
+  const pool = getShieldedPool(paymentRequirements);
+  const reader: ConnectedClient<Transport, Chain, Account | undefined> = isSignerWallet(client)
+    ? (client as unknown as ConnectedClient<Transport, Chain, Account | undefined>)
+    : createConnectedClient(network);
+
+  // notes pay exactly the denomination of their pool
+  const denomination = await reader.readContract({
+    address: pool,
+    abi: shieldedPoolABI,
+    functionName: "denomination",
+  });
+  if (denomination !== BigInt(paymentRequirements.maxAmountRequired)) {
+    throw new Error(
+      `The price ${paymentRequirements.maxAmountRequired} is not the denomination ${denomination} of the shielded pool ${pool}`,
+    );
+  }
+
+  const note = await store.take(network, pool);
+  if (!note) {
+    throw new Error(`No note of the shielded pool ${pool} is left on ${network}`);
+  }
+
+  try {
+    const count = await reader.readContract({
+      address: pool,
+      abi: shieldedPoolABI,
+      functionName: "depositCount",
+    });
+    // payments are only as private as their ring, so small rings are refused
+    if (count < BigInt(MIN_SHIELDED_RING_SIZE)) {
+      throw new Error(
+        `The shielded pool ${pool} holds ${count} notes, fewer than the ${MIN_SHIELDED_RING_SIZE} a payment must hide among`,
+      );
+    }
+    const ring = selectRing(note.index, Number(count));
+    const keys = await reader.readContract({
+      address: pool,
+      abi: shieldedPoolABI,
+      functionName: "getRing",
+      args: [ring],
+    });
+
+    // the nonce commits to the request when the payment requirements bind payments to requests
+    const requestHash = getRequestBindingHash(paymentRequirements, request);
+    const withdrawal: ShieldedWithdrawal = {
+      recipient: getAddress(paymentRequirements.payTo),
+      nonce: requestHash ? createRequestNonce(requestHash) : createNonce(),
+      deadline: BigInt(Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds)),
+    };
+    const secretKey = note.secretKey as Hex;
+    const message = hashWithdrawal(
+      getNetworkId(network),
+      pool,
+      withdrawal,
+      ring,
+      getKeyImage(secretKey),
+    );
+    const signature = signRing(message, ring, keys, secretKey);
+
+    const payload: ShieldedEvmPayload = {
+      pool,
+      withdrawal: {
+        recipient: withdrawal.recipient,
+        nonce: withdrawal.nonce,
+        deadline: withdrawal.deadline.toString(),
+      },
+      signature: {
+        ring: ring.map(index => index.toString()),
+        keyImage: [signature.keyImage[0].toString(), signature.keyImage[1].toString()],
+        c: signature.c.toString(),
+        s: signature.s.map(s => s.toString()),
+      },
+    };
+    return {
+      x402Version,
+      scheme: paymentRequirements.scheme,
+      network,
+      payload,
+    };
+  } catch (error) {
+    await store.add([note]);
+    throw error;
+  }
+}
+
+/**
+ * Creates and encodes a shielded payment header for the given client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param config - The configuration holding the note store in `shieldedNotes`
+ * @param request - The request the payment is sent with, required by routes binding payments to requests
+ * @returns A promise that resolves to the encoded payment header string
+ * @throws Error if no note store is configured
+ */
+export async function createPaymentHeader(
+  client: SignerWallet | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+  config?: X402Config,
+  request?: BoundRequest,
+): Promise<string> {
+  if (!config?.shieldedNotes) {
+    throw new Error("Paying with the shielded scheme requires a note store in shieldedNotes");
+  }
+  const payment = await createPayment(
+    client,
+    x402Version,
+    paymentRequirements,
+    config.shieldedNotes,
+    request,
+  );
+  // shielded payloads only hold string values
+  return safeBase64Encode(JSON.stringify(payment));
+}
+
+/**
+ * Picks the notes a withdrawal hides among: the spent note and random other notes of the pool
+ *
+ * @param index - The index of the spent note
+ * @param count - The number of notes in the pool
+ * @returns The indexes of the notes of the ring, in increasing order
+ */
+function selectRing(index: number, count: number): bigint[] {
+  const ring = new Set([BigInt(index)]);
+  while (ring.size < Math.min(RING_SIZE, count)) {
+    ring.add(hexToBigInt(createNonce()) % BigInt(count));
+  }
+  return [...ring].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
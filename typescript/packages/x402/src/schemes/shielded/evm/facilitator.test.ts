@@ -0,0 +1,240 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { baseSepolia } from "viem/chains";
+import { generateShieldedSecretKey, getShieldedPublicKey } from "../../../shared/evm";
+import { createInMemoryShieldedNoteStore } from "../../../shared/shielded";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { PaymentPayload, PaymentRequirements, ShieldedEvmPayload } from "../../../types/verify";
+import { createPayment } from "./client";
+import { settle, verify } from "./facilitator";
+
+describe("shielded evm facilitator", () => {
+  const pool = "0x9876543210987654321098765432109876543210";
+  const secretKeys = Array.from({ length: 8 }, generateShieldedSecretKey);
+  const keys = secretKeys.map(getShieldedPublicKey);
+
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "shielded",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    extra: { name: "USDC", version: "2", pool },
+  };
+
+  let wallet: {
+    chain: typeof baseSepolia;
+    transport: object;
+    readContract: ReturnType<typeof vi.fn>;
+    writeContract: ReturnType<typeof vi.fn>;
+    waitForTransactionReceipt: ReturnType<typeof vi.fn>;
+  };
+
+  /**
+   * Mocks the state of the shielded pool
+   *
+   * @param state - The state of the pool
+   * @param state.denomination - The amount each note pays
+   * @param state.nullified - Whether the note of the payment was withdrawn already
+   */
+  function mockPool({ denomination = 1000000n, nullified = false } = {}) {
+    wallet.readContract.mockImplementation(async ({ functionName, args }) => {
+      switch (functionName) {
+        case "token":
+          return paymentRequirements.asset;
+        case "denomination":
+          return denomination;
+        case "depositCount":
+          return BigInt(keys.length);
+        case "nullified":
+          return nullified;
+        case "getRing":
+          return (args[0] as bigint[]).map((index, i, ring) => {
+            if (i > 0 && index <= ring[i - 1]) {
+              throw new Error("InvalidRing");
+            }
+            return keys[Number(index)];
+          });
+      }
+    });
+  }
+
+  /**
+   * Creates a payment spending the note of the given index
+   *
+   * @param index - The index of the note
+   * @returns The payment
+   */
+  async function createPayments(index = 2): Promise<PaymentPayload> {
+    const store = createInMemoryShieldedNoteStore();
+    await store.add([{ network: "base-sepolia", pool, index, secretKey: secretKeys[index] }]);
+    return createPayment(wallet as unknown as SignerWallet, 1, paymentRequirements, store);
+  }
+
+  beforeEach(() => {
+    wallet = {
+      chain: baseSepolia,
+      transport: {},
+      readContract: vi.fn(),
+      writeContract: vi.fn().mockResolvedValue(`0x${"01".repeat(32)}`),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success", blockNumber: 42n }),
+    };
+    mockPool();
+  });
+
+  describe("verify", () => {
+    it("accepts a withdrawal to payTo signed by a note of the ring, without a payer", async () => {
+      const payment = await createPayments();
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined });
+    });
+
+    it("rejects withdrawals from another pool", async () => {
+      const payment = await createPayments();
+
+      const result = await verify(wallet as unknown as ConnectedClient, payment, {
+        ...paymentRequirements,
+        extra: { ...paymentRequirements.extra, pool: paymentRequirements.payTo },
+      });
+
+      expect(result.invalidReason).toBe("invalid_shielded_evm_payload_pool_mismatch");
+    });
+
+    it("rejects withdrawals to another recipient", async () => {
+      const payment = await createPayments();
+
+      const result = await verify(wallet as unknown as ConnectedClient, payment, {
+        ...paymentRequirements,
+        payTo: pool,
+      });
+
+      expect(result.invalidReason).toBe("invalid_shielded_evm_payload_recipient_mismatch");
+    });
+
+    it("rejects pools whose denomination is not the price", async () => {
+      const payment = await createPayments();
+      mockPool({ denomination: 2000000n });
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_shielded_evm_payload_amount_mismatch");
+    });
+
+    it("rejects notes that were withdrawn already", async () => {
+      const payment = await createPayments();
+      mockPool({ nullified: true });
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("duplicate_payment");
+    });
+
+    it("rejects rings the pool does not hold", async () => {
+      const payment = await createPayments();
+      const { signature } = payment.payload as ShieldedEvmPayload;
+      signature.ring.reverse();
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_shielded_evm_payload_ring");
+    });
+
+    it("rejects rings hiding the note among too few notes", async () => {
+      const payment = await createPayments();
+      const { signature } = payment.payload as ShieldedEvmPayload;
+      signature.ring = signature.ring.slice(0, 4);
+      wallet.readContract.mockClear();
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_shielded_evm_payload_ring");
+      expect(wallet.readContract).not.toHaveBeenCalledWith(
+        expect.objectContaining({ functionName: "getRing" }),
+      );
+    });
+
+    it("rejects withdrawals changed after signing", async () => {
+      const payment = await createPayments();
+      const { withdrawal } = payment.payload as ShieldedEvmPayload;
+      withdrawal.deadline = (BigInt(withdrawal.deadline) + 1n).toString();
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_shielded_evm_payload_signature");
+    });
+  });
+
+  describe("settle", () => {
+    it("withdraws the note to payTo", async () => {
+      const payment = await createPayments();
+      const { withdrawal, signature } = payment.payload as ShieldedEvmPayload;
+
+      const result = await settle(wallet as unknown as SignerWallet, payment, paymentRequirements);
+
+      expect(result).toEqual({
+        success: true,
+        transaction: `0x${"01".repeat(32)}`,
+        network: "base-sepolia",
+        blockNumber: "42",
+      });
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: pool,
+          functionName: "withdraw",
+          args: [
+            {
+              recipient: paymentRequirements.payTo,
+              nonce: withdrawal.nonce,
+              deadline: BigInt(withdrawal.deadline),
+            },
+            {
+              ring: signature.ring.map(BigInt),
+              keyImage: signature.keyImage.map(BigInt),
+              c: BigInt(signature.c),
+              s: signature.s.map(BigInt),
+            },
+          ],
+        }),
+      );
+    });
+
+    it("reports reverted withdrawals", async () => {
+      const payment = await createPayments();
+      wallet.waitForTransactionReceipt.mockResolvedValue({ status: "reverted" });
+
+      const result = await settle(wallet as unknown as SignerWallet, payment, paymentRequirements);
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("invalid_transaction_state");
+    });
+  });
+});
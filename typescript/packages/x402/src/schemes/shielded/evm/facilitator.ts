@@ -0,0 +1,207 @@
+import { Account, Address, Chain, getAddress, Hex, Transport } from "viem";
+import { getNetworkId } from "../../../shared";
+import { getNullifier, ShieldedPoint, verifyRingSignature } from "../../../shared/evm";
+import { ConnectedClient, shieldedPoolABI, SignerWallet } from "../../../types/shared/evm";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  ShieldedEvmPayload,
+  VerifyResponse,
+} from "../../../types/verify";
+import { SCHEME } from "..";
+import { hashWithdrawal, MIN_SHIELDED_RING_SIZE } from "./sign";
+
+/**
+ * Verifies a shielded payment payload against the required payment details
+ *
+ * This function performs several verification steps:
+ * - Checks the note is withdrawn from the pool advertised in the payment requirements, to `payTo`
+ * - Checks the withdrawal does not expire before it can be settled
+ * - Checks the pool holds the asset and its denomination is the required amount
+ * - Checks the note of the key image was not withdrawn yet
+ * - Checks the ring holds at least `MIN_SHIELDED_RING_SIZE` notes of the pool
+ * - Verifies the ring signature over the notes of the ring, as the pool will
+ *
+ * Shielded payments do not reveal their payer, so the response has none.
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The payment payload holding the withdrawal and its ring signature
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { pool, withdrawal, signature } = payload.payload as ShieldedEvmPayload;
+
+  // Verify payload version
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return { isValid: false, invalidReason: "unsupported_scheme" };
+  }
+
+  let chainId: number;
+  try {
+    chainId = getNetworkId(payload.network);
+  } catch {
+    return { isValid: false, invalidReason: "invalid_network" };
+  }
+
+  // Verify that the note is withdrawn from the pool named in the payment requirements
+  const advertisedPool = paymentRequirements.extra?.pool;
+  if (!advertisedPool || getAddress(pool) !== getAddress(advertisedPool)) {
+    return { isValid: false, invalidReason: "invalid_shielded_evm_payload_pool_mismatch" };
+  }
+
+  // Verify that the note is withdrawn to payTo
+  if (getAddress(withdrawal.recipient) !== getAddress(paymentRequirements.payTo)) {
+    return { isValid: false, invalidReason: "invalid_shielded_evm_payload_recipient_mismatch" };
+  }
+
+  // Verify deadline is not yet expired
+  // Pad 3 block to account for round tripping
+  if (BigInt(withdrawal.deadline) < BigInt(Math.floor(Date.now() / 1000) + 6)) {
+    return { isValid: false, invalidReason: "invalid_shielded_evm_payload_deadline" };
+  }
+
+  // Verify the pool pays the required amount of the asset
+  const address = getAddress(pool);
+  const [token, denomination] = await Promise.all([
+    client.readContract({ address, abi: shieldedPoolABI, functionName: "token" }),
+    client.readContract({ address, abi: shieldedPoolABI, functionName: "denomination" }),
+  ]);
+  if (getAddress(token) !== getAddress(paymentRequirements.asset)) {
+    return { isValid: false, invalidReason: "invalid_shielded_evm_payload_asset_mismatch" };
+  }
+  if (denomination !== BigInt(paymentRequirements.maxAmountRequired)) {
+    return { isValid: false, invalidReason: "invalid_shielded_evm_payload_amount_mismatch" };
+  }
+
+  // Verify the note was not withdrawn yet
+  const keyImage = signature.keyImage.map(BigInt) as unknown as ShieldedPoint;
+  const nullified = await client.readContract({
+    address,
+    abi: shieldedPoolABI,
+    functionName: "nullified",
+    args: [getNullifier(keyImage)],
+  });
+  if (nullified) {
+    return { isValid: false, invalidReason: "duplicate_payment" };
+  }
+
+  // Verify the ring hides the note among enough notes, as payments are only as private as their ring
+  if (signature.ring.length < MIN_SHIELDED_RING_SIZE) {
+    return { isValid: false, invalidReason: "invalid_shielded_evm_payload_ring" };
+  }
+
+  // Verify the ring is made of notes of the pool, which rejects rings that are not in order
+  const ring = signature.ring.map(BigInt);
+  let keys: readonly ShieldedPoint[];
+  try {
+    keys = await client.readContract({
+      address,
+      abi: shieldedPoolABI,
+      functionName: "getRing",
+      args: [ring],
+    });
+  } catch {
+    return { isValid: false, invalidReason: "invalid_shielded_evm_payload_ring" };
+  }
+
+  // Verify the ring signature signs this withdrawal with the key of a note of the ring
+  const message = hashWithdrawal(
+    chainId,
+    address,
+    {
+      recipient: getAddress(withdrawal.recipient),
+      nonce: withdrawal.nonce as Hex,
+      deadline: BigInt(withdrawal.deadline),
+    },
+    ring,
+    keyImage,
+  );
+  const isValidSignature = verifyRingSignature(message, keys, {
+    ring,
+    keyImage,
+    c: BigInt(signature.c),
+    s: signature.s.map(BigInt),
+  });
+  if (!isValidSignature) {
+    return { isValid: false, invalidReason: "invalid_shielded_evm_payload_signature" };
+  }
+
+  return { isValid: true, invalidReason: undefined };
+}
+
+/**
+ * Settles a shielded payment by withdrawing its note from the pool to `payTo`
+ *
+ * Anyone may submit a withdrawal; the facilitator pays for its gas.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The payment payload holding the withdrawal and its ring signature
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function settle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<SettleResponse> {
+  const { pool, withdrawal, signature } = paymentPayload.payload as ShieldedEvmPayload;
+
+  // re-verify to ensure the payment is still valid
+  const valid = await verify(wallet, paymentPayload, paymentRequirements);
+
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+    };
+  }
+
+  const tx = await wallet.writeContract({
+    address: getAddress(pool),
+    abi: shieldedPoolABI,
+    functionName: "withdraw" as const,
+    args: [
+      {
+        recipient: getAddress(withdrawal.recipient) as Address,
+        nonce: withdrawal.nonce as Hex,
+        deadline: BigInt(withdrawal.deadline),
+      },
+      {
+        ring: signature.ring.map(BigInt),
+        keyImage: [BigInt(signature.keyImage[0]), BigInt(signature.keyImage[1])],
+        c: BigInt(signature.c),
+        s: signature.s.map(BigInt),
+      },
+    ],
+    chain: wallet.chain as Chain,
+  });
+
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: tx,
+      network: paymentPayload.network,
+    };
+  }
+
+  return {
+    success: true,
+    transaction: tx,
+    network: paymentPayload.network,
+    blockNumber: receipt.blockNumber.toString(),
+  };
+}
@@ -0,0 +1,4 @@
+export * from "./client";
+export * from "./facilitator";
+export * from "./scheme";
+export * from "./sign";
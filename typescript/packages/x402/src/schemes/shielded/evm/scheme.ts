@@ -0,0 +1,36 @@
+import { Chain, Hex, Transport } from "viem";
+import { SupportedEVMNetworks } from "../../../types/shared";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { ShieldedEvmPayload, ShieldedEvmPayloadSchema } from "../../../types/verify";
+import { getNullifier, ShieldedPoint } from "../../../shared/evm";
+import { getEvmSigner } from "../../exact/evm/scheme";
+import { isRequestNonce } from "../../exact/evm/sign";
+import type { SchemeImplementation } from "../../registry";
+import { createPaymentHeader } from "./client";
+import { settle, verify } from "./facilitator";
+
+/**
+ * The `shielded` scheme on EVM networks, paying with notes deposited into a shielded pool and
+ * withdrawn to `payTo` with ring signatures that do not reveal the payer
+ */
+export const shieldedEvmScheme: SchemeImplementation = {
+  scheme: "shielded",
+  networks: SupportedEVMNetworks,
+  payloadSchema: ShieldedEvmPayloadSchema,
+  createPaymentHeader: (client, x402Version, paymentRequirements, config, request) =>
+    createPaymentHeader(getEvmSigner(client), x402Version, paymentRequirements, config, request),
+  verify: (client, payload, paymentRequirements) =>
+    verify(client as ConnectedClient<Transport, Chain>, payload, paymentRequirements),
+  settle: (client, payload, paymentRequirements) =>
+    settle(client as SignerWallet<Chain, Transport>, payload, paymentRequirements),
+  // each note has a single key image, whatever the ring it is withdrawn with
+  getPaymentId: payment => {
+    const { keyImage } = (payment.payload as ShieldedEvmPayload).signature;
+    const nullifier = getNullifier(keyImage.map(BigInt) as unknown as ShieldedPoint);
+    return `shielded:${payment.network}:${nullifier}`;
+  },
+  getPayTo: payment => (payment.payload as ShieldedEvmPayload).withdrawal.recipient,
+  // the ring signature signs the nonce of the withdrawal, which commits to the request
+  isBoundToRequest: (payment, requestHash) =>
+    isRequestNonce((payment.payload as ShieldedEvmPayload).withdrawal.nonce as Hex, requestHash),
+};
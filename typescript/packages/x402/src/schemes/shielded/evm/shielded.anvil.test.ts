@@ -0,0 +1,164 @@
+import fs from "fs";
+import path from "path";
+import { Abi, Address, createWalletClient, Hex, http, publicActions } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { beforeAll, describe, expect, it } from "vitest";
+import { getERC20Balance } from "../../../shared/evm";
+import { createInMemoryShieldedNoteStore } from "../../../shared/shielded";
+import { ShieldedNoteStore } from "../../../types/shared";
+import {
+  createSigner,
+  registerEvmNetwork,
+  shieldedPoolABI,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import { PaymentRequirements } from "../../../types/verify";
+import { createPayment, depositShieldedNotes } from "./client";
+import { settle, verify } from "./facilitator";
+
+// run with a local anvil chain and the contracts built by `forge build`, see contracts/README.md
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+// the default accounts of anvil
+const facilitatorKey: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const payerKey: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const otherPayerKey: Hex = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+const payTo: Address = "0x000000000000000000000000000000000000dEaD";
+
+/**
+ * Reads a contract compiled by forge
+ *
+ * @param name - The name of the contract
+ * @returns The ABI and bytecode of the contract
+ */
+function readArtifact(name: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(
+    fs.readFileSync(
+      path.join(process.cwd(), "contracts", "out", `${name}.sol`, `${name}.json`),
+      "utf8",
+    ),
+  );
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+describe.skipIf(!rpcUrl)("shielded pool on anvil", () => {
+  let facilitator: SignerWallet;
+  let payer: SignerWallet;
+  let token: Address;
+  let pool: Address;
+  let store: ShieldedNoteStore;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Deploys a contract built by forge
+   *
+   * @param name - The name of the contract
+   * @param args - The constructor arguments
+   * @returns The address of the contract
+   */
+  async function deploy(name: string, args: unknown[] = []): Promise<Address> {
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(facilitatorKey),
+      chain: foundry,
+      transport: http(rpcUrl),
+    }).extend(publicActions);
+    const hash = await wallet.deployContract({ ...readArtifact(name), args });
+    const receipt = await wallet.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  }
+
+  /**
+   * Mints tokens to a wallet
+   *
+   * @param to - The address receiving the tokens
+   * @param amount - The amount of tokens
+   */
+  async function mint(to: Address, amount: bigint) {
+    const hash = await facilitator.writeContract({
+      address: token,
+      abi: readArtifact("AuthorizationToken").abi,
+      functionName: "mint",
+      args: [to, amount],
+      chain: foundry,
+    });
+    await facilitator.waitForTransactionReceipt({ hash });
+  }
+
+  beforeAll(async () => {
+    token = await deploy("AuthorizationToken", ["Authorization Dollar"]);
+    pool = await deploy("X402ShieldedPool", [token, 1_000_000n]);
+
+    registerEvmNetwork({
+      network: "anvil",
+      chain: foundry,
+      rpcUrl,
+      defaultAsset: { address: token, eip712: { name: "Authorization Dollar", version: "2" } },
+    });
+    facilitator = createSigner("anvil", facilitatorKey);
+    payer = createSigner("anvil", payerKey);
+    store = createInMemoryShieldedNoteStore();
+
+    paymentRequirements = {
+      scheme: "shielded",
+      network: "anvil",
+      maxAmountRequired: "1000000",
+      resource: "https://example.com/resource",
+      description: "Test resource",
+      mimeType: "application/json",
+      payTo,
+      maxTimeoutSeconds: 300,
+      asset: token,
+      extra: { name: "Authorization Dollar", version: "2", pool },
+    };
+
+    // the notes of another payer grow the set the payer's payments hide among
+    const other = createSigner("anvil", otherPayerKey);
+    await mint(other.account.address, 6_000_000n);
+    await depositShieldedNotes(other, paymentRequirements, 6, createInMemoryShieldedNoteStore());
+    await mint(payer.account.address, 2_000_000n);
+    await depositShieldedNotes(payer, paymentRequirements, 2, store);
+  });
+
+  it("pays payTo from the pool with a withdrawal hiding the payer among every note", async () => {
+    expect(await getERC20Balance(payer, token, pool)).toBe(8_000_000n);
+    const received = await getERC20Balance(payer, token, payTo);
+
+    const payment = await createPayment(payer, 1, paymentRequirements, store);
+
+    expect(await verify(facilitator, payment, paymentRequirements)).toEqual({
+      isValid: true,
+      invalidReason: undefined,
+    });
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(true);
+    expect(result.payer).toBeUndefined();
+    expect(await getERC20Balance(payer, token, payTo)).toBe(received + 1_000_000n);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("rejects rings smaller than the minimum ring size", async () => {
+    await expect(
+      facilitator.readContract({
+        address: pool,
+        abi: shieldedPoolABI,
+        functionName: "getRing",
+        args: [[0n, 1n, 2n, 3n, 4n, 5n, 6n]],
+      }),
+    ).rejects.toThrow();
+  });
+
+  it("rejects a note that was already withdrawn", async () => {
+    const payment = await createPayment(payer, 1, paymentRequirements, store);
+    expect((await settle(facilitator, payment, paymentRequirements)).success).toBe(true);
+
+    const result = await settle(facilitator, payment, paymentRequirements);
+
+    expect(result.success).toBe(false);
+    expect(result.errorReason).toBe("duplicate_payment");
+    await expect(createPayment(payer, 1, paymentRequirements, store)).rejects.toThrow(
+      "No note of the shielded pool",
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { Address, encodeAbiParameters, getAddress, Hex, keccak256 } from "viem";
+import { ShieldedPoint } from "../../../shared/evm";
+import { PaymentRequirements } from "../../../types/verify";
+
+/**
+ * The fewest notes a withdrawal may hide among, including its own. A payment is only as private
+ * as its ring: it can be traced to one of its notes, whatever the size of the pool. The pool
+ * enforces the same minimum as `MIN_RING_SIZE`.
+ */
+export const MIN_SHIELDED_RING_SIZE = 8;
+
+/**
+ * A withdrawal of a note to the recipient of a payment, as signed by its ring signature
+ */
+export type ShieldedWithdrawal = {
+  recipient: Address;
+  /** A random value identifying the payment, bound to the request when it asks for it */
+  nonce: Hex;
+  /** The time after which the withdrawal is rejected, in seconds since the epoch */
+  deadline: bigint;
+};
+
+/**
+ * Reads the shielded pool of a payment from its payment requirements
+ *
+ * @param paymentRequirements - The payment requirements, with the shielded pool in `extra`
+ * @returns The address of the shielded pool
+ * @throws Error if the payment requirements do not provide a shielded pool
+ */
+export function getShieldedPool(paymentRequirements: PaymentRequirements): Address {
+  const pool = paymentRequirements.extra?.pool;
+  if (!pool) {
+    throw new Error("The payment requirements do not provide a pool for the shielded scheme");
+  }
+  return getAddress(pool);
+}
+
+/**
+ * Computes the nonce of an authorization depositing notes, as `hashKeys` of the shielded pool does
+ *
+ * @param keys - The public keys of the notes
+ * @returns The nonce of the authorization
+ */
+export function hashShieldedKeys(keys: readonly ShieldedPoint[]): Hex {
+  return keccak256(encodeAbiParameters([{ type: "uint256[2][]" }], [keys]));
+}
+
+/**
+ * Computes the message the ring signature of a withdrawal signs, as `hashWithdrawal` of the
+ * shielded pool does
+ *
+ * @param chainId - The id of the chain of the pool
+ * @param pool - The address of the shielded pool
+ * @param withdrawal - The withdrawal
+ * @param ring - The indexes of the notes of the ring
+ * @param keyImage - The key image of the signature
+ * @returns The message
+ */
+export function hashWithdrawal(
+  chainId: number,
+  pool: Address,
+  withdrawal: ShieldedWithdrawal,
+  ring: readonly bigint[],
+  keyImage: ShieldedPoint,
+): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "uint256" },
+        { type: "address" },
+        { type: "address" },
+        { type: "bytes32" },
+        { type: "uint256" },
+        { type: "uint256[]" },
+        { type: "uint256[2]" },
+      ],
+      [
+        BigInt(chainId),
+        pool,
+        withdrawal.recipient,
+        withdrawal.nonce,
+        withdrawal.deadline,
+        ring,
+        keyImage,
+      ],
+    ),
+  );
+}
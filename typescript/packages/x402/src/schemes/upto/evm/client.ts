@@ -0,0 +1,144 @@
+import { Address, Chain, LocalAccount, Transport } from "viem";
+import { getPermitNonce } from "../../../shared/evm";
+import {
+  ConnectedClient,
+  createConnectedClient,
+  isSignerWallet,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  UnsignedUptoPaymentPayload,
+} from "../../../types/verify";
+import { encodePayment } from "../../exact/evm/utils/paymentUtils";
+import { signPermitTransfer } from "../../permit/evm/sign";
+import { signPermit } from "./sign";
+
+/**
+ * Prepares an unsigned upto payment header granting the facilitator's permit router up to
+ * `maxAmountRequired` on behalf of the owner.
+ *
+ * @param owner - The address from which the payment will be made
+ * @param nonce - The current permit nonce of the owner on the asset contract
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements, with the router and facilitator addresses in `extra`
+ * @returns An unsigned payment payload containing the permit details
+ */
+export function preparePaymentHeader(
+  owner: Address,
+  nonce: bigint,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): UnsignedUptoPaymentPayload {
+  const router = paymentRequirements.extra?.router;
+  if (!router || !paymentRequirements.extra?.facilitator) {
+    throw new Error(
+      "The payment requirements do not provide a router and facilitator for the upto scheme",
+    );
+  }
+
+  const deadline = BigInt(
+    Math.floor(Date.now() / 1000 + paymentRequirements.maxTimeoutSeconds),
+  ).toString();
+
+  return {
+    x402Version,
+    scheme: paymentRequirements.scheme,
+    network: paymentRequirements.network,
+    payload: {
+      signature: undefined,
+      transferSignature: undefined,
+      permit: {
+        owner,
+        spender: router,
+        value: paymentRequirements.maxAmountRequired,
+        nonce: nonce.toString(),
+        deadline,
+      },
+    },
+  };
+}
+
+/**
+ * Signs an upto payment header using the provided client and payment requirements.
+ *
+ * Both the EIP-2612 permit and the `PermitTransfer` message naming the recipient and the
+ * facilitator are signed, so that the permitted funds can only be settled to `payTo`.
+ *
+ * @param client - The signer wallet instance used to sign the payment header
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @param unsignedPaymentHeader - The unsigned payment payload to be signed
+ * @returns A promise that resolves to the signed payment payload
+ */
+export async function signPaymentHeader<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  paymentRequirements: PaymentRequirements,
+  unsignedPaymentHeader: UnsignedUptoPaymentPayload,
+): Promise<PaymentPayload> {
+  const { permit } = unsignedPaymentHeader.payload;
+  const { signature } = await signPermit(client, permit, paymentRequirements);
+  const { signature: transferSignature } = await signPermitTransfer(
+    client,
+    permit,
+    paymentRequirements.extra?.facilitator,
+    paymentRequirements,
+  );
+
+  return {
+    ...unsignedPaymentHeader,
+    payload: {
+      ...unsignedPaymentHeader.payload,
+      signature,
+      transferSignature,
+    },
+  };
+}
+
+/**
+ * Creates a complete upto payment payload by reading the owner's permit nonce, then preparing
+ * and signing a payment header.
+ *
+ * @param client - The signer wallet instance used to create and sign the payment
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @returns A promise that resolves to the complete signed payment payload
+ */
+export async function createPayment<transport extends Transport, chain extends Chain>(
+  client: SignerWallet<chain, transport> | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): Promise<PaymentPayload> {
+  const owner = isSignerWallet(client) ? client.account!.address : client.address;
+
+  // local accounts cannot read the chain, so the nonce is read through a public client
+  const reader: ConnectedClient = isSignerWallet(client)
+    ? (client as unknown as ConnectedClient)
+    : createConnectedClient(paymentRequirements.network);
+  const nonce = await getPermitNonce(reader, paymentRequirements.asset as Address, owner);
+
+  const unsignedPaymentHeader = preparePaymentHeader(
+    owner,
+    nonce,
+    x402Version,
+    paymentRequirements,
+  );
+  return signPaymentHeader(client, paymentRequirements, unsignedPaymentHeader);
+}
+
+/**
+ * Creates and encodes an upto payment header for the given client and payment requirements.
+ *
+ * @param client - The signer wallet instance used to create the payment header
+ * @param x402Version - The version of the X402 protocol to use
+ * @param paymentRequirements - The payment requirements containing scheme and network information
+ * @returns A promise that resolves to the encoded payment header string
+ */
+export async function createPaymentHeader(
+  client: SignerWallet | LocalAccount,
+  x402Version: number,
+  paymentRequirements: PaymentRequirements,
+): Promise<string> {
+  const payment = await createPayment(client, x402Version, paymentRequirements);
+  return encodePayment(payment);
+}
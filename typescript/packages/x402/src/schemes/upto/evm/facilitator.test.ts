@@ -0,0 +1,315 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "viem/chains";
+import { ConnectedClient, SignerWallet } from "../../../types/shared/evm";
+import { PaymentPayload, PaymentRequirements, UptoEvmPayloadPermit } from "../../../types/verify";
+import { signPermitTransfer } from "../../permit/evm/sign";
+import { settle, verify } from "./facilitator";
+import { signPermit } from "./sign";
+
+describe("upto evm facilitator", () => {
+  const owner = privateKeyToAccount(
+    "0x1234567890123456789012345678901234567890123456789012345678901234",
+  );
+  const facilitator = privateKeyToAccount(
+    "0xabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcdefabcd",
+  );
+  const router = "0x9876543210987654321098765432109876543210";
+
+  const paymentRequirements: PaymentRequirements = {
+    scheme: "upto",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+    resource: "https://example.com/resource",
+    description: "Test resource",
+    mimeType: "application/json",
+    payTo: "0x1234567890123456789012345678901234567890",
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    extra: { name: "USDC", version: "2", router, facilitator: facilitator.address },
+  };
+
+  let wallet: {
+    account: typeof facilitator;
+    chain: typeof baseSepolia;
+    verifyTypedData: typeof verifyTypedData;
+    readContract: ReturnType<typeof vi.fn>;
+    writeContract: ReturnType<typeof vi.fn>;
+    waitForTransactionReceipt: ReturnType<typeof vi.fn>;
+  };
+
+  /**
+   * Builds a signed upto payment
+   *
+   * @param overrides - Permit fields to override
+   * @param requirements - The payment requirements the transfer is signed for
+   * @returns The signed payment payload
+   */
+  async function createPayment(
+    overrides: Partial<UptoEvmPayloadPermit> = {},
+    requirements: PaymentRequirements = paymentRequirements,
+  ) {
+    const permit: UptoEvmPayloadPermit = {
+      owner: owner.address,
+      spender: router,
+      value: "1000000",
+      nonce: "0",
+      deadline: String(Math.floor(Date.now() / 1000) + 300),
+      ...overrides,
+    };
+    const { signature } = await signPermit(owner, permit, requirements);
+    const { signature: transferSignature } = await signPermitTransfer(
+      owner,
+      permit,
+      requirements.extra!.facilitator,
+      requirements,
+    );
+    return {
+      x402Version: 1,
+      scheme: "upto",
+      network: "base-sepolia",
+      payload: { signature, transferSignature, permit },
+    } as PaymentPayload;
+  }
+
+  beforeEach(() => {
+    wallet = {
+      account: facilitator,
+      chain: baseSepolia,
+      verifyTypedData,
+      readContract: vi.fn(async ({ functionName }) => {
+        switch (functionName) {
+          case "settled":
+            return false;
+          case "nonces":
+            return 0n;
+          case "allowance":
+            return 0n;
+          default:
+            return 5_000_000n;
+        }
+      }),
+      writeContract: vi.fn().mockResolvedValue(`0x${"01".repeat(32)}`),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: "success", blockNumber: 42n }),
+    };
+  });
+
+  describe("verify", () => {
+    it("accepts a permit to the router covering the maximum amount", async () => {
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment(),
+        paymentRequirements,
+      );
+
+      expect(result).toEqual({ isValid: true, invalidReason: undefined, payer: owner.address });
+    });
+
+    it("rejects a permit granted to another router", async () => {
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment({ spender: facilitator.address }),
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_router_mismatch");
+    });
+
+    it("rejects a transfer signed for another recipient", async () => {
+      const payment = await createPayment({}, { ...paymentRequirements, payTo: router });
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        payment,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_transfer_signature");
+    });
+
+    it("rejects a payment that the router already settled", async () => {
+      wallet.readContract.mockImplementation(async ({ functionName }) =>
+        functionName === "settled" ? true : 0n,
+      );
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment(),
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit_nonce");
+    });
+
+    it("accepts a permit that was already submitted if its allowance is left", async () => {
+      wallet.readContract.mockImplementation(async ({ functionName }) => {
+        switch (functionName) {
+          case "settled":
+            return false;
+          case "nonces":
+            return 1n;
+          default:
+            return 5_000_000n;
+        }
+      });
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment(),
+        paymentRequirements,
+      );
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("rejects a used permit without allowance", async () => {
+      wallet.readContract.mockImplementation(async ({ functionName }) =>
+        functionName === "settled" ? false : functionName === "nonces" ? 1n : 0n,
+      );
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment(),
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit_nonce");
+    });
+
+    it("rejects a permit below the maximum amount", async () => {
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment({ value: "999999" }),
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit_value");
+    });
+
+    it("rejects an expired permit", async () => {
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        await createPayment({ deadline: String(Math.floor(Date.now() / 1000)) }),
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_permit_deadline");
+    });
+
+    it("rejects a tampered permit", async () => {
+      const payment = await createPayment();
+      const tampered = {
+        ...payment,
+        payload: {
+          ...payment.payload,
+          permit: { ...(payment.payload as { permit: UptoEvmPayloadPermit }).permit, value: "2" },
+        },
+      } as PaymentPayload;
+
+      const result = await verify(
+        wallet as unknown as ConnectedClient,
+        tampered,
+        paymentRequirements,
+      );
+
+      expect(result.invalidReason).toBe("invalid_upto_evm_payload_signature");
+    });
+  });
+
+  describe("settle", () => {
+    it("settles the settlement amount through the router", async () => {
+      const payment = await createPayment();
+      const { signature, transferSignature, permit } = payment.payload as {
+        signature: string;
+        transferSignature: string;
+        permit: UptoEvmPayloadPermit;
+      };
+
+      const result = await settle(
+        wallet as unknown as SignerWallet,
+        payment,
+        paymentRequirements,
+        "250000",
+      );
+
+      expect(result).toEqual({
+        success: true,
+        transaction: `0x${"01".repeat(32)}`,
+        network: "base-sepolia",
+        payer: owner.address,
+        blockNumber: "42",
+      });
+      expect(wallet.writeContract).toHaveBeenCalledTimes(1);
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: router,
+          functionName: "settle",
+          args: [
+            paymentRequirements.asset,
+            paymentRequirements.payTo,
+            {
+              owner: owner.address,
+              value: 1000000n,
+              nonce: 0n,
+              deadline: BigInt(permit.deadline),
+            },
+            signature,
+            transferSignature,
+            250000n,
+          ],
+        }),
+      );
+    });
+
+    it("charges the maximum amount when no settlement amount is given", async () => {
+      await settle(wallet as unknown as SignerWallet, await createPayment(), paymentRequirements);
+
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({ args: expect.arrayContaining([1000000n]) }),
+      );
+    });
+
+    it("marks the payment settled in the router when nothing was consumed", async () => {
+      const result = await settle(
+        wallet as unknown as SignerWallet,
+        await createPayment(),
+        paymentRequirements,
+        "0",
+      );
+
+      expect(result.success).toBe(true);
+      expect(wallet.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: router,
+          functionName: "settle",
+          args: expect.arrayContaining([0n]),
+        }),
+      );
+    });
+
+    it("rejects settlements by another facilitator", async () => {
+      const result = await settle(
+        { ...wallet, account: owner } as unknown as SignerWallet,
+        await createPayment(),
+        paymentRequirements,
+      );
+
+      expect(result.errorReason).toBe("invalid_upto_evm_payload_transfer_signature");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+
+    it("rejects settlement amounts above the maximum", async () => {
+      const result = await settle(
+        wallet as unknown as SignerWallet,
+        await createPayment(),
+        paymentRequirements,
+        "1000001",
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("invalid_upto_settlement_amount");
+      expect(wallet.writeContract).not.toHaveBeenCalled();
+    });
+  });
+});
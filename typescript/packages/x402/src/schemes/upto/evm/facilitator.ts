@@ -0,0 +1,313 @@
+import {
+  Account,
+  Address,
+  Chain,
+  getAddress,
+  hashTypedData,
+  Hex,
+  parseErc6492Signature,
+  Transport,
+} from "viem";
+import { getNetworkId } from "../../../shared";
+import { getAllowance, getERC20Balance, getPermitNonce, getVersion } from "../../../shared/evm";
+import {
+  config,
+  ConnectedClient,
+  permitRouterABI,
+  permitTypes,
+  SignerWallet,
+} from "../../../types/shared/evm";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  UptoEvmPayload,
+  VerifyResponse,
+} from "../../../types/verify";
+import { SCHEME } from "..";
+import { getPermitTransferTypedData } from "../../permit/evm/sign";
+
+/**
+ * Verifies an upto payment payload against the required payment details
+ *
+ * This function performs several verification steps:
+ * - Verifies protocol version compatibility
+ * - Validates the permit signature
+ * - Checks the permit is granted to the router advertised in the payment requirements
+ * - Validates the transfer signature naming the recipient and the facilitator
+ * - Checks permit deadline is sufficiently in the future
+ * - Checks the permit nonce is current, or the allowance it granted is still available
+ * - Verifies client has sufficient balance to cover the maximum amount
+ * - Ensures the permitted value covers the maximum amount
+ *
+ * @param client - The public client used for blockchain interactions
+ * @param payload - The signed payment payload containing the permit and signatures
+ * @param paymentRequirements - The payment requirements that the payload must satisfy
+ * @returns A VerifyResponse indicating if the payment is valid and any invalidation reason
+ */
+export async function verify<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<VerifyResponse> {
+  const { permit, signature, transferSignature } = payload.payload as UptoEvmPayload;
+  const owner = permit.owner as Address;
+
+  // Verify payload version
+  if (payload.scheme !== SCHEME || paymentRequirements.scheme !== SCHEME) {
+    return {
+      isValid: false,
+      invalidReason: `unsupported_scheme`,
+      payer: owner,
+    };
+  }
+
+  let name: string;
+  let chainId: number;
+  let erc20Address: Address;
+  let version: string;
+  try {
+    chainId = getNetworkId(payload.network);
+    name = paymentRequirements.extra?.name ?? config[chainId.toString()].usdcName;
+    erc20Address = paymentRequirements.asset as Address;
+    version = paymentRequirements.extra?.version ?? (await getVersion(client));
+  } catch {
+    return {
+      isValid: false,
+      invalidReason: `invalid_network`,
+      payer: owner,
+    };
+  }
+
+  // Verify permit signature is recoverable for the owner address
+  const isValidSignature = await client.verifyTypedData({
+    address: owner,
+    types: permitTypes,
+    primaryType: "Permit" as const,
+    domain: {
+      name,
+      version,
+      chainId,
+      verifyingContract: erc20Address,
+    },
+    message: {
+      owner: permit.owner,
+      spender: permit.spender,
+      value: permit.value,
+      nonce: permit.nonce,
+      deadline: permit.deadline,
+    },
+    signature: signature as Hex,
+  });
+  if (!isValidSignature) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_upto_evm_payload_signature",
+      payer: owner,
+    };
+  }
+
+  // Verify that the permit was granted to the router named in the payment requirements
+  const router = paymentRequirements.extra?.router;
+  if (!router || getAddress(permit.spender) !== getAddress(router)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_upto_evm_payload_router_mismatch",
+      payer: owner,
+    };
+  }
+
+  // Verify that the owner agreed to pay payTo through the facilitator of the payment requirements
+  const facilitator = paymentRequirements.extra?.facilitator;
+  const transfer = facilitator
+    ? getPermitTransferTypedData(permit, facilitator, paymentRequirements)
+    : undefined;
+  if (
+    !transfer ||
+    !(await client.verifyTypedData({
+      address: owner,
+      ...transfer,
+      signature: transferSignature as Hex,
+    }))
+  ) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_upto_evm_payload_transfer_signature",
+      payer: owner,
+    };
+  }
+
+  // Verify deadline is not yet expired
+  // Pad 3 block to account for round tripping
+  if (BigInt(permit.deadline) < BigInt(Math.floor(Date.now() / 1000) + 6)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_upto_evm_payload_permit_deadline",
+      payer: owner,
+    };
+  }
+
+  // Verify the payment was not settled by the router yet
+  const settled = await client.readContract({
+    address: permit.spender as Address,
+    abi: permitRouterABI,
+    functionName: "settled",
+    args: [hashTypedData(transfer)],
+  });
+  if (settled) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_upto_evm_payload_permit_nonce",
+      payer: owner,
+    };
+  }
+
+  // Verify the permit can still be used. A permit that was already submitted, e.g. by a third
+  // party, is accepted as long as the allowance it granted to the router is left
+  const nonce = await getPermitNonce(client, erc20Address, owner);
+  if (BigInt(permit.nonce) !== nonce) {
+    const allowance =
+      BigInt(permit.nonce) < nonce
+        ? await getAllowance(client, erc20Address, owner, permit.spender as Address)
+        : 0n;
+    if (allowance < BigInt(paymentRequirements.maxAmountRequired)) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_upto_evm_payload_permit_nonce",
+        payer: owner,
+      };
+    }
+  }
+
+  // Verify client has enough funds to cover paymentRequirements.maxAmountRequired
+  const balance = await getERC20Balance(client, erc20Address, owner);
+  if (balance < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer: owner,
+    };
+  }
+
+  // Verify the permitted value is enough to cover paymentRequirements.maxAmountRequired
+  if (BigInt(permit.value) < BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: "invalid_upto_evm_payload_permit_value",
+      payer: owner,
+    };
+  }
+
+  return {
+    isValid: true,
+    invalidReason: undefined,
+    payer: owner,
+  };
+}
+
+/**
+ * Settles an upto payment through the permit router
+ *
+ * The facilitator wallet must be the facilitator named in the transfer signature. The router
+ * submits the permit and transfers `settlementAmount` from the owner to `payTo` in a single
+ * transaction. The transfer is submitted even when nothing was consumed, so that the router
+ * records it as settled and the payload cannot be settled again. Any permitted value left over
+ * stays granted to the router, which only moves it against a new transfer signature of the
+ * owner. Without a settlement amount the full `maxAmountRequired` is charged.
+ *
+ * @param wallet - The facilitator wallet that will submit the transaction
+ * @param paymentPayload - The signed payment payload containing the permit and signatures
+ * @param paymentRequirements - The original payment details that were used to create the payload
+ * @param settlementAmount - The amount actually consumed, in atomic units of the asset
+ * @returns A SettleResponse containing the transaction status and hash
+ */
+export async function settle<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  settlementAmount: string = paymentRequirements.maxAmountRequired,
+): Promise<SettleResponse> {
+  const { permit, signature, transferSignature } = paymentPayload.payload as UptoEvmPayload;
+
+  // re-verify to ensure the payment is still valid
+  const valid = await verify(wallet, paymentPayload, paymentRequirements);
+
+  if (!valid.isValid) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: valid.invalidReason ?? "invalid_scheme",
+      payer: permit.owner,
+    };
+  }
+
+  // the router only accepts the transfer from the facilitator named in the transfer signature
+  if (getAddress(paymentRequirements.extra?.facilitator) !== getAddress(wallet.account.address)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_upto_evm_payload_transfer_signature",
+      payer: permit.owner,
+    };
+  }
+
+  const amount = BigInt(settlementAmount);
+  if (amount < 0n || amount > BigInt(paymentRequirements.maxAmountRequired)) {
+    return {
+      success: false,
+      network: paymentPayload.network,
+      transaction: "",
+      errorReason: "invalid_upto_settlement_amount",
+      payer: permit.owner,
+    };
+  }
+
+  // Returns the original signature (no-op) if the signature is not a 6492 signature
+  const { signature: permitSignature } = parseErc6492Signature(signature as Hex);
+
+  const tx = await wallet.writeContract({
+    address: permit.spender as Address,
+    abi: permitRouterABI,
+    functionName: "settle" as const,
+    args: [
+      paymentRequirements.asset as Address,
+      paymentRequirements.payTo as Address,
+      {
+        owner: permit.owner as Address,
+        value: BigInt(permit.value),
+        nonce: BigInt(permit.nonce),
+        deadline: BigInt(permit.deadline),
+      },
+      permitSignature,
+      transferSignature as Hex,
+      amount,
+    ],
+    chain: wallet.chain as Chain,
+  });
+
+  const receipt = await wallet.waitForTransactionReceipt({ hash: tx });
+
+  if (receipt.status !== "success") {
+    return {
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: tx,
+      network: paymentPayload.network,
+      payer: permit.owner,
+    };
+  }
+
+  return {
+    success: true,
+    transaction: tx,
+    network: paymentPayload.network,
+    payer: permit.owner,
+    blockNumber: receipt.blockNumber.toString(),
+  };
+}
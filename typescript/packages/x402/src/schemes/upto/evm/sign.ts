@@ -0,0 +1,62 @@
+import { Chain, getAddress, Hex, LocalAccount, Transport } from "viem";
+import { getNetworkId } from "../../../shared";
+import { isAccount, isSignerWallet, permitTypes, SignerWallet } from "../../../types/shared/evm";
+import { PaymentRequirements, UptoEvmPayloadPermit } from "../../../types/verify";
+
+/**
+ * Signs an EIP-2612 permit allowing a spender, such as the permit router, to spend up to the given value
+ *
+ * @param walletClient - The wallet client that will sign the permit
+ * @param params - The permit parameters
+ * @param params.owner - The address tokens will be spent from
+ * @param params.spender - The address allowed to spend the tokens
+ * @param params.value - The maximum amount of tokens that may be spent (in base units)
+ * @param params.nonce - The current permit nonce of the owner on the token contract
+ * @param params.deadline - Unix timestamp before which the permit must be used
+ * @param paymentRequirements - The payment requirements containing asset and network information
+ * @param paymentRequirements.asset - The address of the ERC20 contract
+ * @param paymentRequirements.network - The network where the ERC20 contract exists
+ * @param paymentRequirements.extra - The extra information containing the name and version of the ERC20 contract
+ * @returns The signature for the permit
+ */
+export async function signPermit<transport extends Transport, chain extends Chain>(
+  walletClient: SignerWallet<chain, transport> | LocalAccount,
+  { owner, spender, value, nonce, deadline }: UptoEvmPayloadPermit,
+  { asset, network, extra }: PaymentRequirements,
+): Promise<{ signature: Hex }> {
+  const chainId = getNetworkId(network);
+  const name = extra?.name;
+  const version = extra?.version;
+
+  const data = {
+    types: permitTypes,
+    domain: {
+      name,
+      version,
+      chainId,
+      verifyingContract: getAddress(asset),
+    },
+    primaryType: "Permit" as const,
+    message: {
+      owner: getAddress(owner),
+      spender: getAddress(spender),
+      value,
+      nonce,
+      deadline,
+    },
+  };
+
+  if (isSignerWallet(walletClient)) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else if (isAccount(walletClient) && walletClient.signTypedData) {
+    const signature = await walletClient.signTypedData(data);
+    return {
+      signature,
+    };
+  } else {
+    throw new Error("Invalid wallet client provided does not support signTypedData");
+  }
+}
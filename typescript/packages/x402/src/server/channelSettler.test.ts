@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChannelRecord } from "../types/shared";
+import { PaymentPayload, PaymentRequirements, SettleResponse } from "../types/verify";
+import { createChannelSettler } from "./channelSettler";
+
+describe("createChannelSettler", () => {
+  const payment = {
+    x402Version: 1,
+    scheme: "channel",
+    network: "base-sepolia",
+    payload: {},
+  } as PaymentPayload;
+  const paymentRequirements = { scheme: "channel", network: "base-sepolia" } as PaymentRequirements;
+  const settled: SettleResponse = {
+    success: true,
+    transaction: "0xabc",
+    network: "base-sepolia",
+  };
+
+  /**
+   * Builds a recorded channel
+   *
+   * @param expiresInSeconds - How long the channel stays open
+   * @returns The channel
+   */
+  function makeChannel(expiresInSeconds: number): ChannelRecord {
+    return {
+      id: `0x${"ab".repeat(32)}`,
+      network: "base-sepolia",
+      payer: "0x1111111111111111111111111111111111111111",
+      deposit: "100000",
+      expiresAt: Math.floor(Date.now() / 1000) + expiresInSeconds,
+      amount: "30000",
+      claimedAmount: "10000",
+      paymentPayload: payment,
+      paymentRequirements,
+    };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("claims the latest voucher of open channels periodically", async () => {
+    const settle = vi.fn().mockResolvedValue(settled);
+    const close = vi.fn();
+    const settler = createChannelSettler(settle, close, { settleIntervalSeconds: 60 });
+    const channel = makeChannel(3600);
+    await settler.store.create(channel);
+
+    settler.start();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(settle).toHaveBeenCalledWith(payment, paymentRequirements);
+    expect(close).not.toHaveBeenCalled();
+    expect(await settler.store.get(channel.id)).toMatchObject({ claimedAmount: "30000" });
+
+    // nothing is left to claim
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(settle).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes channels about to expire and forgets them", async () => {
+    const settle = vi.fn();
+    const close = vi.fn().mockResolvedValue(settled);
+    const onClosed = vi.fn();
+    const settler = createChannelSettler(settle, close, { settleIntervalSeconds: 60, onClosed });
+    const channel = makeChannel(100);
+    await settler.store.create(channel);
+
+    await settler.process();
+
+    expect(close).toHaveBeenCalledWith(payment, paymentRequirements, "30000");
+    expect(settle).not.toHaveBeenCalled();
+    expect(await settler.store.get(channel.id)).toBeUndefined();
+    expect(onClosed).toHaveBeenCalledWith(channel, settled);
+  });
+
+  it("keeps channels it failed to close, to retry later", async () => {
+    const close = vi.fn().mockResolvedValue({
+      ...settled,
+      success: false,
+      errorReason: "unexpected_settle_error",
+    });
+    const settler = createChannelSettler(vi.fn(), close);
+    const channel = makeChannel(100);
+    await settler.store.create(channel);
+
+    await settler.process();
+
+    expect(await settler.store.get(channel.id)).toEqual(channel);
+  });
+});
@@ -0,0 +1,130 @@
+import { createInMemoryChannelStore } from "../shared/channel";
+import { ChannelOptions, ChannelRecord, ChannelStore } from "../types/shared/channel";
+import { SettleFunction } from "./settlementWorker";
+
+const DEFAULT_SETTLE_INTERVAL_SECONDS = 300;
+
+/**
+ * Claims the vouchers of payment channels and closes the channels about to expire
+ */
+export type ChannelSettler = {
+  /** The store recording the channels */
+  store: ChannelStore;
+  /** Starts claiming the channels periodically, if it has not started yet */
+  start(): void;
+  /** Stops claiming the channels periodically, and waits for the running pass */
+  stop(): Promise<void>;
+  /** Claims the channels with unclaimed vouchers and closes the channels about to expire */
+  process(): Promise<void>;
+};
+
+/**
+ * Creates a settler claiming the vouchers of payment channels through the facilitator
+ *
+ * Every `settleIntervalSeconds`, the latest voucher of each channel is claimed if it pays more
+ * than was claimed, and channels expiring within two intervals are closed, paying their latest
+ * voucher and refunding the rest of their deposit. The timer does not keep the process alive;
+ * call `process` periodically, e.g. from a cron job, where the process may stop between requests.
+ *
+ * @param settle - The function claiming a voucher, usually the facilitator's `settle`
+ * @param close - The function closing a channel, usually the facilitator's `closeChannel`
+ * @param options - The store, interval and callbacks of the settler
+ * @param logError - Logs the failed claims and closes, defaults to `console.error`
+ * @returns The channel settler
+ */
+export function createChannelSettler(
+  settle: SettleFunction,
+  close: SettleFunction,
+  options?: ChannelOptions,
+  logError: (...data: unknown[]) => void = console.error,
+): ChannelSettler {
+  const store = options?.store ?? createInMemoryChannelStore();
+  const intervalSeconds = options?.settleIntervalSeconds ?? DEFAULT_SETTLE_INTERVAL_SECONDS;
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let processing: Promise<void> | undefined;
+
+  /**
+   * Closes a channel about to expire, or claims its latest voucher
+   *
+   * @param channel - The channel
+   */
+  async function settleChannel(channel: ChannelRecord): Promise<void> {
+    const { paymentPayload, paymentRequirements, amount } = channel;
+
+    if (channel.expiresAt - Date.now() / 1000 <= 2 * intervalSeconds) {
+      const settleResponse = await close(paymentPayload, paymentRequirements, amount);
+      if (!settleResponse.success) {
+        logError(`Failed to close payment channel ${channel.id}: ${settleResponse.errorReason}`);
+        return;
+      }
+      await store.delete(channel.id);
+      await options?.onClosed?.(channel, settleResponse);
+      return;
+    }
+
+    if (BigInt(amount) > BigInt(channel.claimedAmount)) {
+      const settleResponse = await settle(paymentPayload, paymentRequirements);
+      if (!settleResponse.success) {
+        logError(`Failed to claim payment channel ${channel.id}: ${settleResponse.errorReason}`);
+        return;
+      }
+      // vouchers accepted while the claim was pending are kept, and claimed next time
+      let current = await store.get(channel.id);
+      while (
+        current &&
+        !(await store.update({ ...current, claimedAmount: amount }, current.amount))
+      ) {
+        current = await store.get(channel.id);
+      }
+    }
+  }
+
+  /**
+   * Settles every recorded channel
+   */
+  async function run(): Promise<void> {
+    for (const channel of await store.list()) {
+      try {
+        await settleChannel(channel);
+      } catch (error) {
+        logError(error);
+      }
+    }
+  }
+
+  /**
+   * Settles the channels, or waits for the running pass
+   *
+   * @returns A promise resolving once the channels are settled
+   */
+  function processChannels(): Promise<void> {
+    processing ??= run()
+      .catch(error => logError(error))
+      .finally(() => {
+        processing = undefined;
+      });
+    return processing;
+  }
+
+  return {
+    store,
+
+    start() {
+      if (timer) {
+        return;
+      }
+      timer = setInterval(() => void processChannels(), intervalSeconds * 1000);
+      // claims must not keep a Node.js process from exiting
+      (timer as { unref?: () => void }).unref?.();
+    },
+
+    async stop() {
+      clearInterval(timer);
+      timer = undefined;
+      await processing;
+    },
+
+    process: processChannels,
+  };
+}
@@ -0,0 +1,6 @@
+export * from "./channelSettler";
+export * from "./paymentGate";
+export * from "./requirements";
+export * from "./settlementWorker";
+export * from "./stealthScanner";
+export * from "./types";
@@ -0,0 +1,1516 @@
+import { address } from "@solana/kit";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { getPaywallHtml } from "../paywall";
+import * as channelScheme from "../schemes/channel/evm";
+import { createRequestNonce } from "../schemes/exact/evm/sign";
+import { encodePayment } from "../schemes/exact/evm/utils/paymentUtils";
+import { encodePaymentHeader } from "../schemes/registry";
+import * as shieldedScheme from "../schemes/shielded/evm";
+import {
+  generateShieldedSecretKey,
+  generateStealthMetaAddress,
+  getShieldedPublicKey,
+} from "../shared/evm";
+import { hashPayer } from "../shared/privacy";
+import { createInMemorySettlementQueue } from "../shared/settlementQueue";
+import { verifyPaymentReceipt } from "../shared/receipt";
+import { hashPaymentRequest } from "../shared/requestBinding";
+import { createInMemoryShieldedNoteStore } from "../shared/shielded";
+import { createInMemoryStealthAddressStore } from "../shared/stealth";
+import { SignerWallet } from "../types/shared/evm";
+import {
+  ChannelEvmPayload,
+  ExactEvmPayload,
+  PaymentPayload,
+  PaymentRequirements,
+  settleResponseFromHeader,
+} from "../types/verify";
+import { useFacilitator } from "../verify";
+import { createPaymentGate } from "./paymentGate";
+import { HTTPRequestContext } from "./types";
+
+vi.mock("../verify", () => ({
+  useFacilitator: vi.fn(),
+}));
+
+vi.mock("../paywall", () => ({
+  getPaywallHtml: vi.fn(),
+}));
+
+describe("createPaymentGate", () => {
+  const payTo = "0x1234567890123456789012345678901234567890";
+  const routes = {
+    "/weather": {
+      price: "$0.001",
+      network: "base-sepolia" as const,
+      config: { description: "Weather data" },
+    },
+  };
+
+  const payer = "0x1111111111111111111111111111111111111111";
+  const payment: PaymentPayload = {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: "0x1234",
+      authorization: {
+        from: payer,
+        to: payTo,
+        value: "1000",
+        validAfter: "0",
+        validBefore: "9999999999",
+        nonce: `0x${"ab".repeat(32)}`,
+      },
+    },
+  };
+
+  let verify: ReturnType<typeof vi.fn>;
+  let settle: ReturnType<typeof vi.fn>;
+  let releaseEscrow: ReturnType<typeof vi.fn>;
+  let refundEscrow: ReturnType<typeof vi.fn>;
+  let closeChannel: ReturnType<typeof vi.fn>;
+  let refund: ReturnType<typeof vi.fn>;
+
+  /**
+   * Builds a request context for the gate
+   *
+   * @param headers - The request headers
+   * @param path - The request path
+   * @returns The request context
+   */
+  function makeRequest(
+    headers: Record<string, string> = {},
+    path = "/weather",
+  ): HTTPRequestContext {
+    return {
+      method: "GET",
+      path,
+      url: `https://api.example.com${path}?city=paris`,
+      getHeader: name => headers[name],
+    };
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    verify = vi.fn();
+    settle = vi.fn();
+    releaseEscrow = vi.fn();
+    refundEscrow = vi.fn();
+    closeChannel = vi.fn();
+    refund = vi.fn();
+    vi.mocked(useFacilitator).mockReturnValue({
+      verify,
+      settle,
+      releaseEscrow,
+      refundEscrow,
+      closeChannel,
+      refund,
+      supported: vi.fn(),
+      list: vi.fn(),
+    });
+    vi.mocked(getPaywallHtml).mockReturnValue("<html>Paywall</html>");
+  });
+
+  it("passes through requests that do not match a protected route", async () => {
+    const gate = createPaymentGate(payTo, routes);
+
+    const decision = await gate(makeRequest({}, "/free"));
+
+    expect(decision).toEqual({ type: "pass-through" });
+  });
+
+  it("returns the payment requirements when no payment is provided", async () => {
+    const gate = createPaymentGate(payTo, routes);
+
+    const decision = await gate(makeRequest());
+
+    expect(decision.type).toBe("payment-error");
+    if (decision.type !== "payment-error") return;
+    expect(decision.status).toBe(402);
+    expect(decision.body.error).toBe("X-PAYMENT header is required");
+    expect(decision.body.code).toBe("payment_required");
+    expect(decision.body.accepts).toEqual([
+      expect.objectContaining({
+        scheme: "exact",
+        network: "base-sepolia",
+        maxAmountRequired: "1000",
+        resource: "https://api.example.com/weather",
+        description: "Weather data",
+        payTo,
+      }),
+    ]);
+  });
+
+  describe("protocol versions", () => {
+    /**
+     * Creates a version 2 payment for the payment requirements advertised by the gate
+     *
+     * @param gate - The payment gate
+     * @returns The encoded X-PAYMENT header
+     */
+    async function createV2Payment(gate: ReturnType<typeof createPaymentGate>): Promise<string> {
+      const decision = await gate(makeRequest());
+      if (decision.type !== "payment-error") throw new Error("expected payment requirements");
+      const accepted = decision.body.accepts[0] as PaymentRequirements;
+      return encodePaymentHeader({ ...payment, x402Version: 2, accepted });
+    }
+
+    it("advertises the accepted versions", async () => {
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        x402Versions: [1, 2],
+      });
+
+      const decision = await gate(makeRequest());
+
+      if (decision.type !== "payment-error") throw new Error("expected payment requirements");
+      expect(decision.body.x402Version).toBe(1);
+      expect(decision.body.x402Versions).toEqual([1, 2]);
+    });
+
+    it("rejects version 2 payments by default", async () => {
+      const gate = createPaymentGate(payTo, routes);
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": await createV2Payment(gate) }));
+
+      expect(decision.type).toBe("payment-error");
+      if (decision.type !== "payment-error") return;
+      expect(decision.body.code).toBe("invalid_x402_version");
+      expect(verify).not.toHaveBeenCalled();
+    });
+
+    it("verifies version 2 payments once enabled", async () => {
+      verify.mockResolvedValue({ isValid: true, payer });
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        x402Versions: [1, 2],
+      });
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": await createV2Payment(gate) }));
+
+      expect(decision.type).toBe("payment-verified");
+      expect(verify).toHaveBeenCalledWith(
+        expect.objectContaining({ x402Version: 2, scheme: "exact", network: "base-sepolia" }),
+        expect.objectContaining({ payTo, maxAmountRequired: "1000" }),
+      );
+    });
+  });
+
+  it("renders the paywall for browsers", async () => {
+    const gate = createPaymentGate(payTo, routes, undefined, { appName: "Weather" });
+
+    const decision = await gate(makeRequest({ Accept: "text/html", "User-Agent": "Mozilla/5.0" }));
+
+    expect(decision).toEqual({ type: "paywall", status: 402, html: "<html>Paywall</html>" });
+    expect(getPaywallHtml).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 0.001,
+        currentUrl: "https://api.example.com/weather?city=paris",
+        testnet: true,
+        appName: "Weather",
+      }),
+    );
+  });
+
+  it("honors custom error messages", async () => {
+    const gate = createPaymentGate(payTo, {
+      "/weather": {
+        ...routes["/weather"],
+        config: { errorMessages: { invalidPayment: "Bad payment" } },
+      },
+    });
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": "not-a-payment" }));
+
+    expect(decision.type).toBe("payment-error");
+    if (decision.type !== "payment-error") return;
+    expect(decision.body.error).toBe("Bad payment");
+    expect(decision.body.code).toBe("invalid_payment");
+  });
+
+  it("returns the verification failure reason and payer", async () => {
+    verify.mockResolvedValue({
+      isValid: false,
+      invalidReason: "insufficient_funds",
+      payer,
+    });
+    const gate = createPaymentGate(payTo, routes);
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+
+    expect(decision.type).toBe("payment-error");
+    if (decision.type !== "payment-error") return;
+    expect(decision.body.code).toBe("insufficient_funds");
+    expect(decision.body.error).toBe("The payer does not have enough funds");
+    expect(decision.body.payer).toBe(payer);
+  });
+
+  it("does not expose the message of unexpected verification errors", async () => {
+    verify.mockRejectedValue(new Error("connect ECONNREFUSED 10.0.0.1:443"));
+    const gate = createPaymentGate(payTo, routes);
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+
+    if (decision.type !== "payment-error") throw new Error("expected a payment error");
+    expect(decision.body.code).toBe("unexpected_verify_error");
+    expect(decision.body.error).toBe("The payment could not be verified");
+  });
+
+  it("advertises every payment option of a route", async () => {
+    const solanaPayTo = address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+    vi.mocked(useFacilitator).mockReturnValue({
+      verify,
+      settle,
+      releaseEscrow,
+      refundEscrow,
+      closeChannel,
+      refund,
+      supported: vi.fn().mockResolvedValue({
+        kinds: [
+          {
+            x402Version: 1,
+            scheme: "exact",
+            network: "solana-devnet",
+            extra: { feePayer: solanaPayTo },
+          },
+        ],
+      }),
+      list: vi.fn(),
+    });
+    const gate = createPaymentGate(payTo, {
+      "/weather": {
+        accepts: [
+          { price: "$0.001", network: "base-sepolia" },
+          { price: "$0.002", network: "solana-devnet", payTo: solanaPayTo },
+        ],
+      },
+    });
+
+    const decision = await gate(makeRequest());
+
+    expect(decision.type).toBe("payment-error");
+    if (decision.type !== "payment-error") return;
+    expect(decision.body.accepts).toEqual([
+      expect.objectContaining({ network: "base-sepolia", maxAmountRequired: "1000", payTo }),
+      expect.objectContaining({
+        network: "solana-devnet",
+        maxAmountRequired: "2000",
+        payTo: solanaPayTo,
+        extra: { feePayer: solanaPayTo },
+      }),
+    ]);
+  });
+
+  it("advertises the ElGamal public key of the facilitator for confidential payments", async () => {
+    const solanaPayTo = address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+    const elgamalPubkey = "8GYt1ZkN2mJQAIEVcSsPSsu2nlR+uZ2XGwrgYLzm9hA=";
+    vi.mocked(useFacilitator).mockReturnValue({
+      verify,
+      settle,
+      releaseEscrow,
+      refundEscrow,
+      closeChannel,
+      refund,
+      supported: vi.fn().mockResolvedValue({
+        kinds: [
+          {
+            x402Version: 1,
+            scheme: "confidential",
+            network: "solana-devnet",
+            extra: { feePayer: solanaPayTo, elgamalPubkey },
+          },
+        ],
+      }),
+      list: vi.fn(),
+    });
+    const gate = createPaymentGate(payTo, {
+      "/weather": {
+        scheme: "confidential",
+        price: {
+          amount: "2000",
+          asset: { address: "Gh9ZwEmdLJ8DscKNTkTqPbNwLNNBjuSzaG9Vp2KGtKJr", decimals: 6 },
+        },
+        network: "solana-devnet",
+        payTo: solanaPayTo,
+      },
+    });
+
+    const decision = await gate(makeRequest());
+
+    if (decision.type !== "payment-error") throw new Error("expected a payment error");
+    expect(decision.body.accepts).toEqual([
+      expect.objectContaining({
+        scheme: "confidential",
+        asset: "Gh9ZwEmdLJ8DscKNTkTqPbNwLNNBjuSzaG9Vp2KGtKJr",
+        extra: { feePayer: solanaPayTo, elgamalPubkey },
+      }),
+    ]);
+  });
+
+  it("verifies the payment against each option sharing its network", async () => {
+    verify
+      .mockResolvedValueOnce({
+        isValid: false,
+        invalidReason: "invalid_exact_evm_payload_signature",
+      })
+      .mockResolvedValueOnce({ isValid: true });
+    const gate = createPaymentGate(payTo, {
+      "/weather": {
+        accepts: [
+          {
+            price: {
+              amount: "1000",
+              asset: {
+                address: "0x2222222222222222222222222222222222222222",
+                decimals: 6,
+                eip712: { name: "Other", version: "1" },
+              },
+            },
+            network: "base-sepolia",
+          },
+          { price: "$0.001", network: "base-sepolia" },
+        ],
+      },
+    });
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+
+    expect(verify).toHaveBeenCalledTimes(2);
+    expect(decision.type).toBe("payment-verified");
+    if (decision.type !== "payment-verified") return;
+    expect(decision.paymentRequirements.asset).toBe("0x036CbD53842c5426634e7929541eC2318f3dCF7e");
+  });
+
+  it("computes dynamic route values from the request", async () => {
+    const gate = createPaymentGate(payTo, {
+      "/weather": {
+        price: async request =>
+          new URL(request.url).searchParams.has("city") ? "$0.002" : "$0.001",
+        network: () => "base-sepolia",
+        config: { description: request => `Weather for ${request.getHeader("X-Customer")}` },
+      },
+    });
+
+    const decision = await gate(makeRequest({ "X-Customer": "acme" }));
+
+    expect(decision.type).toBe("payment-error");
+    if (decision.type !== "payment-error") return;
+    expect(decision.body.accepts).toEqual([
+      expect.objectContaining({ maxAmountRequired: "2000", description: "Weather for acme" }),
+    ]);
+  });
+
+  it("verifies payments against the price computed for the request", async () => {
+    verify.mockResolvedValue({ isValid: false, invalidReason: "insufficient_funds", payer });
+    const gate = createPaymentGate(payTo, {
+      "/weather": { price: async () => "$0.002", network: "base-sepolia" },
+    });
+
+    await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+
+    expect(verify).toHaveBeenCalledWith(
+      payment,
+      expect.objectContaining({ maxAmountRequired: "2000" }),
+    );
+  });
+
+  it("returns a settle callback for verified payments", async () => {
+    verify.mockResolvedValue({ isValid: true });
+    settle.mockResolvedValue({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer,
+    });
+    const gate = createPaymentGate(payTo, routes);
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+
+    expect(decision.type).toBe("payment-verified");
+    if (decision.type !== "payment-verified") return;
+    expect(settle).not.toHaveBeenCalled();
+
+    const settlement = await decision.settle();
+
+    expect(settle).toHaveBeenCalledWith(payment, decision.paymentRequirements);
+    expect(settlement.type).toBe("settled");
+    expect(settlement.headers["X-PAYMENT-RESPONSE"]).toEqual(expect.any(String));
+  });
+
+  it("settles upto payments for the amount reported by the handler", async () => {
+    const router = "0x9876543210987654321098765432109876543210";
+    const facilitator = "0x5555555555555555555555555555555555555555";
+    vi.mocked(useFacilitator).mockReturnValue({
+      verify,
+      settle,
+      releaseEscrow,
+      refundEscrow,
+      closeChannel,
+      refund,
+      supported: vi.fn().mockResolvedValue({
+        kinds: [
+          {
+            x402Version: 1,
+            scheme: "upto",
+            network: "base-sepolia",
+            extra: { router, facilitator },
+          },
+        ],
+      }),
+      list: vi.fn(),
+    });
+    verify.mockResolvedValue({ isValid: true });
+    settle.mockResolvedValue({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer,
+    });
+    const gate = createPaymentGate(payTo, {
+      "/weather": { scheme: "upto", price: "$0.01", network: "base-sepolia" },
+    });
+    const uptoPayment: PaymentPayload = {
+      x402Version: 1,
+      scheme: "upto",
+      network: "base-sepolia",
+      payload: {
+        signature: "0x1234",
+        transferSignature: "0x5678",
+        permit: {
+          owner: payer,
+          spender: router,
+          value: "10000",
+          nonce: "0",
+          deadline: "9999999999",
+        },
+      },
+    };
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(uptoPayment) }));
+    if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+    await decision.settle("2500");
+
+    expect(decision.paymentRequirements).toEqual(
+      expect.objectContaining({
+        scheme: "upto",
+        maxAmountRequired: "10000",
+        extra: expect.objectContaining({ router, facilitator }),
+      }),
+    );
+    expect(settle).toHaveBeenCalledWith(uptoPayment, decision.paymentRequirements, "2500");
+  });
+
+  it("settles permit payments through the facilitator's router", async () => {
+    const router = "0x9876543210987654321098765432109876543210";
+    const facilitator = "0x5555555555555555555555555555555555555555";
+    vi.mocked(useFacilitator).mockReturnValue({
+      verify,
+      settle,
+      releaseEscrow,
+      refundEscrow,
+      closeChannel,
+      refund,
+      supported: vi.fn().mockResolvedValue({
+        kinds: [
+          {
+            x402Version: 1,
+            scheme: "permit",
+            network: "base-sepolia",
+            extra: { router, facilitator },
+          },
+        ],
+      }),
+      list: vi.fn(),
+    });
+    verify.mockResolvedValue({ isValid: true });
+    settle.mockResolvedValue({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer,
+    });
+    const gate = createPaymentGate(payTo, {
+      "/weather": { scheme: "permit", price: "$0.01", network: "base-sepolia" },
+    });
+    const permitPayment: PaymentPayload = {
+      x402Version: 1,
+      scheme: "permit",
+      network: "base-sepolia",
+      payload: {
+        signature: "0x1234",
+        transferSignature: "0x5678",
+        permit: {
+          owner: payer,
+          spender: router,
+          value: "10000",
+          nonce: "0",
+          deadline: "9999999999",
+        },
+      },
+    };
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(permitPayment) }));
+    if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+    await decision.settle("2500");
+
+    expect(decision.paymentRequirements.extra).toEqual(
+      expect.objectContaining({ router, facilitator }),
+    );
+    expect(settle).toHaveBeenCalledWith(permitPayment, decision.paymentRequirements, "2500");
+  });
+
+  describe("refunds", () => {
+    const settled = { success: true, transaction: "0xabc", network: "base-sepolia", payer };
+
+    it("refunds settled payments with an exact payment from the refund wallet to the payer", async () => {
+      const refundWallet = privateKeyToAccount(generatePrivateKey());
+      const onRefunded = vi.fn();
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        refunds: { signer: refundWallet, onRefunded },
+      });
+      verify.mockResolvedValue({ isValid: true, payer });
+      settle.mockResolvedValue(settled);
+      const refundResponse = {
+        ...settled,
+        transaction: "0xdef",
+        payer: refundWallet.address,
+        originalTransaction: "0xabc",
+      };
+      refund.mockResolvedValue(refundResponse);
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+      if (decision.type !== "payment-verified") throw new Error("payment not verified");
+      const settlement = await decision.settle();
+      if (settlement.type !== "settled") throw new Error("payment not settled");
+
+      expect(await settlement.refund!()).toEqual(refundResponse);
+      const [settleResponse, paymentRequirements, refundPayload, amount] = refund.mock.calls[0];
+      expect(settleResponse).toEqual(settled);
+      expect(paymentRequirements).toEqual(decision.paymentRequirements);
+      expect(amount).toBeUndefined();
+      expect(refundPayload.scheme).toBe("exact");
+      expect((refundPayload.payload as ExactEvmPayload).authorization).toMatchObject({
+        from: refundWallet.address,
+        to: payer,
+        value: "1000",
+      });
+      expect(onRefunded).toHaveBeenCalledWith(refundResponse);
+    });
+
+    it("does not offer refunds without a refund wallet", async () => {
+      const gate = createPaymentGate(payTo, routes);
+      verify.mockResolvedValue({ isValid: true, payer });
+      settle.mockResolvedValue(settled);
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+      if (decision.type !== "payment-verified") throw new Error("payment not verified");
+      const settlement = await decision.settle();
+
+      expect(settlement.type).toBe("settled");
+      expect(settlement).not.toHaveProperty("refund");
+    });
+  });
+
+  describe("stealth payTo", () => {
+    const metaAddress = generateStealthMetaAddress(generatePrivateKey(), generatePrivateKey());
+
+    /**
+     * Pays to the address advertised by a 402 response of the gate
+     *
+     * @param gate - The payment gate
+     * @returns The payment to the advertised address
+     */
+    async function payAdvertisedAddress(gate: ReturnType<typeof createPaymentGate>) {
+      const paymentRequired = await gate(makeRequest());
+      if (paymentRequired.type !== "payment-error") throw new Error("expected a 402 response");
+      const { authorization } = payment.payload as ExactEvmPayload;
+      return {
+        ...payment,
+        payload: {
+          ...payment.payload,
+          authorization: { ...authorization, to: paymentRequired.body.accepts[0].payTo },
+        },
+      };
+    }
+
+    it("advertises a fresh stealth address in every 402 response", async () => {
+      const store = createInMemoryStealthAddressStore();
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        stealth: { metaAddress, store },
+      });
+
+      const first = await gate(makeRequest());
+      const second = await gate(makeRequest());
+      if (first.type !== "payment-error" || second.type !== "payment-error") {
+        throw new Error("expected 402 responses");
+      }
+
+      const addresses = [first.body.accepts[0].payTo, second.body.accepts[0].payTo];
+      expect(addresses[0]).not.toBe(addresses[1]);
+      expect(addresses).not.toContain(payTo);
+      const announcements = await store.list();
+      expect(announcements.map(announcement => announcement.stealthAddress)).toEqual(addresses);
+      expect(announcements[0].expiresAt).toBe(
+        announcements[0].createdAt + first.body.accepts[0].maxTimeoutSeconds * 1000,
+      );
+    });
+
+    it("verifies payments to an advertised stealth address against it", async () => {
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        stealth: { metaAddress },
+      });
+      verify.mockResolvedValue({ isValid: true, payer });
+      const stealthPayment = await payAdvertisedAddress(gate);
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(stealthPayment) }));
+
+      expect(decision.type).toBe("payment-verified");
+      expect(verify).toHaveBeenCalledWith(
+        stealthPayment,
+        expect.objectContaining({
+          payTo: (stealthPayment.payload as ExactEvmPayload).authorization.to,
+        }),
+      );
+    });
+
+    it("keeps the stealth addresses of verified payments only", async () => {
+      const store = createInMemoryStealthAddressStore();
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        stealth: { metaAddress, store },
+      });
+      verify.mockResolvedValueOnce({ isValid: false, invalidReason: "insufficient_funds", payer });
+      const rejectedPayment = await payAdvertisedAddress(gate);
+      await gate(makeRequest({ "X-PAYMENT": encodePayment(rejectedPayment) }));
+      verify.mockResolvedValue({ isValid: true, payer });
+      const stealthPayment = await payAdvertisedAddress(gate);
+
+      await gate(makeRequest({ "X-PAYMENT": encodePayment(stealthPayment) }));
+
+      const paidTo = (stealthPayment.payload as ExactEvmPayload).authorization.to;
+      const rejectedTo = (rejectedPayment.payload as ExactEvmPayload).authorization.to;
+      expect(await store.get(paidTo)).not.toHaveProperty("expiresAt");
+      expect(await store.get(rejectedTo)).toHaveProperty("expiresAt");
+    });
+
+    it("keeps the payTo addresses set by payment options", async () => {
+      const partner = "0x2222222222222222222222222222222222222222";
+      const gate = createPaymentGate(
+        payTo,
+        { "/weather": { ...routes["/weather"], payTo: partner } },
+        undefined,
+        undefined,
+        { stealth: { metaAddress } },
+      );
+
+      const decision = await gate(makeRequest());
+
+      if (decision.type !== "payment-error") throw new Error("expected a 402 response");
+      expect(decision.body.accepts[0].payTo).toBe(partner);
+    });
+
+    it("rejects invalid meta-addresses", () => {
+      expect(() =>
+        createPaymentGate(payTo, routes, undefined, undefined, {
+          stealth: { metaAddress: "st:eth:0x1234" },
+        }),
+      ).toThrow("Invalid stealth meta-address");
+    });
+  });
+
+  describe("payer privacy", () => {
+    const settled = { success: true, transaction: "0xabc", network: "base-sepolia", payer };
+
+    it("redacts the payer in 402 responses and settlement headers", async () => {
+      verify.mockResolvedValue({ isValid: false, invalidReason: "insufficient_funds", payer });
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        privacy: { payer: "redact" },
+      });
+
+      const rejected = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+      verify.mockResolvedValue({ isValid: true, payer });
+      settle.mockResolvedValue(settled);
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+      if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+      const settlement = await decision.settle();
+
+      expect(rejected).toMatchObject({
+        type: "payment-error",
+        body: { code: "insufficient_funds" },
+      });
+      expect(rejected).not.toHaveProperty("body.payer");
+      expect(decision.payer).toBeUndefined();
+      const settleResponse = settleResponseFromHeader(settlement.headers["X-PAYMENT-RESPONSE"]);
+      expect(settleResponse).toEqual({
+        success: true,
+        transaction: "0xabc",
+        network: "base-sepolia",
+      });
+    });
+
+    it("hashes the payer with the secret and exposes it to handlers when asked to", async () => {
+      verify.mockResolvedValue({ isValid: true, payer });
+      settle.mockResolvedValue(settled);
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        privacy: { payer: "hash", hashSecret: "secret", exposePayer: true },
+      });
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+      if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+      const settlement = await decision.settle();
+
+      expect(decision.payer).toBe(payer);
+      expect(settleResponseFromHeader(settlement.headers["X-PAYMENT-RESPONSE"]).payer).toBe(
+        hashPayer(payer, "secret"),
+      );
+    });
+
+    it("does not log payer addresses or echo the payment in error messages", async () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+      verify.mockRejectedValue(new Error(`Failed to verify the payment of ${payer}`));
+      const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+        privacy: { payer: "redact" },
+      });
+
+      await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+      const invalid = await gate(
+        makeRequest({
+          "X-PAYMENT": encodePayment({ ...payment, x402Version: "1" } as unknown as PaymentPayload),
+        }),
+      );
+
+      const logged = consoleError.mock.calls.flat().join("\n");
+      consoleError.mockRestore();
+      expect(logged).toContain("Failed to verify the payment of [redacted]");
+      expect(logged).not.toContain(payer);
+      expect(JSON.stringify(invalid)).not.toContain(payer);
+    });
+
+    it("throws when payer addresses are hashed without a secret", () => {
+      expect(() =>
+        createPaymentGate(payTo, routes, undefined, undefined, { privacy: { payer: "hash" } }),
+      ).toThrow("A hashSecret is required to hash payer addresses");
+    });
+  });
+
+  describe("escrow payments", () => {
+    const escrow = "0x9876543210987654321098765432109876543210";
+    const operator = "0x5555555555555555555555555555555555555555";
+    const escrowPayment: PaymentPayload = {
+      x402Version: 1,
+      scheme: "escrow",
+      network: "base-sepolia",
+      payload: {
+        signature: "0x1234",
+        authorization: {
+          from: payer,
+          to: escrow,
+          value: "10000",
+          validAfter: "0",
+          validBefore: "9999999999",
+          nonce: `0x${"ab".repeat(32)}`,
+        },
+        salt: `0x${"cd".repeat(32)}`,
+      },
+    };
+    const deposited = { success: true, transaction: "0xabc", network: "base-sepolia", payer };
+
+    /**
+     * Creates a gate whose route accepts escrow payments, with a facilitator advertising its escrow
+     *
+     * @returns The payment gate
+     */
+    function createEscrowGate() {
+      vi.mocked(useFacilitator).mockReturnValue({
+        verify,
+        settle,
+        releaseEscrow,
+        refundEscrow,
+        closeChannel,
+        refund,
+        supported: vi.fn().mockResolvedValue({
+          kinds: [
+            {
+              x402Version: 1,
+              scheme: "escrow",
+              network: "base-sepolia",
+              extra: { escrow, operator },
+            },
+          ],
+        }),
+        list: vi.fn(),
+      });
+      verify.mockResolvedValue({ isValid: true, payer });
+      return createPaymentGate(payTo, {
+        "/weather": {
+          scheme: "escrow",
+          price: "$0.01",
+          network: "base-sepolia",
+          config: { escrowReleaseTimeoutSeconds: 600 },
+        },
+      });
+    }
+
+    it("deposits the payment before the handler runs and releases the amount it reports", async () => {
+      const gate = createEscrowGate();
+      settle.mockResolvedValue(deposited);
+      releaseEscrow.mockResolvedValue({ ...deposited, transaction: "0xdef" });
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(escrowPayment) }));
+      if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+      expect(decision.paymentRequirements.extra).toEqual(
+        expect.objectContaining({ escrow, operator, releaseTimeout: 600 }),
+      );
+      expect(settle).toHaveBeenCalledWith(escrowPayment, decision.paymentRequirements);
+
+      const settlement = await decision.settle("2500");
+
+      expect(releaseEscrow).toHaveBeenCalledWith(
+        escrowPayment,
+        decision.paymentRequirements,
+        "2500",
+      );
+      expect(settle).toHaveBeenCalledTimes(1);
+      expect(settlement.type).toBe("settled");
+      if (settlement.type !== "settled") return;
+      expect(settlement.settleResponse.transaction).toBe("0xdef");
+    });
+
+    it("refunds the deposit when the handler fails", async () => {
+      const gate = createEscrowGate();
+      settle.mockResolvedValue(deposited);
+      refundEscrow.mockResolvedValue({ ...deposited, transaction: "0xdef" });
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(escrowPayment) }));
+      if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+      await decision.cancel();
+
+      expect(refundEscrow).toHaveBeenCalledWith(escrowPayment, decision.paymentRequirements);
+      expect(releaseEscrow).not.toHaveBeenCalled();
+    });
+
+    it("rejects the payment when it cannot be deposited", async () => {
+      const gate = createEscrowGate();
+      settle.mockResolvedValue({
+        success: false,
+        errorReason: "insufficient_funds",
+        transaction: "",
+        network: "base-sepolia",
+        payer,
+      });
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(escrowPayment) }));
+
+      expect(decision.type).toBe("payment-error");
+      if (decision.type !== "payment-error") return;
+      expect(decision.body.code).toBe("insufficient_funds");
+      expect(decision.body.payer).toBe(payer);
+    });
+
+    it("rejects routes settling escrow payments asynchronously", async () => {
+      expect(() =>
+        createPaymentGate(payTo, {
+          "/weather": {
+            scheme: "escrow",
+            price: "$0.01",
+            network: "base-sepolia",
+            config: { settlement: "async" },
+          },
+        }),
+      ).toThrow("The escrow scheme cannot be settled asynchronously on network base-sepolia");
+
+      // networks depending on the request are only known once a request is made
+      createEscrowGate();
+      const gate = createPaymentGate(payTo, {
+        "/weather": {
+          scheme: "escrow",
+          price: "$0.01",
+          network: () => "base-sepolia",
+          config: { settlement: "async" },
+        },
+      });
+      await expect(gate(makeRequest({}))).rejects.toThrow(
+        "The escrow scheme cannot be settled asynchronously on network base-sepolia",
+      );
+      expect(settle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("channel payments", () => {
+    const channel = "0x9876543210987654321098765432109876543210";
+    const operator = "0x5555555555555555555555555555555555555555";
+    const channelPayer = privateKeyToAccount(generatePrivateKey());
+    const opened = {
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer: channelPayer.address,
+    };
+    const channelRoutes = {
+      "/weather": {
+        scheme: "channel" as const,
+        price: "$0.01",
+        network: "base-sepolia" as const,
+        config: { channelDepositPayments: 10 },
+      },
+    };
+
+    /**
+     * Creates a gate whose route accepts channel payments, with a facilitator advertising its
+     * channel contract
+     *
+     * @returns The payment gate
+     */
+    function createChannelGate() {
+      vi.mocked(useFacilitator).mockReturnValue({
+        verify,
+        settle,
+        releaseEscrow,
+        refundEscrow,
+        closeChannel,
+        refund,
+        supported: vi.fn().mockResolvedValue({
+          kinds: [
+            {
+              x402Version: 1,
+              scheme: "channel",
+              network: "base-sepolia",
+              extra: { channel, operator },
+            },
+          ],
+        }),
+        list: vi.fn(),
+      });
+      verify.mockResolvedValue({ isValid: true, payer: channelPayer.address });
+      settle.mockResolvedValue(opened);
+      return createPaymentGate(payTo, channelRoutes);
+    }
+
+    /**
+     * Gets the payment requirements a gate asks for
+     *
+     * @param gate - The payment gate
+     * @returns The payment requirements of the route
+     */
+    async function getRequirements(gate: ReturnType<typeof createPaymentGate>) {
+      const decision = await gate(makeRequest());
+      if (decision.type !== "payment-error") throw new Error("expected payment requirements");
+      return decision.body.accepts[0] as PaymentRequirements;
+    }
+
+    beforeEach(() => {
+      channelScheme.resetChannels();
+    });
+
+    it("opens a channel with the first payment and accepts vouchers without the facilitator", async () => {
+      const gate = createChannelGate();
+      const paymentRequirements = await getRequirements(gate);
+      expect(paymentRequirements.extra).toEqual(
+        expect.objectContaining({ channel, operator, deposit: "100000" }),
+      );
+
+      const opening = await channelScheme.createPayment(channelPayer, 1, paymentRequirements);
+      const first = await gate(makeRequest({ "X-PAYMENT": encodePaymentHeader(opening) }));
+      if (first.type !== "payment-verified") throw new Error("expected a verified payment");
+      expect(settle).toHaveBeenCalledWith(opening, first.paymentRequirements);
+      expect(await first.settle()).toMatchObject({
+        type: "settled",
+        settleResponse: { success: true, transaction: "", payer: channelPayer.address },
+      });
+
+      const next = await channelScheme.createPayment(channelPayer, 1, paymentRequirements);
+      expect((next.payload as ChannelEvmPayload).open).toBeUndefined();
+      const second = await gate(makeRequest({ "X-PAYMENT": encodePaymentHeader(next) }));
+      if (second.type !== "payment-verified") throw new Error("expected a verified payment");
+      expect(await second.settle()).toMatchObject({ type: "settled" });
+
+      expect(verify).toHaveBeenCalledTimes(1);
+      expect(settle).toHaveBeenCalledTimes(1);
+    });
+
+    it("accepts a single payment of those verified against the same voucher", async () => {
+      const gate = createChannelGate();
+      const paymentRequirements = await getRequirements(gate);
+      const opening = await channelScheme.createPayment(channelPayer, 1, paymentRequirements);
+      const first = await gate(makeRequest({ "X-PAYMENT": encodePaymentHeader(opening) }));
+      if (first.type !== "payment-verified") throw new Error("expected a verified payment");
+      await first.settle();
+
+      /**
+       * Sends a payment through the opened channel with a voucher for the given amount
+       *
+       * @param amount - The cumulative amount of the voucher
+       * @returns The decision of the gate
+       */
+      async function payThroughChannel(amount: string) {
+        const { channelId } = (opening.payload as ChannelEvmPayload).voucher;
+        const signature = await channelScheme.signVoucher(
+          channelPayer,
+          channelId,
+          amount,
+          paymentRequirements,
+        );
+        const payload = { voucher: { channelId, amount, signature } };
+        return gate(makeRequest({ "X-PAYMENT": encodePaymentHeader({ ...opening, payload }) }));
+      }
+
+      const second = await payThroughChannel("20000");
+      const concurrent = await payThroughChannel("30000");
+      if (second.type !== "payment-verified" || concurrent.type !== "payment-verified") {
+        throw new Error("expected verified payments");
+      }
+      expect(await second.settle()).toMatchObject({ type: "settled" });
+      expect(await concurrent.settle()).toMatchObject({
+        type: "payment-error",
+        body: { code: "invalid_channel_voucher_amount" },
+      });
+
+      expect(await payThroughChannel("25000")).toMatchObject({
+        type: "payment-error",
+        body: { code: "invalid_channel_voucher_amount" },
+      });
+    });
+
+    it("rejects vouchers of channels it did not record", async () => {
+      const paymentRequirements = await getRequirements(createChannelGate());
+      await channelScheme.createPayment(channelPayer, 1, paymentRequirements);
+      const next = await channelScheme.createPayment(channelPayer, 1, paymentRequirements);
+
+      const decision = await createChannelGate()(
+        makeRequest({ "X-PAYMENT": encodePaymentHeader(next) }),
+      );
+
+      expect(decision).toMatchObject({ type: "payment-error", body: { code: "invalid_channel" } });
+      expect(verify).not.toHaveBeenCalled();
+    });
+  });
+
+  it("asks for Permit2 transfers of tokens without EIP-3009", async () => {
+    const spender = "0x5555555555555555555555555555555555555555";
+    vi.mocked(useFacilitator).mockReturnValue({
+      verify,
+      settle,
+      releaseEscrow,
+      refundEscrow,
+      closeChannel,
+      refund,
+      supported: vi.fn().mockResolvedValue({
+        kinds: [{ x402Version: 1, scheme: "exact", network: "base-sepolia", extra: { spender } }],
+      }),
+      list: vi.fn(),
+    });
+    const gate = createPaymentGate(payTo, {
+      "/weather": {
+        price: {
+          amount: "10000",
+          asset: {
+            address: "0x9876543210987654321098765432109876543210",
+            decimals: 18,
+            assetTransferMethod: "permit2",
+          },
+        },
+        network: "base-sepolia",
+      },
+    });
+
+    const decision = await gate(makeRequest());
+    if (decision.type !== "payment-error") throw new Error("expected payment requirements");
+
+    expect((decision.body.accepts[0] as PaymentRequirements).extra).toEqual({
+      assetTransferMethod: "permit2",
+      spender,
+    });
+  });
+
+  it("advertises the gas station of the facilitator on Sui", async () => {
+    const suiPayTo = "0xabababababababababababababababababababababababababababababababab";
+    const gasStation = "https://facilitator.example.com/sui/gas-station";
+    vi.mocked(useFacilitator).mockReturnValue({
+      verify,
+      settle,
+      releaseEscrow,
+      refundEscrow,
+      closeChannel,
+      refund,
+      supported: vi.fn().mockResolvedValue({
+        kinds: [{ x402Version: 1, scheme: "exact", network: "sui-testnet", extra: { gasStation } }],
+      }),
+      list: vi.fn(),
+    });
+    const gate = createPaymentGate(suiPayTo, {
+      "/weather": { price: "$0.001", network: "sui-testnet" },
+    });
+
+    const decision = await gate(makeRequest());
+    if (decision.type !== "payment-error") throw new Error("expected payment requirements");
+
+    expect(decision.body.accepts[0]).toEqual(
+      expect.objectContaining({
+        network: "sui-testnet",
+        maxAmountRequired: "1000",
+        asset: "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC",
+        payTo: suiPayTo,
+        extra: { gasStation },
+      }),
+    );
+  });
+
+  it("rejects a payment that is replayed before it is settled", async () => {
+    verify.mockResolvedValue({ isValid: true });
+    const gate = createPaymentGate(payTo, routes);
+    const header = encodePayment(payment);
+
+    const first = await gate(makeRequest({ "X-PAYMENT": header }));
+    const replay = await gate(makeRequest({ "X-PAYMENT": header }));
+
+    expect(first.type).toBe("payment-verified");
+    expect(replay.type).toBe("payment-error");
+    if (replay.type !== "payment-error") return;
+    expect(replay.body.code).toBe("duplicate_payment");
+    expect(verify).toHaveBeenCalledTimes(1);
+  });
+
+  it("releases payments that are not settled", async () => {
+    verify
+      .mockResolvedValueOnce({ isValid: false, invalidReason: "insufficient_funds", payer })
+      .mockResolvedValue({ isValid: true });
+    const gate = createPaymentGate(payTo, routes);
+    const header = encodePayment(payment);
+
+    await gate(makeRequest({ "X-PAYMENT": header }));
+    const decision = await gate(makeRequest({ "X-PAYMENT": header }));
+    if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+    await decision.cancel();
+
+    expect((await gate(makeRequest({ "X-PAYMENT": header }))).type).toBe("payment-verified");
+  });
+
+  it("claims payments in the configured payment store", async () => {
+    verify.mockResolvedValue({ isValid: true });
+    const paymentStore = { claim: vi.fn().mockResolvedValue(false), release: vi.fn() };
+    const gate = createPaymentGate(payTo, routes, undefined, undefined, { paymentStore });
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+
+    expect(paymentStore.claim).toHaveBeenCalledWith(
+      `exact:base-sepolia:${payer}:0x${"ab".repeat(32)}`,
+      300,
+    );
+    expect(decision.type).toBe("payment-error");
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  describe("shielded payments", () => {
+    const pool = "0x9876543210987654321098765432109876543210";
+    const secretKeys = Array.from({ length: 8 }, generateShieldedSecretKey);
+
+    it("advertises the facilitator's pool and accepts each note once, without a payer", async () => {
+      vi.mocked(useFacilitator).mockReturnValue({
+        verify,
+        settle,
+        releaseEscrow,
+        refundEscrow,
+        closeChannel,
+        refund,
+        supported: vi.fn().mockResolvedValue({
+          kinds: [{ x402Version: 1, scheme: "shielded", network: "base-sepolia", extra: { pool } }],
+        }),
+        list: vi.fn(),
+      });
+      verify.mockResolvedValue({ isValid: true });
+      const gate = createPaymentGate(payTo, {
+        "/weather": {
+          scheme: "shielded" as const,
+          price: "$0.01",
+          network: "base-sepolia" as const,
+        },
+      });
+      const required = await gate(makeRequest());
+      if (required.type !== "payment-error") throw new Error("expected payment requirements");
+      const paymentRequirements = required.body.accepts[0] as PaymentRequirements;
+      expect(paymentRequirements.extra).toEqual(expect.objectContaining({ pool }));
+
+      // a pool holding the client's note among the fewest notes a payment may hide among
+      const reader = {
+        chain: {},
+        transport: {},
+        readContract: vi.fn(async ({ functionName, args }) => {
+          if (functionName === "denomination") return 10000n;
+          if (functionName === "depositCount") return BigInt(secretKeys.length);
+          return (args[0] as bigint[]).map(index =>
+            getShieldedPublicKey(secretKeys[Number(index)]),
+          );
+        }),
+      };
+      const shieldedNotes = createInMemoryShieldedNoteStore();
+      await shieldedNotes.add([
+        { network: "base-sepolia", pool, index: 0, secretKey: secretKeys[0] },
+      ]);
+      const payment = await shieldedScheme.createPayment(
+        reader as unknown as SignerWallet,
+        1,
+        paymentRequirements,
+        shieldedNotes,
+      );
+
+      const decision = await gate(makeRequest({ "X-PAYMENT": encodePaymentHeader(payment) }));
+      if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+      expect(decision.payer).toBeUndefined();
+      const replayed = await gate(makeRequest({ "X-PAYMENT": encodePaymentHeader(payment) }));
+      expect(replayed.type).toBe("payment-error");
+    });
+  });
+
+  describe("session mode", () => {
+    const sessionRoutes = {
+      "/articles/*": {
+        price: "$0.01",
+        network: "base-sepolia" as const,
+        config: { session: { secret: "test-secret", maxRequests: 2, cookie: true } },
+      },
+    };
+
+    /**
+     * Pays for a route in session mode and returns the issued settlement
+     *
+     * @param gate - The payment gate
+     * @returns The settlement headers
+     */
+    async function payForSession(gate: ReturnType<typeof createPaymentGate>) {
+      const decision = await gate(
+        makeRequest({ "X-PAYMENT": encodePayment(payment) }, "/articles/1"),
+      );
+      if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+      const settlement = await decision.settle();
+      return settlement.headers;
+    }
+
+    beforeEach(() => {
+      verify.mockResolvedValue({ isValid: true });
+      settle.mockResolvedValue({
+        success: true,
+        transaction: "0xabc",
+        network: "base-sepolia",
+        payer,
+      });
+    });
+
+    it("issues an access token once the payment settles", async () => {
+      const gate = createPaymentGate(payTo, sessionRoutes);
+
+      const headers = await payForSession(gate);
+
+      expect(headers["X-ACCESS-TOKEN"]).toEqual(expect.any(String));
+      expect(headers["Set-Cookie"]).toContain(`x402-access-token=${headers["X-ACCESS-TOKEN"]};`);
+    });
+
+    it("grants access to the route group with the access token", async () => {
+      const gate = createPaymentGate(payTo, sessionRoutes);
+      const token = (await payForSession(gate))["X-ACCESS-TOKEN"];
+
+      const decision = await gate(makeRequest({ "X-ACCESS-TOKEN": token }, "/articles/2"));
+      const cookieDecision = await gate(
+        makeRequest({ Cookie: `theme=dark; x402-access-token=${token}` }, "/articles/3"),
+      );
+
+      expect(decision).toEqual({
+        type: "access-granted",
+        session: expect.objectContaining({ payer }),
+      });
+      expect(cookieDecision.type).toBe("access-granted");
+      expect(settle).toHaveBeenCalledTimes(1);
+    });
+
+    it("requires a new payment once the access token is used up", async () => {
+      const gate = createPaymentGate(payTo, sessionRoutes);
+      const token = (await payForSession(gate))["X-ACCESS-TOKEN"];
+
+      await gate(makeRequest({ "X-ACCESS-TOKEN": token }, "/articles/2"));
+      await gate(makeRequest({ "X-ACCESS-TOKEN": token }, "/articles/3"));
+      const decision = await gate(makeRequest({ "X-ACCESS-TOKEN": token }, "/articles/4"));
+
+      expect(decision.type).toBe("payment-error");
+    });
+
+    it("rejects access tokens of other route groups", async () => {
+      const gate = createPaymentGate(payTo, {
+        ...sessionRoutes,
+        "/videos/*": {
+          price: "$0.01",
+          network: "base-sepolia" as const,
+          config: { session: { secret: "test-secret" } },
+        },
+      });
+      const token = (await payForSession(gate))["X-ACCESS-TOKEN"];
+
+      const decision = await gate(makeRequest({ "X-ACCESS-TOKEN": token }, "/videos/1"));
+
+      expect(decision.type).toBe("payment-error");
+    });
+  });
+
+  it("queues the settlement of routes in async settlement mode", async () => {
+    verify.mockResolvedValue({ isValid: true, payer });
+    settle.mockResolvedValue({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer,
+    });
+    const onSettled = vi.fn();
+    const gate = createPaymentGate(
+      payTo,
+      { "/weather": { ...routes["/weather"], config: { settlement: "async" as const } } },
+      undefined,
+      undefined,
+      { settlement: { onSettled } },
+    );
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+    if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+    const settlement = await decision.settle();
+
+    expect(settlement.type).toBe("settlement-queued");
+    expect(settlement.headers["X-PAYMENT-SETTLEMENT-ID"]).toBe(
+      `exact:base-sepolia:${payer}:0x${"ab".repeat(32)}`,
+    );
+    await vi.waitFor(() => expect(onSettled).toHaveBeenCalled());
+    expect(settle).toHaveBeenCalledWith(payment, decision.paymentRequirements, undefined);
+  });
+
+  it("settles the jobs left in the settlement queue once created, and reports their status", async () => {
+    settle.mockResolvedValue({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer,
+    });
+    const queue = createInMemorySettlementQueue();
+    await queue.enqueue({
+      id: "payment",
+      paymentPayload: payment,
+      paymentRequirements: {} as PaymentRequirements,
+      status: "pending",
+      attempts: 0,
+      createdAt: Date.now(),
+      nextAttemptAt: Date.now(),
+    });
+
+    const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+      settlement: { queue },
+    });
+
+    await vi.waitFor(async () =>
+      expect((await gate.getSettlementStatus("payment"))?.status).toBe("settled"),
+    );
+    await gate.stop();
+  });
+
+  it("asks the facilitator to batch the settlement of routes in batch settlement mode", async () => {
+    verify.mockResolvedValue({ isValid: true, payer });
+    settle.mockResolvedValue({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer,
+    });
+    const gate = createPaymentGate(payTo, {
+      "/weather": { ...routes["/weather"], config: { settlement: "batch" as const } },
+    });
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+    if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+    const settlement = await decision.settle();
+
+    expect(settlement.type).toBe("settled");
+    expect(settle).toHaveBeenCalledWith(payment, decision.paymentRequirements, undefined, true);
+  });
+
+  it("rejects payments bound to another request on routes binding requests", async () => {
+    verify.mockResolvedValue({ isValid: true, payer });
+    const gate = createPaymentGate(payTo, {
+      "/weather": { ...routes["/weather"], config: { bindRequest: true } },
+    });
+    const boundPayment = (url: string) =>
+      encodePayment({
+        ...payment,
+        payload: {
+          ...payment.payload,
+          authorization: {
+            ...(payment.payload as ExactEvmPayload).authorization,
+            nonce: createRequestNonce(hashPaymentRequest({ method: "GET", url })),
+          },
+        },
+      });
+
+    const required = await gate(makeRequest());
+    const replayed = await gate(
+      makeRequest({ "X-PAYMENT": boundPayment("https://api.example.com/weather?city=rome") }),
+    );
+    const unbound = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+    const bound = await gate(
+      makeRequest({ "X-PAYMENT": boundPayment("https://api.example.com/weather?city=paris") }),
+    );
+
+    if (required.type !== "payment-error") throw new Error("expected a payment error");
+    expect(required.body.accepts[0].extra).toMatchObject({ requestBinding: true });
+    expect(replayed).toMatchObject({ body: { code: "invalid_request_binding" } });
+    expect(unbound).toMatchObject({ body: { code: "invalid_request_binding" } });
+    expect(bound.type).toBe("payment-verified");
+    expect(verify).toHaveBeenCalledTimes(1);
+  });
+
+  it("signs a receipt of settled payments when receipts are configured", async () => {
+    verify.mockResolvedValue({ isValid: true, payer });
+    settle.mockResolvedValue({
+      success: true,
+      transaction: "0xabc",
+      network: "base-sepolia",
+      payer,
+      blockNumber: "42",
+    });
+    const privateKey = generatePrivateKey();
+    const gate = createPaymentGate(payTo, routes, undefined, undefined, {
+      receipts: { privateKey },
+    });
+
+    const decision = await gate({
+      ...makeRequest({ "X-PAYMENT": encodePayment(payment) }),
+      getBody: async () => new TextEncoder().encode("{}"),
+    });
+    if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+    const settlement = await decision.settle();
+
+    const receipt = await verifyPaymentReceipt(settlement.headers["X-PAYMENT-RECEIPT"], {
+      signer: privateKeyToAccount(privateKey).address,
+      request: { method: "GET", url: "https://api.example.com/weather?city=paris", body: "{}" },
+    });
+    expect(receipt).toMatchObject({
+      request: { method: "GET", bodyHash: expect.stringMatching(/^0x/) },
+      paymentRequirements: { scheme: "exact", payTo },
+      payer,
+      network: "base-sepolia",
+      transaction: "0xabc",
+      blockNumber: "42",
+    });
+  });
+
+  it("returns a 402 decision when settlement fails", async () => {
+    verify.mockResolvedValue({ isValid: true });
+    settle.mockResolvedValue({
+      success: false,
+      errorReason: "invalid_transaction_state",
+      transaction: "",
+      network: "base-sepolia",
+    });
+    const gate = createPaymentGate(payTo, routes);
+
+    const decision = await gate(makeRequest({ "X-PAYMENT": encodePayment(payment) }));
+    if (decision.type !== "payment-verified") throw new Error("expected a verified payment");
+    const settlement = await decision.settle();
+
+    expect(settlement.type).toBe("payment-error");
+    if (settlement.type !== "payment-error") return;
+    expect(settlement.status).toBe(402);
+    expect(settlement.body.code).toBe("invalid_transaction_state");
+  });
+});
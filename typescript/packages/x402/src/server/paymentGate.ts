@@ -0,0 +1,860 @@
+import { Address, keccak256, toBytes } from "viem";
+import { Address as SolanaAddress } from "@solana/kit";
+import { createPaymentHeader } from "../client";
+import { getPaywallHtml } from "../paywall";
+import {
+  decodePaymentHeader,
+  getPaymentId,
+  getPaymentPayTo,
+  getScheme,
+  isBoundToRequest,
+} from "../schemes";
+import {
+  computeRoutePatterns,
+  createInMemoryPaymentStore,
+  createInMemorySessionStore,
+  createInMemoryStealthAddressStore,
+  createPayerPrivacy,
+  filterMatchingPaymentRequirements,
+  findMatchingRoute,
+  getPaymentOptions,
+  getRefundRequirements,
+  hashRequestBody,
+  signAccessToken,
+  signPaymentReceipt,
+  toJsonSafe,
+  verifyAccessToken,
+} from "../shared";
+import { generateStealthAddress, parseStealthMetaAddress } from "../shared/evm";
+import {
+  AccessTokenClaims,
+  ChannelRecord,
+  ChannelStore,
+  FacilitatorConfig,
+  moneySchema,
+  PaymentMiddlewareOptions,
+  PaywallConfig,
+  Price,
+  RefundConfig,
+  Resource,
+  RoutesConfig,
+  SessionConfig,
+  SessionStore,
+  SettlementMode,
+  StealthAnnouncement,
+  SupportedEVMNetworks,
+  toX402Error,
+  X402Error,
+} from "../types";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  RefundResponse,
+  SettleResponse,
+  settleResponseHeader,
+  VerifyResponse,
+} from "../types/verify";
+import { useFacilitator } from "../verify";
+import { createChannelSettler } from "./channelSettler";
+import { buildPaymentRequirements, resolveRouteConfig } from "./requirements";
+import { createSettlementWorker } from "./settlementWorker";
+import {
+  HTTPRequestContext,
+  PaymentGate,
+  PaymentGateDecision,
+  PaymentRequiredBody,
+  SettlementDecision,
+} from "./types";
+
+const defaultX402Versions = [1];
+
+/**
+ * Creates a framework-agnostic payment gate
+ *
+ * The gate matches a request against the configured routes, builds the payment requirements,
+ * renders the paywall for browsers, decodes and verifies the `X-PAYMENT` header and hands back
+ * a settle callback to be invoked once the protected handler has produced a response.
+ * Framework middlewares only translate the returned decision into their native responses.
+ *
+ * @param payTo - The address to receive payments
+ * @param routes - Configuration for protected routes and their payment requirements
+ * @param facilitator - Optional configuration for the payment facilitator service
+ * @param paywall - Optional configuration for the default paywall
+ * @param options - Optional configuration of the gate, such as the store used for replay protection
+ * @returns A function that processes a request and returns the decision to apply
+ * @throws Error if the stealth meta-address is invalid, the privacy policy lacks its hash secret, or
+ * a route settles escrowed payments asynchronously
+ */
+export function createPaymentGate(
+  payTo: Address | SolanaAddress,
+  routes: RoutesConfig,
+  facilitator?: FacilitatorConfig,
+  paywall?: PaywallConfig,
+  options?: PaymentMiddlewareOptions,
+): PaymentGate {
+  const { verify, settle, releaseEscrow, refundEscrow, closeChannel, refund, supported } =
+    useFacilitator(facilitator);
+  // payer addresses are redacted or hashed in responses and logs under a privacy policy
+  const privacy = createPayerPrivacy(options?.privacy);
+  const paymentStore = options?.paymentStore ?? createInMemoryPaymentStore();
+  const sessionStore = options?.sessionStore ?? createInMemorySessionStore();
+  // escrowed payments are never queued, see assertSettlementMode
+  const settlementWorker = createSettlementWorker(settle, options?.settlement, privacy.logError);
+  // vouchers are accepted without reaching the facilitator, which claims them periodically
+  const channelSettler = createChannelSettler(
+    settle,
+    closeChannel,
+    options?.channels,
+    privacy.logError,
+  );
+  const x402Versions = options?.x402Versions ?? defaultX402Versions;
+  const stealth = options?.stealth && {
+    metaAddress: options.stealth.metaAddress,
+    store: options.stealth.store ?? createInMemoryStealthAddressStore(),
+  };
+  if (stealth) {
+    parseStealthMetaAddress(stealth.metaAddress);
+  }
+
+  // Pre-compile route patterns to regex and extract verbs
+  const routePatterns = computeRoutePatterns(routes);
+  // routes whose networks depend on the request are checked once their networks are known
+  for (const route of Object.values(routes)) {
+    if (typeof route === "object" && ("price" in route || "accepts" in route)) {
+      assertSettlementMode(
+        route.config?.settlement,
+        getPaymentOptions(route).flatMap(({ scheme = "exact", network }) =>
+          typeof network === "string" ? [{ scheme, network }] : [],
+        ),
+      );
+    }
+  }
+
+  // settles the jobs a previous process left pending in a durable queue, without waiting for new ones
+  settlementWorker.start();
+
+  /**
+   * Processes a request against the configured routes
+   *
+   * @param request - The request
+   * @returns The decision to apply
+   */
+  async function paymentGate(request: HTTPRequestContext): Promise<PaymentGateDecision> {
+    const method = request.method.toUpperCase();
+    const matchingRoute = findMatchingRoute(routePatterns, request.path, method);
+    if (!matchingRoute) {
+      return { type: "pass-through" };
+    }
+
+    // prices, networks, payTo addresses and descriptions may depend on the request
+    const routeConfig = await resolveRouteConfig(matchingRoute.config, request);
+    const { customPaywallHtml, resource, errorMessages, session, settlement, bindRequest } =
+      routeConfig.config;
+
+    // routes in session mode accept the access token issued when a previous payment settled
+    const sessionGroup = session?.group ?? matchingRoute.pattern.source;
+    if (session) {
+      const claims = await findAccessToken(request, session, sessionGroup, sessionStore);
+      if (claims) {
+        return { type: "access-granted", session: claims };
+      }
+    }
+
+    const resourceUrl: Resource = resource || (request.url.split(/[?#]/)[0] as Resource);
+    const paymentRequirements = await buildPaymentRequirements(
+      payTo,
+      routeConfig,
+      method,
+      resourceUrl,
+      supported,
+    );
+    assertSettlementMode(settlement, paymentRequirements);
+
+    /**
+     * Gets the payment requirements to advertise in a 402 response. Routes paid to stealth
+     * addresses advertise a fresh one in every response, recorded until the requirements time out
+     * so that payments to it are accepted
+     *
+     * @returns The payment requirements of the route
+     */
+    async function advertisedPaymentRequirements(): Promise<PaymentRequirements[]> {
+      if (!stealth) {
+        return paymentRequirements;
+      }
+      const announcement = generateStealthAddress(stealth.metaAddress);
+      const advertised = withStealthPayTo(paymentRequirements, payTo, announcement.stealthAddress);
+      if (advertised.some((requirements, index) => requirements !== paymentRequirements[index])) {
+        const createdAt = Date.now();
+        const timeoutSeconds = Math.max(...advertised.map(r => r.maxTimeoutSeconds));
+        await stealth.store.record({
+          ...announcement,
+          createdAt,
+          expiresAt: createdAt + timeoutSeconds * 1000,
+        });
+      }
+      return advertised;
+    }
+
+    /**
+     * Builds a 402 decision with the route's payment requirements
+     *
+     * @param error - The error to report to the client
+     * @param payer - The payer address, when known
+     * @returns The payment error decision
+     */
+    async function paymentError(error: X402Error, payer?: string) {
+      return {
+        type: "payment-error" as const,
+        status: 402 as const,
+        body: paymentRequiredBody(
+          await advertisedPaymentRequirements(),
+          error,
+          privacy.protect(payer),
+          x402Versions,
+        ),
+      };
+    }
+
+    const payment = request.getHeader("X-PAYMENT");
+    if (!payment) {
+      const userAgent = request.getHeader("User-Agent") || "";
+      const acceptHeader = request.getHeader("Accept") || "";
+      const isWebBrowser = acceptHeader.includes("text/html") && userAgent.includes("Mozilla");
+
+      // TODO: handle paywall html for solana
+      if (isWebBrowser) {
+        // the paywall displays the first, preferred payment option
+        const [{ price, network }] = routeConfig.accepts;
+        const html =
+          customPaywallHtml ||
+          getPaywallHtml({
+            amount: getDisplayAmount(price),
+            paymentRequirements: toJsonSafe(
+              await advertisedPaymentRequirements(),
+            ) as PaymentRequirements[],
+            currentUrl: request.url,
+            testnet: network === "base-sepolia",
+            cdpClientKey: paywall?.cdpClientKey,
+            appName: paywall?.appName,
+            appLogo: paywall?.appLogo,
+            sessionTokenEndpoint: paywall?.sessionTokenEndpoint,
+          });
+        return { type: "paywall", status: 402, html };
+      }
+      return paymentError(new X402Error("payment_required", errorMessages?.paymentRequired));
+    }
+
+    let decodedPayment: PaymentPayload;
+    try {
+      decodedPayment = decodePaymentHeader(payment);
+    } catch (error) {
+      privacy.logError(error);
+      // the messages of decoding errors may quote the payment, which is not echoed under a privacy policy
+      const { code, message } = toX402Error(error, "invalid_payment");
+      return paymentError(
+        new X402Error(
+          code,
+          errorMessages?.invalidPayment ?? (options?.privacy ? undefined : message),
+        ),
+      );
+    }
+    if (!x402Versions.includes(decodedPayment.x402Version)) {
+      return paymentError(new X402Error("invalid_x402_version", errorMessages?.invalidPayment));
+    }
+
+    let matchingPaymentRequirements = filterMatchingPaymentRequirements(
+      paymentRequirements,
+      decodedPayment,
+    );
+    if (matchingPaymentRequirements.length === 0) {
+      return paymentError(
+        new X402Error("no_matching_payment_requirements", errorMessages?.noMatchingRequirements),
+      );
+    }
+
+    // payments to a stealth address advertised by a previous 402 response are verified against it
+    let stealthAnnouncement: StealthAnnouncement | undefined;
+    if (stealth) {
+      const paidTo = getPaymentPayTo(decodedPayment);
+      stealthAnnouncement = paidTo ? await stealth.store.get(paidTo) : undefined;
+      if (stealthAnnouncement) {
+        matchingPaymentRequirements = withStealthPayTo(
+          matchingPaymentRequirements,
+          payTo,
+          stealthAnnouncement.stealthAddress,
+        );
+      }
+    }
+
+    // the body is read at most once, before the handler runs, which may consume it
+    let body: Promise<Uint8Array | undefined> | undefined;
+    const readBody = () =>
+      (body ??= request.getBody?.().catch(() => undefined) ?? Promise.resolve(undefined));
+
+    // payments bound to another request, e.g. captured and replayed against another URL, are rejected
+    if (
+      bindRequest &&
+      !isBoundToRequest(decodedPayment, { method, url: request.url, body: await readBody() })
+    ) {
+      return paymentError(new X402Error("invalid_request_binding"));
+    }
+
+    // The payment is claimed until it is settled, so the same header cannot be replayed against
+    // the route while the handler runs. Payments that are not settled are released for retries.
+    const paymentId = getPaymentId(decodedPayment);
+    const ttlSeconds = Math.max(...matchingPaymentRequirements.map(r => r.maxTimeoutSeconds));
+    if (!(await paymentStore.claim(paymentId, ttlSeconds))) {
+      return paymentError(new X402Error("duplicate_payment"));
+    }
+    const release = () => paymentStore.release(paymentId);
+
+    // Payments through a channel that is already open are verified against the channel recorded
+    // when it was opened, without reaching the facilitator
+    const channelPayment = getScheme(decodedPayment.scheme, decodedPayment.network)?.getVoucher?.(
+      decodedPayment,
+    );
+    let channel: ChannelRecord | undefined;
+    if (channelPayment) {
+      channel = await channelSettler.store.get(channelPayment.channelId);
+      if (!channel && !channelPayment.opens) {
+        await release();
+        return paymentError(new X402Error("invalid_channel", errorMessages?.verificationFailed));
+      }
+    }
+
+    // Several options may share a scheme and network (e.g. two assets on the same chain), so the
+    // payment is verified against each of them until one accepts it. The first failure is reported.
+    let selectedPaymentRequirements: PaymentRequirements | undefined;
+    let verifiedPayer: string | undefined;
+    let firstFailure: VerifyResponse | undefined;
+    try {
+      for (const candidate of matchingPaymentRequirements) {
+        const response = channel
+          ? await verifyVoucher(decodedPayment, candidate, channel)
+          : await verify(decodedPayment, candidate);
+        if (response.isValid) {
+          selectedPaymentRequirements = candidate;
+          verifiedPayer = response.payer;
+          break;
+        }
+        firstFailure ??= response;
+      }
+    } catch (error) {
+      privacy.logError(error);
+      await release();
+      // the messages of unexpected errors may expose internal details, only their code is reported
+      const { code } = toX402Error(error, "unexpected_verify_error");
+      return paymentError(new X402Error(code, errorMessages?.verificationFailed));
+    }
+    if (!selectedPaymentRequirements) {
+      await release();
+      return paymentError(
+        new X402Error(
+          firstFailure?.invalidReason ?? "invalid_payment",
+          errorMessages?.verificationFailed,
+        ),
+        firstFailure?.payer,
+      );
+    }
+    const verifiedPaymentRequirements = selectedPaymentRequirements;
+
+    // stealth addresses that were paid to are kept, as their record is the only way to their funds
+    if (stealth && stealthAnnouncement?.expiresAt !== undefined) {
+      const paidAnnouncement = { ...stealthAnnouncement };
+      delete paidAnnouncement.expiresAt;
+      await stealth.store.record(paidAnnouncement);
+    }
+
+    // Escrowed payments are deposited before the handler runs. The deposit is released once the
+    // handler succeeds and refunded when it fails, so the payer is never charged for an error.
+    // Channels are also opened before the handler runs, and their first voucher accepted after it.
+    const escrowed = isEscrowed(verifiedPaymentRequirements);
+    const opensChannel = !!channelPayment && !channel;
+    if (escrowed || opensChannel) {
+      let deposit: SettleResponse;
+      try {
+        deposit = await settle(decodedPayment, verifiedPaymentRequirements);
+      } catch (error) {
+        privacy.logError(error);
+        await release();
+        const { code } = toX402Error(error, "unexpected_settle_error");
+        return paymentError(new X402Error(code, errorMessages?.settlementFailed));
+      }
+      if (!deposit.success) {
+        await release();
+        return paymentError(
+          new X402Error(
+            deposit.errorReason ?? "unexpected_settle_error",
+            errorMessages?.settlementFailed,
+          ),
+          deposit.payer,
+        );
+      }
+      if (channelPayment?.opens) {
+        channel = await recordChannel(
+          channelSettler.store,
+          channelPayment.channelId,
+          channelPayment.opens,
+          decodedPayment,
+          verifiedPaymentRequirements,
+        );
+        channelSettler.start();
+      }
+    }
+    const verifiedChannel = channel;
+
+    const bodyHash = options?.receipts ? hashRequestBody(await readBody()) : undefined;
+
+    return {
+      type: "payment-verified",
+      paymentPayload: decodedPayment,
+      paymentRequirements: verifiedPaymentRequirements,
+      payer: !options?.privacy || options.privacy.exposePayer ? verifiedPayer : undefined,
+      settle: async (settlementAmount?: string): Promise<SettlementDecision> => {
+        try {
+          // the response does not wait for queued payments, which are settled in the background
+          if (settlement === "async" && !verifiedChannel) {
+            // payment ids hold the payer address, so their hash identifies the job under a privacy policy
+            const settlementId = options?.privacy ? keccak256(toBytes(paymentId)) : paymentId;
+            const job = await settlementWorker.enqueue(
+              settlementId,
+              decodedPayment,
+              verifiedPaymentRequirements,
+              isUsageBased(verifiedPaymentRequirements) ? settlementAmount : undefined,
+            );
+            const headers: Record<string, string> = {
+              "X-PAYMENT-SETTLEMENT-ID": settlementId,
+            };
+            if (session) {
+              Object.assign(
+                headers,
+                await issueAccessToken(session, sessionGroup, privacy.protect(verifiedPayer)),
+              );
+            }
+            return { type: "settlement-queued", headers, job };
+          }
+
+          // only usage-based schemes settle less than the required amount
+          const settledAmount = isUsageBased(verifiedPaymentRequirements)
+            ? settlementAmount
+            : undefined;
+          let settleResponse: SettleResponse;
+          if (verifiedChannel) {
+            settleResponse = await acceptVoucher(
+              channelSettler.store,
+              verifiedChannel,
+              decodedPayment,
+              channelPayment!.amount,
+            );
+          } else if (escrowed) {
+            settleResponse = await releaseEscrow(
+              decodedPayment,
+              verifiedPaymentRequirements,
+              settlementAmount,
+            );
+          } else if (settlement === "batch") {
+            settleResponse = await settle(
+              decodedPayment,
+              verifiedPaymentRequirements,
+              settledAmount,
+              true,
+            );
+          } else if (settledAmount !== undefined) {
+            settleResponse = await settle(
+              decodedPayment,
+              verifiedPaymentRequirements,
+              settledAmount,
+            );
+          } else {
+            settleResponse = await settle(decodedPayment, verifiedPaymentRequirements);
+          }
+          const headers: Record<string, string> = {
+            "X-PAYMENT-RESPONSE": settleResponseHeader(
+              withPayer(settleResponse, privacy.protect(settleResponse.payer)),
+            ),
+          };
+
+          // if the settle fails, return an error
+          if (!settleResponse.success) {
+            await release();
+            return {
+              ...(await paymentError(
+                new X402Error(
+                  settleResponse.errorReason ?? "unexpected_settle_error",
+                  errorMessages?.settlementFailed,
+                ),
+              )),
+              headers,
+            };
+          }
+          if (session) {
+            Object.assign(
+              headers,
+              await issueAccessToken(session, sessionGroup, privacy.protect(settleResponse.payer)),
+            );
+          }
+          if (options?.receipts) {
+            headers["X-PAYMENT-RECEIPT"] = await signPaymentReceipt(
+              {
+                request: { method, url: request.url, bodyHash },
+                paymentRequirements: toJsonSafe(verifiedPaymentRequirements) as PaymentRequirements,
+                payer: privacy.protect(settleResponse.payer),
+                network: settleResponse.network,
+                transaction: settleResponse.transaction,
+                blockNumber: settleResponse.blockNumber,
+                timestamp: Math.floor(Date.now() / 1000),
+              },
+              options.receipts.privateKey,
+            );
+          }
+          // payments through channels are only claimed later, so they cannot be refunded yet
+          const refunds = options?.refunds;
+          if (refunds && !verifiedChannel) {
+            const refundPayment = (amount = settledAmount) =>
+              refundSettlement(
+                refunds,
+                refund,
+                settleResponse,
+                verifiedPaymentRequirements,
+                amount,
+              );
+            return { type: "settled", headers, settleResponse, refund: refundPayment };
+          }
+          return { type: "settled", headers, settleResponse };
+        } catch (error) {
+          privacy.logError(error);
+          await release();
+          const { code } = toX402Error(error, "unexpected_settle_error");
+          return {
+            ...(await paymentError(new X402Error(code, errorMessages?.settlementFailed))),
+            headers: {},
+          };
+        }
+      },
+      // an escrowed payment cannot be used again once deposited, it is refunded instead
+      cancel: escrowed
+        ? async () => {
+            try {
+              const refund = await refundEscrow(decodedPayment, verifiedPaymentRequirements);
+              if (!refund.success) {
+                privacy.logError(`Failed to refund escrowed payment: ${refund.errorReason}`);
+              }
+            } catch (error) {
+              privacy.logError(error);
+            }
+          }
+        : release,
+    };
+  }
+
+  return Object.assign(paymentGate, {
+    getSettlementStatus: settlementWorker.getStatus,
+    async stop() {
+      await Promise.all([settlementWorker.stop(), channelSettler.stop()]);
+    },
+  });
+}
+
+/**
+ * Builds the JSON body of a 402 response
+ *
+ * @param paymentRequirements - The payment requirements accepted for the resource
+ * @param error - The error to report to the client
+ * @param payer - The payer address, when known
+ * @param x402Versions - The protocol versions accepted by the server
+ * @returns The JSON-safe 402 response body
+ */
+export function paymentRequiredBody(
+  paymentRequirements: PaymentRequirements[],
+  error: X402Error,
+  payer?: string,
+  x402Versions: readonly number[] = defaultX402Versions,
+): PaymentRequiredBody {
+  return {
+    x402Version: Math.min(...x402Versions),
+    x402Versions: [...x402Versions],
+    error: error.message,
+    code: error.code,
+    accepts: toJsonSafe(paymentRequirements) as PaymentRequirements[],
+    ...(payer !== undefined ? { payer } : {}),
+  };
+}
+
+/**
+ * Finds a valid access token for a route group among the tokens presented by the request
+ *
+ * Tokens are read from the `X-ACCESS-TOKEN` header, which may hold several comma separated
+ * tokens, and from the `x402-access-token` cookie. Each use of a count-limited token is counted.
+ *
+ * @param request - The incoming request
+ * @param session - The session configuration of the route
+ * @param group - The route group of the request
+ * @param sessionStore - The store counting the uses of count-limited tokens
+ * @returns The claims of the accepted token, or undefined if no token grants access
+ */
+async function findAccessToken(
+  request: HTTPRequestContext,
+  session: SessionConfig,
+  group: string,
+  sessionStore: SessionStore,
+): Promise<AccessTokenClaims | undefined> {
+  const tokens = (request.getHeader("X-ACCESS-TOKEN") ?? "").split(",");
+  const cookie = request
+    .getHeader("Cookie")
+    ?.split(";")
+    .map(part => part.trim())
+    .find(part => part.startsWith("x402-access-token="));
+  if (cookie) {
+    tokens.push(cookie.slice("x402-access-token=".length));
+  }
+
+  for (const token of tokens.map(token => token.trim()).filter(Boolean)) {
+    const claims = await verifyAccessToken(token, session.secret);
+    if (!claims || claims.group !== group) {
+      continue;
+    }
+    if (claims.max === undefined) {
+      return claims;
+    }
+    const ttlSeconds = claims.exp - Math.floor(Date.now() / 1000);
+    if ((await sessionStore.increment(claims.jti, ttlSeconds)) <= claims.max) {
+      return claims;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Issues the access token of a route group once its payment has settled
+ *
+ * @param session - The session configuration of the route
+ * @param group - The route group the token unlocks
+ * @param payer - The address that paid for the token
+ * @returns The headers delivering the token to the client
+ */
+async function issueAccessToken(
+  session: SessionConfig,
+  group: string,
+  payer?: string,
+): Promise<Record<string, string>> {
+  const durationSeconds = session.durationSeconds ?? 3600;
+  const token = await signAccessToken(
+    {
+      jti: crypto.randomUUID(),
+      group,
+      exp: Math.floor(Date.now() / 1000) + durationSeconds,
+      max: session.maxRequests,
+      payer,
+    },
+    session.secret,
+  );
+
+  const headers: Record<string, string> = { "X-ACCESS-TOKEN": token };
+  if (session.cookie) {
+    headers["Set-Cookie"] =
+      `x402-access-token=${token}; Path=/; Max-Age=${durationSeconds}; HttpOnly; Secure; SameSite=Lax`;
+  }
+  return headers;
+}
+
+/**
+ * Computes the human readable amount shown on the paywall
+ *
+ * @param price - The price configured for the route
+ * @returns The amount in whole units of the asset, or NaN if the price cannot be parsed
+ */
+function getDisplayAmount(price: Price): number {
+  if (typeof price === "string" || typeof price === "number") {
+    const parsed = moneySchema.safeParse(price);
+    return parsed.success ? parsed.data : Number.NaN;
+  }
+  return Number(price.amount) / 10 ** price.asset.decimals;
+}
+
+/**
+ * Refunds a settled payment with an `exact` payment from the refund wallet to its payer
+ *
+ * @param refunds - The refund configuration of the gate
+ * @param refund - The refund function of the facilitator client
+ * @param settleResponse - The settlement of the payment
+ * @param paymentRequirements - The payment requirements the payment was settled for
+ * @param amount - The amount to refund, defaults to `maxAmountRequired`
+ * @returns The refund response of the facilitator
+ */
+async function refundSettlement(
+  refunds: RefundConfig,
+  refund: ReturnType<typeof useFacilitator>["refund"],
+  settleResponse: SettleResponse,
+  paymentRequirements: PaymentRequirements,
+  amount?: string,
+): Promise<RefundResponse> {
+  const refundRequirements = getRefundRequirements(paymentRequirements, settleResponse, amount);
+  const refundPayload = decodePaymentHeader(
+    await createPaymentHeader(refunds.signer, 1, refundRequirements),
+  );
+  const response = await refund(settleResponse, paymentRequirements, refundPayload, amount);
+  await refunds.onRefunded?.(response);
+  return response;
+}
+
+/**
+ * Verifies the voucher of a payment through an open channel with its scheme implementation
+ *
+ * @param paymentPayload - The payment carrying the voucher
+ * @param paymentRequirements - The payment requirements to verify the payment against
+ * @param channel - The recorded channel of the voucher
+ * @returns The verification response
+ */
+async function verifyVoucher(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  channel: ChannelRecord,
+): Promise<VerifyResponse> {
+  const implementation = getScheme(paymentRequirements.scheme, paymentRequirements.network);
+  if (!implementation?.verifyVoucher) {
+    return { isValid: false, invalidReason: "unsupported_scheme", payer: channel.payer };
+  }
+  return implementation.verifyVoucher(paymentPayload, paymentRequirements, channel);
+}
+
+/**
+ * Records a channel opened by a payment, before its first voucher is accepted
+ *
+ * @param store - The store recording the channels
+ * @param id - The id of the channel
+ * @param opened - The payer and the deposit of the channel
+ * @param opened.payer - The payer of the channel
+ * @param opened.deposit - The deposit of the channel
+ * @param paymentPayload - The payment that opened the channel
+ * @param paymentRequirements - The payment requirements the channel was opened for
+ * @returns The recorded channel
+ */
+async function recordChannel(
+  store: ChannelStore,
+  id: string,
+  opened: { payer: string; deposit: string },
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): Promise<ChannelRecord> {
+  const channel: ChannelRecord = {
+    id,
+    network: paymentRequirements.network,
+    payer: opened.payer,
+    deposit: opened.deposit,
+    // the contract sets the expiry once the channel is opened, a little later
+    expiresAt: Math.floor(Date.now() / 1000) + Number(paymentRequirements.extra?.channelTimeout),
+    amount: "0",
+    claimedAmount: "0",
+    paymentPayload,
+    paymentRequirements,
+  };
+  await store.create(channel);
+  return channel;
+}
+
+/**
+ * Accepts the voucher of a payment as the latest voucher of its channel, unless another voucher
+ * was accepted since the payment was verified
+ *
+ * @param store - The store recording the channels
+ * @param channel - The channel the voucher was verified against
+ * @param paymentPayload - The payment carrying the voucher
+ * @param amount - The cumulative amount of the voucher
+ * @returns The settlement of the payment, without transaction as the voucher is claimed later
+ */
+async function acceptVoucher(
+  store: ChannelStore,
+  channel: ChannelRecord,
+  paymentPayload: PaymentPayload,
+  amount: string,
+): Promise<SettleResponse> {
+  const current = await store.get(channel.id);
+  const accepted =
+    !!current && (await store.update({ ...current, amount, paymentPayload }, channel.amount));
+  return {
+    success: accepted,
+    errorReason: accepted ? undefined : "invalid_channel_voucher_amount",
+    transaction: "",
+    network: channel.network,
+    payer: channel.payer,
+  };
+}
+
+/**
+ * Checks if payments of the given requirements are charged the amount consumed by the handler
+ *
+ * @param paymentRequirements - The payment requirements of the payment
+ * @returns True for usage-based schemes
+ */
+function isUsageBased(paymentRequirements: PaymentRequirements): boolean {
+  return !!getScheme(paymentRequirements.scheme, paymentRequirements.network)?.usageBased;
+}
+
+/**
+ * Checks if payments of the given requirements are held in escrow from their settlement until
+ * they are released or refunded
+ *
+ * @param paymentRequirements - The scheme and network of the payment
+ * @returns True for schemes implementing `releaseEscrow`
+ */
+function isEscrowed(paymentRequirements: Pick<PaymentRequirements, "scheme" | "network">): boolean {
+  return !!getScheme(paymentRequirements.scheme, paymentRequirements.network)?.releaseEscrow;
+}
+
+/**
+ * Checks that the payments a route accepts can be settled in its settlement mode
+ *
+ * Escrowed payments are released once the handler succeeds and refunded when it fails, by the
+ * resource server that deposited them, so they are never settled in the background.
+ *
+ * @param settlement - The settlement mode of the route
+ * @param paymentOptions - The schemes and networks of the payments the route accepts
+ * @throws Error if the route settles escrowed payments asynchronously
+ */
+function assertSettlementMode(
+  settlement: SettlementMode | undefined,
+  paymentOptions: Pick<PaymentRequirements, "scheme" | "network">[],
+): void {
+  const escrowed = paymentOptions.find(isEscrowed);
+  if (settlement === "async" && escrowed) {
+    throw new Error(
+      `The ${escrowed.scheme} scheme cannot be settled asynchronously on network ${escrowed.network}`,
+    );
+  }
+}
+
+/**
+ * Replaces the payTo address of the `exact` EVM payment requirements paying the middleware's payTo
+ * address with a stealth address
+ *
+ * @param paymentRequirements - The payment requirements of the route
+ * @param payTo - The payTo address of the middleware
+ * @param stealthAddress - The stealth address to pay to
+ * @returns The payment requirements, the replaced ones copied
+ */
+function withStealthPayTo(
+  paymentRequirements: PaymentRequirements[],
+  payTo: string,
+  stealthAddress: string,
+): PaymentRequirements[] {
+  return paymentRequirements.map(requirements =>
+    requirements.scheme === "exact" &&
+    SupportedEVMNetworks.includes(requirements.network) &&
+    requirements.payTo.toLowerCase() === payTo.toLowerCase()
+      ? { ...requirements, payTo: stealthAddress }
+      : requirements,
+  );
+}
+
+/**
+ * Replaces the payer of a settlement, e.g. with its hash under a privacy policy
+ *
+ * @param settleResponse - The settlement of the payment
+ * @param payer - The payer to report, or undefined to leave it out
+ * @returns The settlement with the given payer
+ */
+function withPayer(settleResponse: SettleResponse, payer?: string): SettleResponse {
+  const response = { ...settleResponse };
+  delete response.payer;
+  return payer !== undefined ? { ...response, payer } : response;
+}
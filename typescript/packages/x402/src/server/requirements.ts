@@ -0,0 +1,345 @@
+import { Address, getAddress } from "viem";
+import { Address as SolanaAddress } from "@solana/kit";
+import { getPaymentOptions, processPriceToAtomicAmount } from "../shared";
+import {
+  ERC20TokenAmount,
+  HTTPRequestContext,
+  Network,
+  PaymentScheme,
+  ResolvedPaymentMiddlewareConfig,
+  ResolvedPaymentOption,
+  ResolvedRouteConfig,
+  Resource,
+  RouteConfig,
+  RouteValue,
+  SupportedEVMNetworks,
+  SupportedSuiNetworks,
+  SupportedSVMNetworks,
+} from "../types";
+import { SuiAddressRegex } from "../types/shared/sui";
+import { SvmAddressRegex } from "../types/shared/svm";
+import { PaymentRequirements, SupportedPaymentKindsResponse } from "../types/verify";
+
+const DEFAULT_ESCROW_RELEASE_TIMEOUT_SECONDS = 3600;
+const DEFAULT_CHANNEL_TIMEOUT_SECONDS = 86400;
+const DEFAULT_CHANNEL_DEPOSIT_PAYMENTS = 100;
+
+/**
+ * Computes the request-dependent values of a route configuration
+ *
+ * @param routeConfig - The configuration of the matched route
+ * @param request - The incoming request
+ * @returns The route configuration with its prices, networks, payTo addresses and description resolved
+ */
+export async function resolveRouteConfig(
+  routeConfig: RouteConfig,
+  request: HTTPRequestContext,
+): Promise<ResolvedRouteConfig> {
+  const { config = {} } = routeConfig;
+
+  const [accepts, description] = await Promise.all([
+    Promise.all(
+      getPaymentOptions(routeConfig).map(
+        async (option): Promise<ResolvedPaymentOption> => ({
+          scheme: option.scheme,
+          price: await resolveRouteValue(option.price, request),
+          network: await resolveRouteValue(option.network, request),
+          payTo: await resolveRouteValue(option.payTo, request),
+        }),
+      ),
+    ),
+    resolveRouteValue(config.description, request),
+  ]);
+
+  return { accepts, config: { ...config, description } };
+}
+
+/**
+ * Builds the payment requirements advertised for a protected route, one per payment option
+ *
+ * @param payTo - The default address to receive payments
+ * @param routeConfig - The resolved configuration of the matched route
+ * @param method - The HTTP method of the request
+ * @param resourceUrl - The URL of the resource being paid for
+ * @param supported - Fetches the payment kinds supported by the facilitator (used for SVM fee payers, Sui gas stations, upto and permit routers, escrows, channel contracts and shielded pools)
+ * @returns The payment requirements for the route
+ * @throws Error if a price is invalid, a network is unsupported or a payTo address does not fit its network
+ */
+export async function buildPaymentRequirements(
+  payTo: Address | SolanaAddress,
+  routeConfig: ResolvedRouteConfig,
+  method: string,
+  resourceUrl: Resource,
+  supported: () => Promise<SupportedPaymentKindsResponse>,
+): Promise<PaymentRequirements[]> {
+  const { accepts, config } = routeConfig;
+
+  // fetch the supported payment kinds at most once per request, and only when needed
+  let paymentKinds: Promise<SupportedPaymentKindsResponse> | undefined;
+  const getPaymentKinds = () => (paymentKinds ??= supported());
+
+  return Promise.all(
+    accepts.map(option =>
+      buildPaymentRequirement(
+        { ...option, scheme: option.scheme ?? "exact", payTo: option.payTo ?? payTo },
+        config,
+        method,
+        resourceUrl,
+        getPaymentKinds,
+      ),
+    ),
+  );
+}
+
+/**
+ * Builds the payment requirement for a single payment option
+ *
+ * @param option - The payment option, with its payTo address resolved
+ * @param config - The middleware configuration of the route
+ * @param method - The HTTP method of the request
+ * @param resourceUrl - The URL of the resource being paid for
+ * @param supported - Fetches the payment kinds supported by the facilitator
+ * @returns The payment requirement for the option
+ */
+async function buildPaymentRequirement(
+  option: Required<ResolvedPaymentOption>,
+  config: ResolvedPaymentMiddlewareConfig,
+  method: string,
+  resourceUrl: Resource,
+  supported: () => Promise<SupportedPaymentKindsResponse>,
+): Promise<PaymentRequirements> {
+  const { scheme, price, network, payTo } = option;
+  const {
+    description,
+    mimeType,
+    maxTimeoutSeconds,
+    inputSchema,
+    outputSchema,
+    discoverable,
+    bindRequest,
+    escrowReleaseTimeoutSeconds,
+    channelTimeoutSeconds,
+    channelDepositPayments,
+  } = config;
+  // tells clients to bind their payments to the request they are sent with
+  const requestBinding = bindRequest ? { requestBinding: true } : {};
+
+  const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
+  if ("error" in atomicAmountForAsset) {
+    throw new Error(atomicAmountForAsset.error);
+  }
+  const { maxAmountRequired, asset } = atomicAmountForAsset;
+
+  // TODO: Rename outputSchema to requestStructure
+  const requestStructure = {
+    input: {
+      type: "http",
+      method,
+      discoverable: discoverable ?? true,
+      ...inputSchema,
+    },
+    output: outputSchema,
+  };
+
+  // evm networks
+  if (SupportedEVMNetworks.includes(network)) {
+    const { eip712, assetTransferMethod } = asset as ERC20TokenAmount["asset"];
+
+    let extra: Record<string, unknown> = { ...eip712 };
+    // the upto and permit schemes grant the price to the facilitator's router, which only the
+    // facilitator may settle through
+    if (scheme === "upto" || scheme === "permit") {
+      const router = await getFacilitatorExtra(supported, scheme, network, "router");
+      const facilitator = await getFacilitatorExtra(supported, scheme, network, "facilitator");
+      if (!router || !facilitator) {
+        throw new Error(
+          `The facilitator did not provide a router and facilitator for network: ${network}.`,
+        );
+      }
+      extra = { ...eip712, router, facilitator };
+    }
+    // the escrow scheme deposits the price into the facilitator's escrow, which only the
+    // facilitator, as operator, may deposit into; the payer also agrees to the release timeout
+    if (scheme === "escrow") {
+      const escrow = await getFacilitatorExtra(supported, scheme, network, "escrow");
+      const operator = await getFacilitatorExtra(supported, scheme, network, "operator");
+      if (!escrow || !operator) {
+        throw new Error(
+          `The facilitator did not provide an escrow and operator for network: ${network}.`,
+        );
+      }
+      extra = {
+        ...eip712,
+        escrow,
+        operator,
+        releaseTimeout: escrowReleaseTimeoutSeconds ?? DEFAULT_ESCROW_RELEASE_TIMEOUT_SECONDS,
+      };
+    }
+    // the channel scheme deposits several payments into the facilitator's channel contract, which
+    // only the facilitator, as operator, may open channels of
+    if (scheme === "channel") {
+      const channel = await getFacilitatorExtra(supported, scheme, network, "channel");
+      const operator = await getFacilitatorExtra(supported, scheme, network, "operator");
+      if (!channel || !operator) {
+        throw new Error(
+          `The facilitator did not provide a channel contract and operator for network: ${network}.`,
+        );
+      }
+      const payments = channelDepositPayments ?? DEFAULT_CHANNEL_DEPOSIT_PAYMENTS;
+      extra = {
+        ...eip712,
+        channel,
+        operator,
+        channelTimeout: channelTimeoutSeconds ?? DEFAULT_CHANNEL_TIMEOUT_SECONDS,
+        deposit: (BigInt(maxAmountRequired) * BigInt(payments)).toString(),
+      };
+    }
+    // the shielded scheme withdraws notes of the facilitator's shielded pool, whose denomination
+    // must be the price
+    if (scheme === "shielded") {
+      const pool = await getFacilitatorExtra(supported, scheme, network, "pool");
+      if (!pool) {
+        throw new Error(`The facilitator did not provide a shielded pool for network: ${network}.`);
+      }
+      extra = { ...eip712, pool };
+    }
+    // permit2 transfers are submitted by the facilitator, which the client names as spender
+    if (scheme === "exact" && assetTransferMethod === "permit2") {
+      const spender = await getFacilitatorExtra(supported, scheme, network, "spender");
+      if (!spender) {
+        throw new Error(
+          `The facilitator did not provide a Permit2 spender for network: ${network}.`,
+        );
+      }
+      extra = { ...extra, assetTransferMethod, spender };
+    }
+    extra = { ...extra, ...requestBinding };
+
+    return {
+      scheme,
+      network,
+      maxAmountRequired,
+      resource: resourceUrl,
+      description: description ?? "",
+      mimeType: mimeType ?? "application/json",
+      payTo: getAddress(payTo),
+      maxTimeoutSeconds: maxTimeoutSeconds ?? 300,
+      asset: getAddress(asset.address),
+      outputSchema: requestStructure,
+      extra,
+    };
+  }
+
+  // svm networks
+  if (SupportedSVMNetworks.includes(network)) {
+    if (scheme !== "exact" && scheme !== "confidential") {
+      throw new Error(`Unsupported scheme ${scheme} for network: ${network}`);
+    }
+    if (!SvmAddressRegex.test(payTo)) {
+      throw new Error(`Invalid payTo address for network ${network}: ${payTo}`);
+    }
+
+    // svm networks require a fee payer
+    const feePayer = await getFacilitatorExtra(supported, scheme, network, "feePayer");
+    if (!feePayer) {
+      throw new Error(`The facilitator did not provide a fee payer for network: ${network}.`);
+    }
+
+    // confidential payments disclose their amount to the facilitator, encrypted with its key
+    let elgamalPubkey: string | undefined;
+    if (scheme === "confidential") {
+      elgamalPubkey = await getFacilitatorExtra(supported, scheme, network, "elgamalPubkey");
+      if (!elgamalPubkey) {
+        throw new Error(
+          `The facilitator did not provide an ElGamal public key for network: ${network}.`,
+        );
+      }
+    }
+
+    return {
+      scheme,
+      network,
+      maxAmountRequired,
+      resource: resourceUrl,
+      description: description ?? "",
+      mimeType: mimeType ?? "",
+      payTo: payTo,
+      maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
+      asset: asset.address,
+      outputSchema: requestStructure,
+      extra: {
+        feePayer,
+        ...(elgamalPubkey ? { elgamalPubkey } : {}),
+        ...requestBinding,
+      },
+    };
+  }
+
+  // sui networks
+  if (SupportedSuiNetworks.includes(network)) {
+    if (scheme !== "exact") {
+      throw new Error(`Unsupported scheme ${scheme} for network: ${network}`);
+    }
+    if (!SuiAddressRegex.test(payTo)) {
+      throw new Error(`Invalid payTo address for network ${network}: ${payTo}`);
+    }
+
+    // clients pay for gas themselves unless the facilitator runs a gas station
+    const gasStation = await getFacilitatorExtra(supported, scheme, network, "gasStation");
+
+    return {
+      scheme: "exact",
+      network,
+      maxAmountRequired,
+      resource: resourceUrl,
+      description: description ?? "",
+      mimeType: mimeType ?? "",
+      payTo: payTo,
+      maxTimeoutSeconds: maxTimeoutSeconds ?? 60,
+      asset: asset.address,
+      outputSchema: requestStructure,
+      extra: {
+        ...(gasStation ? { gasStation } : {}),
+        ...requestBinding,
+      },
+    };
+  }
+
+  throw new Error(`Unsupported network: ${network}`);
+}
+
+/**
+ * Reads a value the facilitator advertises for a payment kind, such as an SVM fee payer
+ *
+ * @param supported - Fetches the payment kinds supported by the facilitator
+ * @param scheme - The scheme of the payment kind
+ * @param network - The network of the payment kind
+ * @param key - The key of the value in the payment kind's extra information
+ * @returns The advertised value, or undefined if the facilitator does not provide it
+ */
+async function getFacilitatorExtra(
+  supported: () => Promise<SupportedPaymentKindsResponse>,
+  scheme: PaymentScheme,
+  network: Network,
+  key: string,
+): Promise<string | undefined> {
+  // network call to get the supported payments from the facilitator
+  const paymentKinds = await supported();
+
+  // find the payment kind that matches the network and scheme
+  const kind = paymentKinds.kinds.find(kind => kind.network === network && kind.scheme === scheme);
+  return kind?.extra?.[key];
+}
+
+/**
+ * Resolves a route setting that may be computed from the incoming request
+ *
+ * @param value - The fixed value or the function computing it
+ * @param request - The incoming request
+ * @returns The value for this request
+ */
+async function resolveRouteValue<T>(value: RouteValue<T>, request: HTTPRequestContext): Promise<T> {
+  return typeof value === "function"
+    ? (value as (request: HTTPRequestContext) => T | Promise<T>)(request)
+    : value;
+}
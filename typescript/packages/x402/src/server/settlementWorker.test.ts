@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createInMemorySettlementQueue } from "../shared/settlementQueue";
+import { PaymentPayload, PaymentRequirements, SettleResponse } from "../types/verify";
+import { createSettlementWorker } from "./settlementWorker";
+
+describe("createSettlementWorker", () => {
+  const payment = {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {},
+  } as PaymentPayload;
+  const paymentRequirements = { scheme: "exact", network: "base-sepolia" } as PaymentRequirements;
+  const settled: SettleResponse = {
+    success: true,
+    transaction: "0xabc",
+    network: "base-sepolia",
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("settles queued payments in the background", async () => {
+    const settle = vi.fn().mockResolvedValue(settled);
+    const onSettled = vi.fn();
+    const worker = createSettlementWorker(settle, { onSettled });
+
+    const job = await worker.enqueue("payment", payment, paymentRequirements);
+    expect(job.status).toBe("pending");
+    await worker.process();
+
+    expect(settle).toHaveBeenCalledWith(payment, paymentRequirements, undefined);
+    const status = await worker.getStatus("payment");
+    expect(status).toMatchObject({ status: "settled", attempts: 1, settleResponse: settled });
+    expect(onSettled).toHaveBeenCalledWith(status);
+  });
+
+  it("retries failed settlements with exponential backoff", async () => {
+    const settle = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("facilitator unavailable"))
+      .mockResolvedValueOnce({ ...settled, success: false, errorReason: "unexpected_settle_error" })
+      .mockResolvedValueOnce(settled);
+    const worker = createSettlementWorker(settle, { backoffSeconds: 1 });
+
+    await worker.enqueue("payment", payment, paymentRequirements, "500");
+    await worker.process();
+    expect(await worker.getStatus("payment")).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      error: "facilitator unavailable",
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await worker.getStatus("payment")).toMatchObject({
+      attempts: 2,
+      error: "unexpected_settle_error",
+    });
+
+    // the second retry waits twice as long
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(settle).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(settle).toHaveBeenLastCalledWith(payment, paymentRequirements, "500");
+    expect(await worker.getStatus("payment")).toMatchObject({ status: "settled", attempts: 3 });
+  });
+
+  it("reports settlements that fail after every attempt", async () => {
+    const settle = vi.fn().mockRejectedValue(new Error("facilitator unavailable"));
+    const onFailed = vi.fn();
+    const worker = createSettlementWorker(settle, { maxAttempts: 2, backoffSeconds: 1, onFailed });
+
+    await worker.enqueue("payment", payment, paymentRequirements);
+    await worker.process();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(settle).toHaveBeenCalledTimes(2);
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "payment", status: "failed", attempts: 2 }),
+    );
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(settle).toHaveBeenCalledTimes(2);
+  });
+
+  it("settles jobs left in the queue by a previous process", async () => {
+    const queue = createInMemorySettlementQueue();
+    await queue.enqueue({
+      id: "payment",
+      paymentPayload: payment,
+      paymentRequirements,
+      status: "pending",
+      attempts: 0,
+      createdAt: Date.now(),
+      nextAttemptAt: Date.now(),
+    });
+    const settle = vi.fn().mockResolvedValue(settled);
+
+    await createSettlementWorker(settle, { queue }).process();
+
+    expect((await queue.get("payment"))?.status).toBe("settled");
+  });
+
+  it("checks the queue periodically once started", async () => {
+    const queue = createInMemorySettlementQueue();
+    const settle = vi.fn().mockResolvedValue(settled);
+    const worker = createSettlementWorker(settle, { queue, pollIntervalSeconds: 30 });
+    worker.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    // a job retried later by a previous process, without a timer of this worker
+    await queue.enqueue({
+      id: "payment",
+      paymentPayload: payment,
+      paymentRequirements,
+      status: "pending",
+      attempts: 1,
+      createdAt: Date.now(),
+      nextAttemptAt: Date.now() + 10_000,
+    });
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(settle).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await queue.get("payment"))?.status).toBe("settled");
+    await worker.stop();
+  });
+
+  it("leaves the jobs pending in the queue once stopped", async () => {
+    const settle = vi.fn().mockRejectedValue(new Error("facilitator unavailable"));
+    const worker = createSettlementWorker(settle, { backoffSeconds: 1 });
+    worker.start();
+
+    await worker.enqueue("payment", payment, paymentRequirements);
+    await worker.process();
+    await worker.stop();
+    await worker.enqueue("other-payment", payment, paymentRequirements);
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(settle).toHaveBeenCalledTimes(1);
+    expect(await worker.getStatus("payment")).toMatchObject({ status: "pending", attempts: 1 });
+    expect(await worker.getStatus("other-payment")).toMatchObject({ attempts: 0 });
+  });
+});
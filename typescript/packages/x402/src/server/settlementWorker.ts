@@ -0,0 +1,221 @@
+import { createInMemorySettlementQueue } from "../shared/settlementQueue";
+import { SettlementJob, SettlementOptions } from "../types/shared/settlement";
+import { PaymentPayload, PaymentRequirements, SettleResponse } from "../types/verify";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_SECONDS = 2;
+const DEFAULT_POLL_INTERVAL_SECONDS = 30;
+// how many jobs are settled per batch, batches are processed until no job is due
+const BATCH_SIZE = 10;
+
+/**
+ * Settles a payment, usually through the facilitator returned by `useFacilitator`
+ */
+export type SettleFunction = (
+  payload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  settlementAmount?: string,
+) => Promise<SettleResponse>;
+
+/**
+ * Settles queued payments in the background
+ */
+export type SettlementWorker = {
+  /** Queues a verified payment and starts settling it */
+  enqueue(
+    id: string,
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    settlementAmount?: string,
+  ): Promise<SettlementJob>;
+  /** Settles the jobs that are due, e.g. jobs left in a durable queue by a previous process */
+  process(): Promise<void>;
+  /** Settles the due jobs now and then periodically, if the worker has not started yet */
+  start(): void;
+  /** Stops settling jobs in the background, and waits for the running pass */
+  stop(): Promise<void>;
+  /** Gets the status of a queued payment */
+  getStatus(id: string): Promise<SettlementJob | undefined>;
+};
+
+/**
+ * Creates a worker settling queued payments with retries
+ *
+ * Failed attempts are retried after `backoffSeconds`, doubled after each attempt, until
+ * `maxAttempts` is reached and the job is marked as failed. Once started, the worker also checks
+ * the queue every `pollIntervalSeconds`, which settles the jobs left by a previous process.
+ * Retries and polls are scheduled with timers that do not keep the process alive; call `process`
+ * periodically, e.g. from a cron job, where the process may stop between requests. Stopped
+ * workers leave their jobs pending in the queue.
+ *
+ * @param settle - The function settling payments
+ * @param options - The queue, retry policy and callbacks of the worker
+ * @param logError - Logs the errors of callbacks and of the queue, defaults to `console.error`
+ * @returns The settlement worker
+ */
+export function createSettlementWorker(
+  settle: SettleFunction,
+  options?: SettlementOptions,
+  logError: (...data: unknown[]) => void = console.error,
+): SettlementWorker {
+  const queue = options?.queue ?? createInMemorySettlementQueue();
+  const maxAttempts = options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const backoffSeconds = options?.backoffSeconds ?? DEFAULT_BACKOFF_SECONDS;
+  const pollIntervalSeconds = options?.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS;
+
+  let processing: Promise<void> | undefined;
+  let processAgain = false;
+  let stopped = false;
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  const retryTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  /**
+   * Attempts to settle a job once and saves its new state
+   *
+   * @param job - The job to settle
+   */
+  async function attempt(job: SettlementJob): Promise<void> {
+    job.attempts += 1;
+    try {
+      const settleResponse = await settle(
+        job.paymentPayload,
+        job.paymentRequirements,
+        job.settlementAmount,
+      );
+      job.settleResponse = settleResponse;
+      if (settleResponse.success) {
+        job.status = "settled";
+        job.error = undefined;
+      } else {
+        job.error = settleResponse.errorReason ?? "settlement_failed";
+      }
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    if (job.status === "pending" && job.attempts < maxAttempts) {
+      job.nextAttemptAt = Date.now() + backoffSeconds * 1000 * 2 ** (job.attempts - 1);
+      await queue.update(job);
+      scheduleRetry(job.nextAttemptAt);
+      return;
+    }
+
+    if (job.status === "pending") {
+      job.status = "failed";
+    }
+    await queue.update(job);
+
+    const callback = job.status === "settled" ? options?.onSettled : options?.onFailed;
+    try {
+      await callback?.(job);
+    } catch (error) {
+      logError(error);
+    }
+  }
+
+  /**
+   * Settles due jobs until none is left
+   */
+  async function run(): Promise<void> {
+    do {
+      processAgain = false;
+      let jobs: SettlementJob[];
+      do {
+        jobs = await queue.due(Date.now(), BATCH_SIZE);
+        for (const job of jobs) {
+          await attempt(job);
+        }
+      } while (jobs.length === BATCH_SIZE && !stopped);
+    } while (processAgain && !stopped);
+  }
+
+  /**
+   * Processes the queue again once a retry is due
+   *
+   * @param retryAt - When the retry is due, in milliseconds since the epoch
+   */
+  function scheduleRetry(retryAt: number): void {
+    if (stopped) {
+      return;
+    }
+    const timer = setTimeout(
+      () => {
+        retryTimers.delete(timer);
+        void processQueue();
+      },
+      Math.max(0, retryAt - Date.now()),
+    );
+    retryTimers.add(timer);
+    // retries must not keep a Node.js process from exiting
+    (timer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Settles the due jobs, or makes the running pass look for new jobs once it is done
+   *
+   * @returns A promise resolving once the due jobs are processed
+   */
+  function processQueue(): Promise<void> {
+    if (processing) {
+      processAgain = true;
+      return processing;
+    }
+    processing = run()
+      .catch(error => logError(error))
+      .finally(() => {
+        processing = undefined;
+        // jobs may have been queued after the pass looked for them
+        if (processAgain && !stopped) {
+          void processQueue();
+        }
+      });
+    return processing;
+  }
+
+  return {
+    async enqueue(id, paymentPayload, paymentRequirements, settlementAmount) {
+      const now = Date.now();
+      const job: SettlementJob = {
+        id,
+        paymentPayload,
+        paymentRequirements,
+        settlementAmount,
+        status: "pending",
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now,
+      };
+      await queue.enqueue(job);
+      if (!stopped) {
+        void processQueue();
+      }
+      return job;
+    },
+
+    process: processQueue,
+
+    start() {
+      stopped = false;
+      if (pollTimer) {
+        return;
+      }
+      void processQueue();
+      pollTimer = setInterval(() => void processQueue(), pollIntervalSeconds * 1000);
+      // polls must not keep a Node.js process from exiting
+      (pollTimer as { unref?: () => void }).unref?.();
+    },
+
+    async stop() {
+      stopped = true;
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+      for (const timer of retryTimers) {
+        clearTimeout(timer);
+      }
+      retryTimers.clear();
+      await processing;
+    },
+
+    getStatus: id => queue.get(id),
+  };
+}
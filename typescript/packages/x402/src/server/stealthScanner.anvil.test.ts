@@ -0,0 +1,140 @@
+import fs from "fs";
+import path from "path";
+import { Abi, Address, createWalletClient, Hex, http, publicActions } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { beforeAll, describe, expect, it } from "vitest";
+import { createPayment, settle } from "../schemes/exact/evm";
+import { generateStealthAddress, generateStealthMetaAddress, getERC20Balance } from "../shared/evm";
+import { createInMemoryStealthAddressStore } from "../shared/stealth";
+import { createSigner, registerEvmNetwork, SignerWallet } from "../types/shared/evm";
+import { PaymentRequirements } from "../types/verify";
+import { scanStealthPayments, sweepStealthPayments } from "./stealthScanner";
+
+// run with a local anvil chain and the contracts built by `forge build`, see contracts/README.md
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+// the default accounts of anvil
+const facilitatorKey: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const payerKey: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const treasury: Address = "0x000000000000000000000000000000000000dEaD";
+
+// the keys of the payee's stealth meta-address
+const spendingPrivateKey: Hex = `0x${"11".repeat(32)}`;
+const viewingPrivateKey: Hex = `0x${"22".repeat(32)}`;
+
+/**
+ * Reads a contract compiled by forge
+ *
+ * @param name - The name of the contract
+ * @returns The ABI and bytecode of the contract
+ */
+function readArtifact(name: string): { abi: Abi; bytecode: Hex } {
+  const artifact = JSON.parse(
+    fs.readFileSync(
+      path.join(process.cwd(), "contracts", "out", `${name}.sol`, `${name}.json`),
+      "utf8",
+    ),
+  );
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+describe.skipIf(!rpcUrl)("stealth payTo on anvil", () => {
+  const metaAddress = generateStealthMetaAddress(spendingPrivateKey, viewingPrivateKey);
+  const eip712 = { name: "Authorization Dollar", version: "2" };
+  let facilitator: SignerWallet;
+  let payer: SignerWallet;
+  let token: Address;
+  let paymentRequirements: PaymentRequirements;
+
+  /**
+   * Deploys a contract built by forge
+   *
+   * @param name - The name of the contract
+   * @param args - The constructor arguments
+   * @returns The address of the contract
+   */
+  async function deploy(name: string, args: unknown[] = []): Promise<Address> {
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(facilitatorKey),
+      chain: foundry,
+      transport: http(rpcUrl),
+    }).extend(publicActions);
+    const hash = await wallet.deployContract({ ...readArtifact(name), args });
+    const receipt = await wallet.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  }
+
+  beforeAll(async () => {
+    token = await deploy("AuthorizationToken", [eip712.name]);
+    const multicall = await deploy("Multicall3");
+
+    registerEvmNetwork({
+      network: "anvil",
+      chain: { ...foundry, contracts: { multicall3: { address: multicall } } },
+      rpcUrl,
+      defaultAsset: { address: token, eip712 },
+    });
+    facilitator = createSigner("anvil", facilitatorKey);
+    payer = createSigner("anvil", payerKey);
+
+    const hash = await facilitator.writeContract({
+      address: token,
+      abi: readArtifact("AuthorizationToken").abi,
+      functionName: "mint",
+      args: [payer.account.address, 1_000_000n],
+      chain: foundry,
+    });
+    await facilitator.waitForTransactionReceipt({ hash });
+
+    paymentRequirements = {
+      scheme: "exact",
+      network: "anvil",
+      maxAmountRequired: "100000",
+      resource: "https://example.com/resource",
+      description: "Test resource",
+      mimeType: "application/json",
+      payTo: treasury,
+      maxTimeoutSeconds: 300,
+      asset: token,
+      extra: eip712,
+    };
+  });
+
+  it("finds the payments to stealth addresses and sweeps them to the treasury", async () => {
+    const store = createInMemoryStealthAddressStore();
+    for (let i = 0; i < 2; i++) {
+      const announcement = { ...generateStealthAddress(metaAddress), createdAt: Date.now() };
+      await store.record(announcement);
+      const stealthRequirements = { ...paymentRequirements, payTo: announcement.stealthAddress };
+      const payment = await createPayment(payer, 1, stealthRequirements);
+      expect((await settle(facilitator, payment, stealthRequirements)).success).toBe(true);
+    }
+    // an address handed out but never paid
+    await store.record({ ...generateStealthAddress(metaAddress), createdAt: Date.now() });
+    const received = await getERC20Balance(payer, token, treasury);
+
+    const payments = await scanStealthPayments(
+      payer,
+      await store.list(),
+      metaAddress,
+      viewingPrivateKey,
+      token,
+    );
+    expect(payments.map(payment => payment.balance)).toEqual([100_000n, 100_000n]);
+
+    const results = await sweepStealthPayments(facilitator, payments, {
+      network: "anvil",
+      asset: { address: token, eip712 },
+      to: treasury,
+      viewingPrivateKey,
+      spendingPrivateKey,
+    });
+
+    expect(results.map(result => result.success)).toEqual([true, true]);
+    expect(await getERC20Balance(payer, token, treasury)).toBe(received + 200_000n);
+    expect(
+      await scanStealthPayments(payer, await store.list(), metaAddress, viewingPrivateKey, token),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { Hex } from "viem";
+import { generatePrivateKey } from "viem/accounts";
+import { describe, expect, it, vi } from "vitest";
+import { generateStealthAddress, generateStealthMetaAddress } from "../shared/evm";
+import { ConnectedClient } from "../types/shared/evm";
+import { scanStealthPayments } from "./stealthScanner";
+
+describe("scanStealthPayments", () => {
+  const asset = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+  const viewingPrivateKey: Hex = generatePrivateKey();
+  const metaAddress = generateStealthMetaAddress(generatePrivateKey(), viewingPrivateKey);
+
+  /**
+   * Announces a stealth address of a meta-address
+   *
+   * @param to - The stealth meta-address
+   * @returns The announcement of the stealth address
+   */
+  function announce(to: string) {
+    return { ...generateStealthAddress(to), createdAt: Date.now() };
+  }
+
+  it("finds the funded stealth addresses of the meta-address", async () => {
+    const funded = announce(metaAddress);
+    const empty = announce(metaAddress);
+    const otherPayee = announce(
+      generateStealthMetaAddress(generatePrivateKey(), generatePrivateKey()),
+    );
+    const readContract = vi.fn(async ({ args }: { args: [string] }) =>
+      args[0] === funded.stealthAddress ? 1000n : 0n,
+    );
+    const client = { readContract } as unknown as ConnectedClient;
+
+    const payments = await scanStealthPayments(
+      client,
+      [funded, empty, otherPayee],
+      metaAddress,
+      viewingPrivateKey,
+      asset,
+    );
+
+    expect(payments).toEqual([{ announcement: funded, balance: 1000n }]);
+    // the addresses of other payees are skipped without reading their balance
+    expect(readContract).toHaveBeenCalledTimes(2);
+  });
+});
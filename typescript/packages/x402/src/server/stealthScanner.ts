@@ -0,0 +1,105 @@
+import { Account, Address, Chain, Hex, Transport } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { createPayment, settleBatch } from "../schemes/exact/evm";
+import {
+  checkStealthAddress,
+  computeStealthPrivateKey,
+  getERC20Balance,
+  parseStealthMetaAddress,
+} from "../shared/evm";
+import { ConnectedClient, SignerWallet } from "../types/shared/evm";
+import { BatchedPayment } from "../types/shared/settlement";
+import { StealthAnnouncement, StealthPayment, StealthSweepOptions } from "../types/shared/stealth";
+import { SettleResponse } from "../types/verify";
+
+const SWEEP_TIMEOUT_SECONDS = 300;
+
+/**
+ * Finds the stealth addresses of a meta-address that hold an asset
+ *
+ * Only the viewing key is needed, so scanning can run where the spending key is not available.
+ * Announcements of other meta-addresses, e.g. in a store shared by several payees, are skipped.
+ *
+ * @param client - The client connected to the network of the asset
+ * @param announcements - The stealth addresses to scan, e.g. from `StealthAddressStore.list`
+ * @param metaAddress - The stealth meta-address of the payee
+ * @param viewingPrivateKey - The private viewing key of the meta-address
+ * @param asset - The address of the asset to look for
+ * @returns The stealth addresses of the payee with a balance of the asset
+ * @throws Error if the meta-address is invalid
+ */
+export async function scanStealthPayments<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  announcements: StealthAnnouncement[],
+  metaAddress: string,
+  viewingPrivateKey: Hex,
+  asset: Address,
+): Promise<StealthPayment[]> {
+  const { spendingPublicKey } = parseStealthMetaAddress(metaAddress);
+  const payments: StealthPayment[] = [];
+
+  for (const announcement of announcements) {
+    if (!checkStealthAddress(announcement, viewingPrivateKey, spendingPublicKey)) {
+      continue;
+    }
+    const balance = await getERC20Balance(client, asset, announcement.stealthAddress as Address);
+    if (balance > 0n) {
+      payments.push({ announcement, balance });
+    }
+  }
+  return payments;
+}
+
+/**
+ * Moves the funds of stealth addresses to a single address
+ *
+ * Each stealth address signs an EIP-3009 authorization transferring its balance, and the wallet
+ * submits them in a single transaction through Multicall3, paying for the gas so the stealth
+ * addresses never need native tokens. Sweeping several addresses together links them on-chain;
+ * sweep them one by one, to fresh addresses, to keep them apart.
+ *
+ * @param wallet - The wallet submitting the transaction and paying for its gas
+ * @param payments - The stealth addresses to sweep, found by `scanStealthPayments`
+ * @param options - The asset, the receiving address and the keys of the meta-address
+ * @returns The settlement of each sweep, in the order of `payments`
+ */
+export async function sweepStealthPayments<transport extends Transport, chain extends Chain>(
+  wallet: SignerWallet<chain, transport>,
+  payments: StealthPayment[],
+  options: StealthSweepOptions,
+): Promise<SettleResponse[]> {
+  const { network, asset, to, viewingPrivateKey, spendingPrivateKey } = options;
+
+  const sweeps = await Promise.all(
+    payments.map(async ({ announcement, balance }): Promise<BatchedPayment> => {
+      const account = privateKeyToAccount(
+        computeStealthPrivateKey(
+          announcement.ephemeralPublicKey as Hex,
+          viewingPrivateKey as Hex,
+          spendingPrivateKey as Hex,
+        ),
+      );
+      const paymentRequirements = {
+        scheme: "exact" as const,
+        network,
+        maxAmountRequired: balance.toString(),
+        resource: `ethereum:${announcement.stealthAddress}`,
+        description: `Sweep of ${announcement.stealthAddress}`,
+        mimeType: "",
+        payTo: to,
+        maxTimeoutSeconds: SWEEP_TIMEOUT_SECONDS,
+        asset: asset.address,
+        extra: asset.eip712,
+      };
+      return {
+        paymentPayload: await createPayment(account, 1, paymentRequirements),
+        paymentRequirements,
+      };
+    }),
+  );
+  return sweeps.length > 0 ? settleBatch(wallet, sweeps) : [];
+}
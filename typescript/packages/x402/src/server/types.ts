@@ -0,0 +1,102 @@
+import { AccessTokenClaims, HTTPRequestContext, SettlementJob } from "../types";
+import {
+  ErrorReason,
+  PaymentPayload,
+  PaymentRequirements,
+  RefundResponse,
+  SettleResponse,
+} from "../types/verify";
+
+export type { HTTPRequestContext } from "../types";
+
+/**
+ * The JSON body returned alongside a 402 Payment Required status
+ *
+ * Every 402 body has the same shape: clients branch on `code` and may show `error` to users.
+ */
+export type PaymentRequiredBody = {
+  /** The version legacy clients pay with, the lowest version accepted by the server */
+  x402Version: number;
+  /** Every version accepted by the server, clients pay with the highest one they support */
+  x402Versions: number[];
+  /** A human readable description of the error */
+  error: string;
+  /** A stable, machine readable error code */
+  code: ErrorReason;
+  accepts: PaymentRequirements[];
+  payer?: string;
+};
+
+/**
+ * The result of settling a verified payment after the protected handler has run
+ *
+ * Routes in `async` settlement mode queue the payment instead of settling it: the response is
+ * sent with the id of the queued settlement in the `X-PAYMENT-SETTLEMENT-ID` header.
+ *
+ * When the gate is configured with `refunds`, settled payments can be refunded with `refund`,
+ * e.g. when the response could not be delivered. The amount defaults to the settled amount.
+ */
+export type SettlementDecision =
+  | {
+      type: "settled";
+      headers: Record<string, string>;
+      settleResponse: SettleResponse;
+      refund?: (amount?: string) => Promise<RefundResponse>;
+    }
+  | {
+      type: "settlement-queued";
+      headers: Record<string, string>;
+      job: SettlementJob;
+    }
+  | {
+      type: "payment-error";
+      status: 402;
+      headers: Record<string, string>;
+      body: PaymentRequiredBody;
+    };
+
+/**
+ * The decision taken by the payment gate for a single request
+ *
+ * - `pass-through`: the request does not match a protected route and should be handled as-is
+ * - `access-granted`: the request presents a valid access token of a route in session mode and
+ *   should be handled as-is, without payment
+ * - `paywall`: the request comes from a browser without payment and should receive the paywall HTML
+ * - `payment-error`: the request should be answered with a 402 JSON body
+ * - `payment-verified`: the payment is valid; run the protected handler, then call `settle`
+ *   unless the handler responded with an error status. For the `upto`, `permit` and `escrow` schemes, pass
+ *   the amount consumed by the handler (in atomic units of the asset) to charge less than the maximum.
+ *   Call `cancel` instead when the payment is not settled, so that it can be used again. Payments
+ *   of the `escrow` scheme are deposited before the decision is returned; `settle` releases the
+ *   deposit to payTo and `cancel` refunds it to the payer. Payments of the `channel` scheme open
+ *   their channel before the decision is returned, if they open one; `settle` accepts their voucher
+ *   without a transaction, and the vouchers are claimed later in the background.
+ */
+export type PaymentGateDecision =
+  | { type: "pass-through" }
+  | { type: "access-granted"; session: AccessTokenClaims }
+  | { type: "paywall"; status: 402; html: string }
+  | { type: "payment-error"; status: 402; body: PaymentRequiredBody }
+  | {
+      type: "payment-verified";
+      paymentPayload: PaymentPayload;
+      paymentRequirements: PaymentRequirements;
+      /** The address of the payer, left out under a privacy policy unless it exposes payers */
+      payer?: string;
+      settle: (settlementAmount?: string) => Promise<SettlementDecision>;
+      cancel: () => Promise<void>;
+    };
+
+/**
+ * Processes a request against the configured routes and returns the decision to apply
+ *
+ * The gate settles `async` payments and claims payment channels in the background until it is
+ * stopped.
+ */
+export type PaymentGate = {
+  (request: HTTPRequestContext): Promise<PaymentGateDecision>;
+  /** Gets a payment settled in the background by its `X-PAYMENT-SETTLEMENT-ID` */
+  getSettlementStatus(id: string): Promise<SettlementJob | undefined>;
+  /** Stops settling payments and claiming channels in the background */
+  stop(): Promise<void>;
+};
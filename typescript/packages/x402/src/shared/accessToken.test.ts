@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createAccessTokenCache,
+  decodeAccessToken,
+  signAccessToken,
+  verifyAccessToken,
+} from "./accessToken";
+
+describe("access tokens", () => {
+  const secret = "test-secret";
+  const claims = {
+    jti: "token-id",
+    group: "/articles/*",
+    exp: Math.floor(Date.now() / 1000) + 60,
+    max: 10,
+    payer: "0x1111111111111111111111111111111111111111",
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("verifies tokens signed with the same secret", async () => {
+    const token = await signAccessToken(claims, secret);
+
+    expect(await verifyAccessToken(token, secret)).toEqual(claims);
+    expect(decodeAccessToken(token)).toEqual(claims);
+  });
+
+  it("rejects tokens signed with another secret", async () => {
+    const token = await signAccessToken(claims, "other-secret");
+
+    expect(await verifyAccessToken(token, secret)).toBeUndefined();
+  });
+
+  it("rejects tokens whose claims were changed", async () => {
+    const [, signature] = (await signAccessToken(claims, secret)).split(".");
+    const [forgedClaims] = (await signAccessToken({ ...claims, max: 1000 }, secret)).split(".");
+
+    expect(await verifyAccessToken(`${forgedClaims}.${signature}`, secret)).toBeUndefined();
+  });
+
+  it("rejects expired tokens", async () => {
+    const token = await signAccessToken(claims, secret);
+    vi.useFakeTimers();
+    vi.setSystemTime((claims.exp + 1) * 1000);
+
+    expect(await verifyAccessToken(token, secret)).toBeUndefined();
+  });
+
+  it("rejects malformed tokens", async () => {
+    expect(await verifyAccessToken("not-a-token", secret)).toBeUndefined();
+    expect(decodeAccessToken("not-a-token")).toBeUndefined();
+  });
+});
+
+describe("createAccessTokenCache", () => {
+  const exp = Math.floor(Date.now() / 1000) + 60;
+
+  it("returns the tokens of a URL's origin, one per route group", async () => {
+    const cache = createAccessTokenCache();
+    const articles = await signAccessToken({ jti: "1", group: "/articles/*", exp }, "secret");
+    const renewed = await signAccessToken({ jti: "2", group: "/articles/*", exp }, "secret");
+    const videos = await signAccessToken({ jti: "3", group: "/videos/*", exp }, "secret");
+
+    cache.set("https://api.example.com/articles/1", articles);
+    cache.set("https://api.example.com/articles/2", renewed);
+    cache.set("https://api.example.com/videos/1", videos);
+
+    expect(cache.get("https://api.example.com/anything")).toBe(`${renewed}, ${videos}`);
+    expect(cache.get("https://other.example.com/articles/1")).toBeUndefined();
+  });
+
+  it("drops expired tokens", async () => {
+    const cache = createAccessTokenCache();
+    const expired = await signAccessToken(
+      { jti: "1", group: "/articles/*", exp: Math.floor(Date.now() / 1000) - 1 },
+      "secret",
+    );
+
+    cache.set("https://api.example.com/articles/1", expired);
+
+    expect(cache.get("https://api.example.com/articles/1")).toBeUndefined();
+  });
+});
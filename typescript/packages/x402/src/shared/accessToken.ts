@@ -0,0 +1,156 @@
+import { AccessTokenClaims } from "../types/shared/session";
+import { fromBase64Url, toBase64Url } from "./base64";
+
+/**
+ * Signs the claims of an access token
+ *
+ * Tokens are the base64url encoded JSON claims and their HMAC-SHA256 signature, joined by a dot.
+ * Signing uses the Web Crypto API, so it works in Node.js, edge runtimes and browsers alike.
+ *
+ * @param claims - The claims of the token
+ * @param secret - The secret to sign the token with
+ * @returns The signed access token
+ */
+export async function signAccessToken(claims: AccessTokenClaims, secret: string): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    new TextEncoder().encode(payload),
+  );
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies the signature and expiry of an access token
+ *
+ * @param token - The access token to verify
+ * @param secret - The secret the token was signed with
+ * @returns The claims of the token, or undefined if it is malformed, forged or expired
+ */
+export async function verifyAccessToken(
+  token: string,
+  secret: string,
+): Promise<AccessTokenClaims | undefined> {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) {
+    return undefined;
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload),
+    );
+    if (!valid) {
+      return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+
+  const claims = decodeAccessToken(token);
+  if (!claims || claims.exp <= Math.floor(Date.now() / 1000)) {
+    return undefined;
+  }
+  return claims;
+}
+
+/**
+ * Reads the claims of an access token without verifying it, e.g. for clients deciding where to
+ * send the token
+ *
+ * @param token - The access token to read
+ * @returns The claims of the token, or undefined if it is malformed
+ */
+export function decodeAccessToken(token: string): AccessTokenClaims | undefined {
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(token.split(".")[0])));
+    if (typeof claims?.group !== "string" || typeof claims?.exp !== "number") {
+      return undefined;
+    }
+    return claims as AccessTokenClaims;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Imports an HMAC-SHA256 key from a secret
+ *
+ * @param secret - The secret to import
+ * @returns The key
+ */
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/**
+ * Remembers the access tokens returned by servers in session mode, for clients to present them on
+ * later requests
+ */
+export type AccessTokenCache = {
+  /** Gets the unexpired access tokens of a URL's origin, comma separated */
+  get(url: string): string | undefined;
+  /** Stores an access token returned by a URL, replacing the previous token of its route group */
+  set(url: string, token: string): void;
+};
+
+/**
+ * Creates an access token cache holding one token per origin and route group
+ *
+ * @returns The access token cache
+ */
+export function createAccessTokenCache(): AccessTokenCache {
+  const tokensByOrigin = new Map<string, Map<string, string>>();
+
+  return {
+    get(url: string): string | undefined {
+      const tokens = tokensByOrigin.get(getOrigin(url) ?? "");
+      if (!tokens) {
+        return undefined;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      for (const [group, token] of tokens) {
+        if ((decodeAccessToken(token)?.exp ?? 0) <= now) {
+          tokens.delete(group);
+        }
+      }
+      return tokens.size > 0 ? [...tokens.values()].join(", ") : undefined;
+    },
+
+    set(url: string, token: string): void {
+      const origin = getOrigin(url);
+      const claims = decodeAccessToken(token);
+      if (!origin || !claims) {
+        return;
+      }
+      const tokens = tokensByOrigin.get(origin) ?? new Map<string, string>();
+      tokens.set(claims.group, token);
+      tokensByOrigin.set(origin, tokens);
+    },
+  };
+}
+
+/**
+ * Gets the origin of a URL, resolving relative URLs against the current page in browsers
+ *
+ * @param url - The URL
+ * @returns The origin, or undefined if the URL cannot be parsed
+ */
+function getOrigin(url: string): string | undefined {
+  try {
+    return new URL(url, globalThis.location?.href).origin;
+  } catch {
+    return undefined;
+  }
+}
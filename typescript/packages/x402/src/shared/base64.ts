@@ -25,3 +25,25 @@ export function safeBase64Decode(data: string): string {
   }
   return Buffer.from(data, "base64").toString("utf-8");
 }
+
+/**
+ * Encodes bytes to unpadded base64url
+ *
+ * @param bytes - The bytes to encode
+ * @returns The base64url string
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decodes unpadded base64url to bytes
+ *
+ * @param data - The base64url string to decode
+ * @returns The decoded bytes
+ */
+export function fromBase64Url(data: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(data.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { ChannelRecord } from "../types/shared/channel";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+import { createInMemoryChannelStore } from "./channel";
+
+describe("createInMemoryChannelStore", () => {
+  const channel: ChannelRecord = {
+    id: `0x${"ab".repeat(32)}`,
+    network: "base-sepolia",
+    payer: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+    deposit: "100000",
+    expiresAt: 1_800_000_000,
+    amount: "0",
+    claimedAmount: "0",
+    paymentPayload: {} as PaymentPayload,
+    paymentRequirements: {} as PaymentRequirements,
+  };
+
+  it("records each channel once", async () => {
+    const store = createInMemoryChannelStore();
+
+    expect(await store.create(channel)).toBe(true);
+    expect(await store.create({ ...channel, id: channel.id.toUpperCase() })).toBe(false);
+    expect(await store.list()).toEqual([channel]);
+  });
+
+  it("only accepts one voucher for the same recorded amount", async () => {
+    const store = createInMemoryChannelStore();
+    await store.create(channel);
+
+    expect(await store.update({ ...channel, amount: "1000" }, "0")).toBe(true);
+    expect(await store.update({ ...channel, amount: "2000" }, "0")).toBe(false);
+    expect((await store.get(channel.id))?.amount).toBe("1000");
+  });
+
+  it("forgets closed channels", async () => {
+    const store = createInMemoryChannelStore();
+    await store.create(channel);
+
+    await store.delete(channel.id);
+
+    expect(await store.get(channel.id)).toBeUndefined();
+    expect(await store.update({ ...channel, claimedAmount: "1000" })).toBe(false);
+  });
+});
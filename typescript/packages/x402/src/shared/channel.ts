@@ -0,0 +1,46 @@
+import { ChannelRecord, ChannelStore } from "../types/shared/channel";
+
+/**
+ * Creates a channel store that keeps payment channels in memory
+ *
+ * Channels are lost on restart, along with the vouchers that were accepted but not claimed yet;
+ * use a durable store in production.
+ *
+ * @returns The in-memory channel store
+ */
+export function createInMemoryChannelStore(): ChannelStore {
+  const channels = new Map<string, ChannelRecord>();
+  const key = (id: string) => id.toLowerCase();
+
+  return {
+    async create(channel: ChannelRecord): Promise<boolean> {
+      if (channels.has(key(channel.id))) {
+        return false;
+      }
+      channels.set(key(channel.id), { ...channel });
+      return true;
+    },
+
+    async update(channel: ChannelRecord, expectedAmount?: string): Promise<boolean> {
+      const existing = channels.get(key(channel.id));
+      if (!existing || (expectedAmount !== undefined && existing.amount !== expectedAmount)) {
+        return false;
+      }
+      channels.set(key(channel.id), { ...channel });
+      return true;
+    },
+
+    async get(id: string): Promise<ChannelRecord | undefined> {
+      const channel = channels.get(key(id));
+      return channel && { ...channel };
+    },
+
+    async delete(id: string): Promise<void> {
+      channels.delete(key(id));
+    },
+
+    async list(): Promise<ChannelRecord[]> {
+      return [...channels.values()].map(channel => ({ ...channel }));
+    },
+  };
+}
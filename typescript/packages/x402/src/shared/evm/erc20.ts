@@ -1,4 +1,4 @@
-import { Account, Address, Chain, Transport } from "viem";
+import { Account, Address, Chain, Hex, Transport } from "viem";
 import { usdcABI as erc20PermitABI } from "../../types/shared/evm/erc20PermitABI";
 import { ConnectedClient } from "../../types/shared/evm/wallet";
 
@@ -27,3 +27,85 @@ export async function getERC20Balance<
   });
   return balance as bigint;
 }
+
+/**
+ * Gets the current EIP-2612 permit nonce of an address
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param erc20Address - The address of the ERC20 contract
+ * @param owner - The address whose permit nonce to read
+ * @returns A promise that resolves to the nonce the next permit of the owner must use
+ */
+export async function getPermitNonce<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  erc20Address: Address,
+  owner: Address,
+): Promise<bigint> {
+  const nonce = await client.readContract({
+    address: erc20Address,
+    abi: erc20PermitABI,
+    functionName: "nonces",
+    args: [owner],
+  });
+  return nonce as bigint;
+}
+
+/**
+ * Checks whether an EIP-3009 authorization nonce has already been used or canceled
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param erc20Address - The address of the ERC20 contract
+ * @param authorizer - The address that signed the authorization
+ * @param nonce - The nonce of the authorization
+ * @returns A promise that resolves to true if the nonce can no longer be used
+ */
+export async function getAuthorizationState<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  erc20Address: Address,
+  authorizer: Address,
+  nonce: Hex,
+): Promise<boolean> {
+  const used = await client.readContract({
+    address: erc20Address,
+    abi: erc20PermitABI,
+    functionName: "authorizationState",
+    args: [authorizer, nonce],
+  });
+  return used as boolean;
+}
+
+/**
+ * Gets the amount a spender is allowed to transfer on behalf of an owner
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param erc20Address - The address of the ERC20 contract
+ * @param owner - The address tokens are transferred from
+ * @param spender - The address allowed to transfer the tokens
+ * @returns A promise that resolves to the allowance as a bigint
+ */
+export async function getAllowance<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  erc20Address: Address,
+  owner: Address,
+  spender: Address,
+): Promise<bigint> {
+  const allowance = await client.readContract({
+    address: erc20Address,
+    abi: erc20PermitABI,
+    functionName: "allowance",
+    args: [owner, spender],
+  });
+  return allowance as bigint;
+}
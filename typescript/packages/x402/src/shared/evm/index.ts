@@ -1,2 +1,5 @@
 export * from "./usdc";
 export * from "./erc20";
+export * from "./permit2";
+export * from "./stealth";
+export * from "./shielded";
@@ -0,0 +1,32 @@
+import { Account, Address, Chain, Transport } from "viem";
+import { PERMIT2_ADDRESS, permit2ABI } from "../../types/shared/evm/permit2";
+import { ConnectedClient } from "../../types/shared/evm/wallet";
+
+/**
+ * Checks whether a Permit2 signature transfer nonce of an owner was already used
+ *
+ * Permit2 nonces are unordered: each one is a bit of the owner's nonce bitmap, indexed by its
+ * upper 248 bits as the word and its lower 8 bits as the bit in that word.
+ *
+ * @param client - The Viem client instance connected to the blockchain
+ * @param owner - The address that signed the transfer
+ * @param nonce - The nonce of the transfer
+ * @returns A promise that resolves to true if the nonce was used or invalidated
+ */
+export async function isPermit2NonceUsed<
+  transport extends Transport,
+  chain extends Chain,
+  account extends Account | undefined = undefined,
+>(
+  client: ConnectedClient<transport, chain, account>,
+  owner: Address,
+  nonce: bigint,
+): Promise<boolean> {
+  const bitmap = await client.readContract({
+    address: PERMIT2_ADDRESS,
+    abi: permit2ABI,
+    functionName: "nonceBitmap",
+    args: [owner, nonce >> 8n],
+  });
+  return (((bitmap as bigint) >> (nonce & 255n)) & 1n) === 1n;
+}
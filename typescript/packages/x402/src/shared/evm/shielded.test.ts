@@ -0,0 +1,58 @@
+import { Hex } from "viem";
+import { describe, expect, it } from "vitest";
+import {
+  generateShieldedSecretKey,
+  getKeyImage,
+  getNullifier,
+  getShieldedPublicKey,
+  signRing,
+  verifyRingSignature,
+} from "./shielded";
+
+describe("ring signatures of shielded notes", () => {
+  const secretKeys = Array.from({ length: 4 }, generateShieldedSecretKey);
+  const keys = secretKeys.map(getShieldedPublicKey);
+  const ring = [0n, 3n, 7n, 8n];
+  const message: Hex = `0x${"ab".repeat(32)}`;
+
+  it("verifies signatures made with the key of any note of the ring", () => {
+    for (const secretKey of secretKeys) {
+      const signature = signRing(message, ring, keys, secretKey);
+
+      expect(signature.ring).toEqual(ring);
+      expect(verifyRingSignature(message, keys, signature)).toBe(true);
+    }
+  });
+
+  it("links the signatures of a note by their key image only", () => {
+    const first = signRing(message, ring, keys, secretKeys[1]);
+    const second = signRing(`0x${"cd".repeat(32)}`, ring, keys, secretKeys[1]);
+    const other = signRing(message, ring, keys, secretKeys[2]);
+
+    expect(first.keyImage).toEqual(getKeyImage(secretKeys[1]));
+    expect(second.keyImage).toEqual(first.keyImage);
+    expect(other.keyImage).not.toEqual(first.keyImage);
+    expect(getNullifier(first.keyImage)).toBe(getNullifier(second.keyImage));
+    expect(first.s).not.toEqual(second.s);
+  });
+
+  it("rejects signatures of another message, ring or key image", () => {
+    const signature = signRing(message, ring, keys, secretKeys[0]);
+
+    expect(verifyRingSignature(`0x${"cd".repeat(32)}`, keys, signature)).toBe(false);
+    expect(verifyRingSignature(message, [...keys].reverse(), signature)).toBe(false);
+    expect(
+      verifyRingSignature(message, keys, { ...signature, keyImage: getKeyImage(secretKeys[1]) }),
+    ).toBe(false);
+    expect(verifyRingSignature(message, keys, { ...signature, keyImage: [1n, 1n] })).toBe(false);
+    expect(verifyRingSignature(message, keys, { ...signature, s: signature.s.slice(1) })).toBe(
+      false,
+    );
+  });
+
+  it("refuses to sign for a ring without the key of the note", () => {
+    expect(() => signRing(message, ring, keys, generateShieldedSecretKey())).toThrow(
+      "The key of the note is not in the ring",
+    );
+  });
+});
@@ -0,0 +1,236 @@
+import { bn254 } from "@noble/curves/bn254";
+import { bytesToNumberBE, randomBytes } from "@noble/curves/utils";
+import { encodeAbiParameters, Hex, hexToBigInt, keccak256, toHex } from "viem";
+
+// the notes of shielded pools are keys of the alt_bn128 curve, whose operations the EVM precompiles
+const Point = bn254.G1.ProjectivePoint;
+const { Fp, Fr } = bn254.fields;
+type CurvePoint = ReturnType<typeof Point.fromAffine>;
+
+/**
+ * A point of the alt_bn128 curve, as its affine coordinates
+ */
+export type ShieldedPoint = readonly [bigint, bigint];
+
+/**
+ * A linkable ring signature (LSAG) by the key of one of the notes of a ring
+ */
+export type RingSignature = {
+  /** The indexes of the notes of the ring in the shielded pool, in increasing order */
+  ring: bigint[];
+  /** The key image, the same for every signature of a key, which nullifies its note */
+  keyImage: ShieldedPoint;
+  /** The challenge of the first key of the ring */
+  c: bigint;
+  /** The response of each key of the ring */
+  s: bigint[];
+};
+
+/**
+ * Generates the secret key of a note of a shielded pool
+ *
+ * @returns The secret key, a random scalar of the alt_bn128 curve
+ */
+export function generateShieldedSecretKey(): Hex {
+  let scalar = 0n;
+  while (scalar === 0n) {
+    scalar = Fr.create(bytesToNumberBE(randomBytes(48)));
+  }
+  return toHex(scalar, { size: 32 });
+}
+
+/**
+ * Gets the public key of a note, which is deposited into the shielded pool
+ *
+ * @param secretKey - The secret key of the note
+ * @returns The public key
+ */
+export function getShieldedPublicKey(secretKey: Hex): ShieldedPoint {
+  return toShieldedPoint(Point.BASE.multiply(hexToBigInt(secretKey)));
+}
+
+/**
+ * Gets the key image of a note, the nullifier recorded by the shielded pool once it is withdrawn
+ *
+ * @param secretKey - The secret key of the note
+ * @returns The key image
+ */
+export function getKeyImage(secretKey: Hex): ShieldedPoint {
+  const publicKey = getShieldedPublicKey(secretKey);
+  return toShieldedPoint(hashToPoint(publicKey).multiply(hexToBigInt(secretKey)));
+}
+
+/**
+ * Signs a message with the key of a note, hiding it among the keys of a ring
+ *
+ * The signature proves that the signer knows the secret key of one of the keys of the ring
+ * without telling which, and carries the key image of the note, which links every signature made
+ * with the same key.
+ *
+ * @param message - The message, see `hashWithdrawal`
+ * @param ring - The indexes of the notes of the ring, in increasing order
+ * @param keys - The public keys of the notes of the ring
+ * @param secretKey - The secret key of the signer's note, whose public key is in `keys`
+ * @returns The ring signature
+ * @throws Error if the public key of the secret key is not in the ring
+ */
+export function signRing(
+  message: Hex,
+  ring: bigint[],
+  keys: readonly ShieldedPoint[],
+  secretKey: Hex,
+): RingSignature {
+  const x = hexToBigInt(secretKey);
+  const publicKey = getShieldedPublicKey(secretKey);
+  const signer = keys.findIndex(key => key[0] === publicKey[0] && key[1] === publicKey[1]);
+  if (signer === -1) {
+    throw new Error("The key of the note is not in the ring");
+  }
+
+  const keyImagePoint = hashToPoint(publicKey).multiply(x);
+  const keyImage = toShieldedPoint(keyImagePoint);
+  const n = keys.length;
+  const c = new Array<bigint>(n);
+  const s = new Array<bigint>(n);
+
+  // the signer commits to a random nonce, then every other key gets a random response, closing
+  // the ring back at the signer, whose response is the only one that needs the secret key
+  const alpha = hexToBigInt(generateShieldedSecretKey());
+  c[(signer + 1) % n] = hashChallenge(
+    message,
+    Point.BASE.multiply(alpha),
+    hashToPoint(publicKey).multiply(alpha),
+  );
+  for (let offset = 1; offset < n; offset++) {
+    const i = (signer + offset) % n;
+    s[i] = hexToBigInt(generateShieldedSecretKey());
+    const [l, r] = getCommitments(keys[i], keyImagePoint, c[i], s[i]);
+    c[(i + 1) % n] = hashChallenge(message, l, r);
+  }
+  s[signer] = Fr.sub(alpha, Fr.mul(c[signer], x));
+
+  return { ring, keyImage, c: c[0], s };
+}
+
+/**
+ * Verifies a ring signature as the shielded pool does
+ *
+ * @param message - The signed message
+ * @param keys - The public keys of the notes of the ring, in the order of the ring
+ * @param signature - The ring signature
+ * @returns True if the signature was made with the key of a note of the ring
+ */
+export function verifyRingSignature(
+  message: Hex,
+  keys: readonly ShieldedPoint[],
+  signature: RingSignature,
+): boolean {
+  const { keyImage, c, s } = signature;
+  if (keys.length === 0 || s.length !== keys.length || c >= Fr.ORDER) {
+    return false;
+  }
+
+  try {
+    const keyImagePoint = Point.fromAffine({ x: keyImage[0], y: keyImage[1] });
+    keyImagePoint.assertValidity();
+
+    let challenge = c;
+    for (let i = 0; i < keys.length; i++) {
+      if (s[i] >= Fr.ORDER) {
+        return false;
+      }
+      const [l, r] = getCommitments(keys[i], keyImagePoint, challenge, s[i]);
+      challenge = hashChallenge(message, l, r);
+    }
+    return challenge === c;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Computes the nullifier the shielded pool records once the note of a key image is withdrawn
+ *
+ * @param keyImage - The key image of the note
+ * @returns The nullifier
+ */
+export function getNullifier(keyImage: ShieldedPoint): Hex {
+  return keccak256(encodeAbiParameters([{ type: "uint256[2]" }], [keyImage]));
+}
+
+/**
+ * Maps a public key to a point whose discrete logarithm is unknown, as the shielded pool does:
+ * the first point whose x-coordinate follows the hash of the key
+ *
+ * @param key - The public key
+ * @returns The point
+ */
+function hashToPoint(key: ShieldedPoint): CurvePoint {
+  let x = Fp.create(hexToBigInt(keccak256(encodeAbiParameters([{ type: "uint256[2]" }], [key]))));
+  for (;;) {
+    const beta = Fp.add(Fp.mul(Fp.sqr(x), x), 3n);
+    // the square root the pool computes with the modular exponentiation precompile
+    const y = Fp.pow(beta, (Fp.ORDER + 1n) / 4n);
+    if (Fp.eql(Fp.sqr(y), beta)) {
+      return Point.fromAffine({ x, y });
+    }
+    x = Fp.add(x, 1n);
+  }
+}
+
+/**
+ * Computes the commitments `s·G + c·P` and `s·H(P) + c·I` of a key of a ring
+ *
+ * @param key - The public key `P`
+ * @param keyImage - The key image `I` of the signature
+ * @param c - The challenge of the key
+ * @param s - The response of the key
+ * @returns The two commitments
+ */
+function getCommitments(
+  key: ShieldedPoint,
+  keyImage: CurvePoint,
+  c: bigint,
+  s: bigint,
+): [CurvePoint, CurvePoint] {
+  const point = Point.fromAffine({ x: key[0], y: key[1] });
+  return [
+    Point.BASE.multiplyUnsafe(s).add(point.multiplyUnsafe(c)),
+    hashToPoint(key).multiplyUnsafe(s).add(keyImage.multiplyUnsafe(c)),
+  ];
+}
+
+/**
+ * Hashes the commitments of a key of a ring into the challenge of the next key
+ *
+ * @param message - The signed message
+ * @param l - The first commitment
+ * @param r - The second commitment
+ * @returns The challenge
+ */
+function hashChallenge(message: Hex, l: CurvePoint, r: CurvePoint): bigint {
+  return Fr.create(
+    hexToBigInt(
+      keccak256(
+        encodeAbiParameters(
+          [{ type: "bytes32" }, { type: "uint256[2]" }, { type: "uint256[2]" }],
+          [message, toShieldedPoint(l), toShieldedPoint(r)],
+        ),
+      ),
+    ),
+  );
+}
+
+/**
+ * Reads the affine coordinates of a point, `(0, 0)` for the point at infinity as the precompiles
+ *
+ * @param point - The point
+ * @returns The coordinates
+ */
+function toShieldedPoint(point: CurvePoint): ShieldedPoint {
+  if (point.equals(Point.ZERO)) {
+    return [0n, 0n];
+  }
+  const { x, y } = point.toAffine();
+  return [x, y];
+}
@@ -0,0 +1,76 @@
+import { Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import {
+  checkStealthAddress,
+  computeStealthPrivateKey,
+  generateStealthAddress,
+  generateStealthMetaAddress,
+  parseStealthMetaAddress,
+} from "./stealth";
+
+describe("stealth addresses", () => {
+  const spendingPrivateKey: Hex = `0x${"11".repeat(32)}`;
+  const viewingPrivateKey: Hex = `0x${"22".repeat(32)}`;
+  const metaAddress = generateStealthMetaAddress(spendingPrivateKey, viewingPrivateKey);
+  const { spendingPublicKey } = parseStealthMetaAddress(metaAddress);
+
+  it("encodes the compressed spending and viewing public keys in the meta-address", () => {
+    expect(metaAddress).toMatch(/^st:eth:0x[0-9a-f]{132}$/);
+    expect(parseStealthMetaAddress(metaAddress)).toEqual({
+      spendingPublicKey: `0x${metaAddress.slice(9, 75)}`,
+      viewingPublicKey: `0x${metaAddress.slice(75)}`,
+    });
+  });
+
+  it("rejects invalid meta-addresses", () => {
+    expect(() => parseStealthMetaAddress(metaAddress.replace("st:eth", "st:sol"))).toThrow(
+      "Invalid stealth meta-address",
+    );
+    expect(() => parseStealthMetaAddress(metaAddress.slice(0, -2))).toThrow(
+      "Invalid stealth meta-address",
+    );
+    expect(() => parseStealthMetaAddress(`st:eth:0x04${"00".repeat(65)}`)).toThrow(
+      "Invalid stealth meta-address",
+    );
+  });
+
+  it("derives a fresh address on every call", () => {
+    const first = generateStealthAddress(metaAddress);
+    const second = generateStealthAddress(metaAddress);
+
+    expect(first.stealthAddress).not.toBe(second.stealthAddress);
+    expect(first.ephemeralPublicKey).not.toBe(second.ephemeralPublicKey);
+  });
+
+  it("lets the payee compute the private key of the address", () => {
+    const announcement = generateStealthAddress(metaAddress);
+
+    const privateKey = computeStealthPrivateKey(
+      announcement.ephemeralPublicKey as Hex,
+      viewingPrivateKey,
+      spendingPrivateKey,
+    );
+
+    expect(privateKeyToAccount(privateKey).address).toBe(announcement.stealthAddress);
+  });
+
+  it("only recognizes the addresses of the viewing key", () => {
+    const announcement = generateStealthAddress(metaAddress);
+    const otherAnnouncement = generateStealthAddress(
+      generateStealthMetaAddress(spendingPrivateKey, `0x${"33".repeat(32)}`),
+    );
+
+    expect(checkStealthAddress(announcement, viewingPrivateKey, spendingPublicKey)).toBe(true);
+    expect(checkStealthAddress(otherAnnouncement, viewingPrivateKey, spendingPublicKey)).toBe(
+      false,
+    );
+    expect(
+      checkStealthAddress(
+        { ...announcement, stealthAddress: otherAnnouncement.stealthAddress },
+        viewingPrivateKey,
+        spendingPublicKey,
+      ),
+    ).toBe(false);
+  });
+});
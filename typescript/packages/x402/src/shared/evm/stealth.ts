@@ -0,0 +1,184 @@
+import { secp256k1 } from "@noble/curves/secp256k1";
+import {
+  Address,
+  bytesToHex,
+  concat,
+  Hex,
+  hexToBigInt,
+  hexToBytes,
+  isHex,
+  keccak256,
+  toHex,
+} from "viem";
+import { publicKeyToAddress } from "viem/accounts";
+import { StealthAnnouncement } from "../../types/shared/stealth";
+
+// ERC-5564 stealth meta-addresses of the SECP256k1 scheme, with view tags
+const META_ADDRESS_PREFIX = "st:eth:0x";
+const COMPRESSED_PUBLIC_KEY_LENGTH = 33;
+
+/**
+ * Builds the stealth meta-address that payers derive stealth addresses of a payee from (ERC-5564)
+ *
+ * @param spendingPrivateKey - The private key controlling the funds of the stealth addresses
+ * @param viewingPrivateKey - The private key finding the stealth addresses, which cannot move funds
+ * @returns The meta-address, `st:eth:0x` followed by the compressed spending and viewing public keys
+ */
+export function generateStealthMetaAddress(
+  spendingPrivateKey: Hex,
+  viewingPrivateKey: Hex,
+): string {
+  const publicKeys = concat([
+    secp256k1.getPublicKey(hexToBytes(spendingPrivateKey), true),
+    secp256k1.getPublicKey(hexToBytes(viewingPrivateKey), true),
+  ]);
+  return `${META_ADDRESS_PREFIX}${bytesToHex(publicKeys).slice(2)}`;
+}
+
+/**
+ * Reads the public keys of a stealth meta-address
+ *
+ * @param metaAddress - The meta-address
+ * @returns The compressed spending and viewing public keys
+ * @throws Error if the meta-address is not a SECP256k1 stealth meta-address
+ */
+export function parseStealthMetaAddress(metaAddress: string): {
+  spendingPublicKey: Hex;
+  viewingPublicKey: Hex;
+} {
+  const keys = metaAddress.slice(META_ADDRESS_PREFIX.length - 2);
+  if (
+    !metaAddress.startsWith(META_ADDRESS_PREFIX) ||
+    !isHex(keys) ||
+    keys.length !== 2 + 4 * COMPRESSED_PUBLIC_KEY_LENGTH
+  ) {
+    throw new Error("Invalid stealth meta-address");
+  }
+
+  const spendingPublicKey = `0x${keys.slice(2, 2 + 2 * COMPRESSED_PUBLIC_KEY_LENGTH)}` as Hex;
+  const viewingPublicKey = `0x${keys.slice(2 + 2 * COMPRESSED_PUBLIC_KEY_LENGTH)}` as Hex;
+  try {
+    secp256k1.ProjectivePoint.fromHex(spendingPublicKey.slice(2)).assertValidity();
+    secp256k1.ProjectivePoint.fromHex(viewingPublicKey.slice(2)).assertValidity();
+  } catch {
+    throw new Error("Invalid stealth meta-address");
+  }
+  return { spendingPublicKey, viewingPublicKey };
+}
+
+/**
+ * Derives a one-time stealth address of the payee of a meta-address
+ *
+ * The address is the payee's spending key shifted by a secret shared with its viewing key through
+ * a fresh ephemeral key, so only the payee can find it and move its funds.
+ *
+ * @param metaAddress - The stealth meta-address of the payee
+ * @param ephemeralPrivateKey - The ephemeral key, random by default
+ * @returns The stealth address and what the payee needs to find it
+ * @throws Error if the meta-address is invalid
+ */
+export function generateStealthAddress(
+  metaAddress: string,
+  ephemeralPrivateKey: Hex = bytesToHex(secp256k1.utils.randomPrivateKey()),
+): Omit<StealthAnnouncement, "createdAt"> {
+  const { spendingPublicKey, viewingPublicKey } = parseStealthMetaAddress(metaAddress);
+  const sharedSecret = hashSharedSecret(
+    secp256k1.getSharedSecret(hexToBytes(ephemeralPrivateKey), hexToBytes(viewingPublicKey), true),
+  );
+
+  return {
+    stealthAddress: getStealthAddress(spendingPublicKey, sharedSecret),
+    ephemeralPublicKey: bytesToHex(secp256k1.getPublicKey(hexToBytes(ephemeralPrivateKey), true)),
+    viewTag: getViewTag(sharedSecret),
+  };
+}
+
+/**
+ * Checks that a stealth address belongs to the payee of a viewing key
+ *
+ * @param announcement - The stealth address and its ephemeral public key
+ * @param viewingPrivateKey - The private viewing key of the payee
+ * @param spendingPublicKey - The compressed public spending key of the payee
+ * @returns True if the stealth address was derived from the payee's meta-address
+ */
+export function checkStealthAddress(
+  announcement: Omit<StealthAnnouncement, "createdAt">,
+  viewingPrivateKey: Hex,
+  spendingPublicKey: Hex,
+): boolean {
+  const sharedSecret = getSharedSecret(announcement.ephemeralPublicKey as Hex, viewingPrivateKey);
+  // the view tag rules out most other addresses without deriving their public key
+  if (getViewTag(sharedSecret) !== announcement.viewTag) {
+    return false;
+  }
+  return (
+    getStealthAddress(spendingPublicKey, sharedSecret).toLowerCase() ===
+    announcement.stealthAddress.toLowerCase()
+  );
+}
+
+/**
+ * Computes the private key of a stealth address, which moves its funds
+ *
+ * @param ephemeralPublicKey - The ephemeral public key the address was derived with
+ * @param viewingPrivateKey - The private viewing key of the payee
+ * @param spendingPrivateKey - The private spending key of the payee
+ * @returns The private key of the stealth address
+ */
+export function computeStealthPrivateKey(
+  ephemeralPublicKey: Hex,
+  viewingPrivateKey: Hex,
+  spendingPrivateKey: Hex,
+): Hex {
+  const sharedSecret = getSharedSecret(ephemeralPublicKey, viewingPrivateKey);
+  const privateKey =
+    (hexToBigInt(spendingPrivateKey) + hexToBigInt(sharedSecret)) % secp256k1.CURVE.n;
+  return toHex(privateKey, { size: 32 });
+}
+
+/**
+ * Computes the hashed secret shared by an ephemeral key and a viewing key, from the viewing side
+ *
+ * @param ephemeralPublicKey - The compressed ephemeral public key
+ * @param viewingPrivateKey - The private viewing key
+ * @returns The hashed shared secret
+ */
+function getSharedSecret(ephemeralPublicKey: Hex, viewingPrivateKey: Hex): Hex {
+  return hashSharedSecret(
+    secp256k1.getSharedSecret(hexToBytes(viewingPrivateKey), hexToBytes(ephemeralPublicKey), true),
+  );
+}
+
+/**
+ * Hashes a shared secret, as ERC-5564 derives stealth keys and view tags from its hash
+ *
+ * @param sharedSecret - The compressed shared point
+ * @returns The hashed shared secret
+ */
+function hashSharedSecret(sharedSecret: Uint8Array): Hex {
+  return keccak256(sharedSecret);
+}
+
+/**
+ * Computes the view tag of a hashed shared secret
+ *
+ * @param sharedSecret - The hashed shared secret
+ * @returns The first byte of the hashed shared secret
+ */
+function getViewTag(sharedSecret: Hex): number {
+  return parseInt(sharedSecret.slice(2, 4), 16);
+}
+
+/**
+ * Computes a stealth address from the spending key it is derived from
+ *
+ * @param spendingPublicKey - The compressed public spending key of the payee
+ * @param sharedSecret - The hashed shared secret
+ * @returns The address of the spending public key shifted by the shared secret
+ */
+function getStealthAddress(spendingPublicKey: Hex, sharedSecret: Hex): Address {
+  const stealthPublicKey = secp256k1.ProjectivePoint.fromHex(spendingPublicKey.slice(2)).add(
+    secp256k1.ProjectivePoint.BASE.multiply(hexToBigInt(sharedSecret) % secp256k1.CURVE.n),
+  );
+  return publicKeyToAddress(bytesToHex(stealthPublicKey.toRawBytes(false)));
+}
@@ -1,5 +1,16 @@
 export * from "./json";
+export * from "./accessToken";
 export * from "./base64";
+export * from "./channel";
 export * from "./network";
 export * from "./middleware";
+export * from "./paymentStore";
+export * from "./privacy";
+export * from "./receipt";
+export * from "./refund";
+export * from "./requestBinding";
+export * from "./session";
+export * from "./settlementQueue";
+export * from "./shielded";
+export * from "./stealth";
 export * as svm from "./svm";
@@ -1,11 +1,15 @@
+import { address } from "@solana/kit";
 import { describe, expect, it } from "vitest";
 import {
   computeRoutePatterns,
+  filterMatchingPaymentRequirements,
   findMatchingRoute,
   getDefaultAsset,
+  getPaymentOptions,
   processPriceToAtomicAmount,
 } from "./middleware";
 import type { RoutesConfig, Network } from "../types";
+import type { PaymentPayload, PaymentRequirements } from "../types/verify";
 
 describe("computeRoutePatterns", () => {
   it("should handle simple string price routes", () => {
@@ -304,6 +308,15 @@ describe("getDefaultAsset", () => {
     });
   });
 
+  it("should return Sui testnet USDC coin type", () => {
+    const result = getDefaultAsset("sui-testnet");
+
+    expect(result).toEqual({
+      address: "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC",
+      decimals: 6,
+    });
+  });
+
   it("should return Base Sepolia USDC asset details", () => {
     const result = getDefaultAsset("base-sepolia");
 
@@ -443,3 +456,84 @@ describe("processPriceToAtomicAmount", () => {
     });
   });
 });
+
+describe("getPaymentOptions", () => {
+  it("should wrap a single price and network in one option", () => {
+    expect(getPaymentOptions({ price: "$0.01", network: "base-sepolia" })).toEqual([
+      { price: "$0.01", network: "base-sepolia", payTo: undefined },
+    ]);
+  });
+
+  it("should return the accepted payment options in order", () => {
+    const accepts = [
+      { price: "$0.01", network: "base" as const },
+      {
+        price: "$0.01",
+        network: "solana" as const,
+        payTo: address("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin"),
+      },
+    ];
+    expect(getPaymentOptions({ accepts })).toEqual(accepts);
+  });
+});
+
+describe("filterMatchingPaymentRequirements", () => {
+  const payTo = "0x1234567890123456789012345678901234567890";
+  const otherPayTo = "0x0987654321098765432109876543210987654321";
+
+  const requirement = (overrides: Partial<PaymentRequirements>): PaymentRequirements => ({
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000",
+    resource: "https://api.example.com/weather",
+    description: "",
+    mimeType: "application/json",
+    payTo,
+    maxTimeoutSeconds: 300,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    ...overrides,
+  });
+
+  const payment: PaymentPayload = {
+    x402Version: 1,
+    scheme: "exact",
+    network: "base-sepolia",
+    payload: {
+      signature: "0x1234",
+      authorization: {
+        from: "0x1111111111111111111111111111111111111111",
+        to: payTo,
+        value: "1000",
+        validAfter: "0",
+        validBefore: "9999999999",
+        nonce: `0x${"ab".repeat(32)}`,
+      },
+    },
+  };
+
+  it("should only keep requirements with the payment's scheme and network", () => {
+    const matching = requirement({});
+    const result = filterMatchingPaymentRequirements(
+      [requirement({ network: "base" }), matching, requirement({ network: "solana" })],
+      payment,
+    );
+    expect(result).toEqual([matching]);
+  });
+
+  it("should order requirements that agree with the authorization first", () => {
+    const tooExpensive = requirement({ maxAmountRequired: "2000" });
+    const otherRecipient = requirement({ payTo: otherPayTo });
+    const agreeing = requirement({});
+    const result = filterMatchingPaymentRequirements(
+      [tooExpensive, otherRecipient, agreeing],
+      payment,
+    );
+    expect(result).toEqual([agreeing, tooExpensive, otherRecipient]);
+  });
+
+  it("should return no requirements when none match", () => {
+    expect(filterMatchingPaymentRequirements([requirement({ network: "base" })], payment)).toEqual(
+      [],
+    );
+  });
+});
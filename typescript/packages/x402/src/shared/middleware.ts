@@ -8,10 +8,13 @@ import {
   ERC20TokenAmount,
   PaymentRequirements,
   PaymentPayload,
+  PaymentOption,
   SPLTokenAmount,
+  ExactEvmPayload,
 } from "../types";
 import { RoutesConfig } from "../types";
 import { safeBase64Decode } from "./base64";
+import { SuiUsdcCoinTypes } from "../types/shared/sui";
 import { getUsdcChainConfigForChain } from "./evm";
 import { getNetworkId } from "./network";
 
@@ -122,6 +125,12 @@ export function findMatchingRoute(
  * @returns The default asset
  */
 export function getDefaultAsset(network: Network) {
+  // sui coins are identified by their type rather than by a chain
+  const suiUsdc = SuiUsdcCoinTypes[network];
+  if (suiUsdc) {
+    return { address: suiUsdc, decimals: 6 };
+  }
+
   const chainId = getNetworkId(network);
   const usdc = getUsdcChainConfigForChain(chainId);
   if (!usdc) {
@@ -129,10 +138,10 @@ export function getDefaultAsset(network: Network) {
   }
   return {
     address: usdc.usdcAddress,
-    decimals: 6,
+    decimals: usdc.usdcDecimals ?? 6,
     eip712: {
       name: usdc.usdcName,
-      version: "2",
+      version: usdc.usdcVersion ?? "2",
     },
   };
 }
@@ -177,6 +186,61 @@ export function processPriceToAtomicAmount(
   };
 }
 
+/**
+ * Gets the payment options accepted by a route
+ *
+ * @param routeConfig - The route config to get the payment options for
+ * @returns The payment options, in the order they are advertised
+ */
+export function getPaymentOptions(routeConfig: RouteConfig): PaymentOption[] {
+  if ("accepts" in routeConfig) {
+    return routeConfig.accepts;
+  }
+  const { scheme, price, network, payTo } = routeConfig;
+  return [{ scheme, price, network, payTo }];
+}
+
+/**
+ * Finds all payment requirements the given payment could be fulfilling
+ *
+ * Requirements are matched on scheme and network, and for version 2 payments on the recipient,
+ * asset and amount of the accepted requirements. When several requirements match, the ones whose
+ * recipient and amount agree with the payment's authorization come first.
+ *
+ * @param paymentRequirements - The payment requirements to search through
+ * @param payment - The payment to match against
+ * @returns The matching payment requirements, most likely match first
+ */
+export function filterMatchingPaymentRequirements(
+  paymentRequirements: PaymentRequirements[],
+  payment: PaymentPayload,
+): PaymentRequirements[] {
+  // version 2 payments name the payment requirements they were created for
+  const accepted = payment.accepted;
+  const matches = paymentRequirements.filter(
+    value =>
+      value.scheme === payment.scheme &&
+      value.network === payment.network &&
+      (!accepted ||
+        (value.payTo.toLowerCase() === accepted.payTo.toLowerCase() &&
+          value.asset.toLowerCase() === accepted.asset.toLowerCase() &&
+          value.maxAmountRequired === accepted.maxAmountRequired)),
+  );
+
+  const authorization = (payment.payload as Partial<ExactEvmPayload> | undefined)?.authorization;
+  if (!authorization) {
+    return matches;
+  }
+
+  const agreesWithAuthorization = (value: PaymentRequirements) =>
+    value.payTo.toLowerCase() === authorization.to.toLowerCase() &&
+    BigInt(authorization.value) >= BigInt(value.maxAmountRequired);
+  return [
+    ...matches.filter(agreesWithAuthorization),
+    ...matches.filter(value => !agreesWithAuthorization(value)),
+  ];
+}
+
 /**
  * Finds the matching payment requirements for the given payment
  *
@@ -187,10 +251,8 @@ export function processPriceToAtomicAmount(
 export function findMatchingPaymentRequirements(
   paymentRequirements: PaymentRequirements[],
   payment: PaymentPayload,
-) {
-  return paymentRequirements.find(
-    value => value.scheme === payment.scheme && value.network === payment.network,
-  );
+): PaymentRequirements | undefined {
+  return filterMatchingPaymentRequirements(paymentRequirements, payment)[0];
 }
 
 /**
@@ -206,5 +268,6 @@ export function decodeXPaymentResponse(header: string) {
     transaction: Hex;
     network: Network;
     payer: Address;
+    blockNumber?: string;
   };
 }
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createInMemoryPaymentStore, createRedisPaymentStore } from "./paymentStore";
+
+describe("createInMemoryPaymentStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("claims each payment id once", async () => {
+    const store = createInMemoryPaymentStore();
+
+    expect(await store.claim("payment", 60)).toBe(true);
+    expect(await store.claim("payment", 60)).toBe(false);
+    expect(await store.claim("other-payment", 60)).toBe(true);
+  });
+
+  it("allows released payment ids to be claimed again", async () => {
+    const store = createInMemoryPaymentStore();
+
+    await store.claim("payment", 60);
+    await store.release("payment");
+
+    expect(await store.claim("payment", 60)).toBe(true);
+  });
+
+  it("forgets payment ids once they expire", async () => {
+    vi.useFakeTimers();
+    const store = createInMemoryPaymentStore();
+
+    await store.claim("payment", 60);
+    vi.advanceTimersByTime(61_000);
+
+    expect(await store.claim("payment", 60)).toBe(true);
+  });
+
+  it("drops expired payment ids claimed after ids that are still valid", async () => {
+    vi.useFakeTimers();
+    const deleteSpy = vi.spyOn(Map.prototype, "delete");
+    const store = createInMemoryPaymentStore();
+
+    await store.claim("long-lived", 3600);
+    await store.claim("payment", 60);
+    vi.advanceTimersByTime(61_000);
+    await store.claim("other-payment", 60);
+
+    expect(deleteSpy).toHaveBeenCalledWith("payment");
+    expect(deleteSpy).not.toHaveBeenCalledWith("long-lived");
+    deleteSpy.mockRestore();
+  });
+});
+
+describe("createRedisPaymentStore", () => {
+  it("claims payment ids with SET NX EX", async () => {
+    const client = {
+      set: vi.fn().mockResolvedValueOnce("OK").mockResolvedValueOnce(null),
+      del: vi.fn().mockResolvedValue(1),
+    };
+    const store = createRedisPaymentStore(client);
+
+    expect(await store.claim("payment", 60)).toBe(true);
+    expect(await store.claim("payment", 60)).toBe(false);
+    await store.release("payment");
+
+    expect(client.set).toHaveBeenCalledWith("x402:payment:payment", "1", { NX: true, EX: 60 });
+    expect(client.del).toHaveBeenCalledWith("x402:payment:payment");
+  });
+});
@@ -0,0 +1,82 @@
+import { PaymentStore } from "../types/shared/paymentStore";
+
+/**
+ * The subset of a Redis client used by the Redis payment store
+ *
+ * Matches the `set` and `del` commands of the `redis` package; other clients can be adapted with a
+ * small wrapper.
+ */
+export interface RedisClientLike {
+  set(key: string, value: string, options: { NX: true; EX: number }): Promise<string | null>;
+  del(key: string): Promise<number>;
+}
+
+// how often the in-memory store drops expired payment ids, in milliseconds
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Creates a payment store that keeps payment ids in memory
+ *
+ * The store only protects the process it lives in; use a shared store such as Redis when
+ * running several instances.
+ *
+ * @returns The in-memory payment store
+ */
+export function createInMemoryPaymentStore(): PaymentStore {
+  // payment ids and when they expire, in milliseconds
+  const expirations = new Map<string, number>();
+  let nextSweepAt = 0;
+
+  return {
+    async claim(id: string, ttlSeconds: number): Promise<boolean> {
+      const now = Date.now();
+
+      // drop every expired id now and then, as ids expire in no particular order
+      if (now >= nextSweepAt) {
+        for (const [storedId, expiresAt] of expirations) {
+          if (expiresAt <= now) {
+            expirations.delete(storedId);
+          }
+        }
+        nextSweepAt = now + SWEEP_INTERVAL_MS;
+      }
+
+      const expiresAt = expirations.get(id);
+      if (expiresAt !== undefined && expiresAt > now) {
+        return false;
+      }
+      expirations.set(id, now + ttlSeconds * 1000);
+      return true;
+    },
+
+    async release(id: string): Promise<void> {
+      expirations.delete(id);
+    },
+  };
+}
+
+/**
+ * Creates a payment store backed by Redis, shared by every process connected to it
+ *
+ * @param client - The connected Redis client
+ * @param prefix - The prefix of the keys written by the store
+ * @returns The Redis payment store
+ */
+export function createRedisPaymentStore(
+  client: RedisClientLike,
+  prefix = "x402:payment:",
+): PaymentStore {
+  return {
+    async claim(id: string, ttlSeconds: number): Promise<boolean> {
+      const result = await client.set(`${prefix}${id}`, "1", {
+        NX: true,
+        EX: Math.max(1, Math.ceil(ttlSeconds)),
+      });
+      return result !== null;
+    },
+
+    async release(id: string): Promise<void> {
+      await client.del(`${prefix}${id}`);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createPayerPrivacy, hashPayer } from "./privacy";
+
+describe("payer privacy", () => {
+  const payer = "0x1111111111111111111111111111111111111111";
+  const solanaPayer = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("hashes the checksummed and lowercase forms of an EVM address the same", () => {
+    const checksummed = "0xAbCdEf0123456789aBcDeF0123456789AbCdEf01";
+
+    expect(hashPayer(checksummed, "secret")).toBe(hashPayer(checksummed.toLowerCase(), "secret"));
+    expect(hashPayer(checksummed, "secret")).not.toBe(hashPayer(checksummed, "other secret"));
+  });
+
+  it("returns payers as they are without a privacy policy", () => {
+    expect(createPayerPrivacy().protect(payer)).toBe(payer);
+  });
+
+  it("hashes the addresses of logged errors", () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const privacy = createPayerPrivacy({ payer: "hash", hashSecret: "secret" });
+
+    privacy.logError(`Failed to refund ${payer} and ${solanaPayer}:`, { payer });
+
+    expect(consoleError).toHaveBeenCalledWith(
+      `Failed to refund ${hashPayer(payer, "secret")} and ${hashPayer(solanaPayer, "secret")}:`,
+      "[object]",
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { Hex, isAddress, keccak256, toBytes } from "viem";
+import { PrivacyConfig } from "../types/shared/privacy";
+
+// the addresses found in log lines, EVM addresses and base58 Solana addresses
+const ADDRESS_PATTERN = /\b0x[0-9a-fA-F]{40}\b|\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g;
+
+/**
+ * Applies a privacy policy to the payer addresses leaving the server
+ */
+export type PayerPrivacy = {
+  /** Redacts or hashes a payer address, or returns it as is without a privacy policy */
+  protect(payer?: string): string | undefined;
+  /** Logs an error, with the addresses of its message redacted or hashed under a privacy policy */
+  logError(...data: unknown[]): void;
+};
+
+/**
+ * Hashes a payer address with a secret
+ *
+ * EVM addresses are case-insensitive, so their checksummed and lowercase forms hash the same.
+ *
+ * @param payer - The payer address
+ * @param secret - The secret keying the hash
+ * @returns The keccak256 hash of the secret and the address
+ */
+export function hashPayer(payer: string, secret: string): Hex {
+  const normalized = isAddress(payer, { strict: false }) ? payer.toLowerCase() : payer;
+  return keccak256(toBytes(`${secret}:${normalized}`));
+}
+
+/**
+ * Creates the functions applying a privacy policy to payer addresses
+ *
+ * Under a privacy policy, logged errors are reduced to their stack trace, or their type for values
+ * that are not errors, so that e.g. payment payloads are never logged as they are.
+ *
+ * @param privacy - The privacy policy, if any
+ * @returns The functions protecting payer addresses in responses and logs
+ * @throws Error if the policy hashes payer addresses without a secret
+ */
+export function createPayerPrivacy(privacy?: PrivacyConfig): PayerPrivacy {
+  if (!privacy) {
+    return { protect: payer => payer, logError: console.error };
+  }
+  const { hashSecret } = privacy;
+  if (privacy.payer === "hash" && !hashSecret) {
+    throw new Error("A hashSecret is required to hash payer addresses");
+  }
+
+  /**
+   * Redacts or hashes a payer address
+   *
+   * @param payer - The payer address
+   * @returns The hash of the address, or undefined if addresses are redacted
+   */
+  function protect(payer?: string): string | undefined {
+    return payer !== undefined && hashSecret && privacy?.payer === "hash"
+      ? hashPayer(payer, hashSecret)
+      : undefined;
+  }
+
+  return {
+    protect,
+    logError(...data) {
+      console.error(
+        ...data.map(value => {
+          const text =
+            value instanceof Error
+              ? (value.stack ?? String(value))
+              : typeof value === "string"
+                ? value
+                : `[${typeof value}]`;
+          return text.replace(ADDRESS_PATTERN, address => protect(address) ?? "[redacted]");
+        }),
+      );
+    },
+  };
+}
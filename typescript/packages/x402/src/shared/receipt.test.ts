@@ -0,0 +1,86 @@
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+import { PaymentRequirements } from "../types/verify";
+import {
+  decodePaymentReceipt,
+  hashRequestBody,
+  normalizeRequestUrl,
+  signPaymentReceipt,
+  verifyPaymentReceipt,
+} from "./receipt";
+
+describe("payment receipts", () => {
+  const privateKey = generatePrivateKey();
+  const signer = privateKeyToAccount(privateKey).address;
+  const request = {
+    method: "POST",
+    url: "https://api.example.com/weather?city=paris",
+    bodyHash: hashRequestBody('{"days":3}'),
+  };
+  const receipt = {
+    request,
+    paymentRequirements: { scheme: "exact", network: "base-sepolia" } as PaymentRequirements,
+    payer: "0x1111111111111111111111111111111111111111",
+    network: "base-sepolia" as const,
+    transaction: `0x${"ab".repeat(32)}`,
+    blockNumber: "42",
+    timestamp: 1700000000,
+  };
+
+  it("verifies receipts signed by the expected signer", async () => {
+    const token = await signPaymentReceipt(receipt, privateKey);
+
+    expect(await verifyPaymentReceipt(token, { signer })).toEqual({ ...receipt, signer });
+    expect(decodePaymentReceipt(token)).toEqual({ ...receipt, signer });
+  });
+
+  it("rejects receipts signed by another key", async () => {
+    const token = await signPaymentReceipt(receipt, generatePrivateKey());
+
+    expect(await verifyPaymentReceipt(token, { signer })).toBeUndefined();
+  });
+
+  it("rejects receipts whose content was changed", async () => {
+    const [, signature] = (await signPaymentReceipt(receipt, privateKey)).split(".");
+    const forged = await signPaymentReceipt({ ...receipt, transaction: "0xdef" }, privateKey);
+
+    expect(
+      await verifyPaymentReceipt(`${forged.split(".")[0]}.${signature}`, { signer }),
+    ).toBeUndefined();
+  });
+
+  it("checks the request the receipt was issued for", async () => {
+    const token = await signPaymentReceipt(receipt, privateKey);
+    const expected = { method: "post", url: request.url, body: '{"days":3}' };
+
+    expect(await verifyPaymentReceipt(token, { signer, request: expected })).toBeDefined();
+    expect(
+      await verifyPaymentReceipt(token, { signer, request: { ...expected, body: '{"days":7}' } }),
+    ).toBeUndefined();
+    expect(
+      await verifyPaymentReceipt(token, { signer, request: { ...expected, url: "https://x.io" } }),
+    ).toBeUndefined();
+  });
+
+  it("compares the URLs of requests like request binding does", async () => {
+    const token = await signPaymentReceipt(
+      { ...receipt, request: { ...request, url: "https://API.example.com:443" } },
+      privateKey,
+    );
+    const expected = { method: "POST", url: "https://api.example.com/" };
+
+    expect(await verifyPaymentReceipt(token, { signer, request: expected })).toBeDefined();
+    expect(normalizeRequestUrl("https://API.example.com:443")).toBe(
+      normalizeRequestUrl(expected.url),
+    );
+    expect(
+      await verifyPaymentReceipt(token, { signer, request: { ...expected, url: "not a url" } }),
+    ).toBeUndefined();
+  });
+
+  it("does not hash empty bodies", () => {
+    expect(hashRequestBody("")).toBeUndefined();
+    expect(hashRequestBody(new Uint8Array())).toBeUndefined();
+    expect(hashRequestBody("{}")).toBe(hashRequestBody(new TextEncoder().encode("{}")));
+  });
+});
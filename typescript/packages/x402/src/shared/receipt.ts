@@ -0,0 +1,123 @@
+import { Hex, isAddressEqual, recoverMessageAddress, sha256, toBytes } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { PaymentReceipt, VerifyReceiptOptions } from "../types/shared/receipt";
+import { fromBase64Url, toBase64Url } from "./base64";
+
+/**
+ * Signs a payment receipt
+ *
+ * Receipts are the base64url encoded JSON receipt and its EIP-191 signature, joined by a dot, so
+ * that anyone knowing the address of the signing key can verify them.
+ *
+ * @param receipt - The receipt to sign, without its signer
+ * @param privateKey - The private key to sign the receipt with
+ * @returns The signed receipt
+ */
+export async function signPaymentReceipt(
+  receipt: Omit<PaymentReceipt, "signer">,
+  privateKey: Hex,
+): Promise<string> {
+  const account = privateKeyToAccount(privateKey);
+  const payload = toBase64Url(
+    new TextEncoder().encode(JSON.stringify({ ...receipt, signer: account.address })),
+  );
+  const signature = await account.signMessage({ message: payload });
+  return `${payload}.${signature}`;
+}
+
+/**
+ * Verifies the signature of a payment receipt and, optionally, the request it was issued for
+ *
+ * @param token - The signed receipt, as returned in the `X-PAYMENT-RECEIPT` header
+ * @param options - The expected signer and request of the receipt
+ * @returns The receipt, or undefined if it is malformed, forged or issued for another request
+ */
+export async function verifyPaymentReceipt(
+  token: string,
+  options: VerifyReceiptOptions,
+): Promise<PaymentReceipt | undefined> {
+  const [payload, signature] = token.split(".");
+  const receipt = decodePaymentReceipt(token);
+  if (!receipt || !signature?.startsWith("0x")) {
+    return undefined;
+  }
+
+  try {
+    const signer = await recoverMessageAddress({ message: payload, signature: signature as Hex });
+    const trusted = [options.signer].flat();
+    if (
+      !isAddressEqual(signer, receipt.signer) ||
+      !trusted.some(address => isAddressEqual(address, signer))
+    ) {
+      return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+
+  const { request } = options;
+  if (request) {
+    try {
+      if (
+        request.method.toUpperCase() !== receipt.request.method.toUpperCase() ||
+        normalizeRequestUrl(request.url) !== normalizeRequestUrl(receipt.request.url)
+      ) {
+        return undefined;
+      }
+    } catch {
+      return undefined;
+    }
+    if (request.body !== undefined && hashRequestBody(request.body) !== receipt.request.bodyHash) {
+      return undefined;
+    }
+  }
+  return receipt;
+}
+
+/**
+ * Reads a payment receipt without verifying it
+ *
+ * @param token - The signed receipt
+ * @returns The receipt, or undefined if it is malformed
+ */
+export function decodePaymentReceipt(token: string): PaymentReceipt | undefined {
+  try {
+    const receipt = JSON.parse(new TextDecoder().decode(fromBase64Url(token.split(".")[0])));
+    if (
+      typeof receipt?.signer !== "string" ||
+      typeof receipt?.transaction !== "string" ||
+      typeof receipt?.request?.method !== "string" ||
+      typeof receipt?.request?.url !== "string"
+    ) {
+      return undefined;
+    }
+    return receipt as PaymentReceipt;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hashes the body of a request for its payment receipt
+ *
+ * @param body - The body of the request
+ * @returns The SHA-256 hash of the body, or undefined if the body is missing or empty
+ */
+export function hashRequestBody(body?: string | Uint8Array): Hex | undefined {
+  if (body === undefined || body.length === 0) {
+    return undefined;
+  }
+  return sha256(typeof body === "string" ? toBytes(body) : body);
+}
+
+/**
+ * Normalizes the URL of a request, so that e.g. `https://API.example.com:443` and
+ * `https://api.example.com/` compare and hash the same
+ *
+ * @param url - The absolute URL of the request
+ * @returns The normalized URL
+ * @throws TypeError if the URL is invalid
+ */
+export function normalizeRequestUrl(url: string): string {
+  return new URL(url).href;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { RefundRecord } from "../types/shared/refund";
+import { createInMemoryRefundStore } from "./refund";
+
+describe("createInMemoryRefundStore", () => {
+  const refund: RefundRecord = {
+    network: "base-sepolia",
+    transaction: `0x${"ab".repeat(32)}`,
+    payer: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+    amount: "1000",
+    status: "pending",
+    createdAt: 0,
+  };
+
+  it("records one refund per settlement", async () => {
+    const store = createInMemoryRefundStore();
+
+    expect(await store.create(refund)).toBe(true);
+    expect(await store.create({ ...refund, transaction: refund.transaction.toUpperCase() })).toBe(
+      false,
+    );
+    expect(await store.create({ ...refund, network: "base" })).toBe(true);
+  });
+
+  it("links the settlement to its refund transaction", async () => {
+    const store = createInMemoryRefundStore();
+    await store.create(refund);
+
+    await store.update({
+      ...refund,
+      status: "refunded",
+      refundTransaction: `0x${"cd".repeat(32)}`,
+    });
+
+    expect(await store.get("base-sepolia", refund.transaction)).toEqual({
+      ...refund,
+      status: "refunded",
+      refundTransaction: `0x${"cd".repeat(32)}`,
+    });
+    expect(await store.create(refund)).toBe(false);
+  });
+
+  it("attempts failed refunds again only when they were never broadcast", async () => {
+    const store = createInMemoryRefundStore();
+    await store.create(refund);
+    await store.update({
+      ...refund,
+      status: "failed",
+      error: "insufficient_funds",
+      broadcast: true,
+    });
+    expect(await store.create(refund)).toBe(false);
+
+    await store.update({ ...refund, status: "failed", error: "insufficient_funds" });
+    expect(await store.create(refund)).toBe(false);
+
+    await store.update({
+      ...refund,
+      status: "failed",
+      error: "insufficient_funds",
+      broadcast: false,
+    });
+    expect(await store.create(refund)).toBe(true);
+  });
+
+  it("sums the settlements of a payer in a transaction", async () => {
+    const store = createInMemoryRefundStore();
+    const settlement = {
+      network: refund.network,
+      transaction: refund.transaction,
+      payer: refund.payer,
+      amount: "1000",
+    };
+
+    await store.recordSettlement(settlement);
+    await store.recordSettlement({
+      ...settlement,
+      payer: refund.payer.toLowerCase(),
+      amount: "500",
+    });
+    await store.recordSettlement({ ...settlement, network: "base" });
+
+    expect(
+      await store.getSettlement(refund.network, refund.transaction.toUpperCase(), refund.payer),
+    ).toEqual({ ...settlement, amount: "1500" });
+    expect(
+      await store.getSettlement(refund.network, refund.transaction, `0x${"1".repeat(40)}`),
+    ).toBe(undefined);
+  });
+});
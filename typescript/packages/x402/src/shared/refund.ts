@@ -0,0 +1,91 @@
+import { Network } from "../types/shared/network";
+import { RefundRecord, RefundStore, SettlementRecord } from "../types/shared/refund";
+import { PaymentRequirements, SettleResponse } from "../types/verify";
+
+/**
+ * Builds the payment requirements of the refund of a settled payment
+ *
+ * Refunds are `exact` payments of the asset of the settled payment, on the same network, to its
+ * payer. The resource server signs a payment for these requirements with its refund wallet and
+ * the facilitator rebuilds them to verify and settle it.
+ *
+ * @param paymentRequirements - The payment requirements the payment was settled for
+ * @param settleResponse - The settlement of the payment
+ * @param amount - The amount to refund, defaults to `maxAmountRequired`
+ * @returns The payment requirements of the refund
+ * @throws Error if the settlement does not name its payer
+ */
+export function getRefundRequirements(
+  paymentRequirements: PaymentRequirements,
+  settleResponse: SettleResponse,
+  amount: string = paymentRequirements.maxAmountRequired,
+): PaymentRequirements {
+  if (!settleResponse.payer) {
+    throw new Error("The settlement does not name the payer to refund");
+  }
+
+  return {
+    ...paymentRequirements,
+    scheme: "exact",
+    payTo: settleResponse.payer,
+    maxAmountRequired: amount,
+    description: `Refund of ${settleResponse.transaction}`,
+    // the refund is not paid with a request, so it cannot be bound to one
+    extra: { ...paymentRequirements.extra, requestBinding: undefined },
+  };
+}
+
+/**
+ * Creates a refund store that keeps refunds in memory
+ *
+ * Settlements and refunds are lost on restart, after which settled payments could be refunded
+ * again, or not at all; use a durable store in production.
+ *
+ * @returns The in-memory refund store
+ */
+export function createInMemoryRefundStore(): RefundStore {
+  const refunds = new Map<string, RefundRecord>();
+  const settlements = new Map<string, SettlementRecord>();
+  const key = (network: Network, transaction: string) => `${network}:${transaction.toLowerCase()}`;
+  const settlementKey = (network: Network, transaction: string, payer: string) =>
+    `${key(network, transaction)}:${payer.toLowerCase()}`;
+
+  return {
+    async recordSettlement(settlement: SettlementRecord): Promise<void> {
+      const id = settlementKey(settlement.network, settlement.transaction, settlement.payer);
+      const existing = settlements.get(id);
+      settlements.set(id, {
+        ...(existing ?? settlement),
+        amount: (BigInt(existing?.amount ?? 0) + BigInt(settlement.amount)).toString(),
+      });
+    },
+
+    async getSettlement(
+      network: Network,
+      transaction: string,
+      payer: string,
+    ): Promise<SettlementRecord | undefined> {
+      const settlement = settlements.get(settlementKey(network, transaction, payer));
+      return settlement && { ...settlement };
+    },
+
+    async create(refund: RefundRecord): Promise<boolean> {
+      // failed refunds may only be attempted again when they were never broadcast
+      const existing = refunds.get(key(refund.network, refund.transaction));
+      if (existing && !(existing.status === "failed" && existing.broadcast === false)) {
+        return false;
+      }
+      refunds.set(key(refund.network, refund.transaction), { ...refund });
+      return true;
+    },
+
+    async update(refund: RefundRecord): Promise<void> {
+      refunds.set(key(refund.network, refund.transaction), { ...refund });
+    },
+
+    async get(network: Network, transaction: string): Promise<RefundRecord | undefined> {
+      const refund = refunds.get(key(network, transaction));
+      return refund && { ...refund };
+    },
+  };
+}
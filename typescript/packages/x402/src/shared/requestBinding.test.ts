@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { PaymentRequirements } from "../types/verify";
+import { getRequestBindingHash, hashPaymentRequest } from "./requestBinding";
+
+describe("request binding", () => {
+  const request = { method: "post", url: "https://api.example.com/search?q=x402", body: "{}" };
+
+  it("hashes the method, URL and body of a request", () => {
+    const hash = hashPaymentRequest(request);
+
+    expect(hashPaymentRequest({ ...request, method: "POST" })).toBe(hash);
+    expect(
+      hashPaymentRequest({ ...request, url: "https://api.example.com/search?q=x403" }),
+    ).not.toBe(hash);
+    expect(hashPaymentRequest({ ...request, body: "[]" })).not.toBe(hash);
+    expect(hashPaymentRequest({ method: "GET", url: "https://api.example.com" })).toBe(
+      hashPaymentRequest({ method: "GET", url: "https://api.example.com/", body: "" }),
+    );
+    expect(hashPaymentRequest({ method: "GET", url: "https://API.example.com:443/" })).toBe(
+      hashPaymentRequest({ method: "GET", url: "https://api.example.com" }),
+    );
+  });
+
+  it("only binds payments when the payment requirements ask for it", () => {
+    const paymentRequirements = { scheme: "exact", network: "base" } as PaymentRequirements;
+    const binding = { ...paymentRequirements, extra: { requestBinding: true } };
+
+    expect(getRequestBindingHash(paymentRequirements, request)).toBeUndefined();
+    expect(getRequestBindingHash(binding, request)).toBe(hashPaymentRequest(request));
+    expect(() => getRequestBindingHash(binding)).toThrow(
+      expect.objectContaining({ code: "invalid_request_binding" }),
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { encodeAbiParameters, Hex, keccak256, zeroHash } from "viem";
+import { X402Error } from "../types/shared/errors";
+import { BoundRequest } from "../types/shared/requestBinding";
+import { PaymentRequirements } from "../types/verify";
+import { hashRequestBody, normalizeRequestUrl } from "./receipt";
+
+/**
+ * Hashes the method, URL and body of the request a payment is bound to
+ *
+ * URLs are normalized, so that e.g. `https://api.example.com` and `https://api.example.com/`
+ * hash the same.
+ *
+ * @param request - The request
+ * @returns The keccak256 hash of the request
+ */
+export function hashPaymentRequest(request: BoundRequest): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "string" }, { type: "string" }, { type: "bytes32" }],
+      [
+        request.method.toUpperCase(),
+        normalizeRequestUrl(request.url),
+        hashRequestBody(request.body) ?? zeroHash,
+      ],
+    ),
+  );
+}
+
+/**
+ * Whether payment requirements ask for payments bound to the request they are sent with
+ *
+ * @param paymentRequirements - The payment requirements
+ * @returns True if payments must be bound to their request
+ */
+export function requiresRequestBinding(paymentRequirements: PaymentRequirements): boolean {
+  return paymentRequirements.extra?.requestBinding === true;
+}
+
+/**
+ * Gets the hash a payment must be bound to, for schemes creating payments
+ *
+ * @param paymentRequirements - The payment requirements the payment is created for
+ * @param request - The request the payment is sent with
+ * @returns The hash of the request, or undefined if the payment requirements do not bind payments
+ * @throws X402Error if the payment requirements bind payments but no request is given
+ */
+export function getRequestBindingHash(
+  paymentRequirements: PaymentRequirements,
+  request?: BoundRequest,
+): Hex | undefined {
+  if (!requiresRequestBinding(paymentRequirements)) {
+    return undefined;
+  }
+  if (!request) {
+    throw new X402Error(
+      "invalid_request_binding",
+      "The payment requirements require the request the payment is sent with",
+      { paymentRequirements },
+    );
+  }
+  return hashPaymentRequest(request);
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createInMemorySessionStore } from "./session";
+
+describe("createInMemorySessionStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts the requests of each access token", async () => {
+    const store = createInMemorySessionStore();
+
+    expect(await store.increment("token", 60)).toBe(1);
+    expect(await store.increment("token", 60)).toBe(2);
+    expect(await store.increment("other-token", 60)).toBe(1);
+  });
+
+  it("starts over once a count expires, even before it is swept", async () => {
+    vi.useFakeTimers();
+    const store = createInMemorySessionStore();
+
+    await store.increment("long-lived", 3600);
+    await store.increment("token", 90);
+    await store.increment("token", 90);
+    vi.advanceTimersByTime(61_000);
+    await store.increment("other-token", 60);
+    vi.advanceTimersByTime(34_000);
+
+    expect(await store.increment("token", 90)).toBe(1);
+  });
+
+  it("drops expired counts created after counts that are still valid", async () => {
+    vi.useFakeTimers();
+    const deleteSpy = vi.spyOn(Map.prototype, "delete");
+    const store = createInMemorySessionStore();
+
+    await store.increment("long-lived", 3600);
+    await store.increment("token", 60);
+    vi.advanceTimersByTime(61_000);
+    await store.increment("other-token", 60);
+
+    expect(deleteSpy).toHaveBeenCalledWith("token");
+    expect(deleteSpy).not.toHaveBeenCalledWith("long-lived");
+    deleteSpy.mockRestore();
+  });
+});
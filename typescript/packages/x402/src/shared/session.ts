@@ -0,0 +1,41 @@
+import { SessionStore } from "../types/shared/session";
+
+// how often the in-memory store drops expired counts, in milliseconds
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Creates a session store that counts access token requests in memory
+ *
+ * @returns The in-memory session store
+ */
+export function createInMemorySessionStore(): SessionStore {
+  // request counts of access tokens and when they expire, in milliseconds
+  const counts = new Map<string, { count: number; expiresAt: number }>();
+  let nextSweepAt = 0;
+
+  return {
+    async increment(id: string, ttlSeconds: number): Promise<number> {
+      const now = Date.now();
+
+      // drop every expired count now and then, as counts expire in no particular order
+      if (now >= nextSweepAt) {
+        for (const [storedId, { expiresAt }] of counts) {
+          if (expiresAt <= now) {
+            counts.delete(storedId);
+          }
+        }
+        nextSweepAt = now + SWEEP_INTERVAL_MS;
+      }
+
+      // a count that expired since the last sweep starts over
+      const stored = counts.get(id);
+      const entry =
+        stored && stored.expiresAt > now
+          ? stored
+          : { count: 0, expiresAt: now + ttlSeconds * 1000 };
+      entry.count += 1;
+      counts.set(id, entry);
+      return entry.count;
+    },
+  };
+}
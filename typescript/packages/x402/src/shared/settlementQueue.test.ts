@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SettlementJob } from "../types/shared/settlement";
+import { PaymentPayload, PaymentRequirements } from "../types/verify";
+import { createInMemorySettlementQueue } from "./settlementQueue";
+
+describe("createInMemorySettlementQueue", () => {
+  const job: SettlementJob = {
+    id: "payment",
+    paymentPayload: {} as PaymentPayload,
+    paymentRequirements: {} as PaymentRequirements,
+    status: "pending",
+    attempts: 0,
+    createdAt: 0,
+    nextAttemptAt: 0,
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("hands out the pending jobs that are due", async () => {
+    const queue = createInMemorySettlementQueue();
+    await queue.enqueue(job);
+    await queue.enqueue({ ...job, id: "later", nextAttemptAt: 2000 });
+    await queue.enqueue({ ...job, id: "settled" });
+    await queue.update({ ...job, id: "settled", status: "settled" });
+
+    expect(await queue.due(1000, 10)).toEqual([job]);
+  });
+
+  it("keeps pending jobs and forgets finished jobs once their retention is over", async () => {
+    vi.useFakeTimers();
+    const queue = createInMemorySettlementQueue(60);
+    await queue.enqueue(job);
+    await queue.enqueue({ ...job, id: "failed" });
+    await queue.update({ ...job, id: "failed", status: "failed", attempts: 5 });
+
+    vi.advanceTimersByTime(59_000);
+    expect(await queue.get("failed")).toMatchObject({ status: "failed" });
+    vi.advanceTimersByTime(1_000);
+
+    expect(await queue.get("failed")).toBeUndefined();
+    expect(await queue.get("payment")).toEqual(job);
+  });
+});
@@ -0,0 +1,72 @@
+import { SettlementJob, SettlementQueue } from "../types/shared/settlement";
+
+const DEFAULT_RETENTION_SECONDS = 3600;
+
+/**
+ * Creates a settlement queue that keeps jobs in memory
+ *
+ * Queued settlements are lost when the process stops; use a durable queue in production.
+ * Settled and failed jobs are kept for `retentionSeconds` so that their status can be looked up,
+ * then forgotten.
+ *
+ * @param retentionSeconds - How long settled and failed jobs are kept, defaults to an hour
+ * @returns The in-memory settlement queue
+ */
+export function createInMemorySettlementQueue(
+  retentionSeconds = DEFAULT_RETENTION_SECONDS,
+): SettlementQueue {
+  const jobs = new Map<string, SettlementJob>();
+  // ids of settled and failed jobs and when they are forgotten, in milliseconds
+  const expirations = new Map<string, number>();
+
+  /**
+   * Forgets the settled and failed jobs whose retention is over
+   */
+  function prune(): void {
+    const now = Date.now();
+    // entries are ordered by expiration, as every job is kept for the same time
+    for (const [id, expiresAt] of expirations) {
+      if (expiresAt > now) {
+        break;
+      }
+      expirations.delete(id);
+      jobs.delete(id);
+    }
+  }
+
+  return {
+    async enqueue(job: SettlementJob): Promise<void> {
+      prune();
+      jobs.set(job.id, { ...job });
+    },
+
+    async update(job: SettlementJob): Promise<void> {
+      prune();
+      jobs.set(job.id, { ...job });
+      expirations.delete(job.id);
+      if (job.status !== "pending") {
+        expirations.set(job.id, Date.now() + retentionSeconds * 1000);
+      }
+    },
+
+    async get(id: string): Promise<SettlementJob | undefined> {
+      prune();
+      const job = jobs.get(id);
+      return job && { ...job };
+    },
+
+    async due(now: number, limit: number): Promise<SettlementJob[]> {
+      prune();
+      const dueJobs: SettlementJob[] = [];
+      for (const job of jobs.values()) {
+        if (dueJobs.length >= limit) {
+          break;
+        }
+        if (job.status === "pending" && job.nextAttemptAt <= now) {
+          dueJobs.push({ ...job });
+        }
+      }
+      return dueJobs;
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { ShieldedNote } from "../types/shared/shielded";
+import { createInMemoryShieldedNoteStore } from "./shielded";
+
+describe("createInMemoryShieldedNoteStore", () => {
+  const pool = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+  const note = (index: number): ShieldedNote => ({
+    network: "base-sepolia",
+    pool,
+    index,
+    secretKey: `0x${index.toString(16).padStart(64, "0")}`,
+  });
+
+  it("hands out each note of a pool once", async () => {
+    const store = createInMemoryShieldedNoteStore();
+    await store.add([note(1), note(2), { ...note(3), network: "base" }]);
+
+    expect(await store.take("base-sepolia", pool.toLowerCase())).toEqual(note(1));
+    expect(await store.take("base-sepolia", pool)).toEqual(note(2));
+    expect(await store.take("base-sepolia", pool)).toBeUndefined();
+    expect(await store.list()).toEqual([{ ...note(3), network: "base" }]);
+  });
+});
@@ -0,0 +1,31 @@
+import { Network } from "../types/shared/network";
+import { ShieldedNote, ShieldedNoteStore } from "../types/shared/shielded";
+
+/**
+ * Creates a note store that keeps the notes of shielded pools in memory
+ *
+ * Notes are lost on restart, along with the funds deposited for them; use a durable store unless
+ * the notes are spent before the process exits.
+ *
+ * @returns The in-memory note store
+ */
+export function createInMemoryShieldedNoteStore(): ShieldedNoteStore {
+  const notes: ShieldedNote[] = [];
+
+  return {
+    async add(added: ShieldedNote[]): Promise<void> {
+      notes.push(...added.map(note => ({ ...note })));
+    },
+
+    async take(network: Network, pool: string): Promise<ShieldedNote | undefined> {
+      const index = notes.findIndex(
+        note => note.network === network && note.pool.toLowerCase() === pool.toLowerCase(),
+      );
+      return index === -1 ? undefined : notes.splice(index, 1)[0];
+    },
+
+    async list(): Promise<ShieldedNote[]> {
+      return notes.map(note => ({ ...note }));
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { StealthAnnouncement } from "../types/shared/stealth";
+import { createInMemoryStealthAddressStore } from "./stealth";
+
+describe("createInMemoryStealthAddressStore", () => {
+  const announcement: StealthAnnouncement = {
+    stealthAddress: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+    ephemeralPublicKey: `0x02${"ab".repeat(32)}`,
+    viewTag: 171,
+    createdAt: 1_800_000_000_000,
+  };
+
+  it("finds stealth addresses however they are spelled", async () => {
+    const store = createInMemoryStealthAddressStore();
+    await store.record(announcement);
+
+    expect(await store.get(announcement.stealthAddress.toLowerCase())).toEqual(announcement);
+    expect(await store.list()).toEqual([announcement]);
+  });
+
+  it("forgets deleted stealth addresses", async () => {
+    const store = createInMemoryStealthAddressStore();
+    await store.record(announcement);
+
+    await store.delete(announcement.stealthAddress);
+
+    expect(await store.get(announcement.stealthAddress)).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("forgets expired stealth addresses and keeps those recorded again without an expiration", async () => {
+    const store = createInMemoryStealthAddressStore();
+    const paid = { ...announcement, stealthAddress: `0x${"2".repeat(40)}` };
+    await store.record({ ...announcement, expiresAt: Date.now() - 1 });
+    await store.record({ ...paid, expiresAt: Date.now() - 1 });
+    await store.record(paid);
+
+    expect(await store.get(announcement.stealthAddress)).toBeUndefined();
+    expect(await store.list()).toEqual([paid]);
+  });
+});
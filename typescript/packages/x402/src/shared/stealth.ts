@@ -0,0 +1,68 @@
+import { StealthAddressStore, StealthAnnouncement } from "../types/shared/stealth";
+
+/**
+ * Creates a stealth address store that keeps stealth addresses in memory
+ *
+ * Stealth addresses are lost on restart, along with the only record of the funds they received;
+ * use a durable store in production. Expired addresses are forgotten as new ones are recorded.
+ *
+ * @returns The in-memory stealth address store
+ */
+export function createInMemoryStealthAddressStore(): StealthAddressStore {
+  const announcements = new Map<string, StealthAnnouncement>();
+  // keys of the addresses that expire and when they do, in milliseconds
+  const expirations = new Map<string, number>();
+  const key = (stealthAddress: string) => stealthAddress.toLowerCase();
+
+  /**
+   * Forgets the expired addresses
+   */
+  function prune(): void {
+    const now = Date.now();
+    // drop the oldest expired addresses, entries are roughly ordered by expiration
+    for (const [id, expiresAt] of expirations) {
+      if (expiresAt > now) {
+        break;
+      }
+      expirations.delete(id);
+      announcements.delete(id);
+    }
+  }
+
+  /**
+   * Checks whether an announcement is still recorded
+   *
+   * @param announcement - The announcement
+   * @returns Whether the announcement did not expire
+   */
+  function isLive(announcement: StealthAnnouncement): boolean {
+    return announcement.expiresAt === undefined || announcement.expiresAt > Date.now();
+  }
+
+  return {
+    async record(announcement: StealthAnnouncement): Promise<void> {
+      prune();
+      const id = key(announcement.stealthAddress);
+      announcements.set(id, { ...announcement });
+      expirations.delete(id);
+      if (announcement.expiresAt !== undefined) {
+        expirations.set(id, announcement.expiresAt);
+      }
+    },
+
+    async get(stealthAddress: string): Promise<StealthAnnouncement | undefined> {
+      const announcement = announcements.get(key(stealthAddress));
+      return announcement && isLive(announcement) ? { ...announcement } : undefined;
+    },
+
+    async delete(stealthAddress: string): Promise<void> {
+      announcements.delete(key(stealthAddress));
+      expirations.delete(key(stealthAddress));
+    },
+
+    async list(): Promise<StealthAnnouncement[]> {
+      prune();
+      return [...announcements.values()].filter(isLive).map(announcement => ({ ...announcement }));
+    },
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./rpc";
+export * from "./transaction";
+export * from "./wallet";
@@ -0,0 +1,19 @@
+import { getFullnodeUrl, SuiClient } from "@mysten/sui/client";
+import { Network } from "../../types/shared";
+
+/**
+ * Gets the RPC client for the given Sui network.
+ *
+ * @param network - The network to get the RPC client for
+ * @param url - Optional URL of the network, e.g. of a local Sui node. If not provided, the public full node is used.
+ * @returns The RPC client for the given network
+ */
+export function getSuiClient(network: Network, url?: string): SuiClient {
+  if (network === "sui-testnet") {
+    return new SuiClient({ url: url ?? getFullnodeUrl("testnet") });
+  } else if (network === "sui-mainnet") {
+    return new SuiClient({ url: url ?? getFullnodeUrl("mainnet") });
+  } else {
+    throw new Error("Invalid network");
+  }
+}
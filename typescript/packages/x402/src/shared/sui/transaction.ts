@@ -0,0 +1,98 @@
+import { bcs } from "@mysten/sui/bcs";
+import { Argument, Transaction } from "@mysten/sui/transactions";
+import { fromBase64 } from "@mysten/sui/utils";
+import { ExactSuiPayload } from "../../types/verify";
+
+/**
+ * Decodes the transaction of a Sui payment payload
+ *
+ * @param payload - The Sui payment payload
+ * @returns The transaction, with its sender and gas data
+ */
+export function decodeSuiTransaction(payload: ExactSuiPayload): Transaction {
+  return Transaction.from(payload.transaction);
+}
+
+/**
+ * Checks whether the commands of a transaction use its gas coin
+ *
+ * The gas coin of a sponsored transaction belongs to the sponsor, so sponsored payments must
+ * not spend it.
+ *
+ * @param transaction - The transaction to check
+ * @returns True if any command takes the gas coin as an argument
+ */
+export function usesGasCoin(transaction: Transaction): boolean {
+  return JSON.stringify(transaction.getData().commands).includes('"$kind":"GasCoin"');
+}
+
+/**
+ * Reads the transfer of a payment transaction whose gas is paid by a sponsor
+ *
+ * Sponsored payments must only split the price from the payer's coins, optionally merged first,
+ * and transfer it, so that the sponsor pays gas for nothing else.
+ *
+ * @param transaction - The transaction to read
+ * @returns The recipient and amount of the transfer, or undefined if the transaction runs other
+ * commands
+ */
+export function getSponsoredTransfer(
+  transaction: Transaction,
+): { recipient: string; amount: bigint } | undefined {
+  const { commands, inputs } = transaction.getData();
+  const inputOf = (argument: Argument) =>
+    argument.$kind === "Input" ? inputs[argument.Input] : undefined;
+  const isOwnedCoin = (argument: Argument) =>
+    inputOf(argument)?.Object?.$kind === "ImmOrOwnedObject";
+
+  if (commands.length !== 2 && commands.length !== 3) {
+    return undefined;
+  }
+  // the payer's coins are merged first when no single coin holds the price
+  const splitIndex = commands.length - 2;
+  const merge = splitIndex === 1 ? commands[0] : undefined;
+  const split = commands[splitIndex];
+  const transfer = commands[splitIndex + 1];
+  if (
+    merge &&
+    !(
+      merge.MergeCoins &&
+      isOwnedCoin(merge.MergeCoins.destination) &&
+      merge.MergeCoins.sources.every(isOwnedCoin)
+    )
+  ) {
+    return undefined;
+  }
+  if (
+    !split.SplitCoins ||
+    !isOwnedCoin(split.SplitCoins.coin) ||
+    (merge && inputOf(split.SplitCoins.coin) !== inputOf(merge.MergeCoins!.destination)) ||
+    split.SplitCoins.amounts.length !== 1 ||
+    !transfer.TransferObjects ||
+    transfer.TransferObjects.objects.length !== 1
+  ) {
+    return undefined;
+  }
+
+  const [object] = transfer.TransferObjects.objects;
+  const amount = inputOf(split.SplitCoins.amounts[0])?.Pure;
+  const recipient = inputOf(transfer.TransferObjects.address)?.Pure;
+  if (
+    object.$kind !== "NestedResult" ||
+    object.NestedResult[0] !== splitIndex ||
+    object.NestedResult[1] !== 0 ||
+    !amount ||
+    !recipient
+  ) {
+    return undefined;
+  }
+
+  try {
+    return {
+      recipient: bcs.Address.parse(fromBase64(recipient.bytes)),
+      amount: BigInt(bcs.u64().parse(fromBase64(amount.bytes))),
+    };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,58 @@
+import { SuiClient } from "@mysten/sui/client";
+import { decodeSuiPrivateKey, Signer } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { Network, SupportedSuiNetworks } from "../../types/shared/network";
+import { getSuiClient } from "./rpc";
+
+export type SuiConnectedClient = SuiClient;
+export type SuiSigner = Signer;
+
+/**
+ * Creates a public client configured for the specified Sui network
+ *
+ * @param network - The network to connect to
+ * @returns A public client instance connected to the specified network
+ */
+export function createSuiConnectedClient(network: string): SuiConnectedClient {
+  if (!SupportedSuiNetworks.find(n => n === network)) {
+    throw new Error(`Unsupported Sui network: ${network}`);
+  }
+  return getSuiClient(network as Network);
+}
+
+/**
+ * Creates a Sui signer from a private key.
+ *
+ * @param privateKey - The Bech32 encoded private key, starting with `suiprivkey`, as exported by the Sui CLI and wallets.
+ * @returns A Sui signer.
+ */
+export function createSuiSigner(privateKey: string): SuiSigner {
+  const { scheme, secretKey } = decodeSuiPrivateKey(privateKey);
+  switch (scheme) {
+    case "ED25519":
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case "Secp256k1":
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case "Secp256r1":
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+    default:
+      throw new Error(`Unsupported Sui key scheme: ${scheme}`);
+  }
+}
+
+/**
+ * Checks if the given wallet is a Sui signer.
+ *
+ * @param wallet - The object wallet to check.
+ * @returns True if the wallet can sign Sui transactions.
+ */
+export function isSignerWallet(wallet: unknown): wallet is SuiSigner {
+  return (
+    typeof wallet === "object" &&
+    wallet !== null &&
+    typeof (wallet as SuiSigner).signTransaction === "function" &&
+    typeof (wallet as SuiSigner).toSuiAddress === "function"
+  );
+}
@@ -0,0 +1,129 @@
+import { getAddressDecoder, getBase64Encoder } from "@solana/kit";
+import {
+  AeKey,
+  BatchedGroupedCiphertext3HandlesValidityProofData,
+  BatchedRangeProofU128Data,
+  CiphertextCiphertextEqualityProofData,
+  CiphertextCommitmentEqualityProofData,
+  ElGamalCiphertext,
+} from "@solana/zk-sdk/node";
+import { describe, expect, it } from "vitest";
+import {
+  combineCiphertexts,
+  ConfidentialTransferAccount,
+  createConfidentialTransferProofs,
+  decryptConfidentialBalance,
+  generateConfidentialTransferKeys,
+  getElGamalKeypair,
+  getElGamalPublicKey,
+  getGroupedCiphertextHandle,
+  isCiphertextOfAmount,
+} from "./confidential";
+
+/**
+ * Creates the confidential transfer extension of a token account holding a balance
+ *
+ * @param keys - The keys of the token account
+ * @param keys.elgamalSecretKey - The base64 encoded ElGamal secret key
+ * @param keys.aeKey - The base64 encoded AE key
+ * @param available - The available balance
+ * @param pending - The pending balance
+ * @returns The extension
+ */
+function createAccount(
+  { elgamalSecretKey, aeKey }: { elgamalSecretKey: string; aeKey: string },
+  available: bigint,
+  pending = 0n,
+): ConfidentialTransferAccount {
+  const pubkey = getElGamalKeypair(elgamalSecretKey).pubkey();
+  return {
+    __kind: "ConfidentialTransferAccount",
+    approved: true,
+    elgamalPubkey: getAddressDecoder().decode(pubkey.toBytes()),
+    pendingBalanceLow: pubkey.encryptU64(pending & 0xffffn).toBytes(),
+    pendingBalanceHigh: pubkey.encryptU64(pending >> 16n).toBytes(),
+    availableBalance: pubkey.encryptU64(available).toBytes(),
+    decryptableAvailableBalance: AeKey.fromBytes(new Uint8Array(getBase64Encoder().encode(aeKey)))
+      .encrypt(available)
+      .toBytes(),
+    allowConfidentialCredits: true,
+    allowNonConfidentialCredits: true,
+    pendingBalanceCreditCounter: 0n,
+    maximumPendingBalanceCreditCounter: 65536n,
+    expectedPendingBalanceCreditCounter: 0n,
+    actualPendingBalanceCreditCounter: 0n,
+  };
+}
+
+describe("confidential transfers", () => {
+  const source = generateConfidentialTransferKeys();
+  const destination = generateConfidentialTransferKeys();
+  const facilitator = generateConfidentialTransferKeys();
+  const destinationPubkey = getAddressDecoder().decode(
+    getElGamalKeypair(destination.elgamalSecretKey).pubkey().toBytes(),
+  );
+
+  it("creates valid proofs of a transfer, disclosing its amount to the facilitator", () => {
+    const amount = 70_000n;
+    const proofs = createConfidentialTransferProofs(
+      amount,
+      createAccount(source, 100_000n),
+      source,
+      destinationPubkey,
+      undefined,
+      getElGamalPublicKey(facilitator.elgamalSecretKey),
+    );
+
+    const validityProof = BatchedGroupedCiphertext3HandlesValidityProofData.fromBytes(
+      proofs.validityProof,
+    );
+    const equalityProof = CiphertextCommitmentEqualityProofData.fromBytes(proofs.equalityProof);
+    const amountProof = CiphertextCiphertextEqualityProofData.fromBytes(proofs.amountProof);
+    validityProof.verify();
+    equalityProof.verify();
+    BatchedRangeProofU128Data.fromBytes(proofs.rangeProof).verify();
+    amountProof.verify();
+
+    // the destination decrypts the transfer amount from the validity proof context
+    const context = validityProof.context().toBytes();
+    const received = combineCiphertexts(
+      getGroupedCiphertextHandle(context.slice(96, 224), 1),
+      getGroupedCiphertextHandle(context.slice(224, 352), 1),
+    );
+    expect(
+      getElGamalKeypair(destination.elgamalSecretKey)
+        .secret()
+        .decrypt(ElGamalCiphertext.fromBytes(received)!),
+    ).toBe(amount);
+
+    // the facilitator decrypts the amount disclosed by the amount proof
+    const disclosed = amountProof.context().toBytes().slice(128, 192);
+    expect(
+      getElGamalKeypair(facilitator.elgamalSecretKey)
+        .secret()
+        .decrypt(ElGamalCiphertext.fromBytes(disclosed)!),
+    ).toBe(amount);
+    expect(isCiphertextOfAmount(disclosed, facilitator.elgamalSecretKey, amount)).toBe(true);
+    expect(isCiphertextOfAmount(disclosed, facilitator.elgamalSecretKey, amount + 1n)).toBe(false);
+    expect(isCiphertextOfAmount(disclosed, source.elgamalSecretKey, amount)).toBe(false);
+  });
+
+  it("rejects transfers above the available balance", () => {
+    expect(() =>
+      createConfidentialTransferProofs(
+        100_001n,
+        createAccount(source, 100_000n),
+        source,
+        destinationPubkey,
+        undefined,
+        getElGamalPublicKey(facilitator.elgamalSecretKey),
+      ),
+    ).toThrow("Insufficient confidential balance");
+  });
+
+  it("decrypts the pending and available balances of a token account", () => {
+    expect(
+      decryptConfidentialBalance(createAccount(destination, 5n, 70_000n), destination),
+    ).toEqual({ pending: 70_000n, available: 5n });
+  });
+});
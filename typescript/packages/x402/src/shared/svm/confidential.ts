@@ -0,0 +1,759 @@
+import { ristretto255 } from "@noble/curves/ed25519";
+import { bytesToNumberLE } from "@noble/curves/utils";
+import {
+  AccountRole,
+  Address,
+  address,
+  getAddressDecoder,
+  getAddressEncoder,
+  getBase64Decoder,
+  getBase64Encoder,
+  Instruction,
+  isSome,
+  TransactionSigner,
+} from "@solana/kit";
+import {
+  AeCiphertext,
+  AeKey,
+  BatchedGroupedCiphertext3HandlesValidityProofData,
+  BatchedRangeProofU128Data,
+  CiphertextCiphertextEqualityProofData,
+  CiphertextCommitmentEqualityProofData,
+  ElGamalCiphertext,
+  ElGamalKeypair,
+  ElGamalPubkey,
+  ElGamalSecretKey,
+  GroupedElGamalCiphertext3Handles,
+  PedersenCommitment,
+  PedersenOpening,
+  PubkeyValidityProofData,
+} from "@solana/zk-sdk/node";
+import {
+  Extension,
+  ExtensionType,
+  findAssociatedTokenPda,
+  getApplyConfidentialPendingBalanceInstruction,
+  getConfigureConfidentialTransferAccountInstruction,
+  getCreateAssociatedTokenIdempotentInstruction,
+  getReallocateInstruction,
+  Mint,
+  Token,
+  TOKEN_2022_PROGRAM_ADDRESS,
+} from "@solana-program/token-2022";
+import { bytesToHex, concatBytes } from "viem";
+import { ConfidentialTransferConfig } from "../../types/config";
+
+/**
+ * The address of the program verifying the zero-knowledge proofs of confidential transfers
+ */
+export const ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS = address(
+  "ZkE1Gama1Proof11111111111111111111111111111",
+);
+
+/**
+ * The address of the SPL record program, holding proofs too large to fit in a transaction
+ */
+export const RECORD_PROGRAM_ADDRESS = address("recr1L3PCGKLbckBqMNcJhuuyU1zgo8nBhfLVsJNwr5");
+
+/**
+ * The proofs of confidential transfers, numbered like the instructions verifying them
+ */
+export const ProofType = {
+  CiphertextCiphertextEquality: 2,
+  CiphertextCommitmentEquality: 3,
+  PubkeyValidity: 4,
+  BatchedRangeProofU128: 7,
+  BatchedGroupedCiphertext3HandlesValidity: 12,
+} as const;
+export type ProofType = (typeof ProofType)[keyof typeof ProofType];
+
+/**
+ * The size of the context of each proof, as stored in proof context state accounts
+ */
+export const PROOF_CONTEXT_SIZES: Record<ProofType, number> = {
+  [ProofType.CiphertextCiphertextEquality]: 192,
+  [ProofType.CiphertextCommitmentEquality]: 128,
+  [ProofType.PubkeyValidity]: 32,
+  [ProofType.BatchedRangeProofU128]: 264,
+  [ProofType.BatchedGroupedCiphertext3HandlesValidity]: 352,
+};
+
+// proof context state accounts start with their authority and the type of their proof
+const PROOF_CONTEXT_STATE_HEADER_SIZE = 33;
+// record accounts start with their version and authority
+export const RECORD_HEADER_SIZE = 33;
+
+// transfer amounts are encrypted in a low part of 16 bits and a high part of 32 bits
+const TRANSFER_AMOUNT_LO_BITS = 16n;
+const MAX_TRANSFER_AMOUNT = (1n << 48n) - 1n;
+
+/**
+ * The state of the confidential transfer extension of a token account
+ */
+export type ConfidentialTransferAccount = Extract<
+  Extension,
+  { __kind: "ConfidentialTransferAccount" }
+>;
+
+/**
+ * A proof context stored by the ZK ElGamal proof program once it verified a proof
+ */
+export type ProofContextState = {
+  /** The account allowed to close the context state */
+  authority: Address;
+  /** The type of the verified proof */
+  proofType: number;
+  /** The context of the verified proof, e.g. the ciphertexts it is about */
+  context: Uint8Array;
+};
+
+/**
+ * The proofs and the new decryptable balance of a confidential transfer
+ */
+export type ConfidentialTransferProofs = {
+  /** The proof that the new available balance of the source is the one encrypted */
+  equalityProof: Uint8Array;
+  /** The proof that the transfer amount is encrypted for the source, destination and auditor */
+  validityProof: Uint8Array;
+  /** The proof that the transfer amount and the new balance are not negative */
+  rangeProof: Uint8Array;
+  /** The proof disclosing the transfer amount to the facilitator */
+  amountProof: Uint8Array;
+  /** The new available balance of the source, encrypted with its AE key */
+  newDecryptableAvailableBalance: Uint8Array;
+};
+
+/**
+ * Decodes a base64 encoded ElGamal secret key into its keypair
+ *
+ * @param elgamalSecretKey - The base64 encoded ElGamal secret key
+ * @returns The ElGamal keypair
+ */
+export function getElGamalKeypair(elgamalSecretKey: string): ElGamalKeypair {
+  return ElGamalKeypair.fromSecretKey(
+    ElGamalSecretKey.fromBytes(new Uint8Array(getBase64Encoder().encode(elgamalSecretKey))),
+  );
+}
+
+/**
+ * Gets the public key of a base64 encoded ElGamal secret key, as facilitators advertise it
+ *
+ * @param elgamalSecretKey - The base64 encoded ElGamal secret key
+ * @returns The base64 encoded ElGamal public key
+ */
+export function getElGamalPublicKey(elgamalSecretKey: string): string {
+  return getBase64Decoder().decode(getElGamalKeypair(elgamalSecretKey).pubkey().toBytes());
+}
+
+/**
+ * Generates random confidential transfer keys
+ *
+ * @returns A base64 encoded ElGamal secret key and AE key
+ */
+export function generateConfidentialTransferKeys(): Required<ConfidentialTransferConfig> {
+  return {
+    elgamalSecretKey: getBase64Decoder().decode(new ElGamalSecretKey().toBytes()),
+    aeKey: getBase64Decoder().decode(new AeKey().toBytes()),
+  };
+}
+
+/**
+ * Gets the state of the confidential transfer extension of a token account
+ *
+ * @param token - The token account
+ * @returns The state of the extension, or undefined if the account is not configured for it
+ */
+export function getConfidentialTransferAccount(
+  token: Token,
+): ConfidentialTransferAccount | undefined {
+  if (!isSome(token.extensions)) {
+    return undefined;
+  }
+  return token.extensions.value.find(
+    (extension): extension is ConfidentialTransferAccount =>
+      extension.__kind === "ConfidentialTransferAccount",
+  );
+}
+
+/**
+ * Gets the ElGamal public key of the auditor of a mint, who can decrypt every transfer amount
+ *
+ * @param mint - The mint
+ * @returns The public key of the auditor, or undefined if the mint has none
+ * @throws Error if the mint does not support confidential transfers
+ */
+export function getConfidentialTransferAuditor(mint: Mint): Address | undefined {
+  const extension = isSome(mint.extensions)
+    ? mint.extensions.value.find(extension => extension.__kind === "ConfidentialTransferMint")
+    : undefined;
+  if (!extension || extension.__kind !== "ConfidentialTransferMint") {
+    throw new Error("The mint does not support confidential transfers");
+  }
+  return isSome(extension.auditorElgamalPubkey) ? extension.auditorElgamalPubkey.value : undefined;
+}
+
+/**
+ * Decrypts the balances of a token account configured for confidential transfers
+ *
+ * The pending balance holds the amounts received since the last `ApplyPendingBalance`
+ * instruction, e.g. the payments to a payee, while the available balance can be spent.
+ *
+ * @param account - The confidential transfer extension of the token account
+ * @param config - The keys of the token account, the available balance is decrypted with its ElGamal
+ * key when it has no AE key
+ * @returns The pending and available balances
+ * @throws Error if a balance cannot be decrypted with the keys
+ */
+export function decryptConfidentialBalance(
+  account: ConfidentialTransferAccount,
+  config: ConfidentialTransferConfig,
+): { pending: bigint; available: bigint } {
+  const secret = getElGamalKeypair(config.elgamalSecretKey).secret();
+  const pendingLo = secret.decrypt(toElGamalCiphertext(account.pendingBalanceLow));
+  const pendingHi = secret.decrypt(toElGamalCiphertext(account.pendingBalanceHigh));
+
+  const available = config.aeKey
+    ? getAeKey(config.aeKey).decrypt(
+        AeCiphertext.fromBytes(new Uint8Array(account.decryptableAvailableBalance))!,
+      )
+    : secret.decrypt(toElGamalCiphertext(account.availableBalance));
+
+  return { pending: pendingLo + (pendingHi << TRANSFER_AMOUNT_LO_BITS), available };
+}
+
+/**
+ * Creates the proofs of a confidential transfer from a token account
+ *
+ * The amount is split into a low and a high part encrypted for the source, the destination and the
+ * auditor of the mint, as the Token-2022 program expects, and disclosed to the facilitator by a
+ * proof that a ciphertext under its ElGamal key encrypts the same amount.
+ *
+ * @param amount - The amount to transfer
+ * @param account - The confidential transfer extension of the source token account
+ * @param config - The keys of the source token account
+ * @param destinationPubkey - The ElGamal public key of the destination token account
+ * @param auditorPubkey - The ElGamal public key of the auditor of the mint, if any
+ * @param facilitatorPubkey - The base64 encoded ElGamal public key of the facilitator
+ * @returns The proofs of the transfer
+ * @throws Error if the keys do not match the account or the balance is too low
+ */
+export function createConfidentialTransferProofs(
+  amount: bigint,
+  account: ConfidentialTransferAccount,
+  config: ConfidentialTransferConfig,
+  destinationPubkey: Address,
+  auditorPubkey: Address | undefined,
+  facilitatorPubkey: string,
+): ConfidentialTransferProofs {
+  if (!config.aeKey) {
+    throw new Error("An AE key is required to transfer confidentially");
+  }
+  const keypair = getElGamalKeypair(config.elgamalSecretKey);
+  if (
+    bytesToHex(keypair.pubkey().toBytes()) !==
+    bytesToHex(new Uint8Array(getAddressEncoder().encode(account.elgamalPubkey)))
+  ) {
+    throw new Error("The ElGamal key does not match the token account");
+  }
+  const aeKey = getAeKey(config.aeKey);
+  const available = AeCiphertext.fromBytes(
+    new Uint8Array(account.decryptableAvailableBalance),
+  )?.decrypt(aeKey);
+  if (available === undefined) {
+    throw new Error("The AE key does not match the token account");
+  }
+  if (amount > MAX_TRANSFER_AMOUNT || amount > available) {
+    throw new Error("Insufficient confidential balance");
+  }
+
+  const amountLo = amount & ((1n << TRANSFER_AMOUNT_LO_BITS) - 1n);
+  const amountHi = amount >> TRANSFER_AMOUNT_LO_BITS;
+  const source = keypair.pubkey();
+  const destination = ElGamalPubkey.fromBytes(
+    new Uint8Array(getAddressEncoder().encode(destinationPubkey)),
+  );
+  // mints without an auditor expect the transfer amount to be encrypted for the zero key
+  const auditor = ElGamalPubkey.fromBytes(
+    auditorPubkey ? new Uint8Array(getAddressEncoder().encode(auditorPubkey)) : new Uint8Array(32),
+  );
+  const facilitator = ElGamalPubkey.fromBytes(
+    new Uint8Array(getBase64Encoder().encode(facilitatorPubkey)),
+  );
+
+  // the transfer amount, encrypted for the source, the destination and the auditor
+  const openingLo = new PedersenOpening();
+  const openingHi = new PedersenOpening();
+  const groupedLo = GroupedElGamalCiphertext3Handles.encryptWith(
+    source,
+    destination,
+    auditor,
+    amountLo,
+    openingLo,
+  );
+  const groupedHi = GroupedElGamalCiphertext3Handles.encryptWith(
+    source,
+    destination,
+    auditor,
+    amountHi,
+    openingHi,
+  );
+  const validityProof = new BatchedGroupedCiphertext3HandlesValidityProofData(
+    source,
+    destination,
+    auditor,
+    groupedLo,
+    groupedHi,
+    amountLo,
+    amountHi,
+    openingLo,
+    openingHi,
+  );
+
+  // the new available balance, which the program computes from the same ciphertexts
+  const transferCiphertext = combineCiphertexts(
+    getGroupedCiphertextHandle(groupedLo.toBytes(), 0),
+    getGroupedCiphertextHandle(groupedHi.toBytes(), 0),
+  );
+  const newBalance = available - amount;
+  const newBalanceOpening = new PedersenOpening();
+  const newBalanceCommitment = PedersenCommitment.from(newBalance, newBalanceOpening);
+  const equalityProof = new CiphertextCommitmentEqualityProofData(
+    keypair,
+    toElGamalCiphertext(
+      subtractCiphertexts(new Uint8Array(account.availableBalance), transferCiphertext),
+    ),
+    newBalanceCommitment,
+    newBalanceOpening,
+    newBalance,
+  );
+
+  // the transfer amount, encrypted for the facilitator
+  const disclosureOpening = new PedersenOpening();
+  const amountProof = new CiphertextCiphertextEqualityProofData(
+    keypair,
+    facilitator,
+    toElGamalCiphertext(transferCiphertext),
+    facilitator.encryptWith(amount, disclosureOpening),
+    disclosureOpening,
+    amount,
+  );
+
+  // the range proof takes ownership of the openings, so it is created last
+  const paddingOpening = new PedersenOpening();
+  const rangeProof = new BatchedRangeProofU128Data(
+    [
+      PedersenCommitment.fromBytes(newBalanceCommitment.toBytes()),
+      PedersenCommitment.fromBytes(groupedLo.toBytes().slice(0, 32)),
+      PedersenCommitment.fromBytes(groupedHi.toBytes().slice(0, 32)),
+      PedersenCommitment.from(0n, paddingOpening),
+    ],
+    new BigUint64Array([newBalance, amountLo, amountHi, 0n]),
+    new Uint8Array([64, 16, 32, 16]),
+    [newBalanceOpening, openingLo, openingHi, paddingOpening],
+  );
+
+  return {
+    equalityProof: equalityProof.toBytes(),
+    validityProof: validityProof.toBytes(),
+    rangeProof: rangeProof.toBytes(),
+    amountProof: amountProof.toBytes(),
+    newDecryptableAvailableBalance: aeKey.encrypt(newBalance).toBytes(),
+  };
+}
+
+/**
+ * Gets the ciphertext of a grouped ciphertext decryptable by one of its keys
+ *
+ * @param grouped - The grouped ciphertext, a commitment followed by a handle per key
+ * @param index - The index of the key
+ * @returns The ElGamal ciphertext, the commitment followed by the handle of the key
+ */
+export function getGroupedCiphertextHandle(grouped: Uint8Array, index: number): Uint8Array {
+  return concatBytes([grouped.slice(0, 32), grouped.slice(32 + 32 * index, 64 + 32 * index)]);
+}
+
+/**
+ * Combines the ciphertexts of the low and high parts of an amount into a ciphertext of the amount
+ *
+ * @param lo - The ciphertext of the low 16 bits
+ * @param hi - The ciphertext of the high bits
+ * @returns The ciphertext of `lo + hi * 2^16`
+ */
+export function combineCiphertexts(lo: Uint8Array, hi: Uint8Array): Uint8Array {
+  const shift = 1n << TRANSFER_AMOUNT_LO_BITS;
+  return mapCiphertexts(lo, hi, (a, b) => a.add(b.multiply(shift)));
+}
+
+/**
+ * Subtracts a ciphertext from another under the same key
+ *
+ * @param a - The ciphertext to subtract from
+ * @param b - The ciphertext to subtract
+ * @returns The ciphertext of the difference of the amounts
+ */
+export function subtractCiphertexts(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return mapCiphertexts(a, b, (x, y) => x.subtract(y));
+}
+
+/**
+ * Checks whether a ciphertext encrypts an amount
+ *
+ * Unlike decrypting it, which solves a discrete logarithm, this checks amounts of any size in
+ * constant time.
+ *
+ * @param ciphertext - The ciphertext, its commitment followed by its handle
+ * @param elgamalSecretKey - The base64 encoded ElGamal secret key the ciphertext is encrypted for
+ * @param amount - The expected amount
+ * @returns True if the ciphertext encrypts the amount
+ */
+export function isCiphertextOfAmount(
+  ciphertext: Uint8Array,
+  elgamalSecretKey: string,
+  amount: bigint,
+): boolean {
+  const { Point } = ristretto255;
+  const secret = Point.Fn.create(
+    bytesToNumberLE(getElGamalKeypair(elgamalSecretKey).secret().toBytes()),
+  );
+  // a ciphertext of `m` is `(m * G + r * H, r * s^-1 * H)` for the public key `s^-1 * H`
+  const message = Point.fromBytes(ciphertext.slice(0, 32)).subtract(
+    Point.fromBytes(ciphertext.slice(32, 64)).multiply(secret),
+  );
+  return amount === 0n ? message.equals(Point.ZERO) : message.equals(Point.BASE.multiply(amount));
+}
+
+/**
+ * Decodes a proof context state account
+ *
+ * @param data - The data of the account
+ * @returns The authority, proof type and context of the account
+ */
+export function decodeProofContextState(data: Uint8Array): ProofContextState {
+  return {
+    authority: getAddressDecoder().decode(data.slice(0, 32)),
+    proofType: data[32],
+    context: data.slice(PROOF_CONTEXT_STATE_HEADER_SIZE),
+  };
+}
+
+/**
+ * Gets the size of the account storing the context of a proof
+ *
+ * @param proofType - The type of the proof
+ * @returns The size of the account in bytes
+ */
+export function getProofContextStateSize(proofType: ProofType): number {
+  return PROOF_CONTEXT_STATE_HEADER_SIZE + PROOF_CONTEXT_SIZES[proofType];
+}
+
+/**
+ * Creates an instruction verifying a proof, and storing its context when a context state account
+ * is given
+ *
+ * @param proofType - The type of the proof
+ * @param proofData - The proof and its context
+ * @param contextState - The account storing the context and the account allowed to close it
+ * @param contextState.account - The uninitialized account storing the context
+ * @param contextState.authority - The account allowed to close the context state
+ * @returns The instruction of the ZK ElGamal proof program
+ */
+export function getVerifyProofInstruction(
+  proofType: ProofType,
+  proofData: Uint8Array,
+  contextState?: { account: Address; authority: Address },
+): Instruction {
+  return {
+    programAddress: ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+    accounts: contextState
+      ? [
+          { address: contextState.account, role: AccountRole.WRITABLE },
+          { address: contextState.authority, role: AccountRole.READONLY },
+        ]
+      : [],
+    data: concatBytes([new Uint8Array([proofType]), proofData]),
+  };
+}
+
+/**
+ * Creates an instruction verifying a proof held by a record account and storing its context
+ *
+ * @param proofType - The type of the proof
+ * @param record - The record account holding the proof and its context
+ * @param contextState - The account storing the context and the account allowed to close it
+ * @param contextState.account - The uninitialized account storing the context
+ * @param contextState.authority - The account allowed to close the context state
+ * @returns The instruction of the ZK ElGamal proof program
+ */
+export function getVerifyProofFromRecordInstruction(
+  proofType: ProofType,
+  record: Address,
+  contextState: { account: Address; authority: Address },
+): Instruction {
+  const data = new Uint8Array(5);
+  data[0] = proofType;
+  new DataView(data.buffer).setUint32(1, RECORD_HEADER_SIZE, true);
+  return {
+    programAddress: ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+    accounts: [
+      { address: record, role: AccountRole.READONLY },
+      { address: contextState.account, role: AccountRole.WRITABLE },
+      { address: contextState.authority, role: AccountRole.READONLY },
+    ],
+    data,
+  };
+}
+
+/**
+ * Creates an instruction closing a proof context state account
+ *
+ * @param contextState - The context state account
+ * @param destination - The account receiving the rent of the context state account
+ * @param authority - The authority of the context state account
+ * @returns The instruction of the ZK ElGamal proof program
+ */
+export function getCloseContextStateInstruction(
+  contextState: Address,
+  destination: Address,
+  authority: TransactionSigner,
+): Instruction {
+  return {
+    programAddress: ZK_ELGAMAL_PROOF_PROGRAM_ADDRESS,
+    accounts: [
+      { address: contextState, role: AccountRole.WRITABLE },
+      { address: destination, role: AccountRole.WRITABLE },
+      { address: authority.address, role: AccountRole.READONLY_SIGNER, signer: authority },
+    ] as Instruction["accounts"],
+    data: new Uint8Array([0]),
+  };
+}
+
+/**
+ * Creates an instruction initializing a record account
+ *
+ * @param record - The record account, allocated and owned by the record program
+ * @param authority - The account allowed to write to and close the record
+ * @returns The instruction of the record program
+ */
+export function getInitializeRecordInstruction(record: Address, authority: Address): Instruction {
+  return {
+    programAddress: RECORD_PROGRAM_ADDRESS,
+    accounts: [
+      { address: record, role: AccountRole.WRITABLE },
+      { address: authority, role: AccountRole.READONLY },
+    ],
+    data: new Uint8Array([0]),
+  };
+}
+
+/**
+ * Creates an instruction writing data to a record account
+ *
+ * @param record - The record account
+ * @param authority - The authority of the record account
+ * @param offset - The offset to write at, after the header of the record
+ * @param data - The data to write
+ * @returns The instruction of the record program
+ */
+export function getWriteRecordInstruction(
+  record: Address,
+  authority: TransactionSigner,
+  offset: number,
+  data: Uint8Array,
+): Instruction {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  header[0] = 1;
+  view.setBigUint64(1, BigInt(offset), true);
+  view.setUint32(9, data.length, true);
+  return {
+    programAddress: RECORD_PROGRAM_ADDRESS,
+    accounts: [
+      { address: record, role: AccountRole.WRITABLE },
+      { address: authority.address, role: AccountRole.READONLY_SIGNER, signer: authority },
+    ] as Instruction["accounts"],
+    data: concatBytes([header, data]),
+  };
+}
+
+/**
+ * Creates an instruction closing a record account
+ *
+ * @param record - The record account
+ * @param authority - The authority of the record account
+ * @param receiver - The account receiving the rent of the record account
+ * @returns The instruction of the record program
+ */
+export function getCloseRecordInstruction(
+  record: Address,
+  authority: TransactionSigner,
+  receiver: Address,
+): Instruction {
+  return {
+    programAddress: RECORD_PROGRAM_ADDRESS,
+    accounts: [
+      { address: record, role: AccountRole.WRITABLE },
+      { address: authority.address, role: AccountRole.READONLY_SIGNER, signer: authority },
+      { address: receiver, role: AccountRole.WRITABLE },
+    ] as Instruction["accounts"],
+    data: new Uint8Array([3]),
+  };
+}
+
+/**
+ * Creates the instructions configuring the associated token account of an owner for confidential
+ * transfers, creating it if needed
+ *
+ * Payers configure the account they pay from, and payees the account they are paid to.
+ *
+ * @param payer - The account paying for the token account
+ * @param owner - The owner of the token account
+ * @param mint - The mint of the token account, with the confidential transfer extension
+ * @param config - The keys of the token account
+ * @param maximumPendingBalanceCreditCounter - How many transfers the account can receive before
+ * its pending balance must be applied
+ * @returns The instructions configuring the account
+ * @throws Error if the keys have no AE key
+ */
+export async function getConfigureConfidentialTransferAccountInstructions(
+  payer: TransactionSigner,
+  owner: TransactionSigner,
+  mint: Address,
+  config: ConfidentialTransferConfig,
+  maximumPendingBalanceCreditCounter = 65536,
+): Promise<Instruction[]> {
+  if (!config.aeKey) {
+    throw new Error("An AE key is required to configure a token account");
+  }
+  const [token] = await findAssociatedTokenPda({
+    mint,
+    owner: owner.address,
+    tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+  });
+
+  return [
+    getCreateAssociatedTokenIdempotentInstruction({
+      payer,
+      ata: token,
+      owner: owner.address,
+      mint,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    }),
+    getReallocateInstruction({
+      token,
+      payer,
+      owner,
+      newExtensionTypes: [ExtensionType.ConfidentialTransferAccount],
+    }),
+    // the proof that the owner knows the ElGamal secret key follows the instruction
+    removeOmittedAccounts(
+      getConfigureConfidentialTransferAccountInstruction({
+        token,
+        mint,
+        authority: owner,
+        decryptableZeroBalance: getAeKey(config.aeKey).encrypt(0n).toBytes(),
+        maximumPendingBalanceCreditCounter,
+        proofInstructionOffset: 1,
+      }),
+    ),
+    getVerifyProofInstruction(
+      ProofType.PubkeyValidity,
+      new PubkeyValidityProofData(getElGamalKeypair(config.elgamalSecretKey)).toBytes(),
+    ),
+  ];
+}
+
+/**
+ * Creates the instruction moving the pending balance of a token account to its available balance,
+ * e.g. for a payee to spend the payments it received
+ *
+ * @param token - The token account
+ * @param account - The confidential transfer extension of the token account
+ * @param owner - The owner of the token account
+ * @param config - The keys of the token account
+ * @returns The instruction of the Token-2022 program
+ * @throws Error if the keys have no AE key or do not match the account
+ */
+export function getApplyPendingConfidentialBalanceInstruction(
+  token: Address,
+  account: ConfidentialTransferAccount,
+  owner: TransactionSigner,
+  config: ConfidentialTransferConfig,
+): Instruction {
+  if (!config.aeKey) {
+    throw new Error("An AE key is required to apply a pending balance");
+  }
+  const { pending, available } = decryptConfidentialBalance(account, config);
+  return getApplyConfidentialPendingBalanceInstruction({
+    token,
+    authority: owner,
+    expectedPendingBalanceCreditCounter: account.pendingBalanceCreditCounter,
+    newDecryptableAvailableBalance: getAeKey(config.aeKey)
+      .encrypt(available + pending)
+      .toBytes(),
+  });
+}
+
+/**
+ * Removes the optional accounts left out of a Token-2022 instruction
+ *
+ * The generated instruction builders fill the optional accounts left out with the address of the
+ * program, while the confidential transfer instructions expect them to be missing.
+ *
+ * @param instruction - The instruction of the Token-2022 program
+ * @returns The instruction without the accounts left out
+ */
+export function removeOmittedAccounts<T extends Instruction>(instruction: T): T {
+  return {
+    ...instruction,
+    accounts: instruction.accounts?.filter(
+      account => account.address !== instruction.programAddress,
+    ),
+  };
+}
+
+/**
+ * Decodes a base64 encoded AE key
+ *
+ * @param aeKey - The base64 encoded AE key
+ * @returns The AE key
+ */
+function getAeKey(aeKey: string): AeKey {
+  return AeKey.fromBytes(new Uint8Array(getBase64Encoder().encode(aeKey)));
+}
+
+/**
+ * Decodes an ElGamal ciphertext
+ *
+ * @param bytes - The ciphertext, its commitment followed by its handle
+ * @returns The ElGamal ciphertext
+ * @throws Error if the bytes are not a ciphertext
+ */
+function toElGamalCiphertext(bytes: ArrayLike<number>): ElGamalCiphertext {
+  const ciphertext = ElGamalCiphertext.fromBytes(new Uint8Array(bytes));
+  if (!ciphertext) {
+    throw new Error("Invalid ElGamal ciphertext");
+  }
+  return ciphertext;
+}
+
+/**
+ * Combines the commitments and the handles of two ciphertexts
+ *
+ * @param a - The first ciphertext
+ * @param b - The second ciphertext
+ * @param combine - Combines the points of the ciphertexts
+ * @returns The combined ciphertext
+ */
+function mapCiphertexts(
+  a: Uint8Array,
+  b: Uint8Array,
+  combine: (
+    x: InstanceType<typeof ristretto255.Point>,
+    y: InstanceType<typeof ristretto255.Point>,
+  ) => InstanceType<typeof ristretto255.Point>,
+): Uint8Array {
+  const { Point } = ristretto255;
+  const commitment = combine(Point.fromBytes(a.slice(0, 32)), Point.fromBytes(b.slice(0, 32)));
+  const handle = combine(Point.fromBytes(a.slice(32, 64)), Point.fromBytes(b.slice(32, 64)));
+  return concatBytes([commitment.toBytes(), handle.toBytes()]);
+}
@@ -1,3 +1,4 @@
+export * from "./memo";
 export * from "./rpc";
 export * from "./wallet";
 export * from "./transaction";
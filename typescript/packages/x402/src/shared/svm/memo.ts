@@ -0,0 +1,56 @@
+import {
+  address,
+  CompiledTransactionMessage,
+  getCompiledTransactionMessageDecoder,
+  Instruction,
+  Transaction,
+} from "@solana/kit";
+
+/**
+ * The address of the SPL Memo program
+ */
+export const MEMO_PROGRAM_ADDRESS = address("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+/**
+ * Creates an instruction recording a memo in a transaction, without any signer
+ *
+ * @param memo - The UTF-8 memo to record
+ * @returns The memo instruction
+ */
+export function getMemoInstruction(memo: string): Instruction {
+  return {
+    programAddress: MEMO_PROGRAM_ADDRESS,
+    data: new TextEncoder().encode(memo),
+  };
+}
+
+/**
+ * Checks whether an instruction is a memo instruction without accounts
+ *
+ * @param instruction - The instruction to check
+ * @returns True if the instruction only records a memo
+ */
+export function isMemoInstruction(instruction: Instruction): boolean {
+  return (
+    instruction.programAddress.toString() === MEMO_PROGRAM_ADDRESS.toString() &&
+    !instruction.accounts?.length
+  );
+}
+
+/**
+ * Reads the memo recorded in a transaction
+ *
+ * @param transaction - The transaction to read the memo of
+ * @returns The memo, or undefined if the transaction has no memo instruction
+ */
+export function getTransactionMemo(transaction: Transaction): string | undefined {
+  const compiled = getCompiledTransactionMessageDecoder().decode(
+    transaction.messageBytes,
+  ) as CompiledTransactionMessage;
+  const staticAccounts = compiled.staticAccounts ?? [];
+
+  const memo = (compiled.instructions ?? []).find(
+    ix => staticAccounts[ix.programAddressIndex]?.toString() === MEMO_PROGRAM_ADDRESS.toString(),
+  );
+  return memo?.data ? new TextDecoder().decode(memo.data) : undefined;
+}
@@ -72,7 +72,7 @@ describe("decodeTransactionFromPayload", () => {
     };
 
     expect(() => decodeTransactionFromPayload(svmPayload)).toThrow(
-      "invalid_exact_svm_payload_transaction",
+      expect.objectContaining({ code: "invalid_exact_svm_payload_transaction" }),
     );
   });
 });
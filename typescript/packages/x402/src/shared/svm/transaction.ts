@@ -1,3 +1,4 @@
+import { InvalidPaymentError } from "../../types/shared/errors";
 import { ExactSvmPayload } from "../../types/verify/x402Specs";
 import {
   getBase64EncodedWireTransaction,
@@ -32,7 +33,9 @@ export function decodeTransactionFromPayload(svmPayload: ExactSvmPayload): Trans
     return transactionDecoder.decode(transactionBytes);
   } catch (error) {
     console.error("error", error);
-    throw new Error("invalid_exact_svm_payload_transaction");
+    throw new InvalidPaymentError("invalid_exact_svm_payload_transaction", undefined, {
+      cause: error,
+    });
   }
 }
 
@@ -1,3 +1,7 @@
+import { PaymentStore } from "./shared/paymentStore";
+import { RefundStore } from "./shared/refund";
+import { ShieldedNoteStore } from "./shared/shielded";
+
 /**
  * Configuration options for Solana (SVM) RPC connections.
  */
@@ -7,6 +11,40 @@ export interface SvmConfig {
    * If not provided, defaults to public Solana RPC endpoints based on network.
    */
   rpcUrl?: string;
+  /**
+   * Custom websocket URL for Solana subscriptions, e.g. `ws://127.0.0.1:8900` of a local
+   * solana-test-validator. If not provided, defaults to `rpcUrl` with a websocket protocol.
+   */
+  wsUrl?: string;
+  /**
+   * The keys of `confidential` payments, see `ConfidentialTransferConfig`
+   */
+  confidentialTransfer?: ConfidentialTransferConfig;
+}
+
+/**
+ * The keys of the Token-2022 confidential transfer extension, each base64 encoded.
+ *
+ * Clients pay from a token account configured with both keys. Facilitators only set an ElGamal
+ * key, whose public key they advertise so that clients disclose the amounts of their payments to
+ * the facilitator alone.
+ */
+export interface ConfidentialTransferConfig {
+  /** The ElGamal secret key encrypting the balances and transfer amounts of the account */
+  elgamalSecretKey: string;
+  /** The authenticated encryption key of the decryptable available balance, required by clients */
+  aeKey?: string;
+}
+
+/**
+ * Configuration options for Sui RPC connections.
+ */
+export interface SuiConfig {
+  /**
+   * Custom RPC URL for Sui connections, e.g. of a local Sui node.
+   * If not provided, defaults to the public Sui full nodes based on network.
+   */
+  rpcUrl?: string;
 }
 
 /**
@@ -15,5 +53,27 @@ export interface SvmConfig {
 export interface X402Config {
   /** Configuration for Solana (SVM) operations */
   svmConfig?: SvmConfig;
+  /** Configuration for Sui operations */
+  suiConfig?: SuiConfig;
+  /**
+   * Store used by the facilitator to reject payments that are settled twice, e.g. concurrently.
+   * If not provided, only the on-chain state protects against duplicate settlements.
+   */
+  paymentStore?: PaymentStore;
+  /**
+   * Store used by the facilitator to link refunds to the settlements they pay back and to reject
+   * refunding a payment twice. If not provided, refunds are not recorded.
+   */
+  refundStore?: RefundStore;
+  /**
+   * The notes clients pay `shielded` payments with, see `depositShieldedNotes`. Required to pay
+   * with the `shielded` scheme.
+   */
+  shieldedNotes?: ShieldedNoteStore;
+  /**
+   * The protocol versions clients may pay with. The highest version also accepted by the server
+   * is used. Defaults to every version of the protocol.
+   */
+  x402Versions?: number[];
   // Future: evmConfig?: EvmConfig for EVM-specific configurations
 }
@@ -0,0 +1,107 @@
+import { PaymentPayload, PaymentRequirements, SettleResponse } from "../verify";
+import { Network } from "./network";
+
+/**
+ * The voucher carried by a payment made through a channel, and the channel it opens, if any
+ */
+export type ChannelPayment = {
+  /** The id of the channel */
+  channelId: string;
+  /** The cumulative amount paid through the channel, in atomic units of the asset */
+  amount: string;
+  /** The payer and the deposit of the channel, set for payments opening it */
+  opens?: { payer: string; deposit: string };
+};
+
+/**
+ * A payment channel opened by a payment of the `channel` scheme, as recorded by the resource server
+ *
+ * Records only hold JSON values, so that durable stores can save them as they are.
+ */
+export type ChannelRecord = {
+  /** The id of the channel in the channel contract */
+  id: string;
+  network: Network;
+  /** The payer who opened the channel and signs its vouchers */
+  payer: string;
+  /** The deposit of the channel, in atomic units of the asset */
+  deposit: string;
+  /**
+   * When the channel expires, in seconds since the epoch. Recorded when the channel is opened, a
+   * little before the expiry set by the contract
+   */
+  expiresAt: number;
+  /** The cumulative amount of the latest accepted voucher, in atomic units of the asset */
+  amount: string;
+  /** The amount claimed on-chain so far */
+  claimedAmount: string;
+  /** The payment carrying the latest accepted voucher, or the payment that opened the channel */
+  paymentPayload: PaymentPayload;
+  /** The payment requirements the channel was opened for */
+  paymentRequirements: PaymentRequirements;
+};
+
+/**
+ * Records the payment channels a resource server accepts vouchers of
+ *
+ * Use a store shared by every instance of the server, so that a voucher is only accepted once.
+ */
+export interface ChannelStore {
+  /**
+   * Records a channel that was just opened
+   *
+   * @param channel - The channel
+   * @returns True if the channel was recorded, false if it was already recorded
+   */
+  create(channel: ChannelRecord): Promise<boolean>;
+
+  /**
+   * Saves the new state of a channel
+   *
+   * With `expectedAmount`, the channel is only saved if the amount of its recorded voucher is
+   * still `expectedAmount`, so that two payments cannot both be accepted for the same amount.
+   *
+   * @param channel - The channel to save
+   * @param expectedAmount - The voucher amount the new state was computed from
+   * @returns True if the channel was saved
+   */
+  update(channel: ChannelRecord, expectedAmount?: string): Promise<boolean>;
+
+  /**
+   * Gets a channel by its id
+   *
+   * @param id - The id of the channel
+   * @returns The channel, or undefined if it is not recorded
+   */
+  get(id: string): Promise<ChannelRecord | undefined>;
+
+  /**
+   * Forgets a channel once it is closed
+   *
+   * @param id - The id of the channel
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Lists the recorded channels, to claim their vouchers
+   *
+   * @returns The channels
+   */
+  list(): Promise<ChannelRecord[]>;
+}
+
+/**
+ * Configures the payment channels of routes accepting the `channel` scheme
+ *
+ * Vouchers are accepted by the middleware without reaching the facilitator. Every
+ * `settleIntervalSeconds`, the latest voucher of each channel is claimed through the facilitator,
+ * and channels about to expire are closed, refunding the rest of their deposit to the payer.
+ */
+export type ChannelOptions = {
+  /** The store recording the open channels. Defaults to an in-memory store, lost on restart */
+  store?: ChannelStore;
+  /** How often vouchers are claimed, in seconds. Defaults to 5 minutes */
+  settleIntervalSeconds?: number;
+  /** Called once a channel is closed */
+  onClosed?: (channel: ChannelRecord, settleResponse: SettleResponse) => void | Promise<void>;
+};
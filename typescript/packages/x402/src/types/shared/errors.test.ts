@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { PaymentRequirements } from "../verify";
+import {
+  InvalidPaymentError,
+  PaymentAmountExceededError,
+  toX402Error,
+  UnsupportedSchemeError,
+  X402Error,
+} from "./errors";
+
+describe("X402Error", () => {
+  const paymentRequirements = {
+    scheme: "exact",
+    network: "base-sepolia",
+    maxAmountRequired: "1000000",
+  } as PaymentRequirements;
+
+  it("describes its code by default", () => {
+    const error = new InvalidPaymentError("insufficient_funds");
+
+    expect(error).toBeInstanceOf(X402Error);
+    expect(error.name).toBe("InvalidPaymentError");
+    expect(error.code).toBe("insufficient_funds");
+    expect(error.message).toBe("The payer does not have enough funds");
+  });
+
+  it("serializes its code, message and payment requirements", () => {
+    const error = new PaymentAmountExceededError(paymentRequirements, 100000n);
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      code: "payment_amount_exceeds_maximum",
+      message: "Payment amount exceeds maximum allowed",
+      paymentRequirements: [paymentRequirements],
+    });
+    expect(error.maxAmount).toBe(100000n);
+  });
+
+  it("names the unsupported scheme and network", () => {
+    const error = new UnsupportedSchemeError("voucher", "base");
+
+    expect(error.code).toBe("unsupported_scheme");
+    expect(error.message).toBe("Unsupported scheme voucher on network base");
+  });
+
+  it("wraps other errors without exposing their message", () => {
+    const cause = new Error("connect ECONNREFUSED");
+    const error = toX402Error(cause, "unexpected_settle_error");
+
+    expect(error.code).toBe("unexpected_settle_error");
+    expect(error.message).toBe("The payment could not be settled");
+    expect(error.cause).toBe(cause);
+    expect(toX402Error(error, "unexpected_verify_error")).toBe(error);
+  });
+});
@@ -0,0 +1,283 @@
+import { ErrorReason, PaymentRequirements } from "../verify";
+
+const errorMessages: Record<ErrorReason, string> = {
+  duplicate_payment: "The payment was already used",
+  facilitator_request_failed: "The facilitator could not be reached",
+  insufficient_funds: "The payer does not have enough funds",
+  invalid_exact_evm_payload_authorization_valid_after: "The authorization is not valid yet",
+  invalid_exact_evm_payload_authorization_valid_before: "The authorization has expired",
+  invalid_exact_evm_payload_authorization_value: "The authorized amount is too low",
+  invalid_exact_evm_payload_signature: "The authorization signature is invalid",
+  invalid_exact_evm_payload_recipient_mismatch: "The authorization pays the wrong recipient",
+  invalid_exact_evm_payload_permit2_allowance: "The payer has not approved Permit2 for the token",
+  invalid_exact_evm_payload_permit2_nonce: "The Permit2 nonce was already used",
+  invalid_exact_evm_payload_permit2_resource_mismatch:
+    "The Permit2 transfer pays for another resource",
+  invalid_exact_evm_payload_permit2_spender_mismatch:
+    "The Permit2 transfer is for the wrong spender",
+  invalid_exact_evm_payload_permit2_token_mismatch: "The Permit2 transfer is for the wrong token",
+  invalid_exact_svm_payload_transaction: "The transaction could not be decoded",
+  invalid_exact_svm_payload_transaction_amount_mismatch:
+    "The transaction transfers the wrong amount",
+  invalid_exact_svm_payload_transaction_create_ata_instruction:
+    "The transaction creates an invalid token account",
+  invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_payee:
+    "The transaction creates a token account for the wrong recipient",
+  invalid_exact_svm_payload_transaction_create_ata_instruction_incorrect_asset:
+    "The transaction creates a token account for the wrong asset",
+  invalid_exact_svm_payload_transaction_instructions: "The transaction has invalid instructions",
+  invalid_exact_svm_payload_transaction_instructions_length:
+    "The transaction has an unexpected number of instructions",
+  invalid_exact_svm_payload_transaction_instructions_compute_limit_instruction:
+    "The transaction has an invalid compute limit instruction",
+  invalid_exact_svm_payload_transaction_instructions_compute_price_instruction:
+    "The transaction has an invalid compute price instruction",
+  invalid_exact_svm_payload_transaction_instructions_compute_price_instruction_too_high:
+    "The transaction compute price is too high",
+  invalid_exact_svm_payload_transaction_instruction_not_spl_token_transfer_checked:
+    "The transaction is not an SPL token transfer",
+  invalid_exact_svm_payload_transaction_instruction_not_token_2022_transfer_checked:
+    "The transaction is not a Token-2022 transfer",
+  invalid_exact_svm_payload_transaction_fee_payer_included_in_instruction_accounts:
+    "The transaction uses the fee payer in its instructions",
+  invalid_exact_svm_payload_transaction_fee_payer_transferring_funds:
+    "The transaction transfers funds of the fee payer",
+  invalid_exact_svm_payload_transaction_not_a_transfer_instruction:
+    "The transaction is not a transfer",
+  invalid_exact_svm_payload_transaction_receiver_ata_not_found:
+    "The token account of the recipient does not exist",
+  invalid_exact_svm_payload_transaction_sender_ata_not_found:
+    "The token account of the payer does not exist",
+  invalid_exact_svm_payload_transaction_simulation_failed: "The transaction simulation failed",
+  invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata:
+    "The transaction pays the wrong token account",
+  invalid_confidential_svm_payload_amount_mismatch:
+    "The disclosed amount does not match the payment",
+  invalid_confidential_svm_payload_amount_proof:
+    "The amount proof does not disclose the transfer amount to the facilitator",
+  invalid_confidential_svm_payload_proof_context: "The proof context of the transfer is invalid",
+  invalid_confidential_svm_payload_transaction_incorrect_asset:
+    "The transaction transfers the wrong asset",
+  invalid_confidential_svm_payload_transaction_instructions:
+    "The transaction has invalid instructions",
+  invalid_confidential_svm_payload_transaction_simulation_failed:
+    "The transaction simulation failed",
+  invalid_confidential_svm_payload_transaction_transfer_to_incorrect_ata:
+    "The transaction pays the wrong token account",
+  invalid_exact_sui_payload_signature: "The transaction signature is invalid",
+  invalid_exact_sui_payload_sponsor_commands:
+    "The sponsored transaction does not only transfer the price to the recipient",
+  invalid_exact_sui_payload_sponsor_gas_budget: "The sponsored transaction exceeds the gas budget",
+  invalid_exact_sui_payload_sponsor_gas_coin_used:
+    "The sponsored transaction spends the gas coin of the sponsor",
+  invalid_exact_sui_payload_sponsor_mismatch: "The transaction is sponsored by another address",
+  invalid_exact_sui_payload_transaction: "The transaction could not be decoded",
+  invalid_exact_sui_payload_transaction_amount_mismatch:
+    "The transaction does not pay the required amount to the recipient",
+  invalid_exact_sui_payload_transaction_simulation_failed: "The transaction simulation failed",
+  invalid_upto_evm_payload_permit_deadline: "The permit has expired",
+  invalid_upto_evm_payload_permit_nonce: "The permit nonce is invalid",
+  invalid_upto_evm_payload_permit_value: "The permitted amount is too low",
+  invalid_upto_evm_payload_signature: "The permit signature is invalid",
+  invalid_upto_evm_payload_router_mismatch: "The permit is for the wrong router",
+  invalid_upto_evm_payload_transfer_signature: "The transfer signature is invalid",
+  invalid_upto_settlement_amount: "The settlement amount exceeds the permitted amount",
+  invalid_permit_evm_payload_permit_deadline: "The permit has expired",
+  invalid_permit_evm_payload_permit_nonce: "The permit was already used",
+  invalid_permit_evm_payload_permit_value: "The permitted amount is too low",
+  invalid_permit_evm_payload_router_mismatch: "The permit is for the wrong router",
+  invalid_permit_evm_payload_signature: "The permit signature is invalid",
+  invalid_permit_evm_payload_transfer_signature: "The transfer signature is invalid",
+  invalid_permit_settlement_amount: "The settlement amount exceeds the permitted amount",
+  invalid_escrow_deposit: "The payment is not held by the escrow",
+  invalid_escrow_evm_payload_authorization_valid_after: "The authorization is not valid yet",
+  invalid_escrow_evm_payload_authorization_valid_before: "The authorization has expired",
+  invalid_escrow_evm_payload_authorization_value: "The authorized amount is too low",
+  invalid_escrow_evm_payload_escrow_mismatch: "The authorization is for the wrong escrow",
+  invalid_escrow_evm_payload_nonce: "The authorization nonce does not match the escrow terms",
+  invalid_escrow_evm_payload_signature: "The authorization signature is invalid",
+  invalid_escrow_settlement_amount: "The settlement amount exceeds the deposited amount",
+  invalid_channel: "The payment channel is not open",
+  invalid_channel_evm_payload_authorization_valid_after: "The authorization is not valid yet",
+  invalid_channel_evm_payload_authorization_valid_before: "The authorization has expired",
+  invalid_channel_evm_payload_authorization_value: "The deposit does not cover the payment",
+  invalid_channel_evm_payload_channel_mismatch:
+    "The authorization is for the wrong channel contract",
+  invalid_channel_evm_payload_nonce: "The authorization nonce does not match the channel terms",
+  invalid_channel_evm_payload_signature: "The authorization signature is invalid",
+  invalid_channel_voucher_amount: "The voucher does not cover the payment",
+  invalid_channel_voucher_signature: "The voucher signature is invalid",
+  invalid_channel_settlement_amount: "The settlement amount exceeds the voucher amount",
+  invalid_shielded_evm_payload_amount_mismatch:
+    "The denomination of the shielded pool does not match the payment",
+  invalid_shielded_evm_payload_asset_mismatch: "The shielded pool holds another asset",
+  invalid_shielded_evm_payload_deadline: "The withdrawal expires too soon",
+  invalid_shielded_evm_payload_pool_mismatch:
+    "The note is withdrawn from another pool than the payment requirements",
+  invalid_shielded_evm_payload_recipient_mismatch: "The withdrawal does not pay to the recipient",
+  invalid_shielded_evm_payload_ring: "The ring is not made of notes of the shielded pool",
+  invalid_shielded_evm_payload_signature: "The ring signature of the withdrawal is invalid",
+  invalid_refund: "The refunded payment was not settled",
+  invalid_refund_amount: "The refund amount exceeds the settled amount",
+  duplicate_refund: "The payment was already refunded",
+  invalid_network: "The network is not supported",
+  invalid_payload: "The payment payload is invalid",
+  invalid_payment_requirements: "The payment requirements are invalid",
+  invalid_scheme: "The payment scheme is invalid",
+  invalid_payment: "Invalid or malformed payment header",
+  invalid_request_binding: "The payment is not bound to this request",
+  no_matching_payment_requirements: "Unable to find matching payment requirements",
+  payment_amount_exceeds_maximum: "Payment amount exceeds maximum allowed",
+  payment_expired: "The payment has expired",
+  payment_required: "X-PAYMENT header is required",
+  unsupported_scheme: "Unsupported scheme",
+  invalid_x402_version: "Unsupported x402 version",
+  invalid_transaction_state: "The transaction failed",
+  settle_exact_svm_block_height_exceeded: "The transaction expired before it was confirmed",
+  settle_exact_svm_transaction_confirmation_timed_out: "The transaction was not confirmed in time",
+  unexpected_settle_error: "The payment could not be settled",
+  unexpected_verify_error: "The payment could not be verified",
+};
+
+/**
+ * The JSON representation of an x402 error
+ */
+export type X402ErrorJSON = {
+  /** A stable, machine readable error code */
+  code: ErrorReason;
+  /** A human readable description of the error */
+  message: string;
+  /** The payment requirements the error relates to */
+  paymentRequirements?: PaymentRequirements[];
+};
+
+/**
+ * Options of an x402 error
+ */
+export type X402ErrorOptions = {
+  /** The payment requirements the error relates to */
+  paymentRequirements?: PaymentRequirements | PaymentRequirements[];
+  /** The error that caused this error */
+  cause?: unknown;
+};
+
+/**
+ * The base class of the errors thrown by clients, middlewares and facilitators
+ *
+ * Branch on `code`, which is one of `ErrorReasons` and stable across releases, rather than on
+ * `message`, which is meant for humans.
+ */
+export class X402Error extends Error {
+  readonly code: ErrorReason;
+  readonly paymentRequirements?: PaymentRequirements[];
+
+  /**
+   * Creates an x402 error
+   *
+   * @param code - The error code
+   * @param message - A human readable description, defaults to the description of the code
+   * @param options - The payment requirements the error relates to and its cause
+   */
+  constructor(code: ErrorReason, message?: string, options?: X402ErrorOptions) {
+    super(message ?? getErrorMessage(code), { cause: options?.cause });
+    this.name = new.target.name;
+    this.code = code;
+    if (options?.paymentRequirements) {
+      this.paymentRequirements = [options.paymentRequirements].flat();
+    }
+  }
+
+  /**
+   * Serializes the error, e.g. into the body of a response
+   *
+   * @returns The code, message and payment requirements of the error
+   */
+  toJSON(): X402ErrorJSON {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.paymentRequirements ? { paymentRequirements: this.paymentRequirements } : {}),
+    };
+  }
+}
+
+/**
+ * Thrown when no implementation is registered for a payment's scheme and network
+ */
+export class UnsupportedSchemeError extends X402Error {
+  /**
+   * Creates an unsupported scheme error
+   *
+   * @param scheme - The name of the scheme
+   * @param network - The network of the payment
+   * @param options - The payment requirements the error relates to and its cause
+   */
+  constructor(scheme: string, network: string, options?: X402ErrorOptions) {
+    super("unsupported_scheme", `Unsupported scheme ${scheme} on network ${network}`, options);
+  }
+}
+
+/**
+ * Thrown by clients when a payment costs more than the maximum they allow
+ */
+export class PaymentAmountExceededError extends X402Error {
+  /**
+   * Creates a payment amount exceeded error
+   *
+   * @param paymentRequirements - The payment requirements asking for too much
+   * @param maxAmount - The maximum amount allowed, in atomic units of the asset
+   */
+  constructor(
+    paymentRequirements: PaymentRequirements,
+    readonly maxAmount: bigint,
+  ) {
+    super("payment_amount_exceeds_maximum", undefined, { paymentRequirements });
+  }
+}
+
+/**
+ * Thrown when a payment is malformed or rejected by verification
+ */
+export class InvalidPaymentError extends X402Error {}
+
+/**
+ * Thrown when a request to the facilitator fails
+ */
+export class FacilitatorError extends X402Error {
+  /**
+   * Creates a facilitator error
+   *
+   * @param message - A human readable description
+   * @param status - The HTTP status returned by the facilitator
+   */
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super("facilitator_request_failed", message);
+  }
+}
+
+/**
+ * Gets the human readable description of an error code
+ *
+ * @param code - The error code
+ * @returns The description of the code
+ */
+export function getErrorMessage(code: ErrorReason): string {
+  return errorMessages[code];
+}
+
+/**
+ * Converts any thrown value into an x402 error
+ *
+ * x402 errors are returned as they are; other values are wrapped in an error of the given code,
+ * so that their message, which may expose internal details, is not reported to clients.
+ *
+ * @param error - The thrown value
+ * @param code - The code of the error wrapping values that are not x402 errors
+ * @returns The x402 error
+ */
+export function toX402Error(error: unknown, code: ErrorReason): X402Error {
+  return error instanceof X402Error ? error : new X402Error(code, undefined, { cause: error });
+}
@@ -0,0 +1,181 @@
+// ABI of the X402Channel contract, see contracts/src/X402Channel.sol
+const authorizationComponents = [
+  { internalType: "address", name: "from", type: "address" },
+  { internalType: "uint256", name: "value", type: "uint256" },
+  { internalType: "uint256", name: "validAfter", type: "uint256" },
+  { internalType: "uint256", name: "validBefore", type: "uint256" },
+] as const;
+
+const termsComponents = [
+  { internalType: "address", name: "payTo", type: "address" },
+  { internalType: "address", name: "operator", type: "address" },
+  { internalType: "uint256", name: "timeout", type: "uint256" },
+  { internalType: "bytes32", name: "salt", type: "bytes32" },
+] as const;
+
+export const channelABI = [
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      {
+        components: authorizationComponents,
+        internalType: "struct X402Channel.Authorization",
+        name: "authorization",
+        type: "tuple",
+      },
+      {
+        components: termsComponents,
+        internalType: "struct X402Channel.Terms",
+        name: "terms",
+        type: "tuple",
+      },
+      { internalType: "bytes", name: "signature", type: "bytes" },
+    ],
+    name: "open",
+    outputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "id", type: "bytes32" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+      { internalType: "bytes", name: "signature", type: "bytes" },
+    ],
+    name: "claim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "id", type: "bytes32" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+      { internalType: "bytes", name: "signature", type: "bytes" },
+    ],
+    name: "close",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    name: "reclaim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    name: "channels",
+    outputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "payer", type: "address" },
+      { internalType: "address", name: "payTo", type: "address" },
+      { internalType: "address", name: "operator", type: "address" },
+      { internalType: "uint256", name: "deposit", type: "uint256" },
+      { internalType: "uint256", name: "claimed", type: "uint256" },
+      { internalType: "uint256", name: "expiresAt", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: termsComponents,
+        internalType: "struct X402Channel.Terms",
+        name: "terms",
+        type: "tuple",
+      },
+    ],
+    name: "hashTerms",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "payer", type: "address" },
+      { internalType: "bytes32", name: "nonce", type: "bytes32" },
+    ],
+    name: "getChannelId",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "id", type: "bytes32" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "hashVoucher",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "id", type: "bytes32" },
+      { indexed: true, internalType: "address", name: "token", type: "address" },
+      { indexed: true, internalType: "address", name: "payer", type: "address" },
+      { indexed: false, internalType: "address", name: "payTo", type: "address" },
+      { indexed: false, internalType: "uint256", name: "deposit", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "expiresAt", type: "uint256" },
+    ],
+    name: "Opened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "id", type: "bytes32" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "claimed", type: "uint256" },
+    ],
+    name: "Claimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "id", type: "bytes32" },
+      { indexed: false, internalType: "uint256", name: "claimed", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "refunded", type: "uint256" },
+    ],
+    name: "Closed",
+    type: "event",
+  },
+  { inputs: [], name: "ChannelExists", type: "error" },
+  { inputs: [], name: "ChannelExpired", type: "error" },
+  { inputs: [], name: "ChannelNotExpired", type: "error" },
+  { inputs: [], name: "InvalidAmount", type: "error" },
+  { inputs: [], name: "InvalidSignature", type: "error" },
+  { inputs: [], name: "TransferFailed", type: "error" },
+  { inputs: [], name: "Unauthorized", type: "error" },
+  { inputs: [], name: "UnknownChannel", type: "error" },
+] as const;
+
+// the vouchers paying through a channel, signed with the domain of the channel contract
+export const voucherTypes = {
+  Voucher: [
+    { name: "channelId", type: "bytes32" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+/**
+ * The channel terms the nonce of the authorization opening a `channel` commits to
+ */
+export type ChannelTerms = {
+  /** The recipient of the payments made through the channel */
+  payTo: `0x${string}`;
+  /** The address allowed to open the channel, usually the facilitator */
+  operator: `0x${string}`;
+  /** How long after it is opened the channel expires, in seconds */
+  timeout: bigint;
+  /** A random value making the nonce unique */
+  salt: `0x${string}`;
+};
@@ -73,4 +73,8 @@ export const config: Record<string, ChainConfig> = {
 export type ChainConfig = {
   usdcAddress: Address | SolanaAddress;
   usdcName: string;
+  /** The EIP-712 domain version of the token, defaults to "2" */
+  usdcVersion?: string;
+  /** The decimals of the token, defaults to 6 */
+  usdcDecimals?: number;
 };
@@ -0,0 +1,71 @@
+import { defineChain } from "viem";
+import { describe, expect, it } from "vitest";
+import { getDefaultAsset, getNetworkId } from "../../../shared";
+import { ChainIdToNetwork, NetworkSchema, SupportedEVMNetworks } from "../network";
+import { registerEvmNetwork } from "./customNetworks";
+import { getChainFromNetwork } from "./wallet";
+
+const devChain = defineChain({
+  id: 31337,
+  name: "Dev Chain",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: ["http://localhost:8545"] } },
+});
+
+const defaultAsset = {
+  address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  decimals: 18,
+  eip712: { name: "Dev Dollar", version: "1" },
+} as const;
+
+describe("registerEvmNetwork", () => {
+  it("rejects unregistered networks", () => {
+    expect(NetworkSchema.safeParse("dev-chain").success).toBe(false);
+    expect(() => getNetworkId("dev-chain")).toThrow("Unsupported network: dev-chain");
+  });
+
+  it("makes the network available to the library", () => {
+    registerEvmNetwork({
+      network: "dev-chain",
+      chain: devChain,
+      rpcUrl: "http://127.0.0.1:9545",
+      defaultAsset,
+    });
+
+    expect(NetworkSchema.parse("dev-chain")).toBe("dev-chain");
+    expect(SupportedEVMNetworks).toContain("dev-chain");
+    expect(getNetworkId("dev-chain")).toBe(31337);
+    expect(ChainIdToNetwork[31337]).toBe("dev-chain");
+    expect(getDefaultAsset("dev-chain")).toEqual(defaultAsset);
+
+    const chain = getChainFromNetwork("dev-chain");
+    expect(chain.id).toBe(31337);
+    expect(chain.rpcUrls.default.http).toEqual(["http://127.0.0.1:9545"]);
+  });
+
+  it("replaces the configuration of a registered network", () => {
+    registerEvmNetwork({ network: "dev-chain", chain: devChain, defaultAsset });
+    registerEvmNetwork({ network: "dev-chain", chain: devChain, defaultAsset });
+
+    expect(SupportedEVMNetworks.filter(network => network === "dev-chain")).toHaveLength(1);
+    expect(getChainFromNetwork("dev-chain").rpcUrls.default.http).toEqual([
+      "http://localhost:8545",
+    ]);
+  });
+
+  it("rejects built-in network names", () => {
+    expect(() => registerEvmNetwork({ network: "base", chain: devChain, defaultAsset })).toThrow(
+      "Network base is built in and cannot be registered",
+    );
+  });
+
+  it("rejects chain ids used by another network", () => {
+    expect(() =>
+      registerEvmNetwork({
+        network: "other-chain",
+        chain: { ...devChain, id: 84532 },
+        defaultAsset,
+      }),
+    ).toThrow("Chain id 84532 is already used by network base-sepolia");
+  });
+});
@@ -0,0 +1,94 @@
+import { Address, Chain } from "viem";
+import {
+  BuiltInNetworkSchema,
+  ChainIdToNetwork,
+  EvmNetworkToChainId,
+  SupportedEVMNetworks,
+} from "../network";
+import { config } from "./config";
+
+/**
+ * An EVM network that is not built into the library, e.g. a new L2 or a private test chain
+ */
+export type EvmNetworkConfig = {
+  /** The name the network is referred to by in routes and payment requirements */
+  network: string;
+  /** The viem chain of the network, its id is used as the chain id of the network */
+  chain: Chain;
+  /** The RPC URL to connect to, defaults to the default RPC URL of the chain */
+  rpcUrl?: string;
+  /** The stablecoin used for prices given in dollars */
+  defaultAsset: {
+    /** The address of the token contract */
+    address: Address;
+    /** The decimals of the token, defaults to 6 */
+    decimals?: number;
+    /** The EIP-712 domain of the token */
+    eip712: {
+      name: string;
+      version: string;
+    };
+  };
+};
+
+const customChains = new Map<string, Chain>();
+
+/**
+ * Registers an EVM network at runtime
+ *
+ * Once registered, the network is accepted by the schemas, resolved by `getNetworkId`,
+ * `ChainIdToNetwork`, `createConnectedClient` and `createSigner`, and its default asset is used
+ * for prices given in dollars. Registering a network again replaces its configuration.
+ *
+ * @param networkConfig - The configuration of the network
+ * @throws Error if the name is a built-in network or the chain id belongs to another network
+ */
+export function registerEvmNetwork(networkConfig: EvmNetworkConfig): void {
+  const { network, rpcUrl, defaultAsset } = networkConfig;
+  const chainId = networkConfig.chain.id;
+
+  if (BuiltInNetworkSchema.safeParse(network).success) {
+    throw new Error(`Network ${network} is built in and cannot be registered`);
+  }
+  const existingNetwork = ChainIdToNetwork[chainId];
+  if (existingNetwork && existingNetwork !== network) {
+    throw new Error(`Chain id ${chainId} is already used by network ${existingNetwork}`);
+  }
+
+  // a previous registration of the network may have used another chain id
+  const previousChainId = EvmNetworkToChainId.get(network);
+  if (previousChainId !== undefined && previousChainId !== chainId) {
+    delete ChainIdToNetwork[previousChainId];
+    delete config[previousChainId.toString()];
+  }
+
+  const chain: Chain = rpcUrl
+    ? {
+        ...networkConfig.chain,
+        rpcUrls: { ...networkConfig.chain.rpcUrls, default: { http: [rpcUrl] } },
+      }
+    : networkConfig.chain;
+
+  customChains.set(network, chain);
+  if (!SupportedEVMNetworks.includes(network)) {
+    SupportedEVMNetworks.push(network);
+  }
+  EvmNetworkToChainId.set(network, chainId);
+  ChainIdToNetwork[chainId] = network;
+  config[chainId.toString()] = {
+    usdcAddress: defaultAsset.address,
+    usdcName: defaultAsset.eip712.name,
+    usdcVersion: defaultAsset.eip712.version,
+    usdcDecimals: defaultAsset.decimals,
+  };
+}
+
+/**
+ * Gets the chain of a network registered with `registerEvmNetwork`
+ *
+ * @param network - The name of the network
+ * @returns The chain, or undefined if the network was not registered
+ */
+export function getCustomChain(network: string): Chain | undefined {
+  return customChains.get(network);
+}
@@ -10,3 +10,17 @@ export const authorizationTypes = {
 };
 
 export const authorizationPrimaryType = "TransferWithAuthorization";
+
+// authorizations that only the recipient can submit, e.g. the escrow of the `escrow` scheme
+export const receiveAuthorizationTypes = {
+  ReceiveWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+export const receiveAuthorizationPrimaryType = "ReceiveWithAuthorization";
@@ -0,0 +1,148 @@
+// ABI of the X402Escrow contract, see contracts/src/X402Escrow.sol
+const authorizationComponents = [
+  { internalType: "address", name: "from", type: "address" },
+  { internalType: "uint256", name: "value", type: "uint256" },
+  { internalType: "uint256", name: "validAfter", type: "uint256" },
+  { internalType: "uint256", name: "validBefore", type: "uint256" },
+] as const;
+
+const termsComponents = [
+  { internalType: "address", name: "payTo", type: "address" },
+  { internalType: "address", name: "operator", type: "address" },
+  { internalType: "uint256", name: "releaseTimeout", type: "uint256" },
+  { internalType: "bytes32", name: "salt", type: "bytes32" },
+] as const;
+
+export const escrowABI = [
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      {
+        components: authorizationComponents,
+        internalType: "struct X402Escrow.Authorization",
+        name: "authorization",
+        type: "tuple",
+      },
+      {
+        components: termsComponents,
+        internalType: "struct X402Escrow.Terms",
+        name: "terms",
+        type: "tuple",
+      },
+      { internalType: "bytes", name: "signature", type: "bytes" },
+    ],
+    name: "deposit",
+    outputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "id", type: "bytes32" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "release",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    name: "refund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "id", type: "bytes32" }],
+    name: "deposits",
+    outputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "payer", type: "address" },
+      { internalType: "address", name: "payTo", type: "address" },
+      { internalType: "address", name: "operator", type: "address" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+      { internalType: "uint256", name: "releaseAt", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: termsComponents,
+        internalType: "struct X402Escrow.Terms",
+        name: "terms",
+        type: "tuple",
+      },
+    ],
+    name: "hashTerms",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "payer", type: "address" },
+      { internalType: "bytes32", name: "nonce", type: "bytes32" },
+    ],
+    name: "getDepositId",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "id", type: "bytes32" },
+      { indexed: true, internalType: "address", name: "token", type: "address" },
+      { indexed: true, internalType: "address", name: "payer", type: "address" },
+      { indexed: false, internalType: "address", name: "payTo", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "releaseAt", type: "uint256" },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "id", type: "bytes32" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "refunded", type: "uint256" },
+    ],
+    name: "Released",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "id", type: "bytes32" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "Refunded",
+    type: "event",
+  },
+  { inputs: [], name: "AmountExceedsDeposit", type: "error" },
+  { inputs: [], name: "DepositExists", type: "error" },
+  { inputs: [], name: "InvalidSignature", type: "error" },
+  { inputs: [], name: "RefundPeriodOver", type: "error" },
+  { inputs: [], name: "TransferFailed", type: "error" },
+  { inputs: [], name: "Unauthorized", type: "error" },
+  { inputs: [], name: "UnknownDeposit", type: "error" },
+] as const;
+
+/**
+ * The escrow terms the nonce of an `escrow` authorization commits to
+ */
+export type EscrowTerms = {
+  /** The recipient of the payment once it is released */
+  payTo: `0x${string}`;
+  /** The address allowed to deposit, release and refund the payment, usually the facilitator */
+  operator: `0x${string}`;
+  /** How long after the deposit the payment can be refunded, in seconds */
+  releaseTimeout: bigint;
+  /** A random value making the nonce unique */
+  salt: `0x${string}`;
+};
@@ -1,4 +1,12 @@
 export * from "./config";
+export * from "./customNetworks";
+export * from "./eip2612";
 export * from "./eip3009";
+export * from "./permit2";
 export * from "./erc20PermitABI";
 export * from "./wallet";
+export * from "./permitRouter";
+export * from "./escrow";
+export * from "./channel";
+export * from "./multicall";
+export * from "./shieldedPool";
@@ -0,0 +1,95 @@
+// EIP-712 domain of the X402PermitRouter contract, see contracts/src/X402PermitRouter.sol
+export const permitRouterDomain = {
+  name: "x402 Permit Router",
+  version: "1",
+} as const;
+
+export const permitTransferTypes = {
+  PermitTransfer: [
+    { name: "token", type: "address" },
+    { name: "payTo", type: "address" },
+    { name: "facilitator", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const permitTransferPrimaryType = "PermitTransfer";
+
+const permitComponents = [
+  { internalType: "address", name: "owner", type: "address" },
+  { internalType: "uint256", name: "value", type: "uint256" },
+  { internalType: "uint256", name: "nonce", type: "uint256" },
+  { internalType: "uint256", name: "deadline", type: "uint256" },
+] as const;
+
+export const permitRouterABI = [
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "payTo", type: "address" },
+      {
+        components: permitComponents,
+        internalType: "struct X402PermitRouter.Permit",
+        name: "permit",
+        type: "tuple",
+      },
+      { internalType: "bytes", name: "permitSignature", type: "bytes" },
+      { internalType: "bytes", name: "transferSignature", type: "bytes" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "settle",
+    outputs: [{ internalType: "bytes32", name: "digest", type: "bytes32" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "payTo", type: "address" },
+      { internalType: "address", name: "facilitator", type: "address" },
+      {
+        components: permitComponents,
+        internalType: "struct X402PermitRouter.Permit",
+        name: "permit",
+        type: "tuple",
+      },
+    ],
+    name: "hashPermitTransfer",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "digest", type: "bytes32" }],
+    name: "settled",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "domainSeparator",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "digest", type: "bytes32" },
+      { indexed: true, internalType: "address", name: "token", type: "address" },
+      { indexed: true, internalType: "address", name: "owner", type: "address" },
+      { indexed: false, internalType: "address", name: "payTo", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "PermitTransferSettled",
+    type: "event",
+  },
+  { inputs: [], name: "AmountExceedsPermit", type: "error" },
+  { inputs: [], name: "InvalidSignature", type: "error" },
+  { inputs: [], name: "PermitTransferAlreadySettled", type: "error" },
+  { inputs: [], name: "PermitTransferExpired", type: "error" },
+  { inputs: [], name: "TransferFailed", type: "error" },
+] as const;
@@ -0,0 +1,166 @@
+// ABI of the X402ShieldedPool contract, see contracts/src/X402ShieldedPool.sol
+export const shieldedPoolABI = [
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "from", type: "address" },
+          { internalType: "uint256", name: "value", type: "uint256" },
+          { internalType: "uint256", name: "validAfter", type: "uint256" },
+          { internalType: "uint256", name: "validBefore", type: "uint256" },
+        ],
+        internalType: "struct X402ShieldedPool.Authorization",
+        name: "authorization",
+        type: "tuple",
+      },
+      { internalType: "uint256[2][]", name: "keys", type: "uint256[2][]" },
+      { internalType: "bytes", name: "signature", type: "bytes" },
+    ],
+    name: "deposit",
+    outputs: [{ internalType: "uint256", name: "index", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "recipient", type: "address" },
+          { internalType: "bytes32", name: "nonce", type: "bytes32" },
+          { internalType: "uint256", name: "deadline", type: "uint256" },
+        ],
+        internalType: "struct X402ShieldedPool.Withdrawal",
+        name: "withdrawal",
+        type: "tuple",
+      },
+      {
+        components: [
+          { internalType: "uint256[]", name: "ring", type: "uint256[]" },
+          { internalType: "uint256[2]", name: "keyImage", type: "uint256[2]" },
+          { internalType: "uint256", name: "c", type: "uint256" },
+          { internalType: "uint256[]", name: "s", type: "uint256[]" },
+        ],
+        internalType: "struct X402ShieldedPool.RingSignature",
+        name: "signature",
+        type: "tuple",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "depositCount",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "start", type: "uint256" },
+      { internalType: "uint256", name: "end", type: "uint256" },
+    ],
+    name: "getDeposits",
+    outputs: [{ internalType: "uint256[2][]", name: "keys", type: "uint256[2][]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256[]", name: "ring", type: "uint256[]" }],
+    name: "getRing",
+    outputs: [{ internalType: "uint256[2][]", name: "keys", type: "uint256[2][]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "denomination",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "key", type: "bytes32" }],
+    name: "deposited",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "nullifier", type: "bytes32" }],
+    name: "nullified",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256[2][]", name: "keys", type: "uint256[2][]" }],
+    name: "hashKeys",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256[2]", name: "keyImage", type: "uint256[2]" }],
+    name: "getNullifier",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "recipient", type: "address" },
+          { internalType: "bytes32", name: "nonce", type: "bytes32" },
+          { internalType: "uint256", name: "deadline", type: "uint256" },
+        ],
+        internalType: "struct X402ShieldedPool.Withdrawal",
+        name: "withdrawal",
+        type: "tuple",
+      },
+      { internalType: "uint256[]", name: "ring", type: "uint256[]" },
+      { internalType: "uint256[2]", name: "keyImage", type: "uint256[2]" },
+    ],
+    name: "hashWithdrawal",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "index", type: "uint256" },
+      { indexed: false, internalType: "uint256[2]", name: "key", type: "uint256[2]" },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "bytes32", name: "nullifier", type: "bytes32" },
+      { indexed: true, internalType: "address", name: "recipient", type: "address" },
+      { indexed: false, internalType: "bytes32", name: "nonce", type: "bytes32" },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  { inputs: [], name: "InvalidAmount", type: "error" },
+  { inputs: [], name: "InvalidKey", type: "error" },
+  { inputs: [], name: "InvalidRing", type: "error" },
+  { inputs: [], name: "InvalidSignature", type: "error" },
+  { inputs: [], name: "NoteSpent", type: "error" },
+  { inputs: [], name: "PrecompileFailed", type: "error" },
+  { inputs: [], name: "TransferFailed", type: "error" },
+  { inputs: [], name: "WithdrawalExpired", type: "error" },
+] as const;
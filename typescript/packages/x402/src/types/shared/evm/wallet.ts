@@ -27,6 +27,7 @@ import {
   story,
 } from "viem/chains";
 import { skaleBaseSepolia } from "../custom-chains";
+import { getCustomChain } from "./customNetworks";
 import { privateKeyToAccount } from "viem/accounts";
 import { Hex } from "viem";
 import { eip712WalletActions } from "viem/zksync";
@@ -191,7 +192,7 @@ export function isAccount<
 }
 
 /**
- * Maps network strings to Chain objects
+ * Maps network strings to Chain objects, including networks registered with `registerEvmNetwork`
  *
  * @param network - The network string to convert to a Chain object
  * @returns The corresponding Chain object
@@ -232,8 +233,13 @@ export function getChainFromNetwork(network: string | undefined): Chain {
       return iotexTestnet;
     case "skale-base-sepolia":
       return skaleBaseSepolia;
-    default:
-      throw new Error(`Unsupported network: ${network}`);
+    default: {
+      const chain = getCustomChain(network);
+      if (!chain) {
+        throw new Error(`Unsupported network: ${network}`);
+      }
+      return chain;
+    }
   }
 }
 
@@ -1,7 +1,19 @@
+export * from "./channel";
+export * from "./errors";
 export * from "./money";
 export * from "./network";
+export * from "./paymentStore";
+export * from "./privacy";
+export * from "./receipt";
+export * from "./refund";
+export * from "./requestBinding";
+export * from "./session";
+export * from "./settlement";
+export * from "./stealth";
+export * from "./shielded";
 export * from "./resource";
 export * from "./middleware";
 export * from "./wallet";
 export * as evm from "./evm";
 export * as svm from "./svm";
+export * as sui from "./sui";
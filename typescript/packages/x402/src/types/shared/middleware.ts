@@ -1,9 +1,19 @@
+import { Address } from "viem";
+import { Address as SolanaAddress } from "@solana/kit";
 import { CreateHeaders } from "../../verify";
 import { Money } from "./money";
 import { Network } from "./network";
 import { Resource } from "./resource";
+import { ChannelOptions } from "./channel";
 import { EvmSigner } from "./evm";
-import { HTTPRequestStructure } from "..";
+import { PaymentStore } from "./paymentStore";
+import { PrivacyConfig } from "./privacy";
+import { ReceiptConfig } from "./receipt";
+import { RefundConfig } from "./refund";
+import { SessionConfig, SessionStore } from "./session";
+import { SettlementMode, SettlementOptions } from "./settlement";
+import { StealthConfig } from "./stealth";
+import { HTTPRequestStructure, schemes, X402Version } from "..";
 
 export type FacilitatorConfig = {
   url: Resource;
@@ -17,8 +27,87 @@ export type PaywallConfig = {
   sessionTokenEndpoint?: string;
 };
 
+export type PaymentMiddlewareOptions = {
+  /**
+   * Records the payments being processed so the same X-PAYMENT header cannot be replayed while it
+   * is verified, handled or settled. Defaults to an in-memory store, which only protects a single
+   * process; use a shared store such as `createRedisPaymentStore` when running several instances.
+   */
+  paymentStore?: PaymentStore;
+  /**
+   * Counts the requests made with access tokens of routes whose session has `maxRequests`.
+   * Defaults to an in-memory store, which only counts the requests made to a single process.
+   */
+  sessionStore?: SessionStore;
+  /**
+   * Configures the queue, retries and callbacks of routes whose `settlement` is `async`
+   */
+  settlement?: SettlementOptions;
+  /**
+   * The protocol versions accepted from clients, advertised in 402 responses. Defaults to version
+   * 1; version 2 is experimental and requires a facilitator that supports it.
+   */
+  x402Versions?: X402Version[];
+  /**
+   * Signs a receipt of every settled payment, returned in the `X-PAYMENT-RECEIPT` header. Payments
+   * settled in `async` mode do not get a receipt, as their settlement is not known yet.
+   */
+  receipts?: ReceiptConfig;
+  /**
+   * Lets the middleware refund payments it settled but could not deliver the response of, e.g.
+   * because the client disconnected, from the payTo wallet or a dedicated refund wallet
+   */
+  refunds?: RefundConfig;
+  /**
+   * Configures the payment channels of routes accepting the `channel` scheme, whose vouchers are
+   * verified by the middleware and claimed periodically through the facilitator
+   */
+  channels?: ChannelOptions;
+  /**
+   * Receives `exact` payments on EVM networks at a fresh stealth address (ERC-5564) derived from a
+   * stealth meta-address in every 402 response, instead of the payTo address
+   */
+  stealth?: StealthConfig;
+  /**
+   * Redacts or hashes payer addresses in responses, access tokens, receipts and logs, and only
+   * hands them to route handlers when `exposePayer` is set
+   */
+  privacy?: PrivacyConfig;
+};
+
+/**
+ * A framework-agnostic view of an incoming HTTP request.
+ *
+ * Each middleware adapter (Express, Hono, Next) maps its native request onto this shape
+ * before handing it to the payment gate.
+ */
+export interface HTTPRequestContext {
+  /** The HTTP method of the request */
+  method: string;
+  /** The request path, used for route matching */
+  path: string;
+  /** The absolute URL of the request, including the query string */
+  url: string;
+  /** Returns the value of a request header, or undefined if it is not present */
+  getHeader: (name: string) => string | undefined;
+  /**
+   * Returns the raw request body without consuming it for the handler, or undefined if it cannot
+   * be read. Only used to hash the body into payment receipts
+   */
+  getBody?: () => Promise<Uint8Array | undefined>;
+}
+
+/**
+ * A route setting that is either fixed or computed from the incoming request.
+ *
+ * Functions are evaluated on every request to a protected route, before the payment
+ * requirements are built, so both the 402 response and the verification of a payment use
+ * the computed value.
+ */
+export type RouteValue<T> = T | ((request: HTTPRequestContext) => T | Promise<T>);
+
 export type PaymentMiddlewareConfig = {
-  description?: string;
+  description?: RouteValue<string>;
   mimeType?: string;
   maxTimeoutSeconds?: number;
   inputSchema?: Omit<HTTPRequestStructure, "type" | "method">;
@@ -26,6 +115,30 @@ export type PaymentMiddlewareConfig = {
   discoverable?: boolean;
   customPaywallHtml?: string;
   resource?: Resource;
+  session?: SessionConfig;
+  /**
+   * Whether the response waits for the payment to settle (`sync`, the default) or is sent once
+   * the payment is verified while the settlement completes in the background (`async`). With
+   * `batch`, the response waits for a facilitator that settles concurrent payments together.
+   */
+  settlement?: SettlementMode;
+  /**
+   * Only accepts payments bound to the method, URL and body of the request they are sent with,
+   * for schemes that support it. Payments of other schemes are rejected.
+   */
+  bindRequest?: boolean;
+  /**
+   * How long `escrow` payments can be refunded after they are deposited, in seconds, defaults to
+   * one hour. Deposits that are neither released nor refunded by then can be released by anyone.
+   */
+  escrowReleaseTimeoutSeconds?: number;
+  /**
+   * How long the channels opened by `channel` payments stay open, in seconds, defaults to one day.
+   * Clients open a new channel once half of it has passed.
+   */
+  channelTimeoutSeconds?: number;
+  /** How many payments the deposit of a `channel` payment covers, defaults to 100 */
+  channelDepositPayments?: number;
   errorMessages?: {
     paymentRequired?: string;
     invalidPayment?: string;
@@ -40,10 +153,16 @@ export interface ERC20TokenAmount {
   asset: {
     address: `0x${string}`;
     decimals: number;
-    eip712: {
+    /** The EIP-712 domain of the token, required unless it is transferred with Permit2 */
+    eip712?: {
       name: string;
       version: string;
     };
+    /**
+     * How the token is transferred, defaults to `eip3009`. Use `permit2` for tokens implementing
+     * neither EIP-3009 nor EIP-2612; payers approve the Permit2 contract once per token.
+     */
+    assetTransferMethod?: "eip3009" | "permit2";
   };
 }
 
@@ -57,12 +176,48 @@ export interface SPLTokenAmount {
 
 export type Price = Money | ERC20TokenAmount | SPLTokenAmount;
 
-export interface RouteConfig {
+export type PaymentScheme = (typeof schemes)[number];
+
+export interface PaymentOption {
+  /**
+   * The payment scheme, defaults to `exact`. With `upto`, `permit` and `escrow` the price is the
+   * maximum charge and the handler reports the amount actually consumed before settlement. `permit`
+   * accepts EIP-2612 tokens that do not implement EIP-3009, through the facilitator's router.
+   * `escrow` deposits the payment into the facilitator's escrow before the handler runs, then
+   * releases it when the handler succeeds and refunds it when the handler fails. `channel` opens a
+   * channel funded for several payments with the first payment, and pays the next ones with
+   * off-chain vouchers verified by the middleware.
+   */
+  scheme?: PaymentScheme;
+  price: RouteValue<Price>;
+  network: RouteValue<Network>;
+  /** Overrides the middleware's payTo address, e.g. to receive SVM payments next to EVM ones */
+  payTo?: RouteValue<Address | SolanaAddress>;
+}
+
+export interface ResolvedPaymentOption {
+  scheme?: PaymentScheme;
   price: Price;
   network: Network;
-  config?: PaymentMiddlewareConfig;
+  payTo?: Address | SolanaAddress;
 }
 
+export type ResolvedPaymentMiddlewareConfig = Omit<PaymentMiddlewareConfig, "description"> & {
+  description?: string;
+};
+
+/**
+ * A route configuration whose request-dependent values have been computed
+ */
+export interface ResolvedRouteConfig {
+  accepts: ResolvedPaymentOption[];
+  config: ResolvedPaymentMiddlewareConfig;
+}
+
+export type RouteConfig = (PaymentOption | { accepts: PaymentOption[] }) & {
+  config?: PaymentMiddlewareConfig;
+};
+
 export type RoutesConfig = Record<string, Price | RouteConfig>;
 
 export interface RoutePattern {
@@ -1,6 +1,6 @@
 import { z } from "zod";
 
-export const NetworkSchema = z.enum([
+export const BuiltInNetworkSchema = z.enum([
   "abstract",
   "abstract-testnet",
   "base-sepolia",
@@ -17,8 +17,20 @@ export const NetworkSchema = z.enum([
   "peaq",
   "story",
   "skale-base-sepolia",
+  "sui-testnet",
+  "sui-mainnet",
+]);
+export type BuiltInNetwork = z.infer<typeof BuiltInNetworkSchema>;
+
+// networks registered at runtime (see `registerEvmNetwork`) are any other string, so the
+// schema checks them against the supported networks when a value is parsed
+export type Network = BuiltInNetwork | (string & {});
+export const NetworkSchema: z.ZodType<Network> = z.union([
+  BuiltInNetworkSchema,
+  z.string().refine(network => SupportedEVMNetworks.includes(network), {
+    message: "Unsupported network",
+  }),
 ]);
-export type Network = z.infer<typeof NetworkSchema>;
 
 // evm
 export const SupportedEVMNetworks: Network[] = [
@@ -61,6 +73,9 @@ export const SvmNetworkToChainId = new Map<Network, number>([
   ["solana", 101],
 ]);
 
+// sui
+export const SupportedSuiNetworks: Network[] = ["sui-testnet", "sui-mainnet"];
+
 export const ChainIdToNetwork = Object.fromEntries(
   [...SupportedEVMNetworks, ...SupportedSVMNetworks].map(network => [
     EvmNetworkToChainId.get(network),
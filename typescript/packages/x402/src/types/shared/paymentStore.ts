@@ -0,0 +1,24 @@
+/**
+ * Records the payments being processed so the same payment cannot be used twice
+ *
+ * Payments are identified by an id derived from their payload (e.g. the EIP-3009 authorization
+ * nonce). Stores shared between processes, such as Redis, protect every instance of a server
+ * or facilitator at once.
+ */
+export interface PaymentStore {
+  /**
+   * Records a payment id if it is not already recorded
+   *
+   * @param id - The id of the payment
+   * @param ttlSeconds - How long to remember the id, after which the payment has expired anyway
+   * @returns True if the id was recorded, false if it was already recorded
+   */
+  claim(id: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Forgets a payment id, so that a payment that was not settled can be used again
+   *
+   * @param id - The id of the payment
+   */
+  release(id: string): Promise<void>;
+}
@@ -0,0 +1,25 @@
+/**
+ * Limits where the middleware exposes the addresses of payers
+ *
+ * Without a privacy policy, payer addresses are returned in 402 responses, in the
+ * `X-PAYMENT-RESPONSE` header, in access tokens and receipts, and logged with errors. With one,
+ * they are redacted or replaced by a keyed hash in every response and log line, and only handed
+ * to route handlers when `exposePayer` is set.
+ */
+export type PrivacyConfig = {
+  /**
+   * Whether payer addresses are removed (`redact`) or replaced by a keyed hash (`hash`), which
+   * still lets the server tell the payments of the same payer apart from others
+   */
+  payer: "redact" | "hash";
+  /**
+   * The secret keying the payer hashes, required with `hash`. Without a secret, anyone could
+   * recover an address by hashing every known address until one matches.
+   */
+  hashSecret?: string;
+  /**
+   * Hands the address of the payer to route handlers, e.g. to look up an account. Defaults to
+   * false, so handlers only learn who paid when they ask for it.
+   */
+  exposePayer?: boolean;
+};
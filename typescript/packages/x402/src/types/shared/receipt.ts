@@ -0,0 +1,66 @@
+import { Address, Hex } from "viem";
+import { PaymentRequirements } from "../verify";
+import { Network } from "./network";
+
+/**
+ * Lets the server sign a receipt of every payment it settles
+ *
+ * After a successful settlement the middleware returns the signed receipt in the
+ * `X-PAYMENT-RECEIPT` response header. Clients pin the address of the signing key and keep the
+ * receipts as proof of what they paid for.
+ */
+export type ReceiptConfig = {
+  /** The private key receipts are signed with. Its address is published to clients */
+  privateKey: Hex;
+};
+
+/**
+ * The request a payment receipt was issued for
+ */
+export type ReceiptRequest = {
+  /** The HTTP method of the request */
+  method: string;
+  /** The absolute URL of the request, including the query string */
+  url: string;
+  /** The SHA-256 hash of the request body, if the request has a body the server could read */
+  bodyHash?: Hex;
+};
+
+/**
+ * A signed statement of the server that a request was paid for
+ */
+export type PaymentReceipt = {
+  /** The request the payment was made for */
+  request: ReceiptRequest;
+  /** The payment requirements the payment was made against */
+  paymentRequirements: PaymentRequirements;
+  /** The address that paid */
+  payer?: string;
+  /** The network the payment was settled on */
+  network: Network;
+  /** The settlement transaction */
+  transaction: string;
+  /** The block the settlement transaction was included in, if reported by the facilitator */
+  blockNumber?: string;
+  /** When the receipt was issued, in seconds since the epoch */
+  timestamp: number;
+  /** The address of the key that signed the receipt */
+  signer: Address;
+};
+
+/**
+ * The expectations a payment receipt is verified against
+ */
+export type VerifyReceiptOptions = {
+  /** The address, or addresses, the server is known to sign receipts with */
+  signer: Address | Address[];
+  /**
+   * The request the receipt must have been issued for. The body is only compared when it is
+   * given; pass an empty string for requests without a body.
+   */
+  request?: {
+    method: string;
+    url: string;
+    body?: string | Uint8Array;
+  };
+};
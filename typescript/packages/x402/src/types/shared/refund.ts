@@ -0,0 +1,117 @@
+import { RefundResponse } from "../verify";
+import { Network } from "./network";
+import { Signer } from "./wallet";
+
+/**
+ * Lets the server refund payments it settled but could not deliver the response of
+ *
+ * Refunds are `exact` payments from the refund wallet to the payer of the settled payment, in the
+ * same asset and on the same network, submitted through the facilitator's `/refund` endpoint.
+ * The refund wallet must hold enough of the asset, and pays nothing for gas.
+ */
+export type RefundConfig = {
+  /** The wallet refunds are paid from, the payTo wallet or a wallet funded for refunds */
+  signer: Signer;
+  /** Called once a refund was submitted, whether it succeeded or not */
+  onRefunded?: (response: RefundResponse) => void | Promise<void>;
+};
+
+/**
+ * The status of a refund
+ */
+export type RefundStatus = "pending" | "refunded" | "failed";
+
+/**
+ * The refund of a settled payment, linking its settlement transaction to the refund transaction
+ */
+export type RefundRecord = {
+  /** The network the payment was settled and refunded on */
+  network: Network;
+  /** The settlement transaction of the refunded payment */
+  transaction: string;
+  /** The address refunded, the payer of the settled payment */
+  payer: string;
+  /** The refunded amount, in atomic units of the asset */
+  amount: string;
+  status: RefundStatus;
+  /** The refund transaction, once the refund is submitted */
+  refundTransaction?: string;
+  /** When the refund was requested, in milliseconds since the epoch */
+  createdAt: number;
+  /** The reason the refund failed */
+  error?: string;
+  /**
+   * Whether the failed refund may have been submitted to the network. Failed refunds are only
+   * attempted again when they were never broadcast, so that a payment is not refunded twice.
+   */
+  broadcast?: boolean;
+};
+
+/**
+ * A payment settled by the facilitator, recorded so that it is not refunded more than it paid
+ */
+export type SettlementRecord = {
+  /** The network the payment was settled on */
+  network: Network;
+  /** The settlement transaction, shared by the payments settled in the same batch */
+  transaction: string;
+  /** The payer of the payment */
+  payer: string;
+  /** The settled amount, in atomic units of the asset */
+  amount: string;
+};
+
+/**
+ * Records the settlements and refunds of a facilitator, so that no settled payment is refunded
+ * twice or more than it paid
+ *
+ * Use a durable store, e.g. backed by a database, to keep the refunds of every settlement.
+ */
+export interface RefundStore {
+  /**
+   * Records a settled payment. The amounts of the payments of a payer settled in the same
+   * transaction are added up.
+   *
+   * @param settlement - The settled payment
+   */
+  recordSettlement(settlement: SettlementRecord): Promise<void>;
+
+  /**
+   * Gets the payments of a payer settled in a transaction
+   *
+   * @param network - The network the payment was settled on
+   * @param transaction - The settlement transaction of the payment
+   * @param payer - The payer of the payment
+   * @returns The settlement, or undefined if no payment of the payer was settled in the transaction
+   */
+  getSettlement(
+    network: Network,
+    transaction: string,
+    payer: string,
+  ): Promise<SettlementRecord | undefined>;
+
+  /**
+   * Records a pending refund, unless the payment was already refunded or is being refunded, or
+   * its refund failed after it may have been broadcast
+   *
+   * @param refund - The pending refund
+   * @returns True if the refund was recorded, false if the payment was already refunded
+   */
+  create(refund: RefundRecord): Promise<boolean>;
+
+  /**
+   * Saves the new state of a refund
+   *
+   * @param refund - The refund to save
+   */
+  update(refund: RefundRecord): Promise<void>;
+
+  /**
+   * Gets the refund of a settled payment
+   *
+   * @param network - The network the payment was settled on
+   * @param transaction - The settlement transaction of the payment
+   * @returns The refund, or undefined if the payment was not refunded
+   */
+  get(network: Network, transaction: string): Promise<RefundRecord | undefined>;
+}
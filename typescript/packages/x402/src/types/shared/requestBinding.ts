@@ -0,0 +1,14 @@
+/**
+ * The request a payment is bound to
+ *
+ * Routes configured with `bindRequest` only accept payments bound to the request they are sent
+ * with, so that a captured `X-PAYMENT` header cannot be replayed against another URL or body.
+ */
+export type BoundRequest = {
+  /** The HTTP method of the request */
+  method: string;
+  /** The absolute URL of the request, including the query string */
+  url: string;
+  /** The body of the request, if any */
+  body?: string | Uint8Array;
+};
@@ -0,0 +1,49 @@
+/**
+ * Lets one payment unlock a route group for a while instead of paying for every request
+ *
+ * After a successful settlement the middleware returns a signed access token in the
+ * `X-ACCESS-TOKEN` response header (and optionally a cookie). Requests presenting a valid token
+ * for the route's group are let through without an `X-PAYMENT` header.
+ */
+export type SessionConfig = {
+  /** The secret access tokens are signed with, shared by every instance of the server */
+  secret: string;
+  /** How long an access token is valid for, in seconds. Defaults to 3600 */
+  durationSeconds?: number;
+  /** How many requests an access token may be used for. Unlimited by default */
+  maxRequests?: number;
+  /** Routes sharing a group accept each other's access tokens. Defaults to the route itself */
+  group?: string;
+  /** Whether to also set the access token as a cookie, for browsers. Defaults to false */
+  cookie?: boolean;
+};
+
+/**
+ * The claims of an access token
+ */
+export type AccessTokenClaims = {
+  /** The id of the token */
+  jti: string;
+  /** The route group the token unlocks */
+  group: string;
+  /** When the token expires, in seconds since the epoch */
+  exp: number;
+  /** How many requests the token may be used for, if limited */
+  max?: number;
+  /** The address that paid for the token */
+  payer?: string;
+};
+
+/**
+ * Counts the requests made with count-limited access tokens
+ */
+export interface SessionStore {
+  /**
+   * Increments the number of requests made with an access token
+   *
+   * @param id - The id of the access token
+   * @param ttlSeconds - How long to remember the count, after which the token has expired anyway
+   * @returns The number of requests made with the token, including this one
+   */
+  increment(id: string, ttlSeconds: number): Promise<number>;
+}
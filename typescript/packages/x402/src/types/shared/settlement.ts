@@ -0,0 +1,126 @@
+import { PaymentPayload, PaymentRequirements, SettleResponse } from "../verify";
+
+/**
+ * When a route settles its payments
+ *
+ * - `sync`: the response waits for the settlement and fails if the payment cannot be settled
+ * - `async`: the response is sent once the payment is verified and the settlement is queued, to
+ *   be completed in the background with retries
+ * - `batch`: like `sync`, but the facilitator may settle the payment in a single transaction with
+ *   other payments, which lowers the gas paid per payment and delays the response until the batch
+ *   is settled. Suits low-value routes; facilitators without batching settle the payment alone
+ */
+export type SettlementMode = "sync" | "async" | "batch";
+
+/**
+ * The status of a queued settlement
+ */
+export type SettlementStatus = "pending" | "settled" | "failed";
+
+/**
+ * A payment queued for settlement in the background
+ *
+ * Jobs only hold JSON values, so that durable queues can store them as they are.
+ */
+export type SettlementJob = {
+  /** The id of the payment, as returned by `getPaymentId` */
+  id: string;
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  /** The amount to charge for usage-based schemes such as `upto`, `permit` and `escrow` */
+  settlementAmount?: string;
+  status: SettlementStatus;
+  /** How many times settling the payment was attempted */
+  attempts: number;
+  /** When the job was queued, in milliseconds since the epoch */
+  createdAt: number;
+  /** When the job may next be attempted, in milliseconds since the epoch */
+  nextAttemptAt: number;
+  /** The response of the facilitator once the payment is settled */
+  settleResponse?: SettleResponse;
+  /** The reason of the last failed attempt */
+  error?: string;
+};
+
+/**
+ * Stores the settlements that are completed in the background
+ *
+ * Use a durable queue, e.g. backed by a database, so that queued settlements survive restarts.
+ */
+export interface SettlementQueue {
+  /**
+   * Adds a job to the queue
+   *
+   * @param job - The job to add
+   */
+  enqueue(job: SettlementJob): Promise<void>;
+
+  /**
+   * Saves the new state of a job
+   *
+   * @param job - The job to save
+   */
+  update(job: SettlementJob): Promise<void>;
+
+  /**
+   * Gets a job by the id of its payment
+   *
+   * @param id - The id of the payment
+   * @returns The job, or undefined if the payment was not queued
+   */
+  get(id: string): Promise<SettlementJob | undefined>;
+
+  /**
+   * Gets the pending jobs that may be attempted. Queues shared by several processes should hand
+   * each job to a single caller, e.g. by leasing it until it is updated.
+   *
+   * @param now - The current time, in milliseconds since the epoch
+   * @param limit - The maximum number of jobs to return
+   * @returns The jobs whose next attempt is due
+   */
+  due(now: number, limit: number): Promise<SettlementJob[]>;
+}
+
+/**
+ * Configures the settlement of routes in `async` settlement mode
+ */
+export type SettlementOptions = {
+  /** The queue holding the settlements. Defaults to an in-memory queue, lost on restart */
+  queue?: SettlementQueue;
+  /** How many times to attempt a settlement before marking it as failed. Defaults to 5 */
+  maxAttempts?: number;
+  /** How long to wait before the first retry, doubled after each attempt. Defaults to 2 seconds */
+  backoffSeconds?: number;
+  /**
+   * How often the queue is checked for due jobs once the worker is started, e.g. jobs left by a
+   * previous process. Defaults to 30 seconds
+   */
+  pollIntervalSeconds?: number;
+  /** Called once a payment is settled */
+  onSettled?: (job: SettlementJob) => void | Promise<void>;
+  /** Called once a payment could not be settled after every attempt */
+  onFailed?: (job: SettlementJob) => void | Promise<void>;
+};
+
+/**
+ * A payment settled in a batch with other payments
+ */
+export type BatchedPayment = {
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  /** The amount to charge for usage-based schemes such as `upto` and `permit` */
+  settlementAmount?: string;
+};
+
+/**
+ * Configures how a facilitator batches the settlements requested with `batch`
+ *
+ * Payments are queued per network, and a batch is settled once it holds `maxBatchSize` payments
+ * or `maxDelayMs` after its first payment was queued, whichever comes first.
+ */
+export type BatchSettlementOptions = {
+  /** How many payments are settled per transaction at most. Defaults to 50 */
+  maxBatchSize?: number;
+  /** How long a payment waits for others, in milliseconds. Defaults to 2 seconds */
+  maxDelayMs?: number;
+};
@@ -0,0 +1,49 @@
+import { Network } from "./network";
+
+/**
+ * A note deposited into a shielded pool, which pays one `shielded` payment of the pool's
+ * denomination
+ *
+ * Notes only hold JSON values, so that durable stores can save them as they are. Whoever holds the
+ * secret key of a note can spend it.
+ */
+export type ShieldedNote = {
+  network: Network;
+  /** The address of the shielded pool holding the note */
+  pool: string;
+  /** The index of the note in the pool */
+  index: number;
+  /** The secret key of the note, a hex encoded scalar of the alt_bn128 curve */
+  secretKey: string;
+};
+
+/**
+ * Keeps the unspent notes of a client paying with the `shielded` scheme
+ *
+ * Use a durable store: the funds of a note can only be withdrawn with its secret key.
+ */
+export interface ShieldedNoteStore {
+  /**
+   * Records deposited notes
+   *
+   * @param notes - The notes
+   */
+  add(notes: ShieldedNote[]): Promise<void>;
+
+  /**
+   * Removes and returns an unspent note of a pool, so that concurrent payments spend different
+   * notes
+   *
+   * @param network - The network of the pool
+   * @param pool - The address of the pool
+   * @returns The note, or undefined if no note of the pool is left
+   */
+  take(network: Network, pool: string): Promise<ShieldedNote | undefined>;
+
+  /**
+   * Lists the unspent notes
+   *
+   * @returns Every recorded note
+   */
+  list(): Promise<ShieldedNote[]>;
+}
@@ -0,0 +1,109 @@
+import { Network } from "./network";
+
+/**
+ * Lets the middleware receive `exact` payments on EVM networks at one-time stealth addresses
+ * (ERC-5564) instead of its payTo address
+ *
+ * Every 402 response advertises a fresh stealth address derived from the meta-address, so the
+ * payments cannot be linked to each other or to the payee on-chain. Only the holder of the viewing
+ * key can find the stealth addresses, and only the holder of the spending key can move their funds,
+ * see `scanStealthPayments` and `sweepStealthPayments`.
+ */
+export type StealthConfig = {
+  /**
+   * The stealth meta-address of the payee, `st:eth:0x` followed by its compressed spending and
+   * viewing public keys, see `generateStealthMetaAddress`
+   */
+  metaAddress: string;
+  /**
+   * Records the stealth addresses handed out, so that payments to them are accepted and their
+   * funds can be found. Addresses that were not paid to are forgotten once their payment
+   * requirements time out. Defaults to an in-memory store; use a durable store shared by every
+   * instance of the server in production.
+   */
+  store?: StealthAddressStore;
+};
+
+/**
+ * A stealth address handed out in a 402 response, with what its payee needs to find it (ERC-5564)
+ *
+ * Records only hold JSON values, so that durable stores can save them as they are.
+ */
+export type StealthAnnouncement = {
+  /** The one-time address payments are made to */
+  stealthAddress: string;
+  /** The compressed public key of the ephemeral key the address was derived with */
+  ephemeralPublicKey: string;
+  /** The first byte of the hashed shared secret, which lets scanners skip most other addresses */
+  viewTag: number;
+  /** When the address was handed out, in milliseconds since the epoch */
+  createdAt: number;
+  /**
+   * When the address is forgotten unless a payment to it is verified, in milliseconds since the
+   * epoch. Addresses that were paid to never expire.
+   */
+  expiresAt?: number;
+};
+
+/**
+ * Records the stealth addresses handed out by a resource server
+ *
+ * Every 402 response hands out an address, so addresses that were not paid to are forgotten once
+ * they expire. Use a durable store: the funds of a stealth address can only be found through its
+ * announcement.
+ */
+export interface StealthAddressStore {
+  /**
+   * Records a stealth address that was handed out, or replaces its record, e.g. without an
+   * expiration once a payment to it was verified
+   *
+   * @param announcement - The stealth address and its ephemeral public key
+   */
+  record(announcement: StealthAnnouncement): Promise<void>;
+
+  /**
+   * Gets the announcement of a stealth address
+   *
+   * @param stealthAddress - The stealth address
+   * @returns The announcement, or undefined if the address was not handed out or expired
+   */
+  get(stealthAddress: string): Promise<StealthAnnouncement | undefined>;
+
+  /**
+   * Removes a stealth address, e.g. once its funds were swept
+   *
+   * @param stealthAddress - The stealth address
+   */
+  delete(stealthAddress: string): Promise<void>;
+
+  /**
+   * Lists the recorded stealth addresses
+   *
+   * @returns The announcements of every recorded stealth address that did not expire
+   */
+  list(): Promise<StealthAnnouncement[]>;
+}
+
+/**
+ * A stealth address holding funds, found by `scanStealthPayments`
+ */
+export type StealthPayment = {
+  announcement: StealthAnnouncement;
+  /** The balance of the scanned asset, in atomic units */
+  balance: bigint;
+};
+
+/**
+ * Moves the funds of stealth addresses to a single address, see `sweepStealthPayments`
+ */
+export type StealthSweepOptions = {
+  network: Network;
+  /** The swept asset, which must implement EIP-3009 */
+  asset: { address: string; eip712: { name: string; version: string } };
+  /** The address receiving the funds */
+  to: string;
+  /** The private key of the viewing key of the meta-address */
+  viewingPrivateKey: string;
+  /** The private key of the spending key of the meta-address */
+  spendingPrivateKey: string;
+};
@@ -0,0 +1,7 @@
+import { Network } from "../network";
+
+// the native USDC coin types, used for prices given in dollars
+export const SuiUsdcCoinTypes: Partial<Record<Network, string>> = {
+  "sui-testnet": "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC",
+  "sui-mainnet": "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC",
+};
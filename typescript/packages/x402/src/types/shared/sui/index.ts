@@ -0,0 +1,2 @@
+export * from "./regex";
+export * from "./config";
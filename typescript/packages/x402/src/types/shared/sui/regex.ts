@@ -0,0 +1 @@
+export const SuiAddressRegex = /^0x[0-9a-fA-F]{64}$/;
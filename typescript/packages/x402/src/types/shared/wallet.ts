@@ -1,11 +1,12 @@
 import * as evm from "./evm/wallet";
 import * as svm from "../../shared/svm/wallet";
-import { SupportedEVMNetworks, SupportedSVMNetworks } from "./network";
+import * as sui from "../../shared/sui/wallet";
+import { SupportedEVMNetworks, SupportedSuiNetworks, SupportedSVMNetworks } from "./network";
 import { Hex } from "viem";
 
-export type ConnectedClient = evm.ConnectedClient | svm.SvmConnectedClient;
-export type Signer = evm.EvmSigner | svm.SvmSigner;
-export type MultiNetworkSigner = { evm: evm.EvmSigner; svm: svm.SvmSigner };
+export type ConnectedClient = evm.ConnectedClient | svm.SvmConnectedClient | sui.SuiConnectedClient;
+export type Signer = evm.EvmSigner | svm.SvmSigner | sui.SuiSigner;
+export type MultiNetworkSigner = { evm: evm.EvmSigner; svm: svm.SvmSigner; sui?: sui.SuiSigner };
 
 /**
  * Creates a public client configured for the specified network.
@@ -22,6 +23,10 @@ export function createConnectedClient(network: string): ConnectedClient {
     return svm.createSvmConnectedClient(network);
   }
 
+  if (SupportedSuiNetworks.find(n => n === network)) {
+    return sui.createSuiConnectedClient(network);
+  }
+
   throw new Error(`Unsupported network: ${network}`);
 }
 
@@ -29,7 +34,7 @@ export function createConnectedClient(network: string): ConnectedClient {
  * Creates a wallet client configured for the specified chain with a private key.
  *
  * @param network - The network to connect to.
- * @param privateKey - The private key to use for signing transactions. This should be a hex string for EVM or a base58 encoded string for SVM.
+ * @param privateKey - The private key to use for signing transactions. This should be a hex string for EVM, a base58 encoded string for SVM or a `suiprivkey` string for Sui.
  * @returns A wallet client instance connected to the specified chain with the provided private key.
  */
 export function createSigner(network: string, privateKey: Hex | string): Promise<Signer> {
@@ -43,6 +48,11 @@ export function createSigner(network: string, privateKey: Hex | string): Promise
     return svm.createSignerFromBase58(privateKey as string);
   }
 
+  // sui
+  if (SupportedSuiNetworks.find(n => n === network)) {
+    return Promise.resolve(sui.createSuiSigner(privateKey as string));
+  }
+
   throw new Error(`Unsupported network: ${network}`);
 }
 
@@ -66,6 +76,16 @@ export function isSvmSignerWallet(wallet: Signer): wallet is svm.SvmSigner {
   return svm.isSignerWallet(wallet);
 }
 
+/**
+ * Checks if the given wallet is a Sui signer
+ *
+ * @param wallet - The object wallet to check
+ * @returns True if the wallet is a Sui signer, false otherwise
+ */
+export function isSuiSignerWallet(wallet: Signer): wallet is sui.SuiSigner {
+  return sui.isSignerWallet(wallet);
+}
+
 /**
  * Checks if the given wallet is a multi network signer wallet
  *
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { NetworkSchema } from "../shared";
+import { SuiAddressRegex } from "../shared/sui";
 import { SvmAddressRegex } from "../shared/svm";
 import { Base64EncodedRegex } from "../../shared/base64";
 
@@ -8,17 +9,35 @@ const EvmMaxAtomicUnits = 18;
 const EvmAddressRegex = /^0x[0-9a-fA-F]{40}$/;
 const MixedAddressRegex = /^0x[a-fA-F0-9]{40}|[A-Za-z0-9][A-Za-z0-9-]{0,34}[A-Za-z0-9]$/;
 const HexEncoded64ByteRegex = /^0x[0-9a-fA-F]{64}$/;
+const Uint256Regex = /^[0-9]{1,78}$/;
 const EvmSignatureRegex = /^0x[0-9a-fA-F]+$/; // Flexible hex signature validation
 // Enums
-export const schemes = ["exact"] as const;
-export const x402Versions = [1] as const;
+export const schemes = [
+  "exact",
+  "upto",
+  "permit",
+  "escrow",
+  "channel",
+  "confidential",
+  "shielded",
+] as const;
+// versions of the protocol, clients and servers use the highest version they both support
+export const x402Versions = [1, 2] as const;
+export type X402Version = (typeof x402Versions)[number];
 export const ErrorReasons = [
+  "duplicate_payment",
+  "facilitator_request_failed",
   "insufficient_funds",
   "invalid_exact_evm_payload_authorization_valid_after",
   "invalid_exact_evm_payload_authorization_valid_before",
   "invalid_exact_evm_payload_authorization_value",
   "invalid_exact_evm_payload_signature",
   "invalid_exact_evm_payload_recipient_mismatch",
+  "invalid_exact_evm_payload_permit2_allowance",
+  "invalid_exact_evm_payload_permit2_nonce",
+  "invalid_exact_evm_payload_permit2_resource_mismatch",
+  "invalid_exact_evm_payload_permit2_spender_mismatch",
+  "invalid_exact_evm_payload_permit2_token_mismatch",
   "invalid_exact_svm_payload_transaction",
   "invalid_exact_svm_payload_transaction_amount_mismatch",
   "invalid_exact_svm_payload_transaction_create_ata_instruction",
@@ -38,12 +57,73 @@ export const ErrorReasons = [
   "invalid_exact_svm_payload_transaction_sender_ata_not_found",
   "invalid_exact_svm_payload_transaction_simulation_failed",
   "invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata",
+  "invalid_confidential_svm_payload_amount_mismatch",
+  "invalid_confidential_svm_payload_amount_proof",
+  "invalid_confidential_svm_payload_proof_context",
+  "invalid_confidential_svm_payload_transaction_incorrect_asset",
+  "invalid_confidential_svm_payload_transaction_instructions",
+  "invalid_confidential_svm_payload_transaction_simulation_failed",
+  "invalid_confidential_svm_payload_transaction_transfer_to_incorrect_ata",
+  "invalid_exact_sui_payload_signature",
+  "invalid_exact_sui_payload_sponsor_commands",
+  "invalid_exact_sui_payload_sponsor_gas_budget",
+  "invalid_exact_sui_payload_sponsor_gas_coin_used",
+  "invalid_exact_sui_payload_sponsor_mismatch",
+  "invalid_exact_sui_payload_transaction",
+  "invalid_exact_sui_payload_transaction_amount_mismatch",
+  "invalid_exact_sui_payload_transaction_simulation_failed",
+  "invalid_upto_evm_payload_permit_deadline",
+  "invalid_upto_evm_payload_permit_nonce",
+  "invalid_upto_evm_payload_permit_value",
+  "invalid_upto_evm_payload_signature",
+  "invalid_upto_evm_payload_router_mismatch",
+  "invalid_upto_evm_payload_transfer_signature",
+  "invalid_upto_settlement_amount",
+  "invalid_permit_evm_payload_permit_deadline",
+  "invalid_permit_evm_payload_permit_nonce",
+  "invalid_permit_evm_payload_permit_value",
+  "invalid_permit_evm_payload_router_mismatch",
+  "invalid_permit_evm_payload_signature",
+  "invalid_permit_evm_payload_transfer_signature",
+  "invalid_permit_settlement_amount",
+  "invalid_escrow_deposit",
+  "invalid_escrow_evm_payload_authorization_valid_after",
+  "invalid_escrow_evm_payload_authorization_valid_before",
+  "invalid_escrow_evm_payload_authorization_value",
+  "invalid_escrow_evm_payload_escrow_mismatch",
+  "invalid_escrow_evm_payload_nonce",
+  "invalid_escrow_evm_payload_signature",
+  "invalid_escrow_settlement_amount",
+  "invalid_channel",
+  "invalid_channel_evm_payload_authorization_valid_after",
+  "invalid_channel_evm_payload_authorization_valid_before",
+  "invalid_channel_evm_payload_authorization_value",
+  "invalid_channel_evm_payload_channel_mismatch",
+  "invalid_channel_evm_payload_nonce",
+  "invalid_channel_evm_payload_signature",
+  "invalid_channel_voucher_amount",
+  "invalid_channel_voucher_signature",
+  "invalid_channel_settlement_amount",
+  "invalid_shielded_evm_payload_amount_mismatch",
+  "invalid_shielded_evm_payload_asset_mismatch",
+  "invalid_shielded_evm_payload_deadline",
+  "invalid_shielded_evm_payload_pool_mismatch",
+  "invalid_shielded_evm_payload_recipient_mismatch",
+  "invalid_shielded_evm_payload_ring",
+  "invalid_shielded_evm_payload_signature",
+  "invalid_refund",
+  "invalid_refund_amount",
+  "duplicate_refund",
   "invalid_network",
   "invalid_payload",
   "invalid_payment_requirements",
   "invalid_scheme",
   "invalid_payment",
+  "invalid_request_binding",
+  "no_matching_payment_requirements",
+  "payment_amount_exceeds_maximum",
   "payment_expired",
+  "payment_required",
   "unsupported_scheme",
   "invalid_x402_version",
   "invalid_transaction_state",
@@ -54,27 +134,36 @@ export const ErrorReasons = [
   "unexpected_settle_error",
   "unexpected_verify_error",
 ] as const;
+export type ErrorReason = (typeof ErrorReasons)[number];
 
 // Refiners
+const X402VersionSchema = z.number().refine(val => x402Versions.includes(val as X402Version));
 const isInteger: (value: string) => boolean = value =>
   Number.isInteger(Number(value)) && Number(value) >= 0;
 const hasMaxLength = (maxLength: number) => (value: string) => value.length <= maxLength;
 
 // x402PaymentRequirements
-const EvmOrSvmAddress = z.string().regex(EvmAddressRegex).or(z.string().regex(SvmAddressRegex));
+const EvmSvmOrSuiAddress = z
+  .string()
+  .regex(EvmAddressRegex)
+  .or(z.string().regex(SvmAddressRegex))
+  .or(z.string().regex(SuiAddressRegex));
 const mixedAddressOrSvmAddress = z
   .string()
   .regex(MixedAddressRegex)
   .or(z.string().regex(SvmAddressRegex));
+// schemes other than the built-in ones can be added through the scheme registry
+const SchemeSchema = z.string().min(1);
+
 export const PaymentRequirementsSchema = z.object({
-  scheme: z.enum(schemes),
+  scheme: SchemeSchema,
   network: NetworkSchema,
   maxAmountRequired: z.string().refine(isInteger),
   resource: z.string().url(),
   description: z.string(),
   mimeType: z.string(),
   outputSchema: z.record(z.any()).optional(),
-  payTo: EvmOrSvmAddress,
+  payTo: EvmSvmOrSuiAddress,
   maxTimeoutSeconds: z.number().int(),
   asset: mixedAddressOrSvmAddress,
   extra: z.record(z.any()).optional(),
@@ -98,28 +187,205 @@ export const ExactEvmPayloadSchema = z.object({
 });
 export type ExactEvmPayload = z.infer<typeof ExactEvmPayloadSchema>;
 
+// x402ExactEvmPermit2Payload, for tokens transferred through Permit2
+export const ExactEvmPermit2AuthorizationSchema = z.object({
+  from: z.string().regex(EvmAddressRegex),
+  permitted: z.object({
+    token: z.string().regex(EvmAddressRegex),
+    amount: z.string().refine(isInteger).refine(hasMaxLength(EvmMaxAtomicUnits)),
+  }),
+  spender: z.string().regex(EvmAddressRegex),
+  nonce: z.string().refine(isInteger),
+  deadline: z.string().refine(isInteger),
+  witness: z.object({
+    to: z.string().regex(EvmAddressRegex),
+    resource: z.string(),
+  }),
+});
+export type ExactEvmPermit2Authorization = z.infer<typeof ExactEvmPermit2AuthorizationSchema>;
+
+export const ExactEvmPermit2PayloadSchema = z.object({
+  signature: z.string().regex(EvmSignatureRegex),
+  permit2Authorization: ExactEvmPermit2AuthorizationSchema,
+});
+export type ExactEvmPermit2Payload = z.infer<typeof ExactEvmPermit2PayloadSchema>;
+
 // x402ExactSvmPayload
 export const ExactSvmPayloadSchema = z.object({
   transaction: z.string().regex(Base64EncodedRegex),
 });
 export type ExactSvmPayload = z.infer<typeof ExactSvmPayloadSchema>;
 
+// x402ConfidentialSvmPayload, a confidential transfer transaction and the proof disclosing its
+// amount to the facilitator
+export const ConfidentialSvmPayloadSchema = z.object({
+  transaction: z.string().regex(Base64EncodedRegex),
+  amountProof: z.string().regex(Base64EncodedRegex),
+});
+export type ConfidentialSvmPayload = z.infer<typeof ConfidentialSvmPayloadSchema>;
+
+// x402ExactSuiPayload
+export const ExactSuiPayloadSchema = z.object({
+  signature: z.string().regex(Base64EncodedRegex),
+  transaction: z.string().regex(Base64EncodedRegex),
+});
+export type ExactSuiPayload = z.infer<typeof ExactSuiPayloadSchema>;
+
+// x402SuiGasStationRequest
+export const SuiGasStationRequestSchema = z.object({
+  network: NetworkSchema,
+  sender: z.string().regex(SuiAddressRegex),
+  transactionKind: z.string().regex(Base64EncodedRegex),
+});
+export type SuiGasStationRequest = z.infer<typeof SuiGasStationRequestSchema>;
+
+// x402SuiGasStationResponse
+export const SuiGasStationResponseSchema = z.object({
+  transaction: z.string().regex(Base64EncodedRegex),
+});
+export type SuiGasStationResponse = z.infer<typeof SuiGasStationResponseSchema>;
+
+// x402UptoEvmPayload
+export const UptoEvmPayloadPermitSchema = z.object({
+  owner: z.string().regex(EvmAddressRegex),
+  spender: z.string().regex(EvmAddressRegex),
+  value: z.string().refine(isInteger).refine(hasMaxLength(EvmMaxAtomicUnits)),
+  nonce: z.string().refine(isInteger),
+  deadline: z.string().refine(isInteger),
+});
+export type UptoEvmPayloadPermit = z.infer<typeof UptoEvmPayloadPermitSchema>;
+
+export const UptoEvmPayloadSchema = z.object({
+  signature: z.string().regex(EvmSignatureRegex),
+  transferSignature: z.string().regex(EvmSignatureRegex),
+  permit: UptoEvmPayloadPermitSchema,
+});
+export type UptoEvmPayload = z.infer<typeof UptoEvmPayloadSchema>;
+
+// x402PermitEvmPayload
+export const PermitEvmPayloadSchema = z.object({
+  signature: z.string().regex(EvmSignatureRegex),
+  transferSignature: z.string().regex(EvmSignatureRegex),
+  permit: UptoEvmPayloadPermitSchema,
+});
+export type PermitEvmPayload = z.infer<typeof PermitEvmPayloadSchema>;
+
+// x402EscrowEvmPayload, an EIP-3009 authorization to the escrow whose nonce commits to the
+// escrow terms
+export const EscrowEvmPayloadSchema = z.object({
+  signature: z.string().regex(EvmSignatureRegex),
+  authorization: ExactEvmPayloadAuthorizationSchema,
+  salt: z.string().regex(HexEncoded64ByteRegex),
+});
+export type EscrowEvmPayload = z.infer<typeof EscrowEvmPayloadSchema>;
+
+// x402ChannelVoucher, the cumulative amount paid through a channel signed by its payer
+export const ChannelVoucherSchema = z.object({
+  channelId: z.string().regex(HexEncoded64ByteRegex),
+  amount: z.string().refine(isInteger).refine(hasMaxLength(EvmMaxAtomicUnits)),
+  signature: z.string().regex(EvmSignatureRegex),
+});
+export type ChannelVoucher = z.infer<typeof ChannelVoucherSchema>;
+
+// x402ChannelEvmPayload, a voucher, sent with the EIP-3009 authorization of the deposit to the
+// channel contract by the payment opening the channel
+export const ChannelEvmPayloadSchema = z.object({
+  voucher: ChannelVoucherSchema,
+  open: EscrowEvmPayloadSchema.optional(),
+});
+export type ChannelEvmPayload = z.infer<typeof ChannelEvmPayloadSchema>;
+
+// x402ShieldedEvmPayload, a withdrawal of a note of a shielded pool to `payTo`, signed with a
+// linkable ring signature hiding the note among other notes of the pool
+export const ShieldedEvmWithdrawalSchema = z.object({
+  recipient: z.string().regex(EvmAddressRegex),
+  nonce: z.string().regex(HexEncoded64ByteRegex),
+  deadline: z.string().regex(Uint256Regex),
+});
+export type ShieldedEvmWithdrawal = z.infer<typeof ShieldedEvmWithdrawalSchema>;
+
+export const ShieldedEvmRingSignatureSchema = z.object({
+  ring: z.array(z.string().regex(Uint256Regex)).min(1),
+  keyImage: z.tuple([z.string().regex(Uint256Regex), z.string().regex(Uint256Regex)]),
+  c: z.string().regex(Uint256Regex),
+  s: z.array(z.string().regex(Uint256Regex)).min(1),
+});
+export type ShieldedEvmRingSignature = z.infer<typeof ShieldedEvmRingSignatureSchema>;
+
+export const ShieldedEvmPayloadSchema = z.object({
+  pool: z.string().regex(EvmAddressRegex),
+  withdrawal: ShieldedEvmWithdrawalSchema,
+  signature: ShieldedEvmRingSignatureSchema,
+});
+export type ShieldedEvmPayload = z.infer<typeof ShieldedEvmPayloadSchema>;
+
 // x402PaymentPayload
 export const PaymentPayloadSchema = z.object({
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
-  scheme: z.enum(schemes),
+  x402Version: X402VersionSchema,
+  scheme: SchemeSchema,
   network: NetworkSchema,
-  payload: z.union([ExactEvmPayloadSchema, ExactSvmPayloadSchema]),
+  // the payload is validated against the schema registered for the scheme and network
+  payload: z.union([
+    // escrow payloads extend exact payloads with a salt, so they are matched first
+    EscrowEvmPayloadSchema,
+    ChannelEvmPayloadSchema,
+    ShieldedEvmPayloadSchema,
+    ExactEvmPayloadSchema,
+    ExactEvmPermit2PayloadSchema,
+    // sui and confidential payloads extend svm payloads, so they are matched first
+    ExactSuiPayloadSchema,
+    ConfidentialSvmPayloadSchema,
+    ExactSvmPayloadSchema,
+    // permit payloads extend upto payloads, so they are matched first
+    PermitEvmPayloadSchema,
+    UptoEvmPayloadSchema,
+    z.record(z.unknown()),
+  ]),
+  // the payment requirements a version 2 payment was created for
+  accepted: PaymentRequirementsSchema.optional(),
 });
 export type PaymentPayload = z.infer<typeof PaymentPayloadSchema>;
+
+// x402PaymentPayload as sent in the X-PAYMENT header by version 2 clients, the scheme and network
+// are those of the accepted payment requirements
+export const PaymentPayloadV2Schema = z.object({
+  x402Version: z.literal(2),
+  accepted: PaymentRequirementsSchema,
+  payload: PaymentPayloadSchema.shape.payload,
+});
+export type PaymentPayloadV2 = z.infer<typeof PaymentPayloadV2Schema>;
 export type UnsignedPaymentPayload = Omit<PaymentPayload, "payload"> & {
   payload: Omit<ExactEvmPayload, "signature"> & { signature: undefined };
 };
+export type UnsignedPermit2PaymentPayload = Omit<PaymentPayload, "payload"> & {
+  payload: Omit<ExactEvmPermit2Payload, "signature"> & { signature: undefined };
+};
+export type UnsignedUptoPaymentPayload = Omit<PaymentPayload, "payload"> & {
+  payload: Omit<UptoEvmPayload, "signature" | "transferSignature"> & {
+    signature: undefined;
+    transferSignature: undefined;
+  };
+};
+export type UnsignedPermitPaymentPayload = Omit<PaymentPayload, "payload"> & {
+  payload: Omit<PermitEvmPayload, "signature" | "transferSignature"> & {
+    signature: undefined;
+    transferSignature: undefined;
+  };
+};
+export type UnsignedEscrowPaymentPayload = Omit<PaymentPayload, "payload"> & {
+  payload: Omit<EscrowEvmPayload, "signature"> & { signature: undefined };
+};
 
 // x402 Resource Server Response
 export const x402ResponseSchema = z.object({
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
-  error: z.enum(ErrorReasons).optional(),
+  // the version legacy clients use, the lowest version accepted by the server
+  x402Version: X402VersionSchema,
+  // every version accepted by the server
+  x402Versions: z.array(X402VersionSchema).optional(),
+  // a human readable description of the error
+  error: z.string().optional(),
+  // a stable, machine readable error code
+  code: z.enum(ErrorReasons).optional(),
   accepts: z.array(PaymentRequirementsSchema).optional(),
   payer: z.string().regex(MixedAddressRegex).optional(),
 });
@@ -168,7 +434,7 @@ export type RequestStructure = z.infer<typeof RequestStructureSchema>;
 export const DiscoveredResourceSchema = z.object({
   resource: z.string(),
   type: z.enum(["http"]),
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
+  x402Version: X402VersionSchema,
   accepts: z.array(PaymentRequirementsSchema),
   lastUpdated: z.date(),
   metadata: z.record(z.any()).optional(),
@@ -179,6 +445,10 @@ export type DiscoveredResource = z.infer<typeof DiscoveredResourceSchema>;
 export const SettleRequestSchema = z.object({
   paymentPayload: PaymentPayloadSchema,
   paymentRequirements: PaymentRequirementsSchema,
+  // the amount to charge for usage-based schemes, at most paymentRequirements.maxAmountRequired
+  settlementAmount: z.string().refine(isInteger).optional(),
+  // lets the facilitator settle the payment in a single transaction with other payments
+  batch: z.boolean().optional(),
 });
 export type SettleRequest = z.infer<typeof SettleRequestSchema>;
 
@@ -193,7 +463,7 @@ export type VerifyRequest = z.infer<typeof VerifyRequestSchema>;
 export const VerifyResponseSchema = z.object({
   isValid: z.boolean(),
   invalidReason: z.enum(ErrorReasons).optional(),
-  payer: EvmOrSvmAddress.optional(),
+  payer: EvmSvmOrSuiAddress.optional(),
 });
 export type VerifyResponse = z.infer<typeof VerifyResponseSchema>;
 
@@ -201,12 +471,32 @@ export type VerifyResponse = z.infer<typeof VerifyResponseSchema>;
 export const SettleResponseSchema = z.object({
   success: z.boolean(),
   errorReason: z.enum(ErrorReasons).optional(),
-  payer: EvmOrSvmAddress.optional(),
+  payer: EvmSvmOrSuiAddress.optional(),
   transaction: z.string().regex(MixedAddressRegex),
   network: NetworkSchema,
+  blockNumber: z.string().refine(isInteger).optional(),
 });
 export type SettleResponse = z.infer<typeof SettleResponseSchema>;
 
+// x402RefundRequest
+export const RefundRequestSchema = z.object({
+  // the settlement of the payment to refund and the payment requirements it was settled for
+  settleResponse: SettleResponseSchema,
+  paymentRequirements: PaymentRequirementsSchema,
+  // an `exact` payment of the refund to the payer, created for `getRefundRequirements`
+  refundPayload: PaymentPayloadSchema,
+  // the amount to refund, at most paymentRequirements.maxAmountRequired
+  amount: z.string().refine(isInteger).optional(),
+});
+export type RefundRequest = z.infer<typeof RefundRequestSchema>;
+
+// x402RefundResponse
+export const RefundResponseSchema = SettleResponseSchema.extend({
+  // the settlement transaction of the refunded payment, `transaction` is the refund transaction
+  originalTransaction: z.string(),
+});
+export type RefundResponse = z.infer<typeof RefundResponseSchema>;
+
 // x402DiscoverListRequest
 export const ListDiscoveryResourcesRequestSchema = z.object({
   type: z.string().optional(),
@@ -217,7 +507,7 @@ export type ListDiscoveryResourcesRequest = z.infer<typeof ListDiscoveryResource
 
 // x402ListDiscoveryResourcesResponse
 export const ListDiscoveryResourcesResponseSchema = z.object({
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
+  x402Version: X402VersionSchema,
   items: z.array(DiscoveredResourceSchema),
   pagination: z.object({
     limit: z.number(),
@@ -229,8 +519,8 @@ export type ListDiscoveryResourcesResponse = z.infer<typeof ListDiscoveryResourc
 
 // x402SupportedPaymentKind
 export const SupportedPaymentKindSchema = z.object({
-  x402Version: z.number().refine(val => x402Versions.includes(val as 1)),
-  scheme: z.enum(schemes),
+  x402Version: X402VersionSchema,
+  scheme: SchemeSchema,
   network: NetworkSchema,
   extra: z.record(z.any()).optional(),
 });
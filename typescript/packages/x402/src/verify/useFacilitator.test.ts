@@ -123,6 +123,38 @@ describe("useFacilitator", () => {
       });
     });
 
+    it("should send the settlement amount when provided", async () => {
+      const { settle } = useFacilitator();
+      await settle(mockPaymentPayload, mockPaymentRequirements, "250000");
+
+      expect(fetch).toHaveBeenCalledWith("https://x402.org/facilitator/settle", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          x402Version: mockPaymentPayload.x402Version,
+          paymentPayload: mockPaymentPayload,
+          paymentRequirements: mockPaymentRequirements,
+          settlementAmount: "250000",
+        }),
+      });
+    });
+
+    it("should ask for batched settlement when requested", async () => {
+      const { settle } = useFacilitator();
+      await settle(mockPaymentPayload, mockPaymentRequirements, undefined, true);
+
+      expect(fetch).toHaveBeenCalledWith("https://x402.org/facilitator/settle", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          x402Version: mockPaymentPayload.x402Version,
+          paymentPayload: mockPaymentPayload,
+          paymentRequirements: mockPaymentRequirements,
+          batch: true,
+        }),
+      });
+    });
+
     it("should use custom URL when provided", async () => {
       const customUrl = "https://custom-facilitator.org";
       const { settle } = useFacilitator({ url: customUrl });
@@ -173,6 +205,119 @@ describe("useFacilitator", () => {
     });
   });
 
+  describe("releaseEscrow", () => {
+    it("should post the payment and settlement amount to the release endpoint", async () => {
+      const { releaseEscrow } = useFacilitator();
+      await releaseEscrow(mockPaymentPayload, mockPaymentRequirements, "250000");
+
+      expect(fetch).toHaveBeenCalledWith("https://x402.org/facilitator/escrow/release", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          x402Version: mockPaymentPayload.x402Version,
+          paymentPayload: mockPaymentPayload,
+          paymentRequirements: mockPaymentRequirements,
+          settlementAmount: "250000",
+        }),
+      });
+    });
+
+    it("should throw error on non-200 response", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        status: 400,
+        statusText: "Bad Request",
+        json: async () => ({}),
+      });
+      const { releaseEscrow } = useFacilitator();
+
+      await expect(releaseEscrow(mockPaymentPayload, mockPaymentRequirements)).rejects.toThrow(
+        "Failed to release escrowed payment: 400 Bad Request",
+      );
+    });
+  });
+
+  describe("closeChannel", () => {
+    it("should post the payment and settlement amount to the channel close endpoint", async () => {
+      const { closeChannel } = useFacilitator();
+      await closeChannel(mockPaymentPayload, mockPaymentRequirements, "3000");
+
+      expect(fetch).toHaveBeenCalledWith("https://x402.org/facilitator/channel/close", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          x402Version: mockPaymentPayload.x402Version,
+          paymentPayload: mockPaymentPayload,
+          paymentRequirements: mockPaymentRequirements,
+          settlementAmount: "3000",
+        }),
+      });
+    });
+  });
+
+  describe("refundEscrow", () => {
+    it("should post the payment to the refund endpoint with the settle auth headers", async () => {
+      const mockHeaders = {
+        verify: { Authorization: "Bearer verify-token" },
+        settle: { Authorization: "Bearer settle-token" },
+        supported: { Authorization: "Bearer supported-token" },
+      };
+      const { refundEscrow } = useFacilitator({
+        url: "https://x402.org/facilitator",
+        createAuthHeaders: async () => mockHeaders,
+      });
+      await refundEscrow(mockPaymentPayload, mockPaymentRequirements);
+
+      expect(fetch).toHaveBeenCalledWith("https://x402.org/facilitator/escrow/refund", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...mockHeaders.settle },
+        body: JSON.stringify({
+          x402Version: mockPaymentPayload.x402Version,
+          paymentPayload: mockPaymentPayload,
+          paymentRequirements: mockPaymentRequirements,
+        }),
+      });
+    });
+  });
+
+  describe("refund", () => {
+    const settleResponse = {
+      success: true,
+      transaction: `0x${"ab".repeat(32)}`,
+      network: "base-sepolia" as const,
+      payer: "0x1234567890123456789012345678901234567890",
+    };
+
+    it("should post the settlement, the refund payment and the amount to the refund endpoint", async () => {
+      const { refund } = useFacilitator();
+      await refund(settleResponse, mockPaymentRequirements, mockPaymentPayload, "500000");
+
+      expect(fetch).toHaveBeenCalledWith("https://x402.org/facilitator/refund", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          x402Version: mockPaymentPayload.x402Version,
+          settleResponse,
+          paymentRequirements: mockPaymentRequirements,
+          refundPayload: mockPaymentPayload,
+          amount: "500000",
+        }),
+      });
+    });
+
+    it("should throw error on non-200 response", async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        status: 400,
+        statusText: "Bad Request",
+        json: async () => ({}),
+      });
+      const { refund } = useFacilitator();
+
+      await expect(
+        refund(settleResponse, mockPaymentRequirements, mockPaymentPayload),
+      ).rejects.toThrow("Failed to refund payment: 400 Bad Request");
+    });
+  });
+
   describe("supported", () => {
     it("should call fetch with the correct default URL", async () => {
       const { supported } = useFacilitator();
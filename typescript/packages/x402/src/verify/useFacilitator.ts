@@ -3,11 +3,13 @@ import {
   ListDiscoveryResourcesRequest,
   ListDiscoveryResourcesResponse,
   FacilitatorConfig,
+  FacilitatorError,
   SupportedPaymentKindsResponse,
 } from "../types";
 import {
   PaymentPayload,
   PaymentRequirements,
+  RefundResponse,
   SettleResponse,
   VerifyResponse,
 } from "../types/verify";
@@ -25,7 +27,7 @@ export type CreateHeaders = () => Promise<{
  * Creates a facilitator client for interacting with the X402 payment facilitator service
  *
  * @param facilitator - The facilitator config to use. If not provided, the default facilitator will be used.
- * @returns An object containing verify and settle functions for interacting with the facilitator
+ * @returns An object containing verify, settle, escrow, channel and refund functions for interacting with the facilitator
  */
 export function useFacilitator(facilitator?: FacilitatorConfig) {
   /**
@@ -34,6 +36,7 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
    * @param payload - The payment payload to verify
    * @param paymentRequirements - The payment requirements to verify against
    * @returns A promise that resolves to the verification response
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
    */
   async function verify(
     payload: PaymentPayload,
@@ -58,7 +61,7 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
     });
 
     if (res.status !== 200) {
-      throw new Error(`Failed to verify payment: ${res.statusText}`);
+      throw new FacilitatorError(`Failed to verify payment: ${res.statusText}`, res.status);
     }
 
     const data = await res.json();
@@ -70,11 +73,16 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
    *
    * @param payload - The payment payload to settle
    * @param paymentRequirements - The payment requirements for the settlement
+   * @param settlementAmount - The amount to charge for usage-based schemes such as `upto` and `permit`
+   * @param batch - Whether the facilitator may settle the payment in a batch with other payments
    * @returns A promise that resolves to the settlement response
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
    */
   async function settle(
     payload: PaymentPayload,
     paymentRequirements: PaymentRequirements,
+    settlementAmount?: string,
+    batch?: boolean,
   ): Promise<SettleResponse> {
     const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
 
@@ -91,22 +99,182 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
         x402Version: payload.x402Version,
         paymentPayload: toJsonSafe(payload),
         paymentRequirements: toJsonSafe(paymentRequirements),
+        ...(settlementAmount !== undefined ? { settlementAmount } : {}),
+        ...(batch ? { batch } : {}),
       }),
     });
 
     if (res.status !== 200) {
       const text = res.statusText;
-      throw new Error(`Failed to settle payment: ${res.status} ${text}`);
+      throw new FacilitatorError(`Failed to settle payment: ${res.status} ${text}`, res.status);
     }
 
     const data = await res.json();
     return data as SettleResponse;
   }
 
+  /**
+   * Releases a payment held in escrow since it was settled, for schemes such as `escrow`
+   *
+   * @param payload - The payment payload that was settled
+   * @param paymentRequirements - The payment requirements the payment was settled for
+   * @param settlementAmount - The amount to release to payTo, the rest is refunded to the payer
+   * @returns A promise that resolves to the settlement response of the release
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
+   */
+  async function releaseEscrow(
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    settlementAmount?: string,
+  ): Promise<SettleResponse> {
+    return postSettlement(
+      "escrow/release",
+      "release escrowed payment",
+      payload,
+      paymentRequirements,
+      settlementAmount,
+    );
+  }
+
+  /**
+   * Refunds a payment held in escrow since it was settled to its payer, for schemes such as `escrow`
+   *
+   * @param payload - The payment payload that was settled
+   * @param paymentRequirements - The payment requirements the payment was settled for
+   * @returns A promise that resolves to the settlement response of the refund
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
+   */
+  async function refundEscrow(
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ): Promise<SettleResponse> {
+    return postSettlement("escrow/refund", "refund escrowed payment", payload, paymentRequirements);
+  }
+
+  /**
+   * Closes the channel a payment was made through, for schemes such as `channel`, paying payTo
+   * the cumulative `settlementAmount` and refunding the rest of the deposit to the payer
+   *
+   * @param payload - The payment carrying the latest voucher of the channel
+   * @param paymentRequirements - The payment requirements the channel was opened for
+   * @param settlementAmount - The cumulative amount to pay, defaults to the amount of the voucher
+   * @returns A promise that resolves to the settlement response of the closing
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
+   */
+  async function closeChannel(
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    settlementAmount?: string,
+  ): Promise<SettleResponse> {
+    return postSettlement(
+      "channel/close",
+      "close payment channel",
+      payload,
+      paymentRequirements,
+      settlementAmount,
+    );
+  }
+
+  /**
+   * Posts a settled payment to an endpoint of the facilitator service moving its funds, such as
+   * the release or refund of an escrowed payment
+   *
+   * @param path - The path of the endpoint
+   * @param action - What the endpoint does, reported when it fails
+   * @param payload - The payment payload that was settled
+   * @param paymentRequirements - The payment requirements the payment was settled for
+   * @param settlementAmount - The amount to pay to payTo
+   * @returns A promise that resolves to the settlement response
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
+   */
+  async function postSettlement(
+    path: string,
+    action: string,
+    payload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    settlementAmount?: string,
+  ): Promise<SettleResponse> {
+    const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
+
+    // releases and refunds move funds like settlements, so they are authenticated alike
+    let headers = { "Content-Type": "application/json" };
+    if (facilitator?.createAuthHeaders) {
+      const authHeaders = await facilitator.createAuthHeaders();
+      headers = { ...headers, ...authHeaders.settle };
+    }
+
+    const res = await fetch(`${url}/${path}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        x402Version: payload.x402Version,
+        paymentPayload: toJsonSafe(payload),
+        paymentRequirements: toJsonSafe(paymentRequirements),
+        ...(settlementAmount !== undefined ? { settlementAmount } : {}),
+      }),
+    });
+
+    if (res.status !== 200) {
+      const text = res.statusText;
+      throw new FacilitatorError(`Failed to ${action}: ${res.status} ${text}`, res.status);
+    }
+
+    const data = await res.json();
+    return data as SettleResponse;
+  }
+
+  /**
+   * Refunds a settled payment with the facilitator service
+   *
+   * @param settleResponse - The settlement of the payment to refund
+   * @param paymentRequirements - The payment requirements the payment was settled for
+   * @param refundPayload - An `exact` payment of the refund to the payer, signed by the refund
+   * wallet for the requirements built by `getRefundRequirements`
+   * @param amount - The amount to refund, defaults to `maxAmountRequired`
+   * @returns A promise that resolves to the refund response
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
+   */
+  async function refund(
+    settleResponse: SettleResponse,
+    paymentRequirements: PaymentRequirements,
+    refundPayload: PaymentPayload,
+    amount?: string,
+  ): Promise<RefundResponse> {
+    const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
+
+    // refunds move funds like settlements, so they are authenticated alike
+    let headers = { "Content-Type": "application/json" };
+    if (facilitator?.createAuthHeaders) {
+      const authHeaders = await facilitator.createAuthHeaders();
+      headers = { ...headers, ...authHeaders.settle };
+    }
+
+    const res = await fetch(`${url}/refund`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        x402Version: refundPayload.x402Version,
+        settleResponse,
+        paymentRequirements: toJsonSafe(paymentRequirements),
+        refundPayload: toJsonSafe(refundPayload),
+        ...(amount !== undefined ? { amount } : {}),
+      }),
+    });
+
+    if (res.status !== 200) {
+      const text = res.statusText;
+      throw new FacilitatorError(`Failed to refund payment: ${res.status} ${text}`, res.status);
+    }
+
+    const data = await res.json();
+    return data as RefundResponse;
+  }
+
   /**
    * Gets the supported payment kinds from the facilitator service.
    *
    * @returns A promise that resolves to the supported payment kinds
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
    */
   async function supported(): Promise<SupportedPaymentKindsResponse> {
     const url = facilitator?.url || DEFAULT_FACILITATOR_URL;
@@ -123,7 +291,10 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
     });
 
     if (res.status !== 200) {
-      throw new Error(`Failed to get supported payment kinds: ${res.statusText}`);
+      throw new FacilitatorError(
+        `Failed to get supported payment kinds: ${res.statusText}`,
+        res.status,
+      );
     }
 
     const data = await res.json();
@@ -135,6 +306,7 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
    *
    * @param config - The configuration for the discovery list request
    * @returns A promise that resolves to the discovery list response
+   * @throws FacilitatorError if the facilitator does not respond with a 200 status
    */
   async function list(
     config: ListDiscoveryResourcesRequest = {},
@@ -162,14 +334,23 @@ export function useFacilitator(facilitator?: FacilitatorConfig) {
 
     if (res.status !== 200) {
       const text = res.statusText;
-      throw new Error(`Failed to list discovery: ${res.status} ${text}`);
+      throw new FacilitatorError(`Failed to list discovery: ${res.status} ${text}`, res.status);
     }
 
     const data = await res.json();
     return data as ListDiscoveryResourcesResponse;
   }
 
-  return { verify, settle, supported, list };
+  return {
+    verify,
+    settle,
+    releaseEscrow,
+    refundEscrow,
+    closeChannel,
+    refund,
+    supported,
+    list,
+  };
 }
 
 export const { verify, settle, supported, list } = useFacilitator();
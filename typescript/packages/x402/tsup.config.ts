@@ -6,9 +6,11 @@ const baseConfig = {
     "shared/index": "src/shared/index.ts",
     "shared/evm/index": "src/shared/evm/index.ts",
     "schemes/index": "src/schemes/index.ts",
+    "schemes/confidential/index": "src/schemes/confidential/index.ts",
     "client/index": "src/client/index.ts",
     "verify/index": "src/verify/index.ts",
     "facilitator/index": "src/facilitator/index.ts",
+    "server/index": "src/server/index.ts",
     "paywall/index": "src/paywall/index.ts",
     "types/index": "src/types/index.ts",
   },